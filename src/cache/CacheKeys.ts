@@ -0,0 +1,53 @@
+/**
+ * Cache Keys
+ * Key builders shared by everything that reads or writes the cache
+ */
+
+/**
+ * Cache key utilities
+ */
+export const CacheKeys = {
+  // AI conversation caching
+  conversation: (sessionId: string) => `conv:${sessionId}`,
+  conversationMessages: (sessionId: string) => `conv:${sessionId}:messages`,
+  conversationState: (sessionId: string) => `conv:${sessionId}:state`,
+
+  // AI response caching
+  aiResponse: (hash: string) => `ai:response:${hash}`,
+  semanticResponseIndex: (scope: string) => `ai:response:semantic:${scope}`,
+  aiModel: (model: string) => `ai:model:${model}`,
+  aiProvider: (provider: string) => `ai:provider:${provider}`,
+
+  // Tenant-scoped conversation data; tenant data keys must start with tenant()
+  tenant: (tenantId: string) => `tenant:${tenantId}`,
+  tenantConversation: (tenantId: string, conversationId: string) =>
+    `tenant:${tenantId}:conv:${conversationId}`,
+  tenantConversationMessages: (tenantId: string, conversationId: string) =>
+    `tenant:${tenantId}:conv:${conversationId}:messages`,
+  tenantUserConversations: (tenantId: string, userId: string) =>
+    `tenant:${tenantId}:user:${userId}:conversations`,
+  tenantUserStats: (tenantId: string, userId: string) =>
+    `tenant:${tenantId}:user:${userId}:stats`,
+
+  // User session caching
+  userSession: (userId: string) => `user:${userId}:session`,
+  userPreferences: (userId: string) => `user:${userId}:prefs`,
+  userHistory: (userId: string) => `user:${userId}:history`,
+
+  // Performance and analytics
+  metrics: (metric: string) => `metrics:${metric}`,
+  analytics: (event: string) => `analytics:${event}`,
+  performance: (operation: string) => `perf:${operation}`,
+
+  // Security and rate limiting
+  rateLimit: (identifier: string) => `rate:${identifier}`,
+  securityEvent: (type: string) => `security:${type}`,
+
+  // Content and media
+  content: (contentId: string) => `content:${contentId}`,
+  media: (mediaId: string) => `media:${mediaId}`,
+
+  // API and gateway
+  apiKey: (keyId: string) => `api:key:${keyId}`,
+  gateway: (endpoint: string) => `gateway:${endpoint}`,
+} as const;
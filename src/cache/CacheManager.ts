@@ -14,9 +14,73 @@ import { MemoryCache, type MemoryCacheConfig } from './MemoryCache';
 import { PerformanceMonitor } from '../telemetry/PerformanceMonitor';
 
 /**
- * Cache provider types
+ * Cache provider types. `tiered` reads through memory (L1) to Redis (L2).
  */
-export type CacheProvider = 'redis' | 'memory' | 'auto';
+export type CacheProvider = 'redis' | 'memory' | 'auto' | 'tiered';
+
+/**
+ * Cache tier that served or missed a tiered read
+ */
+export type CacheTier = 'l1' | 'l2';
+
+/**
+ * Two-tier cache configuration
+ */
+export interface TieredCacheConfig {
+  l1Ttl: number; // seconds; caps how long an instance may serve a stale L1 entry
+  invalidationChannel: string;
+}
+
+/**
+ * Invalidation broadcast to every instance's L1
+ */
+export type CacheInvalidation =
+  | { type: 'keys'; keys: string[] }
+  | { type: 'clear'; pattern?: string }
+  | { type: 'patterns'; patterns: CachePattern[] };
+
+export type CacheInvalidationMessage = CacheInvalidation & { source: string };
+
+/**
+ * Options for loading a value through the cache
+ */
+export interface GetOrSetOptions {
+  ttl: number; // seconds a loaded value is fresh
+  staleTtl: number; // seconds a stale value is served while it refreshes
+  earlyExpiration: number; // Eagerness of probabilistic early refresh; 0 disables
+}
+
+/**
+ * How a `getOrSet` call was answered
+ */
+export type GetOrSetOutcome =
+  | 'fresh'
+  | 'stale'
+  | 'early-refresh'
+  | 'loaded'
+  | 'coalesced';
+
+/**
+ * Value stored by `getOrSet`, with the times it goes stale and expires
+ */
+interface LoadedEntry<T> {
+  kind: 'loaded';
+  value: T;
+  freshUntil: number;
+  staleUntil: number;
+  loadTime: number; // milliseconds the loader took
+}
+
+export const DEFAULT_GET_OR_SET_OPTIONS: GetOrSetOptions = {
+  ttl: 3600, // 1 hour
+  staleTtl: 0,
+  earlyExpiration: 1,
+};
+
+export const DEFAULT_TIERED_CACHE_CONFIG: TieredCacheConfig = {
+  l1Ttl: 60, // 1 minute
+  invalidationChannel: 'cache:invalidate',
+};
 
 /**
  * Cache manager configuration
@@ -25,6 +89,7 @@ export interface CacheManagerConfig {
   provider: CacheProvider;
   redis?: RedisCacheConfig;
   memory?: MemoryCacheConfig;
+  tiered?: Partial<TieredCacheConfig>;
   fallback: {
     enabled: boolean;
     strategy: 'memory' | 'none';
@@ -57,6 +122,7 @@ export interface CacheResult<T = any> {
   provider: 'redis' | 'memory';
   latency: number;
   error?: Error;
+  tier?: CacheTier; // Set on tiered reads
 }
 
 /**
@@ -85,11 +151,16 @@ export class CacheManager extends EventEmitter {
   private batchQueue: BatchOperation[] = [];
   private batchTimer: NodeJS.Timeout | null = null;
   private prefetchQueue = new Set<string>();
+  private inflightLoads = new Map<string, Promise<unknown>>();
   private initialized = false;
+  private tieredConfig: TieredCacheConfig;
+  private instanceId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  private unsubscribeInvalidations: (() => Promise<void>) | null = null;
 
   constructor(config: CacheManagerConfig) {
     super();
     this.config = config;
+    this.tieredConfig = { ...DEFAULT_TIERED_CACHE_CONFIG, ...config.tiered };
     this.performanceMonitor = PerformanceMonitor.getInstance();
   }
 
@@ -121,7 +192,7 @@ export class CacheManager extends EventEmitter {
     }
 
     // Setup Redis cache
-    if (this.config.provider === 'redis' || this.config.provider === 'auto') {
+    if (this.config.provider !== 'memory') {
       if (this.config.redis) {
         try {
           this.redisCache = new RedisCache(this.config.redis);
@@ -148,6 +219,13 @@ export class CacheManager extends EventEmitter {
       }
     }
 
+    if (this.config.provider === 'tiered' && this.redisCache?.isConnected()) {
+      if (!this.memoryCache) {
+        throw new Error('Tiered caching needs a memory cache configuration');
+      }
+      await this.subscribeToInvalidations();
+    }
+
     // Fallback to memory if Redis failed or not configured
     if (!this.redisCache?.isConnected() && this.config.fallback.enabled) {
       if (!this.memoryCache && this.config.memory) {
@@ -163,6 +241,12 @@ export class CacheManager extends EventEmitter {
   private handleRedisFailure(error: Error): void {
     this.emit('redis-failure', error);
 
+    // Resubscribed once Redis is back
+    if (this.unsubscribeInvalidations) {
+      this.unsubscribeInvalidations().catch(() => {});
+      this.unsubscribeInvalidations = null;
+    }
+
     if (
       this.config.fallback.enabled &&
       this.config.fallback.strategy === 'memory'
@@ -191,6 +275,11 @@ export class CacheManager extends EventEmitter {
           this.activeProvider = 'redis';
           this.retryAttempts = 0;
           this.retryTimer = null;
+          if (this.config.provider === 'tiered') {
+            // Invalidations sent while disconnected were missed
+            await this.memoryCache?.clear();
+            await this.subscribeToInvalidations();
+          }
           console.log('✅ Redis cache reconnected');
           this.emit('redis-reconnected');
         }
@@ -209,10 +298,17 @@ export class CacheManager extends EventEmitter {
   }
 
   /**
-   * Get value from cache
+   * Get value from cache. A `silent` read emits no `cache-operation` event,
+   * for callers that report one operation of their own for several reads.
    */
-  async get<T>(key: string): Promise<CacheResult<T>> {
+  async get<T>(
+    key: string,
+    options: { silent?: boolean } = {}
+  ): Promise<CacheResult<T>> {
     const startTime = Date.now();
+    if (this.isTieredActive()) {
+      return this.getTiered<T>(key, startTime, options.silent === true);
+    }
     const cache = this.getActiveCache();
 
     if (!cache) {
@@ -286,6 +382,10 @@ export class CacheManager extends EventEmitter {
 
     try {
       await cache.set(key, value, ttl, metadata);
+      if (this.isTieredActive()) {
+        await this.memoryCache!.set(key, value, this.l1Ttl(ttl), metadata);
+        await this.broadcastInvalidation({ type: 'keys', keys: [key] });
+      }
 
       this.recordMetric('cache_operation', 1, {
         operation: 'set',
@@ -332,6 +432,10 @@ export class CacheManager extends EventEmitter {
 
     try {
       const deleted = await cache.delete(key);
+      if (this.isTieredActive()) {
+        await this.memoryCache!.delete(key);
+        await this.broadcastInvalidation({ type: 'keys', keys: [key] });
+      }
 
       this.recordMetric('cache_operation', 1, {
         operation: 'delete',
@@ -413,6 +517,13 @@ export class CacheManager extends EventEmitter {
 
     try {
       const cleared = await cache.clear(pattern);
+      if (this.isTieredActive()) {
+        await this.memoryCache!.clear(pattern);
+        await this.broadcastInvalidation({
+          type: 'clear',
+          ...(pattern !== undefined ? { pattern } : {}),
+        });
+      }
 
       this.recordMetric('cache_operation', 1, {
         operation: 'clear',
@@ -437,6 +548,114 @@ export class CacheManager extends EventEmitter {
     }
   }
 
+  /**
+   * Get a value, loading and caching it on a miss. Concurrent loads of a key
+   * share one loader call, and stale values are served while a background
+   * refresh runs. Keys written here hold an envelope around the value, so
+   * read them with `getOrSet` rather than `get`.
+   */
+  async getOrSet<T>(
+    key: string,
+    loader: () => Promise<T>,
+    options: Partial<GetOrSetOptions> = {}
+  ): Promise<T> {
+    const loadOptions = { ...DEFAULT_GET_OR_SET_OPTIONS, ...options };
+    const cached = await this.get<LoadedEntry<T>>(key);
+    const entry = cached.value?.kind === 'loaded' ? cached.value : null;
+    const now = Date.now();
+
+    if (entry && now < entry.freshUntil) {
+      if (this.shouldRefreshEarly(key, entry, now, loadOptions)) {
+        this.recordLoad(key, 'early-refresh');
+        this.refreshInBackground(key, loader, loadOptions);
+      } else {
+        this.recordLoad(key, 'fresh');
+      }
+      return entry.value;
+    }
+
+    if (entry && now < entry.staleUntil) {
+      this.recordLoad(key, 'stale');
+      this.refreshInBackground(key, loader, loadOptions);
+      return entry.value;
+    }
+
+    this.recordLoad(key, this.inflightLoads.has(key) ? 'coalesced' : 'loaded');
+    return this.load(key, loader, loadOptions);
+  }
+
+  /**
+   * Run the loader and cache its value, sharing one call between
+   * concurrent callers
+   */
+  private load<T>(
+    key: string,
+    loader: () => Promise<T>,
+    options: GetOrSetOptions
+  ): Promise<T> {
+    const inflight = this.inflightLoads.get(key);
+    if (inflight) {
+      return inflight as Promise<T>;
+    }
+
+    const startTime = Date.now();
+    const promise = (async () => {
+      try {
+        const value = await loader();
+        const loadedAt = Date.now();
+        const entry: LoadedEntry<T> = {
+          kind: 'loaded',
+          value,
+          freshUntil: loadedAt + options.ttl * 1000,
+          staleUntil: loadedAt + (options.ttl + options.staleTtl) * 1000,
+          loadTime: loadedAt - startTime,
+        };
+        await this.set(key, entry, options.ttl + options.staleTtl);
+        return value;
+      } finally {
+        this.inflightLoads.delete(key);
+      }
+    })();
+
+    this.inflightLoads.set(key, promise);
+    return promise;
+  }
+
+  private refreshInBackground<T>(
+    key: string,
+    loader: () => Promise<T>,
+    options: GetOrSetOptions
+  ): void {
+    this.load(key, loader, options).catch((error) => {
+      this.emit('refresh-error', { key, error });
+    });
+  }
+
+  /**
+   * Refresh a fresh value early with a probability that rises as it nears
+   * expiry and with how slow it is to load (XFetch), so hot keys are
+   * refreshed by one caller instead of expiring for everyone at once
+   */
+  private shouldRefreshEarly<T>(
+    key: string,
+    entry: LoadedEntry<T>,
+    now: number,
+    options: GetOrSetOptions
+  ): boolean {
+    if (options.earlyExpiration <= 0 || this.inflightLoads.has(key)) {
+      return false;
+    }
+
+    const headStart =
+      -entry.loadTime * options.earlyExpiration * Math.log(Math.random());
+    return now + headStart >= entry.freshUntil;
+  }
+
+  private recordLoad(key: string, outcome: GetOrSetOutcome): void {
+    this.recordMetric('cache_load', 1, { outcome });
+    this.emit('cache-load', { key, outcome });
+  }
+
   /**
    * Get cache statistics
    */
@@ -450,7 +669,169 @@ export class CacheManager extends EventEmitter {
    */
   async invalidate(patterns: CachePattern[]): Promise<number> {
     const cache = this.getActiveCache();
-    return cache ? await cache.invalidate(patterns) : 0;
+    if (!cache) return 0;
+
+    const invalidated = await cache.invalidate(patterns);
+    if (this.isTieredActive()) {
+      await this.memoryCache!.invalidate(patterns);
+      await this.broadcastInvalidation({ type: 'patterns', patterns });
+    }
+    return invalidated;
+  }
+
+  /**
+   * Read through L1 to L2, filling L1 on an L2 hit
+   */
+  private async getTiered<T>(
+    key: string,
+    startTime: number,
+    silent: boolean
+  ): Promise<CacheResult<T>> {
+    let result: CacheResult<T>;
+
+    try {
+      const l1Value = await this.memoryCache!.get<T>(key);
+      if (l1Value !== null) {
+        result = {
+          success: true,
+          value: l1Value,
+          fromCache: true,
+          provider: 'memory',
+          latency: Date.now() - startTime,
+          tier: 'l1',
+        };
+      } else {
+        const l2Value = await this.redisCache!.get<T>(key);
+        if (l2Value !== null) {
+          await this.memoryCache!.set(key, l2Value, this.tieredConfig.l1Ttl);
+        }
+        result = {
+          success: true,
+          ...(l2Value !== null ? { value: l2Value } : {}),
+          fromCache: l2Value !== null,
+          provider: 'redis',
+          latency: Date.now() - startTime,
+          tier: 'l2',
+        };
+      }
+    } catch (error) {
+      result = {
+        success: false,
+        fromCache: false,
+        provider: 'redis',
+        latency: Date.now() - startTime,
+        error: error as Error,
+        tier: 'l2',
+      };
+    }
+
+    if (result.fromCache && this.config.optimization.enablePrefetch) {
+      this.considerPrefetch(key);
+    }
+
+    this.recordMetric('cache_operation', 1, {
+      operation: 'get',
+      provider: result.provider,
+      tier: result.tier,
+      hit: result.fromCache,
+    });
+    if (!silent) {
+      this.emit('cache-operation', result, {
+        operation: 'get',
+        key,
+        tier: result.tier,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether reads and writes currently go through both tiers
+   */
+  private isTieredActive(): boolean {
+    return (
+      this.config.provider === 'tiered' &&
+      this.activeProvider === 'redis' &&
+      this.unsubscribeInvalidations !== null &&
+      !!this.memoryCache &&
+      !!this.redisCache?.isConnected()
+    );
+  }
+
+  private l1Ttl(ttl?: number): number {
+    return ttl === undefined
+      ? this.tieredConfig.l1Ttl
+      : Math.min(ttl, this.tieredConfig.l1Ttl);
+  }
+
+  /**
+   * Listen for other instances' invalidations. Without the subscription L1
+   * could serve stale values, so tiered reads are disabled until it works.
+   */
+  private async subscribeToInvalidations(): Promise<void> {
+    if (this.unsubscribeInvalidations || !this.redisCache) {
+      return;
+    }
+
+    try {
+      this.unsubscribeInvalidations = await this.redisCache.subscribe(
+        this.tieredConfig.invalidationChannel,
+        (message) => {
+          this.applyInvalidation(message).catch((error) => {
+            console.error('Failed to apply cache invalidation:', error);
+          });
+        }
+      );
+    } catch (error) {
+      console.warn(
+        'Failed to subscribe to cache invalidations, reading from Redis only:',
+        error
+      );
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * Evict entries another instance invalidated from this instance's L1
+   */
+  private async applyInvalidation(raw: string): Promise<void> {
+    const message = JSON.parse(raw) as CacheInvalidationMessage;
+    if (message.source === this.instanceId || !this.memoryCache) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'keys':
+        for (const key of message.keys) {
+          await this.memoryCache.delete(key);
+        }
+        break;
+      case 'clear':
+        await this.memoryCache.clear(message.pattern);
+        break;
+      case 'patterns':
+        await this.memoryCache.invalidate(message.patterns);
+        break;
+    }
+    this.emit('l1-invalidated', message);
+  }
+
+  /**
+   * Tell other instances to evict from their L1. A failed broadcast leaves
+   * their entries to expire after `l1Ttl`.
+   */
+  private async broadcastInvalidation(
+    invalidation: CacheInvalidation
+  ): Promise<void> {
+    try {
+      await this.redisCache!.publish(
+        this.tieredConfig.invalidationChannel,
+        JSON.stringify({ ...invalidation, source: this.instanceId })
+      );
+    } catch (error) {
+      console.warn('Failed to broadcast cache invalidation:', error);
+    }
   }
 
   /**
@@ -727,6 +1108,7 @@ export class CacheManager extends EventEmitter {
     }
 
     // Shutdown cache providers
+    this.unsubscribeInvalidations = null;
     if (this.redisCache) {
       await this.redisCache.disconnect();
     }
@@ -5,7 +5,12 @@
 
 import { EventEmitter } from 'events';
 import { PerformanceMonitor } from '../telemetry/PerformanceMonitor';
-import type { CacheManager, CacheResult } from './CacheManager';
+import type {
+  CacheManager,
+  CacheResult,
+  CacheTier,
+  GetOrSetOutcome,
+} from './CacheManager';
 import type { CacheStats } from './RedisCache';
 
 /**
@@ -20,6 +25,8 @@ export interface CacheOperationMetrics {
   fromCache: boolean;
   error?: string;
   timestamp: Date;
+  hitType?: 'exact' | 'semantic'; // Set by semantic response cache lookups
+  tier?: CacheTier; // Deepest tier a tiered read consulted
   metadata?: Record<string, any>;
 }
 
@@ -28,6 +35,20 @@ export interface CacheOperationMetrics {
  */
 export interface CachePerformanceSummary {
   hitRate: number;
+  hitTypes: {
+    exact: number;
+    semantic: number; // Hits served for a similar, not identical, prompt
+  };
+  tierHitRates: {
+    l1: number; // Share of tiered reads served from memory
+    l2: number; // Share of L1 misses served from Redis
+  };
+  loads: {
+    loaded: number; // Loader calls made for a missing or expired value
+    coalesced: number; // Callers that shared another caller's load
+    staleServed: number; // Stale values served while refreshing
+    earlyRefreshes: number; // Fresh values refreshed ahead of expiry
+  };
   averageLatency: number;
   operationsPerSecond: number;
   errorRate: number;
@@ -108,6 +129,8 @@ export class CacheMetrics extends EventEmitter {
   private config: CacheMetricsConfig;
   private performanceMonitor: PerformanceMonitor | null = null;
   private operationHistory: CacheOperationMetrics[] = [];
+  private loadHistory: Array<{ outcome: GetOrSetOutcome; timestamp: Date }> =
+    [];
   private keyStats = new Map<
     string,
     { hits: number; misses: number; lastAccessed: Date }
@@ -139,6 +162,7 @@ export class CacheMetrics extends EventEmitter {
   private initialize(): void {
     // Listen to cache manager events
     this.cacheManager.on('cache-operation', this.recordOperation.bind(this));
+    this.cacheManager.on('cache-load', this.recordLoad.bind(this));
     this.cacheManager.on('health-check', this.recordHealthCheck.bind(this));
     this.cacheManager.on('redis-failure', this.recordFailure.bind(this));
     this.cacheManager.on('redis-reconnected', this.recordRecovery.bind(this));
@@ -168,6 +192,12 @@ export class CacheMetrics extends EventEmitter {
       timestamp: new Date(),
       metadata,
     };
+    if (metadata?.hitType) {
+      operation.hitType = metadata.hitType;
+    }
+    if (result.tier) {
+      operation.tier = result.tier;
+    }
 
     this.operationHistory.push(operation);
 
@@ -209,6 +239,18 @@ export class CacheMetrics extends EventEmitter {
     this.emit('operation-recorded', operation);
   }
 
+  /**
+   * Record how a `getOrSet` call was answered
+   */
+  recordLoad(load: { key: string; outcome: GetOrSetOutcome }): void {
+    if (!this.config.enabled) return;
+
+    this.loadHistory.push({ outcome: load.outcome, timestamp: new Date() });
+    if (this.loadHistory.length > 10000) {
+      this.loadHistory = this.loadHistory.slice(-5000);
+    }
+  }
+
   /**
    * Update key statistics
    */
@@ -312,10 +354,24 @@ export class CacheMetrics extends EventEmitter {
     const recentOperations = this.operationHistory.filter(
       (op) => op.timestamp > cutoff
     );
+    const recentLoads = this.loadHistory.filter(
+      (load) => load.timestamp > cutoff
+    );
+    const countLoads = (outcome: GetOrSetOutcome) =>
+      recentLoads.filter((load) => load.outcome === outcome).length;
+    const loads = {
+      loaded: countLoads('loaded'),
+      coalesced: countLoads('coalesced'),
+      staleServed: countLoads('stale'),
+      earlyRefreshes: countLoads('early-refresh'),
+    };
 
     if (recentOperations.length === 0) {
       return {
         hitRate: 0,
+        hitTypes: { exact: 0, semantic: 0 },
+        tierHitRates: { l1: 0, l2: 0 },
+        loads,
         averageLatency: 0,
         operationsPerSecond: 0,
         errorRate: 0,
@@ -327,6 +383,13 @@ export class CacheMetrics extends EventEmitter {
     }
 
     const hits = recentOperations.filter((op) => op.fromCache).length;
+    const semanticHits = recentOperations.filter(
+      (op) => op.fromCache && op.hitType === 'semantic'
+    ).length;
+    const tieredReads = recentOperations.filter((op) => op.tier);
+    const l2Reads = tieredReads.filter((op) => op.tier === 'l2');
+    const l1Hits = tieredReads.length - l2Reads.length;
+    const l2Hits = l2Reads.filter((op) => op.fromCache).length;
     const errors = recentOperations.filter((op) => !op.success).length;
     const totalLatency = recentOperations.reduce(
       (sum, op) => sum + op.latency,
@@ -353,6 +416,12 @@ export class CacheMetrics extends EventEmitter {
 
     const summary: CachePerformanceSummary = {
       hitRate: hits / recentOperations.length,
+      hitTypes: { exact: hits - semanticHits, semantic: semanticHits },
+      tierHitRates: {
+        l1: tieredReads.length > 0 ? l1Hits / tieredReads.length : 0,
+        l2: l2Reads.length > 0 ? l2Hits / l2Reads.length : 0,
+      },
+      loads,
       averageLatency: totalLatency / recentOperations.length,
       operationsPerSecond: recentOperations.length / (timeWindowMinutes * 60),
       errorRate: errors / recentOperations.length,
@@ -606,6 +675,9 @@ export class CacheMetrics extends EventEmitter {
         this.operationHistory = this.operationHistory.filter(
           (op) => op.timestamp > cutoff
         );
+        this.loadHistory = this.loadHistory.filter(
+          (load) => load.timestamp > cutoff
+        );
 
         // Clean key stats
         for (const [key, stats] of this.keyStats.entries()) {
@@ -623,6 +695,7 @@ export class CacheMetrics extends EventEmitter {
    */
   reset(): void {
     this.operationHistory = [];
+    this.loadHistory = [];
     this.keyStats.clear();
     this.trendHistory = [];
     this.lastSummary = null;
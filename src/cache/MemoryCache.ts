@@ -195,7 +195,7 @@ export class MemoryCache extends EventEmitter {
       this.cache.clear();
       this.accessOrder.clear();
     } else {
-      const regex = this.patternToRegex(pattern);
+      const regex = this.patternToRegex(this.formatKey(pattern));
 
       for (const [key] of this.cache) {
         if (regex.test(key)) {
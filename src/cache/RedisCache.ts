@@ -114,6 +114,8 @@ export interface CachePattern {
  */
 export class RedisCache extends EventEmitter {
   private client: Redis | NodeRedis | null = null;
+  private subscriber: Redis | NodeRedis | null = null;
+  private channelHandlers = new Map<string, Set<(message: string) => void>>();
   private config: RedisCacheConfig;
   private performanceMonitor: PerformanceMonitor | null = null;
   private connected = false;
@@ -458,6 +460,134 @@ export class RedisCache extends EventEmitter {
     return totalInvalidated;
   }
 
+  /**
+   * Run a Lua script atomically. Keys are prefixed like every other key;
+   * script replies are returned as Redis sends them.
+   */
+  async eval<T>(
+    script: string,
+    keys: string[],
+    args: Array<string | number> = []
+  ): Promise<T> {
+    if (!this.connected || !this.client) {
+      throw new Error('Redis cache not connected');
+    }
+
+    try {
+      if (this.config.client === 'ioredis') {
+        // ioredis applies `keyPrefix` to script keys itself
+        return (await (this.client as Redis).eval(
+          script,
+          keys.length,
+          ...keys,
+          ...args
+        )) as T;
+      }
+      return (await (this.client as NodeRedis).eval(script, {
+        keys: keys.map((key) => this.formatKey(key)),
+        arguments: args.map(String),
+      })) as T;
+    } catch (error) {
+      this.recordMetric('cache_error', 1, { operation: 'eval' });
+      throw new Error(`Failed to run cache script: ${error}`);
+    }
+  }
+
+  /**
+   * Publish a message on a channel. Channels are prefixed like keys so
+   * caches sharing a server under different prefixes stay apart.
+   */
+  async publish(channel: string, message: string): Promise<number> {
+    if (!this.connected || !this.client) {
+      throw new Error('Redis cache not connected');
+    }
+
+    try {
+      return await this.client.publish(this.formatKey(channel), message);
+    } catch (error) {
+      this.recordMetric('cache_error', 1, { operation: 'publish', channel });
+      throw new Error(`Failed to publish on channel ${channel}: ${error}`);
+    }
+  }
+
+  /**
+   * Subscribe to a channel on a dedicated connection, since a subscribed
+   * connection cannot run other commands. Returns an unsubscribe function.
+   */
+  async subscribe(
+    channel: string,
+    handler: (message: string) => void
+  ): Promise<() => Promise<void>> {
+    if (!this.connected || !this.client) {
+      throw new Error('Redis cache not connected');
+    }
+
+    const formattedChannel = this.formatKey(channel);
+    try {
+      const subscriber = await this.getSubscriber();
+      let handlers = this.channelHandlers.get(formattedChannel);
+      if (!handlers) {
+        handlers = new Set();
+        this.channelHandlers.set(formattedChannel, handlers);
+        if (this.config.client === 'ioredis') {
+          await (subscriber as Redis).subscribe(formattedChannel);
+        } else {
+          await (subscriber as NodeRedis).subscribe(
+            formattedChannel,
+            (message: string) => this.dispatchMessage(formattedChannel, message)
+          );
+        }
+      }
+      handlers.add(handler);
+    } catch (error) {
+      this.recordMetric('cache_error', 1, { operation: 'subscribe', channel });
+      throw new Error(`Failed to subscribe to channel ${channel}: ${error}`);
+    }
+
+    return async () => {
+      const handlers = this.channelHandlers.get(formattedChannel);
+      if (!handlers?.delete(handler) || handlers.size > 0) return;
+
+      this.channelHandlers.delete(formattedChannel);
+      await this.subscriber?.unsubscribe(formattedChannel);
+    };
+  }
+
+  /**
+   * Create the subscriber connection on first use
+   */
+  private async getSubscriber(): Promise<Redis | NodeRedis> {
+    if (this.subscriber) {
+      return this.subscriber;
+    }
+
+    if (this.config.client === 'ioredis') {
+      const subscriber = (this.client as Redis).duplicate();
+      subscriber.on('message', (channel: string, message: string) =>
+        this.dispatchMessage(channel, message)
+      );
+      subscriber.on('error', (error: Error) => this.emit('error', error));
+      this.subscriber = subscriber;
+    } else {
+      const subscriber = (this.client as NodeRedis).duplicate();
+      subscriber.on('error', (error: Error) => this.emit('error', error));
+      await subscriber.connect();
+      this.subscriber = subscriber;
+    }
+
+    return this.subscriber;
+  }
+
+  private dispatchMessage(channel: string, message: string): void {
+    this.channelHandlers.get(channel)?.forEach((handler) => {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error(`Cache channel handler failed for ${channel}:`, error);
+      }
+    });
+  }
+
   /**
    * Format cache key with prefix
    */
@@ -539,6 +669,12 @@ export class RedisCache extends EventEmitter {
       this.metricsTimer = null;
     }
 
+    if (this.subscriber) {
+      await this.subscriber.quit?.();
+      this.subscriber = null;
+      this.channelHandlers.clear();
+    }
+
     if (this.client) {
       await this.client.quit?.();
       this.client = null;
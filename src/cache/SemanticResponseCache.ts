@@ -0,0 +1,318 @@
+/**
+ * Semantic Response Cache
+ * Serves cached AI responses for prompts that mean the same thing as an
+ * earlier one, not just prompts that are byte-identical
+ */
+
+import type { CacheManager, CacheResult } from './CacheManager';
+import { CacheKeys } from './CacheKeys';
+import {
+  MemoryEmbeddingCache,
+  embeddingCacheKey,
+  hashContent,
+  type EmbeddingCache,
+} from '../knowledge/EmbeddingCache';
+import { computeSimilarity } from '../knowledge/VectorStore';
+import type { MessageEmbedder } from '../search/SemanticIndex';
+
+/**
+ * Responses are only shared between prompts sent with the same model,
+ * system prompt and tools, by the same user, after the same earlier turns
+ */
+export interface SemanticCacheScope {
+  model?: string;
+  system?: string;
+  tools?: string[]; // Tool names; order does not matter
+  tenantId?: string;
+  userId?: string;
+  conversation?: string; // Earlier turns, from conversationContextKey
+}
+
+/**
+ * Semantic response cache configuration
+ */
+export interface SemanticResponseCacheConfig {
+  similarityThreshold: number; // Minimum cosine similarity for a semantic hit
+  ttl: number; // seconds
+  maxEntriesPerScope: number; // Oldest prompts are forgotten first
+}
+
+/**
+ * Cached response found for a prompt
+ */
+export interface SemanticCacheHit<T> {
+  value: T;
+  hitType: 'exact' | 'semantic';
+  similarity: number; // 1 for exact hits
+  prompt: string; // Prompt the response was cached for
+}
+
+/**
+ * Cached prompt embedding, stored per scope
+ */
+interface SemanticIndexEntry {
+  hash: string;
+  vector: number[];
+  createdAt: number;
+}
+
+/**
+ * Cached response with the prompt it answered
+ */
+interface CachedResponse<T> {
+  prompt: string;
+  value: T;
+  createdAt: number;
+}
+
+export const DEFAULT_SEMANTIC_RESPONSE_CACHE_CONFIG: SemanticResponseCacheConfig =
+  {
+    similarityThreshold: 0.92,
+    ttl: 3600, // 1 hour
+    maxEntriesPerScope: 500,
+  };
+
+/**
+ * Normalize a prompt so trivial differences in case, spacing and trailing
+ * punctuation hash the same
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[\s.!?]+$/, '');
+}
+
+/**
+ * Stable identifier for a cache scope
+ */
+export function semanticCacheScopeKey(scope: SemanticCacheScope): string {
+  return hashContent(
+    JSON.stringify([
+      scope.model ?? null,
+      scope.system ?? null,
+      [...(scope.tools ?? [])].sort(),
+      scope.tenantId ?? null,
+      scope.userId ?? null,
+      scope.conversation ?? null,
+    ])
+  ).slice(0, 16);
+}
+
+/**
+ * Hash of the turns before a prompt, so a follow-up such as "yes" is only
+ * answered from cache after the same conversation. Empty for first turns.
+ */
+export function conversationContextKey(
+  turns: ReadonlyArray<{ role: string; content: unknown }>
+): string {
+  return turns.length === 0
+    ? ''
+    : hashContent(
+        JSON.stringify(turns.map(({ role, content }) => [role, content]))
+      );
+}
+
+export class SemanticResponseCache {
+  private cacheManager: CacheManager;
+  private embedder: MessageEmbedder | null;
+  private config: SemanticResponseCacheConfig;
+  private embeddings: EmbeddingCache;
+
+  /**
+   * Without an embedder only exact (normalized) prompt matches are served
+   */
+  constructor(
+    cacheManager: CacheManager,
+    embedder: MessageEmbedder | null = null,
+    config: Partial<SemanticResponseCacheConfig> = {},
+    embeddings: EmbeddingCache = new MemoryEmbeddingCache()
+  ) {
+    this.cacheManager = cacheManager;
+    this.embedder = embedder;
+    this.config = { ...DEFAULT_SEMANTIC_RESPONSE_CACHE_CONFIG, ...config };
+    this.embeddings = embeddings;
+  }
+
+  /**
+   * Find a cached response for the prompt, trying an exact match first
+   */
+  async lookup<T>(
+    prompt: string,
+    scope: SemanticCacheScope = {}
+  ): Promise<SemanticCacheHit<T> | null> {
+    const startTime = Date.now();
+    const normalized = normalizePrompt(prompt);
+    if (!normalized) return null;
+
+    const scopeKey = semanticCacheScopeKey(scope);
+    const hash = hashContent(normalized);
+    const exactKey = this.responseKey(scopeKey, hash);
+
+    const exact = await this.cacheManager.get<CachedResponse<T>>(exactKey, {
+      silent: true,
+    });
+    if (exact.value) {
+      return this.report(exact, exactKey, startTime, {
+        value: exact.value.value,
+        hitType: 'exact',
+        similarity: 1,
+        prompt: exact.value.prompt,
+      });
+    }
+    if (!this.embedder) {
+      return this.report(exact, exactKey, startTime, null);
+    }
+
+    const index = await this.getIndex(scopeKey);
+    if (index.length === 0) {
+      return this.report(exact, exactKey, startTime, null);
+    }
+
+    const vector = await this.embed(normalized);
+    const candidates = index
+      .map((entry) => ({
+        entry,
+        similarity: computeSimilarity(vector, entry.vector, 'cosine'),
+      }))
+      .filter(({ similarity }) => similarity >= this.config.similarityThreshold)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    const expired: string[] = [];
+    for (const { entry, similarity } of candidates) {
+      const key = this.responseKey(scopeKey, entry.hash);
+      const result = await this.cacheManager.get<CachedResponse<T>>(key, {
+        silent: true,
+      });
+      if (result.value) {
+        if (expired.length > 0) await this.prune(scopeKey, expired);
+        return this.report(result, key, startTime, {
+          value: result.value.value,
+          hitType: 'semantic',
+          similarity,
+          prompt: result.value.prompt,
+        });
+      }
+      expired.push(entry.hash);
+    }
+
+    if (expired.length > 0) await this.prune(scopeKey, expired);
+    return this.report(exact, exactKey, startTime, null);
+  }
+
+  /**
+   * Cache a response for the prompt
+   */
+  async store<T>(
+    prompt: string,
+    value: T,
+    scope: SemanticCacheScope = {}
+  ): Promise<void> {
+    const normalized = normalizePrompt(prompt);
+    if (!normalized) return;
+
+    const scopeKey = semanticCacheScopeKey(scope);
+    const hash = hashContent(normalized);
+    const response: CachedResponse<T> = {
+      prompt,
+      value,
+      createdAt: Date.now(),
+    };
+    await this.cacheManager.set(
+      this.responseKey(scopeKey, hash),
+      response,
+      this.config.ttl
+    );
+
+    if (!this.embedder) return;
+
+    // Concurrent stores may drop each other's index entries; that only
+    // costs a semantic hit, the exact entry is still served
+    const vector = await this.embed(normalized);
+    const index = (await this.getIndex(scopeKey)).filter(
+      (entry) => entry.hash !== hash
+    );
+    index.push({ hash, vector, createdAt: response.createdAt });
+    await this.cacheManager.set(
+      CacheKeys.semanticResponseIndex(scopeKey),
+      index.slice(-this.config.maxEntriesPerScope),
+      this.config.ttl
+    );
+  }
+
+  /**
+   * Forget the semantic index for a scope. Exact entries expire on their own.
+   */
+  async clear(scope: SemanticCacheScope = {}): Promise<void> {
+    await this.cacheManager.delete(
+      CacheKeys.semanticResponseIndex(semanticCacheScopeKey(scope))
+    );
+  }
+
+  private responseKey(scopeKey: string, hash: string): string {
+    return CacheKeys.aiResponse(`${scopeKey}:${hash.slice(0, 32)}`);
+  }
+
+  private async getIndex(scopeKey: string): Promise<SemanticIndexEntry[]> {
+    const result = await this.cacheManager.get<SemanticIndexEntry[]>(
+      CacheKeys.semanticResponseIndex(scopeKey),
+      { silent: true }
+    );
+    return result.value ?? [];
+  }
+
+  private async prune(scopeKey: string, hashes: string[]): Promise<void> {
+    const index = await this.getIndex(scopeKey);
+    await this.cacheManager.set(
+      CacheKeys.semanticResponseIndex(scopeKey),
+      index.filter((entry) => !hashes.includes(entry.hash)),
+      this.config.ttl
+    );
+  }
+
+  /**
+   * Embed a normalized prompt, reusing earlier embeddings of the same text
+   */
+  private async embed(normalized: string): Promise<number[]> {
+    const embedder = this.embedder!;
+    const key = embeddingCacheKey(embedder.modelId, hashContent(normalized));
+    const [cached] = await this.embeddings.getMany([key]);
+    if (cached) return cached;
+
+    const [vector] = await embedder.embed([normalized]);
+    if (!vector) {
+      throw new Error('Embedder returned no vector for the prompt');
+    }
+    await this.embeddings.setMany([[key, vector]]);
+    return vector;
+  }
+
+  /**
+   * Report the lookup as a cache operation so `CacheMetrics` can tell
+   * semantic hits from exact ones. The reads behind it are silent, so each
+   * lookup counts once.
+   */
+  private report<T>(
+    result: CacheResult<unknown>,
+    key: string,
+    startTime: number,
+    hit: SemanticCacheHit<T> | null
+  ): SemanticCacheHit<T> | null {
+    const operation: CacheResult<unknown> = {
+      success: result.success,
+      fromCache: hit !== null,
+      provider: result.provider,
+      latency: Date.now() - startTime,
+      ...(result.error ? { error: result.error } : {}),
+      ...(result.tier ? { tier: result.tier } : {}),
+    };
+    this.cacheManager.emit('cache-operation', operation, {
+      operation: 'get',
+      key,
+      ...(hit ? { hitType: hit.hitType, similarity: hit.similarity } : {}),
+    });
+    return hit;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Tests for loading through the cache with coalescing and stale values
+ */
+
+import { CacheManager } from '../CacheManager';
+import { CacheMetrics } from '../CacheMetrics';
+
+async function createCacheManager(): Promise<CacheManager> {
+  const manager = new CacheManager({
+    provider: 'memory',
+    memory: {
+      maxSize: 100,
+      maxMemory: 1024 * 1024,
+      defaultTtl: 60,
+      checkInterval: 60000,
+      evictionPolicy: 'lru',
+      enableMetrics: false,
+      metricsInterval: 60000,
+      keyPrefix: 'test:',
+    },
+    fallback: {
+      enabled: true,
+      strategy: 'memory',
+      retryInterval: 1000,
+      maxRetries: 0,
+    },
+    optimization: {
+      enablePrefetch: false,
+      prefetchThreshold: 0.8,
+      enableCompression: false,
+      compressionThreshold: 1024,
+      enableBatching: false,
+      batchSize: 10,
+      batchTimeout: 100,
+    },
+    healthCheck: { enabled: false, interval: 60000, timeout: 1000 },
+  });
+  await manager.initialize();
+  return manager;
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('CacheManager.getOrSet', () => {
+  let manager: CacheManager;
+  let clock: number;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    clock = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+    manager = await createCacheManager();
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it('should share one load between concurrent callers', async () => {
+    let resolveLoad: (value: string) => void = () => {};
+    const loader = jest.fn(
+      () => new Promise<string>((resolve) => (resolveLoad = resolve))
+    );
+
+    const pending = Promise.all(
+      [...Array(5).keys()].map(() => manager.getOrSet('models', loader))
+    );
+    await flush();
+    resolveLoad('model list');
+
+    expect(await pending).toEqual(Array(5).fill('model list'));
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(await manager.getOrSet('models', loader)).toBe('model list');
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve stale values while refreshing in the background', async () => {
+    const loader = jest
+      .fn<Promise<string>, []>()
+      .mockResolvedValueOnce('v1')
+      .mockResolvedValueOnce('v2');
+    const options = { ttl: 10, staleTtl: 60, earlyExpiration: 0 };
+
+    await manager.getOrSet('conversation:1', loader, options);
+    clock += 20_000;
+
+    expect(await manager.getOrSet('conversation:1', loader, options)).toBe(
+      'v1'
+    );
+    await flush();
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(await manager.getOrSet('conversation:1', loader, options)).toBe(
+      'v2'
+    );
+  });
+
+  it('should load in the foreground once the stale window has passed', async () => {
+    const loader = jest
+      .fn<Promise<string>, []>()
+      .mockResolvedValueOnce('v1')
+      .mockResolvedValueOnce('v2');
+    const options = { ttl: 10, staleTtl: 5, earlyExpiration: 0 };
+
+    await manager.getOrSet('conversation:1', loader, options);
+    clock += 16_000;
+
+    expect(await manager.getOrSet('conversation:1', loader, options)).toBe(
+      'v2'
+    );
+  });
+
+  it('should keep serving stale values when a refresh fails', async () => {
+    const refreshErrors = jest.fn();
+    manager.on('refresh-error', refreshErrors);
+    const loader = jest
+      .fn<Promise<string>, []>()
+      .mockResolvedValueOnce('v1')
+      .mockRejectedValueOnce(new Error('database down'));
+    const options = { ttl: 10, staleTtl: 60, earlyExpiration: 0 };
+
+    await manager.getOrSet('conversation:1', loader, options);
+    clock += 20_000;
+    expect(await manager.getOrSet('conversation:1', loader, options)).toBe(
+      'v1'
+    );
+    await flush();
+
+    expect(refreshErrors).toHaveBeenCalledWith({
+      key: 'conversation:1',
+      error: new Error('database down'),
+    });
+    loader.mockResolvedValueOnce('v2');
+    expect(await manager.getOrSet('conversation:1', loader, options)).toBe(
+      'v1'
+    );
+  });
+
+  it('should refresh slow-loading values early as they near expiry', async () => {
+    const loader = jest.fn(async () => {
+      clock += 500; // Loading takes half a second
+      return 'value';
+    });
+    jest.spyOn(Math, 'random').mockReturnValue(0.01);
+
+    await manager.getOrSet('models', loader, { ttl: 60 });
+
+    // -ln(0.01) ≈ 4.6 turns the 500ms load into a 2.3s head start
+    clock += 50_000;
+    await manager.getOrSet('models', loader, { ttl: 60 });
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    clock += 8_000;
+    await manager.getOrSet('models', loader, { ttl: 60 });
+    await flush();
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report coalesced and stale-served requests', async () => {
+    const metrics = new CacheMetrics(manager, {
+      enabled: true,
+      collectionInterval: 60000,
+      retentionPeriod: 1,
+      aggregationWindow: 5,
+      enableTrendAnalysis: false,
+      enableHealthScoring: false,
+      keyTracking: { enabled: false, maxKeys: 10, patternAnalysis: false },
+      alerting: {
+        enabled: false,
+        hitRateThreshold: 0.7,
+        latencyThreshold: 100,
+        errorRateThreshold: 0.05,
+      },
+    });
+    const options = { ttl: 10, staleTtl: 60, earlyExpiration: 0 };
+    const loader = async () => 'value';
+
+    await Promise.all([
+      manager.getOrSet('models', loader, options),
+      manager.getOrSet('models', loader, options),
+      manager.getOrSet('models', loader, options),
+    ]);
+    clock += 20_000;
+    await manager.getOrSet('models', loader, options);
+    await flush();
+
+    const summary = await metrics.getPerformanceSummary();
+    metrics.shutdown();
+
+    expect(summary.loads).toEqual({
+      loaded: 1,
+      coalesced: 2,
+      staleServed: 1,
+      earlyRefreshes: 0,
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Tests for the semantic AI response cache
+ */
+
+import { CacheManager } from '../CacheManager';
+import { CacheMetrics } from '../CacheMetrics';
+import {
+  SemanticResponseCache,
+  conversationContextKey,
+  normalizePrompt,
+} from '../SemanticResponseCache';
+import type { MessageEmbedder } from '../../search/SemanticIndex';
+
+// Words grouped by meaning; each group is one vector dimension
+const CONCEPTS = [
+  ['reset', 'change', 'forgot', 'recover'],
+  ['password', 'login', 'credentials'],
+  ['refund', 'money', 'reimburse'],
+  ['shipping', 'delivery', 'parcel'],
+];
+
+function createEmbedder(): MessageEmbedder & { calls: string[][] } {
+  const calls: string[][] = [];
+  return {
+    modelId: 'concepts',
+    calls,
+    embed: async (texts) => {
+      calls.push(texts);
+      return texts.map((text) => {
+        const words = text.toLowerCase().match(/[a-z]+/g) ?? [];
+        return CONCEPTS.map(
+          (group) => words.filter((word) => group.includes(word)).length
+        );
+      });
+    },
+  };
+}
+
+async function createCacheManager(): Promise<CacheManager> {
+  const manager = new CacheManager({
+    provider: 'memory',
+    memory: {
+      maxSize: 100,
+      maxMemory: 1024 * 1024,
+      defaultTtl: 60,
+      checkInterval: 60000,
+      evictionPolicy: 'lru',
+      enableMetrics: false,
+      metricsInterval: 60000,
+      keyPrefix: 'test:',
+    },
+    fallback: {
+      enabled: true,
+      strategy: 'memory',
+      retryInterval: 1000,
+      maxRetries: 0,
+    },
+    optimization: {
+      enablePrefetch: false,
+      prefetchThreshold: 0.8,
+      enableCompression: false,
+      compressionThreshold: 1024,
+      enableBatching: false,
+      batchSize: 10,
+      batchTimeout: 100,
+    },
+    healthCheck: { enabled: false, interval: 60000, timeout: 1000 },
+  });
+  await manager.initialize();
+  return manager;
+}
+
+describe('SemanticResponseCache', () => {
+  let manager: CacheManager;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    manager = await createCacheManager();
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it('should normalize case, spacing and trailing punctuation', () => {
+    expect(normalizePrompt('  How do I   Reset my password?? ')).toBe(
+      'how do i reset my password'
+    );
+  });
+
+  it('should serve exact hits without embedding the prompt', async () => {
+    const embedder = createEmbedder();
+    const cache = new SemanticResponseCache(manager, embedder);
+
+    await cache.store('How do I reset my password?', 'Use the reset link.');
+    embedder.calls.length = 0;
+
+    expect(await cache.lookup('how do I reset my password')).toEqual({
+      value: 'Use the reset link.',
+      hitType: 'exact',
+      similarity: 1,
+      prompt: 'How do I reset my password?',
+    });
+    expect(embedder.calls).toEqual([]);
+  });
+
+  it('should serve semantic hits above the similarity threshold', async () => {
+    const cache = new SemanticResponseCache(manager, createEmbedder(), {
+      similarityThreshold: 0.9,
+    });
+    await cache.store('How do I reset my password?', 'Use the reset link.');
+    await cache.store('Where is my refund?', 'Refunds take 5 days.');
+
+    const hit = await cache.lookup('I forgot my login credentials');
+    expect(hit).toMatchObject({
+      value: 'Use the reset link.',
+      hitType: 'semantic',
+    });
+    expect(hit!.similarity).toBeGreaterThan(0.9);
+
+    expect(await cache.lookup('Has my parcel shipped yet?')).toBeNull();
+  });
+
+  it('should keep scopes apart', async () => {
+    const cache = new SemanticResponseCache(manager, createEmbedder());
+    const scope = { model: 'gpt-4o', system: 'Support', tools: ['a', 'b'] };
+    await cache.store('Where is my refund?', 'Refunds take 5 days.', scope);
+
+    expect(
+      await cache.lookup('Where is my refund?', { ...scope, tools: ['b', 'a'] })
+    ).toMatchObject({ hitType: 'exact' });
+    expect(
+      await cache.lookup('Where is my refund?', { ...scope, model: 'other' })
+    ).toBeNull();
+    expect(
+      await cache.lookup('Where is my refund?', { ...scope, tools: ['a'] })
+    ).toBeNull();
+  });
+
+  it('should not share responses across users or earlier turns', async () => {
+    const cache = new SemanticResponseCache(manager, createEmbedder());
+    const earlier = [
+      { role: 'user', content: 'Can I get a refund?' },
+      { role: 'assistant', content: 'Yes, for orders under 30 days.' },
+    ];
+    const scope = {
+      tenantId: 'acme',
+      userId: 'user-1',
+      conversation: conversationContextKey(earlier),
+    };
+    await cache.store('Yes', 'Refund issued for order 1042.', scope);
+
+    expect(await cache.lookup('yes', scope)).toMatchObject({
+      hitType: 'exact',
+    });
+    expect(
+      await cache.lookup('yes', { ...scope, userId: 'user-2' })
+    ).toBeNull();
+    expect(
+      await cache.lookup('yes', {
+        ...scope,
+        conversation: conversationContextKey([
+          { role: 'user', content: 'Want the newsletter?' },
+          { role: 'assistant', content: 'Shall I subscribe you?' },
+        ]),
+      })
+    ).toBeNull();
+    expect(conversationContextKey([])).toBe('');
+  });
+
+  it('should report semantic and exact hits to cache metrics', async () => {
+    const metrics = new CacheMetrics(manager, {
+      enabled: true,
+      collectionInterval: 60000,
+      retentionPeriod: 1,
+      aggregationWindow: 5,
+      enableTrendAnalysis: false,
+      enableHealthScoring: false,
+      keyTracking: { enabled: false, maxKeys: 10, patternAnalysis: false },
+      alerting: {
+        enabled: false,
+        hitRateThreshold: 0.7,
+        latencyThreshold: 100,
+        errorRateThreshold: 0.05,
+      },
+    });
+    const cache = new SemanticResponseCache(manager, createEmbedder());
+
+    await cache.store('Where is my refund?', 'Refunds take 5 days.');
+    await cache.lookup('where is my refund');
+    await cache.lookup('I want my money back, reimburse me');
+    await cache.lookup('Has my parcel shipped yet?');
+
+    const summary = await metrics.getPerformanceSummary();
+    metrics.shutdown();
+
+    expect(summary.hitTypes).toEqual({ exact: 1, semantic: 1 });
+    expect(summary.hitRate).toBeCloseTo(2 / 3);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Tests for two-tier (memory in front of Redis) caching
+ */
+
+import { CacheManager, type CacheManagerConfig } from '../CacheManager';
+import { CacheMetrics } from '../CacheMetrics';
+import { SemanticResponseCache } from '../SemanticResponseCache';
+import type { MessageEmbedder } from '../../search/SemanticIndex';
+
+/**
+ * One Redis server shared by every cache in the test, with pub/sub
+ */
+jest.mock('../RedisCache', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  const store = new Map<string, unknown>();
+  const channels = new Map<string, Set<(message: string) => void>>();
+  const toRegExp = (pattern: string) =>
+    new RegExp(`^${pattern.split('*').map(escape).join('.*')}$`);
+  function escape(text: string) {
+    return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  class FakeRedisCache extends EventEmitter {
+    connected = false;
+    async connect() {
+      this.connected = true;
+    }
+    async disconnect() {
+      this.connected = false;
+      this.emit('disconnected');
+    }
+    isConnected() {
+      return this.connected;
+    }
+    async get(key: string) {
+      return store.has(key) ? store.get(key) : null;
+    }
+    async set(key: string, value: unknown) {
+      store.set(key, value);
+    }
+    async delete(key: string) {
+      return store.delete(key);
+    }
+    async exists(key: string) {
+      return store.has(key);
+    }
+    async clear(pattern?: string) {
+      const regExp = toRegExp(pattern ?? '*');
+      const keys = [...store.keys()].filter((key) => regExp.test(key));
+      keys.forEach((key) => store.delete(key));
+      return keys.length;
+    }
+    async invalidate(patterns: Array<{ pattern: string }>) {
+      let count = 0;
+      for (const { pattern } of patterns) count += await this.clear(pattern);
+      return count;
+    }
+    async getStats() {
+      return null;
+    }
+    async publish(channel: string, message: string) {
+      const handlers = channels.get(channel) ?? new Set();
+      handlers.forEach((handler) => handler(message));
+      return handlers.size;
+    }
+    async subscribe(channel: string, handler: (message: string) => void) {
+      if (!channels.has(channel)) channels.set(channel, new Set());
+      channels.get(channel)!.add(handler);
+      return async () => {
+        channels.get(channel)?.delete(handler);
+      };
+    }
+  }
+
+  return { RedisCache: FakeRedisCache, mockStore: store };
+});
+
+const redisStore: Map<string, unknown> =
+  jest.requireMock('../RedisCache').mockStore;
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function createConfig(): CacheManagerConfig {
+  return {
+    provider: 'tiered',
+    redis: {} as CacheManagerConfig['redis'],
+    memory: {
+      maxSize: 100,
+      maxMemory: 1024 * 1024,
+      defaultTtl: 60,
+      checkInterval: 60000,
+      evictionPolicy: 'lru',
+      enableMetrics: false,
+      metricsInterval: 60000,
+      keyPrefix: 'test:',
+    },
+    tiered: { l1Ttl: 30 },
+    fallback: {
+      enabled: true,
+      strategy: 'memory',
+      retryInterval: 1000,
+      maxRetries: 0,
+    },
+    optimization: {
+      enablePrefetch: false,
+      prefetchThreshold: 0.8,
+      enableCompression: false,
+      compressionThreshold: 1024,
+      enableBatching: false,
+      batchSize: 10,
+      batchTimeout: 100,
+    },
+    healthCheck: { enabled: false, interval: 60000, timeout: 1000 },
+  };
+}
+
+describe('CacheManager tiered mode', () => {
+  let first: CacheManager;
+  let second: CacheManager;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    redisStore.clear();
+    first = new CacheManager(createConfig());
+    second = new CacheManager(createConfig());
+    await first.initialize();
+    await second.initialize();
+  });
+
+  afterEach(async () => {
+    await first.shutdown();
+    await second.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it('should read through L1 to L2 and fill L1', async () => {
+    await first.set('user:1', { name: 'Ada' });
+
+    expect(await second.get('user:1')).toMatchObject({
+      value: { name: 'Ada' },
+      fromCache: true,
+      provider: 'redis',
+      tier: 'l2',
+    });
+    expect(await second.get('user:1')).toMatchObject({
+      value: { name: 'Ada' },
+      provider: 'memory',
+      tier: 'l1',
+    });
+    expect(await second.get('user:2')).toMatchObject({
+      fromCache: false,
+      tier: 'l2',
+    });
+  });
+
+  it('should evict other instances L1 entries on writes', async () => {
+    await first.set('user:1', 'old');
+    await second.get('user:1');
+
+    await first.set('user:1', 'new');
+    await flush();
+    expect(await second.get('user:1')).toMatchObject({
+      value: 'new',
+      tier: 'l2',
+    });
+
+    await first.delete('user:1');
+    await flush();
+    expect((await second.get('user:1')).fromCache).toBe(false);
+  });
+
+  it('should broadcast clear and invalidate to every L1', async () => {
+    await first.set('conversation:1', 'a');
+    await first.set('conversation:2', 'b');
+    await first.set('user:1', 'c');
+    for (const key of ['conversation:1', 'conversation:2', 'user:1']) {
+      await second.get(key);
+    }
+    const invalidated = jest.fn();
+    second.on('l1-invalidated', invalidated);
+
+    await first.invalidate([{ pattern: 'conversation:1', strategy: 'manual' }]);
+    await flush();
+    expect((await second.get('conversation:1')).fromCache).toBe(false);
+
+    await first.clear('conversation:*');
+    await flush();
+    expect((await second.get('conversation:2')).fromCache).toBe(false);
+    expect(await second.get('user:1')).toMatchObject({ tier: 'l1' });
+
+    expect(invalidated.mock.calls.map(([message]) => message.type)).toEqual([
+      'patterns',
+      'clear',
+    ]);
+  });
+
+  it('should report hit rates per tier', async () => {
+    const metrics = new CacheMetrics(second, {
+      enabled: true,
+      collectionInterval: 60000,
+      retentionPeriod: 1,
+      aggregationWindow: 5,
+      enableTrendAnalysis: false,
+      enableHealthScoring: false,
+      keyTracking: { enabled: false, maxKeys: 10, patternAnalysis: false },
+      alerting: {
+        enabled: false,
+        hitRateThreshold: 0.7,
+        latencyThreshold: 100,
+        errorRateThreshold: 0.05,
+      },
+    });
+    await first.set('user:1', 'a');
+
+    await second.get('user:1'); // L2 hit
+    await second.get('user:1'); // L1 hit
+    await second.get('user:1'); // L1 hit
+    await second.get('user:2'); // Miss in both
+
+    const summary = await metrics.getPerformanceSummary();
+    metrics.shutdown();
+
+    expect(summary.tierHitRates.l1).toBeCloseTo(2 / 4);
+    expect(summary.tierHitRates.l2).toBeCloseTo(1 / 2);
+  });
+
+  it('should count each semantic cache lookup as one operation', async () => {
+    const metrics = new CacheMetrics(second, {
+      enabled: true,
+      collectionInterval: 60000,
+      retentionPeriod: 1,
+      aggregationWindow: 5,
+      enableTrendAnalysis: false,
+      enableHealthScoring: false,
+      keyTracking: { enabled: false, maxKeys: 10, patternAnalysis: false },
+      alerting: {
+        enabled: false,
+        hitRateThreshold: 0.7,
+        latencyThreshold: 100,
+        errorRateThreshold: 0.05,
+      },
+    });
+    const operations = jest.fn();
+    second.on('cache-operation', operations);
+
+    // Refund and shipping words each map to one dimension
+    const embedder: MessageEmbedder = {
+      modelId: 'concepts',
+      embed: async (texts) =>
+        texts.map((text) => [
+          /refund|money|reimburse/.test(text) ? 1 : 0,
+          /parcel|shipp/.test(text) ? 1 : 0,
+        ]),
+    };
+    const cache = new SemanticResponseCache(second, embedder);
+
+    await cache.store('Where is my refund?', 'Refunds take 5 days.');
+    await cache.lookup('where is my refund');
+    await cache.lookup('I want my money back, reimburse me');
+    await cache.lookup('Has my parcel shipped yet?');
+
+    const summary = await metrics.getPerformanceSummary();
+    metrics.shutdown();
+
+    expect(operations).toHaveBeenCalledTimes(3);
+    expect(summary.hitTypes).toEqual({ exact: 1, semantic: 1 });
+    expect(summary.hitRate).toBeCloseTo(2 / 3);
+  });
+});
@@ -19,11 +19,34 @@ export {
   type CacheProvider,
   type CacheResult,
   type BatchOperation,
+  type CacheTier,
+  type TieredCacheConfig,
+  type CacheInvalidation,
+  type CacheInvalidationMessage,
+  DEFAULT_TIERED_CACHE_CONFIG,
+  type GetOrSetOptions,
+  type GetOrSetOutcome,
+  DEFAULT_GET_OR_SET_OPTIONS,
 } from './CacheManager';
 
 // Cache metrics and monitoring
 export { CacheMetrics } from './CacheMetrics';
 
+// Cache key utilities
+export { CacheKeys } from './CacheKeys';
+
+// Semantic AI response caching
+export {
+  SemanticResponseCache,
+  normalizePrompt,
+  semanticCacheScopeKey,
+  conversationContextKey,
+  DEFAULT_SEMANTIC_RESPONSE_CACHE_CONFIG,
+  type SemanticCacheScope,
+  type SemanticCacheHit,
+  type SemanticResponseCacheConfig,
+} from './SemanticResponseCache';
+
 // Default configurations
 export const DEFAULT_REDIS_CONFIG: Partial<RedisCacheConfig> = {
   host: 'localhost',
@@ -248,43 +271,6 @@ export function createCacheManagerFromEnv(): CacheManager {
   });
 }
 
-/**
- * Cache key utilities
- */
-export const CacheKeys = {
-  // AI conversation caching
-  conversation: (sessionId: string) => `conv:${sessionId}`,
-  conversationMessages: (sessionId: string) => `conv:${sessionId}:messages`,
-  conversationState: (sessionId: string) => `conv:${sessionId}:state`,
-
-  // AI response caching
-  aiResponse: (hash: string) => `ai:response:${hash}`,
-  aiModel: (model: string) => `ai:model:${model}`,
-  aiProvider: (provider: string) => `ai:provider:${provider}`,
-
-  // User session caching
-  userSession: (userId: string) => `user:${userId}:session`,
-  userPreferences: (userId: string) => `user:${userId}:prefs`,
-  userHistory: (userId: string) => `user:${userId}:history`,
-
-  // Performance and analytics
-  metrics: (metric: string) => `metrics:${metric}`,
-  analytics: (event: string) => `analytics:${event}`,
-  performance: (operation: string) => `perf:${operation}`,
-
-  // Security and rate limiting
-  rateLimit: (identifier: string) => `rate:${identifier}`,
-  securityEvent: (type: string) => `security:${type}`,
-
-  // Content and media
-  content: (contentId: string) => `content:${contentId}`,
-  media: (mediaId: string) => `media:${mediaId}`,
-
-  // API and gateway
-  apiKey: (keyId: string) => `api:key:${keyId}`,
-  gateway: (endpoint: string) => `gateway:${endpoint}`,
-} as const;
-
 /**
  * Cache TTL presets (in seconds)
  */
@@ -37,6 +37,7 @@ export type {
   ConciergusAgentControlsProps,
   StepRendererProps,
   ControlRendererProps,
+  ApprovalRendererProps,
   AgentStep,
   AgentCondition,
   AgentStepStatus,
@@ -84,6 +85,7 @@ export type {
   EnhancedSource,
   SourceCluster,
   SourceFilter,
+  SourceLocation,
   SourcesDisplayMode,
   SourceSortBy,
   SourceSortOrder,
@@ -483,6 +483,82 @@ describe('ConciergusAgentControls', () => {
     });
   });
 
+  describe('Approvals', () => {
+    const refund = {
+      id: 'step-refund',
+      toolName: 'refund',
+      arguments: { orderId: 'order_1', amount: 250 },
+      reason: 'refund amount 250 is above the approval threshold of 100',
+      allowEdits: true,
+      requestedAt: new Date('2024-01-01T10:00:03Z')
+    };
+
+    it('shows held tool calls with their arguments and reason', () => {
+      render(<ConciergusAgentControls {...defaultProps} pendingApprovals={[refund]} />);
+
+      expect(screen.getByText('Awaiting Approval (1):')).toBeInTheDocument();
+      expect(screen.getByText(refund.reason)).toBeInTheDocument();
+      expect(screen.getByText(/"amount": 250/)).toBeInTheDocument();
+    });
+
+    it('approves with edited arguments', () => {
+      const onApprove = jest.fn();
+      render(
+        <ConciergusAgentControls
+          {...defaultProps}
+          pendingApprovals={[refund]}
+          onApprove={onApprove}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Edit refund arguments'));
+      fireEvent.change(screen.getByLabelText('Arguments for refund'), {
+        target: { value: '{ "orderId": "order_1", "amount": 90' }
+      });
+      fireEvent.click(screen.getByLabelText('Approve refund'));
+
+      expect(screen.getByText('Arguments must be valid JSON')).toBeInTheDocument();
+      expect(onApprove).not.toHaveBeenCalled();
+
+      fireEvent.change(screen.getByLabelText('Arguments for refund'), {
+        target: { value: '[90]' }
+      });
+      fireEvent.click(screen.getByLabelText('Approve refund'));
+
+      expect(screen.getByText('Arguments must be a JSON object')).toBeInTheDocument();
+      expect(onApprove).not.toHaveBeenCalled();
+
+      fireEvent.change(screen.getByLabelText('Arguments for refund'), {
+        target: { value: '{ "orderId": "order_1", "amount": 90 }' }
+      });
+      fireEvent.change(screen.getByLabelText('Comment on refund'), {
+        target: { value: 'Partial refund only' }
+      });
+      fireEvent.click(screen.getByLabelText('Approve refund'));
+
+      expect(onApprove).toHaveBeenCalledWith('step-refund', {
+        arguments: { orderId: 'order_1', amount: 90 },
+        comment: 'Partial refund only'
+      });
+    });
+
+    it('rejects and hides editing when edits are not allowed', () => {
+      const onReject = jest.fn();
+      render(
+        <ConciergusAgentControls
+          {...defaultProps}
+          pendingApprovals={[{ ...refund, allowEdits: false }]}
+          onReject={onReject}
+        />
+      );
+
+      expect(screen.queryByLabelText('Edit refund arguments')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByLabelText('Reject refund'));
+
+      expect(onReject).toHaveBeenCalledWith('step-refund', undefined);
+    });
+  });
+
   describe('Debug Mode', () => {
     it('shows debug information when debug is true', () => {
       render(<ConciergusAgentControls {...defaultProps} debug={true} />);
@@ -5,6 +5,7 @@ import type {
   ToolCallState,
   StreamingType,
 } from '../types/ai-sdk-5';
+import type { AgentApprovalRequest } from '../context/AgentApprovals';
 
 // ==========================================
 // COMPONENT INTERFACES
@@ -18,6 +19,7 @@ export type AgentStepStatus =
   | 'preparing'
   | 'running'
   | 'paused'
+  | 'awaiting_approval'
   | 'completed'
   | 'error'
   | 'cancelled';
@@ -86,6 +88,8 @@ export interface ConciergusAgentControlsProps {
   maxSteps?: number;
   /** Continue conditions */
   continueConditions?: AgentCondition[];
+  /** Tool calls waiting for a human decision */
+  pendingApprovals?: AgentApprovalRequest[];
   /** Additional CSS classes */
   className?: string;
 
@@ -126,12 +130,21 @@ export interface ConciergusAgentControlsProps {
   onStepStatusChange?: (stepId: string, status: AgentStepStatus) => void;
   /** Error handler */
   onError?: (error: Error) => void;
+  /** Approve a held tool call, with edited arguments if changed */
+  onApprove?: (
+    requestId: string,
+    options: { arguments?: Record<string, unknown>; comment?: string }
+  ) => void;
+  /** Reject a held tool call */
+  onReject?: (requestId: string, comment?: string) => void;
 
   // === Customization ===
   /** Custom step renderer */
   stepRenderer?: React.ComponentType<StepRendererProps>;
   /** Custom control renderer */
   controlRenderer?: React.ComponentType<ControlRendererProps>;
+  /** Custom approval renderer */
+  approvalRenderer?: React.ComponentType<ApprovalRendererProps>;
   /** Show debug information */
   debug?: boolean;
 
@@ -188,6 +201,23 @@ export interface ControlRendererProps {
   compact?: boolean;
 }
 
+/**
+ * Properties for custom approval renderer
+ */
+export interface ApprovalRendererProps {
+  /** Held tool call */
+  request: AgentApprovalRequest;
+  /** Approve, with edited arguments if changed */
+  onApprove: (options: {
+    arguments?: Record<string, unknown>;
+    comment?: string;
+  }) => void;
+  /** Reject */
+  onReject: (comment?: string) => void;
+  /** Compact mode */
+  compact?: boolean;
+}
+
 // ==========================================
 // DEFAULT COMPONENTS
 // ==========================================
@@ -234,6 +264,8 @@ const DefaultStepRenderer: React.FC<StepRendererProps> = ({
         return '🔄';
       case 'paused':
         return '⏸️';
+      case 'awaiting_approval':
+        return '✋';
       case 'cancelled':
         return '🚫';
       default:
@@ -397,6 +429,131 @@ const DefaultControlRenderer: React.FC<ControlRendererProps> = ({
   );
 };
 
+/**
+ * Default approval renderer component
+ */
+const DefaultApprovalRenderer: React.FC<ApprovalRendererProps> = ({
+  request,
+  onApprove,
+  onReject,
+  compact = false,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedArguments, setEditedArguments] = useState('');
+  const [comment, setComment] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const formattedArguments = useMemo(
+    () => JSON.stringify(request.arguments, null, 2),
+    [request.arguments]
+  );
+
+  const startEditing = useCallback(() => {
+    setEditedArguments(formattedArguments);
+    setEditError(null);
+    setIsEditing(true);
+  }, [formattedArguments]);
+
+  const handleApprove = useCallback(() => {
+    const trimmedComment = comment.trim();
+    const options: { arguments?: Record<string, unknown>; comment?: string } =
+      trimmedComment ? { comment: trimmedComment } : {};
+
+    if (isEditing) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(editedArguments);
+      } catch {
+        setEditError('Arguments must be valid JSON');
+        return;
+      }
+      if (
+        typeof parsed !== 'object' ||
+        parsed === null ||
+        Array.isArray(parsed)
+      ) {
+        setEditError('Arguments must be a JSON object');
+        return;
+      }
+      options.arguments = parsed as Record<string, unknown>;
+    }
+    onApprove(options);
+  }, [comment, isEditing, editedArguments, onApprove]);
+
+  const handleReject = useCallback(() => {
+    onReject(comment.trim() || undefined);
+  }, [comment, onReject]);
+
+  return (
+    <div
+      className={`approval-request ${compact ? 'compact' : ''}`}
+      role="group"
+      aria-label={`Approval for ${request.toolName}`}
+    >
+      <div className="approval-header">
+        <span className="approval-tool">{request.toolName}</span>
+        <span className="approval-reason">{request.reason}</span>
+      </div>
+
+      {isEditing ? (
+        <textarea
+          className="approval-arguments-editor"
+          value={editedArguments}
+          onChange={(e) => setEditedArguments(e.target.value)}
+          aria-label={`Arguments for ${request.toolName}`}
+          rows={6}
+        />
+      ) : (
+        !compact && (
+          <pre className="approval-arguments">{formattedArguments}</pre>
+        )
+      )}
+      {editError && (
+        <div className="approval-error" role="alert">
+          {editError}
+        </div>
+      )}
+
+      <input
+        className="approval-comment"
+        type="text"
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Comment (optional)"
+        aria-label={`Comment on ${request.toolName}`}
+      />
+
+      <div className="approval-actions">
+        <button
+          className="control-button approve"
+          onClick={handleApprove}
+          aria-label={`Approve ${request.toolName}`}
+        >
+          ✅ {isEditing ? 'Approve Edits' : 'Approve'}
+        </button>
+
+        {request.allowEdits && !isEditing && (
+          <button
+            className="control-button edit"
+            onClick={startEditing}
+            aria-label={`Edit ${request.toolName} arguments`}
+          >
+            ✏️ Edit
+          </button>
+        )}
+
+        <button
+          className="control-button reject"
+          onClick={handleReject}
+          aria-label={`Reject ${request.toolName}`}
+        >
+          🚫 Reject
+        </button>
+      </div>
+    </div>
+  );
+};
+
 // ==========================================
 // MAIN COMPONENT
 // ==========================================
@@ -414,6 +571,7 @@ const ConciergusAgentControls: React.FC<ConciergusAgentControlsProps> = ({
   currentStepIndex = 0,
   maxSteps = 10,
   continueConditions = [],
+  pendingApprovals = [],
   className = '',
 
   // Control options
@@ -436,10 +594,13 @@ const ConciergusAgentControls: React.FC<ConciergusAgentControlsProps> = ({
   onModeChange,
   onStepStatusChange,
   onError,
+  onApprove,
+  onReject,
 
   // Customization
   stepRenderer: StepRenderer = DefaultStepRenderer,
   controlRenderer: ControlRenderer = DefaultControlRenderer,
+  approvalRenderer: ApprovalRenderer = DefaultApprovalRenderer,
   debug = false,
 
   // Accessibility
@@ -636,6 +797,26 @@ const ConciergusAgentControls: React.FC<ConciergusAgentControlsProps> = ({
         </div>
       )}
 
+      {/* Tool calls held for approval */}
+      {pendingApprovals.length > 0 && (
+        <div className="pending-approvals" aria-live="polite">
+          <div className="approvals-label">
+            Awaiting Approval ({pendingApprovals.length}):
+          </div>
+          <div className="approvals-list">
+            {pendingApprovals.map((request) => (
+              <ApprovalRenderer
+                key={request.id}
+                request={request}
+                onApprove={(options) => onApprove?.(request.id, options)}
+                onReject={(comment) => onReject?.(request.id, comment)}
+                compact={compact}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Steps Timeline */}
       {showTimeline && steps.length > 0 && (
         <div className="steps-timeline">
@@ -687,6 +868,7 @@ const ConciergusAgentControls: React.FC<ConciergusAgentControlsProps> = ({
                 progressPercentage,
                 selectedCondition,
                 continueConditions: continueConditions.length,
+                pendingApprovals: pendingApprovals.length,
               },
               null,
               2
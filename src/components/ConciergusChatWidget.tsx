@@ -15,6 +15,10 @@ import ConciergusErrorBoundary, {
 import ConciergusMetadataDisplay from './ConciergusMetadataDisplay';
 import ConciergusModelSwitcher from './ConciergusModelSwitcher';
 import type { TelemetryEvent } from './ConciergusMetadataDisplay';
+import {
+  validateWorkflowGraph,
+  type WorkflowGraphDefinition,
+} from '../context/AgentWorkflowGraph';
 
 // ChatStore interface for AI SDK 5 compatibility
 export interface ChatStore {
@@ -46,7 +50,8 @@ export interface AgentWorkflowConfig {
   maxSteps?: number;
   stepTimeout?: number;
   allowParallelExecution?: boolean;
-  workflowDefinitions?: Record<string, any>;
+  /** Workflow graphs by ID, validated when the widget mounts */
+  workflowDefinitions?: Record<string, WorkflowGraphDefinition>;
 }
 
 export interface RAGConfig {
@@ -63,6 +68,7 @@ export interface RAGConfig {
 
 export interface RateLimitingConfig {
   maxRequestsPerMinute?: number;
+  // Enforced on gateway requests through RateLimitingHelpers.tokensPerMinuteQuota
   maxTokensPerMinute?: number;
   cooldownPeriod?: number;
   burstAllowance?: number;
@@ -448,6 +454,26 @@ export const ConciergusChatWidget: React.FC<ConciergusChatWidgetProps> = ({
     memoizedAccessibilityConfig,
   ]);
 
+  // Report invalid workflow graphs before an agent tries to run them
+  const workflowDefinitions = agentWorkflowConfig?.workflowDefinitions;
+  useEffect(() => {
+    if (!workflowDefinitions) return;
+
+    for (const definition of Object.values(workflowDefinitions)) {
+      const validation = validateWorkflowGraph(definition, workflowDefinitions);
+      if (!validation.valid) {
+        const error = new Error(
+          `Invalid workflow graph ${definition.id}: ${validation.errors.join('; ')}`
+        );
+        if (onError) {
+          onError(error, 'agent-workflows');
+        } else {
+          console.error(error);
+        }
+      }
+    }
+  }, [workflowDefinitions, onError]);
+
   // Enhanced configuration with ChatStore integration and new features
   const enhancedConfig: ConciergusConfig = {
     ...config,
@@ -476,6 +502,12 @@ export const ConciergusChatWidget: React.FC<ConciergusChatWidgetProps> = ({
       generativeUIConfig?.enabled ?? config.enableGenerativeUI ?? false,
     enableAgentWorkflows:
       agentWorkflowConfig?.enabled ?? config.enableAgentWorkflows ?? false,
+    ...(workflowDefinitions && {
+      agentWorkflowDefinitions: workflowDefinitions,
+    }),
+    ...(agentWorkflowConfig?.allowParallelExecution !== undefined && {
+      allowParallelAgentExecution: agentWorkflowConfig.allowParallelExecution,
+    }),
     enableRAG: ragConfig?.enabled ?? config.enableRAG ?? false,
 
     // UI configuration - props override config values
@@ -506,9 +538,17 @@ export const ConciergusChatWidget: React.FC<ConciergusChatWidgetProps> = ({
       return <>{children}</>;
     }
 
+    const maxTokensPerMinute =
+      rateLimitingConfig?.enabled !== false
+        ? rateLimitingConfig?.maxTokensPerMinute
+        : undefined;
+
     return (
       <GatewayProvider
-        {...(gatewayConfig && { initialConfig: gatewayConfig })}
+        initialConfig={{
+          ...gatewayConfig,
+          ...(maxTokensPerMinute !== undefined && { maxTokensPerMinute }),
+        }}
         {...(currentModel || config.defaultModel
           ? { defaultModel: currentModel || config.defaultModel }
           : {})}
@@ -326,6 +326,7 @@ jest.mock('../context/useConciergus', () => ({
 // Import components AFTER mocking dependencies
 import { ConciergusFormRenderer, type FormSchema, type FormSubmissionData } from './ConciergusFormRenderer';
 import { ConciergusProvider } from '../context/ConciergusProvider';
+import { jsonSchemaToFormSchema } from '../mcp/MCPFormSchema';
 
 // Sample form schema for testing
 const sampleFormSchema: FormSchema = {
@@ -1288,4 +1289,50 @@ describe('ConciergusFormRenderer', () => {
       consoleSpy.mockRestore();
     });
   });
+  describe('Given Schema', () => {
+    test('renders a given schema without generating one', async () => {
+      const user = userEvent.setup();
+      const onSubmit = jest.fn();
+      const submit = jest.fn();
+      (experimental_useObject as jest.Mock).mockReturnValue({
+        object: undefined,
+        submit,
+        isLoading: false,
+        error: null,
+        stop: jest.fn()
+      });
+      const toolSchema = jsonSchemaToFormSchema(
+        {
+          type: 'object',
+          properties: {
+            orderId: { type: 'string', title: 'Order' },
+            notify: { type: 'boolean', title: 'Notify customer', default: true }
+          },
+          required: ['orderId']
+        },
+        { title: 'Refund order' }
+      );
+
+      render(
+        <TestWrapper>
+          <ConciergusFormRenderer schema={toolSchema} onSubmit={onSubmit} />
+        </TestWrapper>
+      );
+
+      expect(screen.getByText('Refund order')).toBeInTheDocument();
+      expect(submit).not.toHaveBeenCalled();
+
+      await user.type(screen.getByLabelText(/Order/), 'order_1');
+      await user.click(screen.getByText('Submit'));
+
+      await waitFor(() => {
+        expect(onSubmit).toHaveBeenCalledWith(
+          expect.objectContaining({
+            data: { orderId: 'order_1', notify: true },
+            schema: toolSchema
+          })
+        );
+      });
+    });
+  });
 }); 
\ No newline at end of file
@@ -223,8 +223,11 @@ export interface FormSubmissionData {
  * Properties for ConciergusFormRenderer component
  */
 export interface ConciergusFormRendererProps {
-  /** Prompt for AI form generation */
-  prompt: string;
+  /** Prompt for AI form generation; unused when a schema is given */
+  prompt?: string;
+
+  /** Form to render as given instead of generating one, such as an MCP tool's form */
+  schema?: FormSchema;
 
   /** Form submission handler */
   onSubmit: (submission: FormSubmissionData) => void | Promise<void>;
@@ -555,6 +558,21 @@ const DefaultFieldRenderer: React.FC<FormFieldRendererProps> = ({
   );
 };
 
+/**
+ * Initial values for a form's fields; checkboxes start unchecked
+ */
+const getDefaultFormData = (fields: FormField[]): Record<string, any> => {
+  const defaultData: Record<string, any> = {};
+  fields.forEach((field) => {
+    if (field.defaultValue !== undefined) {
+      defaultData[field.name] = field.defaultValue;
+    } else if (field.type === 'checkbox') {
+      defaultData[field.name] = false;
+    }
+  });
+  return defaultData;
+};
+
 // ==========================================
 // MAIN COMPONENT
 // ==========================================
@@ -594,7 +612,8 @@ const DefaultFieldRenderer: React.FC<FormFieldRendererProps> = ({
  * ```
  */
 export const ConciergusFormRenderer: React.FC<ConciergusFormRendererProps> = ({
-  prompt,
+  prompt = '',
+  schema,
   onSubmit,
   generationOptions = {},
   renderOptions = {},
@@ -734,7 +753,7 @@ export const ConciergusFormRenderer: React.FC<ConciergusFormRendererProps> = ({
 
   // AI form generation
   const {
-    object: generatedSchema,
+    object: streamedSchema,
     submit: generateForm,
     isLoading: isGenerating,
     error: generationError,
@@ -754,18 +773,7 @@ export const ConciergusFormRenderer: React.FC<ConciergusFormRendererProps> = ({
 
       if (object && !error) {
         onGenerationComplete?.(object as FormSchema);
-
-        // Set default values
-        const defaultData: Record<string, any> = {};
-        object.fields?.forEach((field: FormField) => {
-          if (field.defaultValue !== undefined) {
-            defaultData[field.name] = field.defaultValue;
-          } else if (field.type === 'checkbox') {
-            // Set default value for checkboxes to false if not specified
-            defaultData[field.name] = false;
-          }
-        });
-        setFormData(defaultData);
+        setFormData(getDefaultFormData((object.fields ?? []) as FormField[]));
 
         // Track generation time
         if (generationStartTime) {
@@ -788,6 +796,15 @@ export const ConciergusFormRenderer: React.FC<ConciergusFormRendererProps> = ({
     },
   });
 
+  // A given schema is rendered instead of a generated one
+  const generatedSchema = (schema ?? streamedSchema) as FormSchema | undefined;
+
+  useEffect(() => {
+    if (schema) {
+      setFormData(getDefaultFormData(schema.fields));
+    }
+  }, [schema]);
+
   // Enhanced prompt with generation options
   const enhancedPrompt = useMemo(() => {
     const options = generationOptions;
@@ -35,6 +35,24 @@ export interface EnhancedSource extends Source {
   status?: 'active' | 'deprecated' | 'archived';
   /** Metadata */
   metadata?: Record<string, any>;
+  /** Location of the cited chunk in the source document */
+  location?: SourceLocation;
+}
+
+/**
+ * Byte range of a citation within its source document
+ */
+export interface SourceLocation {
+  /** UTF-8 byte offset where the cited text starts */
+  startOffset: number;
+  /** UTF-8 byte offset where the cited text ends */
+  endOffset: number;
+  /** Heading path of the enclosing section */
+  sectionPath?: string[];
+  /** JSONPath of the cited value */
+  jsonPath?: string;
+  /** Page number in paginated sources such as PDFs */
+  page?: number;
 }
 
 /**
@@ -457,6 +475,19 @@ const formatCitation = (
   }
 };
 
+/**
+ * Build a link that deep-links to the cited range of a source. Paginated
+ * sources link to the page, which PDF viewers understand.
+ */
+const getSourceLink = (source: EnhancedSource): string | undefined => {
+  if (!source.url || !source.location) return source.url;
+
+  const [base] = source.url.split('#');
+  const { startOffset, endOffset, page } = source.location;
+  if (page !== undefined) return `${base}#page=${page}`;
+  return `${base}#offset=${startOffset}-${endOffset}`;
+};
+
 // ==========================================
 // DEFAULT COMPONENT RENDERERS
 // ==========================================
@@ -513,6 +544,15 @@ const DefaultSourceRenderer: React.FC<SourceRendererProps> = ({
 
       <div className="source-meta">
         <span className="source-url">{source.url}</span>
+        {source.location?.sectionPath &&
+          source.location.sectionPath.length > 0 && (
+            <span className="source-section">
+              § {source.location.sectionPath.join(' › ')}
+            </span>
+          )}
+        {source.location?.page !== undefined && (
+          <span className="source-page">p. {source.location.page}</span>
+        )}
         {source.publishedAt && (
           <span className="source-date">
             📅 {source.publishedAt.toLocaleDateString()}
@@ -540,7 +580,7 @@ const DefaultSourceRenderer: React.FC<SourceRendererProps> = ({
           📋 Copy Citation
         </button>
         <a
-          href={source.url}
+          href={getSourceLink(source)}
           target="_blank"
           rel="noopener noreferrer"
           className="action-button view-source"
@@ -1002,4 +1042,5 @@ export {
   clusterSources,
   formatCitation,
   extractDomain,
+  getSourceLink,
 };
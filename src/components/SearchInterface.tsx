@@ -21,6 +21,7 @@ import type {
   SearchResults,
   SearchResult,
 } from '../search/ConversationSearchEngine';
+import type { QueryParseError } from '../search/QueryParser';
 import type { ConversationMessage } from '../types/conversation';
 
 /**
@@ -31,16 +32,42 @@ interface SearchInputProps {
   onQueryChange?: (query: string) => void;
   placeholder?: string;
   suggestions?: string[];
+  parseErrors?: QueryParseError[]; // Underlined in the input, e.g. SearchState.parsedQuery.errors
   disabled?: boolean;
   className?: string;
 }
 
+/**
+ * Split the query into plain and erroneous segments for underlining
+ */
+function segmentQuery(
+  query: string,
+  errors: QueryParseError[]
+): Array<{ text: string; error?: QueryParseError }> {
+  const segments: Array<{ text: string; error?: QueryParseError }> = [];
+  let cursor = 0;
+
+  for (const error of [...errors].sort((a, b) => a.start - b.start)) {
+    const start = Math.max(error.start, cursor);
+    const end = Math.min(Math.max(error.end, start + 1), query.length);
+    if (start >= end) continue;
+
+    if (start > cursor) segments.push({ text: query.slice(cursor, start) });
+    segments.push({ text: query.slice(start, end), error });
+    cursor = end;
+  }
+
+  if (cursor < query.length) segments.push({ text: query.slice(cursor) });
+  return segments;
+}
+
 export const SearchInput: React.FC<SearchInputProps> = memo(
   ({
     onSearch,
     onQueryChange,
     placeholder = 'Search conversations...',
     suggestions = [],
+    parseErrors = [],
     disabled = false,
     className = '',
   }) => {
@@ -131,9 +158,31 @@ export const SearchInput: React.FC<SearchInputProps> = memo(
             onBlur={() => setTimeout(() => setShowSuggestions(false), 200)}
             placeholder={placeholder}
             disabled={disabled}
+            aria-invalid={parseErrors.length > 0}
             className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
           />
 
+          {/* Parse error underlines, aligned with the input text */}
+          {parseErrors.length > 0 && (
+            <div
+              aria-hidden="true"
+              className="absolute inset-0 pl-10 pr-4 py-2 border border-transparent whitespace-pre overflow-hidden text-transparent pointer-events-none"
+            >
+              {segmentQuery(query, parseErrors).map((segment, index) =>
+                segment.error ? (
+                  <span
+                    key={index}
+                    className="underline decoration-wavy decoration-red-500"
+                  >
+                    {segment.text}
+                  </span>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                )
+              )}
+            </div>
+          )}
+
           {/* Search icon */}
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
             <svg
@@ -178,6 +227,14 @@ export const SearchInput: React.FC<SearchInputProps> = memo(
           )}
         </div>
 
+        {parseErrors.length > 0 && (
+          <ul role="alert" className="mt-1 text-xs text-red-600">
+            {parseErrors.map((error, index) => (
+              <li key={index}>{error.message}</li>
+            ))}
+          </ul>
+        )}
+
         {/* Suggestions dropdown */}
         {showSuggestions && availableSuggestions.length > 0 && (
           <div className="absolute z-10 w-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-auto">
@@ -568,7 +625,9 @@ export const SearchResultItem: React.FC<SearchResultItemProps> = memo(
                   ? 'bg-green-100 text-green-800'
                   : result.matchType === 'partial'
                     ? 'bg-yellow-100 text-yellow-800'
-                    : 'bg-gray-100 text-gray-800'
+                    : result.matchType === 'semantic'
+                      ? 'bg-purple-100 text-purple-800'
+                      : 'bg-gray-100 text-gray-800'
               }`}
             >
               {result.matchType}
@@ -600,6 +659,15 @@ export const SearchResultItem: React.FC<SearchResultItemProps> = memo(
           )}
         </div>
 
+        {/* Matched passage */}
+        {result.matchedPassage && (
+          <p className="text-xs text-purple-700 mb-2">
+            Similar in meaning (
+            {Math.round(result.matchedPassage.similarity * 100)}%): &ldquo;
+            {result.matchedPassage.text}&rdquo;
+          </p>
+        )}
+
         {/* Matched terms */}
         {result.matchedTerms.length > 0 && (
           <div className="flex flex-wrap gap-1 mb-2">
@@ -11,6 +11,8 @@ export interface StreamingIndicatorProps {
   showProgressBar?: boolean;
   customMessage?: string;
   animationSpeed?: 'slow' | 'medium' | 'fast';
+  isReconnecting?: boolean; // connection dropped and a resume is underway
+  reconnectAttempt?: number;
   [key: string]: any;
 }
 
@@ -24,16 +26,32 @@ export const StreamingIndicator: FC<StreamingIndicatorProps> = ({
   showProgressBar = false,
   customMessage,
   animationSpeed = 'medium',
+  isReconnecting = false,
+  reconnectAttempt,
   currentProgress, // Extract and ignore currentProgress
   totalTokens, // Extract and ignore totalTokens
   ...rest
 }) => {
-  if (!isStreaming) {
+  if (!isStreaming && !isReconnecting) {
     return null;
   }
 
   // Get type-specific styling and messaging
   const getTypeConfig = () => {
+    // A dropped connection outranks what was being streamed
+    if (isReconnecting) {
+      return {
+        icon: '🔄',
+        message:
+          customMessage ||
+          (reconnectAttempt
+            ? `Reconnecting (attempt ${reconnectAttempt})...`
+            : 'Reconnecting...'),
+        color: 'text-amber-600',
+        bgColor: 'bg-amber-50',
+      };
+    }
+
     switch (streamingType) {
       case 'text':
         return {
@@ -93,7 +111,9 @@ export const StreamingIndicator: FC<StreamingIndicatorProps> = ({
     <div
       className={`streaming-indicator ${typeConfig.bgColor} ${className}`}
       data-streaming-type={streamingType}
+      data-connection-state={isReconnecting ? 'reconnecting' : 'connected'}
       data-testid="streaming-indicator"
+      aria-live="polite"
       {...rest}
     >
       <div className="streaming-content">
@@ -102,7 +122,9 @@ export const StreamingIndicator: FC<StreamingIndicatorProps> = ({
           <span
             className={`streaming-icon ${animationSpeedClass}`}
             role="img"
-            aria-label={`${streamingType} streaming`}
+            aria-label={
+              isReconnecting ? 'reconnecting' : `${streamingType} streaming`
+            }
           >
             {typeConfig.icon}
           </span>
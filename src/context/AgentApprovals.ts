@@ -0,0 +1,142 @@
+/**
+ * Agent Approvals
+ * Per-tool policies that hold an agent's tool calls until a person
+ * approves, edits or rejects them.
+ */
+
+/**
+ * A person the agent acts for, or who decides on its tool calls
+ */
+export interface AgentActor {
+  userId: string;
+  roles: string[];
+}
+
+/**
+ * When a tool call needs approval
+ */
+export type ToolApprovalRule =
+  | { require: 'always' }
+  | { require: 'never' }
+  | {
+      // Argument path such as 'amount' or 'order.total'
+      require: 'above_threshold';
+      argument: string;
+      threshold: number;
+    }
+  | {
+      // Actors with one of these roles run the tool without approval
+      require: 'by_role';
+      exemptRoles: string[];
+    };
+
+export type ToolApprovalPolicy = ToolApprovalRule & {
+  approverRoles?: string[] | undefined; // Who may decide; anyone when unset
+  allowEdits?: boolean | undefined; // Whether approvers may change arguments, default true
+};
+
+/**
+ * A tool call waiting for a decision
+ */
+export interface AgentApprovalRequest {
+  id: string; // Step ID for workflow steps
+  toolName: string;
+  arguments: unknown;
+  reason: string;
+  approverRoles?: string[] | undefined;
+  allowEdits: boolean;
+  requestedAt: Date;
+}
+
+export interface AgentApprovalDecision {
+  outcome: 'approved' | 'rejected';
+  approver: AgentActor;
+  arguments?: Record<string, unknown>; // Edited arguments to run with instead
+  comment?: string | undefined;
+}
+
+/**
+ * Approval state recorded on a step
+ */
+export interface AgentStepApproval {
+  reason: string;
+  requestedAt: Date;
+  decision?: AgentApprovalDecision & {
+    edited: boolean;
+    originalArguments: unknown;
+    decidedAt: Date;
+  };
+}
+
+/**
+ * Value at a dotted path of tool arguments
+ */
+export function readToolArgument(args: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        typeof value === 'object' && value !== null
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      args
+    );
+}
+
+/**
+ * Why a tool call needs approval under a policy, or null when it may run.
+ * A threshold argument that is missing or not a number needs approval, so
+ * a malformed call cannot slip past the threshold.
+ */
+export function getToolApprovalReason(
+  toolName: string,
+  args: unknown,
+  policy: ToolApprovalPolicy | undefined,
+  actor?: AgentActor | undefined
+): string | null {
+  switch (policy?.require) {
+    case undefined:
+    case 'never':
+      return null;
+    case 'always':
+      return `${toolName} always requires approval`;
+    case 'above_threshold': {
+      const value = readToolArgument(args, policy.argument);
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${toolName} argument ${policy.argument} is not a number`;
+      }
+      return value > policy.threshold
+        ? `${toolName} ${policy.argument} ${value} is above the approval threshold of ${policy.threshold}`
+        : null;
+    }
+    case 'by_role':
+      return actor?.roles.some((role) => policy.exemptRoles.includes(role))
+        ? null
+        : `${toolName} requires approval unless run by ${policy.exemptRoles.join(', ')}`;
+  }
+}
+
+/**
+ * Check that a decision is one the approver may make
+ */
+export function assertApprovalAllowed(
+  request: AgentApprovalRequest,
+  decision: AgentApprovalDecision
+): void {
+  const { approverRoles } = request;
+  if (
+    approverRoles &&
+    !decision.approver.roles.some((role) => approverRoles.includes(role))
+  ) {
+    throw new Error(
+      `${decision.approver.userId} may not decide on ${request.toolName}; requires role ${approverRoles.join(' or ')}`
+    );
+  }
+  if (
+    decision.outcome === 'approved' &&
+    decision.arguments !== undefined &&
+    !request.allowEdits
+  ) {
+    throw new Error(`Arguments of ${request.toolName} may not be edited`);
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Agent Checkpoints
+ * Durable snapshots of agent workflows, saved around every step so a run
+ * interrupted by a reload or restart continues from its last completed
+ * step instead of starting over.
+ */
+
+import type {
+  AgentContext,
+  AgentStep,
+  AgentWorkflow,
+} from './ConciergusAgentHooks';
+import type { AgentStepApproval } from './AgentApprovals';
+import type { ConversationDataAccess } from '../database/ConversationDataAccess';
+import type { TenantContext } from '../database/TenantContext';
+
+/**
+ * The serializable part of an agent context. Tool handlers are code and
+ * are registered again by the page; messages live in the conversation.
+ */
+export type AgentCheckpointContext = Omit<AgentContext, 'tools' | 'messages'>;
+
+/**
+ * Workflow state at a point in time
+ */
+export interface AgentCheckpoint {
+  workflowId: string;
+  workflow: AgentWorkflow;
+  context: AgentCheckpointContext;
+  stepCount: number; // Steps taken by the interrupted continueUntil run
+  savedAt: Date;
+}
+
+/**
+ * Persistence for workflow checkpoints
+ */
+export interface AgentCheckpointStore {
+  load(workflowId: string): Promise<AgentCheckpoint | null>;
+  save(checkpoint: AgentCheckpoint): Promise<void>;
+  delete(workflowId: string): Promise<void>;
+  list(): Promise<AgentCheckpoint[]>;
+}
+
+/**
+ * A value as it reads back from JSON, with dates as ISO strings
+ */
+type Serialized<T> = T extends Date
+  ? string
+  : T extends Array<infer Item>
+    ? Serialized<Item>[]
+    : T extends object
+      ? { [K in keyof T]: Serialized<T[K]> }
+      : T;
+
+/**
+ * Plain JSON form of a checkpoint, as stores keep it
+ */
+export type SerializedAgentCheckpoint = Serialized<AgentCheckpoint>;
+
+export function serializeAgentCheckpoint(
+  checkpoint: AgentCheckpoint
+): SerializedAgentCheckpoint {
+  return JSON.parse(JSON.stringify(checkpoint));
+}
+
+const reviveDate = (value: unknown): Date | undefined =>
+  value === undefined || value === null ? undefined : new Date(value as string);
+
+const reviveApproval = ({
+  decision,
+  ...approval
+}: Serialized<AgentStepApproval>): AgentStepApproval => ({
+  ...approval,
+  requestedAt: new Date(approval.requestedAt),
+  ...(decision
+    ? { decision: { ...decision, decidedAt: new Date(decision.decidedAt) } }
+    : {}),
+});
+
+/**
+ * Checkpoint from its JSON form, with dates restored
+ */
+export function parseAgentCheckpoint(
+  record: SerializedAgentCheckpoint
+): AgentCheckpoint {
+  const { startTime, endTime, steps, ...rest } = record.workflow;
+  const workflowStart = reviveDate(startTime);
+  const workflowEnd = reviveDate(endTime);
+
+  return {
+    workflowId: record.workflowId,
+    workflow: {
+      ...rest,
+      ...(workflowStart ? { startTime: workflowStart } : {}),
+      ...(workflowEnd ? { endTime: workflowEnd } : {}),
+      steps: steps.map((step): AgentStep => {
+        const { endTime: stepEnd, approval, ...stepRest } = step;
+        const end = reviveDate(stepEnd);
+        return {
+          ...stepRest,
+          startTime: new Date(step.startTime),
+          ...(end ? { endTime: end } : {}),
+          ...(approval ? { approval: reviveApproval(approval) } : {}),
+        };
+      }),
+    },
+    context: record.context,
+    stepCount: record.stepCount ?? 0,
+    savedAt: new Date(record.savedAt),
+  };
+}
+
+/**
+ * In-memory checkpoint store
+ */
+export class MemoryAgentCheckpointStore implements AgentCheckpointStore {
+  private checkpoints = new Map<string, SerializedAgentCheckpoint>();
+
+  async load(workflowId: string): Promise<AgentCheckpoint | null> {
+    const record = this.checkpoints.get(workflowId);
+    return record ? parseAgentCheckpoint(record) : null;
+  }
+
+  async save(checkpoint: AgentCheckpoint): Promise<void> {
+    this.checkpoints.set(
+      checkpoint.workflowId,
+      serializeAgentCheckpoint(checkpoint)
+    );
+  }
+
+  async delete(workflowId: string): Promise<void> {
+    this.checkpoints.delete(workflowId);
+  }
+
+  async list(): Promise<AgentCheckpoint[]> {
+    return [...this.checkpoints.values()].map(parseAgentCheckpoint);
+  }
+}
+
+/**
+ * Browser checkpoint store backed by IndexedDB
+ */
+export class IndexedDBAgentCheckpointStore implements AgentCheckpointStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private databaseName = 'conciergus-agent',
+    private storeName = 'checkpoints',
+    private factory: IDBFactory = globalThis.indexedDB
+  ) {}
+
+  async load(workflowId: string): Promise<AgentCheckpoint | null> {
+    const record = await this.request<SerializedAgentCheckpoint | undefined>(
+      'readonly',
+      (store) => store.get(workflowId)
+    );
+    return record ? parseAgentCheckpoint(record) : null;
+  }
+
+  async save(checkpoint: AgentCheckpoint): Promise<void> {
+    await this.request('readwrite', (store) =>
+      store.put(serializeAgentCheckpoint(checkpoint))
+    );
+  }
+
+  async delete(workflowId: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(workflowId));
+  }
+
+  async list(): Promise<AgentCheckpoint[]> {
+    const records = await this.request<SerializedAgentCheckpoint[]>(
+      'readonly',
+      (store) => store.getAll()
+    );
+    return records.map(parseAgentCheckpoint);
+  }
+
+  /**
+   * Open the database on first use, creating the object store
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = this.factory.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName, {
+            keyPath: 'workflowId',
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call retry after a failed open
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const database = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = run(
+        database.transaction(this.storeName, mode).objectStore(this.storeName)
+      );
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Server checkpoint store that keeps checkpoints in the metadata of the
+ * conversation the agent works in, one top-level key per workflow so
+ * concurrent workflows do not overwrite each other
+ */
+export class ConversationAgentCheckpointStore implements AgentCheckpointStore {
+  constructor(
+    private dataAccess: ConversationDataAccess,
+    private context: TenantContext,
+    private conversationId: string,
+    private prefix = 'agentCheckpoint:'
+  ) {}
+
+  async load(workflowId: string): Promise<AgentCheckpoint | null> {
+    const record = (await this.metadata())[this.prefix + workflowId];
+    return record ? parseAgentCheckpoint(record) : null;
+  }
+
+  async save(checkpoint: AgentCheckpoint): Promise<void> {
+    await this.update({
+      [this.prefix + checkpoint.workflowId]:
+        serializeAgentCheckpoint(checkpoint),
+    });
+  }
+
+  /**
+   * Metadata keys are merged, so a deleted checkpoint is set to null
+   */
+  async delete(workflowId: string): Promise<void> {
+    await this.update({ [this.prefix + workflowId]: null });
+  }
+
+  async list(): Promise<AgentCheckpoint[]> {
+    return Object.entries(await this.metadata())
+      .filter(([key, record]) => key.startsWith(this.prefix) && record)
+      .map(([, record]) => parseAgentCheckpoint(record!));
+  }
+
+  /**
+   * Conversation metadata, where checkpoints are stored under prefixed keys
+   */
+  private async metadata(): Promise<
+    Record<string, SerializedAgentCheckpoint | null | undefined>
+  > {
+    const result = await this.dataAccess.getConversation(
+      this.conversationId,
+      this.context
+    );
+    if (!result.success || !result.data) {
+      throw new Error(
+        `Failed to read agent checkpoints: ${result.error?.message}`
+      );
+    }
+    return result.data.metadata ?? {};
+  }
+
+  private async update(
+    metadata: Record<string, SerializedAgentCheckpoint | null>
+  ): Promise<void> {
+    const result = await this.dataAccess.updateConversation(
+      this.conversationId,
+      this.context,
+      { metadata }
+    );
+    if (!result.success) {
+      throw new Error(
+        `Failed to save agent checkpoint: ${result.error?.message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,516 @@
+/**
+ * Agent Workflow Graphs
+ * Declarative workflows: steps joined by conditional edges, parallel
+ * branches that all finish before the workflow continues, loops with an
+ * iteration limit and sub-workflows. Definitions are plain JSON, so they
+ * can be stored or sent from a server, or built in TypeScript with
+ * workflowGraph().
+ */
+
+import type { AgentStep, PrepareStepOptions } from './ConciergusAgentHooks';
+
+/**
+ * State of a graph run that conditions are checked against
+ */
+export interface WorkflowRunState {
+  variables: Record<string, unknown>;
+  results: Record<string, unknown>; // By node ID; a sub-workflow's are nested under its node
+  statuses: Record<string, AgentStep['status']>;
+  iterations: Record<string, number>; // Completed iterations by loop node ID
+}
+
+/**
+ * Condition on the run state. Paths start with variables, results,
+ * statuses or iterations, e.g. 'results.classify.category'. Functions
+ * are for definitions built in TypeScript; they do not survive JSON.
+ */
+export type WorkflowCondition =
+  | {
+      path: string;
+      equals?: unknown;
+      notEquals?: unknown;
+      greaterThan?: number;
+      lessThan?: number;
+      exists?: boolean;
+    }
+  | { all: WorkflowCondition[] }
+  | { any: WorkflowCondition[] }
+  | ((state: WorkflowRunState) => boolean);
+
+/**
+ * Edge to the next node, taken when its condition holds. Edges are
+ * checked in order; one without a condition is the default and must be
+ * last.
+ */
+export interface WorkflowEdge {
+  to: string;
+  when?: WorkflowCondition;
+}
+
+export type WorkflowNext = string | WorkflowEdge[];
+
+interface WorkflowNodeBase {
+  id: string;
+  label?: string;
+  next?: WorkflowNext; // None ends the workflow, branch or loop body
+}
+
+export interface WorkflowStepNode extends WorkflowNodeBase {
+  type: 'step';
+  step: PrepareStepOptions | ((state: WorkflowRunState) => PrepareStepOptions);
+  output?: string; // Variable the step's result is stored in
+}
+
+export interface WorkflowParallelNode extends WorkflowNodeBase {
+  type: 'parallel';
+  branches: string[]; // First node of each branch
+}
+
+export interface WorkflowLoopNode extends WorkflowNodeBase {
+  type: 'loop';
+  body: string; // First node of the body
+  while: WorkflowCondition; // Checked before each iteration
+  maxIterations: number; // Exceeding it fails the run
+}
+
+export interface WorkflowSubworkflowNode extends WorkflowNodeBase {
+  type: 'subworkflow';
+  workflow: string; // ID of another definition
+}
+
+export type WorkflowGraphNode =
+  | WorkflowStepNode
+  | WorkflowParallelNode
+  | WorkflowLoopNode
+  | WorkflowSubworkflowNode;
+
+export interface WorkflowGraphDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  start: string;
+  nodes: WorkflowGraphNode[];
+}
+
+export interface WorkflowGraphValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * What a graph run needs from the agent
+ */
+export interface WorkflowGraphRuntime {
+  runStep: (
+    node: WorkflowStepNode,
+    options: PrepareStepOptions,
+    state: WorkflowRunState
+  ) => Promise<AgentStep>;
+  allowParallel: boolean; // Run branches concurrently instead of in order
+  definitions?: Record<string, WorkflowGraphDefinition> | undefined; // Sub-workflows by ID
+  shouldStop?: () => boolean;
+}
+
+const toEdges = (next: WorkflowNext | undefined): WorkflowEdge[] =>
+  next === undefined ? [] : typeof next === 'string' ? [{ to: next }] : next;
+
+const readPath = (source: unknown, path: string): unknown =>
+  path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value === null || value === undefined
+          ? undefined
+          : (value as Record<string, unknown>)[key],
+      source
+    );
+
+const isEqual = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Check a condition against the run state
+ */
+export function evaluateWorkflowCondition(
+  condition: WorkflowCondition,
+  state: WorkflowRunState
+): boolean {
+  if (typeof condition === 'function') {
+    return condition(state);
+  }
+  if ('all' in condition) {
+    return condition.all.every((c) => evaluateWorkflowCondition(c, state));
+  }
+  if ('any' in condition) {
+    return condition.any.some((c) => evaluateWorkflowCondition(c, state));
+  }
+
+  const value = readPath(state, condition.path);
+  if (
+    condition.exists !== undefined &&
+    (value !== undefined && value !== null) !== condition.exists
+  ) {
+    return false;
+  }
+  if ('equals' in condition && !isEqual(value, condition.equals)) {
+    return false;
+  }
+  if ('notEquals' in condition && isEqual(value, condition.notEquals)) {
+    return false;
+  }
+  if (
+    condition.greaterThan !== undefined &&
+    !(typeof value === 'number' && value > condition.greaterThan)
+  ) {
+    return false;
+  }
+  if (
+    condition.lessThan !== undefined &&
+    !(typeof value === 'number' && value < condition.lessThan)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check a definition before it runs: references resolve, edges form no
+ * cycles (loops repeat through loop nodes), every node is reachable, each
+ * node belongs to a single branch or loop body, and sub-workflows are
+ * defined, valid and do not include themselves
+ */
+export function validateWorkflowGraph(
+  definition: WorkflowGraphDefinition,
+  definitions: Record<string, WorkflowGraphDefinition> = {},
+  parents: string[] = []
+): WorkflowGraphValidationResult {
+  const errors: string[] = [];
+  const nodes = new Map<string, WorkflowGraphNode>();
+
+  for (const node of definition.nodes) {
+    if (nodes.has(node.id)) {
+      errors.push(`Duplicate node ${node.id}`);
+    }
+    nodes.set(node.id, node);
+  }
+  if (!nodes.has(definition.start)) {
+    errors.push(`Start node ${definition.start} does not exist`);
+  }
+
+  const checkReference = (from: string, to: string) => {
+    if (!nodes.has(to)) {
+      errors.push(`Node ${from} refers to unknown node ${to}`);
+    }
+  };
+
+  for (const node of nodes.values()) {
+    const edges = toEdges(node.next);
+    edges.forEach((edge, index) => {
+      checkReference(node.id, edge.to);
+      if (!edge.when && index < edges.length - 1) {
+        errors.push(`Default edge of node ${node.id} must be its last edge`);
+      }
+    });
+
+    switch (node.type) {
+      case 'parallel':
+        if (node.branches.length === 0) {
+          errors.push(`Parallel node ${node.id} has no branches`);
+        }
+        node.branches.forEach((branch) => checkReference(node.id, branch));
+        break;
+      case 'loop':
+        checkReference(node.id, node.body);
+        if (!Number.isInteger(node.maxIterations) || node.maxIterations < 1) {
+          errors.push(`Loop ${node.id} needs a positive maxIterations`);
+        }
+        break;
+      case 'subworkflow': {
+        const subworkflow = definitions[node.workflow];
+        if (!subworkflow) {
+          errors.push(
+            `Sub-workflow ${node.workflow} of node ${node.id} is not defined`
+          );
+        } else if (
+          node.workflow === definition.id ||
+          parents.includes(node.workflow)
+        ) {
+          errors.push(`Sub-workflow ${node.workflow} includes itself`);
+        } else {
+          const result = validateWorkflowGraph(subworkflow, definitions, [
+            ...parents,
+            definition.id,
+          ]);
+          errors.push(
+            ...result.errors.map((error) => `${node.workflow}: ${error}`)
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  // Walk each scope (the workflow, a branch, a loop body) along its edges
+  const scopes = new Map<string, string>();
+  const walkScope = (scope: string, first: string) => {
+    const path = new Set<string>();
+    const visit = (id: string) => {
+      if (path.has(id)) {
+        errors.push(
+          `Edges into node ${id} form a cycle; repeat steps with a loop node`
+        );
+        return;
+      }
+      const owner = scopes.get(id);
+      if (owner !== undefined) {
+        if (owner !== scope) {
+          errors.push(`Node ${id} is reached from both ${owner} and ${scope}`);
+        }
+        return;
+      }
+
+      scopes.set(id, scope);
+      path.add(id);
+      const node = nodes.get(id)!;
+      for (const edge of toEdges(node.next)) {
+        visit(edge.to);
+      }
+      path.delete(id);
+
+      if (node.type === 'parallel') {
+        node.branches.forEach((branch, index) =>
+          walkScope(`branch ${index + 1} of ${node.id}`, branch)
+        );
+      } else if (node.type === 'loop') {
+        walkScope(`the body of loop ${node.id}`, node.body);
+      }
+    };
+    visit(first);
+  };
+  walkScope(`workflow ${definition.id}`, definition.start);
+
+  for (const id of nodes.keys()) {
+    if (!scopes.has(id)) {
+      errors.push(`Node ${id} is unreachable`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Fresh state for a run, starting from the given variables
+ */
+export function createWorkflowRunState(
+  variables: Record<string, unknown> = {}
+): WorkflowRunState {
+  return { variables, results: {}, statuses: {}, iterations: {} };
+}
+
+/**
+ * Validate a definition, then run it. Rejects when a step fails, a loop
+ * exceeds its limit or the run is stopped; branches started alongside a
+ * failed one finish first.
+ */
+export async function executeWorkflowGraph(
+  definition: WorkflowGraphDefinition,
+  runtime: WorkflowGraphRuntime,
+  state: WorkflowRunState = createWorkflowRunState()
+): Promise<WorkflowRunState> {
+  const validation = validateWorkflowGraph(definition, runtime.definitions);
+  if (!validation.valid) {
+    throw new Error(
+      `Invalid workflow graph ${definition.id}: ${validation.errors.join('; ')}`
+    );
+  }
+
+  await runGraph(definition, runtime, state);
+  return state;
+}
+
+async function runGraph(
+  definition: WorkflowGraphDefinition,
+  runtime: WorkflowGraphRuntime,
+  state: WorkflowRunState
+): Promise<void> {
+  const nodes = new Map(definition.nodes.map((node) => [node.id, node]));
+
+  const runNode = async (node: WorkflowGraphNode): Promise<void> => {
+    switch (node.type) {
+      case 'step': {
+        const options =
+          typeof node.step === 'function' ? node.step(state) : node.step;
+        const step = await runtime.runStep(node, options, state);
+        state.statuses[node.id] = step.status;
+        if (step.status === 'failed') {
+          throw new Error(
+            `Step ${node.id} failed${step.toolCall?.error ? `: ${step.toolCall.error}` : ''}`
+          );
+        }
+
+        const result = step.toolCall ? step.toolCall.result : step.content;
+        state.results[node.id] = result;
+        if (node.output && step.status === 'completed') {
+          state.variables[node.output] = result;
+        }
+        break;
+      }
+      case 'parallel': {
+        if (runtime.allowParallel) {
+          const settled = await Promise.allSettled(node.branches.map(runFrom));
+          const failed = settled.find(
+            (result): result is PromiseRejectedResult =>
+              result.status === 'rejected'
+          );
+          if (failed) {
+            throw failed.reason;
+          }
+        } else {
+          for (const branch of node.branches) {
+            await runFrom(branch);
+          }
+        }
+        state.statuses[node.id] = 'completed';
+        break;
+      }
+      case 'loop': {
+        let iterations = 0;
+        while (evaluateWorkflowCondition(node.while, state)) {
+          if (iterations >= node.maxIterations) {
+            throw new Error(
+              `Loop ${node.id} exceeded ${node.maxIterations} iterations`
+            );
+          }
+          await runFrom(node.body);
+          iterations++;
+          state.iterations[node.id] = iterations;
+        }
+        state.statuses[node.id] = 'completed';
+        break;
+      }
+      case 'subworkflow': {
+        // Variables are shared; results are kept under this node
+        const subworkflowState = createWorkflowRunState(state.variables);
+        await runGraph(
+          runtime.definitions![node.workflow]!,
+          runtime,
+          subworkflowState
+        );
+        state.results[node.id] = subworkflowState.results;
+        state.statuses[node.id] = 'completed';
+        break;
+      }
+    }
+  };
+
+  async function runFrom(id: string): Promise<void> {
+    let current: string | undefined = id;
+    while (current !== undefined) {
+      if (runtime.shouldStop?.()) {
+        throw new Error('Workflow was cancelled');
+      }
+
+      const node: WorkflowGraphNode = nodes.get(current)!;
+      await runNode(node);
+      current = toEdges(node.next).find(
+        (edge) => !edge.when || evaluateWorkflowCondition(edge.when, state)
+      )?.to;
+    }
+  }
+
+  await runFrom(definition.start);
+}
+
+/**
+ * Builds a definition in TypeScript. The first node added is the start
+ * unless startAt() says otherwise; build() validates the graph.
+ */
+export class WorkflowGraphBuilder {
+  private nodes: WorkflowGraphNode[] = [];
+  private start: string | null = null;
+
+  constructor(
+    private id: string,
+    private name: string,
+    private description?: string
+  ) {}
+
+  startAt(id: string): this {
+    this.start = id;
+    return this;
+  }
+
+  step(
+    id: string,
+    step: WorkflowStepNode['step'],
+    options: { next?: WorkflowNext; output?: string; label?: string } = {}
+  ): this {
+    return this.add({ id, type: 'step', step, ...options });
+  }
+
+  parallel(id: string, branches: string[], next?: WorkflowNext): this {
+    return this.add({
+      id,
+      type: 'parallel',
+      branches,
+      ...(next ? { next } : {}),
+    });
+  }
+
+  loop(
+    id: string,
+    loop: Pick<WorkflowLoopNode, 'body' | 'while' | 'maxIterations'>,
+    next?: WorkflowNext
+  ): this {
+    return this.add({ id, type: 'loop', ...loop, ...(next ? { next } : {}) });
+  }
+
+  subworkflow(id: string, workflow: string, next?: WorkflowNext): this {
+    return this.add({
+      id,
+      type: 'subworkflow',
+      workflow,
+      ...(next ? { next } : {}),
+    });
+  }
+
+  build(
+    definitions: Record<string, WorkflowGraphDefinition> = {}
+  ): WorkflowGraphDefinition {
+    const definition: WorkflowGraphDefinition = {
+      id: this.id,
+      name: this.name,
+      ...(this.description ? { description: this.description } : {}),
+      start: this.start ?? this.nodes[0]?.id ?? '',
+      nodes: [...this.nodes],
+    };
+
+    const validation = validateWorkflowGraph(definition, definitions);
+    if (!validation.valid) {
+      throw new Error(
+        `Invalid workflow graph ${definition.id}: ${validation.errors.join('; ')}`
+      );
+    }
+    return definition;
+  }
+
+  private add(node: WorkflowGraphNode): this {
+    this.nodes.push(node);
+    return this;
+  }
+}
+
+/**
+ * Start building a workflow graph
+ */
+export function workflowGraph(
+  id: string,
+  name: string,
+  description?: string
+): WorkflowGraphBuilder {
+  return new WorkflowGraphBuilder(id, name, description);
+}
@@ -1,16 +1,51 @@
-import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  useState,
+  useEffect,
+  useCallback,
+  useContext,
+  useMemo,
+  useRef,
+} from 'react';
 import { useGateway } from './GatewayProvider';
+import { ConciergusContext } from './ConciergusContext';
 import {
   useConciergusChat,
   type EnhancedMessage,
 } from './ConciergusAISDK5Hooks';
 import type { DebugManager } from './DebugManager';
+import {
+  MemoryAgentCheckpointStore,
+  type AgentCheckpoint,
+  type AgentCheckpointStore,
+} from './AgentCheckpoints';
+import {
+  assertApprovalAllowed,
+  getToolApprovalReason,
+  type AgentActor,
+  type AgentApprovalDecision,
+  type AgentApprovalRequest,
+  type AgentStepApproval,
+  type ToolApprovalPolicy,
+} from './AgentApprovals';
+import {
+  createWorkflowRunState,
+  executeWorkflowGraph,
+  type WorkflowGraphDefinition,
+} from './AgentWorkflowGraph';
+import { ComplianceLogging } from '../telemetry/ComplianceLogging';
+import type { MCPClient, MCPConciergusTool } from '../mcp/MCPClient';
 
 // Agent Step Types
 export interface AgentStep {
   id: string;
   type: 'thinking' | 'tool_call' | 'decision' | 'response' | 'error';
-  status: 'pending' | 'executing' | 'completed' | 'failed' | 'cancelled';
+  status:
+    | 'pending'
+    | 'awaiting_approval'
+    | 'executing'
+    | 'completed'
+    | 'failed'
+    | 'cancelled';
   startTime: Date;
   endTime?: Date;
   duration?: number;
@@ -30,7 +65,10 @@ export interface AgentStep {
     arguments: any;
     result?: any;
     error?: string;
+    idempotencyKey?: string;
   };
+  approval?: AgentStepApproval;
+  graphNode?: string; // Workflow graph node the step ran for
 
   // Metadata
   metadata?: {
@@ -68,6 +106,14 @@ export interface AgentWorkflow {
   totalTokens: number;
 }
 
+/**
+ * Passed to tool handlers. The key stays the same when a step interrupted
+ * by a restart runs again, so handlers can deduplicate side effects.
+ */
+export interface AgentToolCallOptions {
+  idempotencyKey: string;
+}
+
 export interface AgentContext {
   // Conversation history
   messages: EnhancedMessage[];
@@ -82,7 +128,7 @@ export interface AgentContext {
     name: string;
     description: string;
     parameters: any;
-    handler: (args: any) => Promise<any>;
+    handler: (args: any, options?: AgentToolCallOptions) => Promise<any>;
   }>;
 
   // Memory and state
@@ -163,6 +209,19 @@ export interface ConciergusAgentConfig {
   maxRetries: number;
   retryDelay: number;
 
+  // Persistence
+  checkpointStore?: AgentCheckpointStore; // Persists workflow checkpoints so runs survive reloads; in-memory by default
+
+  // Approvals
+  approvalPolicies?: Record<string, ToolApprovalPolicy>; // By tool name; tools without a policy run unattended
+  actor?: AgentActor; // User the agent acts for, checked by role policies
+
+  // Workflow graphs
+  workflowDefinitions?: Record<string, WorkflowGraphDefinition>; // Run by ID and used as sub-workflows
+
+  // MCP servers
+  mcpClients?: MCPClient[]; // Connected clients whose tools are registered and kept in sync
+
   // Event handlers
   onWorkflowStart?: (workflow: AgentWorkflow) => void;
   onWorkflowComplete?: (workflow: AgentWorkflow) => void;
@@ -170,6 +229,7 @@ export interface ConciergusAgentConfig {
   onStepComplete?: (step: AgentStep) => void;
   onError?: (error: Error, context: AgentContext) => void;
   onCostThreshold?: (cost: number, limit: number) => void;
+  onApprovalRequired?: (request: AgentApprovalRequest) => void;
 }
 
 export interface ConciergusAgentState {
@@ -184,6 +244,9 @@ export interface ConciergusAgentState {
   // Performance
   metrics: AgentPerformanceMetrics;
 
+  // Tool calls waiting for a human decision
+  pendingApprovals: AgentApprovalRequest[];
+
   // Error state
   error: Error | null;
 
@@ -203,19 +266,39 @@ export interface ConciergusAgentActions {
     context: AgentContext
   ) => Promise<void>;
   pauseWorkflow: () => void;
-  resumeWorkflow: () => Promise<void>;
+  resumeWorkflow: (
+    workflowId?: string,
+    options?: ContinueUntilOptions
+  ) => Promise<AgentWorkflow | null>;
   cancelWorkflow: () => void;
+  listCheckpoints: () => Promise<AgentCheckpoint[]>;
 
   // Step management
   prepareStep: (options: PrepareStepOptions) => Promise<AgentStep>;
   executeStep: (step: AgentStep) => Promise<AgentStep>;
   continueUntil: (options: ContinueUntilOptions) => Promise<AgentWorkflow>;
+  runWorkflowGraph: (
+    definition: WorkflowGraphDefinition | string,
+    variables?: Record<string, any>
+  ) => Promise<AgentWorkflow>;
 
   // Tool management
   registerTool: (tool: AgentContext['tools'][0]) => void;
   unregisterTool: (name: string) => void;
   invokeTool: (name: string, args: any) => Promise<any>;
 
+  // Approvals
+  approveToolCall: (
+    requestId: string,
+    approver: AgentActor,
+    options?: { arguments?: Record<string, unknown>; comment?: string }
+  ) => Promise<AgentWorkflow | null>;
+  rejectToolCall: (
+    requestId: string,
+    approver: AgentActor,
+    comment?: string
+  ) => Promise<AgentWorkflow | null>;
+
   // Context management
   updateContext: (updates: Partial<AgentContext>) => void;
   setMemory: (key: string, value: any) => void;
@@ -240,6 +323,34 @@ export interface ConciergusAgentHookReturn
   updateConfig: (updates: Partial<ConciergusAgentConfig>) => void;
 }
 
+/**
+ * Record a decision on a step held for approval. An approved step runs
+ * again with any edited arguments; a rejected one is cancelled.
+ */
+function applyApprovalDecision(
+  step: AgentStep,
+  request: AgentApprovalRequest,
+  decision: NonNullable<AgentStepApproval['decision']>
+): void {
+  step.approval = {
+    reason: request.reason,
+    requestedAt: request.requestedAt,
+    decision,
+  };
+  if (decision.outcome === 'approved') {
+    if (decision.edited) {
+      step.toolCall!.arguments = decision.arguments;
+    }
+    step.status = 'pending';
+  } else {
+    step.status = 'cancelled';
+    step.endTime = new Date();
+    step.toolCall!.error = `Rejected by ${decision.approver.userId}${
+      decision.comment ? `: ${decision.comment}` : ''
+    }`;
+  }
+}
+
 /**
  * Enhanced agent hook for AI SDK 5's advanced agent features
  */
@@ -249,11 +360,12 @@ export function useConciergusAgent(
 ): ConciergusAgentHookReturn {
   const gateway = useGateway();
   const chat = useConciergusChat();
+  const conciergusConfig = useContext(ConciergusContext);
 
   const [config, setConfig] = useState<ConciergusAgentConfig>({
     maxSteps: 50,
     maxDuration: 300000, // 5 minutes
-    allowParallel: false,
+    allowParallel: conciergusConfig?.allowParallelAgentExecution ?? false,
     defaultModel: 'anthropic/claude-3-sonnet',
     fallbackChain: 'reasoning',
     costLimit: 5.0,
@@ -264,6 +376,9 @@ export function useConciergusAgent(
     retryFailedSteps: true,
     maxRetries: 3,
     retryDelay: 1000,
+    ...(conciergusConfig?.agentWorkflowDefinitions
+      ? { workflowDefinitions: conciergusConfig.agentWorkflowDefinitions }
+      : {}),
     ...initialConfig,
   });
 
@@ -306,11 +421,157 @@ export function useConciergusAgent(
     shouldPause: boolean;
   }>({ shouldStop: false, shouldPause: false });
 
+  const checkpointStore = useMemo(
+    () => config.checkpointStore ?? new MemoryAgentCheckpointStore(),
+    [config.checkpointStore]
+  );
+
+  // Latest context for checkpoints taken mid-run, when closures are stale
+  const contextRef = useRef(context);
+  contextRef.current = context;
+
+  // Steps taken by the current continueUntil run, restored on resume
+  const stepCountRef = useRef(0);
+
+  // Options of a run stopped for approval, which a decision continues
+  const runOptionsRef = useRef<ContinueUntilOptions | null>(null);
+
+  // Tool calls awaiting a decision. Calls made through invokeTool and
+  // workflow graphs keep the callbacks that settle or cancel their promise.
+  const approvalsRef = useRef(
+    new Map<
+      string,
+      {
+        request: AgentApprovalRequest;
+        settle?: (decision: NonNullable<AgentStepApproval['decision']>) => void;
+        cancel?: (error: Error) => void;
+      }
+    >()
+  );
+  const [pendingApprovals, setPendingApprovals] = useState<
+    AgentApprovalRequest[]
+  >([]);
+
+  // Save a checkpoint of a workflow with the current context
+  const saveCheckpoint = useCallback(
+    async (workflow: AgentWorkflow): Promise<void> => {
+      const current = contextRef.current;
+      await checkpointStore.save({
+        workflowId: workflow.id,
+        workflow,
+        context: {
+          task: current.task,
+          goal: current.goal,
+          constraints: current.constraints,
+          memory: current.memory,
+          variables: current.variables,
+          preferredModels: current.preferredModels,
+          costLimit: current.costLimit,
+          timeLimit: current.timeLimit,
+        },
+        stepCount: stepCountRef.current,
+        savedAt: new Date(),
+      });
+    },
+    [checkpointStore]
+  );
+
+  // For checkpoints saved from synchronous controls
+  const reportCheckpointError = useCallback(
+    (err: unknown) => {
+      const error =
+        err instanceof Error ? err : new Error('Failed to save checkpoint');
+      setError(error);
+      gateway.debugManager?.error(
+        'Failed to save workflow checkpoint',
+        { error: error.message },
+        'ConciergusAgent',
+        'workflow'
+      );
+    },
+    [gateway.debugManager]
+  );
+
   // Generate unique IDs
   const generateId = useCallback(() => {
     return `agent-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }, []);
 
+  const toApprovalRequest = useCallback(
+    (
+      id: string,
+      toolName: string,
+      args: any,
+      reason: string,
+      requestedAt = new Date()
+    ): AgentApprovalRequest => {
+      const policy = config.approvalPolicies?.[toolName];
+      return {
+        id,
+        toolName,
+        arguments: args,
+        reason,
+        approverRoles: policy?.approverRoles,
+        allowEdits: policy?.allowEdits !== false,
+        requestedAt,
+      };
+    },
+    [config.approvalPolicies]
+  );
+
+  const syncPendingApprovals = useCallback(() => {
+    setPendingApprovals(
+      [...approvalsRef.current.values()].map(({ request }) => request)
+    );
+  }, []);
+
+  // Hold a tool call until approveToolCall or rejectToolCall decides on it
+  const requestApproval = useCallback(
+    (
+      request: AgentApprovalRequest,
+      settle?: (decision: NonNullable<AgentStepApproval['decision']>) => void,
+      cancel?: (error: Error) => void
+    ) => {
+      const known = approvalsRef.current.has(request.id);
+      approvalsRef.current.set(request.id, {
+        request,
+        ...(settle && { settle }),
+        ...(cancel && { cancel }),
+      });
+      syncPendingApprovals();
+      if (known) {
+        return;
+      }
+
+      config.onApprovalRequired?.(request);
+
+      if (config.enableDebugLogging) {
+        gateway.debugManager?.info(
+          'Tool call awaiting approval',
+          {
+            requestId: request.id,
+            toolName: request.toolName,
+            reason: request.reason,
+          },
+          'ConciergusAgent',
+          'approval'
+        );
+      }
+    },
+    [config, gateway.debugManager, syncPendingApprovals]
+  );
+
+  // Drop every held tool call, failing the callers still waiting on one
+  const releaseApprovals = useCallback(() => {
+    const pending = [...approvalsRef.current.values()];
+    approvalsRef.current.clear();
+    for (const { request, cancel } of pending) {
+      cancel?.(new Error(`Approval of tool ${request.toolName} was cancelled`));
+    }
+  }, []);
+
+  useEffect(() => releaseApprovals, [releaseApprovals]);
+
   // Create workflow
   const createWorkflow = useCallback(
     (name: string, description: string, task: string): AgentWorkflow => {
@@ -392,6 +653,33 @@ export function useConciergusAgent(
   // Execute step
   const executeStep = useCallback(
     async (step: AgentStep): Promise<AgentStep> => {
+      // Restored from a checkpoint after it already ran or was rejected
+      if (step.status === 'completed' || step.status === 'cancelled') {
+        return step;
+      }
+
+      // Tool calls a policy holds wait for a decision before they run
+      if (step.toolCall && !step.approval?.decision) {
+        const { name, arguments: args } = step.toolCall;
+        const reason =
+          step.approval?.reason ??
+          getToolApprovalReason(
+            name,
+            args,
+            config.approvalPolicies?.[name],
+            config.actor
+          );
+        if (reason) {
+          const requestedAt = step.approval?.requestedAt ?? new Date();
+          step.approval = { reason, requestedAt };
+          step.status = 'awaiting_approval';
+          requestApproval(
+            toApprovalRequest(step.id, name, args, reason, requestedAt)
+          );
+          return step;
+        }
+      }
+
       step.status = 'executing';
       step.startTime = new Date();
 
@@ -405,7 +693,12 @@ export function useConciergusAgent(
             throw new Error(`Tool ${step.toolCall.name} not found`);
           }
 
-          step.toolCall.result = await tool.handler(step.toolCall.arguments);
+          if (!step.toolCall.idempotencyKey) {
+            step.toolCall.idempotencyKey = step.id;
+          }
+          step.toolCall.result = await tool.handler(step.toolCall.arguments, {
+            idempotencyKey: step.toolCall.idempotencyKey,
+          });
 
           // Update tool usage stats
           setMetrics((prev) => ({
@@ -526,23 +819,57 @@ export function useConciergusAgent(
 
       return step;
     },
-    [context, config, gateway]
+    [context, config, gateway, requestApproval, toApprovalRequest]
   );
 
-  // Continue until condition
-  const continueUntil = useCallback(
-    async (options: ContinueUntilOptions): Promise<AgentWorkflow> => {
-      if (!currentWorkflow) {
-        throw new Error('No active workflow');
-      }
+  // Record a finished run in the metrics and report it
+  const finishWorkflow = useCallback(
+    (workflow: AgentWorkflow) => {
+      setMetrics((prev) => ({
+        ...prev,
+        totalWorkflows: prev.totalWorkflows + 1,
+        completedWorkflows:
+          workflow.status === 'completed'
+            ? prev.completedWorkflows + 1
+            : prev.completedWorkflows,
+        averageStepsPerWorkflow:
+          (prev.averageStepsPerWorkflow * prev.totalWorkflows +
+            workflow.totalSteps) /
+          (prev.totalWorkflows + 1),
+        successRate:
+          (prev.completedWorkflows +
+            (workflow.status === 'completed' ? 1 : 0)) /
+          (prev.totalWorkflows + 1),
+      }));
 
-      const workflow = currentWorkflow;
-      let stepCount = 0;
+      // Trigger callback
+      config.onWorkflowComplete?.(workflow);
+
+      setCurrentWorkflow(workflow);
+      setIsRunning(false);
+    },
+    [config]
+  );
+
+  // Run a workflow until its condition holds. A resumed run keeps counting
+  // the steps of the interrupted one and finishes its interrupted step first.
+  const runUntil = useCallback(
+    async (
+      workflow: AgentWorkflow,
+      options: ContinueUntilOptions,
+      resumed: boolean
+    ): Promise<AgentWorkflow> => {
+      let stepCount = resumed ? stepCountRef.current : 0;
+      let paused = false;
+      let awaitingApproval = false;
       const maxSteps = options.maxSteps || config.maxSteps;
       const maxDuration = options.maxDuration || config.maxDuration;
       const startTime = Date.now();
 
       workflowControlRef.current = { shouldStop: false, shouldPause: false };
+      stepCountRef.current = stepCount;
+      runOptionsRef.current = options;
+      workflow.status = 'running';
 
       while (
         stepCount < maxSteps &&
@@ -551,33 +878,55 @@ export function useConciergusAgent(
       ) {
         // Check pause
         if (workflowControlRef.current.shouldPause) {
+          paused = true;
           setIsPaused(true);
           setIsRunning(false);
           break;
         }
 
-        // Prepare next step based on current context
-        const step = await prepareStep({
-          stepType: 'thinking',
-          reasoning: `Step ${stepCount + 1}: Continue workflow execution`,
-        });
-
-        workflow.steps.push(step);
+        // A step interrupted by a restart runs again under the same ID, so
+        // its tool call keeps its idempotency key
+        let step = workflow.steps.find(
+          (s) =>
+            s.status === 'pending' ||
+            s.status === 'awaiting_approval' ||
+            s.status === 'executing'
+        );
+        if (!step) {
+          // Prepare next step based on current context
+          step = await prepareStep({
+            stepType: 'thinking',
+            reasoning: `Step ${stepCount + 1}: Continue workflow execution`,
+          });
+
+          workflow.steps.push(step);
+          await saveCheckpoint(workflow);
+        }
 
         // Execute step
         const completedStep = await executeStep(step);
 
+        // Held for approval; a decision continues the run
+        if (completedStep.status === 'awaiting_approval') {
+          awaitingApproval = true;
+          break;
+        }
+
         // Update workflow
         workflow.totalSteps++;
         if (completedStep.status === 'completed') {
           workflow.completedSteps++;
         } else if (completedStep.status === 'failed') {
           workflow.failedSteps++;
+        }
 
-          if (options.pauseOnError) {
-            setIsPaused(true);
-            break;
-          }
+        stepCountRef.current = stepCount + 1;
+        await saveCheckpoint(workflow);
+
+        if (completedStep.status === 'failed' && options.pauseOnError) {
+          paused = true;
+          setIsPaused(true);
+          break;
         }
 
         // Trigger callbacks (before checking condition so they have accurate counts)
@@ -598,6 +947,20 @@ export function useConciergusAgent(
         stepCount++;
       }
 
+      if (!awaitingApproval) {
+        runOptionsRef.current = null;
+      }
+
+      // A paused workflow is not finished; resumeWorkflow continues it
+      if (paused || awaitingApproval) {
+        setIsPaused(true);
+        workflow.status = 'paused';
+        await saveCheckpoint(workflow);
+        setCurrentWorkflow(workflow);
+        setIsRunning(false);
+        return workflow;
+      }
+
       // Update workflow status
       if (workflow.status !== 'completed') {
         if (workflowControlRef.current.shouldStop) {
@@ -612,34 +975,24 @@ export function useConciergusAgent(
       }
 
       workflow.endTime = new Date();
+      await saveCheckpoint(workflow);
+      finishWorkflow(workflow);
 
-      // Update metrics
-      setMetrics((prev) => ({
-        ...prev,
-        totalWorkflows: prev.totalWorkflows + 1,
-        completedWorkflows:
-          workflow.status === 'completed'
-            ? prev.completedWorkflows + 1
-            : prev.completedWorkflows,
-        averageStepsPerWorkflow:
-          (prev.averageStepsPerWorkflow * prev.totalWorkflows +
-            workflow.totalSteps) /
-          (prev.totalWorkflows + 1),
-        successRate:
-          (prev.completedWorkflows +
-            (workflow.status === 'completed' ? 1 : 0)) /
-          (prev.totalWorkflows + 1),
-      }));
-
-      // Trigger callback
-      config.onWorkflowComplete?.(workflow);
+      return workflow;
+    },
+    [config, prepareStep, executeStep, saveCheckpoint, finishWorkflow]
+  );
 
-      setCurrentWorkflow(workflow);
-      setIsRunning(false);
+  // Continue until condition
+  const continueUntil = useCallback(
+    async (options: ContinueUntilOptions): Promise<AgentWorkflow> => {
+      if (!currentWorkflow) {
+        throw new Error('No active workflow');
+      }
 
-      return workflow;
+      return runUntil(currentWorkflow, options, false);
     },
-    [currentWorkflow, config, prepareStep, executeStep]
+    [currentWorkflow, runUntil]
   );
 
   // Start workflow
@@ -647,12 +1000,15 @@ export function useConciergusAgent(
     async (workflow: AgentWorkflow, workflowContext: AgentContext) => {
       setCurrentWorkflow(workflow);
       setContext(workflowContext);
+      contextRef.current = workflowContext;
       setIsRunning(true);
       setIsPaused(false);
       setError(null);
 
       workflow.status = 'running';
       workflow.startTime = new Date();
+      stepCountRef.current = 0;
+      await saveCheckpoint(workflow);
 
       config.onWorkflowStart?.(workflow);
 
@@ -668,7 +1024,7 @@ export function useConciergusAgent(
         );
       }
     },
-    [config, gateway.debugManager]
+    [config, gateway.debugManager, saveCheckpoint]
   );
 
   // Control functions
@@ -676,13 +1032,81 @@ export function useConciergusAgent(
     workflowControlRef.current.shouldPause = true;
     setIsPaused(true);
     setIsRunning(false);
-  }, []);
 
-  const resumeWorkflow = useCallback(async () => {
-    workflowControlRef.current.shouldPause = false;
-    setIsPaused(false);
-    setIsRunning(true);
-  }, []);
+    // Record the pause so it survives a reload even if no run is active
+    if (currentWorkflow?.status === 'running') {
+      currentWorkflow.status = 'paused';
+      saveCheckpoint(currentWorkflow).catch(reportCheckpointError);
+    }
+  }, [currentWorkflow, saveCheckpoint, reportCheckpointError]);
+
+  // Continue a paused or interrupted workflow. Given an ID that is not the
+  // current workflow, it and its context are restored from the last
+  // checkpoint (tools must be registered again); given options, execution
+  // continues until the condition holds.
+  const resumeWorkflow = useCallback(
+    async (
+      workflowId?: string,
+      options?: ContinueUntilOptions
+    ): Promise<AgentWorkflow | null> => {
+      let workflow = currentWorkflow;
+      if (workflowId && workflow?.id !== workflowId) {
+        const checkpoint = await checkpointStore.load(workflowId);
+        if (!checkpoint) {
+          throw new Error(`No checkpoint found for workflow ${workflowId}`);
+        }
+
+        workflow = checkpoint.workflow;
+        stepCountRef.current = checkpoint.stepCount;
+        contextRef.current = { ...contextRef.current, ...checkpoint.context };
+        setContext(contextRef.current);
+        setCurrentWorkflow(workflow);
+
+        for (const step of workflow.steps) {
+          if (step.status === 'awaiting_approval' && step.approval) {
+            requestApproval(
+              toApprovalRequest(
+                step.id,
+                step.toolCall!.name,
+                step.toolCall!.arguments,
+                step.approval.reason,
+                step.approval.requestedAt
+              )
+            );
+          }
+        }
+      }
+
+      if (
+        workflow?.status === 'completed' ||
+        workflow?.status === 'cancelled'
+      ) {
+        throw new Error(`Workflow ${workflow.id} is ${workflow.status}`);
+      }
+
+      workflowControlRef.current.shouldPause = false;
+      setIsPaused(false);
+      setIsRunning(true);
+
+      if (!workflow) {
+        return null;
+      }
+      if (workflow.status === 'paused') {
+        workflow.status = 'running';
+        await saveCheckpoint(workflow);
+      }
+
+      return options ? runUntil(workflow, options, true) : workflow;
+    },
+    [
+      currentWorkflow,
+      checkpointStore,
+      saveCheckpoint,
+      runUntil,
+      requestApproval,
+      toApprovalRequest,
+    ]
+  );
 
   const cancelWorkflow = useCallback(() => {
     workflowControlRef.current.shouldStop = true;
@@ -692,8 +1116,23 @@ export function useConciergusAgent(
     if (currentWorkflow) {
       currentWorkflow.status = 'cancelled';
       currentWorkflow.endTime = new Date();
+      saveCheckpoint(currentWorkflow).catch(reportCheckpointError);
     }
-  }, [currentWorkflow]);
+
+    releaseApprovals();
+    syncPendingApprovals();
+  }, [
+    currentWorkflow,
+    saveCheckpoint,
+    reportCheckpointError,
+    releaseApprovals,
+    syncPendingApprovals,
+  ]);
+
+  const listCheckpoints = useCallback(
+    () => checkpointStore.list(),
+    [checkpointStore]
+  );
 
   // Tool management
   const registerTool = useCallback((tool: AgentContext['tools'][0]) => {
@@ -710,15 +1149,313 @@ export function useConciergusAgent(
     }));
   }, []);
 
+  // Register MCP server tools, replacing them when a server's list changes
+  useEffect(() => {
+    const clients = config.mcpClients ?? [];
+    if (clients.length === 0) return;
+    const registered = new Map<MCPClient, string[]>();
+
+    const syncTools = (client: MCPClient, tools: MCPConciergusTool[]) => {
+      const stale = registered.get(client) ?? [];
+      registered.set(
+        client,
+        tools.map((tool) => tool.name)
+      );
+      setContext((prev) => ({
+        ...prev,
+        tools: [
+          ...prev.tools.filter(
+            (t) =>
+              !stale.includes(t.name) &&
+              !tools.some((tool) => tool.name === t.name)
+          ),
+          ...tools,
+        ],
+      }));
+    };
+
+    const unsubscribes = clients.map((client) => {
+      syncTools(client, client.getConciergusTools());
+      return client.onToolsChanged((tools) => syncTools(client, tools));
+    });
+
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      const names = Array.from(registered.values()).flat();
+      setContext((prev) => ({
+        ...prev,
+        tools: prev.tools.filter((t) => !names.includes(t.name)),
+      }));
+    };
+  }, [config.mcpClients]);
+
   const invokeTool = useCallback(
     async (name: string, args: any) => {
       const tool = context.tools.find((t) => t.name === name);
       if (!tool) {
         throw new Error(`Tool ${name} not found`);
       }
-      return await tool.handler(args);
+
+      const reason = getToolApprovalReason(
+        name,
+        args,
+        config.approvalPolicies?.[name],
+        config.actor
+      );
+      if (!reason) {
+        return await tool.handler(args);
+      }
+
+      const decision = await new Promise<
+        NonNullable<AgentStepApproval['decision']>
+      >((resolve, reject) => {
+        requestApproval(
+          toApprovalRequest(generateId(), name, args, reason),
+          resolve,
+          reject
+        );
+      });
+      if (decision.outcome === 'rejected') {
+        throw new Error(
+          `Tool ${name} was rejected by ${decision.approver.userId}`
+        );
+      }
+      return await tool.handler(decision.edited ? decision.arguments : args);
+    },
+    [
+      context.tools,
+      config.approvalPolicies,
+      config.actor,
+      generateId,
+      requestApproval,
+      toApprovalRequest,
+    ]
+  );
+
+  // Record a decision on a held tool call and log it for compliance. A
+  // workflow stopped for the call continues its run once nothing else in
+  // it awaits a decision.
+  const decideToolCall = useCallback(
+    async (
+      requestId: string,
+      decision: AgentApprovalDecision
+    ): Promise<AgentWorkflow | null> => {
+      const pending = approvalsRef.current.get(requestId);
+      if (!pending) {
+        throw new Error(`No tool call awaiting approval with ID ${requestId}`);
+      }
+
+      const { request } = pending;
+      assertApprovalAllowed(request, decision);
+
+      const edited =
+        decision.outcome === 'approved' &&
+        decision.arguments !== undefined &&
+        JSON.stringify(decision.arguments) !==
+          JSON.stringify(request.arguments);
+      const recorded = {
+        ...decision,
+        edited,
+        originalArguments: request.arguments,
+        decidedAt: new Date(),
+      };
+
+      ComplianceLogging.getInstance()?.logHumanOversight({
+        requestId,
+        action: request.toolName,
+        outcome: edited ? 'edited' : decision.outcome,
+        reviewer: decision.approver,
+        reason: request.reason,
+        proposed: request.arguments,
+        ...(edited ? { approved: decision.arguments } : {}),
+        ...(decision.comment ? { comment: decision.comment } : {}),
+        ...(config.actor ? { onBehalfOf: config.actor.userId } : {}),
+      });
+
+      approvalsRef.current.delete(requestId);
+      syncPendingApprovals();
+
+      if (config.enableDebugLogging) {
+        gateway.debugManager?.info(
+          'Tool call decided',
+          {
+            requestId,
+            toolName: request.toolName,
+            outcome: decision.outcome,
+            approver: decision.approver.userId,
+          },
+          'ConciergusAgent',
+          'approval'
+        );
+      }
+
+      if (pending.settle) {
+        pending.settle(recorded);
+        return null;
+      }
+
+      const workflow = currentWorkflow;
+      const step = workflow?.steps.find((s) => s.id === requestId);
+      if (!workflow || !step?.toolCall) {
+        return null;
+      }
+
+      applyApprovalDecision(step, request, recorded);
+      await saveCheckpoint(workflow);
+
+      const options = runOptionsRef.current;
+      if (
+        !options ||
+        workflow.steps.some((s) => s.status === 'awaiting_approval')
+      ) {
+        return null;
+      }
+
+      setIsPaused(false);
+      setIsRunning(true);
+      return runUntil(workflow, options, true);
+    },
+    [
+      config,
+      currentWorkflow,
+      gateway.debugManager,
+      runUntil,
+      saveCheckpoint,
+      syncPendingApprovals,
+    ]
+  );
+
+  const approveToolCall = useCallback(
+    (
+      requestId: string,
+      approver: AgentActor,
+      options: { arguments?: Record<string, unknown>; comment?: string } = {}
+    ) =>
+      decideToolCall(requestId, {
+        outcome: 'approved',
+        approver,
+        ...options,
+      }),
+    [decideToolCall]
+  );
+
+  const rejectToolCall = useCallback(
+    (requestId: string, approver: AgentActor, comment?: string) =>
+      decideToolCall(requestId, { outcome: 'rejected', approver, comment }),
+    [decideToolCall]
+  );
+
+  // Run a workflow graph, given or by ID, as a new workflow. Branches of
+  // parallel nodes run concurrently when allowParallel is set, and steps
+  // held for approval wait for their decision. Steps are checkpointed, but
+  // graph runs start over rather than resume.
+  const runWorkflowGraph = useCallback(
+    async (
+      definitionOrId: WorkflowGraphDefinition | string,
+      variables: Record<string, any> = {}
+    ): Promise<AgentWorkflow> => {
+      const definitions = config.workflowDefinitions ?? {};
+      const definition =
+        typeof definitionOrId === 'string'
+          ? definitions[definitionOrId]
+          : definitionOrId;
+      if (!definition) {
+        throw new Error(`Workflow definition ${definitionOrId} not found`);
+      }
+
+      const workflow = createWorkflow(
+        definition.name,
+        definition.description ?? definition.name,
+        definition.name
+      );
+      await startWorkflow(workflow, contextRef.current);
+      workflowControlRef.current = { shouldStop: false, shouldPause: false };
+
+      const state = createWorkflowRunState({
+        ...contextRef.current.variables,
+        ...variables,
+      });
+
+      try {
+        await executeWorkflowGraph(
+          definition,
+          {
+            allowParallel: config.allowParallel,
+            definitions,
+            shouldStop: () => workflowControlRef.current.shouldStop,
+            runStep: async (node, options) => {
+              let step = await prepareStep(options);
+              step.graphNode = node.id;
+              workflow.steps.push(step);
+              config.onStepStart?.(step);
+
+              step = await executeStep(step);
+              if (step.status === 'awaiting_approval') {
+                const request = toApprovalRequest(
+                  step.id,
+                  step.toolCall!.name,
+                  step.toolCall!.arguments,
+                  step.approval!.reason,
+                  step.approval!.requestedAt
+                );
+                await saveCheckpoint(workflow);
+                const decision = await new Promise<
+                  NonNullable<AgentStepApproval['decision']>
+                >((resolve, reject) =>
+                  requestApproval(request, resolve, reject)
+                );
+                applyApprovalDecision(step, request, decision);
+                step = await executeStep(step);
+              }
+
+              workflow.totalSteps++;
+              if (step.status === 'completed') {
+                workflow.completedSteps++;
+              } else if (step.status === 'failed') {
+                workflow.failedSteps++;
+              }
+              await saveCheckpoint(workflow);
+              return step;
+            },
+          },
+          state
+        );
+        workflow.status = 'completed';
+        workflow.result = state.results;
+      } catch (err) {
+        const error =
+          err instanceof Error ? err : new Error('Workflow graph failed');
+        workflow.status = workflowControlRef.current.shouldStop
+          ? 'cancelled'
+          : 'failed';
+        workflow.error = error.message;
+        setError(error);
+      }
+
+      // Steps may have stored outputs in variables
+      contextRef.current = {
+        ...contextRef.current,
+        variables: state.variables,
+      };
+      setContext((prev) => ({ ...prev, variables: state.variables }));
+
+      workflow.endTime = new Date();
+      await saveCheckpoint(workflow);
+      finishWorkflow(workflow);
+
+      return workflow;
     },
-    [context.tools]
+    [
+      config,
+      createWorkflow,
+      startWorkflow,
+      prepareStep,
+      executeStep,
+      requestApproval,
+      toApprovalRequest,
+      saveCheckpoint,
+      finishWorkflow,
+    ]
   );
 
   // Context management
@@ -828,6 +1565,7 @@ export function useConciergusAgent(
     isPaused,
     workflows,
     metrics,
+    pendingApprovals,
     error,
     context,
 
@@ -837,12 +1575,16 @@ export function useConciergusAgent(
     pauseWorkflow,
     resumeWorkflow,
     cancelWorkflow,
+    listCheckpoints,
     prepareStep,
     executeStep,
     continueUntil,
+    runWorkflowGraph,
     registerTool,
     unregisterTool,
     invokeTool,
+    approveToolCall,
+    rejectToolCall,
     updateContext,
     setMemory,
     getMemory,
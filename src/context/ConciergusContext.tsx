@@ -2,6 +2,7 @@ import { createContext } from 'react';
 import type { ProactiveRule } from './useProactiveEngagement';
 import type { TelemetryEvent } from '../components/ConciergusMetadataDisplay';
 import type { ConciergusAISDKTelemetryConfig } from '../telemetry/AISDKTelemetryIntegration';
+import type { WorkflowGraphDefinition } from './AgentWorkflowGraph';
 
 /**
  * Configuration for AI Gateway integration
@@ -213,6 +214,10 @@ export interface ConciergusConfig {
   enableGenerativeUI?: boolean;
   /** Enable multi-step agent workflows */
   enableAgentWorkflows?: boolean;
+  /** Workflow graphs agents can run by ID */
+  agentWorkflowDefinitions?: Record<string, WorkflowGraphDefinition>;
+  /** Run independent workflow branches concurrently */
+  allowParallelAgentExecution?: boolean;
   /** Enable RAG (Retrieval Augmented Generation) */
   enableRAG?: boolean;
 
@@ -3,6 +3,48 @@ import { useGateway } from './GatewayProvider';
 import { embed, embedMany } from 'ai';
 import type { DebugManager } from './DebugManager';
 import type { ConciergusConfig } from './ConciergusContext';
+import {
+  matchesMetadataFilter,
+  type MetadataFilter,
+  type VectorMatch,
+  type VectorRecord,
+  type VectorStore,
+} from '../knowledge/VectorStore';
+import {
+  chunkContent,
+  type ChunkingStrategy,
+  type DocumentChunker,
+  type TextChunk,
+} from '../knowledge/DocumentChunkers';
+import {
+  BM25Index,
+  tokenizeTerms,
+  type LexicalRecord,
+} from '../knowledge/BM25Index';
+import {
+  maximalMarginalRelevance,
+  reciprocalRankFusion,
+  termOverlapSimilarity,
+} from '../knowledge/HybridRetrieval';
+import {
+  embeddingCacheKey,
+  hashContent,
+  type EmbeddingCache,
+} from '../knowledge/EmbeddingCache';
+import {
+  IndexingJob,
+  MemoryIndexingJobStore,
+  getIndexingJobProgress,
+  type IndexingJobState,
+  type IndexingJobStore,
+  type IndexingTask,
+  type IndexingTaskResult,
+} from '../knowledge/IndexingJob';
+import {
+  DocumentExtractorRegistry,
+  type ExtractedDocument,
+  type ExtractedSection,
+} from '../knowledge/DocumentExtractors';
 
 // ============================================================================
 // TYPES AND INTERFACES
@@ -20,9 +62,25 @@ export interface DocumentChunk {
     tags?: string[];
     createdAt: Date;
     updatedAt: Date;
+    startOffset?: number; // UTF-8 byte offset into the document content
+    endOffset?: number;
+    sectionPath?: string[];
+    jsonPath?: string;
+    chunker?: string;
+    page?: number; // Page of the source file, for paginated formats
+    contentHash?: string; // SHA-256 of the chunk content
+    embeddingModel?: string; // Model that produced the embedding
   };
 }
 
+export interface SourceLocation {
+  startOffset: number;
+  endOffset: number;
+  sectionPath?: string[];
+  jsonPath?: string;
+  page?: number;
+}
+
 export interface KnowledgeDocument {
   id: string;
   title: string;
@@ -37,6 +95,9 @@ export interface KnowledgeDocument {
     createdAt: Date;
     updatedAt: Date;
     size: number;
+    mimeType?: string; // Type of the original file for extracted documents
+    pageCount?: number;
+    sections?: ExtractedSection[]; // Pages or sections found during extraction
   };
   chunks: DocumentChunk[];
   embeddings: number[][];
@@ -87,6 +148,7 @@ export interface RAGContext {
     title: string;
     relevance: number;
     snippet: string;
+    location?: SourceLocation;
   }>;
 }
 
@@ -102,6 +164,16 @@ export interface ConciergusRAGConfig {
   enableCaching: boolean;
   cacheSize: number;
   debugMode: boolean;
+  vectorStore?: VectorStore; // Replaces the in-state chunk scan when set
+  lexicalIndex?: BM25Index; // Built per query from loaded chunks when unset
+  embeddingCache?: EmbeddingCache; // Persistent cache keyed by model and content hash
+  retrievalMode: 'semantic' | 'lexical' | 'hybrid'; // Used by semanticSearch
+  hybridSemanticWeight: number;
+  hybridLexicalWeight: number;
+  rrfK: number; // Reciprocal rank fusion smoothing constant
+  enableMMR: boolean; // Diversify results before building context
+  mmrLambda: number; // 1 = relevance only, 0 = diversity only
+  mmrDuplicateThreshold: number; // Drop chunks at least this similar to one already kept
 }
 
 export interface ConciergusKnowledgeConfig {
@@ -115,6 +187,25 @@ export interface ConciergusKnowledgeConfig {
   enableMetadataSearch: boolean;
   retentionPeriod: number; // days
   compressionEnabled: boolean;
+  vectorStore?: VectorStore; // Chunks are written here on index, one namespace per knowledge base
+  lexicalIndex?: BM25Index; // Chunks are added here on index for BM25 and hybrid search
+  chunkingStrategy: ChunkingStrategy; // 'auto' picks a chunker from the document format
+  chunkers?: Partial<Record<string, DocumentChunker>>; // Per-format overrides
+  extractors?: DocumentExtractorRegistry; // Turns imported files into text; defaults to the built-in extractors
+  embeddingCache?: EmbeddingCache; // Persistent embedding cache shared with the RAG hook
+  indexingJobStore?: IndexingJobStore; // Persists indexing job state so jobs can resume; in-memory by default
+}
+
+export interface KnowledgeSearchOptions {
+  filter?: MetadataFilter;
+  topK?: number; // Defaults to maxResults
+}
+
+export interface HybridSearchOptions extends KnowledgeSearchOptions {
+  semanticWeight?: number;
+  lexicalWeight?: number;
+  rrfK?: number;
+  diversify?: boolean; // Apply maximal marginal relevance to fused results
 }
 
 // ============================================================================
@@ -131,7 +222,21 @@ export interface ConciergusRAGHookReturn {
   generateEmbeddings: (texts: string[]) => Promise<number[][]>;
 
   // Search Operations
-  search: (query: string, knowledgeBaseId?: string) => Promise<SearchResult[]>;
+  search: (
+    query: string,
+    knowledgeBaseId?: string,
+    options?: KnowledgeSearchOptions
+  ) => Promise<SearchResult[]>;
+  lexicalSearch: (
+    query: string,
+    knowledgeBaseId?: string,
+    options?: KnowledgeSearchOptions
+  ) => Promise<SearchResult[]>;
+  hybridSearch: (
+    query: string,
+    knowledgeBaseId?: string,
+    options?: HybridSearchOptions
+  ) => Promise<SearchResult[]>;
   semanticSearch: (
     query: string,
     options?: {
@@ -151,6 +256,10 @@ export interface ConciergusRAGHookReturn {
     query: string,
     results: SearchResult[]
   ) => Promise<SearchResult[]>;
+  diversifyResults: (
+    results: SearchResult[],
+    options?: { topK?: number; lambda?: number }
+  ) => SearchResult[];
 
   // Caching
   cacheEmbedding: (text: string, embedding: number[]) => void;
@@ -190,6 +299,13 @@ export function useConciergusRAG(
     enableCaching: true,
     cacheSize: 1000,
     debugMode: false,
+    retrievalMode: 'semantic',
+    hybridSemanticWeight: 1,
+    hybridLexicalWeight: 1,
+    rrfK: 60,
+    enableMMR: false,
+    mmrLambda: 0.7,
+    mmrDuplicateThreshold: 0.95,
     ...initialConfig,
   });
 
@@ -224,25 +340,34 @@ export function useConciergusRAG(
     return gateway?.createEmbeddingModel?.(config.embeddingModel) || null;
   }, [gateway, config.embeddingModel]);
 
-  // Rerank results using a reranking model - MOVED BEFORE search function
+  // Rerank results by blending BM25 scores with semantic similarity
   const rerankResults = useCallback(
     async (query: string, results: SearchResult[]): Promise<SearchResult[]> => {
-      // This is a placeholder for actual reranking implementation
-      // In a real implementation, you would use a cross-encoder model
-      // or another reranking algorithm
+      // Score candidates lexically against each other so BM25 idf reflects
+      // the result set rather than the whole corpus
+      const index = new BM25Index();
+      index.add(
+        results.map((result) => ({
+          id: result.chunk.id,
+          content: result.chunk.content,
+          metadata: {},
+        }))
+      );
 
-      // For now, we'll use a simple approach based on query term overlap
-      const queryTerms = query.toLowerCase().split(/\s+/);
+      const matches = index.search({ query, topK: results.length });
+      const topScore = matches[0]?.score ?? 0;
+      const lexicalScores = new Map(
+        matches.map((match) => [
+          match.id,
+          topScore > 0 ? match.score / topScore : 0,
+        ])
+      );
 
       return results
         .map((result) => {
-          const contentTerms = result.chunk.content.toLowerCase().split(/\s+/);
-          const overlap = queryTerms.filter((term) =>
-            contentTerms.some((contentTerm) => contentTerm.includes(term))
-          ).length;
-
           const rerankScore =
-            (overlap / queryTerms.length) * 0.3 + result.similarity * 0.7;
+            (lexicalScores.get(result.chunk.id) ?? 0) * 0.3 +
+            result.similarity * 0.7;
 
           return {
             ...result,
@@ -254,6 +379,31 @@ export function useConciergusRAG(
     []
   );
 
+  // Diversify results with maximal marginal relevance
+  const diversifyResults = useCallback(
+    (
+      results: SearchResult[],
+      options: { topK?: number; lambda?: number } = {}
+    ): SearchResult[] => {
+      return maximalMarginalRelevance(results, {
+        topK: options.topK ?? results.length,
+        lambda: options.lambda ?? config.mmrLambda,
+        relevance: (result) => result.relevanceScore,
+        similarity: chunkSimilarity,
+        duplicateThreshold: config.mmrDuplicateThreshold,
+      });
+    },
+    [config.mmrLambda, config.mmrDuplicateThreshold]
+  );
+
+  // Knowledge bases exposed by the gateway
+  const loadKnowledgeBases = useCallback((): Record<
+    string,
+    KnowledgeBase | undefined
+  > => {
+    return gateway?.getKnowledgeBases?.() || {};
+  }, [gateway]);
+
   // Generate single embedding
   const generateEmbedding = useCallback(
     async (text: string): Promise<number[]> => {
@@ -272,6 +422,21 @@ export function useConciergusRAG(
           }
         }
 
+        // Then the persistent cache
+        const cacheKey = embeddingCacheKey(
+          config.embeddingModel,
+          hashContent(text)
+        );
+        const [persisted] =
+          (await config.embeddingCache?.getMany([cacheKey])) ?? [];
+        if (persisted) {
+          setSearchAnalytics((prev) => ({
+            ...prev,
+            cacheHits: prev.cacheHits + 1,
+          }));
+          return persisted;
+        }
+
         const model = getEmbeddingModel();
         if (!model) {
           throw new Error('No embedding model available');
@@ -289,6 +454,7 @@ export function useConciergusRAG(
         ) {
           embeddingCache.current.set(text, embedding);
         }
+        await config.embeddingCache?.setMany([[cacheKey, embedding]]);
 
         if (config.debugMode && gateway.debugManager) {
           gateway.debugManager.info(
@@ -350,6 +516,22 @@ export function useConciergusRAG(
           uncachedIndices.push(...texts.map((_, i) => i));
         }
 
+        // Fall back to the persistent cache for texts missing in memory
+        const cacheKeys = uncachedTexts.map((text) =>
+          embeddingCacheKey(config.embeddingModel, hashContent(text))
+        );
+        if (config.embeddingCache && uncachedTexts.length > 0) {
+          const persisted = await config.embeddingCache.getMany(cacheKeys);
+          for (let i = persisted.length - 1; i >= 0; i--) {
+            const embedding = persisted[i];
+            if (!embedding) continue;
+            cachedResults[uncachedIndices[i]!] = embedding;
+            uncachedTexts.splice(i, 1);
+            uncachedIndices.splice(i, 1);
+            cacheKeys.splice(i, 1);
+          }
+        }
+
         let newEmbeddings: number[][] = [];
 
         if (uncachedTexts.length > 0) {
@@ -372,6 +554,12 @@ export function useConciergusRAG(
               }
             });
           }
+          await config.embeddingCache?.setMany(
+            cacheKeys.flatMap((key, index): Array<[string, number[]]> => {
+              const embedding = newEmbeddings[index];
+              return embedding ? [[key, embedding]] : [];
+            })
+          );
         }
 
         // Combine cached and new embeddings
@@ -419,14 +607,18 @@ export function useConciergusRAG(
   const search = useCallback(
     async (
       query: string,
-      knowledgeBaseId?: string
+      knowledgeBaseId?: string,
+      options: KnowledgeSearchOptions = {}
     ): Promise<SearchResult[]> => {
       const startTime = Date.now();
       setIsSearching(true);
 
       try {
         // Check search cache
-        const cacheKey = `${query}-${knowledgeBaseId || 'default'}`;
+        const limit = options.topK ?? config.maxResults;
+        const cacheKey = `${query}-${knowledgeBaseId || 'default'}-${limit}${
+          options.filter ? `-${JSON.stringify(options.filter)}` : ''
+        }`;
         if (config.enableCaching) {
           const cached = searchCache.current.get(cacheKey);
           if (cached) {
@@ -447,21 +639,46 @@ export function useConciergusRAG(
         const queryEmbedding = await generateEmbedding(query);
 
         // Get knowledge bases from gateway or use provided ID
-        const knowledgeBases = gateway?.getKnowledgeBases?.() || {};
+        const knowledgeBases = loadKnowledgeBases();
         const targetBases = knowledgeBaseId
           ? { [knowledgeBaseId]: knowledgeBases[knowledgeBaseId] }
           : knowledgeBases;
 
         const allResults: SearchResult[] = [];
 
-        // Search through all knowledge bases
+        if (config.vectorStore) {
+          // Delegate nearest-neighbour lookup to the configured store
+          const matches = await config.vectorStore.query({
+            vector: queryEmbedding,
+            topK: limit,
+            minScore: config.similarityThreshold,
+            ...(knowledgeBaseId ? { namespace: knowledgeBaseId } : {}),
+            ...(options.filter ? { filter: options.filter } : {}),
+          });
+
+          for (const match of matches) {
+            allResults.push(vectorMatchToSearchResult(match, knowledgeBases));
+          }
+        }
+
+        // Search through all knowledge bases held in memory
         for (const [baseId, knowledgeBase] of Object.entries(targetBases)) {
-          if (!knowledgeBase?.documents) continue;
+          if (config.vectorStore || !knowledgeBase?.documents) continue;
 
           for (const document of knowledgeBase.documents) {
             if (!document.isIndexed) continue;
 
             for (const chunk of document.chunks) {
+              if (
+                options.filter &&
+                !matchesMetadataFilter(
+                  chunkToVectorRecord(chunk).metadata,
+                  options.filter
+                )
+              ) {
+                continue;
+              }
+
               const similarity = cosineSimilarity(
                 queryEmbedding,
                 chunk.embedding
@@ -483,8 +700,8 @@ export function useConciergusRAG(
                   relevanceScore: similarity,
                   document,
                   context: {
-                    previousChunk,
-                    nextChunk,
+                    ...(previousChunk ? { previousChunk } : {}),
+                    ...(nextChunk ? { nextChunk } : {}),
                   },
                 });
               }
@@ -495,7 +712,7 @@ export function useConciergusRAG(
         // Sort by similarity and limit results
         const sortedResults = allResults
           .sort((a, b) => b.similarity - a.similarity)
-          .slice(0, config.maxResults);
+          .slice(0, limit);
 
         // Apply reranking if enabled
         let finalResults = sortedResults;
@@ -557,29 +774,129 @@ export function useConciergusRAG(
         setIsSearching(false);
       }
     },
-    [config, generateEmbedding, gateway, rerankResults]
+    [config, generateEmbedding, gateway, rerankResults, loadKnowledgeBases]
   );
 
-  // Build context from search results
-  const buildContext = useCallback((results: SearchResult[]): string => {
-    if (results.length === 0) return '';
+  // Lexical search with BM25 scoring
+  const lexicalSearch = useCallback(
+    async (
+      query: string,
+      knowledgeBaseId?: string,
+      options: KnowledgeSearchOptions = {}
+    ): Promise<SearchResult[]> => {
+      const knowledgeBases = loadKnowledgeBases();
+      let index = config.lexicalIndex;
 
-    const contextParts = results.map((result, index) => {
-      let context = result.chunk.content;
+      if (!index) {
+        index = new BM25Index();
+        const targetBases = knowledgeBaseId
+          ? { [knowledgeBaseId]: knowledgeBases[knowledgeBaseId] }
+          : knowledgeBases;
 
-      // Add surrounding context if available
-      if (result.context.previousChunk) {
-        context = result.context.previousChunk.content + ' ' + context;
+        for (const [baseId, knowledgeBase] of Object.entries(targetBases)) {
+          for (const document of knowledgeBase?.documents ?? []) {
+            if (!document.isIndexed) continue;
+            index.add(document.chunks.map(chunkToLexicalRecord), baseId);
+          }
+        }
       }
-      if (result.context.nextChunk) {
-        context = context + ' ' + result.context.nextChunk.content;
+
+      const matches = index.search({
+        query,
+        topK: options.topK ?? config.maxResults,
+        ...(knowledgeBaseId ? { namespace: knowledgeBaseId } : {}),
+        ...(options.filter ? { filter: options.filter } : {}),
+      });
+
+      // Normalise BM25 scores to 0-1 so they sit alongside similarities
+      const topScore = matches[0]?.score ?? 0;
+      return matches.map((match) =>
+        vectorMatchToSearchResult(
+          { ...match, score: topScore > 0 ? match.score / topScore : 0 },
+          knowledgeBases
+        )
+      );
+    },
+    [config.lexicalIndex, config.maxResults, loadKnowledgeBases]
+  );
+
+  // Hybrid search fusing lexical and semantic rankings
+  const hybridSearch = useCallback(
+    async (
+      query: string,
+      knowledgeBaseId?: string,
+      options: HybridSearchOptions = {}
+    ): Promise<SearchResult[]> => {
+      const limit = options.topK ?? config.maxResults;
+      // Fuse over a wider candidate pool than we return
+      const candidateOptions: KnowledgeSearchOptions = {
+        topK: limit * 4,
+        ...(options.filter ? { filter: options.filter } : {}),
+      };
+
+      const [semanticResults, lexicalResults] = await Promise.all([
+        search(query, knowledgeBaseId, candidateOptions),
+        lexicalSearch(query, knowledgeBaseId, candidateOptions),
+      ]);
+
+      const fused = reciprocalRankFusion(
+        [
+          {
+            items: semanticResults,
+            weight: options.semanticWeight ?? config.hybridSemanticWeight,
+          },
+          {
+            items: lexicalResults,
+            weight: options.lexicalWeight ?? config.hybridLexicalWeight,
+          },
+        ],
+        {
+          getId: (result) => result.chunk.id,
+          k: options.rrfK ?? config.rrfK,
+        }
+      );
+
+      const topScore = fused[0]?.score ?? 0;
+      const results = fused.map(({ item, score }) => ({
+        ...item,
+        relevanceScore: topScore > 0 ? score / topScore : 0,
+      }));
+
+      if (options.diversify ?? config.enableMMR) {
+        return diversifyResults(results, { topK: limit });
       }
 
-      return `[${index + 1}] ${result.document.title}: ${context}`;
-    });
+      return results.slice(0, limit);
+    },
+    [config, search, lexicalSearch, diversifyResults]
+  );
 
-    return contextParts.join('\n\n');
-  }, []);
+  // Build context from search results
+  const buildContext = useCallback(
+    (results: SearchResult[]): string => {
+      if (results.length === 0) return '';
+
+      // Skip near-duplicate chunks so they don't crowd the prompt
+      const selected = config.enableMMR ? diversifyResults(results) : results;
+
+      const contextParts = selected.map((result, index) => {
+        let context = result.chunk.content;
+
+        // Add surrounding context if available
+        if (result.context.previousChunk) {
+          context = result.context.previousChunk.content + ' ' + context;
+        }
+        if (result.context.nextChunk) {
+          context = context + ' ' + result.context.nextChunk.content;
+        }
+
+        return `[${index + 1}] ${result.document.title}: ${context}`;
+      });
+
+      return contextParts.join('\n\n');
+    },
+    [config.enableMMR, diversifyResults]
+  );
 
   // Expand context by including adjacent chunks
   const expandContext = useCallback(
@@ -634,7 +951,13 @@ export function useConciergusRAG(
       }));
 
       try {
-        const results = await search(query);
+        const retrieve =
+          config.retrievalMode === 'hybrid'
+            ? hybridSearch
+            : config.retrievalMode === 'lexical'
+              ? lexicalSearch
+              : search;
+        const results = await retrieve(query);
 
         // Expand context if enabled
         let finalResults = results;
@@ -654,6 +977,24 @@ export function useConciergusRAG(
           title: result.document.title,
           relevance: result.similarity,
           snippet: result.chunk.content.substring(0, 200) + '...',
+          ...(result.chunk.metadata.startOffset !== undefined &&
+          result.chunk.metadata.endOffset !== undefined
+            ? {
+                location: {
+                  startOffset: result.chunk.metadata.startOffset,
+                  endOffset: result.chunk.metadata.endOffset,
+                  ...(result.chunk.metadata.sectionPath
+                    ? { sectionPath: result.chunk.metadata.sectionPath }
+                    : {}),
+                  ...(result.chunk.metadata.jsonPath
+                    ? { jsonPath: result.chunk.metadata.jsonPath }
+                    : {}),
+                  ...(result.chunk.metadata.page !== undefined
+                    ? { page: result.chunk.metadata.page }
+                    : {}),
+                },
+              }
+            : {}),
         }));
 
         return {
@@ -668,7 +1009,7 @@ export function useConciergusRAG(
         setConfig(originalConfig);
       }
     },
-    [config, search, expandContext, buildContext]
+    [config, search, lexicalSearch, hybridSearch, expandContext, buildContext]
   );
 
   // Format context with template
@@ -749,6 +1090,8 @@ export function useConciergusRAG(
 
     // Search Operations
     search,
+    lexicalSearch,
+    hybridSearch,
     semanticSearch,
 
     // Context Operations
@@ -758,6 +1101,7 @@ export function useConciergusRAG(
 
     // Reranking
     rerankResults,
+    diversifyResults,
 
     // Caching
     cacheEmbedding,
@@ -818,19 +1162,48 @@ export interface ConciergusKnowledgeHookReturn {
   ) => KnowledgeDocument | null;
 
   // Document Processing
-  processDocument: (document: KnowledgeDocument) => Promise<DocumentChunk[]>;
+  processDocument: (
+    document: KnowledgeDocument,
+    options?: { force?: boolean }
+  ) => Promise<DocumentChunk[]>;
   chunkDocument: (
     content: string,
-    options?: { chunkSize?: number; overlap?: number }
+    options?: {
+      chunkSize?: number;
+      overlap?: number;
+      format?: KnowledgeDocument['format'];
+    }
   ) => string[];
+  splitDocument: (document: KnowledgeDocument) => TextChunk[];
 
   // Indexing
-  indexDocument: (knowledgeBaseId: string, documentId: string) => Promise<void>;
+  indexDocument: (
+    knowledgeBaseId: string,
+    documentId: string,
+    options?: { force?: boolean }
+  ) => Promise<void>;
   indexKnowledgeBase: (id: string) => Promise<void>;
-  reindexAll: () => Promise<void>;
+  reindexAll: (options?: { force?: boolean }) => Promise<void>;
+  startIndexingJob: (
+    knowledgeBaseId?: string,
+    options?: { force?: boolean; unindexedOnly?: boolean }
+  ) => Promise<IndexingJobState>;
+  pauseIndexingJob: (jobId: string) => void;
+  cancelIndexingJob: (jobId: string) => void;
+  resumeIndexingJob: (jobId: string) => Promise<IndexingJobState>;
+  indexingJobs: IndexingJobState[];
 
   // Search Integration
-  search: (query: string, knowledgeBaseId?: string) => Promise<SearchResult[]>;
+  search: (
+    query: string,
+    knowledgeBaseId?: string,
+    options?: KnowledgeSearchOptions
+  ) => Promise<SearchResult[]>;
+  hybridSearch: (
+    query: string,
+    knowledgeBaseId?: string,
+    options?: HybridSearchOptions
+  ) => Promise<SearchResult[]>;
   fullTextSearch: (
     query: string,
     knowledgeBaseId?: string
@@ -875,7 +1248,17 @@ export function useConciergusKnowledge(
   initialConfig: Partial<ConciergusKnowledgeConfig> = {}
 ): ConciergusKnowledgeHookReturn {
   const gateway = useGateway();
-  const ragHook = useConciergusRAG();
+  const ragHook = useConciergusRAG({
+    ...(initialConfig.vectorStore
+      ? { vectorStore: initialConfig.vectorStore }
+      : {}),
+    ...(initialConfig.lexicalIndex
+      ? { lexicalIndex: initialConfig.lexicalIndex }
+      : {}),
+    ...(initialConfig.embeddingCache
+      ? { embeddingCache: initialConfig.embeddingCache }
+      : {}),
+  });
 
   const [config, setConfig] = useState<ConciergusKnowledgeConfig>({
     maxDocuments: 1000,
@@ -888,10 +1271,30 @@ export function useConciergusKnowledge(
     enableMetadataSearch: true,
     retentionPeriod: 365,
     compressionEnabled: false,
+    chunkingStrategy: 'auto',
     ...initialConfig,
   });
 
   const [knowledgeBases, setKnowledgeBases] = useState<KnowledgeBase[]>([]);
+  // Latest knowledge bases for work scheduled outside the render cycle
+  const knowledgeBasesRef = useRef(knowledgeBases);
+  knowledgeBasesRef.current = knowledgeBases;
+  const [indexingJobs, setIndexingJobs] = useState<IndexingJobState[]>([]);
+  const jobsRef = useRef<Map<string, IndexingJob>>(new Map());
+  const runningJobs = useRef(0);
+  // Pending auto-index runs by document, so edits in quick succession index
+  // once and nothing fires after unmount
+  const autoIndexTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(
+    new Map()
+  );
+  const jobStore = useMemo(
+    () => config.indexingJobStore ?? new MemoryIndexingJobStore(),
+    [config.indexingJobStore]
+  );
+  const extractors = useMemo(
+    () => config.extractors ?? new DocumentExtractorRegistry(),
+    [config.extractors]
+  );
   const [isIndexing, setIsIndexing] = useState(false);
   const [indexingProgress, setIndexingProgress] = useState(0);
   const [lastOperation, setLastOperation] = useState<{
@@ -911,6 +1314,36 @@ export function useConciergusKnowledge(
     >
   >({});
 
+  // Keep the RAG hook searching the same stores that indexing writes to
+  useEffect(() => {
+    if (
+      config.vectorStore &&
+      config.vectorStore !== ragHook.config.vectorStore
+    ) {
+      ragHook.updateConfig({ vectorStore: config.vectorStore });
+    }
+    if (
+      config.lexicalIndex &&
+      config.lexicalIndex !== ragHook.config.lexicalIndex
+    ) {
+      ragHook.updateConfig({ lexicalIndex: config.lexicalIndex });
+    }
+    if (
+      config.embeddingCache &&
+      config.embeddingCache !== ragHook.config.embeddingCache
+    ) {
+      ragHook.updateConfig({ embeddingCache: config.embeddingCache });
+    }
+  }, [config.vectorStore, config.lexicalIndex, config.embeddingCache, ragHook]);
+
+  useEffect(() => {
+    const timers = autoIndexTimers.current;
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
   // Initialize knowledge bases from gateway
   useEffect(() => {
     const gatewayKnowledgeBases = gateway?.getKnowledgeBases?.();
@@ -973,6 +1406,8 @@ export function useConciergusKnowledge(
     async (id: string): Promise<void> => {
       setKnowledgeBases((prev) => prev.filter((kb) => kb.id !== id));
       gateway?.removeKnowledgeBase?.(id);
+      await config.vectorStore?.deleteNamespace(id);
+      config.lexicalIndex?.deleteNamespace(id);
 
       setLastOperation({
         type: 'deleteKnowledgeBase',
@@ -981,7 +1416,7 @@ export function useConciergusKnowledge(
         timestamp: new Date(),
       });
     },
-    [gateway]
+    [gateway, config.vectorStore, config.lexicalIndex]
   );
 
   // Update knowledge base
@@ -1003,130 +1438,272 @@ export function useConciergusKnowledge(
     [gateway]
   );
 
-  // Chunk document
-  const chunkDocument = useCallback(
+  // Split content with the chunker selected for its format
+  const chunkWithOffsets = useCallback(
     (
       content: string,
-      options: { chunkSize?: number; overlap?: number } = {}
-    ): string[] => {
+      options: {
+        chunkSize?: number;
+        overlap?: number;
+        format?: KnowledgeDocument['format'];
+      } = {}
+    ): TextChunk[] => {
       const chunkSize = options.chunkSize || ragHook.config.chunkSize;
       const overlap = options.overlap || ragHook.config.chunkOverlap;
 
       if (!content || content.length === 0) return [];
-      if (chunkSize <= 0) return [content];
-      if (overlap >= chunkSize) return [content]; // Prevent infinite loop
+      if (chunkSize <= 0 || overlap >= chunkSize) {
+        // Prevent infinite loop
+        const endOffset = new TextEncoder().encode(content).length;
+        return [
+          {
+            content,
+            startOffset: 0,
+            endOffset,
+            metadata: { chunker: 'none' },
+          },
+        ];
+      }
 
-      const chunks: string[] = [];
-      let start = 0;
+      return chunkContent(content, options.format ?? 'text', {
+        chunkSize,
+        overlap,
+        strategy: config.chunkingStrategy,
+        ...(config.chunkers ? { chunkers: config.chunkers } : {}),
+      });
+    },
+    [ragHook.config, config.chunkingStrategy, config.chunkers]
+  );
 
-      while (start < content.length) {
-        const end = Math.min(start + chunkSize, content.length);
-        const chunk = content.slice(start, end).trim();
+  // Chunk document
+  const chunkDocument = useCallback(
+    (
+      content: string,
+      options: {
+        chunkSize?: number;
+        overlap?: number;
+        format?: KnowledgeDocument['format'];
+      } = {}
+    ): string[] => {
+      return chunkWithOffsets(content, options).map((chunk) => chunk.content);
+    },
+    [chunkWithOffsets]
+  );
 
-        if (chunk.length > 0) {
-          chunks.push(chunk);
-        }
+  // Split document into chunks that keep their source offsets
+  const splitDocument = useCallback(
+    (document: KnowledgeDocument): TextChunk[] => {
+      return chunkWithOffsets(document.content, { format: document.format });
+    },
+    [chunkWithOffsets]
+  );
 
-        // Move to next position
-        if (end === content.length) {
-          // We've reached the end
-          break;
+  // Split a document and embed its chunks, reusing embeddings of chunks
+  // whose content hash is unchanged since the last indexing
+  const buildDocumentChunks = useCallback(
+    async (
+      document: KnowledgeDocument,
+      options: { force?: boolean } = {}
+    ): Promise<{ chunks: DocumentChunk[] } & IndexingTaskResult> => {
+      const model = ragHook.config.embeddingModel;
+      const chunks = splitDocument(document);
+      const hashes = chunks.map((chunk) => hashContent(chunk.content));
+
+      const reusable = new Map<string, number[]>();
+      if (!options.force) {
+        for (const previous of document.chunks) {
+          const { contentHash, embeddingModel } = previous.metadata;
+          if (
+            contentHash &&
+            embeddingModel === model &&
+            previous.embedding?.length
+          ) {
+            reusable.set(contentHash, previous.embedding);
+          }
         }
+      }
 
-        start = end - Math.min(overlap, end - 1);
+      // Embed each distinct changed chunk once
+      const pending = [
+        ...new Set(hashes.filter((hash) => !reusable.has(hash))),
+      ];
+      const pendingTexts = pending.map(
+        (hash) => chunks[hashes.indexOf(hash)]!.content
+      );
+      const embedded =
+        pendingTexts.length > 0
+          ? await ragHook.generateEmbeddings(pendingTexts)
+          : [];
+      const fresh = new Map(
+        pending.map((hash, index) => [hash, embedded[index]])
+      );
 
-        // Ensure we're making progress
-        if (start <= 0) {
-          start = 1;
-        }
-      }
+      let reusedChunks = 0;
+      const documentChunks = chunks.map((chunk, index) => {
+        const contentHash = hashes[index]!;
+        const reused = reusable.get(contentHash);
+        if (reused) reusedChunks++;
+
+        return {
+          id: `chunk_${document.id}_${index}`,
+          content: chunk.content,
+          embedding: reused ?? fresh.get(contentHash) ?? [],
+          metadata: {
+            documentId: document.id,
+            chunkIndex: index,
+            source: document.source,
+            title: document.title,
+            tags: document.metadata.tags,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            startOffset: chunk.startOffset,
+            endOffset: chunk.endOffset,
+            chunker: chunk.metadata.chunker,
+            ...(chunk.metadata.sectionPath
+              ? { sectionPath: chunk.metadata.sectionPath }
+              : {}),
+            ...(chunk.metadata.jsonPath
+              ? { jsonPath: chunk.metadata.jsonPath }
+              : {}),
+            ...pageForOffset(document.metadata.sections, chunk.startOffset),
+            contentHash,
+            embeddingModel: model,
+          },
+        };
+      });
 
-      return chunks;
+      return {
+        chunks: documentChunks,
+        embeddedChunks: chunks.length - reusedChunks,
+        reusedChunks,
+      };
     },
-    [ragHook.config]
+    [splitDocument, ragHook.generateEmbeddings, ragHook.config.embeddingModel]
   );
 
   // Process document into chunks
   const processDocument = useCallback(
-    async (document: KnowledgeDocument): Promise<DocumentChunk[]> => {
-      const chunks = chunkDocument(document.content);
-      const embeddings = await ragHook.generateEmbeddings(chunks);
-
-      return chunks.map((content, index) => ({
-        id: `chunk_${document.id}_${index}`,
-        content,
-        embedding: embeddings[index],
-        metadata: {
-          documentId: document.id,
-          chunkIndex: index,
-          source: document.source,
-          title: document.title,
-          tags: document.metadata.tags,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-      }));
+    async (
+      document: KnowledgeDocument,
+      options: { force?: boolean } = {}
+    ): Promise<DocumentChunk[]> => {
+      return (await buildDocumentChunks(document, options)).chunks;
     },
-    [chunkDocument, ragHook.generateEmbeddings]
+    [buildDocumentChunks]
+  );
+
+  // Chunk, embed and store one document. Throws on failure.
+  const indexDocumentChunks = useCallback(
+    async (
+      knowledgeBaseId: string,
+      documentId: string,
+      options: { force?: boolean } = {}
+    ): Promise<IndexingTaskResult> => {
+      const knowledgeBase = knowledgeBasesRef.current.find(
+        (kb) => kb.id === knowledgeBaseId
+      );
+      const document = knowledgeBase?.documents.find(
+        (doc) => doc.id === documentId
+      );
+
+      if (!document) {
+        throw new Error('Document not found');
+      }
+
+      const { chunks, embeddedChunks, reusedChunks } =
+        await buildDocumentChunks(document, options);
+
+      // Replace any previously stored chunks for this document
+      if (config.vectorStore) {
+        await config.vectorStore.deleteByFilter(
+          { documentId },
+          knowledgeBaseId
+        );
+        await config.vectorStore.upsert(
+          chunks.map(chunkToVectorRecord),
+          knowledgeBaseId
+        );
+      }
+      if (config.lexicalIndex) {
+        config.lexicalIndex.deleteByFilter({ documentId }, knowledgeBaseId);
+        config.lexicalIndex.add(
+          chunks.map(chunkToLexicalRecord),
+          knowledgeBaseId
+        );
+      }
+
+      // Update document with chunks and mark as indexed
+      const countTokens = (list: DocumentChunk[]) =>
+        list.reduce((sum, c) => sum + c.content.length, 0);
+      setKnowledgeBases((prev) =>
+        prev.map((kb) =>
+          kb.id === knowledgeBaseId
+            ? {
+                ...kb,
+                documents: kb.documents.map((doc) =>
+                  doc.id === documentId
+                    ? {
+                        ...doc,
+                        chunks,
+                        embeddings: chunks.map((c) => c.embedding),
+                        isIndexed: true,
+                        lastIndexed: new Date(),
+                      }
+                    : doc
+                ),
+                statistics: {
+                  ...kb.statistics,
+                  totalChunks: Math.max(
+                    0,
+                    kb.statistics.totalChunks -
+                      document.chunks.length +
+                      chunks.length
+                  ),
+                  totalTokens: Math.max(
+                    0,
+                    kb.statistics.totalTokens -
+                      countTokens(document.chunks) +
+                      countTokens(chunks)
+                  ),
+                  lastUpdated: new Date(),
+                },
+              }
+            : kb
+        )
+      );
+
+      return { embeddedChunks, reusedChunks };
+    },
+    [buildDocumentChunks, config.vectorStore, config.lexicalIndex]
   );
 
   // Index document
   const indexDocument = useCallback(
-    async (knowledgeBaseId: string, documentId: string): Promise<void> => {
+    async (
+      knowledgeBaseId: string,
+      documentId: string,
+      options: { force?: boolean } = {}
+    ): Promise<void> => {
       setIsIndexing(true);
       setIndexingProgress(0);
 
-      try {
-        const knowledgeBase = knowledgeBases.find(
-          (kb) => kb.id === knowledgeBaseId
-        );
-        const document = knowledgeBase?.documents.find(
-          (doc) => doc.id === documentId
-        );
-
-        if (!document) {
-          throw new Error('Document not found');
-        }
+      const title =
+        knowledgeBasesRef.current
+          .find((kb) => kb.id === knowledgeBaseId)
+          ?.documents.find((doc) => doc.id === documentId)?.title ?? documentId;
 
+      try {
         setLastOperation({
           type: 'indexDocument',
           status: 'pending',
-          message: `Indexing document "${document.title}"...`,
+          message: `Indexing document "${title}"...`,
           timestamp: new Date(),
         });
 
-        // Process document into chunks
-        const chunks = await processDocument(document);
-        setIndexingProgress(50);
-
-        // Update document with chunks and mark as indexed
-        setKnowledgeBases((prev) =>
-          prev.map((kb) =>
-            kb.id === knowledgeBaseId
-              ? {
-                  ...kb,
-                  documents: kb.documents.map((doc) =>
-                    doc.id === documentId
-                      ? {
-                          ...doc,
-                          chunks,
-                          embeddings: chunks.map((c) => c.embedding),
-                          isIndexed: true,
-                          lastIndexed: new Date(),
-                        }
-                      : doc
-                  ),
-                  statistics: {
-                    ...kb.statistics,
-                    totalChunks: kb.statistics.totalChunks + chunks.length,
-                    totalTokens:
-                      kb.statistics.totalTokens +
-                      chunks.reduce((sum, c) => sum + c.content.length, 0),
-                    lastUpdated: new Date(),
-                  },
-                }
-              : kb
-          )
+        const { embeddedChunks, reusedChunks } = await indexDocumentChunks(
+          knowledgeBaseId,
+          documentId,
+          options
         );
 
         setIndexingProgress(100);
@@ -1134,7 +1711,7 @@ export function useConciergusKnowledge(
         setLastOperation({
           type: 'indexDocument',
           status: 'success',
-          message: `Document "${document.title}" indexed successfully`,
+          message: `Document "${title}" indexed successfully (${embeddedChunks} chunks embedded, ${reusedChunks} unchanged)`,
           timestamp: new Date(),
         });
       } catch (error) {
@@ -1149,7 +1726,26 @@ export function useConciergusKnowledge(
         setIndexingProgress(0);
       }
     },
-    [knowledgeBases, processDocument]
+    [indexDocumentChunks]
+  );
+
+  // Index a document shortly after it changes, replacing any run still pending
+  const scheduleAutoIndex = useCallback(
+    (knowledgeBaseId: string, documentId: string) => {
+      const timers = autoIndexTimers.current;
+      const pending = timers.get(documentId);
+      if (pending) {
+        clearTimeout(pending);
+      }
+      timers.set(
+        documentId,
+        setTimeout(() => {
+          timers.delete(documentId);
+          void indexDocument(knowledgeBaseId, documentId);
+        }, 100)
+      );
+    },
+    [indexDocument]
   );
 
   // Add document
@@ -1195,7 +1791,7 @@ export function useConciergusKnowledge(
 
       // Auto-index if enabled
       if (config.autoIndexing) {
-        setTimeout(() => indexDocument(knowledgeBaseId, documentId), 100);
+        scheduleAutoIndex(knowledgeBaseId, documentId);
       }
 
       setLastOperation({
@@ -1207,12 +1803,15 @@ export function useConciergusKnowledge(
 
       return documentId;
     },
-    [config.autoIndexing, indexDocument]
+    [config.autoIndexing, scheduleAutoIndex]
   );
 
   // Remove document
   const removeDocument = useCallback(
     async (knowledgeBaseId: string, documentId: string): Promise<void> => {
+      await config.vectorStore?.deleteByFilter({ documentId }, knowledgeBaseId);
+      config.lexicalIndex?.deleteByFilter({ documentId }, knowledgeBaseId);
+
       setKnowledgeBases((prev) =>
         prev.map((kb) =>
           kb.id === knowledgeBaseId
@@ -1236,7 +1835,7 @@ export function useConciergusKnowledge(
         timestamp: new Date(),
       });
     },
-    []
+    [config.vectorStore, config.lexicalIndex]
   );
 
   // Update document
@@ -1271,7 +1870,7 @@ export function useConciergusKnowledge(
 
       // Re-index if content changed
       if (updates.content && config.autoIndexing) {
-        setTimeout(() => indexDocument(knowledgeBaseId, documentId), 100);
+        scheduleAutoIndex(knowledgeBaseId, documentId);
       }
 
       setLastOperation({
@@ -1281,7 +1880,7 @@ export function useConciergusKnowledge(
         timestamp: new Date(),
       });
     },
-    [config.autoIndexing, indexDocument]
+    [config.autoIndexing, scheduleAutoIndex]
   );
 
   // Get document
@@ -1320,44 +1919,190 @@ export function useConciergusKnowledge(
     [knowledgeBases]
   );
 
+  // Mirror job progress into hook state and knowledge base statistics
+  const reportJobProgress = useCallback((state: IndexingJobState) => {
+    setIndexingJobs((prev) => [
+      ...prev.filter((job) => job.id !== state.id),
+      state,
+    ]);
+    setIndexingProgress(getIndexingJobProgress(state));
+
+    const knowledgeBaseIds = new Set(
+      state.tasks.map((task) => task.knowledgeBaseId)
+    );
+    setKnowledgeBases((prev) =>
+      prev.map((kb) =>
+        knowledgeBaseIds.has(kb.id)
+          ? {
+              ...kb,
+              statistics: {
+                ...kb.statistics,
+                indexingProgress: getIndexingJobProgress(state, kb.id),
+              },
+            }
+          : kb
+      )
+    );
+  }, []);
+
+  // Run (or resume) a job until it completes, pauses or is cancelled
+  const runIndexingJob = useCallback(
+    async (job: IndexingJob): Promise<IndexingJobState> => {
+      runningJobs.current++;
+      setIsIndexing(true);
+      setLastOperation({
+        type: 'indexingJob',
+        status: 'pending',
+        message: `Indexing ${job.getState().tasks.length} documents...`,
+        timestamp: new Date(),
+      });
+
+      try {
+        const state = await job.run();
+
+        setLastOperation({
+          type: 'indexingJob',
+          status: state.status === 'failed' ? 'error' : 'success',
+          message: `Indexing job ${state.status}: ${state.embeddedChunks} chunks embedded, ${state.reusedChunks} unchanged, ${state.failures.length} documents failed`,
+          timestamp: new Date(),
+        });
+
+        return state;
+      } finally {
+        runningJobs.current--;
+        if (runningJobs.current === 0) setIsIndexing(false);
+      }
+    },
+    []
+  );
+
+  const createIndexingJob = useCallback(
+    (state: IndexingJobState): IndexingJob => {
+      const job = new IndexingJob(state, jobStore, {
+        runTask: (task: IndexingTask, options) =>
+          indexDocumentChunks(task.knowledgeBaseId, task.documentId, options),
+        onProgress: reportJobProgress,
+      });
+      jobsRef.current.set(job.id, job);
+      return job;
+    },
+    [jobStore, indexDocumentChunks, reportJobProgress]
+  );
+
+  // Create and persist a job over the selected documents
+  const queueIndexingJob = useCallback(
+    async (
+      knowledgeBaseId?: string,
+      options: { force?: boolean; unindexedOnly?: boolean } = {}
+    ): Promise<IndexingJob> => {
+      const tasks: IndexingTask[] = knowledgeBasesRef.current
+        .filter((kb) => !knowledgeBaseId || kb.id === knowledgeBaseId)
+        .flatMap((kb) =>
+          kb.documents
+            .filter((doc) => !options.unindexedOnly || !doc.isIndexed)
+            .map((doc) => ({ knowledgeBaseId: kb.id, documentId: doc.id }))
+        );
+
+      const state = IndexingJob.createState(tasks, {
+        force: options.force ?? false,
+      });
+      await jobStore.save(state);
+
+      const job = createIndexingJob(state);
+      reportJobProgress(job.getState());
+      return job;
+    },
+    [jobStore, createIndexingJob, reportJobProgress]
+  );
+
+  // Queue documents for indexing and run the job in the background
+  const startIndexingJob = useCallback(
+    async (
+      knowledgeBaseId?: string,
+      options: { force?: boolean; unindexedOnly?: boolean } = {}
+    ): Promise<IndexingJobState> => {
+      const job = await queueIndexingJob(knowledgeBaseId, options);
+      void runIndexingJob(job).catch(() => undefined);
+      return job.getState();
+    },
+    [queueIndexingJob, runIndexingJob]
+  );
+
+  // Stop a running job after its current document
+  const pauseIndexingJob = useCallback((jobId: string): void => {
+    jobsRef.current.get(jobId)?.pause();
+  }, []);
+
+  // Stop a job and drop its remaining documents
+  const cancelIndexingJob = useCallback((jobId: string): void => {
+    jobsRef.current.get(jobId)?.cancel();
+  }, []);
+
+  // Continue a paused or interrupted job from its saved state
+  const resumeIndexingJob = useCallback(
+    async (jobId: string): Promise<IndexingJobState> => {
+      let job = jobsRef.current.get(jobId);
+      if (!job) {
+        const state = await jobStore.load(jobId);
+        if (!state) {
+          throw new Error('Indexing job not found');
+        }
+        job = createIndexingJob(state);
+      }
+
+      return runIndexingJob(job);
+    },
+    [jobStore, createIndexingJob, runIndexingJob]
+  );
+
   // Index entire knowledge base
   const indexKnowledgeBase = useCallback(
     async (id: string): Promise<void> => {
-      const knowledgeBase = knowledgeBases.find((kb) => kb.id === id);
+      const knowledgeBase = knowledgeBasesRef.current.find(
+        (kb) => kb.id === id
+      );
       if (!knowledgeBase) {
         throw new Error('Knowledge base not found');
       }
 
-      const unindexedDocuments = knowledgeBase.documents.filter(
-        (doc) => !doc.isIndexed
-      );
-
-      for (let i = 0; i < unindexedDocuments.length; i++) {
-        await indexDocument(id, unindexedDocuments[i].id);
-        setIndexingProgress(((i + 1) / unindexedDocuments.length) * 100);
-      }
+      await runIndexingJob(await queueIndexingJob(id, { unindexedOnly: true }));
     },
-    [knowledgeBases, indexDocument]
+    [queueIndexingJob, runIndexingJob]
   );
 
-  // Reindex all knowledge bases
-  const reindexAll = useCallback(async (): Promise<void> => {
-    for (const knowledgeBase of knowledgeBases) {
-      await indexKnowledgeBase(knowledgeBase.id);
-    }
-  }, [knowledgeBases, indexKnowledgeBase]);
+  // Reindex all knowledge bases. Only chunks whose content changed are
+  // re-embedded unless force is set.
+  const reindexAll = useCallback(
+    async (options: { force?: boolean } = {}): Promise<void> => {
+      await runIndexingJob(await queueIndexingJob(undefined, options));
+    },
+    [queueIndexingJob, runIndexingJob]
+  );
 
   // Search wrapper that uses RAG hook
   const search = useCallback(
     async (
       query: string,
-      knowledgeBaseId?: string
+      knowledgeBaseId?: string,
+      options?: KnowledgeSearchOptions
     ): Promise<SearchResult[]> => {
-      return ragHook.search(query, knowledgeBaseId);
+      return ragHook.search(query, knowledgeBaseId, options);
     },
     [ragHook.search]
   );
 
+  // Hybrid search wrapper that uses RAG hook
+  const hybridSearch = useCallback(
+    async (
+      query: string,
+      knowledgeBaseId?: string,
+      options?: HybridSearchOptions
+    ): Promise<SearchResult[]> => {
+      return ragHook.hybridSearch(query, knowledgeBaseId, options);
+    },
+    [ragHook.hybridSearch]
+  );
+
   // Full text search
   const fullTextSearch = useCallback(
     async (
@@ -1368,25 +2113,33 @@ export function useConciergusKnowledge(
         throw new Error('Full text search is disabled');
       }
 
-      const queryTerms = query.toLowerCase().split(/\s+/);
-      const targetBases = knowledgeBaseId
-        ? knowledgeBases.filter((kb) => kb.id === knowledgeBaseId)
-        : knowledgeBases;
+      const targetBases = knowledgeBases.filter(
+        (kb) => !knowledgeBaseId || kb.id === knowledgeBaseId
+      );
 
-      const results: KnowledgeDocument[] = [];
+      // Rank whole documents with BM25, including unindexed ones
+      const index = new BM25Index();
+      const documents = new Map<string, KnowledgeDocument>();
 
       for (const knowledgeBase of targetBases) {
         for (const document of knowledgeBase.documents) {
-          const content = document.content.toLowerCase();
-          const hasMatch = queryTerms.some((term) => content.includes(term));
-
-          if (hasMatch) {
-            results.push(document);
-          }
+          documents.set(`${knowledgeBase.id}:${document.id}`, document);
+          index.add(
+            [
+              {
+                id: document.id,
+                content: `${document.title}\n${document.content}`,
+                metadata: {},
+              },
+            ],
+            knowledgeBase.id
+          );
         }
       }
 
-      return results;
+      return index
+        .search({ query, topK: documents.size })
+        .map((match) => documents.get(`${match.namespace}:${match.id}`)!);
     },
     [config.enableFullTextSearch, knowledgeBases]
   );
@@ -1443,29 +2196,37 @@ export function useConciergusKnowledge(
       documents: File[] | string[]
     ): Promise<string[]> => {
       const documentIds: string[] = [];
+      const failures: string[] = [];
 
       for (const doc of documents) {
         let content: string;
         let title: string;
         let format: KnowledgeDocument['format'];
+        let extracted: ExtractedDocument | undefined;
 
         if (typeof doc === 'string') {
           content = doc;
           title = `Imported Document ${Date.now()}`;
           format = 'text';
         } else {
-          // Handle File object
-          content = await doc.text();
-          title = doc.name;
-          format = doc.type.includes('json')
-            ? 'json'
-            : doc.type.includes('html')
-              ? 'html'
-              : doc.name.endsWith('.md')
-                ? 'markdown'
-                : 'text';
+          // Extract clean text from the file (PDF, DOCX, HTML, CSV, ...);
+          // an unreadable file is reported and the rest still imported
+          try {
+            extracted = await extractors.extract(doc);
+          } catch (error) {
+            failures.push(
+              `${doc.name} (${error instanceof Error ? error.message : error})`
+            );
+            continue;
+          }
+          content = extracted.text;
+          title = extracted.title ?? doc.name;
+          format = extracted.format;
         }
 
+        const author = extracted?.metadata.author;
+        const pageCount = extracted?.metadata.pageCount;
+
         const documentId = await addDocument(knowledgeBaseId, {
           title,
           content,
@@ -1477,15 +2238,32 @@ export function useConciergusKnowledge(
             createdAt: new Date(),
             updatedAt: new Date(),
             size: content.length,
+            ...(typeof author === 'string' ? { author } : {}),
+            ...(extracted
+              ? {
+                  mimeType: extracted.mimeType,
+                  sections: extracted.sections,
+                }
+              : {}),
+            ...(typeof pageCount === 'number' ? { pageCount } : {}),
           },
         });
 
         documentIds.push(documentId);
       }
 
+      if (failures.length > 0) {
+        setLastOperation({
+          type: 'importDocuments',
+          status: 'error',
+          message: `Imported ${documentIds.length} documents, failed to extract ${failures.length}: ${failures.join(', ')}`,
+          timestamp: new Date(),
+        });
+      }
+
       return documentIds;
     },
-    [addDocument]
+    [addDocument, extractors]
   );
 
   // Export knowledge base
@@ -1635,14 +2413,21 @@ export function useConciergusKnowledge(
     // Document Processing
     processDocument,
     chunkDocument,
+    splitDocument,
 
     // Indexing
     indexDocument,
     indexKnowledgeBase,
     reindexAll,
+    startIndexingJob,
+    pauseIndexingJob,
+    cancelIndexingJob,
+    resumeIndexingJob,
+    indexingJobs,
 
     // Search Integration
     search,
+    hybridSearch,
     fullTextSearch,
     metadataSearch,
 
@@ -1678,3 +2463,163 @@ function cosineSimilarity(a: number[], b: number[]): number {
 
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
+
+// Convert a chunk into a vector store record
+function chunkToVectorRecord(chunk: DocumentChunk): VectorRecord {
+  const metadata: VectorRecord['metadata'] = {
+    documentId: chunk.metadata.documentId,
+    chunkIndex: chunk.metadata.chunkIndex,
+    source: chunk.metadata.source,
+    tags: chunk.metadata.tags ?? [],
+    createdAt: new Date(chunk.metadata.createdAt).toISOString(),
+    updatedAt: new Date(chunk.metadata.updatedAt).toISOString(),
+  };
+  if (chunk.metadata.title !== undefined) {
+    metadata.title = chunk.metadata.title;
+  }
+  if (chunk.metadata.startOffset !== undefined) {
+    metadata.startOffset = chunk.metadata.startOffset;
+  }
+  if (chunk.metadata.endOffset !== undefined) {
+    metadata.endOffset = chunk.metadata.endOffset;
+  }
+  if (chunk.metadata.sectionPath !== undefined) {
+    metadata.sectionPath = chunk.metadata.sectionPath;
+  }
+  if (chunk.metadata.jsonPath !== undefined) {
+    metadata.jsonPath = chunk.metadata.jsonPath;
+  }
+  if (chunk.metadata.chunker !== undefined) {
+    metadata.chunker = chunk.metadata.chunker;
+  }
+  if (chunk.metadata.page !== undefined) {
+    metadata.page = chunk.metadata.page;
+  }
+
+  return {
+    id: chunk.id,
+    vector: chunk.embedding,
+    content: chunk.content,
+    metadata,
+  };
+}
+
+// Page of the extraction section containing a byte offset, if any
+function pageForOffset(
+  sections: ExtractedSection[] | undefined,
+  offset: number
+): { page?: number } {
+  const section = sections?.find(
+    (candidate) =>
+      candidate.page !== undefined &&
+      offset >= candidate.startOffset &&
+      offset < Math.max(candidate.endOffset, candidate.startOffset + 1)
+  );
+  return section?.page !== undefined ? { page: section.page } : {};
+}
+
+// Convert a chunk into a BM25 index record
+function chunkToLexicalRecord(chunk: DocumentChunk): LexicalRecord {
+  const { id, content, metadata } = chunkToVectorRecord(chunk);
+  return { id, content: content ?? '', metadata };
+}
+
+// Similarity between two results for diversification, using embeddings when
+// both chunks have them and term overlap otherwise
+function chunkSimilarity(a: SearchResult, b: SearchResult): number {
+  const left = a.chunk.embedding;
+  const right = b.chunk.embedding;
+  if (left?.length && left.length === right?.length) {
+    return cosineSimilarity(left, right);
+  }
+
+  return termOverlapSimilarity(
+    tokenizeTerms(a.chunk.content),
+    tokenizeTerms(b.chunk.content)
+  );
+}
+
+// Rebuild a search result from a vector store match, preferring the live
+// document when the knowledge base is loaded
+function vectorMatchToSearchResult(
+  match: VectorMatch,
+  knowledgeBases: Record<string, KnowledgeBase | undefined>
+): SearchResult {
+  const documentId = String(match.metadata.documentId ?? '');
+  const chunkIndex = Number(match.metadata.chunkIndex ?? 0);
+  const createdAt = new Date(String(match.metadata.createdAt ?? Date.now()));
+  const updatedAt = new Date(String(match.metadata.updatedAt ?? Date.now()));
+  const tags = Array.isArray(match.metadata.tags)
+    ? match.metadata.tags.map(String)
+    : [];
+  const title =
+    typeof match.metadata.title === 'string' ? match.metadata.title : undefined;
+  const source = String(match.metadata.source ?? '');
+  const { startOffset, endOffset, sectionPath, jsonPath, chunker, page } =
+    match.metadata;
+
+  const loadedDocument = knowledgeBases[match.namespace]?.documents.find(
+    (doc) => doc.id === documentId
+  );
+
+  const chunk: DocumentChunk = loadedDocument?.chunks.find(
+    (c) => c.id === match.id
+  ) ?? {
+    id: match.id,
+    content: match.content ?? '',
+    embedding: match.vector ?? [],
+    metadata: {
+      documentId,
+      chunkIndex,
+      source,
+      ...(title !== undefined ? { title } : {}),
+      tags,
+      createdAt,
+      updatedAt,
+      ...(typeof startOffset === 'number' ? { startOffset } : {}),
+      ...(typeof endOffset === 'number' ? { endOffset } : {}),
+      ...(Array.isArray(sectionPath)
+        ? { sectionPath: sectionPath.map(String) }
+        : {}),
+      ...(typeof jsonPath === 'string' ? { jsonPath } : {}),
+      ...(typeof chunker === 'string' ? { chunker } : {}),
+      ...(typeof page === 'number' ? { page } : {}),
+    },
+  };
+
+  const document: KnowledgeDocument = loadedDocument ?? {
+    id: documentId,
+    title: title ?? documentId,
+    content: '',
+    source,
+    format: 'text',
+    metadata: {
+      tags,
+      version: 1,
+      createdAt,
+      updatedAt,
+      size: 0,
+    },
+    chunks: [],
+    embeddings: [],
+    isIndexed: true,
+  };
+
+  const previousChunk = document.chunks.find(
+    (c) => c.metadata.chunkIndex === chunkIndex - 1
+  );
+  const nextChunk = document.chunks.find(
+    (c) => c.metadata.chunkIndex === chunkIndex + 1
+  );
+
+  return {
+    chunk,
+    similarity: match.score,
+    relevanceScore: match.score,
+    document,
+    context: {
+      ...(previousChunk ? { previousChunk } : {}),
+      ...(nextChunk ? { nextChunk } : {}),
+    },
+  };
+}
@@ -8,6 +8,7 @@ import {
 import type { DebugManager } from './DebugManager';
 import type { ConciergusConfig } from './ConciergusContext';
 import { AISDKTelemetryIntegration } from '../telemetry/AISDKTelemetryIntegration';
+import type { ResumableStreamTransport } from './ResumableStreams';
 
 // ============================================================================
 // TYPES AND INTERFACES
@@ -80,6 +81,7 @@ export interface ConciergusStreamConfig {
   batchSize: number;
   bufferSize: number;
   retryAttempts: number;
+  reconnectDelay: number; // milliseconds, doubled on each retry
   enableSmoothing: boolean;
   enableTypingIndicator: boolean;
   autoSave: boolean;
@@ -91,6 +93,29 @@ export interface ConciergusStreamConfig {
 // useConciergusTextStream Hook
 // ============================================================================
 
+export type StreamConnectionState = 'idle' | 'connected' | 'reconnecting';
+
+interface TextStreamProgress {
+  text: string;
+  characters: number;
+  startTime: number;
+}
+
+/**
+ * Wait before reconnecting, ending early if the stream is stopped
+ */
+function waitForReconnect(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done);
+  });
+}
+
 export interface ConciergusTextStreamHookReturn {
   // Configuration
   config: ConciergusStreamConfig;
@@ -105,15 +130,30 @@ export interface ConciergusTextStreamHookReturn {
       temperature?: number;
       maxTokens?: number;
       tools?: Record<string, any>;
+      // Generate on the server through a resumable stream instead
+      transport?: ResumableStreamTransport;
     }
   ) => Promise<string>;
+  // Reattach to a resumable stream, e.g. after a page reload
+  resumeStream: (
+    transport: ResumableStreamTransport,
+    streamId: string,
+    fromOffset?: number
+  ) => Promise<string>;
 
   // Stream State
   isStreaming: boolean;
+  isPaused: boolean;
   currentText: string;
   streamingSpeed: number; // characters per second
   completionProgress: number; // 0-1
 
+  // Resumable Stream State
+  streamId: string | null;
+  streamOffset: number; // next part offset to request when reconnecting
+  connectionState: StreamConnectionState;
+  reconnectAttempt: number;
+
   // Stream Control
   stopStreaming: () => void;
   pauseStreaming: () => void;
@@ -149,6 +189,7 @@ export function useConciergusTextStream(
     batchSize: 10,
     bufferSize: 1000,
     retryAttempts: 3,
+    reconnectDelay: 1000,
     enableSmoothing: true,
     enableTypingIndicator: true,
     autoSave: false,
@@ -158,12 +199,25 @@ export function useConciergusTextStream(
   });
 
   const [isStreaming, setIsStreaming] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [currentText, setCurrentText] = useState('');
   const [streamingSpeed, setStreamingSpeed] = useState(0);
   const [completionProgress, setCompletionProgress] = useState(0);
+  const [streamId, setStreamId] = useState<string | null>(null);
+  const [streamOffset, setStreamOffset] = useState(0);
+  const [connectionState, setConnectionState] =
+    useState<StreamConnectionState>('idle');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
 
   const abortController = useRef<AbortController | null>(null);
   const streamStartTime = useRef<number>(0);
+  // Whether runStream is consuming a stream; pausing is a no-op otherwise
+  const streamActive = useRef(false);
+  // Consumption waits on this while paused, so no further parts are pulled
+  const pauseGate = useRef<{
+    promise: Promise<void>;
+    release: () => void;
+  } | null>(null);
   const eventCallbacks = useRef<{
     onStart: (() => void)[];
     onUpdate: ((text: string, delta: string) => void)[];
@@ -195,6 +249,222 @@ export function useConciergusTextStream(
     [gateway]
   );
 
+  // Apply a text delta once not paused; false if the stream was stopped
+  const applyDelta = useCallback(
+    async (progress: TextStreamProgress, delta: string): Promise<boolean> => {
+      while (pauseGate.current) {
+        await pauseGate.current.promise;
+      }
+      if (abortController.current?.signal.aborted) {
+        return false;
+      }
+
+      progress.text += delta;
+      progress.characters += delta.length;
+
+      // Apply streaming speed controls
+      if (config.streamingSpeed !== 'fast') {
+        const delay = config.streamingSpeed === 'slow' ? 100 : 50;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+
+      // Update state
+      setCurrentText(progress.text);
+      setStreamingSpeed(
+        progress.characters / ((Date.now() - progress.startTime) / 1000)
+      );
+
+      // Estimate progress (rough approximation)
+      const estimatedTotal = Math.max(progress.characters * 2, 100);
+      setCompletionProgress(
+        Math.min(progress.characters / estimatedTotal, 0.9)
+      );
+
+      // Call update callbacks
+      eventCallbacks.current.onUpdate.forEach((callback) =>
+        callback(progress.text, delta)
+      );
+      return true;
+    },
+    [config.streamingSpeed]
+  );
+
+  // Follow a resumable stream, reconnecting from the next unseen offset
+  // with exponential backoff whenever the connection drops
+  const consumeResumableStream = useCallback(
+    async (
+      transport: ResumableStreamTransport,
+      id: string,
+      fromOffset: number,
+      progress: TextStreamProgress,
+      signal: AbortSignal
+    ): Promise<void> => {
+      let nextOffset = fromOffset;
+      let attempt = 0;
+      setStreamId(id);
+      setStreamOffset(fromOffset);
+      setConnectionState('connected');
+
+      while (!signal.aborted) {
+        let failure: Error | null = null;
+        try {
+          for await (const { offset, part } of transport.connect(
+            id,
+            nextOffset,
+            signal
+          )) {
+            if (offset < nextOffset) {
+              continue; // Applied before the connection dropped
+            }
+            if (attempt > 0) {
+              attempt = 0;
+              setReconnectAttempt(0);
+              setConnectionState('connected');
+            }
+            nextOffset = offset + 1;
+
+            // Generation failed on the server; reconnecting cannot help
+            if (part.type === 'error') {
+              failure = new Error(String(part.error ?? 'Stream failed'));
+              break;
+            }
+            if (
+              part.type === 'text-delta' &&
+              !(await applyDelta(progress, part.textDelta ?? ''))
+            ) {
+              return;
+            }
+            setStreamOffset(nextOffset);
+          }
+        } catch (error) {
+          if (signal.aborted) {
+            return;
+          }
+          if (attempt >= config.retryAttempts) {
+            throw error;
+          }
+
+          attempt++;
+          setReconnectAttempt(attempt);
+          setConnectionState('reconnecting');
+          await waitForReconnect(
+            config.reconnectDelay * 2 ** (attempt - 1),
+            signal
+          );
+          continue;
+        }
+
+        if (failure) {
+          throw failure;
+        }
+        return;
+      }
+    },
+    [applyDelta, config.retryAttempts, config.reconnectDelay]
+  );
+
+  // Run a text stream with the shared state, metrics and callbacks
+  const runStream = useCallback(
+    async (
+      modelName: string | undefined,
+      produce: (
+        progress: TextStreamProgress,
+        signal: AbortSignal
+      ) => Promise<void>
+    ): Promise<string> => {
+      setIsStreaming(true);
+      setCurrentText('');
+      setCompletionProgress(0);
+      streamStartTime.current = Date.now();
+      streamActive.current = true;
+
+      // Create abort controller for this stream
+      abortController.current = new AbortController();
+      const progress: TextStreamProgress = {
+        text: '',
+        characters: 0,
+        startTime: Date.now(),
+      };
+
+      try {
+        // Call event callbacks
+        eventCallbacks.current.onStart.forEach((callback) => callback());
+
+        await produce(progress, abortController.current.signal);
+
+        // Mark as complete
+        setCompletionProgress(1);
+        setIsStreaming(false);
+        setConnectionState('idle');
+
+        // Update metrics
+        const duration = Date.now() - progress.startTime;
+        setMetrics((prev) => ({
+          totalStreams: prev.totalStreams + 1,
+          totalCharacters: prev.totalCharacters + progress.characters,
+          totalDuration: prev.totalDuration + duration,
+          errorCount: prev.errorCount,
+        }));
+
+        // Call completion callbacks
+        eventCallbacks.current.onComplete.forEach((callback) =>
+          callback(progress.text)
+        );
+
+        return progress.text;
+      } catch (error) {
+        setIsStreaming(false);
+        setConnectionState('idle');
+        setReconnectAttempt(0);
+        setMetrics((prev) => ({ ...prev, errorCount: prev.errorCount + 1 }));
+
+        // Record telemetry error
+        const telemetryIntegration = AISDKTelemetryIntegration.getInstance();
+        const telemetrySettings =
+          telemetryIntegration?.generateTelemetrySettings('streamText', {
+            model: modelName || gateway.getCurrentModel?.() || 'unknown',
+          });
+
+        if (telemetryIntegration && telemetrySettings?.functionId) {
+          const operationId = telemetryIntegration['extractOperationId'](
+            telemetrySettings.functionId
+          );
+          telemetryIntegration.recordOperationCompletion(operationId, {
+            success: false,
+            error:
+              error instanceof Error
+                ? error.message
+                : 'Unknown streaming error',
+            duration: Date.now() - streamStartTime.current,
+          });
+        }
+
+        if (gateway.debugManager) {
+          gateway.debugManager.error(
+            'Text streaming failed',
+            { error },
+            'Streaming',
+            'text'
+          );
+        }
+
+        // Call error callbacks
+        eventCallbacks.current.onError.forEach((callback) =>
+          callback(error as Error)
+        );
+
+        throw error;
+      } finally {
+        // A pause left over from this stream must not hold the next one
+        streamActive.current = false;
+        pauseGate.current?.release();
+        pauseGate.current = null;
+        setIsPaused(false);
+      }
+    },
+    [gateway]
+  );
+
   // Stream text with AI SDK 5
   const streamText = useCallback(
     async (
@@ -205,25 +475,34 @@ export function useConciergusTextStream(
         temperature?: number;
         maxTokens?: number;
         tools?: Record<string, any>;
+        transport?: ResumableStreamTransport;
       } = {}
-    ): Promise<string> => {
-      setIsStreaming(true);
-      setCurrentText('');
-      setCompletionProgress(0);
-      streamStartTime.current = Date.now();
-
-      // Create abort controller for this stream
-      abortController.current = new AbortController();
+    ): Promise<string> =>
+      runStream(options.model, async (progress, signal) => {
+        // Generate on the server, which buffers the parts for reconnects
+        if (options.transport) {
+          const { streamId: id } = await options.transport.start({
+            prompt,
+            model: options.model,
+            system: options.system,
+            temperature: options.temperature,
+            maxTokens: options.maxTokens,
+          });
+          await consumeResumableStream(
+            options.transport,
+            id,
+            0,
+            progress,
+            signal
+          );
+          return;
+        }
 
-      try {
         const model = getStreamingModel(options.model);
         if (!model) {
           throw new Error('No streaming model available');
         }
 
-        // Call event callbacks
-        eventCallbacks.current.onStart.forEach((callback) => callback());
-
         // Get telemetry integration
         const telemetryIntegration = AISDKTelemetryIntegration.getInstance();
         const telemetrySettings =
@@ -245,7 +524,7 @@ export function useConciergusTextStream(
           temperature: options.temperature,
           maxTokens: options.maxTokens,
           tools: options.tools,
-          abortSignal: abortController.current.signal,
+          abortSignal: signal,
           experimental_telemetry: telemetrySettings,
           experimental_transform: config.enableSmoothing
             ? [
@@ -287,117 +566,65 @@ export function useConciergusTextStream(
           },
         });
 
-        let fullText = '';
-        let characterCount = 0;
-        const startTime = Date.now();
-
         // Process text stream
+        progress.startTime = Date.now();
         for await (const textPart of result.textStream) {
-          if (abortController.current?.signal.aborted) {
+          if (!(await applyDelta(progress, textPart))) {
             break;
           }
-
-          fullText += textPart;
-          characterCount += textPart.length;
-
-          // Apply streaming speed controls
-          if (config.streamingSpeed !== 'fast') {
-            const delay = config.streamingSpeed === 'slow' ? 100 : 50;
-            await new Promise((resolve) => setTimeout(resolve, delay));
-          }
-
-          // Update state
-          setCurrentText(fullText);
-          setStreamingSpeed(characterCount / ((Date.now() - startTime) / 1000));
-
-          // Estimate progress (rough approximation)
-          const estimatedTotal = Math.max(characterCount * 2, 100);
-          setCompletionProgress(Math.min(characterCount / estimatedTotal, 0.9));
-
-          // Call update callbacks
-          eventCallbacks.current.onUpdate.forEach((callback) =>
-            callback(fullText, textPart)
-          );
         }
+      }),
+    [
+      config,
+      getStreamingModel,
+      gateway,
+      runStream,
+      applyDelta,
+      consumeResumableStream,
+    ]
+  );
 
-        // Mark as complete
-        setCompletionProgress(1);
-        setIsStreaming(false);
-
-        // Update metrics
-        const duration = Date.now() - startTime;
-        setMetrics((prev) => ({
-          totalStreams: prev.totalStreams + 1,
-          totalCharacters: prev.totalCharacters + characterCount,
-          totalDuration: prev.totalDuration + duration,
-          errorCount: prev.errorCount,
-        }));
-
-        // Call completion callbacks
-        eventCallbacks.current.onComplete.forEach((callback) =>
-          callback(fullText)
-        );
-
-        return fullText;
-      } catch (error) {
-        setIsStreaming(false);
-        setMetrics((prev) => ({ ...prev, errorCount: prev.errorCount + 1 }));
-
-        // Record telemetry error
-        const telemetryIntegration = AISDKTelemetryIntegration.getInstance();
-        const telemetrySettings =
-          telemetryIntegration?.generateTelemetrySettings('streamText', {
-            model: options.model || gateway.getCurrentModel?.() || 'unknown',
-          });
-
-        if (telemetryIntegration && telemetrySettings?.functionId) {
-          const operationId = telemetryIntegration['extractOperationId'](
-            telemetrySettings.functionId
-          );
-          telemetryIntegration.recordOperationCompletion(operationId, {
-            success: false,
-            error:
-              error instanceof Error
-                ? error.message
-                : 'Unknown streaming error',
-            duration: Date.now() - streamStartTime.current,
-          });
-        }
-
-        if (gateway.debugManager) {
-          gateway.debugManager.error(
-            'Text streaming failed',
-            { error },
-            'Streaming',
-            'text'
-          );
-        }
-
-        // Call error callbacks
-        eventCallbacks.current.onError.forEach((callback) =>
-          callback(error as Error)
-        );
-
-        throw error;
-      }
-    },
-    [config, getStreamingModel, gateway.debugManager]
+  // Replaying from offset 0 rebuilds the whole text
+  const resumeStream = useCallback(
+    (
+      transport: ResumableStreamTransport,
+      id: string,
+      fromOffset: number = 0
+    ): Promise<string> =>
+      runStream(undefined, (progress, signal) =>
+        consumeResumableStream(transport, id, fromOffset, progress, signal)
+      ),
+    [runStream, consumeResumableStream]
   );
 
   // Stream control functions
   const stopStreaming = useCallback(() => {
     abortController.current?.abort();
+    // Release a paused stream so it sees the abort
+    pauseGate.current?.release();
+    pauseGate.current = null;
+    setIsPaused(false);
     setIsStreaming(false);
   }, []);
 
+  // Paused streams stop pulling parts, leaving them with the model stream
+  // or the server buffer until resumed
   const pauseStreaming = useCallback(() => {
-    // This would require more complex implementation with stream control
-    console.warn('Pause streaming not yet implemented');
+    if (pauseGate.current || !streamActive.current) {
+      return;
+    }
+    let release = () => {};
+    const promise = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    pauseGate.current = { promise, release };
+    setIsPaused(true);
   }, []);
 
   const resumeStreaming = useCallback(() => {
-    // This would require more complex implementation with stream control
-    console.warn('Resume streaming not yet implemented');
+    pauseGate.current?.release();
+    pauseGate.current = null;
+    setIsPaused(false);
   }, []);
 
   // Event handlers
@@ -457,13 +684,21 @@ export function useConciergusTextStream(
 
     // Text Streaming
     streamText,
+    resumeStream,
 
     // Stream State
     isStreaming,
+    isPaused,
     currentText,
     streamingSpeed,
     completionProgress,
 
+    // Resumable Stream State
+    streamId,
+    streamOffset,
+    connectionState,
+    reconnectAttempt,
+
     // Stream Control
     stopStreaming,
     pauseStreaming,
@@ -541,6 +776,7 @@ export function useConciergusObjectStream(
     batchSize: 5,
     bufferSize: 100,
     retryAttempts: 3,
+    reconnectDelay: 1000,
     enableSmoothing: false,
     enableTypingIndicator: false,
     autoSave: true,
@@ -932,6 +1168,7 @@ export function useConciergusDataParts(
     batchSize: 20,
     bufferSize: 500,
     retryAttempts: 2,
+    reconnectDelay: 1000,
     enableSmoothing: false,
     enableTypingIndicator: false,
     autoSave: false,
@@ -1280,6 +1517,7 @@ export function useConciergusGenerativeUI(
     batchSize: 1,
     bufferSize: 10,
     retryAttempts: 2,
+    reconnectDelay: 1000,
     enableSmoothing: false,
     enableTypingIndicator: true,
     autoSave: true,
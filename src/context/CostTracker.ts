@@ -16,6 +16,7 @@ export interface UsageEvent {
   success: boolean;
   errorType?: string;
   requestType: 'text' | 'vision' | 'function_call' | 'reasoning';
+  quotaReservationId?: string; // From RateLimitingEngine.reserveQuota
 }
 
 /**
@@ -68,6 +69,7 @@ export interface CostForecast {
  */
 export class CostTracker {
   private usageHistory: UsageEvent[] = [];
+  private usageListeners = new Set<(event: UsageEvent) => void>();
   private budgetConfig: BudgetConfig;
   private maxHistoryDays: number = 30;
 
@@ -120,6 +122,18 @@ export class CostTracker {
 
     // Check budget alerts
     this.checkBudgetAlerts();
+
+    this.usageListeners.forEach((listener) => listener(usageEvent));
+  }
+
+  /**
+   * Subscribe to tracked usage events. Returns an unsubscribe function.
+   */
+  onUsage(listener: (event: UsageEvent) => void): () => void {
+    this.usageListeners.add(listener);
+    return () => {
+      this.usageListeners.delete(listener);
+    };
   }
 
   /**
@@ -11,6 +11,14 @@ import {
 } from './GatewayConfig';
 import CostTracker, { type UsageEvent } from './CostTracker';
 import type { DebugManager } from './DebugManager';
+import {
+  RateLimitingEngine,
+  MemoryRateLimitStorage,
+  type QuotaReservation,
+} from '../security/RateLimitingEngine';
+import { RateLimitingHelpers } from '../security/RateLimitingUtils';
+
+const TOKEN_QUOTA = 'tokens-per-minute';
 
 /**
  * Error types that can trigger fallback behavior
@@ -81,6 +89,10 @@ export class FallbackManager {
   private retryConfig: RetryConfig;
   private costTracker?: CostTracker;
   private debugManager?: DebugManager;
+  private tokenQuota: {
+    engine: RateLimitingEngine;
+    storage: MemoryRateLimitStorage;
+  } | null = null;
 
   constructor(
     config: GatewayConfig = {},
@@ -103,6 +115,7 @@ export class FallbackManager {
 
     this.costTracker = costTracker;
     this.debugManager = debugManager;
+    this.configureTokenQuota();
   }
 
   /**
@@ -122,6 +135,10 @@ export class FallbackManager {
     const models = this.getOrderedFallbackModels(chainName, context);
     const attempts: FallbackAttempt[] = [];
     const startTime = Date.now();
+    const reservation = await this.reserveTokens(
+      models[0] ?? 'unknown',
+      context?.query
+    );
 
     this.debugManager?.info(
       `Starting fallback execution with ${models.length} models`,
@@ -154,6 +171,15 @@ export class FallbackManager {
 
         // Track cost usage if tracker is available
         this.trackUsageEvent(modelId, responseTime, true, result);
+        // The model answered; a failed reconcile keeps the estimate
+        await this.settleTokens(reservation, result).catch((error) => {
+          this.debugManager?.warn(
+            'Failed to reconcile token usage',
+            { modelId, error: (error as Error).message },
+            'FallbackManager',
+            'fallback'
+          );
+        });
 
         this.debugManager?.info(
           `Fallback execution succeeded with model ${modelId}`,
@@ -227,6 +253,9 @@ export class FallbackManager {
             'fallback'
           );
 
+          if (reservation) {
+            await this.tokenQuota?.engine.releaseQuota(reservation);
+          }
           throw new Error(
             `All fallback models failed. Last error: ${(error as Error).message}`
           );
@@ -234,9 +263,86 @@ export class FallbackManager {
       }
     }
 
+    if (reservation) {
+      await this.tokenQuota?.engine.releaseQuota(reservation);
+    }
     throw new Error('No models available in fallback chain');
   }
 
+  /**
+   * Reserve the query's estimated tokens against `maxTokensPerMinute`.
+   * Throws a rate limit error when the minute's budget is spent.
+   */
+  private async reserveTokens(
+    modelId: string,
+    query?: string
+  ): Promise<QuotaReservation | null> {
+    if (!this.tokenQuota) return null;
+
+    // Roughly four characters per token until the provider reports usage
+    const result = await this.tokenQuota.engine.reserveQuota({
+      modelId,
+      estimatedInputTokens: Math.ceil((query?.length ?? 0) / 4),
+    });
+    if (!result.allowed) {
+      const retryAfter = Math.max(
+        0,
+        ...result.quotas.map((quota) => quota.retryAfter)
+      );
+      throw new Error(
+        `Token rate limit exceeded: ${this.config.maxTokensPerMinute} tokens per minute, retry after ${retryAfter}s`
+      );
+    }
+    return result.reservation;
+  }
+
+  /**
+   * Replace the token estimate with the usage the provider reported
+   */
+  private async settleTokens(
+    reservation: QuotaReservation | null,
+    result: any
+  ): Promise<void> {
+    if (!reservation || !this.tokenQuota) return;
+
+    const usage = result && typeof result === 'object' ? result.usage : null;
+    if (!usage) {
+      // Keep the estimate when the provider did not report usage
+      const estimate = reservation.holds[0]?.amount ?? 0;
+      await this.tokenQuota.engine.reconcileQuota(reservation, {
+        inputTokens: estimate,
+        outputTokens: 0,
+      });
+      return;
+    }
+
+    await this.tokenQuota.engine.reconcileQuota(reservation, {
+      inputTokens: usage.promptTokens || usage.inputTokens || 0,
+      outputTokens: usage.completionTokens || usage.outputTokens || 0,
+    });
+  }
+
+  /**
+   * Keep the token quota in step with `maxTokensPerMinute`
+   */
+  private configureTokenQuota(): void {
+    const { maxTokensPerMinute } = this.config;
+    if (maxTokensPerMinute === undefined) {
+      this.destroy();
+      return;
+    }
+
+    if (!this.tokenQuota) {
+      const storage = new MemoryRateLimitStorage();
+      this.tokenQuota = { engine: new RateLimitingEngine(storage), storage };
+    }
+    // No scopes: the budget is shared by every request through this manager
+    this.tokenQuota.engine.registerQuota(
+      TOKEN_QUOTA,
+      RateLimitingHelpers.tokensPerMinuteQuota(maxTokensPerMinute, [])
+    );
+  }
+
   /**
    * Execute operation with retry logic for a single model
    */
@@ -672,6 +778,16 @@ export class FallbackManager {
   updateConfig(newConfig: Partial<GatewayConfig>): void {
     this.config = { ...this.config, ...newConfig };
     this.retryConfig.maxAttempts = this.config.retryAttempts || 3;
+    this.configureTokenQuota();
+  }
+
+  /**
+   * Stop the token quota's storage cleanup. A later `updateConfig` with
+   * `maxTokensPerMinute` starts a fresh quota.
+   */
+  destroy(): void {
+    this.tokenQuota?.storage.destroy();
+    this.tokenQuota = null;
   }
 
   /**
@@ -187,6 +187,8 @@ export interface GatewayConfig {
   telemetryEnabled?: boolean;
   retryAttempts?: number;
   timeout?: number;
+  // Token budget per minute across all requests through the fallback manager
+  maxTokensPerMinute?: number;
 }
 
 /**
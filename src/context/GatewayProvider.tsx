@@ -208,6 +208,10 @@ export function GatewayProvider({
   useEffect(() => {
     fallbackManager.updateConfig(config);
   }, [fallbackManager, config]);
+
+  // Stop the fallback manager's token quota on unmount
+  useEffect(() => () => fallbackManager.destroy(), [fallbackManager]);
+
   const [userOverrideModel, setUserOverrideModel] = useState(false);
   const [userOverrideChain, setUserOverrideChain] = useState(false);
 
@@ -0,0 +1,600 @@
+/**
+ * Resumable Streams
+ * The server buffers generated stream parts under a stream ID, numbering
+ * each part with its offset. A client whose connection drops reconnects
+ * with the next offset it expects and replays what it missed, so an
+ * in-flight answer survives a flaky network.
+ */
+
+import type { RedisCache } from '../cache/RedisCache';
+import type { StreamTextPart } from './ConciergusStreamingHooks';
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+/**
+ * A stream part with its position in the stream
+ */
+export interface BufferedStreamPart {
+  offset: number;
+  part: StreamTextPart;
+}
+
+export type BufferedStreamStatus = 'streaming' | 'complete' | 'error';
+
+/**
+ * Parts from an offset onwards, read together with the stream status so a
+ * finished stream is known to have been read to the end
+ */
+export interface StreamBufferRead {
+  parts: BufferedStreamPart[];
+  status: BufferedStreamStatus;
+}
+
+/**
+ * Where buffered parts are kept. `read` resolves to null for streams that
+ * were never started or have expired.
+ */
+export interface StreamBufferStore {
+  append(streamId: string, parts: StreamTextPart[], ttl: number): Promise<void>;
+  read(streamId: string, fromOffset: number): Promise<StreamBufferRead | null>;
+  finish(
+    streamId: string,
+    status: Exclude<BufferedStreamStatus, 'streaming'>,
+    ttl: number
+  ): Promise<void>;
+  delete(streamId: string): Promise<void>;
+}
+
+/**
+ * Resumable stream buffer configuration
+ */
+export interface ResumableStreamConfig {
+  ttl: number; // How long parts are kept after the last write, in milliseconds
+  pollInterval: number; // How often readers check for parts written elsewhere
+  generateStreamId: () => string;
+}
+
+export const DEFAULT_RESUMABLE_STREAM_CONFIG: ResumableStreamConfig = {
+  ttl: 10 * 60 * 1000, // 10 minutes
+  pollInterval: 250,
+  generateStreamId: () => `stream_${crypto.randomUUID()}`,
+};
+
+/**
+ * Body of the request that starts a resumable stream
+ */
+export interface ResumableStreamRequest {
+  prompt: string;
+  model?: string | undefined;
+  system?: string | undefined;
+  temperature?: number | undefined;
+  maxTokens?: number | undefined;
+}
+
+/**
+ * Options for `ResumableStreamBuffer.handleRequest`
+ */
+export interface ResumableStreamHandlerOptions {
+  // Whether the request may start (POST) or read (GET) the stream. POST
+  // passes the new stream's ID, so its owner can be recorded.
+  authorize?: (
+    request: Request,
+    streamId: string
+  ) => boolean | Promise<boolean>;
+}
+
+/**
+ * How a client starts a stream on the server and (re)connects to it
+ */
+export interface ResumableStreamTransport {
+  start(request: ResumableStreamRequest): Promise<{ streamId: string }>;
+  connect(
+    streamId: string,
+    fromOffset: number,
+    signal: AbortSignal
+  ): AsyncIterable<BufferedStreamPart>;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+interface MemoryStreamEntry {
+  parts: StreamTextPart[];
+  status: BufferedStreamStatus;
+  expiresAt: number;
+}
+
+/**
+ * Buffer kept in process memory; streams resume only on the same instance
+ */
+export class MemoryStreamBufferStore implements StreamBufferStore {
+  private streams = new Map<string, MemoryStreamEntry>();
+
+  async append(
+    streamId: string,
+    parts: StreamTextPart[],
+    ttl: number
+  ): Promise<void> {
+    this.sweep();
+    const entry = this.streams.get(streamId) ?? {
+      parts: [],
+      status: 'streaming',
+      expiresAt: 0,
+    };
+    entry.parts.push(...parts);
+    entry.expiresAt = Date.now() + ttl;
+    this.streams.set(streamId, entry);
+  }
+
+  async read(
+    streamId: string,
+    fromOffset: number
+  ): Promise<StreamBufferRead | null> {
+    this.sweep();
+    const entry = this.streams.get(streamId);
+    if (!entry) return null;
+
+    return {
+      parts: entry.parts
+        .slice(fromOffset)
+        .map((part, index) => ({ offset: fromOffset + index, part })),
+      status: entry.status,
+    };
+  }
+
+  async finish(
+    streamId: string,
+    status: Exclude<BufferedStreamStatus, 'streaming'>,
+    ttl: number
+  ): Promise<void> {
+    const entry = this.streams.get(streamId) ?? {
+      parts: [],
+      status,
+      expiresAt: 0,
+    };
+    entry.status = status;
+    entry.expiresAt = Date.now() + ttl;
+    this.streams.set(streamId, entry);
+  }
+
+  async delete(streamId: string): Promise<void> {
+    this.streams.delete(streamId);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [streamId, entry] of this.streams) {
+      if (entry.expiresAt <= now) {
+        this.streams.delete(streamId);
+      }
+    }
+  }
+}
+
+/**
+ * Lua scripts. Parts are a Redis list of JSON strings next to a status key;
+ * both expire together.
+ */
+export const StreamBufferScripts = {
+  append: `
+    for i = 2, #ARGV do
+      redis.call('RPUSH', KEYS[1], ARGV[i])
+    end
+    redis.call('PEXPIRE', KEYS[1], ARGV[1])
+    if redis.call('EXISTS', KEYS[2]) == 0 then
+      redis.call('SET', KEYS[2], 'streaming', 'PX', ARGV[1])
+    else
+      redis.call('PEXPIRE', KEYS[2], ARGV[1])
+    end
+    return 1
+  `,
+
+  read: `
+    local status = redis.call('GET', KEYS[2])
+    if not status then
+      return false
+    end
+    return { status, redis.call('LRANGE', KEYS[1], ARGV[1], -1) }
+  `,
+
+  finish: `
+    redis.call('SET', KEYS[2], ARGV[1], 'PX', ARGV[2])
+    redis.call('PEXPIRE', KEYS[1], ARGV[2])
+    return 1
+  `,
+
+  // A script rather than plain deletes, so the keys are prefixed the same
+  // way as in the scripts that wrote them
+  delete: `return redis.call('DEL', KEYS[1], KEYS[2])`,
+} as const;
+
+/**
+ * Buffer shared through Redis, so any instance can serve a reconnect
+ */
+export class RedisStreamBufferStore implements StreamBufferStore {
+  private redis: RedisCache;
+  private keyPrefix: string;
+
+  constructor(redis: RedisCache, keyPrefix: string = 'stream:') {
+    this.redis = redis;
+    this.keyPrefix = keyPrefix;
+  }
+
+  async append(
+    streamId: string,
+    parts: StreamTextPart[],
+    ttl: number
+  ): Promise<void> {
+    await this.redis.eval(StreamBufferScripts.append, this.keys(streamId), [
+      Math.ceil(ttl),
+      ...parts.map((part) => JSON.stringify(part)),
+    ]);
+  }
+
+  async read(
+    streamId: string,
+    fromOffset: number
+  ): Promise<StreamBufferRead | null> {
+    const reply = await this.redis.eval<[string, string[]] | null>(
+      StreamBufferScripts.read,
+      this.keys(streamId),
+      [fromOffset]
+    );
+    if (!reply) return null;
+
+    const [status, parts] = reply;
+    return {
+      parts: parts.map((raw, index) => ({
+        offset: fromOffset + index,
+        part: JSON.parse(raw) as StreamTextPart,
+      })),
+      status: status as BufferedStreamStatus,
+    };
+  }
+
+  async finish(
+    streamId: string,
+    status: Exclude<BufferedStreamStatus, 'streaming'>,
+    ttl: number
+  ): Promise<void> {
+    await this.redis.eval(StreamBufferScripts.finish, this.keys(streamId), [
+      status,
+      Math.ceil(ttl),
+    ]);
+  }
+
+  async delete(streamId: string): Promise<void> {
+    await this.redis.eval(StreamBufferScripts.delete, this.keys(streamId));
+  }
+
+  private keys(streamId: string): [string, string] {
+    const key = `${this.keyPrefix}${streamId}`;
+    return [`${key}:parts`, `${key}:status`];
+  }
+}
+
+// ============================================================================
+// SERVER BUFFER
+// ============================================================================
+
+/**
+ * Server side of resumable streams: writes generated parts into a store and
+ * serves them to readers from any offset, as Server-Sent Events whose event
+ * IDs are the part offsets
+ */
+export class ResumableStreamBuffer {
+  private store: StreamBufferStore;
+  private config: ResumableStreamConfig;
+  // Readers on this instance waiting for the next write
+  private waiters = new Map<string, Set<() => void>>();
+
+  constructor(
+    store: StreamBufferStore = new MemoryStreamBufferStore(),
+    config: Partial<ResumableStreamConfig> = {}
+  ) {
+    this.store = store;
+    this.config = { ...DEFAULT_RESUMABLE_STREAM_CONFIG, ...config };
+  }
+
+  /**
+   * Buffer every part of a generated stream. A failing source is recorded
+   * as an error part, which tells readers not to reconnect.
+   */
+  async pipe(
+    streamId: string,
+    source: AsyncIterable<StreamTextPart>
+  ): Promise<void> {
+    try {
+      // Readers may join before the first part arrives
+      await this.store.append(streamId, [], this.config.ttl);
+      for await (const part of source) {
+        await this.store.append(streamId, [part], this.config.ttl);
+        this.notify(streamId);
+      }
+      await this.store.finish(streamId, 'complete', this.config.ttl);
+    } catch (error) {
+      await this.store.append(
+        streamId,
+        [
+          {
+            type: 'error',
+            error: error instanceof Error ? error.message : String(error),
+          },
+        ],
+        this.config.ttl
+      );
+      await this.store.finish(streamId, 'error', this.config.ttl);
+    } finally {
+      this.notify(streamId);
+    }
+  }
+
+  /**
+   * Replay parts from an offset, then follow the stream until it finishes
+   */
+  async *read(
+    streamId: string,
+    fromOffset: number = 0,
+    signal?: AbortSignal
+  ): AsyncGenerator<BufferedStreamPart> {
+    let offset = fromOffset;
+    while (!signal?.aborted) {
+      const result = await this.store.read(streamId, offset);
+      if (!result) {
+        throw new Error(`Stream ${streamId} not found or expired`);
+      }
+
+      for (const buffered of result.parts) {
+        yield buffered;
+        offset = buffered.offset + 1;
+      }
+      if (result.status !== 'streaming') return;
+      if (result.parts.length === 0) {
+        await this.waitForWrite(streamId, signal);
+      }
+    }
+  }
+
+  /**
+   * Server-Sent Events for a reader. An `end` event marks the end of the
+   * stream; a body that closes without one means the connection dropped.
+   */
+  toEventStream(
+    streamId: string,
+    fromOffset: number = 0
+  ): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const abortController = new AbortController();
+    const parts = this.read(streamId, fromOffset, abortController.signal);
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const { value, done } = await parts.next();
+          if (done) {
+            controller.enqueue(encoder.encode('event: end\ndata: {}\n\n'));
+            controller.close();
+            return;
+          }
+          controller.enqueue(
+            encoder.encode(
+              `id: ${value.offset}\ndata: ${JSON.stringify(value.part)}\n\n`
+            )
+          );
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      cancel: async () => {
+        abortController.abort();
+        await parts.return(undefined);
+      },
+    });
+  }
+
+  /**
+   * Event stream response for a reader
+   */
+  toResponse(streamId: string, fromOffset: number = 0): Response {
+    return new Response(this.toEventStream(streamId, fromOffset), {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  }
+
+  /**
+   * Route handler for `createHttpStreamTransport`. POST starts a stream with
+   * the given generator and answers with its ID; GET reads a stream from the
+   * `offset` query parameter, or after the `Last-Event-ID` header. Requests
+   * that `authorize` refuses get a 403.
+   */
+  async handleRequest(
+    request: Request,
+    generate: (
+      request: ResumableStreamRequest
+    ) => AsyncIterable<StreamTextPart> | Promise<AsyncIterable<StreamTextPart>>,
+    options: ResumableStreamHandlerOptions = {}
+  ): Promise<Response> {
+    const forbidden = async (streamId: string) =>
+      options.authorize && !(await options.authorize(request, streamId))
+        ? Response.json({ error: 'Forbidden' }, { status: 403 })
+        : null;
+
+    if (request.method === 'POST') {
+      const body = (await request.json()) as ResumableStreamRequest;
+      const streamId = this.config.generateStreamId();
+      const refused = await forbidden(streamId);
+      if (refused) return refused;
+      // Create the stream before answering so an immediate reader finds it
+      await this.store.append(streamId, [], this.config.ttl);
+      // Generation outlives this request; `pipe` records generation failures
+      // in the stream, and failures to write to the store are logged
+      const parts = async function* (): AsyncGenerator<StreamTextPart> {
+        yield* await generate(body);
+      };
+      this.pipe(streamId, parts()).catch((error) => {
+        console.error(`Failed to buffer stream ${streamId}:`, error);
+      });
+      return Response.json({ streamId });
+    }
+
+    const url = new URL(request.url);
+    const streamId = url.searchParams.get('streamId');
+    if (!streamId) {
+      return Response.json({ error: 'streamId is required' }, { status: 400 });
+    }
+    const refused = await forbidden(streamId);
+    if (refused) return refused;
+
+    const lastEventId = request.headers.get('Last-Event-ID');
+    const fromOffset = url.searchParams.has('offset')
+      ? Number(url.searchParams.get('offset'))
+      : lastEventId !== null
+        ? Number(lastEventId) + 1
+        : 0;
+    if (!Number.isInteger(fromOffset) || fromOffset < 0) {
+      return Response.json({ error: 'Invalid offset' }, { status: 400 });
+    }
+
+    if (!(await this.store.read(streamId, fromOffset))) {
+      return Response.json(
+        { error: `Stream ${streamId} not found or expired` },
+        { status: 404 }
+      );
+    }
+    return this.toResponse(streamId, fromOffset);
+  }
+
+  async delete(streamId: string): Promise<void> {
+    await this.store.delete(streamId);
+  }
+
+  /**
+   * Wait for a write on this instance, or the poll interval for writes made
+   * by other instances
+   */
+  private waitForWrite(streamId: string, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      let waiters = this.waiters.get(streamId);
+      if (!waiters) {
+        waiters = new Set();
+        this.waiters.set(streamId, waiters);
+      }
+
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        waiters.delete(done);
+        if (waiters.size === 0) this.waiters.delete(streamId);
+        resolve();
+      };
+      const timer = setTimeout(done, this.config.pollInterval);
+      signal?.addEventListener('abort', done);
+      waiters.add(done);
+    });
+  }
+
+  private notify(streamId: string): void {
+    this.waiters.get(streamId)?.forEach((wake) => wake());
+  }
+}
+
+// ============================================================================
+// CLIENT TRANSPORT
+// ============================================================================
+
+export interface HttpStreamTransportConfig {
+  url: string;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Parse Server-Sent Events written by `ResumableStreamBuffer`. Throws when
+ * the body ends before the `end` event so the caller can reconnect.
+ */
+async function* readEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<BufferedStreamPart> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        throw new Error('Stream connection closed before the stream finished');
+      }
+      buffered += decoder.decode(value, { stream: true });
+
+      let boundary = buffered.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = buffered.slice(0, boundary);
+        buffered = buffered.slice(boundary + 2);
+        boundary = buffered.indexOf('\n\n');
+
+        const fields = new Map<string, string>();
+        for (const line of event.split('\n')) {
+          const colon = line.indexOf(':');
+          if (colon > 0) {
+            fields.set(line.slice(0, colon), line.slice(colon + 1).trimStart());
+          }
+        }
+
+        if (fields.get('event') === 'end') return;
+        const id = fields.get('id');
+        const data = fields.get('data');
+        if (id !== undefined && data !== undefined) {
+          yield { offset: Number(id), part: JSON.parse(data) };
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Transport that talks to a route served by `ResumableStreamBuffer.handleRequest`
+ */
+export function createHttpStreamTransport(
+  config: HttpStreamTransportConfig
+): ResumableStreamTransport {
+  const request = config.fetch ?? ((...args) => fetch(...args));
+
+  return {
+    async start(body) {
+      const response = await request(config.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...config.headers },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to start stream: ${response.status}`);
+      }
+      return (await response.json()) as { streamId: string };
+    },
+
+    async *connect(streamId, fromOffset, signal) {
+      const url = new URL(config.url, globalThis.location?.href);
+      url.searchParams.set('streamId', streamId);
+      url.searchParams.set('offset', String(fromOffset));
+
+      const response = await request(url.toString(), {
+        headers: { Accept: 'text/event-stream', ...config.headers },
+        signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to connect to stream: ${response.status}`);
+      }
+      yield* readEventStream(response.body);
+    },
+  };
+}
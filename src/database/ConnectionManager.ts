@@ -5,6 +5,12 @@
 
 import { EventEmitter } from 'events';
 import { PerformanceMonitor } from '../telemetry/PerformanceMonitor';
+import { SUPABASE_TENANT_RPC, TENANT_SETTING } from './TenantContext';
+import type { MongoDatabase } from './MongoConversationRepository';
+import {
+  createMemoryDatabase,
+  type MemoryDatabase,
+} from './MemoryConversationRepository';
 
 /**
  * Database provider types
@@ -15,6 +21,7 @@ export type DatabaseProvider =
   | 'mysql'
   | 'sqlite'
   | 'mongodb'
+  | 'memory'
   | 'custom';
 
 /**
@@ -98,6 +105,14 @@ export interface QueryResult<T = any> {
   };
 }
 
+/**
+ * Queries pinned to one connection, for transactions and session locks
+ */
+export interface DatabaseSession {
+  dedicated: boolean; // False when each query may run on a different connection
+  query<T = any>(sql: string, params?: any[]): Promise<T>;
+}
+
 /**
  * Database health status
  */
@@ -190,6 +205,11 @@ export class ConnectionManager extends EventEmitter {
       case 'mongodb':
         await this.initializeMongoDBPool();
         break;
+      case 'memory':
+        this.connectionPool = createMemoryDatabase();
+        this.stats.totalConnections = 1;
+        this.stats.activeConnections = 1;
+        break;
       default:
         throw new Error(
           `Unsupported database provider: ${this.config.provider}`
@@ -246,6 +266,7 @@ export class ConnectionManager extends EventEmitter {
       const { Pool } = await import('pg');
 
       this.connectionPool = new Pool({
+        ...(this.config.url ? { connectionString: this.config.url } : {}),
         host: this.config.host,
         port: this.config.port || 5432,
         database: this.config.database,
@@ -294,6 +315,7 @@ export class ConnectionManager extends EventEmitter {
       const mysql = await import('mysql2/promise');
 
       this.connectionPool = mysql.createPool({
+        ...(this.config.url ? { uri: this.config.url } : {}),
         host: this.config.host,
         port: this.config.port || 3306,
         database: this.config.database,
@@ -374,6 +396,7 @@ export class ConnectionManager extends EventEmitter {
       useCache?: boolean;
       cacheTtl?: number;
       timeout?: number;
+      tenantId?: string; // Tenant for postgres row-level security policies
     }
   ): Promise<QueryResult<T>> {
     const startTime = Date.now();
@@ -385,7 +408,7 @@ export class ConnectionManager extends EventEmitter {
         this.config.optimization.enableQueryCache &&
         options?.useCache !== false
       ) {
-        const cached = this.getCachedQuery(sql, params);
+        const cached = this.getCachedQuery(sql, params, options?.tenantId);
         if (cached) {
           return {
             data: cached,
@@ -404,10 +427,18 @@ export class ConnectionManager extends EventEmitter {
       let result: T;
       switch (this.config.provider) {
         case 'supabase':
-          result = await this.executeSupabaseQuery<T>(sql, params);
+          result = await this.executeSupabaseQuery<T>(
+            sql,
+            params,
+            options?.tenantId
+          );
           break;
         case 'postgres':
-          result = await this.executePostgresQuery<T>(sql, params);
+          result = await this.executePostgresQuery<T>(
+            sql,
+            params,
+            options?.tenantId
+          );
           break;
         case 'mysql':
           result = await this.executeMySQLQuery<T>(sql, params);
@@ -430,7 +461,13 @@ export class ConnectionManager extends EventEmitter {
         this.config.optimization.enableQueryCache &&
         options?.useCache !== false
       ) {
-        this.setCachedQuery(sql, params, result, options?.cacheTtl);
+        this.setCachedQuery(
+          sql,
+          params,
+          result,
+          options?.cacheTtl,
+          options?.tenantId
+        );
       }
 
       return {
@@ -452,11 +489,81 @@ export class ConnectionManager extends EventEmitter {
   }
 
   /**
-   * Execute Supabase query
+   * Run `fn` with its queries pinned to one connection, so transactions and
+   * session-level locks hold across statements. Supabase runs every query as
+   * its own RPC call, so its sessions are not dedicated. A connection whose
+   * work failed is discarded rather than returned to the pool.
+   */
+  async withSession<T>(
+    fn: (session: DatabaseSession) => Promise<T>
+  ): Promise<T> {
+    if (!this.connectionPool) {
+      throw new Error(`${this.config.provider} connection not initialized`);
+    }
+
+    switch (this.config.provider) {
+      case 'postgres': {
+        const client = await this.connectionPool.connect();
+        let failed = false;
+        try {
+          return await fn({
+            dedicated: true,
+            query: async (sql, params) =>
+              (await client.query(sql, params)).rows,
+          });
+        } catch (error) {
+          failed = true;
+          throw error;
+        } finally {
+          client.release(failed);
+        }
+      }
+      case 'mysql': {
+        const connection = await this.connectionPool.getConnection();
+        let failed = false;
+        try {
+          return await fn({
+            dedicated: true,
+            query: async (sql, params) =>
+              (await connection.query(sql, params))[0],
+          });
+        } catch (error) {
+          failed = true;
+          throw error;
+        } finally {
+          if (failed) {
+            connection.destroy();
+          } else {
+            connection.release();
+          }
+        }
+      }
+      case 'sqlite':
+        return fn({
+          dedicated: true,
+          query: (sql, params) => this.executeSQLiteQuery(sql, params),
+        });
+      case 'supabase':
+        return fn({
+          dedicated: false,
+          query: (sql, params) => this.executeSupabaseQuery(sql, params),
+        });
+      default:
+        throw new Error(
+          `Sessions are not supported for ${this.config.provider}`
+        );
+    }
+  }
+
+  /**
+   * Execute Supabase query. Tenant-scoped queries go through the
+   * `execute_sql_as_tenant` wrapper (see `generateSupabaseTenantFunction`),
+   * which sets the tenant for row-level security within the same call.
    */
   private async executeSupabaseQuery<T>(
     sql: string,
-    params?: any[]
+    params?: any[],
+    tenantId?: string
   ): Promise<T> {
     if (!this.connectionPool) {
       throw new Error('Supabase client not initialized');
@@ -465,10 +572,17 @@ export class ConnectionManager extends EventEmitter {
     // For Supabase, we'll use the RPC function or direct table operations
     // This is a simplified implementation - in practice, you'd parse the SQL
     // and convert to Supabase API calls
-    const { data, error } = await this.connectionPool.rpc('execute_sql', {
-      query: sql,
-      parameters: params || [],
-    });
+    const { data, error } =
+      tenantId === undefined
+        ? await this.connectionPool.rpc('execute_sql', {
+            query: sql,
+            parameters: params || [],
+          })
+        : await this.connectionPool.rpc(SUPABASE_TENANT_RPC, {
+            tenant_id: tenantId,
+            query: sql,
+            parameters: params || [],
+          });
 
     if (error) {
       throw new Error(error.message);
@@ -482,7 +596,8 @@ export class ConnectionManager extends EventEmitter {
    */
   private async executePostgresQuery<T>(
     sql: string,
-    params?: any[]
+    params?: any[],
+    tenantId?: string
   ): Promise<T> {
     if (!this.connectionPool) {
       throw new Error('PostgreSQL pool not initialized');
@@ -490,10 +605,24 @@ export class ConnectionManager extends EventEmitter {
 
     const client = await this.connectionPool.connect();
     try {
+      // Scope the pooled connection to the tenant for this query only
+      if (tenantId !== undefined) {
+        await client.query('SELECT set_config($1, $2, false)', [
+          TENANT_SETTING,
+          tenantId,
+        ]);
+      }
       const result = await client.query(sql, params);
       return result.rows as T;
     } finally {
-      client.release();
+      const reset =
+        tenantId === undefined ||
+        (await client.query(`RESET ${TENANT_SETTING}`).then(
+          () => true,
+          () => false
+        ));
+      // A connection still scoped to a tenant must not go back to the pool
+      client.release(!reset);
     }
   }
 
@@ -505,7 +634,12 @@ export class ConnectionManager extends EventEmitter {
       throw new Error('MySQL pool not initialized');
     }
 
-    const [rows] = await this.connectionPool.execute(sql, params);
+    // Statements such as CREATE TRIGGER cannot be prepared, so only
+    // parameterized queries run as prepared statements
+    const [rows] =
+      this.config.optimization.enablePreparedStatements && params?.length
+        ? await this.connectionPool.execute(sql, params)
+        : await this.connectionPool.query(sql, params);
     return rows as T;
   }
 
@@ -518,7 +652,9 @@ export class ConnectionManager extends EventEmitter {
     }
 
     const stmt = this.connectionPool.prepare(sql);
-    const result = params ? stmt.all(...params) : stmt.all();
+    // DDL and writes return no rows and must be run rather than read
+    const args = params || [];
+    const result = stmt.reader ? stmt.all(...args) : stmt.run(...args);
     return result as T;
   }
 
@@ -548,8 +684,12 @@ export class ConnectionManager extends EventEmitter {
   /**
    * Get cached query result
    */
-  private getCachedQuery(sql: string, params?: any[]): any | null {
-    const key = this.generateCacheKey(sql, params);
+  private getCachedQuery(
+    sql: string,
+    params?: any[],
+    tenantId?: string
+  ): any | null {
+    const key = this.generateCacheKey(sql, params, tenantId);
     const cached = this.queryCache.get(key);
 
     if (cached && Date.now() - cached.timestamp < cached.ttl) {
@@ -570,9 +710,10 @@ export class ConnectionManager extends EventEmitter {
     sql: string,
     params: any[] | undefined,
     result: any,
-    ttl = 300000
+    ttl = 300000,
+    tenantId?: string
   ): void {
-    const key = this.generateCacheKey(sql, params);
+    const key = this.generateCacheKey(sql, params, tenantId);
 
     // Limit cache size
     if (this.queryCache.size >= this.config.optimization.queryCacheSize) {
@@ -588,11 +729,16 @@ export class ConnectionManager extends EventEmitter {
   }
 
   /**
-   * Generate cache key for query
+   * Generate cache key for query. Row-level security gives each tenant
+   * different rows for the same query, so the tenant is part of the key.
    */
-  private generateCacheKey(sql: string, params?: any[]): string {
+  private generateCacheKey(
+    sql: string,
+    params?: any[],
+    tenantId?: string
+  ): string {
     const paramString = params ? JSON.stringify(params) : '';
-    return btoa(`${sql}|${paramString}`).slice(0, 32);
+    return `${tenantId ?? ''}|${sql}|${paramString}`;
   }
 
   /**
@@ -668,7 +814,13 @@ export class ConnectionManager extends EventEmitter {
 
     try {
       // Simple health check query
-      await this.query('SELECT 1 as health_check', [], { useCache: false });
+      if (this.config.provider === 'mongodb') {
+        await this.getMongoDatabase().command({ ping: 1 });
+      } else if (this.config.provider === 'memory') {
+        this.getMemoryDatabase();
+      } else {
+        await this.query('SELECT 1 as health_check', [], { useCache: false });
+      }
 
       const latency = Date.now() - startTime;
 
@@ -690,6 +842,47 @@ export class ConnectionManager extends EventEmitter {
     }
   }
 
+  /**
+   * Get the configured database provider
+   */
+  getProvider(): DatabaseProvider {
+    return this.config.provider;
+  }
+
+  /**
+   * Get the MongoDB database for repositories that work with documents
+   * rather than queries
+   */
+  getMongoDatabase(): MongoDatabase {
+    if (this.config.provider !== 'mongodb') {
+      throw new Error(
+        `MongoDB database requested for provider ${this.config.provider}`
+      );
+    }
+    if (!this.connectionPool) {
+      throw new Error('MongoDB client not initialized');
+    }
+
+    return this.connectionPool.db(this.config.database);
+  }
+
+  /**
+   * Get the in-memory database, creating it if the connection has not been
+   * initialized
+   */
+  getMemoryDatabase(): MemoryDatabase {
+    if (this.config.provider !== 'memory') {
+      throw new Error(
+        `Memory database requested for provider ${this.config.provider}`
+      );
+    }
+    if (!this.connectionPool) {
+      this.connectionPool = createMemoryDatabase();
+    }
+
+    return this.connectionPool;
+  }
+
   /**
    * Get connection statistics
    */
@@ -6,6 +6,19 @@
  */
 
 import { ConversationDataAccess } from './ConversationDataAccess';
+import {
+  TRANSCRIPT_FORMATS,
+  createTranscript,
+  parseTranscript,
+  serializeTranscript,
+  transcriptFileName,
+  transcriptToMessageRequests,
+  type ConversationTranscript,
+  type FineTuningExportOptions,
+  type TranscriptFormat,
+} from './ConversationTranscript';
+import { createTenantContext, type TenantContext } from './TenantContext';
+import { CacheKeys } from '../cache';
 import type {
   Conversation,
   ConversationMessage,
@@ -37,10 +50,15 @@ export interface ConversationAPIConfig {
   enableAnalytics?: boolean;
   enableCaching?: boolean;
   cacheTimeout?: number;
+  tenantId?: string; // Default tenant, with userId, for calls without a context
   userId?: string;
   defaultPageSize?: number;
+  autoMigrate?: boolean; // Apply pending schema migrations on initialize
 }
 
+const TENANT_REQUIRED_MESSAGE =
+  'A tenant context, or tenantId and userId in the config, is required';
+
 /**
  * Real-time update callback types
  */
@@ -52,6 +70,25 @@ export interface ConversationUpdateCallbacks {
   onError?: (error: Error) => void;
 }
 
+/**
+ * Exported conversation transcript
+ */
+export interface TranscriptExport {
+  format: TranscriptFormat;
+  fileName: string;
+  mimeType: string;
+  content: string;
+  transcript: ConversationTranscript;
+}
+
+/**
+ * Conversation created from an imported transcript
+ */
+export interface TranscriptImport {
+  conversation: Conversation;
+  messages: ConversationMessage[];
+}
+
 /**
  * Main Conversation API class
  */
@@ -81,7 +118,9 @@ export class ConversationAPI {
    * Initialize the conversation API and database schema
    */
   async initialize(): Promise<ConversationOperationResult<void>> {
-    return await this.dataAccess.initialize();
+    return await this.dataAccess.initialize({
+      migrate: this.config.autoMigrate === true,
+    });
   }
 
   /**
@@ -96,15 +135,15 @@ export class ConversationAPI {
    */
   async createConversation(
     request: CreateConversationRequest,
-    userId?: string
+    tenantContext?: TenantContext
   ): Promise<ConversationOperationResult<Conversation>> {
-    const user = userId || this.config.userId;
-    if (!user) {
+    const tenant = this.resolveTenant(tenantContext);
+    if (!tenant) {
       return {
         success: false,
         error: {
-          code: 'USER_ID_REQUIRED',
-          message: 'User ID is required for conversation creation',
+          code: 'TENANT_CONTEXT_REQUIRED',
+          message: TENANT_REQUIRED_MESSAGE,
         },
         metadata: {
           duration: 0,
@@ -115,11 +154,15 @@ export class ConversationAPI {
     }
 
     try {
-      const result = await this.dataAccess.createConversation(user, request);
+      const result = await this.dataAccess.createConversation(tenant, request);
 
       if (result.success && result.data) {
-        this.invalidateCache(`conversations_${user}`);
-        this.invalidateCache(`stats_${user}`);
+        this.invalidateCache(
+          CacheKeys.tenantUserConversations(tenant.tenantId, tenant.userId)
+        );
+        this.invalidateCache(
+          CacheKeys.tenantUserStats(tenant.tenantId, tenant.userId)
+        );
 
         // Trigger real-time update
         if (
@@ -153,15 +196,15 @@ export class ConversationAPI {
    */
   async getConversation(
     conversationId: string,
-    userId?: string
+    tenantContext?: TenantContext
   ): Promise<ConversationOperationResult<Conversation>> {
-    const user = userId || this.config.userId;
-    if (!user) {
+    const tenant = this.resolveTenant(tenantContext);
+    if (!tenant) {
       return {
         success: false,
         error: {
-          code: 'USER_ID_REQUIRED',
-          message: 'User ID is required',
+          code: 'TENANT_CONTEXT_REQUIRED',
+          message: TENANT_REQUIRED_MESSAGE,
         },
         metadata: {
           duration: 0,
@@ -171,7 +214,7 @@ export class ConversationAPI {
       };
     }
 
-    const cacheKey = `conversation_${conversationId}_${user}`;
+    const cacheKey = `${CacheKeys.tenantConversation(tenant.tenantId, conversationId)}:user:${tenant.userId}`;
 
     // Check cache first
     if (this.config.enableCaching) {
@@ -192,7 +235,7 @@ export class ConversationAPI {
     try {
       const result = await this.dataAccess.getConversation(
         conversationId,
-        user
+        tenant
       );
 
       if (result.success && result.data && this.config.enableCaching) {
@@ -223,15 +266,15 @@ export class ConversationAPI {
   async updateConversation(
     conversationId: string,
     updates: UpdateConversationRequest,
-    userId?: string
+    tenantContext?: TenantContext
   ): Promise<ConversationOperationResult<Conversation>> {
-    const user = userId || this.config.userId;
-    if (!user) {
+    const tenant = this.resolveTenant(tenantContext);
+    if (!tenant) {
       return {
         success: false,
         error: {
-          code: 'USER_ID_REQUIRED',
-          message: 'User ID is required',
+          code: 'TENANT_CONTEXT_REQUIRED',
+          message: TENANT_REQUIRED_MESSAGE,
         },
         metadata: {
           duration: 0,
@@ -244,15 +287,21 @@ export class ConversationAPI {
     try {
       const result = await this.dataAccess.updateConversation(
         conversationId,
-        user,
+        tenant,
         updates
       );
 
       if (result.success && result.data) {
         // Invalidate relevant caches
-        this.invalidateCache(`conversation_${conversationId}_${user}`);
-        this.invalidateCache(`conversations_${user}`);
-        this.invalidateCache(`stats_${user}`);
+        this.invalidateCache(
+          CacheKeys.tenantConversation(tenant.tenantId, conversationId)
+        );
+        this.invalidateCache(
+          CacheKeys.tenantUserConversations(tenant.tenantId, tenant.userId)
+        );
+        this.invalidateCache(
+          CacheKeys.tenantUserStats(tenant.tenantId, tenant.userId)
+        );
 
         // Trigger real-time update
         if (
@@ -287,11 +336,11 @@ export class ConversationAPI {
   async listConversations(
     filter: ConversationFilter = {},
     pagination?: ConversationPagination,
-    userId?: string
+    tenantContext?: TenantContext
   ): Promise<ConversationQueryResult<ConversationListItem>> {
-    const user = userId || this.config.userId;
-    if (!user) {
-      throw new Error('User ID is required');
+    const tenant = this.resolveTenant(tenantContext);
+    if (!tenant) {
+      throw new Error(TENANT_REQUIRED_MESSAGE);
     }
 
     const paginationConfig = {
@@ -300,7 +349,7 @@ export class ConversationAPI {
       ...pagination,
     };
 
-    const cacheKey = `conversations_${user}_${JSON.stringify(filter)}_${JSON.stringify(paginationConfig)}`;
+    const cacheKey = `${CacheKeys.tenantUserConversations(tenant.tenantId, tenant.userId)}:${JSON.stringify(filter)}:${JSON.stringify(paginationConfig)}`;
 
     // Check cache first
     if (this.config.enableCaching) {
@@ -315,7 +364,7 @@ export class ConversationAPI {
 
     try {
       const result = await this.dataAccess.listConversations(
-        user,
+        tenant,
         filter,
         paginationConfig
       );
@@ -337,15 +386,15 @@ export class ConversationAPI {
   async createMessage(
     conversationId: string,
     request: CreateMessageRequest,
-    userId?: string
+    tenantContext?: TenantContext
   ): Promise<ConversationOperationResult<ConversationMessage>> {
-    const user = userId || this.config.userId;
-    if (!user) {
+    const tenant = this.resolveTenant(tenantContext);
+    if (!tenant) {
       return {
         success: false,
         error: {
-          code: 'USER_ID_REQUIRED',
-          message: 'User ID is required',
+          code: 'TENANT_CONTEXT_REQUIRED',
+          message: TENANT_REQUIRED_MESSAGE,
         },
         metadata: {
           duration: 0,
@@ -359,15 +408,20 @@ export class ConversationAPI {
       const result = await this.dataAccess.createMessage(
         conversationId,
         request,
-        user
+        tenant
       );
 
       if (result.success && result.data) {
         // Invalidate relevant caches
-        this.invalidateCache(`conversation_${conversationId}_${user}`);
-        this.invalidateCache(`messages_${conversationId}_${user}`);
-        this.invalidateCache(`conversations_${user}`);
-        this.invalidateCache(`stats_${user}`);
+        this.invalidateCache(
+          CacheKeys.tenantConversation(tenant.tenantId, conversationId)
+        );
+        this.invalidateCache(
+          CacheKeys.tenantUserConversations(tenant.tenantId, tenant.userId)
+        );
+        this.invalidateCache(
+          CacheKeys.tenantUserStats(tenant.tenantId, tenant.userId)
+        );
 
         // Trigger real-time update
         if (
@@ -402,11 +456,11 @@ export class ConversationAPI {
   async getMessages(
     conversationId: string,
     pagination?: ConversationPagination,
-    userId?: string
+    tenantContext?: TenantContext
   ): Promise<ConversationQueryResult<ConversationMessage>> {
-    const user = userId || this.config.userId;
-    if (!user) {
-      throw new Error('User ID is required');
+    const tenant = this.resolveTenant(tenantContext);
+    if (!tenant) {
+      throw new Error(TENANT_REQUIRED_MESSAGE);
     }
 
     const paginationConfig = {
@@ -415,7 +469,7 @@ export class ConversationAPI {
       ...pagination,
     };
 
-    const cacheKey = `messages_${conversationId}_${user}_${JSON.stringify(paginationConfig)}`;
+    const cacheKey = `${CacheKeys.tenantConversationMessages(tenant.tenantId, conversationId)}:user:${tenant.userId}:${JSON.stringify(paginationConfig)}`;
 
     // Check cache first
     if (this.config.enableCaching) {
@@ -431,7 +485,7 @@ export class ConversationAPI {
     try {
       const result = await this.dataAccess.getMessages(
         conversationId,
-        user,
+        tenant,
         paginationConfig
       );
 
@@ -446,20 +500,36 @@ export class ConversationAPI {
     }
   }
 
+  /**
+   * Stream every message of a conversation in batches, bypassing the cache
+   */
+  streamMessages(
+    conversationId: string,
+    options: { batchSize?: number; after?: string } = {},
+    tenantContext?: TenantContext
+  ): AsyncGenerator<ConversationMessage, void, undefined> {
+    const tenant = this.resolveTenant(tenantContext);
+    if (!tenant) {
+      throw new Error(TENANT_REQUIRED_MESSAGE);
+    }
+
+    return this.dataAccess.streamMessages(conversationId, tenant, options);
+  }
+
   /**
    * Search conversations and messages
    */
   async searchConversations(
     request: SearchConversationsRequest,
-    userId?: string
+    tenantContext?: TenantContext
   ): Promise<ConversationQueryResult<ConversationSearchResult>> {
-    const user = userId || this.config.userId;
-    if (!user) {
-      throw new Error('User ID is required');
+    const tenant = this.resolveTenant(tenantContext);
+    if (!tenant) {
+      throw new Error(TENANT_REQUIRED_MESSAGE);
     }
 
     try {
-      return await this.dataAccess.searchConversations(user, request);
+      return await this.dataAccess.searchConversations(tenant, request);
     } catch (error) {
       this.handleError(error);
       throw error;
@@ -470,15 +540,15 @@ export class ConversationAPI {
    * Get conversation statistics with caching
    */
   async getConversationStats(
-    userId?: string
+    tenantContext?: TenantContext
   ): Promise<ConversationOperationResult<ConversationStats>> {
-    const user = userId || this.config.userId;
-    if (!user) {
+    const tenant = this.resolveTenant(tenantContext);
+    if (!tenant) {
       return {
         success: false,
         error: {
-          code: 'USER_ID_REQUIRED',
-          message: 'User ID is required',
+          code: 'TENANT_CONTEXT_REQUIRED',
+          message: TENANT_REQUIRED_MESSAGE,
         },
         metadata: {
           duration: 0,
@@ -488,7 +558,7 @@ export class ConversationAPI {
       };
     }
 
-    const cacheKey = `stats_${user}`;
+    const cacheKey = CacheKeys.tenantUserStats(tenant.tenantId, tenant.userId);
 
     // Check cache first
     if (this.config.enableCaching) {
@@ -507,7 +577,7 @@ export class ConversationAPI {
     }
 
     try {
-      const result = await this.dataAccess.getConversationStats(user);
+      const result = await this.dataAccess.getConversationStats(tenant);
 
       if (result.success && result.data && this.config.enableCaching) {
         this.setCache(cacheKey, result.data);
@@ -540,15 +610,15 @@ export class ConversationAPI {
     toAgentId: string,
     reason: string,
     sharedContext?: Record<string, any>,
-    userId?: string
+    tenantContext?: TenantContext
   ): Promise<ConversationOperationResult<void>> {
-    const user = userId || this.config.userId;
-    if (!user) {
+    const tenant = this.resolveTenant(tenantContext);
+    if (!tenant) {
       return {
         success: false,
         error: {
-          code: 'USER_ID_REQUIRED',
-          message: 'User ID is required',
+          code: 'TENANT_CONTEXT_REQUIRED',
+          message: TENANT_REQUIRED_MESSAGE,
         },
         metadata: {
           duration: 0,
@@ -564,15 +634,21 @@ export class ConversationAPI {
         fromAgentId,
         toAgentId,
         reason,
-        user,
+        tenant,
         sharedContext
       );
 
       if (result.success) {
         // Invalidate relevant caches
-        this.invalidateCache(`conversation_${conversationId}_${user}`);
-        this.invalidateCache(`conversations_${user}`);
-        this.invalidateCache(`stats_${user}`);
+        this.invalidateCache(
+          CacheKeys.tenantConversation(tenant.tenantId, conversationId)
+        );
+        this.invalidateCache(
+          CacheKeys.tenantUserConversations(tenant.tenantId, tenant.userId)
+        );
+        this.invalidateCache(
+          CacheKeys.tenantUserStats(tenant.tenantId, tenant.userId)
+        );
 
         // Trigger real-time update
         if (
@@ -617,7 +693,7 @@ export class ConversationAPI {
     conversationId: string,
     enhancedMessage: EnhancedMessage,
     agentId?: string,
-    userId?: string
+    tenantContext?: TenantContext
   ): Promise<ConversationOperationResult<ConversationMessage>> {
     const messageRequest: CreateMessageRequest = {
       role: enhancedMessage.role,
@@ -637,7 +713,11 @@ export class ConversationAPI {
       },
     };
 
-    return await this.createMessage(conversationId, messageRequest, userId);
+    return await this.createMessage(
+      conversationId,
+      messageRequest,
+      tenantContext
+    );
   }
 
   /**
@@ -646,15 +726,15 @@ export class ConversationAPI {
   async syncWithMultiAgentContext(
     conversationId: string,
     context: SharedConversationContext,
-    userId?: string
+    tenantContext?: TenantContext
   ): Promise<ConversationOperationResult<void>> {
-    const user = userId || this.config.userId;
-    if (!user) {
+    const tenant = this.resolveTenant(tenantContext);
+    if (!tenant) {
       return {
         success: false,
         error: {
-          code: 'USER_ID_REQUIRED',
-          message: 'User ID is required',
+          code: 'TENANT_CONTEXT_REQUIRED',
+          message: TENANT_REQUIRED_MESSAGE,
         },
         metadata: {
           duration: 0,
@@ -682,7 +762,7 @@ export class ConversationAPI {
       const result = await this.updateConversation(
         conversationId,
         updates,
-        user
+        tenant
       );
 
       // Persist any new messages that haven't been saved
@@ -723,15 +803,15 @@ export class ConversationAPI {
   async bulkCreateMessages(
     conversationId: string,
     messages: CreateMessageRequest[],
-    userId?: string
+    tenantContext?: TenantContext
   ): Promise<ConversationOperationResult<ConversationMessage[]>> {
-    const user = userId || this.config.userId;
-    if (!user) {
+    const tenant = this.resolveTenant(tenantContext);
+    if (!tenant) {
       return {
         success: false,
         error: {
-          code: 'USER_ID_REQUIRED',
-          message: 'User ID is required',
+          code: 'TENANT_CONTEXT_REQUIRED',
+          message: TENANT_REQUIRED_MESSAGE,
         },
         metadata: {
           duration: 0,
@@ -750,7 +830,7 @@ export class ConversationAPI {
         const result = await this.createMessage(
           conversationId,
           messageRequest,
-          user
+          tenant
         );
         if (result.success && result.data) {
           results.push(result.data);
@@ -793,6 +873,219 @@ export class ConversationAPI {
     }
   }
 
+  /**
+   * Export a conversation with all messages and handoffs as a transcript
+   */
+  async exportConversation(
+    conversationId: string,
+    format: TranscriptFormat = 'json',
+    tenantContext?: TenantContext,
+    options: Partial<FineTuningExportOptions> = {}
+  ): Promise<ConversationOperationResult<TranscriptExport>> {
+    const tenant = this.resolveTenant(tenantContext);
+    const startTime = Date.now();
+    const metadata = () => ({
+      duration: Date.now() - startTime,
+      timestamp: new Date(),
+      operation: 'exportConversation',
+    });
+
+    if (!tenant) {
+      return {
+        success: false,
+        error: {
+          code: 'TENANT_CONTEXT_REQUIRED',
+          message: TENANT_REQUIRED_MESSAGE,
+        },
+        metadata: metadata(),
+      };
+    }
+
+    try {
+      const conversationResult = await this.dataAccess.getConversation(
+        conversationId,
+        tenant
+      );
+      if (!conversationResult.success || !conversationResult.data) {
+        return {
+          success: false,
+          error: conversationResult.error ?? {
+            code: 'CONVERSATION_NOT_FOUND',
+            message: 'Conversation not found',
+          },
+          metadata: metadata(),
+        };
+      }
+
+      // Stream every message, bypassing the message cache
+      const messages: ConversationMessage[] = [];
+      for await (const message of this.dataAccess.streamMessages(
+        conversationId,
+        tenant
+      )) {
+        messages.push(message);
+      }
+
+      const handoffsResult = await this.dataAccess.getAgentHandoffs(
+        conversationId,
+        tenant
+      );
+      const transcript = createTranscript(
+        conversationResult.data,
+        messages,
+        handoffsResult.success && handoffsResult.data
+          ? { handoffs: handoffsResult.data }
+          : {}
+      );
+
+      return {
+        success: true,
+        data: {
+          format,
+          fileName: transcriptFileName(transcript, format),
+          mimeType: TRANSCRIPT_FORMATS[format].mimeType,
+          content: serializeTranscript(transcript, format, options),
+          transcript,
+        },
+        metadata: metadata(),
+      };
+    } catch (error) {
+      this.handleError(error);
+      return {
+        success: false,
+        error: {
+          code: 'EXPORT_CONVERSATION_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        metadata: metadata(),
+      };
+    }
+  }
+
+  /**
+   * Recreate a conversation from a JSON transcript. The new conversation
+   * gets new ids; the originals are kept in `metadata.imported`.
+   */
+  async importConversation(
+    input: string | ConversationTranscript,
+    tenantContext?: TenantContext
+  ): Promise<ConversationOperationResult<TranscriptImport>> {
+    const tenant = this.resolveTenant(tenantContext);
+    const startTime = Date.now();
+    const metadata = () => ({
+      duration: Date.now() - startTime,
+      timestamp: new Date(),
+      operation: 'importConversation',
+    });
+
+    if (!tenant) {
+      return {
+        success: false,
+        error: {
+          code: 'TENANT_CONTEXT_REQUIRED',
+          message: TENANT_REQUIRED_MESSAGE,
+        },
+        metadata: metadata(),
+      };
+    }
+
+    let transcript: ConversationTranscript;
+    try {
+      transcript = parseTranscript(input);
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_TRANSCRIPT',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        metadata: metadata(),
+      };
+    }
+
+    try {
+      const { conversation } = transcript;
+      const created = await this.createConversation(
+        {
+          ...(conversation.title ? { title: conversation.title } : {}),
+          metadata: {
+            ...conversation.metadata,
+            imported: {
+              conversationId: conversation.id,
+              userId: conversation.userId,
+              createdAt: conversation.createdAt,
+              exportedAt: transcript.exportedAt,
+            },
+          },
+        },
+        tenant
+      );
+      if (!created.success || !created.data) {
+        return {
+          success: false,
+          error: created.error ?? {
+            code: 'IMPORT_CONVERSATION_ERROR',
+            message: 'Conversation could not be created',
+          },
+          metadata: metadata(),
+        };
+      }
+
+      const messagesResult = await this.bulkCreateMessages(
+        created.data.id,
+        transcriptToMessageRequests(transcript),
+        tenant
+      );
+      if (!messagesResult.success || !messagesResult.data) {
+        return {
+          success: false,
+          error: messagesResult.error ?? {
+            code: 'IMPORT_CONVERSATION_ERROR',
+            message: 'Messages could not be created',
+          },
+          metadata: metadata(),
+        };
+      }
+
+      for (const handoff of transcript.handoffs) {
+        await this.dataAccess.recordAgentHandoff(
+          created.data.id,
+          handoff.fromAgentId,
+          handoff.toAgentId,
+          handoff.reason,
+          tenant,
+          { ...handoff.context, importedAt: handoff.at }
+        );
+      }
+
+      return {
+        success: true,
+        data: { conversation: created.data, messages: messagesResult.data },
+        metadata: metadata(),
+      };
+    } catch (error) {
+      this.handleError(error);
+      return {
+        success: false,
+        error: {
+          code: 'IMPORT_CONVERSATION_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        metadata: metadata(),
+      };
+    }
+  }
+
+  /**
+   * Tenant context for a call: the one given, or the configured tenant and
+   * user. Null when neither is available.
+   */
+  private resolveTenant(tenantContext?: TenantContext): TenantContext | null {
+    if (tenantContext) return tenantContext;
+    if (!this.config.tenantId || !this.config.userId) return null;
+    return createTenantContext(this.config.tenantId, this.config.userId);
+  }
+
   /**
    * Cache management
    */
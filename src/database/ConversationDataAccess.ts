@@ -2,10 +2,11 @@
  * Conversation Data Access Layer
  *
  * This module provides high-level data access operations for managing conversations,
- * messages, and agent interactions with Supabase and PostgreSQL databases.
+ * messages, and agent interactions. Storage is delegated to a repository for the
+ * connection's provider: PostgreSQL and Supabase, MySQL, or MongoDB.
  */
 
-import type { ConnectionManager, QueryResult } from './ConnectionManager';
+import type { ConnectionManager } from './ConnectionManager';
 import { createDatabaseFromEnv, getGlobalDatabaseManager } from './index';
 import type {
   Conversation,
@@ -22,30 +23,115 @@ import type {
   UpdateConversationRequest,
   CreateMessageRequest,
   SearchConversationsRequest,
-  AgentInfo,
+  AgentHandoffRecord,
 } from '../types/conversation';
-import {
-  ConversationSchema,
-  ConversationIndexes,
-  ConversationFunctions,
-  ConversationTriggers,
-  UtilityFunctions,
-  DefaultAgents,
-} from './ConversationSchema';
+import { DefaultAgents } from './ConversationSchema';
+import { assertTenantContext, type TenantContext } from './TenantContext';
+import { decodeCursor, takeKeysetPage } from './PaginationCursor';
+import type { ConversationRepository } from './ConversationRepository';
+import { PostgresConversationRepository } from './PostgresConversationRepository';
+import { MySQLConversationRepository } from './MySQLConversationRepository';
+import { MongoConversationRepository } from './MongoConversationRepository';
+import { SQLiteConversationRepository } from './SQLiteConversationRepository';
+import { MemoryConversationRepository } from './MemoryConversationRepository';
+
+const MESSAGE_ORDER = 'messages:createdAt:asc';
+const SEARCH_ORDER = 'search:rank:desc';
+
+/**
+ * Page metadata for a keyset-paginated query
+ */
+function pageInfo(
+  pagination: Partial<ConversationPagination>,
+  total: number,
+  page: { hasMore: boolean; nextCursor?: string }
+): ConversationPagination {
+  const pageSize = pagination.pageSize ?? 20;
+  return {
+    page: pagination.page ?? 0,
+    pageSize,
+    ...(pagination.cursor !== undefined ? { cursor: pagination.cursor } : {}),
+    ...(pagination.sort ? { sort: pagination.sort } : {}),
+    ...(page.nextCursor !== undefined ? { nextCursor: page.nextCursor } : {}),
+    hasMore: page.hasMore,
+    total,
+    totalPages: Math.ceil(total / pageSize),
+  };
+}
+
+/**
+ * Create the conversation repository for a connection's provider
+ */
+export function createConversationRepository(
+  connectionManager: ConnectionManager
+): ConversationRepository {
+  const provider = connectionManager.getProvider();
+  switch (provider) {
+    case 'supabase':
+    case 'postgres':
+      return new PostgresConversationRepository(connectionManager);
+    case 'mysql':
+      return new MySQLConversationRepository(connectionManager);
+    case 'sqlite':
+      return new SQLiteConversationRepository(connectionManager);
+    case 'mongodb':
+      return new MongoConversationRepository(() =>
+        connectionManager.getMongoDatabase()
+      );
+    case 'memory':
+      return new MemoryConversationRepository(() =>
+        connectionManager.getMemoryDatabase()
+      );
+    default:
+      throw new Error(`Conversation storage is not supported for ${provider}`);
+  }
+}
+
+/**
+ * Listener notified after a message has been stored
+ */
+export type MessageCreatedListener = (
+  message: ConversationMessage,
+  conversation: Conversation
+) => void;
 
 export class ConversationDataAccess {
   private connectionManager: ConnectionManager;
+  private conversationRepository: ConversationRepository | null;
   private isInitialized = false;
+  private messageListeners = new Set<MessageCreatedListener>();
 
-  constructor(connectionManager?: ConnectionManager) {
+  /**
+   * @param connectionManager - Connection to use; the global one by default
+   * @param repository - Storage to use; by default one for the connection's
+   *   provider, created on first use
+   */
+  constructor(
+    connectionManager?: ConnectionManager,
+    repository?: ConversationRepository
+  ) {
     this.connectionManager =
       connectionManager || getGlobalDatabaseManager().connectionManager;
+    this.conversationRepository = repository ?? null;
+  }
+
+  private get repository(): ConversationRepository {
+    if (!this.conversationRepository) {
+      this.conversationRepository = createConversationRepository(
+        this.connectionManager
+      );
+    }
+    return this.conversationRepository;
   }
 
   /**
-   * Initialize the database schema and indexes
+   * Check that the database schema is up to date and seed default agents.
+   * Pending migrations are only applied when `migrate` is set; otherwise an
+   * out-of-date schema fails with `SCHEMA_OUT_OF_DATE`.
    */
-  async initialize(): Promise<ConversationOperationResult<void>> {
+  async initialize(
+    options: { migrate?: boolean } = {}
+  ): Promise<ConversationOperationResult<void>> {
     const startTime = Date.now();
 
     try {
@@ -60,33 +146,25 @@ export class ConversationDataAccess {
         };
       }
 
-      // Create utility functions first
-      await this.connectionManager.query(UtilityFunctions.updateTimestamp);
-
-      // Create tables
-      for (const [tableName, schema] of Object.entries(ConversationSchema)) {
-        await this.connectionManager.query(schema);
-      }
-
-      // Create indexes
-      for (const indexQuery of ConversationIndexes) {
-        await this.connectionManager.query(indexQuery);
-      }
-
-      // Create functions
-      for (const [functionName, functionQuery] of Object.entries(
-        ConversationFunctions
-      )) {
-        await this.connectionManager.query(functionQuery);
-      }
-
-      // Create triggers
-      for (const triggerQuery of ConversationTriggers) {
-        await this.connectionManager.query(triggerQuery);
+      const readiness = await this.repository.prepare(options);
+      if (!readiness.ready) {
+        return {
+          success: false,
+          error: {
+            code: 'SCHEMA_OUT_OF_DATE',
+            message: readiness.reason,
+            details: readiness.details,
+          },
+          metadata: {
+            duration: Date.now() - startTime,
+            timestamp: new Date(),
+            operation: 'initialize',
+          },
+        };
       }
 
       // Seed default agents
-      await this.seedDefaultAgents();
+      await this.repository.seedAgents(DefaultAgents);
 
       this.isInitialized = true;
 
@@ -116,44 +194,21 @@ export class ConversationDataAccess {
   }
 
   /**
-   * Seed default agents if they don't exist
+   * Subscribe to newly created messages, e.g. to keep a search index
+   * current. Returns an unsubscribe function.
    */
-  private async seedDefaultAgents(): Promise<void> {
-    for (const agent of DefaultAgents) {
-      const existsQuery =
-        'SELECT EXISTS(SELECT 1 FROM conversation_agents WHERE id = $1)';
-      const existsResult = await this.connectionManager.query<{
-        exists: boolean;
-      }>(existsQuery, [agent.id]);
-
-      if (!existsResult.data[0]?.exists) {
-        const insertQuery = `
-          INSERT INTO conversation_agents 
-          (id, name, type, description, capabilities, specialization, model, configuration, color, icon)
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-        `;
-
-        await this.connectionManager.query(insertQuery, [
-          agent.id,
-          agent.name,
-          agent.type,
-          agent.description,
-          agent.capabilities,
-          agent.specialization,
-          agent.model,
-          JSON.stringify(agent.configuration),
-          agent.color,
-          agent.icon,
-        ]);
-      }
-    }
+  onMessageCreated(listener: MessageCreatedListener): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
   }
 
   /**
    * Create a new conversation
    */
   async createConversation(
-    userId: string,
+    context: TenantContext,
     request: CreateConversationRequest
   ): Promise<ConversationOperationResult<Conversation>> {
     const startTime = Date.now();
@@ -161,12 +216,6 @@ export class ConversationDataAccess {
     try {
       const conversationId = `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-      const query = `
-        INSERT INTO conversations (id, user_id, title, current_agent_id, participating_agents, metadata, created_by)
-        VALUES ($1, $2, $3, $4, $5, $6, $7)
-        RETURNING *
-      `;
-
       const participatingAgents = request.agentId ? [request.agentId] : [];
       const metadata = {
         messageCount: 0,
@@ -186,15 +235,13 @@ export class ConversationDataAccess {
         ...request.metadata,
       };
 
-      const result = await this.connectionManager.query<Conversation>(query, [
-        conversationId,
-        userId,
-        request.title || null,
-        request.agentId || null,
+      const conversation = await this.repository.insertConversation(context, {
+        id: conversationId,
+        title: request.title || null,
+        currentAgentId: request.agentId || null,
         participatingAgents,
-        JSON.stringify(metadata),
-        userId,
-      ]);
+        metadata,
+      });
 
       // Add initial message if provided
       if (request.initialMessage) {
@@ -205,15 +252,13 @@ export class ConversationDataAccess {
             content: request.initialMessage,
             metadata: { isInitialMessage: true },
           },
-          userId
+          context
         );
       }
 
-      const conversation = result.data[0];
-
       return {
         success: true,
-        data: this.transformConversationRow(conversation),
+        data: conversation,
         metadata: {
           duration: Date.now() - startTime,
           timestamp: new Date(),
@@ -242,28 +287,23 @@ export class ConversationDataAccess {
    */
   async getConversation(
     conversationId: string,
-    userId: string
+    context: TenantContext
   ): Promise<ConversationOperationResult<Conversation>> {
     const startTime = Date.now();
 
     try {
-      const query = `
-        SELECT * FROM conversations 
-        WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL
-      `;
-
-      const result = await this.connectionManager.query<Conversation>(query, [
-        conversationId,
-        userId,
-      ]);
+      const conversation = await this.repository.findConversation(
+        context,
+        conversationId
+      );
 
-      if (result.data.length === 0) {
+      if (!conversation) {
         return {
           success: false,
           error: {
             code: 'CONVERSATION_NOT_FOUND',
             message: 'Conversation not found',
-            details: { conversationId, userId },
+            details: { conversationId, ...context },
           },
           metadata: {
             duration: Date.now() - startTime,
@@ -275,7 +315,7 @@ export class ConversationDataAccess {
 
       return {
         success: true,
-        data: this.transformConversationRow(result.data[0]),
+        data: conversation,
         metadata: {
           duration: Date.now() - startTime,
           timestamp: new Date(),
@@ -304,59 +344,25 @@ export class ConversationDataAccess {
    */
   async updateConversation(
     conversationId: string,
-    userId: string,
+    context: TenantContext,
     updates: UpdateConversationRequest
   ): Promise<ConversationOperationResult<Conversation>> {
     const startTime = Date.now();
 
     try {
-      const setClauses = [];
-      const values = [];
-      let paramIndex = 1;
-
-      if (updates.title !== undefined) {
-        setClauses.push(`title = $${paramIndex++}`);
-        values.push(updates.title);
-      }
-
-      if (updates.status !== undefined) {
-        setClauses.push(`status = $${paramIndex++}`);
-        values.push(updates.status);
-
-        if (updates.status === 'deleted') {
-          setClauses.push(`deleted_at = NOW()`);
-        }
-      }
-
-      if (updates.metadata !== undefined) {
-        setClauses.push(`metadata = metadata || $${paramIndex++}::jsonb`);
-        values.push(JSON.stringify(updates.metadata));
-      }
-
-      setClauses.push(`updated_by = $${paramIndex++}`);
-      values.push(userId);
-
-      values.push(conversationId, userId);
-
-      const query = `
-        UPDATE conversations 
-        SET ${setClauses.join(', ')} 
-        WHERE id = $${paramIndex++} AND user_id = $${paramIndex++} AND deleted_at IS NULL
-        RETURNING *
-      `;
-
-      const result = await this.connectionManager.query<Conversation>(
-        query,
-        values
+      const conversation = await this.repository.updateConversation(
+        context,
+        conversationId,
+        updates
       );
 
-      if (result.data.length === 0) {
+      if (!conversation) {
         return {
           success: false,
           error: {
             code: 'CONVERSATION_NOT_FOUND',
             message: 'Conversation not found or already deleted',
-            details: { conversationId, userId },
+            details: { conversationId, ...context },
           },
           metadata: {
             duration: Date.now() - startTime,
@@ -368,7 +374,7 @@ export class ConversationDataAccess {
 
       return {
         success: true,
-        data: this.transformConversationRow(result.data[0]),
+        data: conversation,
         metadata: {
           duration: Date.now() - startTime,
           timestamp: new Date(),
@@ -396,114 +402,46 @@ export class ConversationDataAccess {
    * List conversations with filtering and pagination
    */
   async listConversations(
-    userId: string,
+    context: TenantContext,
     filter: ConversationFilter = {},
     pagination: ConversationPagination = { page: 0, pageSize: 20 }
   ): Promise<ConversationQueryResult<ConversationListItem>> {
     const startTime = Date.now();
 
     try {
-      const whereConditions = ['user_id = $1', 'deleted_at IS NULL'];
-      const values: any[] = [userId];
-      let paramIndex = 2;
-
-      // Apply filters
-      if (filter.status) {
-        whereConditions.push(`status = $${paramIndex++}`);
-        values.push(filter.status);
-      }
+      const total = await this.repository.countConversations(context, filter);
 
-      if (filter.agentId) {
-        whereConditions.push(`$${paramIndex++} = ANY(participating_agents)`);
-        values.push(filter.agentId);
-      }
-
-      if (filter.dateRange) {
-        if (filter.dateRange.start) {
-          whereConditions.push(`created_at >= $${paramIndex++}`);
-          values.push(filter.dateRange.start);
-        }
-        if (filter.dateRange.end) {
-          whereConditions.push(`created_at <= $${paramIndex++}`);
-          values.push(filter.dateRange.end);
-        }
-      }
-
-      if (filter.tags && filter.tags.length > 0) {
-        whereConditions.push(`metadata->'tags' ?| $${paramIndex++}`);
-        values.push(filter.tags);
-      }
-
-      if (filter.search) {
-        whereConditions.push(`(title ILIKE $${paramIndex++} OR id IN (
-          SELECT DISTINCT conversation_id FROM conversation_search_cache 
-          WHERE search_vector @@ plainto_tsquery('english', $${paramIndex++})
-        ))`);
-        values.push(`%${filter.search}%`, filter.search);
-        paramIndex += 2;
-      }
-
-      if (filter.messageCountRange) {
-        if (filter.messageCountRange.min !== undefined) {
-          whereConditions.push(`message_count >= $${paramIndex++}`);
-          values.push(filter.messageCountRange.min);
-        }
-        if (filter.messageCountRange.max !== undefined) {
-          whereConditions.push(`message_count <= $${paramIndex++}`);
-          values.push(filter.messageCountRange.max);
+      // Read one row past the page, seeking past the cursor when there is one
+      const sortField = pagination.sort?.field || 'updatedAt';
+      const sortDirection = pagination.sort?.direction || 'desc';
+      const order = `conversations:${sortField}:${sortDirection}`;
+
+      const rows = await this.repository.listConversations(
+        context,
+        filter,
+        { field: sortField, direction: sortDirection },
+        {
+          limit: pagination.pageSize + 1,
+          offset: pagination.cursor ? 0 : pagination.page * pagination.pageSize,
+          ...(pagination.cursor
+            ? { after: decodeCursor(pagination.cursor, order, 2) }
+            : {}),
         }
-      }
-
-      // Count query
-      const countQuery = `
-        SELECT COUNT(*) as total 
-        FROM conversations 
-        WHERE ${whereConditions.join(' AND ')}
-      `;
-
-      const countResult = await this.connectionManager.query<{ total: number }>(
-        countQuery,
-        values
       );
-      const total = parseInt(countResult.data[0]?.total?.toString() || '0');
-
-      // Main query with sorting and pagination
-      const sortField = pagination.sort?.field || 'updated_at';
-      const sortDirection = pagination.sort?.direction || 'desc';
-      const offset = pagination.page * pagination.pageSize;
-
-      const dataQuery = `
-        SELECT 
-          id, title, created_at, updated_at, status, current_agent_id, participating_agents,
-          message_count, last_message_at, total_tokens,
-          (SELECT content FROM messages WHERE conversation_id = conversations.id ORDER BY created_at DESC LIMIT 1) as last_message_preview
-        FROM conversations 
-        WHERE ${whereConditions.join(' AND ')}
-        ORDER BY ${sortField} ${sortDirection.toUpperCase()}
-        LIMIT $${paramIndex++} OFFSET $${paramIndex++}
-      `;
-
-      values.push(pagination.pageSize, offset);
-
-      const dataResult =
-        await this.connectionManager.query<ConversationListItem>(
-          dataQuery,
-          values
-        );
+      const page = takeKeysetPage(
+        rows,
+        pagination.pageSize,
+        order,
+        (row) => row.key
+      );
 
       return {
-        data: dataResult.data.map((row) =>
-          this.transformConversationListRow(row)
-        ),
-        pagination: {
-          ...pagination,
-          total,
-          totalPages: Math.ceil(total / pagination.pageSize),
-        },
+        data: page.rows.map(({ row }) => row),
+        pagination: pageInfo(pagination, total, page),
         metadata: {
           totalResults: total,
           queryTime: Date.now() - startTime,
-          fromCache: dataResult.metadata?.fromCache || false,
+          fromCache: false,
         },
       };
     } catch (error) {
@@ -519,7 +457,7 @@ export class ConversationDataAccess {
   async createMessage(
     conversationId: string,
     request: CreateMessageRequest,
-    userId: string
+    context: TenantContext
   ): Promise<ConversationOperationResult<ConversationMessage>> {
     const startTime = Date.now();
 
@@ -527,7 +465,7 @@ export class ConversationDataAccess {
       // Verify conversation exists and user has access
       const conversationResult = await this.getConversation(
         conversationId,
-        userId
+        context
       );
       if (!conversationResult.success) {
         return conversationResult as ConversationOperationResult<ConversationMessage>;
@@ -535,48 +473,35 @@ export class ConversationDataAccess {
 
       const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-      const query = `
-        INSERT INTO messages (id, conversation_id, role, content, agent_id, metadata, created_by)
-        VALUES ($1, $2, $3, $4, $5, $6, $7)
-        RETURNING *
-      `;
-
-      const result = await this.connectionManager.query<ConversationMessage>(
-        query,
-        [
-          messageId,
-          conversationId,
-          request.role,
-          request.content,
-          request.agentId || null,
-          JSON.stringify(request.metadata || {}),
-          userId,
-        ]
-      );
+      const message = await this.repository.insertMessage(context, {
+        id: messageId,
+        conversationId,
+        role: request.role,
+        content: request.content,
+        agentId: request.agentId || null,
+        metadata: request.metadata || {},
+      });
 
       // Update conversation's participating agents if this is from a new agent
       if (request.agentId && request.role === 'assistant') {
-        await this.connectionManager.query(
-          `
-          UPDATE conversations 
-          SET 
-            participating_agents = array_append(
-              CASE WHEN participating_agents @> ARRAY[$1]::text[] 
-              THEN participating_agents 
-              ELSE participating_agents || ARRAY[$1]::text[] 
-              END, 
-              $1
-            ),
-            current_agent_id = $1
-          WHERE id = $2
-        `,
-          [request.agentId, conversationId]
+        await this.repository.setCurrentAgent(
+          context,
+          conversationId,
+          request.agentId
         );
       }
 
+      for (const listener of this.messageListeners) {
+        try {
+          listener(message, conversationResult.data!);
+        } catch (error) {
+          console.error('Message listener error:', error);
+        }
+      }
+
       return {
         success: true,
-        data: this.transformMessageRow(result.data[0]),
+        data: message,
         metadata: {
           duration: Date.now() - startTime,
           timestamp: new Date(),
@@ -605,7 +530,7 @@ export class ConversationDataAccess {
    */
   async getMessages(
     conversationId: string,
-    userId: string,
+    context: TenantContext,
     pagination: ConversationPagination = { page: 0, pageSize: 50 }
   ): Promise<ConversationQueryResult<ConversationMessage>> {
     const startTime = Date.now();
@@ -614,55 +539,38 @@ export class ConversationDataAccess {
       // Verify user has access to conversation
       const conversationResult = await this.getConversation(
         conversationId,
-        userId
+        context
       );
       if (!conversationResult.success) {
         throw new Error('Conversation not found or access denied');
       }
 
-      // Count total messages
-      const countQuery =
-        'SELECT COUNT(*) as total FROM messages WHERE conversation_id = $1';
-      const countResult = await this.connectionManager.query<{ total: number }>(
-        countQuery,
-        [conversationId]
+      const total = await this.repository.countMessages(
+        context,
+        conversationId
       );
-      const total = parseInt(countResult.data[0]?.total?.toString() || '0');
-
-      // Get messages with pagination
-      const offset = pagination.page * pagination.pageSize;
-      const messagesQuery = `
-        SELECT m.*, ca.name as agent_name, ca.type as agent_type, ca.color as agent_color
-        FROM messages m
-        LEFT JOIN conversation_agents ca ON m.agent_id = ca.id
-        WHERE m.conversation_id = $1
-        ORDER BY m.sequence_number ASC
-        LIMIT $2 OFFSET $3
-      `;
-
-      const messagesResult = await this.connectionManager.query<
-        ConversationMessage & {
-          agent_name?: string;
-          agent_type?: string;
-          agent_color?: string;
-        }
-      >(messagesQuery, [conversationId, pagination.pageSize, offset]);
 
-      const messages = messagesResult.data.map((row) =>
-        this.transformMessageRow(row)
+      const rows = await this.repository.listMessages(context, conversationId, {
+        limit: pagination.pageSize + 1,
+        offset: pagination.cursor ? 0 : pagination.page * pagination.pageSize,
+        ...(pagination.cursor
+          ? { after: decodeCursor(pagination.cursor, MESSAGE_ORDER, 2) }
+          : {}),
+      });
+      const page = takeKeysetPage(
+        rows,
+        pagination.pageSize,
+        MESSAGE_ORDER,
+        (row) => row.key
       );
 
       return {
-        data: messages,
-        pagination: {
-          ...pagination,
-          total,
-          totalPages: Math.ceil(total / pagination.pageSize),
-        },
+        data: page.rows.map(({ row }) => row),
+        pagination: pageInfo(pagination, total, page),
         metadata: {
           totalResults: total,
           queryTime: Date.now() - startTime,
-          fromCache: messagesResult.metadata?.fromCache || false,
+          fromCache: false,
         },
       };
     } catch (error) {
@@ -672,11 +580,53 @@ export class ConversationDataAccess {
     }
   }
 
+  /**
+   * Stream every message of a conversation in order, reading `batchSize`
+   * rows at a time so exports and analytics jobs never hold the whole
+   * conversation in memory. `after` resumes from a `getMessages` cursor.
+   */
+  async *streamMessages(
+    conversationId: string,
+    context: TenantContext,
+    options: { batchSize?: number; after?: string } = {}
+  ): AsyncGenerator<ConversationMessage, void, undefined> {
+    const batchSize = options.batchSize ?? 500;
+
+    assertTenantContext(context);
+    const conversationResult = await this.getConversation(
+      conversationId,
+      context
+    );
+    if (!conversationResult.success) {
+      throw new Error(
+        'Stream messages failed: Conversation not found or access denied'
+      );
+    }
+
+    let after = options.after
+      ? decodeCursor(options.after, MESSAGE_ORDER, 2)
+      : undefined;
+    for (;;) {
+      const rows = await this.repository.listMessages(context, conversationId, {
+        limit: batchSize,
+        offset: 0,
+        ...(after ? { after } : {}),
+      });
+      for (const { row } of rows) {
+        yield row;
+      }
+
+      const last = rows[rows.length - 1];
+      if (!last || rows.length < batchSize) return;
+      after = last.key;
+    }
+  }
+
   /**
    * Search conversations and messages
    */
   async searchConversations(
-    userId: string,
+    context: TenantContext,
     request: SearchConversationsRequest
   ): Promise<ConversationQueryResult<ConversationSearchResult>> {
     const startTime = Date.now();
@@ -689,120 +639,66 @@ export class ConversationDataAccess {
         includeMessageContent = true,
       } = request;
 
-      const whereConditions = ['c.user_id = $1', 'c.deleted_at IS NULL'];
-      const values: any[] = [userId];
-      let paramIndex = 2;
-
-      // Add search condition
-      whereConditions.push(`(
-        c.title ILIKE $${paramIndex++} OR 
-        EXISTS (
-          SELECT 1 FROM conversation_search_cache csc 
-          WHERE csc.conversation_id = c.id 
-          AND csc.search_vector @@ plainto_tsquery('english', $${paramIndex++})
-        )
-      )`);
-      values.push(`%${query}%`, query);
-      paramIndex += 2;
-
-      // Apply additional filters
-      if (filters.status) {
-        whereConditions.push(`c.status = $${paramIndex++}`);
-        values.push(filters.status);
-      }
-
-      if (filters.agentId) {
-        whereConditions.push(`$${paramIndex++} = ANY(c.participating_agents)`);
-        values.push(filters.agentId);
-      }
+      const total = await this.repository.countSearchResults(
+        context,
+        query,
+        filters
+      );
 
-      if (filters.dateRange) {
-        if (filters.dateRange.start) {
-          whereConditions.push(`c.created_at >= $${paramIndex++}`);
-          values.push(filters.dateRange.start);
-        }
-        if (filters.dateRange.end) {
-          whereConditions.push(`c.created_at <= $${paramIndex++}`);
-          values.push(filters.dateRange.end);
+      // Ranked search, seeking past the cursor when there is one
+      const pageSize = pagination.pageSize ?? 20;
+      const rows = await this.repository.searchConversations(
+        context,
+        query,
+        filters,
+        {
+          limit: pageSize + 1,
+          offset: pagination.cursor ? 0 : (pagination.page ?? 0) * pageSize,
+          ...(pagination.cursor
+            ? { after: decodeCursor(pagination.cursor, SEARCH_ORDER, 3) }
+            : {}),
         }
-      }
-
-      // Count query
-      const countQuery = `
-        SELECT COUNT(DISTINCT c.id) as total 
-        FROM conversations c 
-        WHERE ${whereConditions.join(' AND ')}
-      `;
-
-      const countResult = await this.connectionManager.query<{ total: number }>(
-        countQuery,
-        values
       );
-      const total = parseInt(countResult.data[0]?.total?.toString() || '0');
-
-      // Main search query
-      const offset = pagination.page * pagination.pageSize;
-      const searchQuery = `
-        SELECT DISTINCT 
-          c.id, c.title, c.created_at, c.updated_at, c.status, 
-          c.current_agent_id, c.participating_agents, c.message_count, 
-          c.last_message_at, c.total_tokens,
-          ts_rank(csc.search_vector, plainto_tsquery('english', $${paramIndex})) as rank
-        FROM conversations c
-        LEFT JOIN conversation_search_cache csc ON c.id = csc.conversation_id
-        WHERE ${whereConditions.join(' AND ')}
-        ORDER BY rank DESC, c.updated_at DESC
-        LIMIT $${paramIndex + 1} OFFSET $${paramIndex + 2}
-      `;
-
-      values.push(query, pagination.pageSize, offset);
-
-      const searchResult = await this.connectionManager.query<
-        ConversationListItem & { rank: number }
-      >(searchQuery, values);
+      const page = takeKeysetPage(
+        rows,
+        pageSize,
+        SEARCH_ORDER,
+        (row) => row.key
+      );
 
       // Get matching messages for each conversation if requested
       const results: ConversationSearchResult[] = [];
 
-      for (const conversationRow of searchResult.data) {
-        const conversation = this.transformConversationListRow(conversationRow);
+      for (const {
+        row: { conversation, rank },
+      } of page.rows) {
         let matchingMessages: ConversationSearchResult['messages'] = [];
 
         if (includeMessageContent) {
-          const messageSearchQuery = `
-            SELECT m.*, ts_rank(m.search_vector, plainto_tsquery('english', $1)) as score
-            FROM messages m
-            WHERE m.conversation_id = $2 
-            AND m.search_vector @@ plainto_tsquery('english', $1)
-            ORDER BY score DESC
-            LIMIT 5
-          `;
-
-          const messageResult = await this.connectionManager.query<
-            ConversationMessage & { score: number }
-          >(messageSearchQuery, [query, conversation.id]);
-
-          matchingMessages = messageResult.data.map((msgRow) => ({
-            message: this.transformMessageRow(msgRow),
-            score: msgRow.score || 0,
-            highlights: this.extractHighlights(msgRow.content, query),
+          const messages = await this.repository.searchMessages(
+            context,
+            conversation.id,
+            query,
+            5
+          );
+
+          matchingMessages = messages.map(({ message, score }) => ({
+            message,
+            score,
+            highlights: this.extractHighlights(message.content, query),
           }));
         }
 
         results.push({
           conversation,
           messages: matchingMessages,
-          totalScore: conversationRow.rank || 0,
+          totalScore: rank,
         });
       }
 
       return {
         data: results,
-        pagination: {
-          ...pagination,
-          total,
-          totalPages: Math.ceil(total / pagination.pageSize),
-        },
+        pagination: pageInfo(pagination, total, page),
         metadata: {
           totalResults: total,
           queryTime: Date.now() - startTime,
@@ -820,87 +716,12 @@ export class ConversationDataAccess {
    * Get conversation statistics for a user
    */
   async getConversationStats(
-    userId: string
+    context: TenantContext
   ): Promise<ConversationOperationResult<ConversationStats>> {
     const startTime = Date.now();
 
     try {
-      const query = `
-        WITH conversation_stats AS (
-          SELECT 
-            COUNT(*) as total_conversations,
-            COUNT(CASE WHEN status = 'active' THEN 1 END) as active_conversations,
-            COUNT(CASE WHEN status = 'archived' THEN 1 END) as archived_conversations,
-            COUNT(CASE WHEN created_at > NOW() - INTERVAL '7 days' THEN 1 END) as recent_conversations,
-            SUM(message_count) as total_messages,
-            SUM(total_tokens) as total_tokens,
-            AVG(message_count) as avg_messages_per_conversation
-          FROM conversations 
-          WHERE user_id = $1 AND deleted_at IS NULL
-        ),
-        recent_activity AS (
-          SELECT 
-            COUNT(DISTINCT c.id) as conversations_last_7_days,
-            COUNT(m.id) as messages_last_7_days,
-            SUM(m.tokens) as tokens_last_7_days
-          FROM conversations c
-          LEFT JOIN messages m ON c.id = m.conversation_id AND m.created_at > NOW() - INTERVAL '7 days'
-          WHERE c.user_id = $1 AND c.deleted_at IS NULL
-        ),
-        agent_usage AS (
-          SELECT 
-            unnest(participating_agents) as agent_id,
-            COUNT(*) as conversation_count
-          FROM conversations 
-          WHERE user_id = $1 AND deleted_at IS NULL
-          GROUP BY agent_id
-          ORDER BY conversation_count DESC
-          LIMIT 1
-        ),
-        performance_stats AS (
-          SELECT AVG(metric_value) as avg_response_time
-          FROM conversation_analytics ca
-          JOIN conversations c ON ca.conversation_id = c.id
-          WHERE c.user_id = $1 AND ca.metric_type = 'response_time'
-        )
-        SELECT 
-          cs.*,
-          ra.conversations_last_7_days,
-          ra.messages_last_7_days,
-          ra.tokens_last_7_days,
-          au.agent_id as most_used_agent_id,
-          au.conversation_count as most_used_agent_count,
-          ps.avg_response_time
-        FROM conversation_stats cs
-        CROSS JOIN recent_activity ra
-        LEFT JOIN agent_usage au ON true
-        LEFT JOIN performance_stats ps ON true
-      `;
-
-      const result = await this.connectionManager.query<any>(query, [userId]);
-      const row = result.data[0] || {};
-
-      const stats: ConversationStats = {
-        totalConversations: parseInt(row.total_conversations) || 0,
-        activeConversations: parseInt(row.active_conversations) || 0,
-        archivedConversations: parseInt(row.archived_conversations) || 0,
-        totalMessages: parseInt(row.total_messages) || 0,
-        totalTokens: parseInt(row.total_tokens) || 0,
-        averageMessagesPerConversation:
-          parseFloat(row.avg_messages_per_conversation) || 0,
-        averageResponseTime: parseFloat(row.avg_response_time) || 0,
-        mostUsedAgent: row.most_used_agent_id
-          ? {
-              agentId: row.most_used_agent_id,
-              messageCount: parseInt(row.most_used_agent_count) || 0,
-            }
-          : undefined,
-        recentActivity: {
-          conversationsLast7Days: parseInt(row.conversations_last_7_days) || 0,
-          messagesLast7Days: parseInt(row.messages_last_7_days) || 0,
-          tokensLast7Days: parseInt(row.tokens_last_7_days) || 0,
-        },
-      };
+      const stats = await this.repository.getStats(context);
 
       return {
         success: true,
@@ -936,51 +757,31 @@ export class ConversationDataAccess {
     fromAgentId: string | null,
     toAgentId: string,
     reason: string,
-    userId: string,
+    context: TenantContext,
     sharedContext?: Record<string, any>
   ): Promise<ConversationOperationResult<void>> {
     const startTime = Date.now();
 
     try {
-      const handoffId = `handoff_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const conversationResult = await this.getConversation(
+        conversationId,
+        context
+      );
+      if (!conversationResult.success) {
+        throw new Error('Conversation not found or access denied');
+      }
 
-      const query = `
-        INSERT INTO agent_handoffs 
-        (id, conversation_id, from_agent_id, to_agent_id, reason, shared_context, created_at)
-        VALUES ($1, $2, $3, $4, $5, $6, NOW())
-      `;
+      const handoffId = `handoff_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-      await this.connectionManager.query(query, [
-        handoffId,
+      // Also makes the receiving agent current and counts the handoff
+      await this.repository.insertHandoff(context, {
+        id: handoffId,
         conversationId,
         fromAgentId,
         toAgentId,
         reason,
-        JSON.stringify(sharedContext || {}),
-      ]);
-
-      // Update conversation's current agent and participating agents
-      await this.connectionManager.query(
-        `
-        UPDATE conversations 
-        SET 
-          current_agent_id = $1,
-          participating_agents = array_append(
-            CASE WHEN participating_agents @> ARRAY[$1]::text[] 
-            THEN participating_agents 
-            ELSE participating_agents || ARRAY[$1]::text[] 
-            END, 
-            $1
-          ),
-          metadata = jsonb_set(
-            metadata,
-            '{performance,handoffCount}',
-            COALESCE((metadata->'performance'->>'handoffCount')::int + 1, 1)::text::jsonb
-          )
-        WHERE id = $2
-      `,
-        [toAgentId, conversationId]
-      );
+        ...(sharedContext ? { sharedContext } : {}),
+      });
 
       return {
         success: true,
@@ -1008,84 +809,52 @@ export class ConversationDataAccess {
   }
 
   /**
-   * Transform database row to Conversation object
+   * Get agent handoffs for a conversation in chronological order
    */
-  private transformConversationRow(row: any): Conversation {
-    return {
-      id: row.id,
-      userId: row.user_id,
-      title: row.title,
-      createdAt: new Date(row.created_at),
-      updatedAt: new Date(row.updated_at),
-      deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
-      status: row.status,
-      currentAgentId: row.current_agent_id,
-      participatingAgents: row.participating_agents || [],
-      metadata: {
-        messageCount: row.message_count || 0,
-        lastMessageAt: row.last_message_at
-          ? new Date(row.last_message_at)
-          : undefined,
-        totalTokens: row.total_tokens || 0,
-        ...((typeof row.metadata === 'string'
-          ? JSON.parse(row.metadata)
-          : row.metadata) || {}),
-      },
-    };
-  }
+  async getAgentHandoffs(
+    conversationId: string,
+    context: TenantContext
+  ): Promise<ConversationOperationResult<AgentHandoffRecord[]>> {
+    const startTime = Date.now();
 
-  /**
-   * Transform database row to ConversationListItem object
-   */
-  private transformConversationListRow(row: any): ConversationListItem {
-    return {
-      id: row.id,
-      title: row.title,
-      createdAt: new Date(row.created_at),
-      updatedAt: new Date(row.updated_at),
-      status: row.status,
-      messageCount: row.message_count || 0,
-      lastMessageAt: row.last_message_at
-        ? new Date(row.last_message_at)
-        : undefined,
-      lastMessagePreview: row.last_message_preview,
-      currentAgentId: row.current_agent_id,
-      participatingAgents: row.participating_agents || [],
-      totalTokens: row.total_tokens || 0,
-    };
-  }
+    try {
+      const conversationResult = await this.getConversation(
+        conversationId,
+        context
+      );
+      if (!conversationResult.success) {
+        throw new Error('Conversation not found or access denied');
+      }
 
-  /**
-   * Transform database row to ConversationMessage object
-   */
-  private transformMessageRow(row: any): ConversationMessage {
-    const agentInfo: AgentInfo | undefined = row.agent_id
-      ? {
-          id: row.agent_id,
-          name: row.agent_name || 'Unknown Agent',
-          type: row.agent_type || 'general',
-          capabilities: [],
-          metadata: row.agent_color ? { color: row.agent_color } : undefined,
-        }
-      : undefined;
+      const handoffs = await this.repository.listHandoffs(
+        context,
+        conversationId
+      );
 
-    return {
-      id: row.id,
-      conversationId: row.conversation_id,
-      role: row.role,
-      content: row.content,
-      agentId: row.agent_id,
-      agentInfo,
-      createdAt: new Date(row.created_at),
-      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
-      tokens: row.tokens,
-      model: row.model,
-      status: row.status || 'completed',
-      metadata:
-        typeof row.metadata === 'string'
-          ? JSON.parse(row.metadata || '{}')
-          : row.metadata || {},
-    };
+      return {
+        success: true,
+        data: handoffs,
+        metadata: {
+          duration: Date.now() - startTime,
+          timestamp: new Date(),
+          operation: 'getAgentHandoffs',
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'GET_HANDOFFS_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown error',
+          details: error,
+        },
+        metadata: {
+          duration: Date.now() - startTime,
+          timestamp: new Date(),
+          operation: 'getAgentHandoffs',
+        },
+      };
+    }
   }
 
   /**
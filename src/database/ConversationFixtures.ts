@@ -0,0 +1,193 @@
+/**
+ * Conversation Fixtures
+ *
+ * Sample conversations for demos and tests, spread across the default
+ * agents so that listing, search, statistics and handoffs all have data
+ * to show. Seeding goes through ConversationDataAccess, so it works the
+ * same against every backend.
+ */
+
+import type { ConversationDataAccess } from './ConversationDataAccess';
+import type {
+  Conversation,
+  ConversationMessage,
+  ConversationOperationResult,
+} from '../types/conversation';
+import type { AgentSeed } from './ConversationRepository';
+import type { TenantContext } from './TenantContext';
+
+type AgentId = AgentSeed['id'];
+
+interface FixtureConversation {
+  title: string;
+  agentId: AgentId;
+  tags: string[];
+  messages: Array<{
+    role: ConversationMessage['role'];
+    content: string;
+    agentId?: AgentId;
+  }>;
+  handoff?: { toAgentId: AgentId; reason: string };
+  archived?: boolean;
+}
+
+const FIXTURE_CONVERSATIONS: readonly FixtureConversation[] = [
+  {
+    title: 'Refund for a duplicate charge',
+    agentId: 'general-assistant',
+    tags: ['billing'],
+    messages: [
+      {
+        role: 'user',
+        content: 'I was charged twice this month and would like a refund.',
+      },
+      {
+        role: 'assistant',
+        content:
+          'Sorry about that. I can see both charges and have requested a refund for the duplicate.',
+        agentId: 'general-assistant',
+      },
+    ],
+  },
+  {
+    title: 'Fixing a failing build',
+    agentId: 'general-assistant',
+    tags: ['engineering'],
+    messages: [
+      {
+        role: 'user',
+        content: 'Our TypeScript build fails with "Cannot find module".',
+      },
+      {
+        role: 'assistant',
+        content:
+          'Check that the module is listed in package.json and that moduleResolution matches your bundler.',
+        agentId: 'code-specialist',
+      },
+    ],
+    handoff: { toAgentId: 'code-specialist', reason: 'Needs debugging' },
+  },
+  {
+    title: 'Market research on embedded databases',
+    agentId: 'research-analyst',
+    tags: ['research'],
+    messages: [
+      {
+        role: 'user',
+        content: 'Compare SQLite and in-memory stores for local development.',
+      },
+      {
+        role: 'assistant',
+        content:
+          'SQLite persists to a single file and speaks SQL; in-memory stores are faster but lose data on restart.',
+        agentId: 'research-analyst',
+      },
+    ],
+  },
+  {
+    title: 'Launch announcement draft',
+    agentId: 'creative-writer',
+    tags: ['marketing'],
+    messages: [
+      {
+        role: 'user',
+        content: 'Draft a short announcement for our new release.',
+      },
+      {
+        role: 'assistant',
+        content:
+          'Meet the release that keeps your conversations wherever you need them.',
+        agentId: 'creative-writer',
+      },
+    ],
+    archived: true,
+  },
+];
+
+/**
+ * Conversations created by seedConversationFixtures, with their messages
+ */
+export interface ConversationFixtures {
+  conversations: Array<{
+    conversation: Conversation;
+    messages: ConversationMessage[];
+  }>;
+}
+
+/**
+ * The data of a successful operation, or its error thrown
+ */
+function unwrap<T>(result: ConversationOperationResult<T>): T {
+  if (!result.success) {
+    throw new Error(
+      `Seeding conversation fixtures failed: ${result.error?.message}`
+    );
+  }
+  return result.data as T;
+}
+
+/**
+ * Initialize storage, which seeds the default agents, and create the sample
+ * conversations for a tenant user
+ */
+export async function seedConversationFixtures(
+  dataAccess: ConversationDataAccess,
+  context: TenantContext
+): Promise<ConversationFixtures> {
+  unwrap(await dataAccess.initialize({ migrate: true }));
+
+  const conversations: ConversationFixtures['conversations'] = [];
+  for (const fixture of FIXTURE_CONVERSATIONS) {
+    const created = unwrap(
+      await dataAccess.createConversation(context, {
+        title: fixture.title,
+        agentId: fixture.agentId,
+        metadata: { tags: fixture.tags },
+      })
+    );
+
+    if (fixture.handoff) {
+      unwrap(
+        await dataAccess.recordAgentHandoff(
+          created.id,
+          fixture.agentId,
+          fixture.handoff.toAgentId,
+          fixture.handoff.reason,
+          context
+        )
+      );
+    }
+
+    const messages: ConversationMessage[] = [];
+    for (const message of fixture.messages) {
+      messages.push(
+        unwrap(
+          await dataAccess.createMessage(
+            created.id,
+            {
+              role: message.role,
+              content: message.content,
+              ...(message.agentId ? { agentId: message.agentId } : {}),
+            },
+            context
+          )
+        )
+      );
+    }
+
+    if (fixture.archived) {
+      unwrap(
+        await dataAccess.updateConversation(created.id, context, {
+          status: 'archived',
+        })
+      );
+    }
+
+    const conversation = unwrap(
+      await dataAccess.getConversation(created.id, context)
+    );
+    conversations.push({ conversation, messages });
+  }
+
+  return { conversations };
+}
@@ -0,0 +1,871 @@
+/**
+ * Conversation Database Migrations
+ *
+ * Versioned schema changes for the conversation database, applied in order by
+ * the `MigrationRunner`. Migrations that have been released must never be
+ * edited: add a new migration instead, otherwise checksum verification will
+ * refuse to run against databases that applied the original.
+ */
+
+import type { SchemaMigration } from './SchemaMigrations';
+
+/**
+ * Triggers created by the initial schema, with the table they belong to
+ */
+const PostgresTriggerTables = [
+  ['trigger_update_conversation_metadata', 'messages'],
+  ['trigger_update_search_cache', 'messages'],
+  ['trigger_track_agent_performance', 'messages'],
+  ['trigger_conversations_updated_at', 'conversations'],
+  ['trigger_messages_updated_at', 'messages'],
+  ['trigger_agents_updated_at', 'conversation_agents'],
+] as const;
+
+/**
+ * Tables in dependency order; dropped in reverse
+ */
+const ConversationTables = [
+  'conversations',
+  'messages',
+  'conversation_attachments',
+  'conversation_agents',
+  'agent_handoffs',
+  'conversation_search_cache',
+  'conversation_analytics',
+] as const;
+
+const dropTables = (suffix = '') =>
+  [...ConversationTables]
+    .reverse()
+    .map((table) => `DROP TABLE IF EXISTS ${table}${suffix};`);
+
+/**
+ * Initial schema, as previously created by `ConversationDataAccess.initialize`.
+ * The SQL is a frozen copy: later changes to `ConversationSchema` ship as new
+ * migrations.
+ */
+const initialSchema: SchemaMigration = {
+  version: 1,
+  name: 'initial_schema',
+  up: {
+    postgres: [
+      `
+    CREATE OR REPLACE FUNCTION update_updated_at_column()
+    RETURNS TRIGGER AS $$
+    BEGIN
+        NEW.updated_at = NOW();
+        RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+      `
+    CREATE TABLE IF NOT EXISTS conversations (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id TEXT NOT NULL,
+      title TEXT,
+      status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived', 'deleted')),
+      current_agent_id TEXT,
+      participating_agents TEXT[] DEFAULT '{}',
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      deleted_at TIMESTAMP WITH TIME ZONE NULL,
+      
+      -- Metadata stored as JSONB for flexibility
+      metadata JSONB DEFAULT '{
+        "messageCount": 0,
+        "totalTokens": 0,
+        "agentHistory": [],
+        "performance": {},
+        "tags": [],
+        "priority": "medium"
+      }'::jsonb,
+      
+      -- Computed fields for optimization
+      message_count INTEGER DEFAULT 0,
+      last_message_at TIMESTAMP WITH TIME ZONE,
+      total_tokens INTEGER DEFAULT 0,
+      
+      -- Audit fields
+      created_by TEXT,
+      updated_by TEXT,
+      version INTEGER DEFAULT 1
+    );
+  `,
+      `
+    CREATE TABLE IF NOT EXISTS messages (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+      role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system', 'tool')),
+      content TEXT NOT NULL,
+      agent_id TEXT,
+      agent_info JSONB,
+      status TEXT DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'failed', 'streaming')),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      tokens INTEGER DEFAULT 0,
+      model TEXT,
+      
+      -- Performance and metadata
+      metadata JSONB DEFAULT '{}'::jsonb,
+      
+      -- Search vector for full-text search
+      search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(content, '')), 'A')
+      ) STORED,
+      
+      -- Ordering and pagination
+      sequence_number SERIAL,
+      
+      -- Audit fields
+      created_by TEXT,
+      updated_by TEXT
+    );
+  `,
+      `
+    CREATE TABLE IF NOT EXISTS conversation_attachments (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+      conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+      filename TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      file_size BIGINT NOT NULL,
+      url TEXT NOT NULL,
+      thumbnail_url TEXT,
+      uploaded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      uploaded_by TEXT NOT NULL,
+      
+      -- File processing metadata
+      metadata JSONB DEFAULT '{
+        "processed": false,
+        "scanResult": "pending"
+      }'::jsonb,
+      
+      -- Search capabilities
+      searchable_content TEXT,
+      
+      CONSTRAINT valid_file_size CHECK (file_size > 0 AND file_size <= 104857600) -- 100MB max
+    );
+  `,
+      `
+    CREATE TABLE IF NOT EXISTS conversation_agents (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL,
+      description TEXT,
+      capabilities TEXT[] DEFAULT '{}',
+      specialization TEXT[] DEFAULT '{}',
+      model TEXT,
+      is_active BOOLEAN DEFAULT true,
+      is_system_agent BOOLEAN DEFAULT false,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      
+      -- Agent configuration and metadata
+      configuration JSONB DEFAULT '{
+        "personality": {
+          "tone": "professional",
+          "style": "conversational",
+          "formality": "adaptive"
+        }
+      }'::jsonb,
+      
+      -- Performance tracking
+      total_messages INTEGER DEFAULT 0,
+      total_conversations INTEGER DEFAULT 0,
+      average_response_time DECIMAL(10,2) DEFAULT 0,
+      
+      -- Visual customization
+      avatar_url TEXT,
+      color TEXT,
+      icon TEXT
+    );
+  `,
+      `
+    CREATE TABLE IF NOT EXISTS agent_handoffs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+      from_agent_id TEXT,
+      to_agent_id TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      priority TEXT DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+      status TEXT DEFAULT 'completed' CHECK (status IN ('pending', 'accepted', 'rejected', 'completed')),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      completed_at TIMESTAMP WITH TIME ZONE,
+      
+      -- Context preservation
+      shared_context JSONB DEFAULT '{}'::jsonb,
+      
+      -- Performance metrics
+      handoff_duration_ms INTEGER,
+      context_preserved BOOLEAN DEFAULT true
+    );
+  `,
+      `
+    CREATE TABLE IF NOT EXISTS conversation_search_cache (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+      search_content TEXT NOT NULL,
+      search_vector tsvector GENERATED ALWAYS AS (
+        to_tsvector('english', search_content)
+      ) STORED,
+      last_updated TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      
+      UNIQUE(conversation_id)
+    );
+  `,
+      `
+    CREATE TABLE IF NOT EXISTS conversation_analytics (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL,
+      agent_id TEXT,
+      metric_type TEXT NOT NULL,
+      metric_value DECIMAL(10,4) NOT NULL,
+      metric_unit TEXT DEFAULT 'ms',
+      recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      
+      -- Metadata for additional context
+      metadata JSONB DEFAULT '{}'::jsonb
+    );
+  `,
+      'CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id) WHERE deleted_at IS NULL;',
+      'CREATE INDEX IF NOT EXISTS idx_conversations_status ON conversations(status, updated_at DESC) WHERE deleted_at IS NULL;',
+      'CREATE INDEX IF NOT EXISTS idx_conversations_agent ON conversations(current_agent_id, updated_at DESC) WHERE deleted_at IS NULL;',
+      'CREATE INDEX IF NOT EXISTS idx_conversations_updated ON conversations(updated_at DESC) WHERE deleted_at IS NULL;',
+      'CREATE INDEX IF NOT EXISTS idx_conversations_participating_agents ON conversations USING GIN(participating_agents);',
+      'CREATE INDEX IF NOT EXISTS idx_conversations_metadata ON conversations USING GIN(metadata);',
+      "CREATE INDEX IF NOT EXISTS idx_conversations_search ON conversations USING GIN((metadata->'tags'));",
+      'CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id, sequence_number);',
+      'CREATE INDEX IF NOT EXISTS idx_messages_conversation_role ON messages(conversation_id, role, created_at);',
+      'CREATE INDEX IF NOT EXISTS idx_messages_agent ON messages(agent_id, created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_messages_created ON messages(created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_messages_search ON messages USING GIN(search_vector);',
+      'CREATE INDEX IF NOT EXISTS idx_messages_metadata ON messages USING GIN(metadata);',
+      'CREATE INDEX IF NOT EXISTS idx_messages_status ON messages(status, created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_attachments_message ON conversation_attachments(message_id);',
+      'CREATE INDEX IF NOT EXISTS idx_attachments_conversation ON conversation_attachments(conversation_id, uploaded_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_attachments_type ON conversation_attachments(mime_type);',
+      'CREATE INDEX IF NOT EXISTS idx_attachments_uploader ON conversation_attachments(uploaded_by, uploaded_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_agents_active ON conversation_agents(is_active, type) WHERE is_active = true;',
+      'CREATE INDEX IF NOT EXISTS idx_agents_type ON conversation_agents(type, is_active);',
+      'CREATE INDEX IF NOT EXISTS idx_agents_capabilities ON conversation_agents USING GIN(capabilities);',
+      'CREATE INDEX IF NOT EXISTS idx_agents_specialization ON conversation_agents USING GIN(specialization);',
+      'CREATE INDEX IF NOT EXISTS idx_handoffs_conversation ON agent_handoffs(conversation_id, created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_handoffs_agents ON agent_handoffs(from_agent_id, to_agent_id, created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_handoffs_status ON agent_handoffs(status, created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_search_cache_conversation ON conversation_search_cache(conversation_id);',
+      'CREATE INDEX IF NOT EXISTS idx_search_cache_vector ON conversation_search_cache USING GIN(search_vector);',
+      'CREATE INDEX IF NOT EXISTS idx_analytics_type_date ON conversation_analytics(metric_type, recorded_at);',
+      'CREATE INDEX IF NOT EXISTS idx_analytics_conversation ON conversation_analytics(conversation_id, recorded_at);',
+      'CREATE INDEX IF NOT EXISTS idx_analytics_agent ON conversation_analytics(agent_id, recorded_at);',
+      `
+    CREATE OR REPLACE FUNCTION update_conversation_metadata()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      IF TG_OP = 'INSERT' OR TG_OP = 'UPDATE' THEN
+        UPDATE conversations 
+        SET 
+          message_count = (
+            SELECT COUNT(*) FROM messages 
+            WHERE conversation_id = NEW.conversation_id
+          ),
+          last_message_at = (
+            SELECT MAX(created_at) FROM messages 
+            WHERE conversation_id = NEW.conversation_id
+          ),
+          total_tokens = COALESCE((
+            SELECT SUM(tokens) FROM messages 
+            WHERE conversation_id = NEW.conversation_id
+          ), 0),
+          updated_at = NOW(),
+          version = version + 1,
+          metadata = jsonb_set(
+            metadata,
+            '{messageCount}',
+            (SELECT COUNT(*)::text::jsonb FROM messages WHERE conversation_id = NEW.conversation_id)
+          )
+        WHERE id = NEW.conversation_id;
+        
+        RETURN NEW;
+      ELSIF TG_OP = 'DELETE' THEN
+        UPDATE conversations 
+        SET 
+          message_count = (
+            SELECT COUNT(*) FROM messages 
+            WHERE conversation_id = OLD.conversation_id
+          ),
+          last_message_at = (
+            SELECT MAX(created_at) FROM messages 
+            WHERE conversation_id = OLD.conversation_id
+          ),
+          total_tokens = COALESCE((
+            SELECT SUM(tokens) FROM messages 
+            WHERE conversation_id = OLD.conversation_id
+          ), 0),
+          updated_at = NOW(),
+          version = version + 1
+        WHERE id = OLD.conversation_id;
+        
+        RETURN OLD;
+      END IF;
+      
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+      `
+    CREATE OR REPLACE FUNCTION update_conversation_search_cache()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      IF TG_OP = 'INSERT' OR TG_OP = 'UPDATE' THEN
+        INSERT INTO conversation_search_cache (conversation_id, search_content)
+        SELECT 
+          NEW.conversation_id,
+          string_agg(m.content, ' ' ORDER BY m.created_at)
+        FROM messages m
+        WHERE m.conversation_id = NEW.conversation_id
+        ON CONFLICT (conversation_id) 
+        DO UPDATE SET 
+          search_content = EXCLUDED.search_content,
+          last_updated = NOW();
+        
+        RETURN NEW;
+      ELSIF TG_OP = 'DELETE' THEN
+        INSERT INTO conversation_search_cache (conversation_id, search_content)
+        SELECT 
+          OLD.conversation_id,
+          COALESCE(string_agg(m.content, ' ' ORDER BY m.created_at), '')
+        FROM messages m
+        WHERE m.conversation_id = OLD.conversation_id
+        ON CONFLICT (conversation_id) 
+        DO UPDATE SET 
+          search_content = EXCLUDED.search_content,
+          last_updated = NOW();
+        
+        RETURN OLD;
+      END IF;
+      
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+      `
+    CREATE OR REPLACE FUNCTION track_agent_performance()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      IF TG_OP = 'INSERT' AND NEW.role = 'assistant' AND NEW.agent_id IS NOT NULL THEN
+        -- Update agent message count
+        UPDATE conversation_agents 
+        SET 
+          total_messages = total_messages + 1,
+          updated_at = NOW()
+        WHERE id = NEW.agent_id;
+        
+        -- Record performance metrics if available
+        IF NEW.metadata ? 'performance' THEN
+          INSERT INTO conversation_analytics (
+            conversation_id, 
+            user_id, 
+            agent_id, 
+            metric_type, 
+            metric_value,
+            metadata
+          ) VALUES (
+            NEW.conversation_id,
+            (SELECT user_id FROM conversations WHERE id = NEW.conversation_id),
+            NEW.agent_id,
+            'response_time',
+            COALESCE((NEW.metadata->'performance'->>'responseTime')::decimal, 0),
+            NEW.metadata->'performance'
+          );
+        END IF;
+      END IF;
+      
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+      // Deployments created before migrations existed already have triggers
+      ...PostgresTriggerTables.map(
+        ([trigger, table]) => `DROP TRIGGER IF EXISTS ${trigger} ON ${table};`
+      ),
+      `CREATE TRIGGER trigger_update_conversation_metadata
+   AFTER INSERT OR UPDATE OR DELETE ON messages
+   FOR EACH ROW EXECUTE FUNCTION update_conversation_metadata();`,
+      `CREATE TRIGGER trigger_update_search_cache
+   AFTER INSERT OR UPDATE OR DELETE ON messages
+   FOR EACH ROW EXECUTE FUNCTION update_conversation_search_cache();`,
+      `CREATE TRIGGER trigger_track_agent_performance
+   AFTER INSERT ON messages
+   FOR EACH ROW EXECUTE FUNCTION track_agent_performance();`,
+      `CREATE TRIGGER trigger_conversations_updated_at
+   BEFORE UPDATE ON conversations
+   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();`,
+      `CREATE TRIGGER trigger_messages_updated_at
+   BEFORE UPDATE ON messages
+   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();`,
+      `CREATE TRIGGER trigger_agents_updated_at
+   BEFORE UPDATE ON conversation_agents
+   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();`,
+    ],
+
+    sqlite: [
+      `CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        user_id TEXT NOT NULL,
+        title TEXT,
+        status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived', 'deleted')),
+        current_agent_id TEXT,
+        participating_agents TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        deleted_at TEXT,
+        metadata TEXT NOT NULL DEFAULT '{"messageCount":0,"totalTokens":0,"agentHistory":[],"performance":{},"tags":[],"priority":"medium"}',
+        message_count INTEGER DEFAULT 0,
+        last_message_at TEXT,
+        total_tokens INTEGER DEFAULT 0,
+        created_by TEXT,
+        updated_by TEXT,
+        version INTEGER DEFAULT 1
+      );`,
+      `CREATE TABLE IF NOT EXISTS messages (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system', 'tool')),
+        content TEXT NOT NULL,
+        agent_id TEXT,
+        agent_info TEXT,
+        status TEXT DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'failed', 'streaming')),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        tokens INTEGER DEFAULT 0,
+        model TEXT,
+        metadata TEXT NOT NULL DEFAULT '{}',
+        sequence_number INTEGER,
+        created_by TEXT,
+        updated_by TEXT
+      );`,
+      `CREATE TABLE IF NOT EXISTS conversation_attachments (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        message_id TEXT REFERENCES messages(id) ON DELETE CASCADE,
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        filename TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        file_size INTEGER NOT NULL CHECK (file_size > 0 AND file_size <= 104857600),
+        url TEXT NOT NULL,
+        thumbnail_url TEXT,
+        uploaded_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        uploaded_by TEXT NOT NULL,
+        metadata TEXT NOT NULL DEFAULT '{"processed":false,"scanResult":"pending"}',
+        searchable_content TEXT
+      );`,
+      `CREATE TABLE IF NOT EXISTS conversation_agents (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        description TEXT,
+        capabilities TEXT NOT NULL DEFAULT '[]',
+        specialization TEXT NOT NULL DEFAULT '[]',
+        model TEXT,
+        is_active INTEGER DEFAULT 1,
+        is_system_agent INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        configuration TEXT NOT NULL DEFAULT '{"personality":{"tone":"professional","style":"conversational","formality":"adaptive"}}',
+        total_messages INTEGER DEFAULT 0,
+        total_conversations INTEGER DEFAULT 0,
+        average_response_time REAL DEFAULT 0,
+        avatar_url TEXT,
+        color TEXT,
+        icon TEXT
+      );`,
+      `CREATE TABLE IF NOT EXISTS agent_handoffs (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        from_agent_id TEXT,
+        to_agent_id TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        priority TEXT DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+        status TEXT DEFAULT 'completed' CHECK (status IN ('pending', 'accepted', 'rejected', 'completed')),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        completed_at TEXT,
+        shared_context TEXT NOT NULL DEFAULT '{}',
+        handoff_duration_ms INTEGER,
+        context_preserved INTEGER DEFAULT 1
+      );`,
+      `CREATE TABLE IF NOT EXISTS conversation_search_cache (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        conversation_id TEXT NOT NULL UNIQUE REFERENCES conversations(id) ON DELETE CASCADE,
+        search_content TEXT NOT NULL,
+        last_updated TEXT DEFAULT CURRENT_TIMESTAMP
+      );`,
+      `CREATE TABLE IF NOT EXISTS conversation_analytics (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL,
+        agent_id TEXT,
+        metric_type TEXT NOT NULL,
+        metric_value REAL NOT NULL,
+        metric_unit TEXT DEFAULT 'ms',
+        recorded_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        metadata TEXT NOT NULL DEFAULT '{}'
+      );`,
+
+      'CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id) WHERE deleted_at IS NULL;',
+      'CREATE INDEX IF NOT EXISTS idx_conversations_status ON conversations(status, updated_at DESC) WHERE deleted_at IS NULL;',
+      'CREATE INDEX IF NOT EXISTS idx_conversations_agent ON conversations(current_agent_id, updated_at DESC) WHERE deleted_at IS NULL;',
+      'CREATE INDEX IF NOT EXISTS idx_conversations_updated ON conversations(updated_at DESC) WHERE deleted_at IS NULL;',
+      'CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id, sequence_number);',
+      'CREATE INDEX IF NOT EXISTS idx_messages_conversation_role ON messages(conversation_id, role, created_at);',
+      'CREATE INDEX IF NOT EXISTS idx_messages_agent ON messages(agent_id, created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_messages_created ON messages(created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_messages_status ON messages(status, created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_attachments_message ON conversation_attachments(message_id);',
+      'CREATE INDEX IF NOT EXISTS idx_attachments_conversation ON conversation_attachments(conversation_id, uploaded_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_agents_type ON conversation_agents(type, is_active);',
+      'CREATE INDEX IF NOT EXISTS idx_handoffs_conversation ON agent_handoffs(conversation_id, created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_handoffs_status ON agent_handoffs(status, created_at DESC);',
+      'CREATE INDEX IF NOT EXISTS idx_analytics_type_date ON conversation_analytics(metric_type, recorded_at);',
+      'CREATE INDEX IF NOT EXISTS idx_analytics_conversation ON conversation_analytics(conversation_id, recorded_at);',
+
+      // SQLite has no sequences outside the primary key, so number by rowid
+      `CREATE TRIGGER IF NOT EXISTS trigger_messages_sequence
+       AFTER INSERT ON messages
+       FOR EACH ROW WHEN NEW.sequence_number IS NULL
+       BEGIN
+         UPDATE messages SET sequence_number = NEW.rowid WHERE rowid = NEW.rowid;
+       END;`,
+      `CREATE TRIGGER IF NOT EXISTS trigger_update_conversation_metadata_insert
+       AFTER INSERT ON messages
+       FOR EACH ROW
+       BEGIN
+         UPDATE conversations SET
+           message_count = message_count + 1,
+           total_tokens = total_tokens + COALESCE(NEW.tokens, 0),
+           last_message_at = NEW.created_at,
+           updated_at = CURRENT_TIMESTAMP,
+           version = version + 1
+         WHERE id = NEW.conversation_id;
+       END;`,
+      `CREATE TRIGGER IF NOT EXISTS trigger_update_conversation_metadata_delete
+       AFTER DELETE ON messages
+       FOR EACH ROW
+       BEGIN
+         UPDATE conversations SET
+           message_count = message_count - 1,
+           total_tokens = total_tokens - COALESCE(OLD.tokens, 0),
+           last_message_at = (SELECT MAX(created_at) FROM messages WHERE conversation_id = OLD.conversation_id),
+           updated_at = CURRENT_TIMESTAMP,
+           version = version + 1
+         WHERE id = OLD.conversation_id;
+       END;`,
+      ...['conversations', 'messages', 'conversation_agents'].map(
+        (table) => `CREATE TRIGGER IF NOT EXISTS trigger_${table}_updated_at
+       AFTER UPDATE ON ${table}
+       FOR EACH ROW WHEN NEW.updated_at IS OLD.updated_at
+       BEGIN
+         UPDATE ${table} SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+       END;`
+      ),
+    ],
+
+    mysql: [
+      `CREATE TABLE IF NOT EXISTS conversations (
+        id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        user_id VARCHAR(255) NOT NULL,
+        title TEXT,
+        status VARCHAR(16) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived', 'deleted')),
+        current_agent_id VARCHAR(255),
+        participating_agents JSON DEFAULT (JSON_ARRAY()),
+        created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+        updated_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+        deleted_at TIMESTAMP(3) NULL,
+        metadata JSON DEFAULT (JSON_OBJECT('messageCount', 0, 'totalTokens', 0, 'agentHistory', JSON_ARRAY(), 'performance', JSON_OBJECT(), 'tags', JSON_ARRAY(), 'priority', 'medium')),
+        message_count INT DEFAULT 0,
+        last_message_at TIMESTAMP(3) NULL,
+        total_tokens INT DEFAULT 0,
+        created_by VARCHAR(255),
+        updated_by VARCHAR(255),
+        version INT DEFAULT 1,
+        INDEX idx_conversations_user_id (user_id, deleted_at),
+        INDEX idx_conversations_status (status, updated_at),
+        INDEX idx_conversations_agent (current_agent_id, updated_at),
+        INDEX idx_conversations_updated (updated_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;`,
+      `CREATE TABLE IF NOT EXISTS messages (
+        id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        conversation_id CHAR(36) NOT NULL,
+        role VARCHAR(16) NOT NULL CHECK (role IN ('user', 'assistant', 'system', 'tool')),
+        content MEDIUMTEXT NOT NULL,
+        agent_id VARCHAR(255),
+        agent_info JSON,
+        status VARCHAR(16) DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'failed', 'streaming')),
+        created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+        updated_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+        tokens INT DEFAULT 0,
+        model VARCHAR(255),
+        metadata JSON DEFAULT (JSON_OBJECT()),
+        sequence_number BIGINT NOT NULL AUTO_INCREMENT UNIQUE,
+        created_by VARCHAR(255),
+        updated_by VARCHAR(255),
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+        INDEX idx_messages_conversation (conversation_id, sequence_number),
+        INDEX idx_messages_conversation_role (conversation_id, role, created_at),
+        INDEX idx_messages_agent (agent_id, created_at),
+        INDEX idx_messages_created (created_at),
+        INDEX idx_messages_status (status, created_at),
+        FULLTEXT INDEX idx_messages_search (content)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;`,
+      `CREATE TABLE IF NOT EXISTS conversation_attachments (
+        id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        message_id CHAR(36),
+        conversation_id CHAR(36) NOT NULL,
+        filename TEXT NOT NULL,
+        mime_type VARCHAR(255) NOT NULL,
+        file_size BIGINT NOT NULL CHECK (file_size > 0 AND file_size <= 104857600),
+        url TEXT NOT NULL,
+        thumbnail_url TEXT,
+        uploaded_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+        uploaded_by VARCHAR(255) NOT NULL,
+        metadata JSON DEFAULT (JSON_OBJECT('processed', false, 'scanResult', 'pending')),
+        searchable_content MEDIUMTEXT,
+        FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+        INDEX idx_attachments_conversation (conversation_id, uploaded_at),
+        INDEX idx_attachments_type (mime_type),
+        INDEX idx_attachments_uploader (uploaded_by, uploaded_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;`,
+      `CREATE TABLE IF NOT EXISTS conversation_agents (
+        id VARCHAR(255) PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        type VARCHAR(64) NOT NULL,
+        description TEXT,
+        capabilities JSON DEFAULT (JSON_ARRAY()),
+        specialization JSON DEFAULT (JSON_ARRAY()),
+        model VARCHAR(255),
+        is_active BOOLEAN DEFAULT true,
+        is_system_agent BOOLEAN DEFAULT false,
+        created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+        updated_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+        configuration JSON DEFAULT (JSON_OBJECT('personality', JSON_OBJECT('tone', 'professional', 'style', 'conversational', 'formality', 'adaptive'))),
+        total_messages INT DEFAULT 0,
+        total_conversations INT DEFAULT 0,
+        average_response_time DECIMAL(10,2) DEFAULT 0,
+        avatar_url TEXT,
+        color VARCHAR(32),
+        icon VARCHAR(32),
+        INDEX idx_agents_type (type, is_active)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;`,
+      `CREATE TABLE IF NOT EXISTS agent_handoffs (
+        id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        conversation_id CHAR(36) NOT NULL,
+        from_agent_id VARCHAR(255),
+        to_agent_id VARCHAR(255) NOT NULL,
+        reason TEXT NOT NULL,
+        priority VARCHAR(16) DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+        status VARCHAR(16) DEFAULT 'completed' CHECK (status IN ('pending', 'accepted', 'rejected', 'completed')),
+        created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+        completed_at TIMESTAMP(3) NULL,
+        shared_context JSON DEFAULT (JSON_OBJECT()),
+        handoff_duration_ms INT,
+        context_preserved BOOLEAN DEFAULT true,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+        INDEX idx_handoffs_conversation (conversation_id, created_at),
+        INDEX idx_handoffs_agents (from_agent_id, to_agent_id, created_at),
+        INDEX idx_handoffs_status (status, created_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;`,
+      `CREATE TABLE IF NOT EXISTS conversation_search_cache (
+        id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        conversation_id CHAR(36) NOT NULL UNIQUE,
+        search_content LONGTEXT NOT NULL,
+        last_updated TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+        FULLTEXT INDEX idx_search_cache_content (search_content)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;`,
+      `CREATE TABLE IF NOT EXISTS conversation_analytics (
+        id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+        conversation_id CHAR(36) NOT NULL,
+        user_id VARCHAR(255) NOT NULL,
+        agent_id VARCHAR(255),
+        metric_type VARCHAR(64) NOT NULL,
+        metric_value DECIMAL(10,4) NOT NULL,
+        metric_unit VARCHAR(16) DEFAULT 'ms',
+        recorded_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+        metadata JSON DEFAULT (JSON_OBJECT()),
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+        INDEX idx_analytics_type_date (metric_type, recorded_at),
+        INDEX idx_analytics_conversation (conversation_id, recorded_at),
+        INDEX idx_analytics_agent (agent_id, recorded_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;`,
+
+      // updated_at is maintained by ON UPDATE; only the counters need triggers
+      'DROP TRIGGER IF EXISTS trigger_update_conversation_metadata_insert;',
+      `CREATE TRIGGER trigger_update_conversation_metadata_insert
+       AFTER INSERT ON messages
+       FOR EACH ROW
+       UPDATE conversations SET
+         message_count = message_count + 1,
+         total_tokens = total_tokens + COALESCE(NEW.tokens, 0),
+         last_message_at = NEW.created_at,
+         version = version + 1
+       WHERE id = NEW.conversation_id;`,
+      'DROP TRIGGER IF EXISTS trigger_update_conversation_metadata_delete;',
+      `CREATE TRIGGER trigger_update_conversation_metadata_delete
+       AFTER DELETE ON messages
+       FOR EACH ROW
+       UPDATE conversations SET
+         message_count = message_count - 1,
+         total_tokens = total_tokens - COALESCE(OLD.tokens, 0),
+         version = version + 1
+       WHERE id = OLD.conversation_id;`,
+    ],
+  },
+  down: {
+    postgres: [
+      ...PostgresTriggerTables.map(
+        ([trigger, table]) => `DROP TRIGGER IF EXISTS ${trigger} ON ${table};`
+      ),
+      'DROP FUNCTION IF EXISTS track_agent_performance();',
+      'DROP FUNCTION IF EXISTS update_conversation_search_cache();',
+      'DROP FUNCTION IF EXISTS update_conversation_metadata();',
+      ...dropTables(' CASCADE'),
+      'DROP FUNCTION IF EXISTS update_updated_at_column();',
+    ],
+    // Dropping a SQLite table drops its triggers and indexes
+    sqlite: dropTables(),
+    mysql: dropTables(),
+  },
+};
+
+/**
+ * Indexes matching the (sort key, id) orderings used by keyset pagination
+ */
+const keysetPaginationIndexes: SchemaMigration = {
+  version: 2,
+  name: 'keyset_pagination_indexes',
+  up: {
+    postgres: [
+      'CREATE INDEX IF NOT EXISTS idx_conversations_user_keyset ON conversations(user_id, updated_at DESC, id DESC) WHERE deleted_at IS NULL;',
+      'CREATE INDEX IF NOT EXISTS idx_messages_conversation_keyset ON messages(conversation_id, created_at, id);',
+    ],
+    sqlite: [
+      'CREATE INDEX IF NOT EXISTS idx_conversations_user_keyset ON conversations(user_id, updated_at DESC, id DESC) WHERE deleted_at IS NULL;',
+      'CREATE INDEX IF NOT EXISTS idx_messages_conversation_keyset ON messages(conversation_id, created_at, id);',
+    ],
+    mysql: [
+      'CREATE INDEX idx_conversations_user_keyset ON conversations(user_id, updated_at, id);',
+      'CREATE INDEX idx_messages_conversation_keyset ON messages(conversation_id, created_at, id);',
+    ],
+  },
+  down: {
+    postgres: [
+      'DROP INDEX IF EXISTS idx_messages_conversation_keyset;',
+      'DROP INDEX IF EXISTS idx_conversations_user_keyset;',
+    ],
+    sqlite: [
+      'DROP INDEX IF EXISTS idx_messages_conversation_keyset;',
+      'DROP INDEX IF EXISTS idx_conversations_user_keyset;',
+    ],
+    mysql: [
+      'DROP INDEX idx_messages_conversation_keyset ON messages;',
+      'DROP INDEX idx_conversations_user_keyset ON conversations;',
+    ],
+  },
+};
+
+const userKeysetIndex =
+  'CREATE INDEX IF NOT EXISTS idx_conversations_user_keyset ON conversations(user_id, updated_at DESC, id DESC) WHERE deleted_at IS NULL;';
+/**
+ * Tables given a tenant column by `tenant_isolation`, as they were at release
+ */
+const TenantIsolationTables = [
+  'conversations',
+  'messages',
+  'conversation_attachments',
+  'agent_handoffs',
+  'conversation_search_cache',
+  'conversation_analytics',
+] as const;
+
+const tenantKeysetIndex =
+  'CREATE INDEX IF NOT EXISTS idx_conversations_tenant_keyset ON conversations(tenant_id, user_id, updated_at DESC, id DESC) WHERE deleted_at IS NULL;';
+
+/**
+ * Tenant column on every tenant-scoped table, existing rows backfilled to
+ * the `default` tenant, with row-level security on postgres. Postgres takes
+ * the tenant of rows written by triggers from the connection's setting.
+ * Supabase sets it through the `generateSupabaseTenantFunction` RPC, which
+ * must be installed for tenant-scoped queries to see any rows.
+ */
+const tenantIsolation: SchemaMigration = {
+  version: 3,
+  name: 'tenant_isolation',
+  up: {
+    postgres: [
+      ...TenantIsolationTables.flatMap((table) => [
+        `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS tenant_id TEXT NOT NULL DEFAULT 'default';`,
+        `ALTER TABLE ${table} ALTER COLUMN tenant_id SET DEFAULT current_setting('app.tenant_id', true);`,
+      ]),
+      'DROP INDEX IF EXISTS idx_conversations_user_keyset;',
+      tenantKeysetIndex,
+      ...TenantIsolationTables.flatMap((table) => [
+        `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;`,
+        `ALTER TABLE ${table} FORCE ROW LEVEL SECURITY;`,
+        `CREATE POLICY tenant_isolation ON ${table} USING (tenant_id = current_setting('app.tenant_id', true)) WITH CHECK (tenant_id = current_setting('app.tenant_id', true));`,
+      ]),
+    ],
+    sqlite: [
+      ...TenantIsolationTables.map(
+        (table) =>
+          `ALTER TABLE ${table} ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default';`
+      ),
+      'DROP INDEX IF EXISTS idx_conversations_user_keyset;',
+      tenantKeysetIndex,
+    ],
+    mysql: [
+      ...TenantIsolationTables.map(
+        (table) =>
+          `ALTER TABLE ${table} ADD COLUMN tenant_id VARCHAR(255) NOT NULL DEFAULT 'default';`
+      ),
+      'DROP INDEX idx_conversations_user_keyset ON conversations;',
+      'CREATE INDEX idx_conversations_tenant_keyset ON conversations(tenant_id, user_id, updated_at, id);',
+    ],
+  },
+  down: {
+    postgres: [
+      ...TenantIsolationTables.flatMap((table) => [
+        `DROP POLICY IF EXISTS tenant_isolation ON ${table};`,
+        `ALTER TABLE ${table} NO FORCE ROW LEVEL SECURITY;`,
+        `ALTER TABLE ${table} DISABLE ROW LEVEL SECURITY;`,
+      ]),
+      'DROP INDEX IF EXISTS idx_conversations_tenant_keyset;',
+      userKeysetIndex,
+      ...TenantIsolationTables.map(
+        (table) => `ALTER TABLE ${table} DROP COLUMN IF EXISTS tenant_id;`
+      ),
+    ],
+    sqlite: [
+      'DROP INDEX IF EXISTS idx_conversations_tenant_keyset;',
+      userKeysetIndex,
+      ...TenantIsolationTables.map(
+        (table) => `ALTER TABLE ${table} DROP COLUMN tenant_id;`
+      ),
+    ],
+    mysql: [
+      'DROP INDEX idx_conversations_tenant_keyset ON conversations;',
+      'CREATE INDEX idx_conversations_user_keyset ON conversations(user_id, updated_at, id);',
+      ...TenantIsolationTables.map(
+        (table) => `ALTER TABLE ${table} DROP COLUMN tenant_id;`
+      ),
+    ],
+  },
+};
+
+/**
+ * All conversation schema migrations, in version order
+ */
+export const ConversationMigrations: readonly SchemaMigration[] = [
+  initialSchema,
+  keysetPaginationIndexes,
+  tenantIsolation,
+];
@@ -0,0 +1,496 @@
+/**
+ * Conversation Repository
+ *
+ * Storage behind `ConversationDataAccess`, implemented once per database
+ * family. A repository reads and writes rows for a tenant and maps them to
+ * conversation types; access checks, pagination cursors, result envelopes
+ * and listeners stay in the data access layer so that every backend looks
+ * the same to callers.
+ */
+
+import type { ConnectionManager } from './ConnectionManager';
+import type {
+  AgentHandoffRecord,
+  AgentInfo,
+  Conversation,
+  ConversationFilter,
+  ConversationListItem,
+  ConversationMessage,
+  ConversationPagination,
+  ConversationStats,
+  UpdateConversationRequest,
+} from '../types/conversation';
+import type { DefaultAgents } from './ConversationSchema';
+import type { TenantContext } from './TenantContext';
+import {
+  createMigrationRunner,
+  describeMigrationStatus,
+} from './SchemaMigrations';
+
+/**
+ * Field conversations can be listed by
+ */
+export type ConversationSortField = NonNullable<
+  ConversationPagination['sort']
+>['field'];
+
+export interface ConversationSort {
+  field: ConversationSortField;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Rows to read from an ordered result
+ */
+export interface KeysetWindow {
+  limit: number;
+  offset: number;
+  after?: string[]; // Sort key of the row to start after, ending with its id
+}
+
+/**
+ * A row with the sort key that orders it, for issuing cursors
+ */
+export interface KeyedRow<T> {
+  row: T;
+  key: string[];
+}
+
+/**
+ * Conversation found by a search, with its relevance
+ */
+export interface RankedConversation {
+  conversation: ConversationListItem;
+  rank: number;
+}
+
+/**
+ * Message found by a search within a conversation
+ */
+export interface ScoredMessage {
+  message: ConversationMessage;
+  score: number;
+}
+
+export interface NewConversationRecord {
+  id: string;
+  title: string | null;
+  currentAgentId: string | null;
+  participatingAgents: string[];
+  metadata: Record<string, unknown>;
+}
+
+export interface NewMessageRecord {
+  id: string;
+  conversationId: string;
+  role: ConversationMessage['role'];
+  content: string;
+  agentId: string | null;
+  metadata: Record<string, unknown>;
+}
+
+export type NewHandoffRecord = Omit<AgentHandoffRecord, 'createdAt'>;
+
+/**
+ * Timestamp as drivers return it; SQLite and document stores hold text
+ */
+type RowTimestamp = Date | string;
+
+/**
+ * JSON column, parsed by postgres and MongoDB and text elsewhere
+ */
+type JsonColumn<T> = T | string | null;
+
+/**
+ * Conversation row as listed, with the preview of its last message
+ */
+export interface ConversationListRow {
+  id: string;
+  title: string | null;
+  created_at: RowTimestamp;
+  updated_at: RowTimestamp;
+  status: Conversation['status'];
+  message_count?: number | null;
+  last_message_at?: RowTimestamp | null;
+  last_message_preview?: string | null;
+  current_agent_id: string | null;
+  participating_agents: JsonColumn<string[]>;
+  total_tokens?: number | null;
+}
+
+/**
+ * Conversation row, or document with the same fields
+ */
+export interface ConversationRow extends ConversationListRow {
+  tenant_id: string;
+  user_id: string;
+  deleted_at?: RowTimestamp | null;
+  metadata: JsonColumn<Record<string, unknown>>;
+}
+
+/**
+ * Message row, joined with its agent's name, type and color
+ */
+export interface MessageRow {
+  id: string;
+  conversation_id: string;
+  role: ConversationMessage['role'];
+  content: string;
+  agent_id: string | null;
+  agent_name?: string | null;
+  agent_type?: string | null;
+  agent_color?: string | null;
+  created_at: RowTimestamp;
+  updated_at?: RowTimestamp | null;
+  tokens?: number | null;
+  model?: string | null;
+  status?: ConversationMessage['status'] | null;
+  metadata: JsonColumn<Record<string, unknown>>;
+}
+
+/**
+ * Agent handoff row
+ */
+export interface HandoffRow {
+  id: string;
+  conversation_id: string;
+  from_agent_id?: string | null;
+  to_agent_id: string;
+  reason: string;
+  shared_context: JsonColumn<Record<string, unknown>>;
+  created_at: RowTimestamp;
+}
+
+/**
+ * Aggregated statistics; SQL drivers return numeric strings
+ */
+export type StatsRow = Record<string, string | number | null | undefined>;
+
+/**
+ * A row with the text of the sort key it was read in
+ */
+export type SortedRow<T> = T & { sort_value: string };
+
+export type AgentSeed = (typeof DefaultAgents)[number];
+
+/**
+ * Whether storage is ready for this release
+ */
+export type SchemaReadiness =
+  | { ready: true }
+  | { ready: false; reason: string; details: unknown };
+
+export interface ConversationRepository {
+  /**
+   * Check, and with `migrate` bring up to date, the schema or indexes
+   */
+  prepare(options: { migrate?: boolean }): Promise<SchemaReadiness>;
+
+  /**
+   * Add the agents that do not exist yet; agents are shared by all tenants
+   */
+  seedAgents(agents: readonly AgentSeed[]): Promise<void>;
+
+  insertConversation(
+    context: TenantContext,
+    record: NewConversationRecord
+  ): Promise<Conversation>;
+
+  /**
+   * Find a conversation of the context's user that has not been deleted
+   */
+  findConversation(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<Conversation | null>;
+
+  /**
+   * Apply updates, merging metadata keys; null when nothing matched
+   */
+  updateConversation(
+    context: TenantContext,
+    conversationId: string,
+    updates: UpdateConversationRequest
+  ): Promise<Conversation | null>;
+
+  countConversations(
+    context: TenantContext,
+    filter: ConversationFilter
+  ): Promise<number>;
+
+  /**
+   * List conversations by the sort field, ties broken by id
+   */
+  listConversations(
+    context: TenantContext,
+    filter: ConversationFilter,
+    sort: ConversationSort,
+    window: KeysetWindow
+  ): Promise<KeyedRow<ConversationListItem>[]>;
+
+  /**
+   * Store a message and update the conversation's message count, token
+   * total and last message time
+   */
+  insertMessage(
+    context: TenantContext,
+    record: NewMessageRecord
+  ): Promise<ConversationMessage>;
+
+  /**
+   * Make an agent the conversation's current agent, adding it to the
+   * participating agents if it is new
+   */
+  setCurrentAgent(
+    context: TenantContext,
+    conversationId: string,
+    agentId: string
+  ): Promise<void>;
+
+  countMessages(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<number>;
+
+  /**
+   * List messages in (created at, id) order
+   */
+  listMessages(
+    context: TenantContext,
+    conversationId: string,
+    window: KeysetWindow
+  ): Promise<KeyedRow<ConversationMessage>[]>;
+
+  countSearchResults(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter
+  ): Promise<number>;
+
+  /**
+   * Conversations whose title or messages match, by descending rank, then
+   * updated at and id
+   */
+  searchConversations(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter,
+    window: KeysetWindow
+  ): Promise<KeyedRow<RankedConversation>[]>;
+
+  /**
+   * Best matching messages of a conversation
+   */
+  searchMessages(
+    context: TenantContext,
+    conversationId: string,
+    query: string,
+    limit: number
+  ): Promise<ScoredMessage[]>;
+
+  getStats(context: TenantContext): Promise<ConversationStats>;
+
+  /**
+   * Record a handoff, make the receiving agent current and count the
+   * handoff in the conversation's performance metadata
+   */
+  insertHandoff(
+    context: TenantContext,
+    handoff: NewHandoffRecord
+  ): Promise<void>;
+
+  /**
+   * Handoffs of a conversation in chronological order
+   */
+  listHandoffs(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<AgentHandoffRecord[]>;
+}
+
+/**
+ * Apply or check migrations for a SQL database
+ */
+export async function prepareSqlSchema(
+  connectionManager: ConnectionManager,
+  options: { migrate?: boolean }
+): Promise<SchemaReadiness> {
+  const migrations = createMigrationRunner(connectionManager);
+  if (options.migrate) {
+    await migrations.migrate();
+  }
+
+  const status = await migrations.status();
+  return status.upToDate
+    ? { ready: true }
+    : {
+        ready: false,
+        reason: describeMigrationStatus(status)!,
+        details: status,
+      };
+}
+
+/**
+ * Lowercased words of a search query. Backends without full-text search
+ * match messages containing every word, scored by how often they occur.
+ */
+export function searchTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Parse a JSON column that drivers may return as text
+ */
+function parseJson<T>(value: unknown, fallback: T): T {
+  if (typeof value === 'string') {
+    return value ? JSON.parse(value) : fallback;
+  }
+  return (value as T) ?? fallback;
+}
+
+/**
+ * Map a conversation row, or document with the same fields, to a Conversation
+ */
+export function conversationFromRow(row: ConversationRow): Conversation {
+  return {
+    id: row.id,
+    tenantId: row.tenant_id,
+    userId: row.user_id,
+    ...(typeof row.title === 'string' ? { title: row.title } : {}),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    ...(row.deleted_at ? { deletedAt: new Date(row.deleted_at) } : {}),
+    status: row.status,
+    ...(typeof row.current_agent_id === 'string'
+      ? { currentAgentId: row.current_agent_id }
+      : {}),
+    participatingAgents: parseJson<string[]>(row.participating_agents, []),
+    // Counter columns are authoritative; only postgres triggers also keep
+    // the copies in metadata up to date
+    metadata: {
+      ...parseJson<Record<string, unknown>>(row.metadata, {}),
+      messageCount: row.message_count || 0,
+      ...(row.last_message_at
+        ? { lastMessageAt: new Date(row.last_message_at) }
+        : {}),
+      totalTokens: row.total_tokens || 0,
+    },
+  };
+}
+
+/**
+ * Map a conversation row to a ConversationListItem
+ */
+export function conversationListItemFromRow(
+  row: ConversationListRow
+): ConversationListItem {
+  return {
+    id: row.id,
+    ...(typeof row.title === 'string' ? { title: row.title } : {}),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    status: row.status,
+    messageCount: row.message_count || 0,
+    ...(row.last_message_at
+      ? { lastMessageAt: new Date(row.last_message_at) }
+      : {}),
+    ...(typeof row.last_message_preview === 'string'
+      ? { lastMessagePreview: row.last_message_preview }
+      : {}),
+    ...(typeof row.current_agent_id === 'string'
+      ? { currentAgentId: row.current_agent_id }
+      : {}),
+    participatingAgents: parseJson<string[]>(row.participating_agents, []),
+    totalTokens: row.total_tokens || 0,
+  };
+}
+
+/**
+ * Map a message row, joined with its agent's name, type and color, to a
+ * ConversationMessage
+ */
+export function messageFromRow(row: MessageRow): ConversationMessage {
+  const agentInfo: AgentInfo | undefined = row.agent_id
+    ? {
+        id: row.agent_id,
+        name: row.agent_name || 'Unknown Agent',
+        type: row.agent_type || 'general',
+        capabilities: [],
+        ...(row.agent_color ? { metadata: { color: row.agent_color } } : {}),
+      }
+    : undefined;
+
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    role: row.role,
+    content: row.content,
+    ...(row.agent_id ? { agentId: row.agent_id } : {}),
+    ...(agentInfo ? { agentInfo } : {}),
+    createdAt: new Date(row.created_at),
+    ...(row.updated_at ? { updatedAt: new Date(row.updated_at) } : {}),
+    ...(typeof row.tokens === 'number' ? { tokens: row.tokens } : {}),
+    ...(typeof row.model === 'string' ? { model: row.model } : {}),
+    status: row.status || 'completed',
+    metadata: parseJson<Record<string, unknown>>(row.metadata, {}),
+  };
+}
+
+/**
+ * Map a handoff row to an AgentHandoffRecord
+ */
+export function handoffFromRow(row: HandoffRow): AgentHandoffRecord {
+  const sharedContext = parseJson<Record<string, unknown> | null>(
+    row.shared_context,
+    {}
+  );
+
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    fromAgentId: row.from_agent_id ?? null,
+    toAgentId: row.to_agent_id,
+    reason: row.reason,
+    createdAt: new Date(row.created_at),
+    ...(sharedContext && Object.keys(sharedContext).length > 0
+      ? { sharedContext }
+      : {}),
+  };
+}
+
+function toInt(value: StatsRow[string]): number {
+  return parseInt(String(value)) || 0;
+}
+
+function toFloat(value: StatsRow[string]): number {
+  return parseFloat(String(value)) || 0;
+}
+
+/**
+ * Map a row of aggregated statistics to ConversationStats. Aggregates may
+ * arrive as numbers or, from SQL drivers, as numeric strings.
+ */
+export function statsFromRow(row: StatsRow): ConversationStats {
+  return {
+    totalConversations: toInt(row.total_conversations),
+    activeConversations: toInt(row.active_conversations),
+    archivedConversations: toInt(row.archived_conversations),
+    totalMessages: toInt(row.total_messages),
+    totalTokens: toInt(row.total_tokens),
+    averageMessagesPerConversation: toFloat(row.avg_messages_per_conversation),
+    averageResponseTime: toFloat(row.avg_response_time),
+    ...(row.most_used_agent_id
+      ? {
+          mostUsedAgent: {
+            agentId: String(row.most_used_agent_id),
+            messageCount: toInt(row.most_used_agent_count),
+          },
+        }
+      : {}),
+    recentActivity: {
+      conversationsLast7Days: toInt(row.conversations_last_7_days),
+      messagesLast7Days: toInt(row.messages_last_7_days),
+      tokensLast7Days: toInt(row.tokens_last_7_days),
+    },
+  };
+}
@@ -11,6 +11,7 @@ import type {
   ConversationAttachment,
   AgentInfo,
 } from '../types/conversation';
+import { SUPABASE_TENANT_RPC, TENANT_SETTING } from './TenantContext';
 
 /**
  * Enhanced database schema with multi-agent support
@@ -210,12 +211,7 @@ export const ConversationSchema = {
       recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
       
       -- Metadata for additional context
-      metadata JSONB DEFAULT '{}'::jsonb,
-      
-      -- Indexing for fast analytics queries
-      INDEX idx_analytics_type_date (metric_type, recorded_at),
-      INDEX idx_analytics_conversation (conversation_id, recorded_at),
-      INDEX idx_analytics_agent (agent_id, recorded_at)
+      metadata JSONB DEFAULT '{}'::jsonb
     );
   `,
 } as const;
@@ -263,7 +259,10 @@ export const ConversationIndexes = [
   'CREATE INDEX IF NOT EXISTS idx_search_cache_conversation ON conversation_search_cache(conversation_id);',
   'CREATE INDEX IF NOT EXISTS idx_search_cache_vector ON conversation_search_cache USING GIN(search_vector);',
 
-  // Analytics indexes (already defined in table schema above)
+  // Analytics indexes
+  'CREATE INDEX IF NOT EXISTS idx_analytics_type_date ON conversation_analytics(metric_type, recorded_at);',
+  'CREATE INDEX IF NOT EXISTS idx_analytics_conversation ON conversation_analytics(conversation_id, recorded_at);',
+  'CREATE INDEX IF NOT EXISTS idx_analytics_agent ON conversation_analytics(agent_id, recorded_at);',
 ] as const;
 
 /**
@@ -537,6 +536,56 @@ export const DefaultAgents = [
   },
 ] as const;
 
+/**
+ * Tables shared by every tenant; all other tables hold tenant data
+ */
+export const SharedTables = ['conversation_agents'] as const;
+
+/**
+ * Tables with a `tenant_id` column
+ */
+export const TenantScopedTables: readonly string[] = [
+  'conversations',
+  'messages',
+  'conversation_attachments',
+  'agent_handoffs',
+  'conversation_search_cache',
+  'conversation_analytics',
+];
+
+/**
+ * Postgres row-level security for every tenant-scoped table: rows are only
+ * visible to, and can only be written by, connections whose tenant setting
+ * matches. FORCE applies the policy to the table owner as well.
+ */
+export function generateTenantPolicies(
+  tables: readonly string[] = TenantScopedTables
+): string[] {
+  const tenantMatches = `tenant_id = current_setting('${TENANT_SETTING}', true)`;
+  return tables.flatMap((table) => [
+    `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;`,
+    `ALTER TABLE ${table} FORCE ROW LEVEL SECURITY;`,
+    `CREATE POLICY tenant_isolation ON ${table} USING (${tenantMatches}) WITH CHECK (${tenantMatches});`,
+  ]);
+}
+
+/**
+ * Supabase function that scopes a query to a tenant. Each RPC call is its own
+ * transaction, so the setting is local to it and the row-level security
+ * policies see the tenant for that query only.
+ */
+export function generateSupabaseTenantFunction(): string {
+  return `CREATE OR REPLACE FUNCTION ${SUPABASE_TENANT_RPC}(tenant_id TEXT, query TEXT, parameters JSONB DEFAULT '[]'::jsonb)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('${TENANT_SETTING}', tenant_id, true);
+  RETURN execute_sql(query, parameters);
+END;
+$$;`;
+}
+
 /**
  * Schema validation queries
  */
@@ -0,0 +1,1092 @@
+/**
+ * Conversation Transcripts
+ *
+ * Versioned, portable transcripts of a conversation with its agents,
+ * handoffs, tool calls, reasoning and sources. The JSON transcript is the
+ * interchange format that can be imported again; Markdown and HTML are
+ * human-readable renderings and JSONL is chat fine-tuning data.
+ */
+
+import type {
+  AgentHandoffRecord,
+  AgentInfo,
+  Conversation,
+  ConversationMessage,
+  CreateMessageRequest,
+} from '../types/conversation';
+import { escapeHtml } from '../search/InvertedIndex';
+
+export type TranscriptFormat = 'json' | 'markdown' | 'html' | 'jsonl';
+
+export const TRANSCRIPT_SCHEMA = 'conciergus.transcript';
+export const TRANSCRIPT_VERSION = 1;
+
+/**
+ * File metadata for each export format
+ */
+export const TRANSCRIPT_FORMATS: Record<
+  TranscriptFormat,
+  { mimeType: string; extension: string }
+> = {
+  json: { mimeType: 'application/json', extension: 'json' },
+  markdown: { mimeType: 'text/markdown', extension: 'md' },
+  html: { mimeType: 'text/html', extension: 'html' },
+  jsonl: { mimeType: 'application/jsonl', extension: 'jsonl' },
+};
+
+export interface TranscriptAgent {
+  id: string;
+  name: string;
+  type: string;
+  capabilities: string[];
+  model?: string;
+}
+
+export interface TranscriptToolCall {
+  id: string;
+  name: string;
+  args: unknown;
+  result?: unknown;
+  state?: 'partial' | 'complete' | 'error';
+}
+
+export interface TranscriptReasoningStep {
+  type: string;
+  content: string;
+  confidence?: number;
+}
+
+export interface TranscriptSource {
+  id: string;
+  title: string;
+  url?: string;
+  content?: string;
+  relevance?: number;
+}
+
+export interface TranscriptAttachment {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  url: string;
+}
+
+export interface TranscriptHandoff {
+  id?: string;
+  fromAgentId: string | null;
+  toAgentId: string;
+  reason: string;
+  at: string; // ISO 8601
+  context?: Record<string, unknown>;
+}
+
+export interface TranscriptMessage {
+  id: string;
+  role: ConversationMessage['role'];
+  content: string;
+  createdAt: string; // ISO 8601
+  agentId?: string;
+  model?: string;
+  tokens?: number;
+  status?: NonNullable<ConversationMessage['status']>;
+  toolCallId?: string; // Tool call answered by a `tool` message
+  toolCalls?: TranscriptToolCall[];
+  reasoning?: TranscriptReasoningStep[];
+  sources?: TranscriptSource[];
+  attachments?: TranscriptAttachment[];
+  metadata?: Record<string, unknown>; // Remaining message metadata
+}
+
+/**
+ * Versioned transcript document
+ */
+export interface ConversationTranscript {
+  schema: typeof TRANSCRIPT_SCHEMA;
+  version: typeof TRANSCRIPT_VERSION;
+  exportedAt: string; // ISO 8601
+  conversation: {
+    id: string;
+    userId: string;
+    title?: string;
+    status: Conversation['status'];
+    createdAt: string;
+    updatedAt: string;
+    currentAgentId?: string;
+    participatingAgents: string[];
+    metadata: Record<string, unknown>;
+  };
+  agents: TranscriptAgent[];
+  handoffs: TranscriptHandoff[];
+  messages: TranscriptMessage[];
+}
+
+/**
+ * Options for building a transcript
+ */
+export interface CreateTranscriptOptions {
+  handoffs?: AgentHandoffRecord[]; // Otherwise derived from message metadata
+  agents?: AgentInfo[]; // Fills in agents that messages only reference by id
+  exportedAt?: Date;
+}
+
+/**
+ * Fine-tuning export options
+ */
+export interface FineTuningExportOptions {
+  systemPrompt?: string; // Used when a conversation has no system message
+  includeToolCalls: boolean;
+  perTurn: boolean; // One example per assistant reply instead of per conversation
+}
+
+export const DEFAULT_FINE_TUNING_EXPORT_OPTIONS: FineTuningExportOptions = {
+  includeToolCalls: true,
+  perTurn: false,
+};
+
+/**
+ * Chat message in the fine-tuning format
+ */
+export interface FineTuningMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: Array<{
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+  }>;
+  tool_call_id?: string;
+}
+
+// Metadata keys lifted into dedicated transcript fields
+const EXTRACTED_METADATA_KEYS = [
+  'toolInvocations',
+  'toolCalls',
+  'toolResults',
+  'toolCallId',
+  'reasoning',
+  'sources',
+];
+
+// Strict ISO 8601 date or date-time, as written by toISOString
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d{1,9})?)?(Z|[+-]\d{2}:\d{2}))?$/;
+
+const MESSAGE_ROLES: ReadonlyArray<ConversationMessage['role']> = [
+  'user',
+  'assistant',
+  'system',
+  'tool',
+];
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/**
+ * Build a transcript from a conversation and all of its messages
+ */
+export function createTranscript(
+  conversation: Conversation,
+  messages: ConversationMessage[],
+  options: CreateTranscriptOptions = {}
+): ConversationTranscript {
+  const agents = new Map<string, TranscriptAgent>();
+  const addAgent = (agent: AgentInfo) => {
+    if (agents.has(agent.id) && agent.name === 'Unknown Agent') return;
+    agents.set(agent.id, {
+      id: agent.id,
+      name: agent.name,
+      type: agent.type,
+      capabilities: [...(agent.capabilities ?? [])],
+      ...(agent.model ? { model: agent.model } : {}),
+    });
+  };
+  messages.forEach(
+    (message) => message.agentInfo && addAgent(message.agentInfo)
+  );
+  options.agents?.forEach(addAgent);
+
+  const transcriptMessages = messages.map(toTranscriptMessage);
+  for (const agentId of [
+    ...conversation.participatingAgents,
+    ...transcriptMessages.flatMap((m) => (m.agentId ? [m.agentId] : [])),
+  ]) {
+    if (!agents.has(agentId)) {
+      agents.set(agentId, {
+        id: agentId,
+        name: agentId,
+        type: 'general',
+        capabilities: [],
+      });
+    }
+  }
+
+  const handoffs = options.handoffs
+    ? options.handoffs.map(
+        (handoff): TranscriptHandoff => ({
+          id: handoff.id,
+          fromAgentId: handoff.fromAgentId,
+          toAgentId: handoff.toAgentId,
+          reason: handoff.reason,
+          at: handoff.createdAt.toISOString(),
+          ...(handoff.sharedContext
+            ? { context: toJson(handoff.sharedContext) }
+            : {}),
+        })
+      )
+    : messages.flatMap((message): TranscriptHandoff[] => {
+        const handoff = message.metadata?.handoff;
+        if (!handoff?.toAgentId) return [];
+        return [
+          {
+            fromAgentId: handoff.fromAgentId ?? null,
+            toAgentId: handoff.toAgentId,
+            reason: handoff.reason ?? '',
+            at: new Date(message.createdAt).toISOString(),
+            ...(handoff.context ? { context: toJson(handoff.context) } : {}),
+          },
+        ];
+      });
+
+  return {
+    schema: TRANSCRIPT_SCHEMA,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: (options.exportedAt ?? new Date()).toISOString(),
+    conversation: {
+      id: conversation.id,
+      userId: conversation.userId,
+      ...(conversation.title ? { title: conversation.title } : {}),
+      status: conversation.status,
+      createdAt: new Date(conversation.createdAt).toISOString(),
+      updatedAt: new Date(conversation.updatedAt).toISOString(),
+      ...(conversation.currentAgentId
+        ? { currentAgentId: conversation.currentAgentId }
+        : {}),
+      participatingAgents: [...conversation.participatingAgents],
+      metadata: toJson(conversation.metadata ?? {}),
+    },
+    agents: [...agents.values()],
+    handoffs,
+    messages: transcriptMessages,
+  };
+}
+
+function toTranscriptMessage(message: ConversationMessage): TranscriptMessage {
+  const metadata = message.metadata ?? {};
+  const toolCalls = normalizeToolCalls(
+    metadata.toolInvocations ??
+      metadata.toolCalls ??
+      metadata.toolResults ??
+      metadata.ui?.toolResults
+  );
+  const reasoning = normalizeReasoning(metadata.reasoning);
+  const sources = normalizeSources(metadata.sources);
+  const attachments = (metadata.ui?.attachments ?? []).map(
+    (attachment): TranscriptAttachment => ({
+      id: attachment.id,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      url: attachment.url,
+    })
+  );
+
+  const rest: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (EXTRACTED_METADATA_KEYS.includes(key) || value === undefined) continue;
+    if (key === 'ui') {
+      const ui = Object.entries(value as object).filter(
+        ([uiKey]) => uiKey !== 'attachments' && uiKey !== 'toolResults'
+      );
+      if (ui.length > 0) rest.ui = Object.fromEntries(ui);
+      continue;
+    }
+    rest[key] = value;
+  }
+  const toolCallId = stringOrUndefined(metadata.toolCallId);
+
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    createdAt: new Date(message.createdAt).toISOString(),
+    ...(message.agentId ? { agentId: message.agentId } : {}),
+    ...(message.model ? { model: message.model } : {}),
+    ...(message.tokens !== undefined ? { tokens: message.tokens } : {}),
+    ...(message.status ? { status: message.status } : {}),
+    ...(toolCallId ? { toolCallId } : {}),
+    ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    ...(reasoning.length > 0 ? { reasoning } : {}),
+    ...(sources.length > 0 ? { sources } : {}),
+    ...(attachments.length > 0 ? { attachments } : {}),
+    ...(Object.keys(rest).length > 0 ? { metadata: toJson(rest) } : {}),
+  };
+}
+
+/**
+ * Accepts AI SDK tool invocations (`toolCallId`, `toolName`) as well as
+ * plain `{ id, name, args, result }` records
+ */
+function normalizeToolCalls(value: unknown): TranscriptToolCall[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item, index): TranscriptToolCall[] => {
+    if (!isRecord(item)) return [];
+    const call = item;
+    const name = call.toolName ?? call.name;
+    if (typeof name !== 'string') return [];
+
+    return [
+      {
+        id: String(call.toolCallId ?? call.id ?? `call_${index + 1}`),
+        name,
+        args: toJson(call.args ?? call.arguments ?? call.input ?? {}),
+        ...(call.result !== undefined || call.output !== undefined
+          ? { result: toJson(call.result ?? call.output) }
+          : {}),
+        ...(call.state === 'partial' ||
+        call.state === 'complete' ||
+        call.state === 'error'
+          ? { state: call.state }
+          : {}),
+      },
+    ];
+  });
+}
+
+function normalizeReasoning(value: unknown): TranscriptReasoningStep[] {
+  if (typeof value === 'string') {
+    return value.trim() ? [{ type: 'thought', content: value }] : [];
+  }
+  const steps: unknown[] = Array.isArray(value)
+    ? value
+    : isRecord(value) && Array.isArray(value.steps)
+      ? value.steps
+      : [];
+
+  return steps.flatMap((step): TranscriptReasoningStep[] => {
+    if (typeof step === 'string') return [{ type: 'thought', content: step }];
+    if (!isRecord(step)) return [];
+    const { type, content, confidence } = step;
+    if (typeof content !== 'string') return [];
+    return [
+      {
+        type: typeof type === 'string' ? type : 'thought',
+        content,
+        ...(typeof confidence === 'number' ? { confidence } : {}),
+      },
+    ];
+  });
+}
+
+function normalizeSources(value: unknown): TranscriptSource[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item, index): TranscriptSource[] => {
+    if (!item || typeof item !== 'object') return [];
+    const source = item as Record<string, unknown>;
+    const url = stringOrUndefined(source.url);
+    const title = stringOrUndefined(source.title) ?? url;
+    if (!title) return [];
+    const content = stringOrUndefined(source.content);
+    const relevance = numberOrUndefined(source.relevance);
+
+    return [
+      {
+        id: String(source.id ?? `source_${index + 1}`),
+        title,
+        ...(url ? { url } : {}),
+        ...(content ? { content } : {}),
+        ...(relevance !== undefined ? { relevance } : {}),
+      },
+    ];
+  });
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Serialize a transcript in the given format
+ */
+export function serializeTranscript(
+  transcript: ConversationTranscript,
+  format: TranscriptFormat,
+  options: Partial<FineTuningExportOptions> = {}
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(transcript, null, 2);
+    case 'markdown':
+      return renderTranscriptMarkdown(transcript);
+    case 'html':
+      return renderTranscriptHtml(transcript);
+    case 'jsonl':
+      return toFineTuningJsonl([transcript], options);
+    default:
+      throw new Error(`Unsupported transcript format: ${format as string}`);
+  }
+}
+
+/**
+ * File name for an exported transcript
+ */
+export function transcriptFileName(
+  transcript: ConversationTranscript,
+  format: TranscriptFormat
+): string {
+  const slug =
+    (transcript.conversation.title ?? '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'conversation';
+  return `${slug}-${transcript.conversation.id}.${TRANSCRIPT_FORMATS[format].extension}`;
+}
+
+/**
+ * Render a transcript as Markdown
+ */
+export function renderTranscriptMarkdown(
+  transcript: ConversationTranscript
+): string {
+  const { conversation } = transcript;
+  const agents = agentLookup(transcript);
+  const lines: string[] = [
+    `# ${conversation.title || 'Untitled conversation'}`,
+    '',
+    `- Conversation: \`${conversation.id}\``,
+    `- User: \`${conversation.userId}\``,
+    `- Started: ${formatTimestamp(conversation.createdAt)}`,
+    `- Exported: ${formatTimestamp(transcript.exportedAt)}`,
+  ];
+  if (transcript.agents.length > 0) {
+    lines.push(
+      `- Agents: ${transcript.agents.map((agent) => `${agent.name} (${agent.type})`).join(', ')}`
+    );
+  }
+
+  for (const entry of timeline(transcript)) {
+    lines.push('');
+    if (entry.type === 'handoff') {
+      const { handoff } = entry;
+      const from = handoff.fromAgentId
+        ? agents.name(handoff.fromAgentId)
+        : 'No agent';
+      lines.push(
+        `> **Handoff** · ${formatTimestamp(handoff.at)} · ${from} → ${agents.name(handoff.toAgentId)}` +
+          (handoff.reason ? `: ${handoff.reason}` : '')
+      );
+      continue;
+    }
+
+    const { message } = entry;
+    lines.push(
+      `## ${authorLabel(message, agents)} · ${formatTimestamp(message.createdAt)}`,
+      ''
+    );
+    if (message.content) lines.push(message.content, '');
+
+    if (message.reasoning) {
+      lines.push('<details>', '<summary>Reasoning</summary>', '');
+      message.reasoning.forEach((step, index) =>
+        lines.push(`${index + 1}. *${step.type}*: ${step.content}`)
+      );
+      lines.push('', '</details>', '');
+    }
+
+    for (const call of message.toolCalls ?? []) {
+      lines.push(
+        `**Tool call** \`${call.name}\`${call.state === 'error' ? ' (failed)' : ''}`,
+        '',
+        fence(JSON.stringify(call.args, null, 2), 'json'),
+        ''
+      );
+      if (call.result !== undefined) {
+        lines.push(
+          'Result:',
+          '',
+          fence(JSON.stringify(call.result, null, 2), 'json'),
+          ''
+        );
+      }
+    }
+
+    if (message.sources) {
+      lines.push('**Sources**', '');
+      message.sources.forEach((source, index) =>
+        lines.push(
+          `${index + 1}. ${source.url ? `[${source.title}](${source.url})` : source.title}`
+        )
+      );
+      lines.push('');
+    }
+
+    if (message.attachments) {
+      lines.push('**Attachments**', '');
+      message.attachments.forEach((attachment) =>
+        lines.push(`- [${attachment.filename}](${attachment.url})`)
+      );
+      lines.push('');
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+const TRANSCRIPT_STYLES = `
+body { font-family: system-ui, -apple-system, sans-serif; color: #111827; background: #f9fafb; margin: 0; }
+main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; color: #4b5563; font-size: 0.875rem; }
+header dd { margin: 0; }
+ol.transcript { list-style: none; padding: 0; }
+.message { background: #fff; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 0.75rem 0; }
+.message.role-user { border-left: 4px solid #2563eb; }
+.message.role-assistant { border-left: 4px solid #059669; }
+.message.role-system, .message.role-tool { border-left: 4px solid #9ca3af; }
+.meta { font-size: 0.75rem; color: #6b7280; margin-bottom: 0.5rem; }
+.content { white-space: pre-wrap; word-wrap: break-word; }
+.handoff { text-align: center; font-size: 0.875rem; color: #92400e; margin: 1rem 0; }
+details { margin-top: 0.5rem; font-size: 0.875rem; }
+pre { background: #f3f4f6; padding: 0.5rem; border-radius: 0.25rem; overflow-x: auto; }
+`.trim();
+
+/**
+ * Render a transcript as a self-contained HTML document. All content is
+ * escaped and only http(s) URLs become links.
+ */
+export function renderTranscriptHtml(
+  transcript: ConversationTranscript
+): string {
+  const { conversation } = transcript;
+  const agents = agentLookup(transcript);
+  const title = escapeHtml(conversation.title || 'Untitled conversation');
+  const items: string[] = [];
+
+  for (const entry of timeline(transcript)) {
+    if (entry.type === 'handoff') {
+      const { handoff } = entry;
+      const from = handoff.fromAgentId
+        ? agents.name(handoff.fromAgentId)
+        : 'No agent';
+      items.push(
+        `<li class="handoff">Handoff from ${escapeHtml(from)} to ${escapeHtml(agents.name(handoff.toAgentId))}` +
+          (handoff.reason ? `: ${escapeHtml(handoff.reason)}` : '') +
+          ` <time datetime="${escapeHtml(handoff.at)}">${formatTimestamp(handoff.at)}</time></li>`
+      );
+      continue;
+    }
+
+    const { message } = entry;
+    const parts = [
+      `<div class="meta"><strong>${escapeHtml(authorLabel(message, agents))}</strong> · <time datetime="${escapeHtml(message.createdAt)}">${formatTimestamp(message.createdAt)}</time></div>`,
+      `<div class="content">${escapeHtml(message.content)}</div>`,
+    ];
+
+    if (message.reasoning) {
+      parts.push(
+        `<details><summary>Reasoning</summary><ol>${message.reasoning
+          .map(
+            (step) =>
+              `<li><em>${escapeHtml(step.type)}</em>: ${escapeHtml(step.content)}</li>`
+          )
+          .join('')}</ol></details>`
+      );
+    }
+    for (const call of message.toolCalls ?? []) {
+      parts.push(
+        `<details><summary>Tool call: ${escapeHtml(call.name)}${call.state === 'error' ? ' (failed)' : ''}</summary>` +
+          `<pre>${escapeHtml(JSON.stringify(call.args, null, 2))}</pre>` +
+          (call.result !== undefined
+            ? `<pre>${escapeHtml(JSON.stringify(call.result, null, 2))}</pre>`
+            : '') +
+          '</details>'
+      );
+    }
+    if (message.sources) {
+      parts.push(
+        `<details><summary>Sources</summary><ol>${message.sources
+          .map((source) => `<li>${link(source.title, source.url)}</li>`)
+          .join('')}</ol></details>`
+      );
+    }
+    if (message.attachments) {
+      parts.push(
+        `<ul>${message.attachments
+          .map(
+            (attachment) =>
+              `<li>${link(attachment.filename, attachment.url)}</li>`
+          )
+          .join('')}</ul>`
+      );
+    }
+
+    items.push(
+      `<li class="message role-${message.role}" id="${escapeHtml(message.id)}">${parts.join('')}</li>`
+    );
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<meta name="generator" content="${TRANSCRIPT_SCHEMA}/${transcript.version}">`,
+    `<title>${title}</title>`,
+    `<style>${TRANSCRIPT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    '<header>',
+    `<h1>${title}</h1>`,
+    '<dl>',
+    `<dt>Conversation</dt><dd>${escapeHtml(conversation.id)}</dd>`,
+    `<dt>User</dt><dd>${escapeHtml(conversation.userId)}</dd>`,
+    `<dt>Started</dt><dd>${formatTimestamp(conversation.createdAt)}</dd>`,
+    `<dt>Exported</dt><dd>${formatTimestamp(transcript.exportedAt)}</dd>`,
+    ...(transcript.agents.length > 0
+      ? [
+          `<dt>Agents</dt><dd>${transcript.agents
+            .map((agent) => escapeHtml(`${agent.name} (${agent.type})`))
+            .join(', ')}</dd>`,
+        ]
+      : []),
+    '</dl>',
+    '</header>',
+    `<ol class="transcript">${items.join('\n')}</ol>`,
+    '</main>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Convert transcripts to chat fine-tuning JSONL, one `{ messages }` example
+ * per line. Failed and pending messages are left out.
+ */
+export function toFineTuningJsonl(
+  transcripts: ConversationTranscript[],
+  options: Partial<FineTuningExportOptions> = {}
+): string {
+  const config = { ...DEFAULT_FINE_TUNING_EXPORT_OPTIONS, ...options };
+  const lines: string[] = [];
+
+  for (const transcript of transcripts) {
+    const messages = toFineTuningMessages(transcript, config);
+    if (!messages.some((message) => message.role === 'assistant')) continue;
+
+    if (!config.perTurn) {
+      lines.push(JSON.stringify({ messages }));
+      continue;
+    }
+    messages.forEach((message, index) => {
+      if (message.role === 'assistant') {
+        lines.push(JSON.stringify({ messages: messages.slice(0, index + 1) }));
+      }
+    });
+  }
+
+  return lines.map((line) => `${line}\n`).join('');
+}
+
+function toFineTuningMessages(
+  transcript: ConversationTranscript,
+  options: FineTuningExportOptions
+): FineTuningMessage[] {
+  const messages: FineTuningMessage[] = [];
+  const answered = new Set(
+    transcript.messages.flatMap((message) =>
+      message.role === 'tool' && message.toolCallId ? [message.toolCallId] : []
+    )
+  );
+
+  if (options.systemPrompt && transcript.messages[0]?.role !== 'system') {
+    messages.push({ role: 'system', content: options.systemPrompt });
+  }
+
+  for (const message of transcript.messages) {
+    if (message.status === 'failed' || message.status === 'pending') continue;
+
+    if (message.role === 'tool') {
+      if (options.includeToolCalls && message.toolCallId) {
+        messages.push({
+          role: 'tool',
+          tool_call_id: message.toolCallId,
+          content: message.content,
+        });
+      }
+      continue;
+    }
+
+    const toolCalls = options.includeToolCalls ? (message.toolCalls ?? []) : [];
+    if (message.role === 'assistant' && toolCalls.length > 0) {
+      messages.push({
+        role: 'assistant',
+        content: message.content,
+        tool_calls: toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.args) },
+        })),
+      });
+      for (const call of toolCalls) {
+        if (call.result === undefined || answered.has(call.id)) continue;
+        messages.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          content:
+            typeof call.result === 'string'
+              ? call.result
+              : JSON.stringify(call.result),
+        });
+      }
+      continue;
+    }
+
+    if (message.content.trim()) {
+      messages.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return messages;
+}
+
+// ============================================================================
+// IMPORTING
+// ============================================================================
+
+/**
+ * Parse and validate a JSON transcript. Throws listing every problem found.
+ */
+export function parseTranscript(
+  input: string | unknown
+): ConversationTranscript {
+  let value: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (error) {
+      throw new Error(
+        `Invalid transcript: not valid JSON (${error instanceof Error ? error.message : 'parse error'})`
+      );
+    }
+  }
+
+  const issues: string[] = [];
+  const check = (condition: boolean, path: string, problem: string) => {
+    if (!condition) issues.push(`${path} ${problem}`);
+    return condition;
+  };
+  const isDate = (v: unknown) =>
+    typeof v === 'string' &&
+    ISO_DATE_PATTERN.test(v) &&
+    !Number.isNaN(Date.parse(v));
+
+  if (!isRecord(value)) {
+    throw new Error('Invalid transcript: expected an object');
+  }
+  if (value.schema !== TRANSCRIPT_SCHEMA) {
+    throw new Error(
+      `Invalid transcript: schema must be "${TRANSCRIPT_SCHEMA}"`
+    );
+  }
+  if (value.version !== TRANSCRIPT_VERSION) {
+    throw new Error(
+      `Unsupported transcript version ${String(value.version)}, expected ${TRANSCRIPT_VERSION}`
+    );
+  }
+
+  check(isDate(value.exportedAt), 'exportedAt', 'must be an ISO date');
+
+  const conversation = value.conversation;
+  if (!isRecord(conversation)) {
+    issues.push('conversation must be an object');
+  } else {
+    check(
+      typeof conversation.id === 'string',
+      'conversation.id',
+      'must be a string'
+    );
+    check(
+      typeof conversation.userId === 'string',
+      'conversation.userId',
+      'must be a string'
+    );
+    check(
+      typeof conversation.status === 'string' &&
+        ['active', 'archived', 'deleted'].includes(conversation.status),
+      'conversation.status',
+      'must be active, archived or deleted'
+    );
+    check(
+      isDate(conversation.createdAt),
+      'conversation.createdAt',
+      'must be an ISO date'
+    );
+    check(
+      isDate(conversation.updatedAt),
+      'conversation.updatedAt',
+      'must be an ISO date'
+    );
+    check(
+      Array.isArray(conversation.participatingAgents),
+      'conversation.participatingAgents',
+      'must be an array'
+    );
+    check(
+      isRecord(conversation.metadata),
+      'conversation.metadata',
+      'must be an object'
+    );
+  }
+
+  if (!Array.isArray(value.agents)) {
+    issues.push('agents must be an array');
+  } else {
+    value.agents.forEach((agent: unknown, index: number) => {
+      const path = `agents[${index}]`;
+      if (!isRecord(agent)) {
+        issues.push(`${path} must be an object`);
+        return;
+      }
+      check(typeof agent.id === 'string', `${path}.id`, 'must be a string');
+      check(typeof agent.name === 'string', `${path}.name`, 'must be a string');
+    });
+  }
+
+  if (!Array.isArray(value.handoffs)) {
+    issues.push('handoffs must be an array');
+  } else {
+    value.handoffs.forEach((handoff: unknown, index: number) => {
+      const path = `handoffs[${index}]`;
+      if (!isRecord(handoff)) {
+        issues.push(`${path} must be an object`);
+        return;
+      }
+      check(
+        typeof handoff.toAgentId === 'string',
+        `${path}.toAgentId`,
+        'must be a string'
+      );
+      check(isDate(handoff.at), `${path}.at`, 'must be an ISO date');
+    });
+  }
+
+  if (!Array.isArray(value.messages)) {
+    issues.push('messages must be an array');
+  } else {
+    value.messages.forEach((message: unknown, index: number) => {
+      const path = `messages[${index}]`;
+      if (!isRecord(message)) {
+        issues.push(`${path} must be an object`);
+        return;
+      }
+      check(typeof message.id === 'string', `${path}.id`, 'must be a string');
+      check(
+        typeof message.role === 'string' &&
+          (MESSAGE_ROLES as readonly string[]).includes(message.role),
+        `${path}.role`,
+        `must be one of ${MESSAGE_ROLES.join(', ')}`
+      );
+      check(
+        typeof message.content === 'string',
+        `${path}.content`,
+        'must be a string'
+      );
+      check(
+        isDate(message.createdAt),
+        `${path}.createdAt`,
+        'must be an ISO date'
+      );
+      if (message.toolCalls !== undefined) {
+        check(
+          Array.isArray(message.toolCalls) &&
+            message.toolCalls.every(
+              (call: unknown) => isRecord(call) && typeof call.name === 'string'
+            ),
+          `${path}.toolCalls`,
+          'must be an array of named tool calls'
+        );
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid transcript: ${issues.join('; ')}`);
+  }
+
+  // Store dates in the canonical form the exporter writes
+  const transcript = value as unknown as ConversationTranscript;
+  const iso = (date: string) => new Date(date).toISOString();
+  return {
+    ...transcript,
+    exportedAt: iso(transcript.exportedAt),
+    conversation: {
+      ...transcript.conversation,
+      createdAt: iso(transcript.conversation.createdAt),
+      updatedAt: iso(transcript.conversation.updatedAt),
+    },
+    handoffs: transcript.handoffs.map((handoff) => ({
+      ...handoff,
+      at: iso(handoff.at),
+    })),
+    messages: transcript.messages.map((message) => ({
+      ...message,
+      createdAt: iso(message.createdAt),
+    })),
+  };
+}
+
+/**
+ * Message requests that recreate a transcript's messages. Tool calls,
+ * reasoning, sources and attachments go back into metadata, and the
+ * original ids and timestamps are kept under `metadata.imported`.
+ */
+export function transcriptToMessageRequests(
+  transcript: ConversationTranscript
+): CreateMessageRequest[] {
+  return transcript.messages.map((message) => {
+    const rest = message.metadata ?? {};
+    const ui = {
+      ...((rest.ui as Record<string, unknown> | undefined) ?? {}),
+      ...(message.attachments ? { attachments: message.attachments } : {}),
+    };
+
+    return {
+      role: message.role,
+      content: message.content,
+      ...(message.agentId ? { agentId: message.agentId } : {}),
+      metadata: {
+        ...rest,
+        ...(Object.keys(ui).length > 0 ? { ui } : {}),
+        ...(message.model && rest.model === undefined
+          ? { model: message.model }
+          : {}),
+        ...(message.tokens !== undefined && rest.tokens === undefined
+          ? { tokens: message.tokens }
+          : {}),
+        ...(message.toolCallId ? { toolCallId: message.toolCallId } : {}),
+        ...(message.toolCalls
+          ? {
+              toolInvocations: message.toolCalls.map((call) => ({
+                toolCallId: call.id,
+                toolName: call.name,
+                args: call.args,
+                ...(call.result !== undefined ? { result: call.result } : {}),
+                state: call.state ?? 'complete',
+              })),
+            }
+          : {}),
+        ...(message.reasoning
+          ? { reasoning: { steps: message.reasoning } }
+          : {}),
+        ...(message.sources ? { sources: message.sources } : {}),
+        imported: {
+          conversationId: transcript.conversation.id,
+          messageId: message.id,
+          createdAt: message.createdAt,
+        },
+      },
+    };
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type TimelineEntry =
+  | { type: 'message'; message: TranscriptMessage }
+  | { type: 'handoff'; handoff: TranscriptHandoff };
+
+/**
+ * Messages in order with each handoff placed before the first message at
+ * or after its time
+ */
+function timeline(transcript: ConversationTranscript): TimelineEntry[] {
+  const handoffs = [...transcript.handoffs].sort(
+    (a, b) => Date.parse(a.at) - Date.parse(b.at)
+  );
+  const entries: TimelineEntry[] = [];
+  let next = 0;
+
+  for (const message of transcript.messages) {
+    const time = Date.parse(message.createdAt);
+    while (next < handoffs.length && Date.parse(handoffs[next]!.at) <= time) {
+      entries.push({ type: 'handoff', handoff: handoffs[next++]! });
+    }
+    entries.push({ type: 'message', message });
+  }
+  while (next < handoffs.length) {
+    entries.push({ type: 'handoff', handoff: handoffs[next++]! });
+  }
+  return entries;
+}
+
+function agentLookup(transcript: ConversationTranscript) {
+  const byId = new Map(transcript.agents.map((agent) => [agent.id, agent]));
+  return { name: (id: string) => byId.get(id)?.name ?? id };
+}
+
+function authorLabel(
+  message: TranscriptMessage,
+  agents: ReturnType<typeof agentLookup>
+): string {
+  switch (message.role) {
+    case 'user':
+      return 'User';
+    case 'assistant':
+      return message.agentId ? agents.name(message.agentId) : 'Assistant';
+    case 'system':
+      return 'System';
+    case 'tool':
+      return 'Tool';
+  }
+}
+
+function formatTimestamp(iso: string): string {
+  return `${new Date(iso).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Fenced code block with a fence longer than any backtick run in the text
+ */
+function fence(text: string, language: string): string {
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function link(text: string, url: string | undefined): string {
+  return url && /^https?:\/\//i.test(url)
+    ? `<a href="${escapeHtml(url)}" rel="noopener noreferrer">${escapeHtml(text)}</a>`
+    : escapeHtml(text);
+}
+
+/**
+ * Plain JSON copy, turning dates into ISO strings
+ */
+function toJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value ?? null));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stringOrUndefined(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function numberOrUndefined(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : undefined;
+}
@@ -0,0 +1,649 @@
+/**
+ * Index Advisor
+ *
+ * Turns the index suggestions QueryOptimizer makes for observed query
+ * patterns into ranked recommendations, migrations that create them, and,
+ * once approved, indexes built on the live database. Each applied index is
+ * measured against the queries that motivated it so that indexes which did
+ * not pay off can be found and dropped.
+ */
+
+import { EventEmitter } from 'events';
+import type { ConnectionManager } from './ConnectionManager';
+import type {
+  IndexSuggestion,
+  QueryOptimizer,
+  QueryPattern,
+} from './QueryOptimizer';
+import {
+  migrationDialect,
+  type DialectStatements,
+  type MigrationDialect,
+  type SchemaMigration,
+} from './SchemaMigrations';
+
+/**
+ * Where a recommendation is in the approval workflow
+ */
+export type IndexRecommendationStatus =
+  | 'proposed'
+  | 'approved'
+  | 'rejected'
+  | 'applied'
+  | 'failed';
+
+/**
+ * An index worth creating, with the query patterns it should speed up
+ */
+export interface IndexRecommendation {
+  id: string; // The index name
+  table: string;
+  columns: string[];
+  impact: IndexSuggestion['impact'];
+  reasons: string[];
+  patterns: QueryPattern[];
+  estimatedBenefitMs: number; // Query time saved over the observed executions
+  status: IndexRecommendationStatus;
+  approvedBy?: string;
+  rejectionReason?: string;
+}
+
+/**
+ * Migration creating a recommended index, with the source of a module that
+ * exports it
+ */
+export interface IndexMigrationFile {
+  fileName: string;
+  migration: SchemaMigration;
+  contents: string;
+}
+
+/**
+ * Latency of one affected query pattern around an index build
+ */
+export interface PatternLatency {
+  pattern: string;
+  observedMs: number; // Average recorded by the optimizer
+  beforeMs: number | null; // Measured; null when the query can't be re-run
+  afterMs: number | null;
+  improvementPercent: number | null;
+}
+
+/**
+ * Result of applying an approved index
+ */
+export interface IndexOutcome {
+  recommendation: IndexRecommendation;
+  statement: string;
+  durationMs: number;
+  latency: PatternLatency[];
+  paidOff: boolean | null; // Null when no affected query could be measured
+  error?: string;
+}
+
+/**
+ * Index advisor configuration
+ */
+export interface IndexAdvisorConfig {
+  minExecutions: number; // Patterns run fewer times are ignored
+  maxRecommendations: number;
+  latencySamples: number; // Runs of each query per measurement
+  minImprovementPercent: number; // Improvement for an index to have paid off
+  migrationImportPath: string; // Where generated modules import SchemaMigration from
+  dialect?: MigrationDialect; // Defaults to the connection's provider
+}
+
+export const DEFAULT_INDEX_ADVISOR_CONFIG: IndexAdvisorConfig = {
+  minExecutions: 10,
+  maxRecommendations: 10,
+  latencySamples: 5,
+  minImprovementPercent: 10,
+  migrationImportPath: './SchemaMigrations',
+};
+
+/**
+ * Share of a query's time an index of each impact is expected to save
+ */
+const IMPACT_SHARE: Record<IndexSuggestion['impact'], number> = {
+  high: 0.5,
+  medium: 0.25,
+  low: 0.1,
+};
+
+const IMPACT_ORDER: IndexSuggestion['impact'][] = ['low', 'medium', 'high'];
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Longest identifier postgres keeps
+const MAX_INDEX_NAME_LENGTH = 63;
+
+const NOT_ALIASES = new Set([
+  'where',
+  'join',
+  'inner',
+  'left',
+  'right',
+  'full',
+  'cross',
+  'on',
+  'group',
+  'order',
+  'limit',
+  'offset',
+  'union',
+  'having',
+  'set',
+  'using',
+]);
+
+/**
+ * Columns of the current schema's indexes in index order, as table_name,
+ * index_name and column_name
+ */
+const INDEX_COLUMNS_QUERY: Record<MigrationDialect, string> = {
+  postgres: `
+    SELECT t.relname AS table_name, i.relname AS index_name, a.attname AS column_name
+    FROM pg_index ix
+    JOIN pg_class t ON t.oid = ix.indrelid
+    JOIN pg_class i ON i.oid = ix.indexrelid
+    JOIN pg_namespace n ON n.oid = t.relnamespace
+    CROSS JOIN LATERAL unnest(ix.indkey) WITH ORDINALITY AS k(attnum, position)
+    JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+    WHERE n.nspname = current_schema()
+    ORDER BY t.relname, i.relname, k.position
+  `,
+  mysql: `
+    SELECT table_name AS table_name, index_name AS index_name, column_name AS column_name
+    FROM information_schema.statistics
+    WHERE table_schema = DATABASE()
+    ORDER BY table_name, index_name, seq_in_index
+  `,
+  sqlite: `
+    SELECT m.name AS table_name, il.name AS index_name, ii.name AS column_name
+    FROM sqlite_master m
+    JOIN pragma_index_list(m.name) il
+    JOIN pragma_index_info(il.name) ii
+    WHERE m.type = 'table'
+    ORDER BY m.name, il.name, ii.seqno
+  `,
+};
+
+/**
+ * Tables a query reads, by the names and aliases it refers to them with
+ */
+function tableAliases(query: string): Map<string, string> {
+  const aliases = new Map<string, string>();
+  for (const match of query.matchAll(
+    /\b(?:FROM|JOIN)\s+(\w+)(?:\s+(?:AS\s+)?(\w+))?/gi
+  )) {
+    const [, table, alias] = match;
+    aliases.set(table!.toLowerCase(), table!);
+    if (alias && !NOT_ALIASES.has(alias.toLowerCase())) {
+      aliases.set(alias.toLowerCase(), table!);
+    }
+  }
+  return aliases;
+}
+
+/**
+ * The table a suggestion is for. The optimizer names unqualified columns'
+ * table `table_name`, which is only resolvable when the query reads one
+ * table.
+ */
+function resolveTable(
+  suggestion: IndexSuggestion,
+  query: string
+): string | null {
+  const aliases = tableAliases(query);
+  if (suggestion.table === 'table_name') {
+    const tables = new Set(aliases.values());
+    return tables.size === 1 ? [...tables][0]! : null;
+  }
+  return aliases.get(suggestion.table.toLowerCase()) ?? suggestion.table;
+}
+
+function indexName(table: string, columns: string[]): string {
+  return `idx_${table}_${columns.join('_')}`
+    .toLowerCase()
+    .slice(0, MAX_INDEX_NAME_LENGTH);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]!
+    : (sorted[middle - 1]! + sorted[middle]!) / 2;
+}
+
+/**
+ * Whether a recorded query can be run again as is: a single plain SELECT
+ * with its values inline rather than bound. CTEs may modify data, and
+ * locking or INTO clauses take locks or write, so those are never re-run.
+ */
+function isRepeatable(query: string): boolean {
+  return (
+    /^\s*SELECT\b/i.test(query) &&
+    !/\$\d+|\?/.test(query) &&
+    !/;\s*\S/.test(query) &&
+    !/\bFOR\s+(UPDATE|SHARE|NO\s+KEY\s+UPDATE|KEY\s+SHARE)\b|\bLOCK\s+IN\s+SHARE\s+MODE\b|\bINTO\b/i.test(
+      query
+    )
+  );
+}
+
+/**
+ * Run a MySQL index statement only if the index exists (`exists`) or not,
+ * through a prepared statement on the migration's session
+ */
+function guardMySQLIndex(
+  { id, table }: IndexRecommendation,
+  exists: boolean,
+  statement: string
+): string[] {
+  const count = `SELECT COUNT(*) FROM information_schema.statistics WHERE table_schema = DATABASE() AND table_name = '${table}' AND index_name = '${id}'`;
+  return [
+    `SET @index_statement = IF((${count}) ${exists ? '>' : '='} 0, '${statement.replace(/;$/, '')}', 'DO 0');`,
+    'PREPARE index_statement FROM @index_statement;',
+    'EXECUTE index_statement;',
+    'DEALLOCATE PREPARE index_statement;',
+  ];
+}
+
+export class IndexAdvisor extends EventEmitter {
+  private connectionManager: ConnectionManager;
+  private optimizer: QueryOptimizer;
+  private config: IndexAdvisorConfig;
+  private recommendations = new Map<string, IndexRecommendation>();
+  readonly dialect: MigrationDialect;
+
+  constructor(
+    connectionManager: ConnectionManager,
+    optimizer: QueryOptimizer,
+    config: Partial<IndexAdvisorConfig> = {}
+  ) {
+    super();
+    this.connectionManager = connectionManager;
+    this.optimizer = optimizer;
+    this.config = { ...DEFAULT_INDEX_ADVISOR_CONFIG, ...config };
+    this.dialect =
+      this.config.dialect ?? migrationDialect(connectionManager.getProvider());
+  }
+
+  /**
+   * Rank the indexes suggested for observed query patterns by the query time
+   * they are estimated to save, leaving out those an existing index already
+   * covers. Recommendations already approved, rejected or applied keep
+   * their status.
+   */
+  async recommend(): Promise<IndexRecommendation[]> {
+    const existing = await this.existingIndexes();
+    const candidates = new Map<string, IndexRecommendation>();
+
+    for (const pattern of this.optimizer.analyzePatterns()) {
+      if (pattern.executionCount < this.config.minExecutions) continue;
+
+      const analysis = await this.optimizer.analyzeQuery(pattern.sampleQuery);
+      for (const suggestion of analysis.indexSuggestions) {
+        const table = resolveTable(suggestion, pattern.sampleQuery);
+        const columns = suggestion.columns;
+        if (
+          !table ||
+          columns.length === 0 ||
+          ![table, ...columns].every((name) => IDENTIFIER.test(name)) ||
+          this.isCovered(existing, table, columns)
+        ) {
+          continue;
+        }
+
+        const id = indexName(table, columns);
+        const candidate: IndexRecommendation = candidates.get(id) ?? {
+          id,
+          table,
+          columns,
+          impact: suggestion.impact,
+          reasons: [],
+          patterns: [],
+          estimatedBenefitMs: 0,
+          status: 'proposed',
+        };
+        if (!candidate.reasons.includes(suggestion.reason)) {
+          candidate.reasons.push(suggestion.reason);
+        }
+        if (!candidate.patterns.includes(pattern)) {
+          candidate.patterns.push(pattern);
+          candidate.estimatedBenefitMs +=
+            pattern.executionCount *
+            pattern.averagePerformance *
+            IMPACT_SHARE[suggestion.impact];
+        }
+        if (
+          IMPACT_ORDER.indexOf(suggestion.impact) >
+          IMPACT_ORDER.indexOf(candidate.impact)
+        ) {
+          candidate.impact = suggestion.impact;
+        }
+        candidates.set(id, candidate);
+      }
+    }
+
+    const ranked = [...candidates.values()]
+      .sort((a, b) => b.estimatedBenefitMs - a.estimatedBenefitMs)
+      .slice(0, this.config.maxRecommendations)
+      .map((candidate) => {
+        const previous = this.recommendations.get(candidate.id);
+        return previous
+          ? {
+              ...candidate,
+              status: previous.status,
+              ...(previous.approvedBy !== undefined
+                ? { approvedBy: previous.approvedBy }
+                : {}),
+              ...(previous.rejectionReason !== undefined
+                ? { rejectionReason: previous.rejectionReason }
+                : {}),
+            }
+          : candidate;
+      });
+
+    for (const recommendation of ranked) {
+      this.recommendations.set(recommendation.id, recommendation);
+    }
+    this.emit('recommendations', ranked);
+    return ranked;
+  }
+
+  /**
+   * Recommendations made so far, by descending estimated benefit
+   */
+  getRecommendations(): IndexRecommendation[] {
+    return [...this.recommendations.values()].sort(
+      (a, b) => b.estimatedBenefitMs - a.estimatedBenefitMs
+    );
+  }
+
+  /**
+   * Migrations creating the given recommendations, numbered from
+   * `startVersion`. The statements are idempotent, so a migration can still
+   * be run after its index was applied directly. MySQL has no IF [NOT]
+   * EXISTS for indexes, so its statements check information_schema first.
+   */
+  generateMigrations(
+    ids: readonly string[],
+    startVersion: number
+  ): IndexMigrationFile[] {
+    return ids.map((id, index) => {
+      const recommendation = this.getRecommendation(id);
+      const version = startVersion + index;
+      const up = this.createStatements(recommendation);
+      const down = this.dropStatements(recommendation);
+      const migration: SchemaMigration = {
+        version,
+        name: `add_${recommendation.id}`,
+        up: {
+          ...up,
+          mysql: guardMySQLIndex(recommendation, false, up.mysql![0]!),
+        },
+        down: {
+          ...down,
+          mysql: guardMySQLIndex(recommendation, true, down.mysql![0]!),
+        },
+        // CREATE INDEX CONCURRENTLY cannot run inside a transaction
+        transaction: false,
+      };
+
+      const patterns = recommendation.patterns
+        .map((pattern) => ` *   ${pattern.pattern.replace(/\*\//g, '* /')}`)
+        .join('\n');
+      const contents = `/**
+ * ${recommendation.reasons.join('; ')} on ${recommendation.table} (${recommendation.columns.join(', ')}).
+ * Recommended for:
+${patterns}
+ */
+import type { SchemaMigration } from '${this.config.migrationImportPath}';
+
+export const migration: SchemaMigration = ${JSON.stringify(migration, null, 2)};
+`;
+
+      return {
+        fileName: `${String(version).padStart(4, '0')}_${migration.name}.ts`,
+        migration,
+        contents,
+      };
+    });
+  }
+
+  /**
+   * Approve a recommendation for applying
+   */
+  approve(id: string, approvedBy: string): IndexRecommendation {
+    const recommendation = this.getRecommendation(id);
+    if (recommendation.status !== 'proposed') {
+      throw new Error(`Index ${id} is ${recommendation.status}`);
+    }
+
+    recommendation.status = 'approved';
+    recommendation.approvedBy = approvedBy;
+    this.emit('index-approved', recommendation);
+    return recommendation;
+  }
+
+  reject(id: string, reason: string): IndexRecommendation {
+    const recommendation = this.getRecommendation(id);
+    if (recommendation.status !== 'proposed') {
+      throw new Error(`Index ${id} is ${recommendation.status}`);
+    }
+
+    recommendation.status = 'rejected';
+    recommendation.rejectionReason = reason;
+    this.emit('index-rejected', recommendation);
+    return recommendation;
+  }
+
+  /**
+   * Build an approved index on the live database, on postgres without
+   * blocking writes, and measure the affected queries before and after
+   */
+  async apply(id: string): Promise<IndexOutcome> {
+    const recommendation = this.getRecommendation(id);
+    if (recommendation.status !== 'approved') {
+      throw new Error(
+        `Index ${id} must be approved before it is applied; it is ${recommendation.status}`
+      );
+    }
+
+    const before = await this.measurePatterns(recommendation.patterns);
+    const [statement] = this.createStatements(recommendation)[this.dialect]!;
+    const startTime = Date.now();
+
+    try {
+      await this.connectionManager.query(statement!, undefined, {
+        useCache: false,
+      });
+    } catch (error) {
+      // A failed concurrent build leaves an invalid index behind
+      if (this.dialect === 'postgres') {
+        await this.connectionManager
+          .query(this.dropStatements(recommendation).postgres![0]!, undefined, {
+            useCache: false,
+          })
+          .catch(() => undefined);
+      }
+
+      recommendation.status = 'failed';
+      const outcome: IndexOutcome = {
+        recommendation,
+        statement: statement!,
+        durationMs: Date.now() - startTime,
+        latency: [],
+        paidOff: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+      this.emit('index-failed', outcome);
+      return outcome;
+    }
+
+    // The index exists from here on, whatever the measurement does
+    recommendation.status = 'applied';
+    const durationMs = Date.now() - startTime;
+    const after = await this.measurePatterns(recommendation.patterns);
+    const latency = recommendation.patterns.map((pattern, index) => {
+      const beforeMs = before[index] ?? null;
+      const afterMs = after[index] ?? null;
+      return {
+        pattern: pattern.pattern,
+        observedMs: pattern.averagePerformance,
+        beforeMs,
+        afterMs,
+        improvementPercent:
+          beforeMs !== null && afterMs !== null && beforeMs > 0
+            ? ((beforeMs - afterMs) / beforeMs) * 100
+            : null,
+      };
+    });
+    const measured = latency.filter(
+      (entry) => entry.improvementPercent !== null
+    );
+
+    const outcome: IndexOutcome = {
+      recommendation,
+      statement: statement!,
+      durationMs,
+      latency,
+      paidOff:
+        measured.length > 0
+          ? measured.some(
+              (entry) =>
+                entry.improvementPercent! >= this.config.minImprovementPercent
+            )
+          : null,
+    };
+    this.emit('index-applied', outcome);
+    return outcome;
+  }
+
+  /**
+   * Apply every approved recommendation, one at a time
+   */
+  async applyApproved(): Promise<IndexOutcome[]> {
+    const outcomes: IndexOutcome[] = [];
+    for (const recommendation of this.getRecommendations()) {
+      if (recommendation.status === 'approved') {
+        outcomes.push(await this.apply(recommendation.id));
+      }
+    }
+    return outcomes;
+  }
+
+  private getRecommendation(id: string): IndexRecommendation {
+    const recommendation = this.recommendations.get(id);
+    if (!recommendation) {
+      throw new Error(`Unknown index recommendation: ${id}`);
+    }
+    return recommendation;
+  }
+
+  private createStatements(
+    recommendation: IndexRecommendation
+  ): DialectStatements {
+    const { id, table, columns } = recommendation;
+    const target = `${table} (${columns.join(', ')})`;
+    return {
+      postgres: [`CREATE INDEX CONCURRENTLY IF NOT EXISTS ${id} ON ${target};`],
+      sqlite: [`CREATE INDEX IF NOT EXISTS ${id} ON ${target};`],
+      mysql: [`CREATE INDEX ${id} ON ${target} ALGORITHM=INPLACE LOCK=NONE;`],
+    };
+  }
+
+  private dropStatements(
+    recommendation: IndexRecommendation
+  ): DialectStatements {
+    const { id, table } = recommendation;
+    return {
+      postgres: [`DROP INDEX CONCURRENTLY IF EXISTS ${id};`],
+      sqlite: [`DROP INDEX IF EXISTS ${id};`],
+      mysql: [`DROP INDEX ${id} ON ${table};`],
+    };
+  }
+
+  /**
+   * Median latency of each pattern's sample query, or null for queries
+   * that can't be re-run or fail when they are
+   */
+  private async measurePatterns(
+    patterns: QueryPattern[]
+  ): Promise<Array<number | null>> {
+    const latencies: Array<number | null> = [];
+    for (const pattern of patterns) {
+      if (!isRepeatable(pattern.sampleQuery)) {
+        latencies.push(null);
+        continue;
+      }
+
+      const samples: number[] = [];
+      try {
+        for (let i = 0; i < this.config.latencySamples; i++) {
+          const startTime = performance.now();
+          await this.connectionManager.query(pattern.sampleQuery, undefined, {
+            useCache: false,
+          });
+          samples.push(performance.now() - startTime);
+        }
+      } catch {
+        latencies.push(null);
+        continue;
+      }
+      latencies.push(median(samples));
+    }
+    return latencies;
+  }
+
+  /**
+   * Columns of each existing index, by table
+   */
+  private async existingIndexes(): Promise<Map<string, string[][]>> {
+    const result = await this.connectionManager.query<
+      Array<{ table_name: string; index_name: string; column_name: string }>
+    >(INDEX_COLUMNS_QUERY[this.dialect], undefined, { useCache: false });
+
+    const indexes = new Map<string, string[]>();
+    const tables = new Map<string, string[][]>();
+    for (const row of result.data) {
+      const key = `${row.table_name}.${row.index_name}`;
+      if (!indexes.has(key)) {
+        const columns: string[] = [];
+        indexes.set(key, columns);
+        const table = row.table_name.toLowerCase();
+        tables.set(table, [...(tables.get(table) ?? []), columns]);
+      }
+      indexes.get(key)!.push(row.column_name.toLowerCase());
+    }
+    return tables;
+  }
+
+  /**
+   * Whether an existing index starts with the given columns, in order
+   */
+  private isCovered(
+    existing: Map<string, string[][]>,
+    table: string,
+    columns: string[]
+  ): boolean {
+    return (existing.get(table.toLowerCase()) ?? []).some((indexColumns) =>
+      columns.every(
+        (column, position) => indexColumns[position] === column.toLowerCase()
+      )
+    );
+  }
+}
+
+/**
+ * Create an index advisor for a connection and the optimizer observing it
+ */
+export function createIndexAdvisor(
+  connectionManager: ConnectionManager,
+  optimizer: QueryOptimizer,
+  config: Partial<IndexAdvisorConfig> = {}
+): IndexAdvisor {
+  return new IndexAdvisor(connectionManager, optimizer, config);
+}
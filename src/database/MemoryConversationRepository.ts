@@ -0,0 +1,750 @@
+/**
+ * In-Memory Conversation Repository
+ *
+ * Conversation storage held in process memory, for tests, demos and
+ * single-process tools. Rows use the same snake_case fields as the SQL
+ * tables so they share the row mappers, and are copied on the way in and
+ * out so callers never hold references into the store. Search and
+ * statistics follow the same rules as the SQLite repository.
+ */
+
+import type {
+  AgentHandoffRecord,
+  Conversation,
+  ConversationFilter,
+  ConversationListItem,
+  ConversationMessage,
+  ConversationStats,
+  UpdateConversationRequest,
+} from '../types/conversation';
+import { assertTenantContext, type TenantContext } from './TenantContext';
+import {
+  conversationFromRow,
+  conversationListItemFromRow,
+  handoffFromRow,
+  messageFromRow,
+  searchTerms,
+  statsFromRow,
+  type AgentSeed,
+  type ConversationListRow,
+  type ConversationRepository,
+  type ConversationSort,
+  type ConversationSortField,
+  type KeyedRow,
+  type KeysetWindow,
+  type MessageRow,
+  type NewConversationRecord,
+  type NewHandoffRecord,
+  type NewMessageRecord,
+  type RankedConversation,
+  type SchemaReadiness,
+  type ScoredMessage,
+} from './ConversationRepository';
+
+type Row = Record<string, any>;
+
+/**
+ * Tables of an in-memory database, in insertion order
+ */
+export interface MemoryDatabase {
+  conversations: Row[];
+  messages: Row[];
+  agents: Map<string, Row>;
+  handoffs: Row[];
+  analytics: Row[];
+}
+
+export function createMemoryDatabase(): MemoryDatabase {
+  return {
+    conversations: [],
+    messages: [],
+    agents: new Map(),
+    handoffs: [],
+    analytics: [],
+  };
+}
+
+/**
+ * Sort values behind each conversation sort field
+ */
+const CONVERSATION_SORT_VALUES: Record<
+  ConversationSortField,
+  (row: Row) => Date | number
+> = {
+  createdAt: (row) => row.created_at,
+  updatedAt: (row) => row.updated_at,
+  messageCount: (row) => row.message_count,
+  lastMessageAt: (row) => row.last_message_at ?? row.created_at,
+};
+
+const SEVEN_DAYS_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Copy a row, including its JSON fields, as the row type it is read as
+ */
+function copy<T extends object = Row>(row: Row): T {
+  const copied = { ...row };
+  for (const field of [
+    'participating_agents',
+    'metadata',
+    'shared_context',
+  ] as const) {
+    if (copied[field] !== undefined) {
+      copied[field] = JSON.parse(JSON.stringify(copied[field]));
+    }
+  }
+  return copied as T;
+}
+
+/**
+ * Key a sort value for a cursor
+ */
+function keyOf(value: Date | number): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Compare sort keys field by field
+ */
+function compareKeys(a: (number | string)[], b: (number | string)[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i]! < b[i]!) return -1;
+    if (a[i]! > b[i]!) return 1;
+  }
+  return 0;
+}
+
+/**
+ * Order rows by a sort key and read a window of them, seeking past
+ * `window.after` once parsed into a comparable key
+ */
+function readWindow<T extends Row>(
+  rows: T[],
+  keyFor: (row: T) => (number | string)[],
+  direction: 'asc' | 'desc',
+  window: KeysetWindow,
+  after: (number | string)[] | undefined
+): T[] {
+  const sign = direction === 'desc' ? -1 : 1;
+  const sorted = rows
+    .map((row) => ({ row, key: keyFor(row) }))
+    .sort((a, b) => sign * compareKeys(a.key, b.key));
+  const remaining = after
+    ? sorted.filter((entry) => sign * compareKeys(entry.key, after) > 0)
+    : sorted;
+
+  return remaining
+    .slice(window.offset, window.offset + window.limit)
+    .map((entry) => entry.row);
+}
+
+/**
+ * Times the search terms occur in a text, or null unless it contains them
+ * all
+ */
+function scoreText(text: string, terms: string[]): number | null {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const lower = text.toLowerCase();
+  let score = 0;
+  for (const term of terms) {
+    const occurrences = lower.split(term).length - 1;
+    if (occurrences === 0) {
+      return null;
+    }
+    score += occurrences;
+  }
+  return score;
+}
+
+export class MemoryConversationRepository implements ConversationRepository {
+  private resolveDatabase: () => MemoryDatabase;
+
+  /**
+   * @param database - Database, or a function returning it
+   */
+  constructor(database: MemoryDatabase | (() => MemoryDatabase)) {
+    this.resolveDatabase =
+      typeof database === 'function' ? database : () => database;
+  }
+
+  /**
+   * Memory needs no schema, so is always ready
+   */
+  async prepare(): Promise<SchemaReadiness> {
+    return { ready: true };
+  }
+
+  async seedAgents(agents: readonly AgentSeed[]): Promise<void> {
+    const now = new Date();
+    for (const agent of agents) {
+      if (!this.db.agents.has(agent.id)) {
+        this.db.agents.set(agent.id, {
+          id: agent.id,
+          name: agent.name,
+          type: agent.type,
+          description: agent.description,
+          capabilities: [...agent.capabilities],
+          specialization: [...agent.specialization],
+          model: agent.model,
+          configuration: JSON.parse(JSON.stringify(agent.configuration)),
+          color: agent.color,
+          icon: agent.icon,
+          is_active: true,
+          created_at: now,
+          updated_at: now,
+        });
+      }
+    }
+  }
+
+  async insertConversation(
+    context: TenantContext,
+    record: NewConversationRecord
+  ): Promise<Conversation> {
+    assertTenantContext(context);
+    const now = new Date();
+    const row: Row = {
+      id: record.id,
+      tenant_id: context.tenantId,
+      user_id: context.userId,
+      title: record.title,
+      status: 'active',
+      current_agent_id: record.currentAgentId,
+      participating_agents: record.participatingAgents,
+      created_at: now,
+      updated_at: now,
+      deleted_at: null,
+      metadata: record.metadata,
+      message_count: 0,
+      last_message_at: null,
+      total_tokens: 0,
+      created_by: context.userId,
+      updated_by: null,
+      version: 1,
+    };
+
+    this.db.conversations.push(copy(row));
+    return conversationFromRow(copy(row));
+  }
+
+  async findConversation(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<Conversation | null> {
+    assertTenantContext(context);
+    const row = this.ownedConversation(context, conversationId);
+    return row ? conversationFromRow(copy(row)) : null;
+  }
+
+  async updateConversation(
+    context: TenantContext,
+    conversationId: string,
+    updates: UpdateConversationRequest
+  ): Promise<Conversation | null> {
+    assertTenantContext(context);
+    const row = this.ownedConversation(context, conversationId);
+    if (!row) {
+      return null;
+    }
+
+    const now = new Date();
+    if (updates.title !== undefined) {
+      row.title = updates.title;
+    }
+
+    if (updates.status !== undefined) {
+      row.status = updates.status;
+
+      if ((updates.status as string) === 'deleted') {
+        row.deleted_at = now;
+      }
+    }
+
+    // Replace top-level metadata keys, as postgres `||` does
+    if (updates.metadata) {
+      row.metadata = {
+        ...row.metadata,
+        ...JSON.parse(JSON.stringify(updates.metadata)),
+      };
+    }
+
+    row.updated_by = context.userId;
+    row.updated_at = now;
+    row.version += 1;
+    return conversationFromRow(copy(row));
+  }
+
+  async countConversations(
+    context: TenantContext,
+    filter: ConversationFilter
+  ): Promise<number> {
+    assertTenantContext(context);
+    return this.filterConversations(context, filter).length;
+  }
+
+  async listConversations(
+    context: TenantContext,
+    filter: ConversationFilter,
+    sort: ConversationSort,
+    window: KeysetWindow
+  ): Promise<KeyedRow<ConversationListItem>[]> {
+    assertTenantContext(context);
+    const sortValue = CONVERSATION_SORT_VALUES[sort.field];
+    const keyFor = (row: Row) => [Number(sortValue(row)), row.id as string];
+    const after = window.after && [
+      sort.field === 'messageCount'
+        ? Number(window.after[0])
+        : new Date(window.after[0]!).getTime(),
+      window.after[1]!,
+    ];
+
+    const rows = readWindow(
+      this.filterConversations(context, filter),
+      keyFor,
+      sort.direction,
+      window,
+      after
+    );
+
+    return rows.map((row) => ({
+      row: conversationListItemFromRow({
+        ...copy<ConversationListRow>(row),
+        last_message_preview: this.lastMessage(row)?.content ?? null,
+      }),
+      key: [keyOf(sortValue(row)), row.id],
+    }));
+  }
+
+  async insertMessage(
+    context: TenantContext,
+    record: NewMessageRecord
+  ): Promise<ConversationMessage> {
+    assertTenantContext(context);
+    const now = new Date();
+    const row: Row = {
+      id: record.id,
+      conversation_id: record.conversationId,
+      tenant_id: context.tenantId,
+      role: record.role,
+      content: record.content,
+      agent_id: record.agentId,
+      status: 'completed',
+      created_at: now,
+      updated_at: now,
+      tokens: 0,
+      model: null,
+      metadata: record.metadata,
+      created_by: context.userId,
+    };
+
+    this.db.messages.push(copy(row));
+    const conversation = this.tenantConversation(
+      context,
+      record.conversationId
+    );
+    if (conversation) {
+      conversation.message_count += 1;
+      conversation.total_tokens += row.tokens;
+      conversation.last_message_at = now;
+      conversation.updated_at = now;
+      conversation.version += 1;
+    }
+
+    return messageFromRow(copy(row));
+  }
+
+  async setCurrentAgent(
+    context: TenantContext,
+    conversationId: string,
+    agentId: string
+  ): Promise<void> {
+    assertTenantContext(context);
+    const conversation = this.tenantConversation(context, conversationId);
+    if (conversation) {
+      this.makeCurrent(conversation, agentId);
+    }
+  }
+
+  async countMessages(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<number> {
+    assertTenantContext(context);
+    return this.conversationMessages(context, conversationId).length;
+  }
+
+  async listMessages(
+    context: TenantContext,
+    conversationId: string,
+    window: KeysetWindow
+  ): Promise<KeyedRow<ConversationMessage>[]> {
+    assertTenantContext(context);
+    const after = window.after && [
+      new Date(window.after[0]!).getTime(),
+      window.after[1]!,
+    ];
+
+    const rows = readWindow(
+      this.conversationMessages(context, conversationId),
+      (row) => [row.created_at.getTime(), row.id],
+      'asc',
+      window,
+      after
+    );
+
+    return rows.map((row) => ({
+      row: this.messageWithAgent(row),
+      key: [keyOf(row.created_at), row.id],
+    }));
+  }
+
+  async countSearchResults(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter
+  ): Promise<number> {
+    assertTenantContext(context);
+    return this.searchMatches(context, query, filters).length;
+  }
+
+  async searchConversations(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter,
+    window: KeysetWindow
+  ): Promise<KeyedRow<RankedConversation>[]> {
+    assertTenantContext(context);
+    const after = window.after && [
+      Number(window.after[0]),
+      new Date(window.after[1]!).getTime(),
+      window.after[2]!,
+    ];
+
+    const matches = readWindow(
+      this.searchMatches(context, query, filters),
+      ({ row, rank }) => [rank, row.updated_at.getTime(), row.id],
+      'desc',
+      window,
+      after
+    );
+
+    return matches.map(({ row, rank }) => ({
+      row: { conversation: conversationListItemFromRow(copy(row)), rank },
+      key: [String(rank), keyOf(row.updated_at), row.id],
+    }));
+  }
+
+  async searchMessages(
+    context: TenantContext,
+    conversationId: string,
+    query: string,
+    limit: number
+  ): Promise<ScoredMessage[]> {
+    assertTenantContext(context);
+    const terms = searchTerms(query);
+    const scored: { row: Row; score: number }[] = [];
+    for (const row of this.conversationMessages(context, conversationId)) {
+      const score = scoreText(row.content, terms);
+      if (score !== null) {
+        scored.push({ row, score });
+      }
+    }
+
+    return scored
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          compareKeys(
+            [a.row.created_at.getTime(), a.row.id],
+            [b.row.created_at.getTime(), b.row.id]
+          )
+      )
+      .slice(0, limit)
+      .map(({ row, score }) => ({ message: messageFromRow(copy(row)), score }));
+  }
+
+  async getStats(context: TenantContext): Promise<ConversationStats> {
+    assertTenantContext(context);
+    const owned = this.filterConversations(context, {});
+    const ownedIds = new Set(owned.map((row) => row.id));
+    const sum = (values: number[]) =>
+      values.reduce((total, value) => total + value, 0);
+
+    const agentUsage = new Map<string, number>();
+    for (const row of owned) {
+      for (const agentId of row.participating_agents as string[]) {
+        agentUsage.set(agentId, (agentUsage.get(agentId) ?? 0) + 1);
+      }
+    }
+    const [mostUsed] = [...agentUsage].sort(
+      ([a, aCount], [b, bCount]) => bCount - aCount || (a < b ? -1 : 1)
+    );
+
+    const since = Date.now() - SEVEN_DAYS_MS;
+    const recent = this.db.messages.filter(
+      (row) =>
+        row.tenant_id === context.tenantId &&
+        ownedIds.has(row.conversation_id) &&
+        row.created_at.getTime() > since
+    );
+
+    const responseTimes = this.db.analytics
+      .filter(
+        (row) =>
+          row.tenant_id === context.tenantId &&
+          ownedIds.has(row.conversation_id) &&
+          row.metric_type === 'response_time'
+      )
+      .map((row) => row.metric_value as number);
+
+    return statsFromRow({
+      total_conversations: owned.length,
+      active_conversations: owned.filter((row) => row.status === 'active')
+        .length,
+      archived_conversations: owned.filter((row) => row.status === 'archived')
+        .length,
+      total_messages: sum(owned.map((row) => row.message_count)),
+      total_tokens: sum(owned.map((row) => row.total_tokens)),
+      avg_messages_per_conversation:
+        owned.length > 0
+          ? sum(owned.map((row) => row.message_count)) / owned.length
+          : 0,
+      conversations_last_7_days: new Set(
+        recent.map((row) => row.conversation_id)
+      ).size,
+      messages_last_7_days: recent.length,
+      tokens_last_7_days: sum(recent.map((row) => row.tokens)),
+      most_used_agent_id: mostUsed?.[0],
+      most_used_agent_count: mostUsed?.[1],
+      avg_response_time:
+        responseTimes.length > 0
+          ? sum(responseTimes) / responseTimes.length
+          : 0,
+    });
+  }
+
+  async insertHandoff(
+    context: TenantContext,
+    handoff: NewHandoffRecord
+  ): Promise<void> {
+    assertTenantContext(context);
+    this.db.handoffs.push(
+      copy({
+        id: handoff.id,
+        conversation_id: handoff.conversationId,
+        tenant_id: context.tenantId,
+        from_agent_id: handoff.fromAgentId,
+        to_agent_id: handoff.toAgentId,
+        reason: handoff.reason,
+        shared_context: handoff.sharedContext || {},
+        priority: 'medium',
+        status: 'completed',
+        created_at: new Date(),
+      })
+    );
+
+    const conversation = this.tenantConversation(
+      context,
+      handoff.conversationId
+    );
+    if (conversation) {
+      this.makeCurrent(conversation, handoff.toAgentId);
+      const performance = conversation.metadata.performance ?? {};
+      conversation.metadata.performance = {
+        ...performance,
+        handoffCount: (performance.handoffCount ?? 0) + 1,
+      };
+      conversation.version += 1;
+    }
+  }
+
+  async listHandoffs(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<AgentHandoffRecord[]> {
+    assertTenantContext(context);
+    // A stable sort keeps handoffs recorded in the same millisecond in order
+    return this.db.handoffs
+      .filter(
+        (row) =>
+          row.conversation_id === conversationId &&
+          row.tenant_id === context.tenantId
+      )
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime())
+      .map((row) => handoffFromRow(copy(row)));
+  }
+
+  private get db(): MemoryDatabase {
+    return this.resolveDatabase();
+  }
+
+  /**
+   * A conversation of the tenant, whoever owns it
+   */
+  private tenantConversation(
+    context: TenantContext,
+    conversationId: string
+  ): Row | undefined {
+    return this.db.conversations.find(
+      (row) => row.id === conversationId && row.tenant_id === context.tenantId
+    );
+  }
+
+  /**
+   * A conversation of the context's user that has not been deleted
+   */
+  private ownedConversation(
+    context: TenantContext,
+    conversationId: string
+  ): Row | undefined {
+    const row = this.tenantConversation(context, conversationId);
+    return row && row.user_id === context.userId && !row.deleted_at
+      ? row
+      : undefined;
+  }
+
+  private conversationMessages(
+    context: TenantContext,
+    conversationId: string
+  ): Row[] {
+    return this.db.messages.filter(
+      (row) =>
+        row.conversation_id === conversationId &&
+        row.tenant_id === context.tenantId
+    );
+  }
+
+  private lastMessage(conversation: Row): Row | undefined {
+    let last: Row | undefined;
+    for (const row of this.db.messages) {
+      if (
+        row.conversation_id === conversation.id &&
+        row.tenant_id === conversation.tenant_id &&
+        (!last ||
+          compareKeys(
+            [row.created_at.getTime(), row.id],
+            [last.created_at.getTime(), last.id]
+          ) > 0)
+      ) {
+        last = row;
+      }
+    }
+    return last;
+  }
+
+  private messageWithAgent(row: Row): ConversationMessage {
+    const agent = row.agent_id ? this.db.agents.get(row.agent_id) : undefined;
+    return messageFromRow({
+      ...copy<MessageRow>(row),
+      agent_name: agent?.name ?? null,
+      agent_type: agent?.type ?? null,
+      agent_color: agent?.color ?? null,
+    });
+  }
+
+  private makeCurrent(conversation: Row, agentId: string): void {
+    if (!conversation.participating_agents.includes(agentId)) {
+      conversation.participating_agents.push(agentId);
+    }
+    conversation.current_agent_id = agentId;
+    conversation.updated_at = new Date();
+  }
+
+  /**
+   * Best message score of each conversation of the tenant for a query
+   */
+  private messageRanks(
+    context: TenantContext,
+    query: string
+  ): Map<string, number> {
+    const terms = searchTerms(query);
+    const ranks = new Map<string, number>();
+    for (const row of this.db.messages) {
+      if (row.tenant_id !== context.tenantId) {
+        continue;
+      }
+      const score = scoreText(row.content, terms);
+      if (score !== null) {
+        ranks.set(
+          row.conversation_id,
+          Math.max(score, ranks.get(row.conversation_id) ?? 0)
+        );
+      }
+    }
+    return ranks;
+  }
+
+  /**
+   * The context's conversations that match a filter
+   */
+  private filterConversations(
+    context: TenantContext,
+    filter: ConversationFilter
+  ): Row[] {
+    const start = filter.dateRange?.start
+      ? new Date(filter.dateRange.start).getTime()
+      : undefined;
+    const end = filter.dateRange?.end
+      ? new Date(filter.dateRange.end).getTime()
+      : undefined;
+    const searchIds = filter.search
+      ? this.messageRanks(context, filter.search)
+      : undefined;
+    const { min, max } = filter.messageCountRange ?? {};
+
+    return this.db.conversations.filter((row) => {
+      const createdAt = row.created_at.getTime();
+      const tags: unknown[] = row.metadata.tags ?? [];
+      return (
+        row.tenant_id === context.tenantId &&
+        row.user_id === context.userId &&
+        !row.deleted_at &&
+        (!filter.status || row.status === filter.status) &&
+        (!filter.agentId ||
+          row.participating_agents.includes(filter.agentId)) &&
+        (start === undefined || createdAt >= start) &&
+        (end === undefined || createdAt <= end) &&
+        (!filter.tags ||
+          filter.tags.length === 0 ||
+          filter.tags.some((tag) => tags.includes(tag))) &&
+        (!filter.search ||
+          String(row.title ?? '')
+            .toLowerCase()
+            .includes(filter.search.toLowerCase()) ||
+          searchIds!.has(row.id)) &&
+        (min === undefined || row.message_count >= min) &&
+        (max === undefined || row.message_count <= max)
+      );
+    });
+  }
+
+  /**
+   * Conversations whose title contains the query or whose messages contain
+   * its words, with the best message score of each
+   */
+  private searchMatches(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter
+  ): { row: Row; rank: number }[] {
+    const ranks = this.messageRanks(context, query);
+    const title = query.toLowerCase();
+
+    return this.filterConversations(context, {
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.agentId ? { agentId: filters.agentId } : {}),
+      ...(filters.dateRange ? { dateRange: filters.dateRange } : {}),
+    })
+      .filter(
+        (row) =>
+          ranks.has(row.id) ||
+          String(row.title ?? '')
+            .toLowerCase()
+            .includes(title)
+      )
+      .map((row) => ({ row, rank: ranks.get(row.id) ?? 0 }));
+  }
+}
@@ -0,0 +1,906 @@
+/**
+ * MongoDB Conversation Repository
+ *
+ * Conversation storage for MongoDB. Documents use the same snake_case
+ * fields as the SQL tables, so rows and documents share their mappers.
+ * Counters are updated alongside each write instead of by triggers, and
+ * search ranks messages with a text index scoped by tenant.
+ */
+
+import type {
+  AgentHandoffRecord,
+  Conversation,
+  ConversationFilter,
+  ConversationListItem,
+  ConversationMessage,
+  ConversationStats,
+  UpdateConversationRequest,
+} from '../types/conversation';
+import { assertTenantContext, type TenantContext } from './TenantContext';
+import {
+  conversationFromRow,
+  conversationListItemFromRow,
+  handoffFromRow,
+  messageFromRow,
+  statsFromRow,
+  type AgentSeed,
+  type ConversationListRow,
+  type ConversationRepository,
+  type ConversationRow,
+  type ConversationSort,
+  type ConversationSortField,
+  type HandoffRow,
+  type KeyedRow,
+  type KeysetWindow,
+  type MessageRow,
+  type NewConversationRecord,
+  type NewHandoffRecord,
+  type NewMessageRecord,
+  type RankedConversation,
+  type SchemaReadiness,
+  type ScoredMessage,
+} from './ConversationRepository';
+
+type Document = Record<string, any>;
+
+/**
+ * The parts of the MongoDB driver's cursor the repository uses
+ */
+export interface MongoCursor {
+  toArray(): Promise<Document[]>;
+}
+
+/**
+ * The parts of the MongoDB driver's collection the repository uses
+ */
+export interface MongoCollection {
+  createIndex(
+    keys: Record<string, 1 | -1 | 'text'>,
+    options?: Document
+  ): Promise<unknown>;
+  listIndexes(): MongoCursor;
+  insertOne(document: Document): Promise<unknown>;
+  findOne(filter: Document, options?: Document): Promise<Document | null>;
+  find(filter: Document, options?: Document): MongoCursor;
+  updateOne(
+    filter: Document,
+    update: Document,
+    options?: Document
+  ): Promise<{ matchedCount: number }>;
+  countDocuments(filter: Document): Promise<number>;
+  aggregate(pipeline: Document[]): MongoCursor;
+}
+
+/**
+ * The parts of the MongoDB driver's database the repository uses
+ */
+export interface MongoDatabase {
+  collection(name: string): MongoCollection;
+  command(command: Document): Promise<Document>;
+}
+
+/**
+ * Indexes the repository relies on, by collection
+ */
+const MONGO_INDEXES: ReadonlyArray<{
+  collection: string;
+  keys: Record<string, 1 | -1 | 'text'>;
+  options: { name: string; unique?: boolean };
+}> = [
+  {
+    collection: 'conversations',
+    keys: { id: 1 },
+    options: { name: 'conversations_id', unique: true },
+  },
+  {
+    collection: 'conversations',
+    keys: { tenant_id: 1, user_id: 1, updated_at: -1, id: -1 },
+    options: { name: 'conversations_tenant_keyset' },
+  },
+  {
+    collection: 'messages',
+    keys: { id: 1 },
+    options: { name: 'messages_id', unique: true },
+  },
+  {
+    collection: 'messages',
+    keys: { conversation_id: 1, created_at: 1, id: 1 },
+    options: { name: 'messages_conversation_keyset' },
+  },
+  {
+    collection: 'messages',
+    keys: { tenant_id: 1, content: 'text' },
+    options: { name: 'messages_search' },
+  },
+  {
+    collection: 'conversation_agents',
+    keys: { id: 1 },
+    options: { name: 'conversation_agents_id', unique: true },
+  },
+  {
+    collection: 'agent_handoffs',
+    keys: { conversation_id: 1, created_at: 1 },
+    options: { name: 'agent_handoffs_conversation' },
+  },
+  {
+    collection: 'conversation_analytics',
+    keys: { conversation_id: 1, metric_type: 1 },
+    options: { name: 'conversation_analytics_metric' },
+  },
+];
+
+/**
+ * Expressions behind each conversation sort field
+ */
+const CONVERSATION_SORT_VALUES: Record<ConversationSortField, unknown> = {
+  createdAt: '$created_at',
+  updatedAt: '$updated_at',
+  messageCount: '$message_count',
+  lastMessageAt: { $ifNull: ['$last_message_at', '$created_at'] },
+};
+
+const LIST_FIELDS = {
+  id: 1,
+  title: 1,
+  created_at: 1,
+  updated_at: 1,
+  status: 1,
+  current_agent_id: 1,
+  participating_agents: 1,
+  message_count: 1,
+  last_message_at: 1,
+  total_tokens: 1,
+};
+
+/**
+ * Key a sort value for a cursor
+ */
+function keyOf(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Filter that seeks past a key on the given fields, the last being `id`
+ */
+function seekFilter(
+  fields: string[],
+  values: unknown[],
+  direction: 'asc' | 'desc'
+): Document {
+  const op = direction === 'desc' ? '$lt' : '$gt';
+  return {
+    $or: fields.map((field, index) => ({
+      ...Object.fromEntries(
+        fields.slice(0, index).map((prior, i) => [prior, values[i]])
+      ),
+      [field]: { [op]: values[index] },
+    })),
+  };
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class MongoConversationRepository implements ConversationRepository {
+  private resolveDatabase: () => MongoDatabase;
+
+  /**
+   * @param database - Database, or a function returning it once connected
+   */
+  constructor(database: MongoDatabase | (() => MongoDatabase)) {
+    this.resolveDatabase =
+      typeof database === 'function' ? database : () => database;
+  }
+
+  async prepare(options: { migrate?: boolean }): Promise<SchemaReadiness> {
+    if (options.migrate) {
+      for (const index of MONGO_INDEXES) {
+        await this.collection(index.collection).createIndex(
+          index.keys,
+          index.options
+        );
+      }
+    }
+
+    const missing: string[] = [];
+    for (const index of MONGO_INDEXES) {
+      const existing = await this.indexNames(index.collection);
+      if (!existing.has(index.options.name)) {
+        missing.push(`${index.collection}.${index.options.name}`);
+      }
+    }
+
+    return missing.length === 0
+      ? { ready: true }
+      : {
+          ready: false,
+          reason: `Missing indexes: ${missing.join(', ')}`,
+          details: { missing },
+        };
+  }
+
+  async seedAgents(agents: readonly AgentSeed[]): Promise<void> {
+    const now = new Date();
+    for (const agent of agents) {
+      await this.collection('conversation_agents').updateOne(
+        { id: agent.id },
+        {
+          $setOnInsert: {
+            id: agent.id,
+            name: agent.name,
+            type: agent.type,
+            description: agent.description,
+            capabilities: agent.capabilities,
+            specialization: agent.specialization,
+            model: agent.model,
+            configuration: agent.configuration,
+            color: agent.color,
+            icon: agent.icon,
+            is_active: true,
+            created_at: now,
+            updated_at: now,
+          },
+        },
+        { upsert: true }
+      );
+    }
+  }
+
+  async insertConversation(
+    context: TenantContext,
+    record: NewConversationRecord
+  ): Promise<Conversation> {
+    assertTenantContext(context);
+    const now = new Date();
+    const document: Document = {
+      id: record.id,
+      tenant_id: context.tenantId,
+      user_id: context.userId,
+      title: record.title,
+      status: 'active',
+      current_agent_id: record.currentAgentId,
+      participating_agents: record.participatingAgents,
+      created_at: now,
+      updated_at: now,
+      deleted_at: null,
+      metadata: record.metadata,
+      message_count: 0,
+      last_message_at: null,
+      total_tokens: 0,
+      created_by: context.userId,
+      updated_by: null,
+      version: 1,
+    };
+
+    await this.collection('conversations').insertOne({ ...document });
+    return conversationFromRow(document as ConversationRow);
+  }
+
+  async findConversation(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<Conversation | null> {
+    assertTenantContext(context);
+    const document = await this.collection('conversations').findOne({
+      id: conversationId,
+      tenant_id: context.tenantId,
+      user_id: context.userId,
+      deleted_at: null,
+    });
+
+    return document ? conversationFromRow(document as ConversationRow) : null;
+  }
+
+  async updateConversation(
+    context: TenantContext,
+    conversationId: string,
+    updates: UpdateConversationRequest
+  ): Promise<Conversation | null> {
+    assertTenantContext(context);
+    const now = new Date();
+    const set: Document = { updated_by: context.userId, updated_at: now };
+
+    if (updates.title !== undefined) {
+      set.title = updates.title;
+    }
+
+    if (updates.status !== undefined) {
+      set.status = updates.status;
+
+      if ((updates.status as string) === 'deleted') {
+        set.deleted_at = now;
+      }
+    }
+
+    // Replace top-level metadata keys, as postgres `||` does
+    for (const [key, value] of Object.entries(updates.metadata ?? {})) {
+      set[`metadata.${key}`] = value;
+    }
+
+    const owner = {
+      id: conversationId,
+      tenant_id: context.tenantId,
+      user_id: context.userId,
+    };
+    const result = await this.collection('conversations').updateOne(
+      { ...owner, deleted_at: null },
+      { $set: set, $inc: { version: 1 } }
+    );
+    if (result.matchedCount === 0) {
+      return null;
+    }
+
+    const document = await this.collection('conversations').findOne(owner);
+    return document ? conversationFromRow(document as ConversationRow) : null;
+  }
+
+  async countConversations(
+    context: TenantContext,
+    filter: ConversationFilter
+  ): Promise<number> {
+    assertTenantContext(context);
+    return this.collection('conversations').countDocuments(
+      await this.conversationFilter(context, filter)
+    );
+  }
+
+  async listConversations(
+    context: TenantContext,
+    filter: ConversationFilter,
+    sort: ConversationSort,
+    window: KeysetWindow
+  ): Promise<KeyedRow<ConversationListItem>[]> {
+    assertTenantContext(context);
+    const direction = sort.direction === 'desc' ? -1 : 1;
+    const pipeline: Document[] = [
+      { $match: await this.conversationFilter(context, filter) },
+      { $addFields: { sort_value: CONVERSATION_SORT_VALUES[sort.field] } },
+    ];
+
+    if (window.after) {
+      const [value, id] = window.after;
+      pipeline.push({
+        $match: seekFilter(
+          ['sort_value', 'id'],
+          [
+            sort.field === 'messageCount' ? Number(value) : new Date(value!),
+            id,
+          ],
+          sort.direction
+        ),
+      });
+    }
+
+    pipeline.push(
+      { $sort: { sort_value: direction, id: direction } },
+      { $skip: window.offset },
+      { $limit: window.limit },
+      {
+        $lookup: {
+          from: 'messages',
+          let: { conversationId: '$id', tenantId: '$tenant_id' },
+          pipeline: [
+            {
+              $match: {
+                $expr: {
+                  $and: [
+                    { $eq: ['$conversation_id', '$$conversationId'] },
+                    { $eq: ['$tenant_id', '$$tenantId'] },
+                  ],
+                },
+              },
+            },
+            { $sort: { created_at: -1, id: -1 } },
+            { $limit: 1 },
+            { $project: { content: 1 } },
+          ],
+          as: 'last_message',
+        },
+      },
+      {
+        $project: {
+          ...LIST_FIELDS,
+          sort_value: 1,
+          last_message_preview: { $arrayElemAt: ['$last_message.content', 0] },
+        },
+      }
+    );
+
+    const documents = await this.collection('conversations')
+      .aggregate(pipeline)
+      .toArray();
+    return documents.map((document) => ({
+      row: conversationListItemFromRow(document as ConversationListRow),
+      key: [keyOf(document.sort_value), document.id],
+    }));
+  }
+
+  async insertMessage(
+    context: TenantContext,
+    record: NewMessageRecord
+  ): Promise<ConversationMessage> {
+    assertTenantContext(context);
+    const now = new Date();
+    const document: Document = {
+      id: record.id,
+      conversation_id: record.conversationId,
+      tenant_id: context.tenantId,
+      role: record.role,
+      content: record.content,
+      agent_id: record.agentId,
+      status: 'completed',
+      created_at: now,
+      updated_at: now,
+      tokens: 0,
+      model: null,
+      metadata: record.metadata,
+      created_by: context.userId,
+    };
+
+    await this.collection('messages').insertOne({ ...document });
+    await this.collection('conversations').updateOne(
+      { id: record.conversationId, tenant_id: context.tenantId },
+      {
+        $inc: { message_count: 1, total_tokens: document.tokens, version: 1 },
+        $set: { last_message_at: now, updated_at: now },
+      }
+    );
+
+    return messageFromRow(document as MessageRow);
+  }
+
+  async setCurrentAgent(
+    context: TenantContext,
+    conversationId: string,
+    agentId: string
+  ): Promise<void> {
+    assertTenantContext(context);
+    await this.collection('conversations').updateOne(
+      { id: conversationId, tenant_id: context.tenantId },
+      {
+        $set: { current_agent_id: agentId, updated_at: new Date() },
+        $addToSet: { participating_agents: agentId },
+      }
+    );
+  }
+
+  async countMessages(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<number> {
+    assertTenantContext(context);
+    return this.collection('messages').countDocuments({
+      conversation_id: conversationId,
+      tenant_id: context.tenantId,
+    });
+  }
+
+  async listMessages(
+    context: TenantContext,
+    conversationId: string,
+    window: KeysetWindow
+  ): Promise<KeyedRow<ConversationMessage>[]> {
+    assertTenantContext(context);
+    const match: Document = {
+      conversation_id: conversationId,
+      tenant_id: context.tenantId,
+    };
+    if (window.after) {
+      const [createdAt, id] = window.after;
+      Object.assign(
+        match,
+        seekFilter(['created_at', 'id'], [new Date(createdAt!), id], 'asc')
+      );
+    }
+
+    const documents = await this.collection('messages')
+      .aggregate([
+        { $match: match },
+        { $sort: { created_at: 1, id: 1 } },
+        { $skip: window.offset },
+        { $limit: window.limit },
+        {
+          $lookup: {
+            from: 'conversation_agents',
+            localField: 'agent_id',
+            foreignField: 'id',
+            as: 'agent',
+          },
+        },
+        {
+          $addFields: {
+            agent_name: { $arrayElemAt: ['$agent.name', 0] },
+            agent_type: { $arrayElemAt: ['$agent.type', 0] },
+            agent_color: { $arrayElemAt: ['$agent.color', 0] },
+          },
+        },
+      ])
+      .toArray();
+
+    return documents.map((document) => ({
+      row: messageFromRow(document as MessageRow),
+      key: [keyOf(document.created_at), document.id],
+    }));
+  }
+
+  async countSearchResults(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter
+  ): Promise<number> {
+    assertTenantContext(context);
+    const ranks = await this.messageRanks(context, query);
+    return this.collection('conversations').countDocuments(
+      this.searchFilter(context, query, filters, ranks)
+    );
+  }
+
+  /**
+   * Ranks come from message text scores, so matching conversations are
+   * ranked and ordered here rather than by the database
+   */
+  async searchConversations(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter,
+    window: KeysetWindow
+  ): Promise<KeyedRow<RankedConversation>[]> {
+    assertTenantContext(context);
+    const ranks = await this.messageRanks(context, query);
+    const documents = await this.collection('conversations')
+      .find(this.searchFilter(context, query, filters, ranks), {
+        projection: LIST_FIELDS,
+      })
+      .toArray();
+
+    const ranked = documents
+      .map((document) => ({
+        document,
+        rank: ranks.get(document.id) ?? 0,
+        updatedAt: new Date(document.updated_at).getTime(),
+      }))
+      .sort(
+        (a, b) =>
+          b.rank - a.rank ||
+          b.updatedAt - a.updatedAt ||
+          (b.document.id < a.document.id ? -1 : 1)
+      );
+
+    let start = window.offset;
+    if (window.after) {
+      const [rank, updatedAt, id] = window.after;
+      const after = {
+        rank: Number(rank),
+        updatedAt: new Date(updatedAt!).getTime(),
+      };
+      start = ranked.findIndex(
+        (entry) =>
+          entry.rank < after.rank ||
+          (entry.rank === after.rank &&
+            (entry.updatedAt < after.updatedAt ||
+              (entry.updatedAt === after.updatedAt && entry.document.id < id!)))
+      );
+      if (start === -1) {
+        return [];
+      }
+    }
+
+    return ranked
+      .slice(start, start + window.limit)
+      .map(({ document, rank }) => ({
+        row: {
+          conversation: conversationListItemFromRow(
+            document as ConversationListRow
+          ),
+          rank,
+        },
+        key: [String(rank), keyOf(document.updated_at), document.id],
+      }));
+  }
+
+  async searchMessages(
+    context: TenantContext,
+    conversationId: string,
+    query: string,
+    limit: number
+  ): Promise<ScoredMessage[]> {
+    assertTenantContext(context);
+    const documents = await this.collection('messages')
+      .find(
+        {
+          tenant_id: context.tenantId,
+          conversation_id: conversationId,
+          $text: { $search: query },
+        },
+        {
+          projection: { score: { $meta: 'textScore' } },
+          sort: { score: { $meta: 'textScore' } },
+          limit,
+        }
+      )
+      .toArray();
+
+    return documents.map((document) => ({
+      message: messageFromRow(document as MessageRow),
+      score: Number(document.score) || 0,
+    }));
+  }
+
+  async getStats(context: TenantContext): Promise<ConversationStats> {
+    assertTenantContext(context);
+    const owned = {
+      tenant_id: context.tenantId,
+      user_id: context.userId,
+      deleted_at: null,
+    };
+
+    const [totals] = await this.collection('conversations')
+      .aggregate([
+        { $match: owned },
+        {
+          $group: {
+            _id: null,
+            total_conversations: { $sum: 1 },
+            active_conversations: {
+              $sum: { $cond: [{ $eq: ['$status', 'active'] }, 1, 0] },
+            },
+            archived_conversations: {
+              $sum: { $cond: [{ $eq: ['$status', 'archived'] }, 1, 0] },
+            },
+            total_messages: { $sum: '$message_count' },
+            total_tokens: { $sum: '$total_tokens' },
+            avg_messages_per_conversation: { $avg: '$message_count' },
+          },
+        },
+      ])
+      .toArray();
+
+    const [mostUsed] = await this.collection('conversations')
+      .aggregate([
+        { $match: owned },
+        { $unwind: '$participating_agents' },
+        {
+          $group: {
+            _id: '$participating_agents',
+            conversation_count: { $sum: 1 },
+          },
+        },
+        { $sort: { conversation_count: -1, _id: 1 } },
+        { $limit: 1 },
+      ])
+      .toArray();
+
+    const conversationIds = (
+      await this.collection('conversations')
+        .find(owned, { projection: { id: 1 } })
+        .toArray()
+    ).map((document) => document.id);
+
+    const [recent] = await this.collection('messages')
+      .aggregate([
+        {
+          $match: {
+            tenant_id: context.tenantId,
+            conversation_id: { $in: conversationIds },
+            created_at: { $gt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) },
+          },
+        },
+        {
+          $group: {
+            _id: null,
+            conversations: { $addToSet: '$conversation_id' },
+            messages_last_7_days: { $sum: 1 },
+            tokens_last_7_days: { $sum: '$tokens' },
+          },
+        },
+      ])
+      .toArray();
+
+    const [performance] = await this.collection('conversation_analytics')
+      .aggregate([
+        {
+          $match: {
+            tenant_id: context.tenantId,
+            conversation_id: { $in: conversationIds },
+            metric_type: 'response_time',
+          },
+        },
+        { $group: { _id: null, avg_response_time: { $avg: '$metric_value' } } },
+      ])
+      .toArray();
+
+    return statsFromRow({
+      ...totals,
+      conversations_last_7_days: recent?.conversations.length,
+      messages_last_7_days: recent?.messages_last_7_days,
+      tokens_last_7_days: recent?.tokens_last_7_days,
+      most_used_agent_id: mostUsed?._id,
+      most_used_agent_count: mostUsed?.conversation_count,
+      avg_response_time: performance?.avg_response_time,
+    });
+  }
+
+  async insertHandoff(
+    context: TenantContext,
+    handoff: NewHandoffRecord
+  ): Promise<void> {
+    assertTenantContext(context);
+    const now = new Date();
+
+    await this.collection('agent_handoffs').insertOne({
+      id: handoff.id,
+      conversation_id: handoff.conversationId,
+      tenant_id: context.tenantId,
+      from_agent_id: handoff.fromAgentId,
+      to_agent_id: handoff.toAgentId,
+      reason: handoff.reason,
+      shared_context: handoff.sharedContext || {},
+      priority: 'medium',
+      status: 'completed',
+      created_at: now,
+    });
+
+    await this.collection('conversations').updateOne(
+      { id: handoff.conversationId, tenant_id: context.tenantId },
+      {
+        $set: { current_agent_id: handoff.toAgentId, updated_at: now },
+        $addToSet: { participating_agents: handoff.toAgentId },
+        $inc: { 'metadata.performance.handoffCount': 1, version: 1 },
+      }
+    );
+  }
+
+  async listHandoffs(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<AgentHandoffRecord[]> {
+    assertTenantContext(context);
+    const documents = await this.collection('agent_handoffs')
+      .find(
+        { conversation_id: conversationId, tenant_id: context.tenantId },
+        { sort: { created_at: 1, _id: 1 } }
+      )
+      .toArray();
+
+    return documents.map((document) => handoffFromRow(document as HandoffRow));
+  }
+
+  private collection(name: string): MongoCollection {
+    return this.resolveDatabase().collection(name);
+  }
+
+  /**
+   * Names of a collection's indexes; none when it does not exist yet
+   */
+  private async indexNames(collection: string): Promise<Set<string>> {
+    try {
+      const indexes = await this.collection(collection).listIndexes().toArray();
+      return new Set(indexes.map((index) => index.name as string));
+    } catch {
+      return new Set();
+    }
+  }
+
+  /**
+   * Best text score of each conversation's messages matching a query
+   */
+  private async messageRanks(
+    context: TenantContext,
+    query: string
+  ): Promise<Map<string, number>> {
+    const groups = await this.collection('messages')
+      .aggregate([
+        { $match: { tenant_id: context.tenantId, $text: { $search: query } } },
+        {
+          $group: {
+            _id: '$conversation_id',
+            rank: { $max: { $meta: 'textScore' } },
+          },
+        },
+      ])
+      .toArray();
+
+    return new Map(groups.map((group) => [group._id as string, group.rank]));
+  }
+
+  /**
+   * Filter selecting the context's conversations that match a filter
+   */
+  private async conversationFilter(
+    context: TenantContext,
+    filter: ConversationFilter
+  ): Promise<Document> {
+    const match: Document = {
+      tenant_id: context.tenantId,
+      user_id: context.userId,
+      deleted_at: null,
+    };
+
+    if (filter.status) {
+      match.status = filter.status;
+    }
+
+    if (filter.agentId) {
+      match.participating_agents = filter.agentId;
+    }
+
+    if (filter.dateRange) {
+      match.created_at = {
+        ...(filter.dateRange.start
+          ? { $gte: new Date(filter.dateRange.start) }
+          : {}),
+        ...(filter.dateRange.end
+          ? { $lte: new Date(filter.dateRange.end) }
+          : {}),
+      };
+    }
+
+    if (filter.tags && filter.tags.length > 0) {
+      match['metadata.tags'] = { $in: filter.tags };
+    }
+
+    if (filter.search) {
+      const ranks = await this.messageRanks(context, filter.search);
+      match.$or = [
+        { title: { $regex: escapeRegex(filter.search), $options: 'i' } },
+        { id: { $in: [...ranks.keys()] } },
+      ];
+    }
+
+    if (filter.messageCountRange) {
+      match.message_count = {
+        ...(filter.messageCountRange.min !== undefined
+          ? { $gte: filter.messageCountRange.min }
+          : {}),
+        ...(filter.messageCountRange.max !== undefined
+          ? { $lte: filter.messageCountRange.max }
+          : {}),
+      };
+    }
+
+    return match;
+  }
+
+  /**
+   * Filter for a search: conversations whose title contains the query or
+   * whose messages matched it
+   */
+  private searchFilter(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter,
+    ranks: Map<string, number>
+  ): Document {
+    const match: Document = {
+      tenant_id: context.tenantId,
+      user_id: context.userId,
+      deleted_at: null,
+      $or: [
+        { title: { $regex: escapeRegex(query), $options: 'i' } },
+        { id: { $in: [...ranks.keys()] } },
+      ],
+    };
+
+    if (filters.status) {
+      match.status = filters.status;
+    }
+
+    if (filters.agentId) {
+      match.participating_agents = filters.agentId;
+    }
+
+    if (filters.dateRange) {
+      match.created_at = {
+        ...(filters.dateRange.start
+          ? { $gte: new Date(filters.dateRange.start) }
+          : {}),
+        ...(filters.dateRange.end
+          ? { $lte: new Date(filters.dateRange.end) }
+          : {}),
+      };
+    }
+
+    return match;
+  }
+}
@@ -0,0 +1,730 @@
+/**
+ * MySQL Conversation Repository
+ *
+ * Conversation storage for MySQL 8. Participating agents and metadata are
+ * JSON columns, search ranks messages with the FULLTEXT index on their
+ * content, and triggers keep the conversation counters current. MySQL has
+ * no row-level security, so tenant isolation rests on the `tenant_id`
+ * condition in every query.
+ */
+
+import type { ConnectionManager, QueryResult } from './ConnectionManager';
+import type {
+  AgentHandoffRecord,
+  Conversation,
+  ConversationFilter,
+  ConversationListItem,
+  ConversationMessage,
+  ConversationStats,
+  UpdateConversationRequest,
+} from '../types/conversation';
+import { assertTenantContext, type TenantContext } from './TenantContext';
+import {
+  conversationFromRow,
+  conversationListItemFromRow,
+  handoffFromRow,
+  messageFromRow,
+  prepareSqlSchema,
+  statsFromRow,
+  type AgentSeed,
+  type ConversationListRow,
+  type ConversationRepository,
+  type ConversationRow,
+  type ConversationSort,
+  type ConversationSortField,
+  type HandoffRow,
+  type KeyedRow,
+  type KeysetWindow,
+  type MessageRow,
+  type NewConversationRecord,
+  type NewHandoffRecord,
+  type NewMessageRecord,
+  type RankedConversation,
+  type SchemaReadiness,
+  type ScoredMessage,
+  type SortedRow,
+  type StatsRow,
+} from './ConversationRepository';
+
+/**
+ * Columns behind each conversation sort field
+ */
+const CONVERSATION_SORT_COLUMNS: Record<ConversationSortField, string> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  messageCount: 'message_count',
+  lastMessageAt: 'COALESCE(last_message_at, created_at)',
+};
+
+/**
+ * Add the agent given twice as parameters to `participating_agents` unless
+ * it is already there
+ */
+const APPEND_PARTICIPANT = `IF(
+          JSON_CONTAINS(COALESCE(participating_agents, JSON_ARRAY()), JSON_QUOTE(?)),
+          participating_agents,
+          JSON_ARRAY_APPEND(COALESCE(participating_agents, JSON_ARRAY()), '$', ?)
+        )`;
+
+const MATCH_CONTENT = 'MATCH(content) AGAINST (? IN NATURAL LANGUAGE MODE)';
+
+/**
+ * Result of a write through mysql2
+ */
+interface ResultSetHeader {
+  affectedRows: number;
+}
+
+/**
+ * WHERE conditions and their values, in placeholder order
+ */
+interface Conditions {
+  conditions: string[];
+  values: unknown[];
+}
+
+/**
+ * Row comparison that seeks past a key in the given direction
+ */
+function seekCondition(columns: string[], direction: 'asc' | 'desc'): string {
+  return `(${columns.join(', ')}) ${direction === 'desc' ? '<' : '>'} (${columns.map(() => '?').join(', ')})`;
+}
+
+/**
+ * LIMIT and OFFSET inlined as integers; prepared statements reject numeric
+ * parameters for them on recent MySQL versions
+ */
+function limitClause(window: KeysetWindow): string {
+  const limit = Math.max(0, Math.floor(window.limit));
+  const offset = Math.max(0, Math.floor(window.offset));
+  return `LIMIT ${limit} OFFSET ${offset}`;
+}
+
+export class MySQLConversationRepository implements ConversationRepository {
+  private connectionManager: ConnectionManager;
+
+  constructor(connectionManager: ConnectionManager) {
+    this.connectionManager = connectionManager;
+  }
+
+  prepare(options: { migrate?: boolean }): Promise<SchemaReadiness> {
+    return prepareSqlSchema(this.connectionManager, options);
+  }
+
+  async seedAgents(agents: readonly AgentSeed[]): Promise<void> {
+    for (const agent of agents) {
+      await this.connectionManager.query(
+        `
+        INSERT IGNORE INTO conversation_agents
+        (id, name, type, description, capabilities, specialization, model, configuration, color, icon)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+        [
+          agent.id,
+          agent.name,
+          agent.type,
+          agent.description,
+          JSON.stringify(agent.capabilities),
+          JSON.stringify(agent.specialization),
+          agent.model,
+          JSON.stringify(agent.configuration),
+          agent.color,
+          agent.icon,
+        ]
+      );
+    }
+  }
+
+  async insertConversation(
+    context: TenantContext,
+    record: NewConversationRecord
+  ): Promise<Conversation> {
+    await this.query(
+      context,
+      `
+      INSERT INTO conversations (id, user_id, title, current_agent_id, participating_agents, metadata, created_by, tenant_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+      [
+        record.id,
+        context.userId,
+        record.title,
+        record.currentAgentId,
+        JSON.stringify(record.participatingAgents),
+        JSON.stringify(record.metadata),
+        context.userId,
+        context.tenantId,
+      ]
+    );
+
+    const result = await this.query<ConversationRow[]>(
+      context,
+      'SELECT * FROM conversations WHERE id = ? AND tenant_id = ?',
+      [record.id, context.tenantId]
+    );
+    return conversationFromRow(result.data[0]!);
+  }
+
+  async findConversation(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<Conversation | null> {
+    const result = await this.query<ConversationRow[]>(
+      context,
+      `
+      SELECT * FROM conversations
+      WHERE id = ? AND tenant_id = ? AND user_id = ? AND deleted_at IS NULL
+    `,
+      [conversationId, context.tenantId, context.userId]
+    );
+
+    return result.data[0] ? conversationFromRow(result.data[0]) : null;
+  }
+
+  async updateConversation(
+    context: TenantContext,
+    conversationId: string,
+    updates: UpdateConversationRequest
+  ): Promise<Conversation | null> {
+    const setClauses: string[] = [];
+    const values: unknown[] = [];
+
+    if (updates.title !== undefined) {
+      setClauses.push('title = ?');
+      values.push(updates.title);
+    }
+
+    if (updates.status !== undefined) {
+      setClauses.push('status = ?');
+      values.push(updates.status);
+
+      if ((updates.status as string) === 'deleted') {
+        setClauses.push('deleted_at = CURRENT_TIMESTAMP(3)');
+      }
+    }
+
+    // Replace top-level metadata keys, as postgres `||` does
+    const metadataEntries = Object.entries(updates.metadata ?? {});
+    if (metadataEntries.length > 0) {
+      setClauses.push(
+        `metadata = JSON_SET(COALESCE(metadata, JSON_OBJECT()), ${metadataEntries
+          .map(() => '?, CAST(? AS JSON)')
+          .join(', ')})`
+      );
+      for (const [key, value] of metadataEntries) {
+        values.push(
+          `$."${key.replace(/["\\]/g, '\\$&')}"`,
+          JSON.stringify(value ?? null)
+        );
+      }
+    }
+
+    setClauses.push('updated_by = ?');
+    values.push(context.userId);
+
+    const result = await this.query<ResultSetHeader>(
+      context,
+      `
+      UPDATE conversations
+      SET ${setClauses.join(', ')}
+      WHERE id = ? AND tenant_id = ? AND user_id = ? AND deleted_at IS NULL
+    `,
+      [...values, conversationId, context.tenantId, context.userId]
+    );
+    if (result.data.affectedRows === 0) {
+      return null;
+    }
+
+    const updated = await this.query<ConversationRow[]>(
+      context,
+      'SELECT * FROM conversations WHERE id = ? AND tenant_id = ? AND user_id = ?',
+      [conversationId, context.tenantId, context.userId]
+    );
+    return updated.data[0] ? conversationFromRow(updated.data[0]) : null;
+  }
+
+  async countConversations(
+    context: TenantContext,
+    filter: ConversationFilter
+  ): Promise<number> {
+    const { conditions, values } = this.conversationConditions(context, filter);
+
+    const result = await this.query<{ total: number | string }[]>(
+      context,
+      `SELECT COUNT(*) AS total FROM conversations WHERE ${conditions.join(' AND ')}`,
+      values
+    );
+    return parseInt(result.data[0]?.total?.toString() || '0');
+  }
+
+  async listConversations(
+    context: TenantContext,
+    filter: ConversationFilter,
+    sort: ConversationSort,
+    window: KeysetWindow
+  ): Promise<KeyedRow<ConversationListItem>[]> {
+    const { conditions, values } = this.conversationConditions(context, filter);
+    const sortColumn = CONVERSATION_SORT_COLUMNS[sort.field];
+
+    if (window.after) {
+      conditions.push(seekCondition([sortColumn, 'id'], sort.direction));
+      values.push(...window.after);
+    }
+
+    const direction = sort.direction.toUpperCase();
+    const result = await this.query<SortedRow<ConversationListRow>[]>(
+      context,
+      `
+      SELECT
+        id, title, created_at, updated_at, status, current_agent_id, participating_agents,
+        message_count, last_message_at, total_tokens,
+        CAST(${sortColumn} AS CHAR) AS sort_value,
+        (SELECT content FROM messages
+          WHERE conversation_id = conversations.id AND tenant_id = conversations.tenant_id
+          ORDER BY created_at DESC, id DESC LIMIT 1) AS last_message_preview
+      FROM conversations
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${sortColumn} ${direction}, id ${direction}
+      ${limitClause(window)}
+    `,
+      values
+    );
+
+    return result.data.map((row) => ({
+      row: conversationListItemFromRow(row),
+      key: [row.sort_value, row.id],
+    }));
+  }
+
+  async insertMessage(
+    context: TenantContext,
+    record: NewMessageRecord
+  ): Promise<ConversationMessage> {
+    // Triggers update the conversation's counters
+    await this.query(
+      context,
+      `
+      INSERT INTO messages (id, conversation_id, role, content, agent_id, metadata, created_by, tenant_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+      [
+        record.id,
+        record.conversationId,
+        record.role,
+        record.content,
+        record.agentId,
+        JSON.stringify(record.metadata),
+        context.userId,
+        context.tenantId,
+      ]
+    );
+
+    const result = await this.query<MessageRow[]>(
+      context,
+      'SELECT * FROM messages WHERE id = ? AND tenant_id = ?',
+      [record.id, context.tenantId]
+    );
+    return messageFromRow(result.data[0]!);
+  }
+
+  async setCurrentAgent(
+    context: TenantContext,
+    conversationId: string,
+    agentId: string
+  ): Promise<void> {
+    await this.query(
+      context,
+      `
+      UPDATE conversations
+      SET
+        participating_agents = ${APPEND_PARTICIPANT},
+        current_agent_id = ?
+      WHERE id = ? AND tenant_id = ?
+    `,
+      [agentId, agentId, agentId, conversationId, context.tenantId]
+    );
+  }
+
+  async countMessages(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<number> {
+    const result = await this.query<{ total: number | string }[]>(
+      context,
+      'SELECT COUNT(*) AS total FROM messages WHERE conversation_id = ? AND tenant_id = ?',
+      [conversationId, context.tenantId]
+    );
+    return parseInt(result.data[0]?.total?.toString() || '0');
+  }
+
+  async listMessages(
+    context: TenantContext,
+    conversationId: string,
+    window: KeysetWindow
+  ): Promise<KeyedRow<ConversationMessage>[]> {
+    const conditions = ['m.conversation_id = ?', 'm.tenant_id = ?'];
+    const values: unknown[] = [conversationId, context.tenantId];
+    if (window.after) {
+      conditions.push(seekCondition(['m.created_at', 'm.id'], 'asc'));
+      values.push(...window.after);
+    }
+
+    const result = await this.query<SortedRow<MessageRow>[]>(
+      context,
+      `
+      SELECT m.*, CAST(m.created_at AS CHAR) AS sort_value,
+        ca.name AS agent_name, ca.type AS agent_type, ca.color AS agent_color
+      FROM messages m
+      LEFT JOIN conversation_agents ca ON m.agent_id = ca.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY m.created_at ASC, m.id ASC
+      ${limitClause(window)}
+    `,
+      values
+    );
+
+    return result.data.map((row) => ({
+      row: messageFromRow(row),
+      key: [row.sort_value, row.id],
+    }));
+  }
+
+  async countSearchResults(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter
+  ): Promise<number> {
+    const { from, values } = this.searchSource(context, query, filters);
+
+    const result = await this.query<{ total: number | string }[]>(
+      context,
+      `SELECT COUNT(*) AS total ${from}`,
+      values
+    );
+    return parseInt(result.data[0]?.total?.toString() || '0');
+  }
+
+  async searchConversations(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter,
+    window: KeysetWindow
+  ): Promise<KeyedRow<RankedConversation>[]> {
+    const { from, values } = this.searchSource(context, query, filters);
+    const seek = window.after
+      ? `WHERE ${seekCondition(['search_rank', 'updated_at', 'id'], 'desc')}`
+      : '';
+
+    const result = await this.query<
+      SortedRow<
+        ConversationListRow & {
+          search_rank: number | string;
+          rank_value: string;
+        }
+      >[]
+    >(
+      context,
+      `
+      SELECT ranked.*,
+        CAST(search_rank AS CHAR) AS rank_value,
+        CAST(updated_at AS CHAR) AS sort_value
+      FROM (
+        SELECT
+          c.id, c.title, c.created_at, c.updated_at, c.status,
+          c.current_agent_id, c.participating_agents, c.message_count,
+          c.last_message_at, c.total_tokens,
+          COALESCE(mr.search_rank, 0) AS search_rank
+        ${from}
+      ) ranked
+      ${seek}
+      ORDER BY search_rank DESC, updated_at DESC, id DESC
+      ${limitClause(window)}
+    `,
+      [...values, ...(window.after ?? [])]
+    );
+
+    return result.data.map((row) => ({
+      row: {
+        conversation: conversationListItemFromRow(row),
+        rank: Number(row.search_rank) || 0,
+      },
+      key: [row.rank_value, row.sort_value, row.id],
+    }));
+  }
+
+  async searchMessages(
+    context: TenantContext,
+    conversationId: string,
+    query: string,
+    limit: number
+  ): Promise<ScoredMessage[]> {
+    const result = await this.query<
+      (MessageRow & { score: number | string })[]
+    >(
+      context,
+      `
+      SELECT m.*, ${MATCH_CONTENT.replace('content', 'm.content')} AS score
+      FROM messages m
+      WHERE m.conversation_id = ? AND m.tenant_id = ?
+      AND ${MATCH_CONTENT.replace('content', 'm.content')}
+      ORDER BY score DESC
+      ${limitClause({ limit, offset: 0 })}
+    `,
+      [query, conversationId, context.tenantId, query]
+    );
+
+    return result.data.map((row) => ({
+      message: messageFromRow(row),
+      score: Number(row.score) || 0,
+    }));
+  }
+
+  async getStats(context: TenantContext): Promise<ConversationStats> {
+    const owner = [context.tenantId, context.userId];
+    const result = await this.query<StatsRow[]>(
+      context,
+      `
+      WITH conversation_stats AS (
+        SELECT
+          COUNT(*) AS total_conversations,
+          COUNT(CASE WHEN status = 'active' THEN 1 END) AS active_conversations,
+          COUNT(CASE WHEN status = 'archived' THEN 1 END) AS archived_conversations,
+          SUM(message_count) AS total_messages,
+          SUM(total_tokens) AS total_tokens,
+          AVG(message_count) AS avg_messages_per_conversation
+        FROM conversations
+        WHERE tenant_id = ? AND user_id = ? AND deleted_at IS NULL
+      ),
+      recent_activity AS (
+        SELECT
+          COUNT(DISTINCT m.conversation_id) AS conversations_last_7_days,
+          COUNT(m.id) AS messages_last_7_days,
+          SUM(m.tokens) AS tokens_last_7_days
+        FROM conversations c
+        JOIN messages m ON m.conversation_id = c.id AND m.tenant_id = c.tenant_id AND m.created_at > NOW(3) - INTERVAL 7 DAY
+        WHERE c.tenant_id = ? AND c.user_id = ? AND c.deleted_at IS NULL
+      ),
+      agent_usage AS (
+        SELECT jt.agent_id, COUNT(*) AS conversation_count
+        FROM conversations c,
+          JSON_TABLE(c.participating_agents, '$[*]' COLUMNS (agent_id VARCHAR(255) PATH '$')) jt
+        WHERE c.tenant_id = ? AND c.user_id = ? AND c.deleted_at IS NULL
+        GROUP BY jt.agent_id
+        ORDER BY conversation_count DESC, jt.agent_id
+        LIMIT 1
+      ),
+      performance_stats AS (
+        SELECT AVG(ca.metric_value) AS avg_response_time
+        FROM conversation_analytics ca
+        JOIN conversations c ON ca.conversation_id = c.id AND ca.tenant_id = c.tenant_id
+        WHERE c.tenant_id = ? AND c.user_id = ? AND ca.metric_type = 'response_time'
+      )
+      SELECT
+        cs.*,
+        ra.conversations_last_7_days,
+        ra.messages_last_7_days,
+        ra.tokens_last_7_days,
+        au.agent_id AS most_used_agent_id,
+        au.conversation_count AS most_used_agent_count,
+        ps.avg_response_time
+      FROM conversation_stats cs
+      CROSS JOIN recent_activity ra
+      LEFT JOIN agent_usage au ON TRUE
+      LEFT JOIN performance_stats ps ON TRUE
+    `,
+      [...owner, ...owner, ...owner, ...owner]
+    );
+
+    return statsFromRow(result.data[0] || {});
+  }
+
+  async insertHandoff(
+    context: TenantContext,
+    handoff: NewHandoffRecord
+  ): Promise<void> {
+    await this.query(
+      context,
+      `
+      INSERT INTO agent_handoffs
+      (id, conversation_id, from_agent_id, to_agent_id, reason, shared_context, tenant_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `,
+      [
+        handoff.id,
+        handoff.conversationId,
+        handoff.fromAgentId,
+        handoff.toAgentId,
+        handoff.reason,
+        JSON.stringify(handoff.sharedContext || {}),
+        context.tenantId,
+      ]
+    );
+
+    await this.query(
+      context,
+      `
+      UPDATE conversations
+      SET
+        current_agent_id = ?,
+        participating_agents = ${APPEND_PARTICIPANT},
+        metadata = JSON_SET(
+          COALESCE(metadata, JSON_OBJECT()),
+          '$.performance',
+          JSON_MERGE_PATCH(
+            COALESCE(JSON_EXTRACT(metadata, '$.performance'), JSON_OBJECT()),
+            JSON_OBJECT(
+              'handoffCount',
+              COALESCE(JSON_EXTRACT(metadata, '$.performance.handoffCount'), 0) + 1
+            )
+          )
+        )
+      WHERE id = ? AND tenant_id = ?
+    `,
+      [
+        handoff.toAgentId,
+        handoff.toAgentId,
+        handoff.toAgentId,
+        handoff.conversationId,
+        context.tenantId,
+      ]
+    );
+  }
+
+  async listHandoffs(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<AgentHandoffRecord[]> {
+    const result = await this.query<HandoffRow[]>(
+      context,
+      `
+      SELECT id, conversation_id, from_agent_id, to_agent_id, reason, shared_context, created_at
+      FROM agent_handoffs
+      WHERE conversation_id = ? AND tenant_id = ?
+      ORDER BY created_at ASC
+    `,
+      [conversationId, context.tenantId]
+    );
+
+    return result.data.map((row) => handoffFromRow(row));
+  }
+
+  /**
+   * Conditions selecting the context's conversations that match a filter,
+   * with columns qualified by `alias` when given
+   */
+  private conversationConditions(
+    context: TenantContext,
+    filter: ConversationFilter,
+    alias = ''
+  ): Conditions {
+    const column = (name: string) => (alias ? `${alias}.${name}` : name);
+    const conditions = [
+      `${column('tenant_id')} = ?`,
+      `${column('user_id')} = ?`,
+      `${column('deleted_at')} IS NULL`,
+    ];
+    const values: unknown[] = [context.tenantId, context.userId];
+
+    if (filter.status) {
+      conditions.push(`${column('status')} = ?`);
+      values.push(filter.status);
+    }
+
+    if (filter.agentId) {
+      conditions.push(
+        `JSON_CONTAINS(${column('participating_agents')}, JSON_QUOTE(?))`
+      );
+      values.push(filter.agentId);
+    }
+
+    if (filter.dateRange) {
+      if (filter.dateRange.start) {
+        conditions.push(`${column('created_at')} >= ?`);
+        values.push(filter.dateRange.start);
+      }
+      if (filter.dateRange.end) {
+        conditions.push(`${column('created_at')} <= ?`);
+        values.push(filter.dateRange.end);
+      }
+    }
+
+    if (filter.tags && filter.tags.length > 0) {
+      conditions.push(
+        `JSON_OVERLAPS(JSON_EXTRACT(${column('metadata')}, '$.tags'), CAST(? AS JSON))`
+      );
+      values.push(JSON.stringify(filter.tags));
+    }
+
+    if (filter.search) {
+      conditions.push(`(${column('title')} LIKE ? OR ${column('id')} IN (
+        SELECT conversation_id FROM messages
+        WHERE tenant_id = ? AND ${MATCH_CONTENT}
+      ))`);
+      values.push(`%${filter.search}%`, context.tenantId, filter.search);
+    }
+
+    if (filter.messageCountRange) {
+      if (filter.messageCountRange.min !== undefined) {
+        conditions.push(`${column('message_count')} >= ?`);
+        values.push(filter.messageCountRange.min);
+      }
+      if (filter.messageCountRange.max !== undefined) {
+        conditions.push(`${column('message_count')} <= ?`);
+        values.push(filter.messageCountRange.max);
+      }
+    }
+
+    return { conditions, values };
+  }
+
+  /**
+   * FROM and WHERE clauses for a search: the context's conversations whose
+   * title contains the query or whose messages match it, joined with the
+   * best message relevance per conversation
+   */
+  private searchSource(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter
+  ): { from: string; values: unknown[] } {
+    const { conditions, values } = this.conversationConditions(
+      context,
+      {
+        ...(filters.status ? { status: filters.status } : {}),
+        ...(filters.agentId ? { agentId: filters.agentId } : {}),
+        ...(filters.dateRange ? { dateRange: filters.dateRange } : {}),
+      },
+      'c'
+    );
+
+    const from = `
+      FROM conversations c
+      LEFT JOIN (
+        SELECT conversation_id, MAX(${MATCH_CONTENT}) AS search_rank
+        FROM messages
+        WHERE tenant_id = ? AND ${MATCH_CONTENT}
+        GROUP BY conversation_id
+      ) mr ON mr.conversation_id = c.id
+      WHERE ${[...conditions, '(c.title LIKE ? OR mr.conversation_id IS NOT NULL)'].join(' AND ')}
+    `;
+
+    return {
+      from,
+      values: [query, context.tenantId, query, ...values, `%${query}%`],
+    };
+  }
+
+  /**
+   * Run a query for a tenant; none can run without a tenant context
+   */
+  private query<T>(
+    context: TenantContext,
+    sql: string,
+    params: unknown[]
+  ): Promise<QueryResult<T>> {
+    assertTenantContext(context);
+    return this.connectionManager.query<T>(sql, params, {
+      tenantId: context.tenantId,
+    });
+  }
+}
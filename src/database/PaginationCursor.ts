@@ -0,0 +1,102 @@
+/**
+ * Keyset Pagination Cursors
+ *
+ * Opaque cursors for keyset ("seek") pagination. A cursor holds the sort key
+ * and id of the last row of a page, and the next page starts strictly after
+ * that row. Unlike offsets, pages do not shift or repeat rows when new rows
+ * arrive between requests, and deep pages cost no more than the first.
+ */
+
+export interface KeysetCursor {
+  /** Ordering the cursor was issued for, e.g. `conversations:updatedAt:desc` */
+  order: string;
+  /** Sort key values of the last row, ending with its id */
+  values: string[];
+}
+
+export interface KeysetPage<T> {
+  rows: T[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+/**
+ * Encode a cursor as URL-safe base64
+ */
+export function encodeCursor(cursor: KeysetCursor): string {
+  return btoa(encodeURIComponent(JSON.stringify([cursor.order, cursor.values])))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor and return its key values. Cursors issued for another
+ * ordering are rejected rather than silently returning the wrong rows.
+ */
+export function decodeCursor(
+  cursor: string,
+  order: string,
+  length: number
+): string[] {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(
+      decodeURIComponent(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')))
+    );
+  } catch {
+    throw new Error('Invalid pagination cursor');
+  }
+
+  if (
+    !Array.isArray(decoded) ||
+    typeof decoded[0] !== 'string' ||
+    !Array.isArray(decoded[1]) ||
+    decoded[1].length !== length ||
+    !decoded[1].every((value: unknown) => typeof value === 'string')
+  ) {
+    throw new Error('Invalid pagination cursor');
+  }
+  if (decoded[0] !== order) {
+    throw new Error(
+      `Pagination cursor was issued for ${decoded[0]}, not ${order}`
+    );
+  }
+
+  return decoded[1];
+}
+
+/**
+ * Build the row comparison that seeks past a cursor, using consecutive
+ * placeholders starting at `firstParam`
+ */
+export function keysetCondition(
+  columns: string[],
+  direction: 'asc' | 'desc',
+  firstParam: number
+): string {
+  const params = columns.map((_, index) => `$${firstParam + index}`);
+  return `(${columns.join(', ')}) ${direction === 'desc' ? '<' : '>'} (${params.join(', ')})`;
+}
+
+/**
+ * Trim rows fetched with a limit of `pageSize + 1` to a page, issuing a
+ * cursor for the next page when the extra row shows there is one
+ */
+export function takeKeysetPage<T>(
+  rows: T[],
+  pageSize: number,
+  order: string,
+  key: (row: T) => string[]
+): KeysetPage<T> {
+  if (rows.length <= pageSize) {
+    return { rows, hasMore: false };
+  }
+
+  const page = rows.slice(0, pageSize);
+  return {
+    rows: page,
+    hasMore: true,
+    nextCursor: encodeCursor({ order, values: key(page[pageSize - 1]!) }),
+  };
+}
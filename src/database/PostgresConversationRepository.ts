@@ -0,0 +1,699 @@
+/**
+ * PostgreSQL Conversation Repository
+ *
+ * Conversation storage for PostgreSQL and Supabase. Message counters and
+ * the search cache are maintained by triggers; search ranks with
+ * `tsvector` full-text search. Every tenant query passes the tenant to the
+ * connection so row-level security applies alongside the explicit
+ * `tenant_id` conditions.
+ */
+
+import type { ConnectionManager, QueryResult } from './ConnectionManager';
+import type {
+  AgentHandoffRecord,
+  Conversation,
+  ConversationFilter,
+  ConversationListItem,
+  ConversationMessage,
+  ConversationStats,
+  UpdateConversationRequest,
+} from '../types/conversation';
+import { assertTenantContext, type TenantContext } from './TenantContext';
+import { keysetCondition } from './PaginationCursor';
+import {
+  conversationFromRow,
+  conversationListItemFromRow,
+  handoffFromRow,
+  messageFromRow,
+  prepareSqlSchema,
+  statsFromRow,
+  type AgentSeed,
+  type ConversationListRow,
+  type ConversationRepository,
+  type ConversationRow,
+  type ConversationSort,
+  type ConversationSortField,
+  type HandoffRow,
+  type KeyedRow,
+  type KeysetWindow,
+  type MessageRow,
+  type NewConversationRecord,
+  type NewHandoffRecord,
+  type NewMessageRecord,
+  type RankedConversation,
+  type SchemaReadiness,
+  type ScoredMessage,
+  type SortedRow,
+  type StatsRow,
+} from './ConversationRepository';
+
+/**
+ * Columns behind each conversation sort field
+ */
+const CONVERSATION_SORT_COLUMNS: Record<ConversationSortField, string> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  messageCount: 'message_count',
+  lastMessageAt: 'COALESCE(last_message_at, created_at)',
+};
+
+/**
+ * Add an agent to `participating_agents` unless it is already there
+ */
+const APPEND_PARTICIPANT = `CASE WHEN participating_agents @> ARRAY[$1]::text[]
+            THEN participating_agents
+            ELSE array_append(participating_agents, $1)
+            END`;
+
+/**
+ * WHERE conditions and their values, numbered from $1
+ */
+interface Conditions {
+  conditions: string[];
+  values: unknown[];
+}
+
+export class PostgresConversationRepository implements ConversationRepository {
+  private connectionManager: ConnectionManager;
+
+  constructor(connectionManager: ConnectionManager) {
+    this.connectionManager = connectionManager;
+  }
+
+  prepare(options: { migrate?: boolean }): Promise<SchemaReadiness> {
+    return prepareSqlSchema(this.connectionManager, options);
+  }
+
+  async seedAgents(agents: readonly AgentSeed[]): Promise<void> {
+    for (const agent of agents) {
+      const existsQuery =
+        'SELECT EXISTS(SELECT 1 FROM conversation_agents WHERE id = $1)';
+      const existsResult = await this.connectionManager.query<
+        { exists: boolean }[]
+      >(existsQuery, [agent.id]);
+
+      if (!existsResult.data[0]?.exists) {
+        const insertQuery = `
+          INSERT INTO conversation_agents
+          (id, name, type, description, capabilities, specialization, model, configuration, color, icon)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        `;
+
+        await this.connectionManager.query(insertQuery, [
+          agent.id,
+          agent.name,
+          agent.type,
+          agent.description,
+          agent.capabilities,
+          agent.specialization,
+          agent.model,
+          JSON.stringify(agent.configuration),
+          agent.color,
+          agent.icon,
+        ]);
+      }
+    }
+  }
+
+  async insertConversation(
+    context: TenantContext,
+    record: NewConversationRecord
+  ): Promise<Conversation> {
+    const query = `
+      INSERT INTO conversations (id, user_id, title, current_agent_id, participating_agents, metadata, created_by, tenant_id)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+
+    const result = await this.query<ConversationRow[]>(context, query, [
+      record.id,
+      context.userId,
+      record.title,
+      record.currentAgentId,
+      record.participatingAgents,
+      JSON.stringify(record.metadata),
+      context.userId,
+      context.tenantId,
+    ]);
+
+    return conversationFromRow(result.data[0]!);
+  }
+
+  async findConversation(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<Conversation | null> {
+    const query = `
+      SELECT * FROM conversations
+      WHERE id = $1 AND tenant_id = $2 AND user_id = $3 AND deleted_at IS NULL
+    `;
+
+    const result = await this.query<ConversationRow[]>(context, query, [
+      conversationId,
+      context.tenantId,
+      context.userId,
+    ]);
+
+    return result.data[0] ? conversationFromRow(result.data[0]) : null;
+  }
+
+  async updateConversation(
+    context: TenantContext,
+    conversationId: string,
+    updates: UpdateConversationRequest
+  ): Promise<Conversation | null> {
+    const setClauses = [];
+    const values = [];
+    let paramIndex = 1;
+
+    if (updates.title !== undefined) {
+      setClauses.push(`title = $${paramIndex++}`);
+      values.push(updates.title);
+    }
+
+    if (updates.status !== undefined) {
+      setClauses.push(`status = $${paramIndex++}`);
+      values.push(updates.status);
+
+      if ((updates.status as string) === 'deleted') {
+        setClauses.push(`deleted_at = NOW()`);
+      }
+    }
+
+    if (updates.metadata !== undefined) {
+      setClauses.push(`metadata = metadata || $${paramIndex++}::jsonb`);
+      values.push(JSON.stringify(updates.metadata));
+    }
+
+    setClauses.push(`updated_by = $${paramIndex++}`);
+    values.push(context.userId);
+
+    values.push(conversationId, context.tenantId, context.userId);
+
+    const query = `
+      UPDATE conversations
+      SET ${setClauses.join(', ')}
+      WHERE id = $${paramIndex++} AND tenant_id = $${paramIndex++} AND user_id = $${paramIndex++} AND deleted_at IS NULL
+      RETURNING *
+    `;
+
+    const result = await this.query<ConversationRow[]>(context, query, values);
+    return result.data[0] ? conversationFromRow(result.data[0]) : null;
+  }
+
+  async countConversations(
+    context: TenantContext,
+    filter: ConversationFilter
+  ): Promise<number> {
+    const { conditions, values } = this.conversationConditions(context, filter);
+
+    const countQuery = `
+      SELECT COUNT(*) as total
+      FROM conversations
+      WHERE ${conditions.join(' AND ')}
+    `;
+
+    const result = await this.query<{ total: number }[]>(
+      context,
+      countQuery,
+      values
+    );
+    return parseInt(result.data[0]?.total?.toString() || '0');
+  }
+
+  async listConversations(
+    context: TenantContext,
+    filter: ConversationFilter,
+    sort: ConversationSort,
+    window: KeysetWindow
+  ): Promise<KeyedRow<ConversationListItem>[]> {
+    const { conditions, values } = this.conversationConditions(context, filter);
+    const sortColumn = CONVERSATION_SORT_COLUMNS[sort.field];
+
+    // Seek past the cursor when there is one
+    if (window.after) {
+      conditions.push(
+        keysetCondition([sortColumn, 'id'], sort.direction, values.length + 1)
+      );
+      values.push(...window.after);
+    }
+
+    const direction = sort.direction.toUpperCase();
+    const dataQuery = `
+      SELECT
+        id, title, created_at, updated_at, status, current_agent_id, participating_agents,
+        message_count, last_message_at, total_tokens,
+        (${sortColumn})::text as sort_value,
+        (SELECT content FROM messages WHERE conversation_id = conversations.id ORDER BY created_at DESC LIMIT 1) as last_message_preview
+      FROM conversations
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${sortColumn} ${direction}, id ${direction}
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `;
+    values.push(window.limit, window.offset);
+
+    const result = await this.query<SortedRow<ConversationListRow>[]>(
+      context,
+      dataQuery,
+      values
+    );
+    return result.data.map((row) => ({
+      row: conversationListItemFromRow(row),
+      key: [row.sort_value, row.id],
+    }));
+  }
+
+  async insertMessage(
+    context: TenantContext,
+    record: NewMessageRecord
+  ): Promise<ConversationMessage> {
+    // Triggers update the conversation's counters and search cache
+    const query = `
+      INSERT INTO messages (id, conversation_id, role, content, agent_id, metadata, created_by, tenant_id)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+
+    const result = await this.query<MessageRow[]>(context, query, [
+      record.id,
+      record.conversationId,
+      record.role,
+      record.content,
+      record.agentId,
+      JSON.stringify(record.metadata),
+      context.userId,
+      context.tenantId,
+    ]);
+
+    return messageFromRow(result.data[0]!);
+  }
+
+  async setCurrentAgent(
+    context: TenantContext,
+    conversationId: string,
+    agentId: string
+  ): Promise<void> {
+    await this.query(
+      context,
+      `
+      UPDATE conversations
+      SET
+        participating_agents = ${APPEND_PARTICIPANT},
+        current_agent_id = $1
+      WHERE id = $2 AND tenant_id = $3
+    `,
+      [agentId, conversationId, context.tenantId]
+    );
+  }
+
+  async countMessages(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<number> {
+    const countQuery =
+      'SELECT COUNT(*) as total FROM messages WHERE conversation_id = $1 AND tenant_id = $2';
+    const result = await this.query<{ total: number }[]>(context, countQuery, [
+      conversationId,
+      context.tenantId,
+    ]);
+    return parseInt(result.data[0]?.total?.toString() || '0');
+  }
+
+  async listMessages(
+    context: TenantContext,
+    conversationId: string,
+    window: KeysetWindow
+  ): Promise<KeyedRow<ConversationMessage>[]> {
+    const values: unknown[] = [conversationId, context.tenantId];
+    const conditions = ['m.conversation_id = $1', 'm.tenant_id = $2'];
+    if (window.after) {
+      conditions.push(keysetCondition(['m.created_at', 'm.id'], 'asc', 3));
+      values.push(...window.after);
+    }
+
+    const query = `
+      SELECT m.*, m.created_at::text as sort_value,
+        ca.name as agent_name, ca.type as agent_type, ca.color as agent_color
+      FROM messages m
+      LEFT JOIN conversation_agents ca ON m.agent_id = ca.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY m.created_at ASC, m.id ASC
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `;
+    values.push(window.limit, window.offset);
+
+    const result = await this.query<SortedRow<MessageRow>[]>(
+      context,
+      query,
+      values
+    );
+    return result.data.map((row) => ({
+      row: messageFromRow(row),
+      key: [row.sort_value, row.id],
+    }));
+  }
+
+  async countSearchResults(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter
+  ): Promise<number> {
+    const { conditions, values } = this.searchConditions(
+      context,
+      query,
+      filters
+    );
+
+    const countQuery = `
+      SELECT COUNT(DISTINCT c.id) as total
+      FROM conversations c
+      WHERE ${conditions.join(' AND ')}
+    `;
+
+    const result = await this.query<{ total: number }[]>(
+      context,
+      countQuery,
+      values
+    );
+    return parseInt(result.data[0]?.total?.toString() || '0');
+  }
+
+  async searchConversations(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter,
+    window: KeysetWindow
+  ): Promise<KeyedRow<RankedConversation>[]> {
+    const { conditions, values } = this.searchConditions(
+      context,
+      query,
+      filters
+    );
+
+    // Rank, then seek past the cursor
+    const rankParam = values.length + 1;
+    const searchValues = [...values, query];
+    const seek = window.after
+      ? `WHERE ${keysetCondition(['rank', 'updated_at', 'id'], 'desc', searchValues.length + 1)}`
+      : '';
+    if (window.after) {
+      searchValues.push(...window.after);
+    }
+
+    const searchQuery = `
+      SELECT ranked.*, rank::text as rank_value, updated_at::text as sort_value
+      FROM (
+        SELECT DISTINCT
+          c.id, c.title, c.created_at, c.updated_at, c.status,
+          c.current_agent_id, c.participating_agents, c.message_count,
+          c.last_message_at, c.total_tokens,
+          COALESCE(ts_rank(csc.search_vector, plainto_tsquery('english', $${rankParam})), 0)::float8 as rank
+        FROM conversations c
+        LEFT JOIN conversation_search_cache csc ON c.id = csc.conversation_id
+        WHERE ${conditions.join(' AND ')}
+      ) ranked
+      ${seek}
+      ORDER BY rank DESC, updated_at DESC, id DESC
+      LIMIT $${searchValues.length + 1} OFFSET $${searchValues.length + 2}
+    `;
+    searchValues.push(window.limit, window.offset);
+
+    const result = await this.query<
+      SortedRow<ConversationListRow & { rank: number; rank_value: string }>[]
+    >(context, searchQuery, searchValues);
+    return result.data.map((row) => ({
+      row: {
+        conversation: conversationListItemFromRow(row),
+        rank: row.rank || 0,
+      },
+      key: [row.rank_value, row.sort_value, row.id],
+    }));
+  }
+
+  async searchMessages(
+    context: TenantContext,
+    conversationId: string,
+    query: string,
+    limit: number
+  ): Promise<ScoredMessage[]> {
+    const messageSearchQuery = `
+      SELECT m.*, ts_rank(m.search_vector, plainto_tsquery('english', $1)) as score
+      FROM messages m
+      WHERE m.conversation_id = $2 AND m.tenant_id = $3
+      AND m.search_vector @@ plainto_tsquery('english', $1)
+      ORDER BY score DESC
+      LIMIT $4
+    `;
+
+    const result = await this.query<(MessageRow & { score: number })[]>(
+      context,
+      messageSearchQuery,
+      [query, conversationId, context.tenantId, limit]
+    );
+    return result.data.map((row) => ({
+      message: messageFromRow(row),
+      score: row.score || 0,
+    }));
+  }
+
+  async getStats(context: TenantContext): Promise<ConversationStats> {
+    const query = `
+      WITH conversation_stats AS (
+        SELECT
+          COUNT(*) as total_conversations,
+          COUNT(CASE WHEN status = 'active' THEN 1 END) as active_conversations,
+          COUNT(CASE WHEN status = 'archived' THEN 1 END) as archived_conversations,
+          SUM(message_count) as total_messages,
+          SUM(total_tokens) as total_tokens,
+          AVG(message_count) as avg_messages_per_conversation
+        FROM conversations
+        WHERE tenant_id = $1 AND user_id = $2 AND deleted_at IS NULL
+      ),
+      recent_activity AS (
+        SELECT
+          COUNT(DISTINCT m.conversation_id) as conversations_last_7_days,
+          COUNT(m.id) as messages_last_7_days,
+          SUM(m.tokens) as tokens_last_7_days
+        FROM conversations c
+        JOIN messages m ON c.id = m.conversation_id AND m.tenant_id = c.tenant_id AND m.created_at > NOW() - INTERVAL '7 days'
+        WHERE c.tenant_id = $1 AND c.user_id = $2 AND c.deleted_at IS NULL
+      ),
+      agent_usage AS (
+        SELECT
+          unnest(participating_agents) as agent_id,
+          COUNT(*) as conversation_count
+        FROM conversations
+        WHERE tenant_id = $1 AND user_id = $2 AND deleted_at IS NULL
+        GROUP BY agent_id
+        ORDER BY conversation_count DESC, agent_id
+        LIMIT 1
+      ),
+      performance_stats AS (
+        SELECT AVG(metric_value) as avg_response_time
+        FROM conversation_analytics ca
+        JOIN conversations c ON ca.conversation_id = c.id AND ca.tenant_id = c.tenant_id
+        WHERE c.tenant_id = $1 AND c.user_id = $2 AND ca.metric_type = 'response_time'
+      )
+      SELECT
+        cs.*,
+        ra.conversations_last_7_days,
+        ra.messages_last_7_days,
+        ra.tokens_last_7_days,
+        au.agent_id as most_used_agent_id,
+        au.conversation_count as most_used_agent_count,
+        ps.avg_response_time
+      FROM conversation_stats cs
+      CROSS JOIN recent_activity ra
+      LEFT JOIN agent_usage au ON true
+      LEFT JOIN performance_stats ps ON true
+    `;
+
+    const result = await this.query<StatsRow[]>(context, query, [
+      context.tenantId,
+      context.userId,
+    ]);
+    return statsFromRow(result.data[0] || {});
+  }
+
+  async insertHandoff(
+    context: TenantContext,
+    handoff: NewHandoffRecord
+  ): Promise<void> {
+    const query = `
+      INSERT INTO agent_handoffs
+      (id, conversation_id, from_agent_id, to_agent_id, reason, shared_context, created_at, tenant_id)
+      VALUES ($1, $2, $3, $4, $5, $6, NOW(), $7)
+    `;
+
+    await this.query(context, query, [
+      handoff.id,
+      handoff.conversationId,
+      handoff.fromAgentId,
+      handoff.toAgentId,
+      handoff.reason,
+      JSON.stringify(handoff.sharedContext || {}),
+      context.tenantId,
+    ]);
+
+    // Update conversation's current agent and participating agents
+    await this.query(
+      context,
+      `
+      UPDATE conversations
+      SET
+        current_agent_id = $1,
+        participating_agents = ${APPEND_PARTICIPANT},
+        metadata = jsonb_set(
+          metadata,
+          '{performance,handoffCount}',
+          COALESCE((metadata->'performance'->>'handoffCount')::int + 1, 1)::text::jsonb
+        )
+      WHERE id = $2 AND tenant_id = $3
+    `,
+      [handoff.toAgentId, handoff.conversationId, context.tenantId]
+    );
+  }
+
+  async listHandoffs(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<AgentHandoffRecord[]> {
+    const result = await this.query<HandoffRow[]>(
+      context,
+      `
+      SELECT id, conversation_id, from_agent_id, to_agent_id, reason, shared_context, created_at
+      FROM agent_handoffs
+      WHERE conversation_id = $1 AND tenant_id = $2
+      ORDER BY created_at ASC
+    `,
+      [conversationId, context.tenantId]
+    );
+
+    return result.data.map((row) => handoffFromRow(row));
+  }
+
+  /**
+   * Conditions selecting the context's conversations that match a filter
+   */
+  private conversationConditions(
+    context: TenantContext,
+    filter: ConversationFilter
+  ): Conditions {
+    const conditions = ['tenant_id = $1', 'user_id = $2', 'deleted_at IS NULL'];
+    const values: unknown[] = [context.tenantId, context.userId];
+    let paramIndex = 3;
+
+    if (filter.status) {
+      conditions.push(`status = $${paramIndex++}`);
+      values.push(filter.status);
+    }
+
+    if (filter.agentId) {
+      conditions.push(`$${paramIndex++} = ANY(participating_agents)`);
+      values.push(filter.agentId);
+    }
+
+    if (filter.dateRange) {
+      if (filter.dateRange.start) {
+        conditions.push(`created_at >= $${paramIndex++}`);
+        values.push(filter.dateRange.start);
+      }
+      if (filter.dateRange.end) {
+        conditions.push(`created_at <= $${paramIndex++}`);
+        values.push(filter.dateRange.end);
+      }
+    }
+
+    if (filter.tags && filter.tags.length > 0) {
+      conditions.push(`metadata->'tags' ?| $${paramIndex++}`);
+      values.push(filter.tags);
+    }
+
+    if (filter.search) {
+      conditions.push(`(title ILIKE $${paramIndex++} OR id IN (
+        SELECT DISTINCT conversation_id FROM conversation_search_cache
+        WHERE search_vector @@ plainto_tsquery('english', $${paramIndex++})
+      ))`);
+      values.push(`%${filter.search}%`, filter.search);
+    }
+
+    if (filter.messageCountRange) {
+      if (filter.messageCountRange.min !== undefined) {
+        conditions.push(`message_count >= $${paramIndex++}`);
+        values.push(filter.messageCountRange.min);
+      }
+      if (filter.messageCountRange.max !== undefined) {
+        conditions.push(`message_count <= $${paramIndex++}`);
+        values.push(filter.messageCountRange.max);
+      }
+    }
+
+    return { conditions, values };
+  }
+
+  /**
+   * Conditions selecting the context's conversations that match a search
+   */
+  private searchConditions(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter
+  ): Conditions {
+    const conditions = [
+      'c.tenant_id = $1',
+      'c.user_id = $2',
+      'c.deleted_at IS NULL',
+    ];
+    const values: unknown[] = [context.tenantId, context.userId];
+    let paramIndex = 3;
+
+    conditions.push(`(
+      c.title ILIKE $${paramIndex++} OR
+      EXISTS (
+        SELECT 1 FROM conversation_search_cache csc
+        WHERE csc.conversation_id = c.id
+        AND csc.search_vector @@ plainto_tsquery('english', $${paramIndex++})
+      )
+    )`);
+    values.push(`%${query}%`, query);
+
+    if (filters.status) {
+      conditions.push(`c.status = $${paramIndex++}`);
+      values.push(filters.status);
+    }
+
+    if (filters.agentId) {
+      conditions.push(`$${paramIndex++} = ANY(c.participating_agents)`);
+      values.push(filters.agentId);
+    }
+
+    if (filters.dateRange) {
+      if (filters.dateRange.start) {
+        conditions.push(`c.created_at >= $${paramIndex++}`);
+        values.push(filters.dateRange.start);
+      }
+      if (filters.dateRange.end) {
+        conditions.push(`c.created_at <= $${paramIndex++}`);
+        values.push(filters.dateRange.end);
+      }
+    }
+
+    return { conditions, values };
+  }
+
+  /**
+   * Run a query for a tenant. Every tenant data query goes through here, so
+   * none can run without a tenant context, and row-level security sees the
+   * tenant as well as the explicit `tenant_id` conditions.
+   */
+  private query<T>(
+    context: TenantContext,
+    sql: string,
+    params: unknown[]
+  ): Promise<QueryResult<T>> {
+    assertTenantContext(context);
+    return this.connectionManager.query<T>(sql, params, {
+      tenantId: context.tenantId,
+    });
+  }
+}
@@ -5,6 +5,7 @@
 
 import { EventEmitter } from 'events';
 import { PerformanceMonitor } from '../telemetry/PerformanceMonitor';
+import { hashContent } from '../knowledge/EmbeddingCache';
 
 /**
  * Query analysis result
@@ -70,7 +71,9 @@ export interface QueryPerformanceMetrics {
  */
 export interface QueryPattern {
   pattern: string;
+  sampleQuery: string; // One of the queries with this pattern, as recorded
   frequency: number;
+  executionCount: number;
   averagePerformance: number;
   tables: string[];
   commonFilters: string[];
@@ -725,7 +728,9 @@ export class QueryOptimizer extends EventEmitter {
       if (!patterns.has(pattern)) {
         patterns.set(pattern, {
           pattern,
+          sampleQuery: metrics.originalQuery,
           frequency: 0,
+          executionCount: 0,
           averagePerformance: 0,
           tables: [],
           commonFilters: [],
@@ -735,6 +740,7 @@ export class QueryOptimizer extends EventEmitter {
 
       const patternData = patterns.get(pattern)!;
       patternData.frequency++;
+      patternData.executionCount += metrics.executionCount;
       patternData.averagePerformance += metrics.averageTime;
     }
 
@@ -775,7 +781,7 @@ export class QueryOptimizer extends EventEmitter {
    */
   private generateQueryHash(query: string): string {
     const normalized = this.normalizeQuery(query.toLowerCase());
-    return btoa(normalized).slice(0, 16);
+    return hashContent(normalized).slice(0, 16);
   }
 
   /**
@@ -0,0 +1,776 @@
+/**
+ * SQLite Conversation Repository
+ *
+ * Embedded conversation storage for local development and tests. JSON
+ * columns are text handled with SQLite's JSON functions, and search
+ * matches message words with `instr` since the schema has no full-text
+ * index. Timestamps are written with milliseconds in SQLite's own format,
+ * which sorts with the values triggers write, and read back as UTC.
+ */
+
+import type { ConnectionManager, QueryResult } from './ConnectionManager';
+import type {
+  AgentHandoffRecord,
+  Conversation,
+  ConversationFilter,
+  ConversationListItem,
+  ConversationMessage,
+  ConversationStats,
+  UpdateConversationRequest,
+} from '../types/conversation';
+import { assertTenantContext, type TenantContext } from './TenantContext';
+import {
+  conversationFromRow,
+  conversationListItemFromRow,
+  handoffFromRow,
+  messageFromRow,
+  prepareSqlSchema,
+  searchTerms,
+  statsFromRow,
+  type AgentSeed,
+  type ConversationRepository,
+  type ConversationSort,
+  type ConversationSortField,
+  type KeyedRow,
+  type KeysetWindow,
+  type NewConversationRecord,
+  type NewHandoffRecord,
+  type NewMessageRecord,
+  type RankedConversation,
+  type SchemaReadiness,
+  type ScoredMessage,
+} from './ConversationRepository';
+
+type Row = Record<string, any>;
+
+/**
+ * Columns behind each conversation sort field
+ */
+const CONVERSATION_SORT_COLUMNS: Record<ConversationSortField, string> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  messageCount: 'message_count',
+  lastMessageAt: 'COALESCE(last_message_at, created_at)',
+};
+
+const NOW = "strftime('%Y-%m-%d %H:%M:%f', 'now')";
+
+/**
+ * Add the agent given twice as parameters to `participating_agents` unless
+ * it is already there
+ */
+const APPEND_PARTICIPANT = `CASE
+          WHEN EXISTS (SELECT 1 FROM json_each(participating_agents) WHERE value = ?)
+          THEN participating_agents
+          ELSE json_insert(participating_agents, '$[#]', ?)
+        END`;
+
+const TIMESTAMP_COLUMNS = [
+  'created_at',
+  'updated_at',
+  'deleted_at',
+  'last_message_at',
+];
+
+/**
+ * WHERE conditions and their values, in placeholder order
+ */
+interface Conditions {
+  conditions: string[];
+  values: unknown[];
+}
+
+/**
+ * Read SQLite's `YYYY-MM-DD HH:MM:SS[.SSS]` timestamps, which are UTC, as
+ * ISO strings, returning the row type the query selected
+ */
+function fromSqliteRow<T extends object>(row: Row): T {
+  const normalized = { ...row };
+  for (const column of TIMESTAMP_COLUMNS) {
+    const value = normalized[column];
+    if (typeof value === 'string' && value.charAt(10) === ' ') {
+      normalized[column] = `${value.replace(' ', 'T')}Z`;
+    }
+  }
+  return normalized as T;
+}
+
+/**
+ * A date as an SQLite timestamp, for comparing with stored values
+ */
+function toSqliteTimestamp(date: Date | string): string {
+  return new Date(date).toISOString().replace('T', ' ').replace('Z', '');
+}
+
+function seekCondition(columns: string[], direction: 'asc' | 'desc'): string {
+  return `(${columns.join(', ')}) ${direction === 'desc' ? '<' : '>'} (${columns.map(() => '?').join(', ')})`;
+}
+
+/**
+ * LIMIT and OFFSET inlined as integers
+ */
+function limitClause(window: KeysetWindow): string {
+  const limit = Math.max(0, Math.floor(window.limit));
+  const offset = Math.max(0, Math.floor(window.offset));
+  return `LIMIT ${limit} OFFSET ${offset}`;
+}
+
+/**
+ * Condition that a text column contains every search term
+ */
+function containsAll(column: string, terms: string[]): Conditions {
+  return terms.length > 0
+    ? {
+        conditions: terms.map(() => `instr(lower(${column}), ?) > 0`),
+        values: terms,
+      }
+    : { conditions: ['0'], values: [] };
+}
+
+/**
+ * Expression counting the occurrences of the search terms in a text column
+ */
+function occurrences(column: string, terms: string[]): Conditions {
+  return {
+    conditions: [
+      terms
+        .map(
+          () =>
+            `(length(lower(${column})) - length(replace(lower(${column}), ?, ''))) / length(?)`
+        )
+        .join(' + ') || '0',
+    ],
+    values: terms.flatMap((term) => [term, term]),
+  };
+}
+
+export class SQLiteConversationRepository implements ConversationRepository {
+  private connectionManager: ConnectionManager;
+
+  constructor(connectionManager: ConnectionManager) {
+    this.connectionManager = connectionManager;
+  }
+
+  prepare(options: { migrate?: boolean }): Promise<SchemaReadiness> {
+    return prepareSqlSchema(this.connectionManager, options);
+  }
+
+  async seedAgents(agents: readonly AgentSeed[]): Promise<void> {
+    for (const agent of agents) {
+      await this.connectionManager.query(
+        `
+        INSERT OR IGNORE INTO conversation_agents
+        (id, name, type, description, capabilities, specialization, model, configuration, color, icon)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+        [
+          agent.id,
+          agent.name,
+          agent.type,
+          agent.description,
+          JSON.stringify(agent.capabilities),
+          JSON.stringify(agent.specialization),
+          agent.model,
+          JSON.stringify(agent.configuration),
+          agent.color,
+          agent.icon,
+        ]
+      );
+    }
+  }
+
+  async insertConversation(
+    context: TenantContext,
+    record: NewConversationRecord
+  ): Promise<Conversation> {
+    const result = await this.query<Row[]>(
+      context,
+      `
+      INSERT INTO conversations
+      (id, user_id, title, current_agent_id, participating_agents, metadata, created_by, tenant_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ${NOW}, ${NOW})
+      RETURNING *
+    `,
+      [
+        record.id,
+        context.userId,
+        record.title,
+        record.currentAgentId,
+        JSON.stringify(record.participatingAgents),
+        JSON.stringify(record.metadata),
+        context.userId,
+        context.tenantId,
+      ]
+    );
+    return conversationFromRow(fromSqliteRow(result.data[0]!));
+  }
+
+  async findConversation(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<Conversation | null> {
+    const result = await this.query<Row[]>(
+      context,
+      `
+      SELECT * FROM conversations
+      WHERE id = ? AND tenant_id = ? AND user_id = ? AND deleted_at IS NULL
+    `,
+      [conversationId, context.tenantId, context.userId]
+    );
+
+    return result.data[0]
+      ? conversationFromRow(fromSqliteRow(result.data[0]))
+      : null;
+  }
+
+  async updateConversation(
+    context: TenantContext,
+    conversationId: string,
+    updates: UpdateConversationRequest
+  ): Promise<Conversation | null> {
+    const setClauses = [`updated_at = ${NOW}`];
+    const values: unknown[] = [];
+
+    if (updates.title !== undefined) {
+      setClauses.push('title = ?');
+      values.push(updates.title);
+    }
+
+    if (updates.status !== undefined) {
+      setClauses.push('status = ?');
+      values.push(updates.status);
+
+      if ((updates.status as string) === 'deleted') {
+        setClauses.push(`deleted_at = ${NOW}`);
+      }
+    }
+
+    // Replace top-level metadata keys, as postgres `||` does
+    const metadataEntries = Object.entries(updates.metadata ?? {});
+    if (metadataEntries.length > 0) {
+      setClauses.push(
+        `metadata = json_set(metadata, ${metadataEntries
+          .map(() => '?, json(?)')
+          .join(', ')})`
+      );
+      for (const [key, value] of metadataEntries) {
+        values.push(
+          `$."${key.replace(/["\\]/g, '\\$&')}"`,
+          JSON.stringify(value ?? null)
+        );
+      }
+    }
+
+    setClauses.push('updated_by = ?');
+    values.push(context.userId);
+
+    const result = await this.query<Row[]>(
+      context,
+      `
+      UPDATE conversations
+      SET ${setClauses.join(', ')}
+      WHERE id = ? AND tenant_id = ? AND user_id = ? AND deleted_at IS NULL
+      RETURNING *
+    `,
+      [...values, conversationId, context.tenantId, context.userId]
+    );
+
+    return result.data[0]
+      ? conversationFromRow(fromSqliteRow(result.data[0]))
+      : null;
+  }
+
+  async countConversations(
+    context: TenantContext,
+    filter: ConversationFilter
+  ): Promise<number> {
+    const { conditions, values } = this.conversationConditions(context, filter);
+
+    const result = await this.query<{ total: number }[]>(
+      context,
+      `SELECT COUNT(*) AS total FROM conversations WHERE ${conditions.join(' AND ')}`,
+      values
+    );
+    return Number(result.data[0]?.total) || 0;
+  }
+
+  async listConversations(
+    context: TenantContext,
+    filter: ConversationFilter,
+    sort: ConversationSort,
+    window: KeysetWindow
+  ): Promise<KeyedRow<ConversationListItem>[]> {
+    const { conditions, values } = this.conversationConditions(context, filter);
+    const sortColumn = CONVERSATION_SORT_COLUMNS[sort.field];
+
+    if (window.after) {
+      const [value, id] = window.after;
+      conditions.push(seekCondition([sortColumn, 'id'], sort.direction));
+      values.push(sort.field === 'messageCount' ? Number(value) : value, id);
+    }
+
+    const direction = sort.direction.toUpperCase();
+    const result = await this.query<Row[]>(
+      context,
+      `
+      SELECT
+        id, title, created_at, updated_at, status, current_agent_id, participating_agents,
+        message_count, last_message_at, total_tokens,
+        CAST(${sortColumn} AS TEXT) AS sort_value,
+        (SELECT content FROM messages
+          WHERE conversation_id = conversations.id AND tenant_id = conversations.tenant_id
+          ORDER BY created_at DESC, id DESC LIMIT 1) AS last_message_preview
+      FROM conversations
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${sortColumn} ${direction}, id ${direction}
+      ${limitClause(window)}
+    `,
+      values
+    );
+
+    return result.data.map((row) => ({
+      row: conversationListItemFromRow(fromSqliteRow(row)),
+      key: [row.sort_value, row.id],
+    }));
+  }
+
+  async insertMessage(
+    context: TenantContext,
+    record: NewMessageRecord
+  ): Promise<ConversationMessage> {
+    // Triggers update the conversation's counters, but stamp its update
+    // time in whole seconds, so it is then copied from the message
+    const result = await this.query<Row[]>(
+      context,
+      `
+      INSERT INTO messages
+      (id, conversation_id, role, content, agent_id, metadata, created_by, tenant_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ${NOW}, ${NOW})
+      RETURNING *
+    `,
+      [
+        record.id,
+        record.conversationId,
+        record.role,
+        record.content,
+        record.agentId,
+        JSON.stringify(record.metadata),
+        context.userId,
+        context.tenantId,
+      ]
+    );
+    await this.query(
+      context,
+      'UPDATE conversations SET updated_at = last_message_at WHERE id = ? AND tenant_id = ?',
+      [record.conversationId, context.tenantId]
+    );
+    return messageFromRow(fromSqliteRow(result.data[0]!));
+  }
+
+  async setCurrentAgent(
+    context: TenantContext,
+    conversationId: string,
+    agentId: string
+  ): Promise<void> {
+    await this.query(
+      context,
+      `
+      UPDATE conversations
+      SET
+        participating_agents = ${APPEND_PARTICIPANT},
+        current_agent_id = ?,
+        updated_at = ${NOW}
+      WHERE id = ? AND tenant_id = ?
+    `,
+      [agentId, agentId, agentId, conversationId, context.tenantId]
+    );
+  }
+
+  async countMessages(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<number> {
+    const result = await this.query<{ total: number }[]>(
+      context,
+      'SELECT COUNT(*) AS total FROM messages WHERE conversation_id = ? AND tenant_id = ?',
+      [conversationId, context.tenantId]
+    );
+    return Number(result.data[0]?.total) || 0;
+  }
+
+  async listMessages(
+    context: TenantContext,
+    conversationId: string,
+    window: KeysetWindow
+  ): Promise<KeyedRow<ConversationMessage>[]> {
+    const conditions = ['m.conversation_id = ?', 'm.tenant_id = ?'];
+    const values: unknown[] = [conversationId, context.tenantId];
+    if (window.after) {
+      conditions.push(seekCondition(['m.created_at', 'm.id'], 'asc'));
+      values.push(...window.after);
+    }
+
+    const result = await this.query<Row[]>(
+      context,
+      `
+      SELECT m.*, m.created_at AS sort_value,
+        ca.name AS agent_name, ca.type AS agent_type, ca.color AS agent_color
+      FROM messages m
+      LEFT JOIN conversation_agents ca ON m.agent_id = ca.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY m.created_at ASC, m.id ASC
+      ${limitClause(window)}
+    `,
+      values
+    );
+
+    return result.data.map((row) => ({
+      row: messageFromRow(fromSqliteRow(row)),
+      key: [row.sort_value, row.id],
+    }));
+  }
+
+  async countSearchResults(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter
+  ): Promise<number> {
+    const { from, values } = this.searchSource(context, query, filters);
+
+    const result = await this.query<{ total: number }[]>(
+      context,
+      `SELECT COUNT(*) AS total ${from}`,
+      values
+    );
+    return Number(result.data[0]?.total) || 0;
+  }
+
+  async searchConversations(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter,
+    window: KeysetWindow
+  ): Promise<KeyedRow<RankedConversation>[]> {
+    const { from, values } = this.searchSource(context, query, filters);
+    const seek = window.after
+      ? 'WHERE (search_rank, updated_at, id) < (CAST(? AS INTEGER), ?, ?)'
+      : '';
+
+    const result = await this.query<Row[]>(
+      context,
+      `
+      SELECT ranked.*,
+        CAST(search_rank AS TEXT) AS rank_value,
+        updated_at AS sort_value
+      FROM (
+        SELECT
+          c.id, c.title, c.created_at, c.updated_at, c.status,
+          c.current_agent_id, c.participating_agents, c.message_count,
+          c.last_message_at, c.total_tokens,
+          COALESCE(mr.search_rank, 0) AS search_rank
+        ${from}
+      ) ranked
+      ${seek}
+      ORDER BY search_rank DESC, updated_at DESC, id DESC
+      ${limitClause(window)}
+    `,
+      [...values, ...(window.after ?? [])]
+    );
+
+    return result.data.map((row) => ({
+      row: {
+        conversation: conversationListItemFromRow(fromSqliteRow(row)),
+        rank: Number(row.search_rank) || 0,
+      },
+      key: [row.rank_value, row.sort_value, row.id],
+    }));
+  }
+
+  async searchMessages(
+    context: TenantContext,
+    conversationId: string,
+    query: string,
+    limit: number
+  ): Promise<ScoredMessage[]> {
+    const terms = searchTerms(query);
+    const score = occurrences('m.content', terms);
+    const matches = containsAll('m.content', terms);
+
+    const result = await this.query<Row[]>(
+      context,
+      `
+      SELECT m.*, ${score.conditions[0]} AS score
+      FROM messages m
+      WHERE m.conversation_id = ? AND m.tenant_id = ?
+      AND ${matches.conditions.join(' AND ')}
+      ORDER BY score DESC, m.created_at ASC, m.id ASC
+      ${limitClause({ limit, offset: 0 })}
+    `,
+      [...score.values, conversationId, context.tenantId, ...matches.values]
+    );
+
+    return result.data.map((row) => ({
+      message: messageFromRow(fromSqliteRow(row)),
+      score: Number(row.score) || 0,
+    }));
+  }
+
+  async getStats(context: TenantContext): Promise<ConversationStats> {
+    const owner = [context.tenantId, context.userId];
+    const result = await this.query<Row[]>(
+      context,
+      `
+      WITH conversation_stats AS (
+        SELECT
+          COUNT(*) AS total_conversations,
+          COUNT(CASE WHEN status = 'active' THEN 1 END) AS active_conversations,
+          COUNT(CASE WHEN status = 'archived' THEN 1 END) AS archived_conversations,
+          SUM(message_count) AS total_messages,
+          SUM(total_tokens) AS total_tokens,
+          AVG(message_count) AS avg_messages_per_conversation
+        FROM conversations
+        WHERE tenant_id = ? AND user_id = ? AND deleted_at IS NULL
+      ),
+      recent_activity AS (
+        SELECT
+          COUNT(DISTINCT m.conversation_id) AS conversations_last_7_days,
+          COUNT(m.id) AS messages_last_7_days,
+          SUM(m.tokens) AS tokens_last_7_days
+        FROM conversations c
+        JOIN messages m ON m.conversation_id = c.id AND m.tenant_id = c.tenant_id
+          AND m.created_at > strftime('%Y-%m-%d %H:%M:%f', 'now', '-7 days')
+        WHERE c.tenant_id = ? AND c.user_id = ? AND c.deleted_at IS NULL
+      ),
+      agent_usage AS (
+        SELECT agents.value AS agent_id, COUNT(*) AS conversation_count
+        FROM conversations c, json_each(c.participating_agents) agents
+        WHERE c.tenant_id = ? AND c.user_id = ? AND c.deleted_at IS NULL
+        GROUP BY agents.value
+        ORDER BY conversation_count DESC, agents.value
+        LIMIT 1
+      ),
+      performance_stats AS (
+        SELECT AVG(ca.metric_value) AS avg_response_time
+        FROM conversation_analytics ca
+        JOIN conversations c ON ca.conversation_id = c.id AND ca.tenant_id = c.tenant_id
+        WHERE c.tenant_id = ? AND c.user_id = ? AND ca.metric_type = 'response_time'
+      )
+      SELECT
+        cs.*,
+        ra.conversations_last_7_days,
+        ra.messages_last_7_days,
+        ra.tokens_last_7_days,
+        au.agent_id AS most_used_agent_id,
+        au.conversation_count AS most_used_agent_count,
+        ps.avg_response_time
+      FROM conversation_stats cs
+      CROSS JOIN recent_activity ra
+      LEFT JOIN agent_usage au ON 1
+      LEFT JOIN performance_stats ps ON 1
+    `,
+      [...owner, ...owner, ...owner, ...owner]
+    );
+
+    return statsFromRow(result.data[0] || {});
+  }
+
+  async insertHandoff(
+    context: TenantContext,
+    handoff: NewHandoffRecord
+  ): Promise<void> {
+    await this.query(
+      context,
+      `
+      INSERT INTO agent_handoffs
+      (id, conversation_id, from_agent_id, to_agent_id, reason, shared_context, created_at, tenant_id)
+      VALUES (?, ?, ?, ?, ?, ?, ${NOW}, ?)
+    `,
+      [
+        handoff.id,
+        handoff.conversationId,
+        handoff.fromAgentId,
+        handoff.toAgentId,
+        handoff.reason,
+        JSON.stringify(handoff.sharedContext || {}),
+        context.tenantId,
+      ]
+    );
+
+    await this.query(
+      context,
+      `
+      UPDATE conversations
+      SET
+        current_agent_id = ?,
+        participating_agents = ${APPEND_PARTICIPANT},
+        metadata = json_set(
+          metadata,
+          '$.performance.handoffCount',
+          COALESCE(json_extract(metadata, '$.performance.handoffCount'), 0) + 1
+        ),
+        updated_at = ${NOW}
+      WHERE id = ? AND tenant_id = ?
+    `,
+      [
+        handoff.toAgentId,
+        handoff.toAgentId,
+        handoff.toAgentId,
+        handoff.conversationId,
+        context.tenantId,
+      ]
+    );
+  }
+
+  async listHandoffs(
+    context: TenantContext,
+    conversationId: string
+  ): Promise<AgentHandoffRecord[]> {
+    const result = await this.query<Row[]>(
+      context,
+      `
+      SELECT id, conversation_id, from_agent_id, to_agent_id, reason, shared_context, created_at
+      FROM agent_handoffs
+      WHERE conversation_id = ? AND tenant_id = ?
+      ORDER BY created_at ASC, rowid ASC
+    `,
+      [conversationId, context.tenantId]
+    );
+
+    return result.data.map((row) => handoffFromRow(fromSqliteRow(row)));
+  }
+
+  /**
+   * Conditions selecting the context's conversations that match a filter,
+   * with columns qualified by `alias` when given
+   */
+  private conversationConditions(
+    context: TenantContext,
+    filter: ConversationFilter,
+    alias = ''
+  ): Conditions {
+    const column = (name: string) => (alias ? `${alias}.${name}` : name);
+    const conditions = [
+      `${column('tenant_id')} = ?`,
+      `${column('user_id')} = ?`,
+      `${column('deleted_at')} IS NULL`,
+    ];
+    const values: unknown[] = [context.tenantId, context.userId];
+
+    if (filter.status) {
+      conditions.push(`${column('status')} = ?`);
+      values.push(filter.status);
+    }
+
+    if (filter.agentId) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM json_each(${column('participating_agents')}) WHERE value = ?)`
+      );
+      values.push(filter.agentId);
+    }
+
+    if (filter.dateRange) {
+      if (filter.dateRange.start) {
+        conditions.push(`${column('created_at')} >= ?`);
+        values.push(toSqliteTimestamp(filter.dateRange.start));
+      }
+      if (filter.dateRange.end) {
+        conditions.push(`${column('created_at')} <= ?`);
+        values.push(toSqliteTimestamp(filter.dateRange.end));
+      }
+    }
+
+    if (filter.tags && filter.tags.length > 0) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM json_each(${column('metadata')}, '$.tags') tags
+        WHERE tags.value IN (SELECT value FROM json_each(?))
+      )`);
+      values.push(JSON.stringify(filter.tags));
+    }
+
+    if (filter.search) {
+      const matches = containsAll('content', searchTerms(filter.search));
+      conditions.push(`(instr(lower(${column('title')}), ?) > 0 OR ${column('id')} IN (
+        SELECT conversation_id FROM messages
+        WHERE tenant_id = ? AND ${matches.conditions.join(' AND ')}
+      ))`);
+      values.push(
+        filter.search.toLowerCase(),
+        context.tenantId,
+        ...matches.values
+      );
+    }
+
+    if (filter.messageCountRange) {
+      if (filter.messageCountRange.min !== undefined) {
+        conditions.push(`${column('message_count')} >= ?`);
+        values.push(filter.messageCountRange.min);
+      }
+      if (filter.messageCountRange.max !== undefined) {
+        conditions.push(`${column('message_count')} <= ?`);
+        values.push(filter.messageCountRange.max);
+      }
+    }
+
+    return { conditions, values };
+  }
+
+  /**
+   * FROM and WHERE clauses for a search: the context's conversations whose
+   * title contains the query or whose messages contain its words, joined
+   * with the best message score per conversation
+   */
+  private searchSource(
+    context: TenantContext,
+    query: string,
+    filters: ConversationFilter
+  ): { from: string; values: unknown[] } {
+    const { conditions, values } = this.conversationConditions(
+      context,
+      {
+        ...(filters.status ? { status: filters.status } : {}),
+        ...(filters.agentId ? { agentId: filters.agentId } : {}),
+        ...(filters.dateRange ? { dateRange: filters.dateRange } : {}),
+      },
+      'c'
+    );
+    const terms = searchTerms(query);
+    const score = occurrences('content', terms);
+    const matches = containsAll('content', terms);
+
+    const from = `
+      FROM conversations c
+      LEFT JOIN (
+        SELECT conversation_id, MAX(${score.conditions[0]}) AS search_rank
+        FROM messages
+        WHERE tenant_id = ? AND ${matches.conditions.join(' AND ')}
+        GROUP BY conversation_id
+      ) mr ON mr.conversation_id = c.id
+      WHERE ${[...conditions, '(instr(lower(c.title), ?) > 0 OR mr.conversation_id IS NOT NULL)'].join(' AND ')}
+    `;
+
+    return {
+      from,
+      values: [
+        ...score.values,
+        context.tenantId,
+        ...matches.values,
+        ...values,
+        query.toLowerCase(),
+      ],
+    };
+  }
+
+  /**
+   * Run a query for a tenant; none can run without a tenant context
+   */
+  private query<T>(
+    context: TenantContext,
+    sql: string,
+    params: unknown[]
+  ): Promise<QueryResult<T>> {
+    assertTenantContext(context);
+    return this.connectionManager.query<T>(sql, params, {
+      tenantId: context.tenantId,
+    });
+  }
+}
@@ -0,0 +1,552 @@
+/**
+ * Schema Migrations
+ *
+ * Applies versioned up/down migrations and records them in a migrations
+ * table. Each migration carries SQL per dialect; the checksum of the
+ * statements for the current dialect is stored when it is applied so that
+ * edits to released migrations are detected before anything else runs.
+ *
+ * A run holds an advisory lock so concurrent deploys migrate one at a time,
+ * and each migration commits together with its bookkeeping row on dialects
+ * with transactional DDL.
+ */
+
+import type {
+  ConnectionManager,
+  DatabaseProvider,
+  DatabaseSession,
+} from './ConnectionManager';
+import { ConversationMigrations } from './ConversationMigrations';
+import { hashContent } from '../knowledge/EmbeddingCache';
+
+/**
+ * SQL dialects migrations can be written for
+ */
+export type MigrationDialect = 'postgres' | 'sqlite' | 'mysql';
+
+/**
+ * Statements for each dialect a migration supports
+ */
+export type DialectStatements = Partial<
+  Record<MigrationDialect, readonly string[]>
+>;
+
+/**
+ * A versioned schema change. A migration without `down` statements for a
+ * dialect cannot be rolled back on it.
+ */
+export interface SchemaMigration {
+  version: number; // Positive integer, unique and increasing
+  name: string;
+  up: DialectStatements;
+  down: DialectStatements;
+  transaction?: boolean; // False for statements such as CREATE INDEX CONCURRENTLY
+}
+
+/**
+ * Migration recorded in the migrations table
+ */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+  durationMs: number;
+}
+
+/**
+ * Applied migration whose definition has changed since it ran
+ */
+export interface MigrationChecksumMismatch {
+  version: number;
+  name: string;
+  expected: string; // Checksum recorded when applied
+  actual: string; // Checksum of the current definition
+}
+
+/**
+ * Where the database stands relative to the known migrations
+ */
+export interface MigrationStatus {
+  dialect: MigrationDialect;
+  currentVersion: number;
+  latestVersion: number;
+  upToDate: boolean;
+  applied: AppliedMigration[];
+  pending: SchemaMigration[];
+  mismatched: MigrationChecksumMismatch[];
+  unknown: AppliedMigration[]; // Applied, but not defined in this release
+}
+
+/**
+ * One migration to apply or revert
+ */
+export interface MigrationStep {
+  version: number;
+  name: string;
+  checksum: string;
+  statements: readonly string[];
+  transaction: boolean; // Statements and bookkeeping commit together
+}
+
+/**
+ * Ordered steps that move the schema from one version to another
+ */
+export interface MigrationPlan {
+  dialect: MigrationDialect;
+  direction: 'up' | 'down';
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStep[];
+  dryRun: boolean;
+}
+
+/**
+ * Options for migrating or rolling back
+ */
+export interface MigrationOptions {
+  target?: number; // Defaults to the latest version, or the previous one for rollbacks
+  dryRun?: boolean; // Plan without executing anything
+}
+
+/**
+ * Migration runner configuration
+ */
+export interface MigrationRunnerConfig {
+  tableName: string;
+  migrations: readonly SchemaMigration[];
+  dialect?: MigrationDialect; // Defaults to the connection's provider
+}
+
+// MySQL commits implicitly after DDL, so its migrations cannot be undone as a unit
+const TRANSACTIONAL_DIALECTS: ReadonlySet<MigrationDialect> = new Set([
+  'postgres',
+  'sqlite',
+]);
+
+export const DEFAULT_MIGRATION_RUNNER_CONFIG: MigrationRunnerConfig = {
+  tableName: 'schema_migrations',
+  migrations: ConversationMigrations,
+};
+
+/**
+ * SQL dialect used by a database provider
+ */
+export function migrationDialect(provider: DatabaseProvider): MigrationDialect {
+  switch (provider) {
+    case 'supabase':
+    case 'postgres':
+      return 'postgres';
+    case 'sqlite':
+    case 'mysql':
+      return provider;
+    default:
+      throw new Error(`Schema migrations are not supported for ${provider}`);
+  }
+}
+
+/**
+ * Checksum of a migration's statements for one dialect
+ */
+export function migrationChecksum(
+  migration: SchemaMigration,
+  dialect: MigrationDialect
+): string {
+  return hashContent(
+    JSON.stringify({
+      version: migration.version,
+      up: migration.up[dialect] ?? null,
+      down: migration.down[dialect] ?? null,
+    })
+  );
+}
+
+/**
+ * Human-readable reason a schema is not up to date, or null if it is
+ */
+export function describeMigrationStatus(
+  status: MigrationStatus
+): string | null {
+  const list = (items: Array<{ version: number; name: string }>) =>
+    items.map(({ version, name }) => `${version} (${name})`).join(', ');
+
+  if (status.mismatched.length > 0) {
+    return `Applied migrations have been modified: ${list(status.mismatched)}`;
+  }
+  if (status.unknown.length > 0) {
+    return `Database has migrations this release does not know about: ${list(status.unknown)}`;
+  }
+  if (status.pending.length > 0) {
+    return (
+      `Schema is at version ${status.currentVersion} but version ` +
+      `${status.latestVersion} is required; pending migrations: ${list(status.pending)}`
+    );
+  }
+  return null;
+}
+
+export class MigrationRunner {
+  private connectionManager: ConnectionManager;
+  private config: MigrationRunnerConfig;
+  private migrations: SchemaMigration[];
+  readonly dialect: MigrationDialect;
+
+  constructor(
+    connectionManager: ConnectionManager,
+    config: Partial<MigrationRunnerConfig> = {}
+  ) {
+    this.connectionManager = connectionManager;
+    this.config = { ...DEFAULT_MIGRATION_RUNNER_CONFIG, ...config };
+    this.dialect =
+      this.config.dialect ?? migrationDialect(connectionManager.getProvider());
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.config.tableName)) {
+      throw new Error(
+        `Invalid migrations table name: ${this.config.tableName}`
+      );
+    }
+
+    this.migrations = [...this.config.migrations].sort(
+      (a, b) => a.version - b.version
+    );
+    this.migrations.forEach((migration, index) => {
+      if (!Number.isInteger(migration.version) || migration.version < 1) {
+        throw new Error(
+          `Migration ${migration.name} has invalid version ${migration.version}`
+        );
+      }
+      if (this.migrations[index - 1]?.version === migration.version) {
+        throw new Error(`Duplicate migration version ${migration.version}`);
+      }
+    });
+  }
+
+  /**
+   * Compare applied migrations with the known ones
+   */
+  async status(): Promise<MigrationStatus> {
+    const applied = await this.getApplied();
+    const appliedVersions = new Set(applied.map((m) => m.version));
+    const known = new Map(this.migrations.map((m) => [m.version, m]));
+
+    const mismatched: MigrationChecksumMismatch[] = [];
+    const unknown: AppliedMigration[] = [];
+    for (const record of applied) {
+      const migration = known.get(record.version);
+      if (!migration) {
+        unknown.push(record);
+        continue;
+      }
+      const actual = migrationChecksum(migration, this.dialect);
+      if (actual !== record.checksum) {
+        mismatched.push({
+          version: record.version,
+          name: record.name,
+          expected: record.checksum,
+          actual,
+        });
+      }
+    }
+
+    const pending = this.migrations.filter(
+      (m) => !appliedVersions.has(m.version)
+    );
+
+    return {
+      dialect: this.dialect,
+      currentVersion: applied[applied.length - 1]?.version ?? 0,
+      latestVersion: this.migrations[this.migrations.length - 1]?.version ?? 0,
+      upToDate:
+        pending.length === 0 && mismatched.length === 0 && unknown.length === 0,
+      applied,
+      pending,
+      mismatched,
+      unknown,
+    };
+  }
+
+  /**
+   * Applied migrations whose definitions no longer match their checksum
+   */
+  async verify(): Promise<MigrationChecksumMismatch[]> {
+    return (await this.status()).mismatched;
+  }
+
+  /**
+   * Steps `migrate` would run, without running them
+   */
+  plan(target?: number): Promise<MigrationPlan> {
+    return this.migrate({
+      ...(target !== undefined ? { target } : {}),
+      dryRun: true,
+    });
+  }
+
+  /**
+   * Apply pending migrations up to the target version
+   */
+  async migrate(options: MigrationOptions = {}): Promise<MigrationPlan> {
+    if (options.dryRun) return this.planMigrate(options);
+
+    return this.locked(async (session) => {
+      const plan = await this.planMigrate(options);
+      for (const step of plan.steps) {
+        await this.apply(session, step, (durationMs) => [
+          `INSERT INTO ${this.config.tableName} (version, name, checksum, applied_at, duration_ms) VALUES (${this.placeholders(5)})`,
+          [
+            step.version,
+            step.name,
+            step.checksum,
+            new Date().toISOString(),
+            durationMs,
+          ],
+        ]);
+      }
+      return plan;
+    });
+  }
+
+  /**
+   * Revert applied migrations down to the target version, which defaults to
+   * the one before the current version
+   */
+  async rollback(options: MigrationOptions = {}): Promise<MigrationPlan> {
+    if (options.dryRun) return this.planRollback(options);
+
+    return this.locked(async (session) => {
+      const plan = await this.planRollback(options);
+      for (const step of plan.steps) {
+        await this.apply(session, step, () => [
+          `DELETE FROM ${this.config.tableName} WHERE version = ${this.placeholders(1)}`,
+          [step.version],
+        ]);
+      }
+      return plan;
+    });
+  }
+
+  private async planMigrate(options: MigrationOptions): Promise<MigrationPlan> {
+    const status = await this.status();
+    this.assertConsistent(status);
+
+    const target = options.target ?? status.latestVersion;
+    if (target < status.currentVersion) {
+      throw new Error(
+        `Target version ${target} is below the current version ${status.currentVersion}; use rollback instead`
+      );
+    }
+
+    const steps = status.pending
+      .filter((migration) => migration.version <= target)
+      .map((migration) => this.createStep(migration, 'up'));
+
+    return {
+      dialect: this.dialect,
+      direction: 'up',
+      fromVersion: status.currentVersion,
+      toVersion: steps[steps.length - 1]?.version ?? status.currentVersion,
+      steps,
+      dryRun: options.dryRun === true,
+    };
+  }
+
+  private async planRollback(
+    options: MigrationOptions
+  ): Promise<MigrationPlan> {
+    const status = await this.status();
+    this.assertConsistent(status);
+
+    const target =
+      options.target ?? status.applied[status.applied.length - 2]?.version ?? 0;
+    if (target > status.currentVersion) {
+      throw new Error(
+        `Target version ${target} is above the current version ${status.currentVersion}; use migrate instead`
+      );
+    }
+
+    const known = new Map(this.migrations.map((m) => [m.version, m]));
+    const steps = status.applied
+      .filter((record) => record.version > target)
+      .reverse()
+      .map((record) => this.createStep(known.get(record.version)!, 'down'));
+
+    return {
+      dialect: this.dialect,
+      direction: 'down',
+      fromVersion: status.currentVersion,
+      toVersion: target,
+      steps,
+      dryRun: options.dryRun === true,
+    };
+  }
+
+  /**
+   * Run `fn` holding the migration lock, so the plan it reads cannot be
+   * changed by another runner before it is applied. SQLite needs no lock as
+   * it serializes writers itself, and sessions that are not pinned to one
+   * connection cannot hold one.
+   */
+  private locked<T>(fn: (session: DatabaseSession) => Promise<T>): Promise<T> {
+    return this.connectionManager.withSession(async (session) => {
+      const lockName = this.config.tableName;
+      if (!session.dedicated || this.dialect === 'sqlite') {
+        return fn(session);
+      }
+
+      if (this.dialect === 'postgres') {
+        await session.query('SELECT pg_advisory_lock(hashtext($1))', [
+          lockName,
+        ]);
+      } else {
+        const [row] = await session.query<Array<{ acquired: number | null }>>(
+          'SELECT GET_LOCK(?, -1) AS acquired',
+          [lockName]
+        );
+        if (Number(row?.acquired) !== 1) {
+          throw new Error(`Could not take the ${lockName} migration lock`);
+        }
+      }
+
+      try {
+        return await fn(session);
+      } finally {
+        await session.query(
+          this.dialect === 'postgres'
+            ? 'SELECT pg_advisory_unlock(hashtext($1))'
+            : 'SELECT RELEASE_LOCK(?)',
+          [lockName]
+        );
+      }
+    });
+  }
+
+  /**
+   * Run a step and record it, as one transaction when the step allows it
+   */
+  private async apply(
+    session: DatabaseSession,
+    step: MigrationStep,
+    bookkeeping: (durationMs: number) => [string, unknown[]]
+  ): Promise<void> {
+    const transaction = step.transaction && session.dedicated;
+    const startTime = Date.now();
+
+    if (transaction) await session.query('BEGIN');
+    try {
+      await this.execute(session, step);
+      const [sql, params] = bookkeeping(Date.now() - startTime);
+      await session.query(sql, params);
+      if (transaction) await session.query('COMMIT');
+    } catch (error) {
+      if (transaction) {
+        // The session is discarded if this fails, which also rolls back
+        await session.query('ROLLBACK').catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Refuse to change a schema whose history doesn't match this release
+   */
+  private assertConsistent(status: MigrationStatus): void {
+    if (status.mismatched.length > 0 || status.unknown.length > 0) {
+      throw new Error(describeMigrationStatus(status)!);
+    }
+  }
+
+  private createStep(
+    migration: SchemaMigration,
+    direction: 'up' | 'down'
+  ): MigrationStep {
+    const statements = migration[direction][this.dialect];
+    if (!statements) {
+      throw new Error(
+        direction === 'up'
+          ? `Migration ${migration.version} (${migration.name}) has no ${this.dialect} statements`
+          : `Migration ${migration.version} (${migration.name}) cannot be rolled back on ${this.dialect}`
+      );
+    }
+
+    return {
+      version: migration.version,
+      name: migration.name,
+      checksum: migrationChecksum(migration, this.dialect),
+      statements,
+      transaction:
+        migration.transaction !== false &&
+        TRANSACTIONAL_DIALECTS.has(this.dialect),
+    };
+  }
+
+  private async execute(
+    session: DatabaseSession,
+    step: MigrationStep
+  ): Promise<void> {
+    for (const [index, statement] of step.statements.entries()) {
+      try {
+        await session.query(statement);
+      } catch (error) {
+        throw new Error(
+          `Migration ${step.version} (${step.name}) failed at statement ${index + 1}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+  }
+
+  private async getApplied(): Promise<AppliedMigration[]> {
+    const timestamp =
+      this.dialect === 'postgres' ? 'TIMESTAMP WITH TIME ZONE' : 'VARCHAR(32)';
+    await this.connectionManager.query(
+      `CREATE TABLE IF NOT EXISTS ${this.config.tableName} (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        applied_at ${timestamp} NOT NULL,
+        duration_ms INTEGER NOT NULL
+      )`,
+      undefined,
+      { useCache: false }
+    );
+
+    const result = await this.connectionManager.query<
+      Array<{
+        version: number | string;
+        name: string;
+        checksum: string;
+        applied_at: string | Date;
+        duration_ms: number | string;
+      }>
+    >(
+      `SELECT version, name, checksum, applied_at, duration_ms FROM ${this.config.tableName} ORDER BY version`,
+      undefined,
+      { useCache: false }
+    );
+
+    return result.data.map((row) => ({
+      version: Number(row.version),
+      name: row.name,
+      checksum: row.checksum,
+      appliedAt: new Date(row.applied_at),
+      durationMs: Number(row.duration_ms),
+    }));
+  }
+
+  private placeholders(count: number): string {
+    return [...Array(count).keys()]
+      .map((i) => (this.dialect === 'postgres' ? `$${i + 1}` : '?'))
+      .join(', ');
+  }
+}
+
+/**
+ * Create a migration runner for the conversation schema
+ */
+export function createMigrationRunner(
+  connectionManager: ConnectionManager,
+  config: Partial<MigrationRunnerConfig> = {}
+): MigrationRunner {
+  return new MigrationRunner(connectionManager, config);
+}
@@ -0,0 +1,66 @@
+/**
+ * Tenant Context
+ *
+ * Every conversation data access call is scoped to a tenant (customer
+ * organization) and the user acting within it. A `TenantContext` can only be
+ * obtained from `createTenantContext`, so a call cannot be made with a bare
+ * user ID and silently read another tenant's rows.
+ */
+
+declare const tenantContextBrand: unique symbol;
+
+export interface TenantContext {
+  /** Customer organization the data belongs to */
+  readonly tenantId: string;
+  /** User acting within the tenant */
+  readonly userId: string;
+  readonly [tenantContextBrand]: true;
+}
+
+/**
+ * Postgres setting that row-level security policies read the tenant from
+ */
+export const TENANT_SETTING = 'app.tenant_id';
+
+/**
+ * Supabase RPC that sets the tenant setting for its own transaction and then
+ * runs the query through `execute_sql`
+ */
+export const SUPABASE_TENANT_RPC = 'execute_sql_as_tenant';
+
+/**
+ * Create the context for a user of a tenant
+ */
+export function createTenantContext(
+  tenantId: string,
+  userId: string
+): TenantContext {
+  if (typeof tenantId !== 'string' || tenantId.trim() === '') {
+    throw new Error('Tenant ID is required');
+  }
+  if (typeof userId !== 'string' || userId.trim() === '') {
+    throw new Error('User ID is required');
+  }
+
+  return Object.freeze({ tenantId, userId }) as TenantContext;
+}
+
+/**
+ * Check at runtime that a value is a tenant context, for callers that are
+ * not type-checked
+ */
+export function assertTenantContext(
+  context: unknown
+): asserts context is TenantContext {
+  if (
+    typeof context !== 'object' ||
+    context === null ||
+    !Object.isFrozen(context) ||
+    typeof (context as TenantContext).tenantId !== 'string' ||
+    typeof (context as TenantContext).userId !== 'string'
+  ) {
+    throw new Error(
+      'A tenant context from createTenantContext is required for data access'
+    );
+  }
+}
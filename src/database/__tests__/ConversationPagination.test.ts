@@ -0,0 +1,216 @@
+/**
+ * Tests for keyset pagination and streaming reads
+ */
+
+import { ConversationDataAccess } from '../ConversationDataAccess';
+import { decodeCursor, encodeCursor } from '../PaginationCursor';
+import { createTenantContext } from '../TenantContext';
+import type { ConnectionManager } from '../ConnectionManager';
+
+interface MessageRow {
+  id: string;
+  conversation_id: string;
+  role: string;
+  content: string;
+  created_at: string;
+}
+
+interface ConversationRow {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const context = createTenantContext('acme', 'user_1');
+
+const key = (row: { created_at: string; id: string }) =>
+  `${row.created_at}|${row.id}`;
+
+/**
+ * Connection that answers the data access queries from in-memory rows,
+ * seeking and limiting the way the SQL does
+ */
+function createConnection() {
+  const messages: MessageRow[] = [];
+  const conversations: ConversationRow[] = [];
+
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('WHERE id = $1 AND tenant_id = $2 AND user_id = $3')) {
+      return {
+        data: [{ id: params[0], tenant_id: params[1], user_id: params[2] }],
+      };
+    }
+    if (sql.includes('COUNT(*)')) {
+      const total = sql.includes('FROM messages')
+        ? messages.length
+        : conversations.length;
+      return { data: [{ total }] };
+    }
+
+    const [limit, offset] = params.slice(-2);
+    if (sql.includes('FROM messages m')) {
+      const after = params.length === 6 ? `${params[2]}|${params[3]}` : '';
+      const rows = messages
+        .filter((row) => key(row) > after)
+        .sort((a, b) => (key(a) < key(b) ? -1 : 1))
+        .map((row) => ({ ...row, sort_value: row.created_at }));
+      return { data: rows.slice(offset, offset + limit) };
+    }
+
+    const before = params.length === 6 ? `${params[2]}|${params[3]}` : '\uffff';
+    const rows = conversations
+      .map((row) => ({ ...row, sort_value: row.updated_at }))
+      .filter((row) => `${row.sort_value}|${row.id}` < before)
+      .sort((a, b) =>
+        `${a.sort_value}|${a.id}` > `${b.sort_value}|${b.id}` ? -1 : 1
+      );
+    return { data: rows.slice(offset, offset + limit) };
+  });
+
+  const connection = {
+    getProvider: () => 'postgres',
+    query,
+  } as unknown as ConnectionManager;
+  return { connection, query, messages, conversations };
+}
+
+function addMessages(messages: MessageRow[], count: number, second = 0) {
+  const start = messages.length;
+  for (let i = start; i < start + count; i++) {
+    messages.push({
+      id: `msg_${String(i).padStart(3, '0')}`,
+      conversation_id: 'conv_1',
+      role: 'user',
+      content: `Message ${i}`,
+      // Several messages share each timestamp, so ties are broken by id
+      created_at: `2024-01-01 00:00:${String(second + Math.floor(i / 3)).padStart(2, '0')}+00`,
+    });
+  }
+}
+
+describe('ConversationDataAccess keyset pagination', () => {
+  it('should page messages with cursors that survive concurrent inserts', async () => {
+    const { connection, messages } = createConnection();
+    addMessages(messages, 5);
+    const dataAccess = new ConversationDataAccess(connection);
+
+    const first = await dataAccess.getMessages('conv_1', context, {
+      page: 0,
+      pageSize: 2,
+    });
+    expect(first.data.map((message) => message.id)).toEqual([
+      'msg_000',
+      'msg_001',
+    ]);
+    expect(first.pagination).toMatchObject({ hasMore: true, total: 5 });
+
+    // New messages arrive between requests
+    addMessages(messages, 2);
+
+    const seen = [...first.data];
+    let pagination = first.pagination;
+    while (pagination.nextCursor) {
+      const next = await dataAccess.getMessages('conv_1', context, {
+        page: 0,
+        pageSize: 2,
+        cursor: pagination.nextCursor,
+      });
+      seen.push(...next.data);
+      pagination = next.pagination;
+    }
+
+    expect(seen.map((message) => message.id)).toEqual(
+      messages.map((message) => message.id)
+    );
+    expect(pagination.hasMore).toBe(false);
+  });
+
+  it('should order conversations by the requested sort and id', async () => {
+    const { connection, query, conversations } = createConnection();
+    for (const [id, updatedAt] of [
+      ['conv_a', '2024-01-02'],
+      ['conv_b', '2024-01-03'],
+      ['conv_c', '2024-01-02'],
+    ] as const) {
+      conversations.push({
+        id,
+        title: id,
+        created_at: '2024-01-01',
+        updated_at: updatedAt,
+      });
+    }
+    const dataAccess = new ConversationDataAccess(connection);
+
+    const first = await dataAccess.listConversations(
+      context,
+      {},
+      { page: 0, pageSize: 2 }
+    );
+    const second = await dataAccess.listConversations(
+      context,
+      {},
+      { page: 0, pageSize: 2, cursor: first.pagination.nextCursor! }
+    );
+
+    expect([...first.data, ...second.data].map((row) => row.id)).toEqual([
+      'conv_b',
+      'conv_c',
+      'conv_a',
+    ]);
+    expect(second.pagination.hasMore).toBe(false);
+    expect(query.mock.calls.at(-1)![0]).toContain(
+      '(updated_at, id) < ($3, $4)'
+    );
+    expect(query.mock.calls.at(-1)![0]).toContain(
+      'ORDER BY updated_at DESC, id DESC'
+    );
+  });
+
+  it('should reject cursors issued for a different ordering', async () => {
+    const { connection } = createConnection();
+    const dataAccess = new ConversationDataAccess(connection);
+    const cursor = encodeCursor({
+      order: 'conversations:updatedAt:desc',
+      values: ['2024-01-01', 'conv_a'],
+    });
+
+    await expect(
+      dataAccess.listConversations(
+        context,
+        {},
+        {
+          page: 0,
+          pageSize: 2,
+          cursor,
+          sort: { field: 'createdAt', direction: 'asc' },
+        }
+      )
+    ).rejects.toThrow(
+      'Pagination cursor was issued for conversations:updatedAt:desc, not conversations:createdAt:asc'
+    );
+    expect(() =>
+      decodeCursor('not a cursor', 'messages:createdAt:asc', 2)
+    ).toThrow('Invalid pagination cursor');
+  });
+
+  it('should stream every message in batches', async () => {
+    const { connection, query, messages } = createConnection();
+    addMessages(messages, 7);
+    const dataAccess = new ConversationDataAccess(connection);
+
+    const ids: string[] = [];
+    for await (const message of dataAccess.streamMessages('conv_1', context, {
+      batchSize: 3,
+    })) {
+      ids.push(message.id);
+    }
+
+    expect(ids).toEqual(messages.map((message) => message.id));
+    const pageQueries = query.mock.calls.filter(([sql]) =>
+      sql.includes('FROM messages m')
+    );
+    expect(pageQueries).toHaveLength(3);
+    expect(query.mock.calls.some(([sql]) => sql.includes('COUNT'))).toBe(false);
+  });
+});
@@ -0,0 +1,475 @@
+/**
+ * Tests for the MySQL, SQLite and MongoDB conversation repositories' queries
+ * and the in-memory fixtures
+ */
+
+import { MySQLConversationRepository } from '../MySQLConversationRepository';
+import {
+  MongoConversationRepository,
+  type MongoCollection,
+  type MongoDatabase,
+} from '../MongoConversationRepository';
+import { createConversationRepository } from '../ConversationDataAccess';
+import { PostgresConversationRepository } from '../PostgresConversationRepository';
+import { SQLiteConversationRepository } from '../SQLiteConversationRepository';
+import { MemoryConversationRepository } from '../MemoryConversationRepository';
+import { ConversationDataAccess } from '../ConversationDataAccess';
+import { seedConversationFixtures } from '../ConversationFixtures';
+import { createChatDatabase } from '../index';
+import { createTenantContext } from '../TenantContext';
+import type { ConnectionManager } from '../ConnectionManager';
+
+const context = createTenantContext('acme', 'user_1');
+
+const conversationRow = {
+  id: 'conv_1',
+  tenant_id: 'acme',
+  user_id: 'user_1',
+  title: 'Refund request',
+  created_at: '2026-01-15T09:00:00Z',
+  updated_at: '2026-01-15T09:00:00Z',
+  status: 'active',
+  participating_agents: '["general-assistant"]',
+  metadata: '{"priority":"medium"}',
+};
+
+function createMySQL() {
+  const query = jest.fn(async (sql: string) => {
+    if (sql.trim().startsWith('UPDATE')) {
+      return { data: { affectedRows: 1 } };
+    }
+    if (sql.includes('SELECT *')) {
+      return { data: [conversationRow] };
+    }
+    return { data: [] };
+  });
+  const connection = {
+    getProvider: () => 'mysql',
+    query,
+  } as unknown as ConnectionManager;
+  return { repository: new MySQLConversationRepository(connection), query };
+}
+
+function createMongo(results: Record<string, Record<string, any>[]> = {}) {
+  const collections = new Map<string, jest.Mocked<MongoCollection>>();
+  const collection = (name: string) => {
+    if (!collections.has(name)) {
+      const documents = results[name] ?? [];
+      const cursor = { toArray: jest.fn(async () => documents) };
+      collections.set(name, {
+        createIndex: jest.fn(async () => 'created'),
+        listIndexes: jest.fn(() => cursor),
+        insertOne: jest.fn(async () => ({})),
+        findOne: jest.fn(async () => documents[0] ?? null),
+        find: jest.fn(() => cursor),
+        updateOne: jest.fn(async () => ({ matchedCount: 1 })),
+        countDocuments: jest.fn(async () => documents.length),
+        aggregate: jest.fn(() => cursor),
+      });
+    }
+    return collections.get(name)!;
+  };
+  const database: MongoDatabase = {
+    collection,
+    command: jest.fn(async () => ({ ok: 1 })),
+  };
+  return { repository: new MongoConversationRepository(database), collection };
+}
+
+describe('createConversationRepository', () => {
+  it('should pick the repository for the connection provider', () => {
+    const connection = (provider: string) =>
+      ({ getProvider: () => provider }) as unknown as ConnectionManager;
+
+    expect(createConversationRepository(connection('supabase'))).toBeInstanceOf(
+      PostgresConversationRepository
+    );
+    expect(createConversationRepository(connection('mysql'))).toBeInstanceOf(
+      MySQLConversationRepository
+    );
+    expect(createConversationRepository(connection('mongodb'))).toBeInstanceOf(
+      MongoConversationRepository
+    );
+    expect(createConversationRepository(connection('sqlite'))).toBeInstanceOf(
+      SQLiteConversationRepository
+    );
+    expect(createConversationRepository(connection('memory'))).toBeInstanceOf(
+      MemoryConversationRepository
+    );
+    expect(() => createConversationRepository(connection('redis'))).toThrow(
+      'Conversation storage is not supported for redis'
+    );
+  });
+});
+
+describe('MySQLConversationRepository', () => {
+  it('should bind one parameter per placeholder and scope every query to the tenant', async () => {
+    const { repository, query } = createMySQL();
+    const filter = {
+      status: 'active' as const,
+      agentId: 'general-assistant',
+      tags: ['billing'],
+      search: 'refund',
+      messageCountRange: { min: 1, max: 10 },
+    };
+    const window = { limit: 3, offset: 0, after: ['2026-01-15', 'conv_1'] };
+
+    await repository.insertConversation(context, {
+      id: 'conv_1',
+      title: 'Refund request',
+      currentAgentId: null,
+      participatingAgents: [],
+      metadata: {},
+    });
+    await repository.updateConversation(context, 'conv_1', {
+      title: 'Refund',
+      metadata: { priority: 'high', 'odd"key': 1 },
+    });
+    await repository.listConversations(
+      context,
+      filter,
+      { field: 'lastMessageAt', direction: 'desc' },
+      window
+    );
+    await repository.setCurrentAgent(context, 'conv_1', 'code-specialist');
+    await repository.listMessages(context, 'conv_1', window);
+    await repository.countSearchResults(context, 'refund', filter);
+    await repository.searchConversations(context, 'refund', filter, {
+      limit: 3,
+      offset: 0,
+      after: ['0.5', '2026-01-15', 'conv_1'],
+    });
+    await repository.searchMessages(context, 'conv_1', 'refund', 5);
+    await repository.getStats(context);
+    await repository.insertHandoff(context, {
+      id: 'handoff_1',
+      conversationId: 'conv_1',
+      fromAgentId: null,
+      toAgentId: 'code-specialist',
+      reason: 'Escalation',
+    });
+    await repository.listHandoffs(context, 'conv_1');
+
+    expect(query).toHaveBeenCalledTimes(14);
+    for (const [sql, params, options] of query.mock.calls as any[]) {
+      expect(sql.split('?').length - 1).toBe(params.length);
+      expect(sql).not.toMatch(/\$\d|RETURNING|::/);
+      expect(sql).toContain('tenant_id');
+      expect(params).toContain('acme');
+      expect(options).toEqual({ tenantId: 'acme' });
+    }
+  });
+
+  it('should use MySQL JSON and full-text functions', async () => {
+    const { repository, query } = createMySQL();
+
+    await repository.updateConversation(context, 'conv_1', {
+      metadata: { priority: 'high' },
+    });
+    await repository.countConversations(context, {
+      agentId: 'general-assistant',
+      tags: ['billing'],
+      search: 'refund',
+    });
+    await repository.listConversations(
+      context,
+      {},
+      { field: 'updatedAt', direction: 'desc' },
+      { limit: 21, offset: 40 }
+    );
+
+    const [update, , count, list] = query.mock.calls as any[];
+    expect(update[0]).toContain('JSON_SET(COALESCE(metadata, JSON_OBJECT())');
+    expect(update[1].slice(0, 2)).toEqual(['$."priority"', '"high"']);
+    expect(count[0]).toContain('JSON_CONTAINS(participating_agents');
+    expect(count[0]).toContain('JSON_OVERLAPS');
+    expect(count[0]).toContain('MATCH(content) AGAINST');
+    expect(count[1]).toContain('["billing"]');
+    expect(list[0]).toContain('LIMIT 21 OFFSET 40');
+    expect(list[0]).toContain('ORDER BY updated_at DESC, id DESC');
+  });
+
+  it('should return null when an update matches no conversation', async () => {
+    const { repository, query } = createMySQL();
+    query.mockResolvedValueOnce({ data: { affectedRows: 0 } });
+
+    const updated = await repository.updateConversation(context, 'conv_9', {
+      title: 'Missing',
+    });
+
+    expect(updated).toBeNull();
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('SQLiteConversationRepository', () => {
+  function createSQLite() {
+    const query = jest.fn(async (sql: string) =>
+      sql.includes('RETURNING') || sql.includes('SELECT *')
+        ? {
+            data: [
+              {
+                ...conversationRow,
+                created_at: '2026-01-15 09:00:00.250',
+                updated_at: '2026-01-15 09:00:00',
+              },
+            ],
+          }
+        : { data: [] }
+    );
+    const connection = {
+      getProvider: () => 'sqlite',
+      query,
+    } as unknown as ConnectionManager;
+    return { repository: new SQLiteConversationRepository(connection), query };
+  }
+
+  it('should bind one parameter per placeholder and scope every query to the tenant', async () => {
+    const { repository, query } = createSQLite();
+    const filter = {
+      status: 'active' as const,
+      agentId: 'general-assistant',
+      tags: ['billing'],
+      search: 'refund request',
+      dateRange: { start: new Date('2026-01-01T00:00:00Z') },
+      messageCountRange: { min: 1 },
+    };
+    const window = {
+      limit: 3,
+      offset: 0,
+      after: ['2026-01-15 09:00:00', 'conv_1'],
+    };
+
+    await repository.updateConversation(context, 'conv_1', {
+      title: 'Refund',
+      metadata: { priority: 'high' },
+    });
+    await repository.listConversations(
+      context,
+      filter,
+      { field: 'createdAt', direction: 'desc' },
+      window
+    );
+    await repository.insertMessage(context, {
+      id: 'msg_1',
+      conversationId: 'conv_1',
+      role: 'user',
+      content: 'Hello',
+      agentId: null,
+      metadata: {},
+    });
+    await repository.setCurrentAgent(context, 'conv_1', 'code-specialist');
+    await repository.listMessages(context, 'conv_1', window);
+    await repository.countSearchResults(context, 'refund request', filter);
+    await repository.searchConversations(context, 'refund request', filter, {
+      limit: 3,
+      offset: 0,
+      after: ['2', '2026-01-15 09:00:00', 'conv_1'],
+    });
+    await repository.searchMessages(context, 'conv_1', 'refund request', 5);
+    await repository.getStats(context);
+    await repository.insertHandoff(context, {
+      id: 'handoff_1',
+      conversationId: 'conv_1',
+      fromAgentId: null,
+      toAgentId: 'code-specialist',
+      reason: 'Escalation',
+    });
+    await repository.listHandoffs(context, 'conv_1');
+
+    expect(query).toHaveBeenCalledTimes(13);
+    for (const [sql, params, options] of query.mock.calls as any[]) {
+      expect(sql.split('?').length - 1).toBe(params.length);
+      expect(sql).not.toMatch(/\$\d|::|ILIKE/);
+      expect(sql).toContain('tenant_id');
+      expect(params).toContain('acme');
+      expect(options).toEqual({ tenantId: 'acme' });
+      for (const param of params) {
+        expect(param).not.toBeInstanceOf(Date);
+      }
+    }
+  });
+
+  it('should read SQLite timestamps as UTC', async () => {
+    const { repository } = createSQLite();
+
+    const conversation = await repository.findConversation(context, 'conv_1');
+
+    expect(conversation?.createdAt.toISOString()).toBe(
+      '2026-01-15T09:00:00.250Z'
+    );
+    expect(conversation?.updatedAt.toISOString()).toBe(
+      '2026-01-15T09:00:00.000Z'
+    );
+  });
+});
+
+describe('MongoConversationRepository', () => {
+  it('should create its indexes on migrate and report missing ones otherwise', async () => {
+    const { repository, collection } = createMongo();
+
+    const unprepared = await repository.prepare({});
+    await repository.prepare({ migrate: true });
+
+    expect(unprepared).toMatchObject({
+      ready: false,
+      reason: expect.stringContaining('messages.messages_search'),
+    });
+    expect(collection('messages').createIndex).toHaveBeenCalledWith(
+      { tenant_id: 1, content: 'text' },
+      { name: 'messages_search' }
+    );
+    expect(collection('conversations').createIndex).toHaveBeenCalledWith(
+      { id: 1 },
+      { name: 'conversations_id', unique: true }
+    );
+  });
+
+  it('should update conversation counters when storing a message', async () => {
+    const { repository, collection } = createMongo();
+
+    const message = await repository.insertMessage(context, {
+      id: 'msg_1',
+      conversationId: 'conv_1',
+      role: 'user',
+      content: 'Hello',
+      agentId: null,
+      metadata: {},
+    });
+
+    expect(message).toMatchObject({ id: 'msg_1', content: 'Hello' });
+    expect(collection('messages').insertOne).toHaveBeenCalledWith(
+      expect.objectContaining({ tenant_id: 'acme', conversation_id: 'conv_1' })
+    );
+    expect(collection('conversations').updateOne).toHaveBeenCalledWith(
+      { id: 'conv_1', tenant_id: 'acme' },
+      expect.objectContaining({
+        $inc: { message_count: 1, total_tokens: 0, version: 1 },
+      })
+    );
+  });
+
+  it('should record handoffs and count them in the conversation metadata', async () => {
+    const { repository, collection } = createMongo();
+
+    await repository.insertHandoff(context, {
+      id: 'handoff_1',
+      conversationId: 'conv_1',
+      fromAgentId: 'general-assistant',
+      toAgentId: 'code-specialist',
+      reason: 'Escalation',
+    });
+
+    expect(collection('agent_handoffs').insertOne).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'handoff_1', tenant_id: 'acme' })
+    );
+    expect(collection('conversations').updateOne).toHaveBeenCalledWith(
+      { id: 'conv_1', tenant_id: 'acme' },
+      expect.objectContaining({
+        $addToSet: { participating_agents: 'code-specialist' },
+        $inc: { 'metadata.performance.handoffCount': 1, version: 1 },
+      })
+    );
+  });
+
+  it('should rank search results by message score and seek past a key', async () => {
+    const conversation = (id: string, updated_at: string) => ({
+      ...conversationRow,
+      id,
+      updated_at: new Date(updated_at),
+      participating_agents: [],
+    });
+    const { repository, collection } = createMongo({
+      messages: [
+        { _id: 'conv_b', rank: 2 },
+        { _id: 'conv_c', rank: 1 },
+      ],
+      conversations: [
+        conversation('conv_a', '2026-01-03T00:00:00Z'),
+        conversation('conv_b', '2026-01-01T00:00:00Z'),
+        conversation('conv_c', '2026-01-02T00:00:00Z'),
+      ],
+    });
+
+    const first = await repository.searchConversations(
+      context,
+      'refund',
+      {},
+      {
+        limit: 2,
+        offset: 0,
+      }
+    );
+    const rest = await repository.searchConversations(
+      context,
+      'refund',
+      {},
+      {
+        limit: 2,
+        offset: 0,
+        after: first[1]!.key,
+      }
+    );
+
+    expect(first.map(({ row }) => row.conversation.id)).toEqual([
+      'conv_b',
+      'conv_c',
+    ]);
+    expect(first[0]!.row.rank).toBe(2);
+    expect(rest.map(({ row }) => row.conversation.id)).toEqual(['conv_a']);
+    expect(collection('messages').aggregate).toHaveBeenCalledWith([
+      { $match: { tenant_id: 'acme', $text: { $search: 'refund' } } },
+      expect.objectContaining({ $group: expect.any(Object) }),
+    ]);
+    expect(collection('conversations').find).toHaveBeenCalledWith(
+      expect.objectContaining({ tenant_id: 'acme', user_id: 'user_1' }),
+      expect.any(Object)
+    );
+  });
+});
+
+describe('in-memory conversation storage', () => {
+  it('should be created by createChatDatabase and seeded with fixtures', async () => {
+    const { connectionManager } = createChatDatabase({
+      provider: 'memory',
+      enableMetrics: false,
+    });
+    await connectionManager.initialize();
+    const dataAccess = new ConversationDataAccess(connectionManager);
+
+    const fixtures = await seedConversationFixtures(dataAccess, context);
+    const refunds = await dataAccess.searchConversations(context, {
+      query: 'refund',
+    });
+    const stats = await dataAccess.getConversationStats(context);
+    const handedOff = fixtures.conversations.find(
+      ({ conversation }) => conversation.currentAgentId === 'code-specialist'
+    );
+    const messages = await dataAccess.getMessages(
+      handedOff!.conversation.id,
+      context
+    );
+
+    expect(fixtures.conversations).toHaveLength(4);
+    expect(connectionManager.getMemoryDatabase().agents.size).toBe(4);
+    expect(refunds.data.map((result) => result.conversation.title)).toEqual([
+      'Refund for a duplicate charge',
+    ]);
+    expect(refunds.data[0]?.messages).toHaveLength(2);
+    expect(stats.data).toMatchObject({
+      totalConversations: 4,
+      activeConversations: 3,
+      archivedConversations: 1,
+      totalMessages: 8,
+    });
+    expect(
+      messages.data.find((message) => message.role === 'assistant')?.agentInfo
+        ?.name
+    ).toBe('Code Specialist');
+    expect(handedOff?.conversation.metadata.performance).toEqual({
+      handoffCount: 1,
+    });
+
+    await connectionManager.shutdown();
+  });
+});
@@ -0,0 +1,424 @@
+/**
+ * Tests for conversation transcript export and import
+ */
+
+import {
+  createTranscript,
+  parseTranscript,
+  renderTranscriptHtml,
+  renderTranscriptMarkdown,
+  serializeTranscript,
+  toFineTuningJsonl,
+  transcriptToMessageRequests,
+} from '../ConversationTranscript';
+import { ConversationAPI } from '../ConversationAPI';
+import type { ConversationDataAccess } from '../ConversationDataAccess';
+import type {
+  Conversation,
+  ConversationMessage,
+} from '../../types/conversation';
+
+const conversation: Conversation = {
+  id: 'conv_1',
+  tenantId: 'acme',
+  userId: 'user_1',
+  title: 'Late <parcel>',
+  createdAt: new Date('2026-01-15T09:00:00Z'),
+  updatedAt: new Date('2026-01-15T09:10:00Z'),
+  status: 'active',
+  currentAgentId: 'billing',
+  participatingAgents: ['support', 'billing'],
+  metadata: { messageCount: 4, tags: ['shipping'] },
+};
+
+const messages: ConversationMessage[] = [
+  {
+    id: 'm1',
+    conversationId: 'conv_1',
+    role: 'user',
+    content: 'My parcel is late, I want a <b>refund</b>',
+    createdAt: new Date('2026-01-15T09:01:00Z'),
+    metadata: {
+      ui: {
+        attachments: [
+          {
+            id: 'a1',
+            filename: 'receipt.pdf',
+            mimeType: 'application/pdf',
+            size: 1024,
+            url: 'https://files.example.com/receipt.pdf',
+            uploadedAt: new Date('2026-01-15T09:01:00Z'),
+            uploadedBy: 'user_1',
+          },
+        ],
+      },
+    },
+  },
+  {
+    id: 'm2',
+    conversationId: 'conv_1',
+    role: 'assistant',
+    content: 'Let me check that order.',
+    agentId: 'support',
+    agentInfo: {
+      id: 'support',
+      name: 'Support Agent',
+      type: 'general',
+      capabilities: [],
+    },
+    createdAt: new Date('2026-01-15T09:02:00Z'),
+    model: 'gpt-4o',
+    metadata: {
+      toolInvocations: [
+        {
+          toolCallId: 'call_1',
+          toolName: 'lookup_order',
+          args: { orderId: 'o_42' },
+          result: { status: 'delayed' },
+          state: 'complete',
+        },
+      ],
+      reasoning: {
+        steps: [{ type: 'analysis', content: 'Order lookup needed' }],
+      },
+      priority: 'high',
+    },
+  },
+  {
+    id: 'm3',
+    conversationId: 'conv_1',
+    role: 'assistant',
+    content: 'I have issued a refund.',
+    agentId: 'billing',
+    createdAt: new Date('2026-01-15T09:05:00Z'),
+    metadata: {
+      sources: [
+        {
+          id: 's1',
+          title: 'Refund policy',
+          url: 'javascript:alert(1)',
+          content: 'Refunds within 30 days',
+        },
+      ],
+    },
+  },
+  {
+    id: 'm4',
+    conversationId: 'conv_1',
+    role: 'assistant',
+    content: 'Draft reply',
+    agentId: 'billing',
+    status: 'failed',
+    createdAt: new Date('2026-01-15T09:06:00Z'),
+  },
+];
+
+const handoffs = [
+  {
+    id: 'h1',
+    conversationId: 'conv_1',
+    fromAgentId: 'support',
+    toAgentId: 'billing',
+    reason: 'Refund requested',
+    createdAt: new Date('2026-01-15T09:03:00Z'),
+  },
+];
+
+const build = () =>
+  createTranscript(conversation, messages, {
+    handoffs,
+    exportedAt: new Date('2026-02-01T00:00:00Z'),
+  });
+
+describe('createTranscript', () => {
+  it('should lift tool calls, reasoning, sources and attachments out of metadata', () => {
+    const transcript = build();
+
+    expect(transcript).toMatchObject({
+      schema: 'conciergus.transcript',
+      version: 1,
+      exportedAt: '2026-02-01T00:00:00.000Z',
+      conversation: { id: 'conv_1', metadata: { tags: ['shipping'] } },
+      agents: [
+        { id: 'support', name: 'Support Agent' },
+        { id: 'billing', name: 'billing' },
+      ],
+      handoffs: [
+        {
+          id: 'h1',
+          fromAgentId: 'support',
+          toAgentId: 'billing',
+          at: '2026-01-15T09:03:00.000Z',
+        },
+      ],
+    });
+    expect(transcript.messages[0]!.attachments).toEqual([
+      {
+        id: 'a1',
+        filename: 'receipt.pdf',
+        mimeType: 'application/pdf',
+        size: 1024,
+        url: 'https://files.example.com/receipt.pdf',
+      },
+    ]);
+    expect(transcript.messages[0]!.metadata).toBeUndefined();
+    expect(transcript.messages[1]).toEqual({
+      id: 'm2',
+      role: 'assistant',
+      content: 'Let me check that order.',
+      createdAt: '2026-01-15T09:02:00.000Z',
+      agentId: 'support',
+      model: 'gpt-4o',
+      toolCalls: [
+        {
+          id: 'call_1',
+          name: 'lookup_order',
+          args: { orderId: 'o_42' },
+          result: { status: 'delayed' },
+          state: 'complete',
+        },
+      ],
+      reasoning: [{ type: 'analysis', content: 'Order lookup needed' }],
+      metadata: { priority: 'high' },
+    });
+  });
+
+  it('should derive handoffs from message metadata when no records are given', () => {
+    const transcript = createTranscript(conversation, [
+      {
+        ...messages[2]!,
+        metadata: {
+          handoff: { fromAgentId: 'support', toAgentId: 'billing' },
+        },
+      },
+    ]);
+
+    expect(transcript.handoffs).toEqual([
+      {
+        fromAgentId: 'support',
+        toAgentId: 'billing',
+        reason: '',
+        at: '2026-01-15T09:05:00.000Z',
+      },
+    ]);
+  });
+});
+
+describe('transcript rendering', () => {
+  it('should render readable Markdown with handoffs in order', () => {
+    const markdown = renderTranscriptMarkdown(build());
+
+    expect(markdown).toContain('# Late <parcel>');
+    expect(markdown).toContain(
+      '- Agents: Support Agent (general), billing (general)'
+    );
+    expect(
+      markdown.indexOf('## Support Agent · 2026-01-15 09:02 UTC')
+    ).toBeLessThan(
+      markdown.indexOf(
+        '> **Handoff** · 2026-01-15 09:03 UTC · Support Agent → billing: Refund requested'
+      )
+    );
+    expect(markdown).toContain(
+      '**Tool call** `lookup_order`\n\n```json\n{\n  "orderId": "o_42"\n}\n```'
+    );
+    expect(markdown).toContain('1. *analysis*: Order lookup needed');
+    expect(markdown).toContain(
+      '- [receipt.pdf](https://files.example.com/receipt.pdf)'
+    );
+  });
+
+  it('should render self-contained, escaped HTML', () => {
+    const html = renderTranscriptHtml(build());
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Late &lt;parcel&gt;</title>');
+    expect(html).toContain('I want a &lt;b&gt;refund&lt;/b&gt;');
+    expect(html).not.toContain('<b>refund</b>');
+    expect(html).not.toMatch(/<(script|link)\b|src=/);
+    expect(html).toContain('<li>Refund policy</li>');
+    expect(html).toContain(
+      '<a href="https://files.example.com/receipt.pdf" rel="noopener noreferrer">receipt.pdf</a>'
+    );
+  });
+
+  it('should export chat fine-tuning JSONL with tool calls', () => {
+    const jsonl = toFineTuningJsonl([build()], {
+      systemPrompt: 'You are a support agent.',
+    });
+    const lines = jsonl.trimEnd().split('\n');
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]!).messages).toEqual([
+      { role: 'system', content: 'You are a support agent.' },
+      { role: 'user', content: 'My parcel is late, I want a <b>refund</b>' },
+      {
+        role: 'assistant',
+        content: 'Let me check that order.',
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'lookup_order', arguments: '{"orderId":"o_42"}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '{"status":"delayed"}' },
+      { role: 'assistant', content: 'I have issued a refund.' },
+    ]);
+
+    const perTurn = serializeTranscript(build(), 'jsonl', {
+      perTurn: true,
+      includeToolCalls: false,
+    })
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line).messages.length);
+    expect(perTurn).toEqual([2, 3]);
+  });
+});
+
+describe('transcript import', () => {
+  it('should round-trip through JSON into message requests', () => {
+    const parsed = parseTranscript(serializeTranscript(build(), 'json'));
+    const requests = transcriptToMessageRequests(parsed);
+
+    expect(requests).toHaveLength(4);
+    expect(requests[1]).toEqual({
+      role: 'assistant',
+      content: 'Let me check that order.',
+      agentId: 'support',
+      metadata: {
+        priority: 'high',
+        model: 'gpt-4o',
+        toolInvocations: [
+          {
+            toolCallId: 'call_1',
+            toolName: 'lookup_order',
+            args: { orderId: 'o_42' },
+            result: { status: 'delayed' },
+            state: 'complete',
+          },
+        ],
+        reasoning: {
+          steps: [{ type: 'analysis', content: 'Order lookup needed' }],
+        },
+        imported: {
+          conversationId: 'conv_1',
+          messageId: 'm2',
+          createdAt: '2026-01-15T09:02:00.000Z',
+        },
+      },
+    });
+    expect(requests[0]!.metadata?.ui.attachments).toHaveLength(1);
+  });
+
+  it('should report every validation problem', () => {
+    const transcript = JSON.parse(JSON.stringify(build()));
+    transcript.messages[0].role = 'robot';
+    delete transcript.messages[2].content;
+    transcript.handoffs[0].at = 'yesterday';
+
+    expect(() => parseTranscript(transcript)).toThrow(
+      'Invalid transcript: handoffs[0].at must be an ISO date; messages[0].role must be one of user, assistant, system, tool; messages[2].content must be a string'
+    );
+    expect(() => parseTranscript('{')).toThrow('not valid JSON');
+    expect(() => parseTranscript({ ...build(), version: 2 })).toThrow(
+      'Unsupported transcript version 2, expected 1'
+    );
+  });
+
+  it('should reject loose dates and store them as ISO strings', () => {
+    const transcript = JSON.parse(JSON.stringify(build()));
+    transcript.messages[0].createdAt =
+      '2026-01-01 ("><img src=x onerror=alert(1)>)';
+    expect(() => parseTranscript(transcript)).toThrow(
+      'messages[0].createdAt must be an ISO date'
+    );
+
+    transcript.messages[0].createdAt = '2026-01-15T10:01:00+01:00';
+    transcript.handoffs[0].at = '2026-01-15';
+    const parsed = parseTranscript(transcript);
+    expect(parsed.messages[0]!.createdAt).toBe('2026-01-15T09:01:00.000Z');
+    expect(parsed.handoffs[0]!.at).toBe('2026-01-15T00:00:00.000Z');
+    expect(renderTranscriptHtml(parsed)).toContain(
+      '<time datetime="2026-01-15T09:01:00.000Z">'
+    );
+  });
+});
+
+describe('ConversationAPI transcripts', () => {
+  it('should export every message page and import into a new conversation', async () => {
+    const pages = [messages.slice(0, 2), messages.slice(2)];
+    const created: any[] = [];
+    const dataAccess = {
+      getConversation: jest.fn(async () => ({
+        success: true,
+        data: conversation,
+      })),
+      streamMessages: jest.fn(async function* () {
+        for (const page of pages) yield* page;
+      }),
+      getAgentHandoffs: jest.fn(async () => ({
+        success: true,
+        data: handoffs,
+      })),
+      createConversation: jest.fn(async (_context: unknown, request: any) => ({
+        success: true,
+        data: { ...conversation, id: 'conv_2', title: request.title },
+      })),
+      createMessage: jest.fn(async (id: string, request: any) => {
+        created.push(request);
+        return {
+          success: true,
+          data: { ...request, id: `new_${created.length}`, conversationId: id },
+        };
+      }),
+      recordAgentHandoff: jest.fn(async () => ({ success: true })),
+    } as unknown as ConversationDataAccess;
+    const api = new ConversationAPI(
+      { tenantId: 'acme', userId: 'user_1' },
+      dataAccess
+    );
+
+    const exported = await api.exportConversation('conv_1', 'markdown');
+    expect(exported.success).toBe(true);
+    expect(exported.data).toMatchObject({
+      fileName: 'late-parcel-conv_1.md',
+      mimeType: 'text/markdown',
+    });
+    expect(exported.data!.transcript.messages).toHaveLength(4);
+    expect(exported.data!.content).toContain('I have issued a refund.');
+
+    const imported = await api.importConversation(
+      serializeTranscript(exported.data!.transcript, 'json')
+    );
+    expect(imported.success).toBe(true);
+    expect(imported.data!.conversation.id).toBe('conv_2');
+    expect(imported.data!.messages).toHaveLength(4);
+    const tenant = expect.objectContaining({
+      tenantId: 'acme',
+      userId: 'user_1',
+    });
+    expect(dataAccess.createConversation).toHaveBeenCalledWith(
+      tenant,
+      expect.objectContaining({
+        title: 'Late <parcel>',
+        metadata: expect.objectContaining({
+          imported: expect.objectContaining({ conversationId: 'conv_1' }),
+        }),
+      })
+    );
+    expect(dataAccess.recordAgentHandoff).toHaveBeenCalledWith(
+      'conv_2',
+      'support',
+      'billing',
+      'Refund requested',
+      tenant,
+      { importedAt: '2026-01-15T09:03:00.000Z' }
+    );
+
+    const invalid = await api.importConversation('{"schema":"other"}');
+    expect(invalid.error?.code).toBe('INVALID_TRANSCRIPT');
+  });
+});
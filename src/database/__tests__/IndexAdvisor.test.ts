@@ -0,0 +1,266 @@
+/**
+ * Tests for the index advisor
+ */
+
+import { IndexAdvisor } from '../IndexAdvisor';
+import { QueryOptimizer } from '../QueryOptimizer';
+import { DEFAULT_QUERY_OPTIMIZER_CONFIG } from '../index';
+import type { ConnectionManager, DatabaseProvider } from '../ConnectionManager';
+
+const MESSAGES_QUERY =
+  "SELECT id, content FROM messages WHERE conversation_id = 'conv_1' LIMIT 50";
+const AGENTS_QUERY = "SELECT name FROM conversation_agents WHERE type = 'code'";
+const HANDOFFS_QUERY =
+  "SELECT id FROM agent_handoffs WHERE to_agent_id = 'code-specialist' LIMIT 5";
+
+/**
+ * Connection with the given existing indexes whose sample queries get
+ * faster once an index on messages exists
+ */
+function createConnection(
+  provider: DatabaseProvider = 'postgres',
+  indexes: Array<{
+    table_name: string;
+    index_name: string;
+    column_name: string;
+  }> = []
+) {
+  let indexed = false;
+  let now = 0;
+  const query = jest.fn(async (sql: string) => {
+    if (sql.includes('table_name')) {
+      return { data: indexes };
+    }
+    if (sql.startsWith('CREATE INDEX')) {
+      indexed = true;
+    }
+    if (sql === MESSAGES_QUERY) {
+      now += indexed ? 2 : 40;
+    }
+    return { data: [] };
+  });
+  jest.spyOn(performance, 'now').mockImplementation(() => now);
+
+  const connection = {
+    getProvider: () => provider,
+    query,
+  } as unknown as ConnectionManager;
+  return { connection, query };
+}
+
+function createOptimizer() {
+  const optimizer = new QueryOptimizer(DEFAULT_QUERY_OPTIMIZER_CONFIG);
+  const record = (query: string, times: number, ms: number) => {
+    for (let i = 0; i < times; i++) {
+      optimizer.recordQueryPerformance(query, ms, true);
+    }
+  };
+  record(MESSAGES_QUERY, 200, 40);
+  record(AGENTS_QUERY, 50, 10);
+  record(HANDOFFS_QUERY, 3, 500);
+  return optimizer;
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('IndexAdvisor', () => {
+  it('should rank suggestions by estimated benefit and skip covered or rare patterns', async () => {
+    const { connection } = createConnection('postgres', [
+      {
+        table_name: 'conversation_agents',
+        index_name: 'idx_agents_type',
+        column_name: 'type',
+      },
+      {
+        table_name: 'conversation_agents',
+        index_name: 'idx_agents_type',
+        column_name: 'is_active',
+      },
+    ]);
+    const advisor = new IndexAdvisor(connection, createOptimizer());
+
+    const recommendations = await advisor.recommend();
+
+    expect(recommendations).toEqual([
+      expect.objectContaining({
+        id: 'idx_messages_conversation_id',
+        table: 'messages',
+        columns: ['conversation_id'],
+        impact: 'high',
+        estimatedBenefitMs: 200 * 40 * 0.5,
+        status: 'proposed',
+      }),
+    ]);
+    expect(recommendations[0]!.patterns[0]!.sampleQuery).toBe(MESSAGES_QUERY);
+  });
+
+  it('should generate migrations for each dialect', async () => {
+    const { connection } = createConnection();
+    const advisor = new IndexAdvisor(connection, createOptimizer());
+    await advisor.recommend();
+
+    const [file] = advisor.generateMigrations(
+      ['idx_messages_conversation_id'],
+      7
+    );
+
+    expect(file!.fileName).toBe('0007_add_idx_messages_conversation_id.ts');
+    expect(file!.migration).toEqual({
+      version: 7,
+      name: 'add_idx_messages_conversation_id',
+      up: {
+        postgres: [
+          'CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_messages_conversation_id ON messages (conversation_id);',
+        ],
+        sqlite: [
+          'CREATE INDEX IF NOT EXISTS idx_messages_conversation_id ON messages (conversation_id);',
+        ],
+        mysql: [
+          "SET @index_statement = IF((SELECT COUNT(*) FROM information_schema.statistics WHERE table_schema = DATABASE() AND table_name = 'messages' AND index_name = 'idx_messages_conversation_id') = 0, 'CREATE INDEX idx_messages_conversation_id ON messages (conversation_id) ALGORITHM=INPLACE LOCK=NONE', 'DO 0');",
+          'PREPARE index_statement FROM @index_statement;',
+          'EXECUTE index_statement;',
+          'DEALLOCATE PREPARE index_statement;',
+        ],
+      },
+      down: {
+        postgres: [
+          'DROP INDEX CONCURRENTLY IF EXISTS idx_messages_conversation_id;',
+        ],
+        sqlite: ['DROP INDEX IF EXISTS idx_messages_conversation_id;'],
+        mysql: [
+          "SET @index_statement = IF((SELECT COUNT(*) FROM information_schema.statistics WHERE table_schema = DATABASE() AND table_name = 'messages' AND index_name = 'idx_messages_conversation_id') > 0, 'DROP INDEX idx_messages_conversation_id ON messages', 'DO 0');",
+          'PREPARE index_statement FROM @index_statement;',
+          'EXECUTE index_statement;',
+          'DEALLOCATE PREPARE index_statement;',
+        ],
+      },
+      transaction: false,
+    });
+    expect(file!.contents).toContain(
+      "import type { SchemaMigration } from './SchemaMigrations';"
+    );
+    expect(file!.contents).toContain('export const migration: SchemaMigration');
+  });
+
+  it('should only apply approved indexes and measure whether they paid off', async () => {
+    const { connection, query } = createConnection();
+    const advisor = new IndexAdvisor(connection, createOptimizer(), {
+      latencySamples: 3,
+    });
+    const applied = jest.fn();
+    advisor.on('index-applied', applied);
+    await advisor.recommend();
+
+    await expect(advisor.apply('idx_messages_conversation_id')).rejects.toThrow(
+      'must be approved'
+    );
+    advisor.approve('idx_messages_conversation_id', 'dba@example.com');
+    const [outcome] = await advisor.applyApproved();
+
+    expect(query).toHaveBeenCalledWith(
+      'CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_messages_conversation_id ON messages (conversation_id);',
+      undefined,
+      { useCache: false }
+    );
+    expect(
+      query.mock.calls.filter(([sql]) => sql === MESSAGES_QUERY)
+    ).toHaveLength(6);
+    expect(outcome).toMatchObject({
+      paidOff: true,
+      latency: [
+        {
+          observedMs: 40,
+          beforeMs: 40,
+          afterMs: 2,
+          improvementPercent: 95,
+        },
+      ],
+    });
+    expect(outcome!.recommendation).toMatchObject({
+      status: 'applied',
+      approvedBy: 'dba@example.com',
+    });
+    expect(applied).toHaveBeenCalledWith(outcome);
+    expect(() =>
+      advisor.approve('idx_messages_conversation_id', 'dba@example.com')
+    ).toThrow('is applied');
+  });
+
+  it('should drop the invalid index left by a failed concurrent build', async () => {
+    const { connection, query } = createConnection();
+    const advisor = new IndexAdvisor(connection, createOptimizer());
+    await advisor.recommend();
+    advisor.approve('idx_messages_conversation_id', 'dba@example.com');
+    query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith('CREATE INDEX')) {
+        throw new Error('deadlock detected');
+      }
+      return { data: [] };
+    });
+
+    const outcome = await advisor.apply('idx_messages_conversation_id');
+
+    expect(outcome).toMatchObject({
+      error: 'deadlock detected',
+      paidOff: null,
+    });
+    expect(outcome.recommendation.status).toBe('failed');
+    expect(query).toHaveBeenCalledWith(
+      'DROP INDEX CONCURRENTLY IF EXISTS idx_messages_conversation_id;',
+      undefined,
+      { useCache: false }
+    );
+  });
+
+  it('should mark the index applied when measuring afterwards fails', async () => {
+    const { connection, query } = createConnection();
+    const advisor = new IndexAdvisor(connection, createOptimizer());
+    await advisor.recommend();
+    advisor.approve('idx_messages_conversation_id', 'dba@example.com');
+    query.mockImplementation(async (sql: string) => {
+      if (
+        sql === MESSAGES_QUERY &&
+        query.mock.calls.some(([run]) => run.startsWith('CREATE INDEX'))
+      ) {
+        throw new Error('connection reset');
+      }
+      return { data: [] };
+    });
+
+    const outcome = await advisor.apply('idx_messages_conversation_id');
+
+    expect(outcome.recommendation.status).toBe('applied');
+    expect(outcome).toMatchObject({
+      paidOff: null,
+      latency: [{ afterMs: null, improvementPercent: null }],
+    });
+  });
+
+  it('should never re-run sample queries that lock or write', async () => {
+    const unsafe = [
+      "SELECT id FROM messages WHERE conversation_id = 'conv_1' FOR UPDATE",
+      "WITH d AS (DELETE FROM messages WHERE conversation_id = 'conv_1' RETURNING id) SELECT id FROM messages WHERE conversation_id = 'conv_1'",
+      "SELECT id INTO archived FROM messages WHERE conversation_id = 'conv_1'",
+    ];
+    const { connection, query } = createConnection();
+    const optimizer = new QueryOptimizer(DEFAULT_QUERY_OPTIMIZER_CONFIG);
+    for (const sql of unsafe) {
+      for (let i = 0; i < 200; i++) {
+        optimizer.recordQueryPerformance(sql, 40, true);
+      }
+    }
+    const advisor = new IndexAdvisor(connection, optimizer);
+    await advisor.recommend();
+    for (const { id } of advisor.getRecommendations()) {
+      advisor.approve(id, 'dba@example.com');
+    }
+    await advisor.applyApproved();
+
+    expect(advisor.getRecommendations().length).toBeGreaterThan(0);
+    for (const sql of unsafe) {
+      expect(query).not.toHaveBeenCalledWith(sql, undefined, expect.anything());
+    }
+  });
+});
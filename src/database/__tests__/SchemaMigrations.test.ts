@@ -0,0 +1,360 @@
+/**
+ * Tests for the schema migration runner
+ */
+
+import {
+  MigrationRunner,
+  migrationChecksum,
+  type SchemaMigration,
+} from '../SchemaMigrations';
+import { ConversationMigrations } from '../ConversationMigrations';
+import { ConversationDataAccess } from '../ConversationDataAccess';
+import type {
+  ConnectionManager,
+  DatabaseProvider,
+  DatabaseSession,
+} from '../ConnectionManager';
+
+interface Row {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+  duration_ms: number;
+}
+
+/**
+ * Connection that keeps the migrations table in memory and records every
+ * other statement it is asked to run. Transactions roll back both; lock and
+ * transaction statements are recorded separately.
+ */
+function createConnection(provider: DatabaseProvider = 'postgres') {
+  const rows: Row[] = [];
+  const executed: string[] = [];
+  const control: string[] = [];
+  let snapshot: { rows: Row[]; executed: number } | null = null;
+
+  const query = jest.fn(async (sql: string, params: unknown[] = []) => {
+    if (/^(BEGIN|COMMIT|ROLLBACK)$/.test(sql)) {
+      control.push(sql);
+      if (sql === 'BEGIN') {
+        snapshot = { rows: [...rows], executed: executed.length };
+      } else if (sql === 'ROLLBACK' && snapshot) {
+        rows.splice(0, rows.length, ...snapshot.rows);
+        executed.length = snapshot.executed;
+      }
+      return { data: [] };
+    }
+    if (/_LOCK|pg_advisory/.test(sql)) {
+      control.push(sql);
+      return { data: [{ acquired: 1 }] };
+    }
+    if (sql.includes('schema_migrations')) {
+      if (sql.startsWith('INSERT')) {
+        const [version, name, checksum, appliedAt, duration] = params;
+        rows.push({
+          version: version as number,
+          name: name as string,
+          checksum: checksum as string,
+          applied_at: appliedAt as string,
+          duration_ms: duration as number,
+        });
+      } else if (sql.startsWith('DELETE')) {
+        rows.splice(
+          rows.findIndex((row) => row.version === params[0]),
+          1
+        );
+      } else if (sql.startsWith('SELECT')) {
+        return { data: [...rows].sort((a, b) => a.version - b.version) };
+      }
+      return { data: [] };
+    }
+    if (sql.includes('conversation_agents WHERE id')) {
+      return { data: [{ exists: true }] };
+    }
+    executed.push(sql);
+    return { data: [] };
+  });
+
+  const connection = {
+    getProvider: () => provider,
+    query,
+    withSession: (fn: (session: DatabaseSession) => Promise<unknown>) =>
+      fn({
+        dedicated: true,
+        query: async (sql, params) => (await query(sql, params)).data,
+      }),
+  } as unknown as ConnectionManager;
+
+  return { connection, rows, executed, control, query };
+}
+
+const migrations: SchemaMigration[] = [
+  {
+    version: 1,
+    name: 'create_notes',
+    up: {
+      postgres: ['CREATE TABLE notes (id UUID)'],
+      sqlite: ['CREATE TABLE notes (id TEXT)'],
+    },
+    down: {
+      postgres: ['DROP TABLE notes'],
+      sqlite: ['DROP TABLE notes'],
+    },
+  },
+  {
+    version: 2,
+    name: 'add_note_title',
+    up: {
+      postgres: ['ALTER TABLE notes ADD COLUMN title TEXT'],
+      sqlite: ['ALTER TABLE notes ADD COLUMN title TEXT'],
+    },
+    down: { postgres: ['ALTER TABLE notes DROP COLUMN title'] },
+  },
+];
+
+describe('MigrationRunner', () => {
+  it('should plan without executing on a dry run', async () => {
+    const { connection, executed, rows } = createConnection();
+    const runner = new MigrationRunner(connection, { migrations });
+
+    const plan = await runner.plan();
+
+    expect(plan).toMatchObject({
+      dialect: 'postgres',
+      direction: 'up',
+      fromVersion: 0,
+      toVersion: 2,
+      dryRun: true,
+    });
+    expect(plan.steps.map((step) => step.statements)).toEqual([
+      ['CREATE TABLE notes (id UUID)'],
+      ['ALTER TABLE notes ADD COLUMN title TEXT'],
+    ]);
+    expect(executed).toEqual([]);
+    expect(rows).toEqual([]);
+  });
+
+  it('should apply pending migrations and record them', async () => {
+    const { connection, executed, rows, query } = createConnection('sqlite');
+    const runner = new MigrationRunner(connection, { migrations });
+
+    await runner.migrate({ target: 1 });
+    expect((await runner.status()).currentVersion).toBe(1);
+
+    await runner.migrate();
+    const status = await runner.status();
+
+    expect(executed).toEqual([
+      'CREATE TABLE notes (id TEXT)',
+      'ALTER TABLE notes ADD COLUMN title TEXT',
+    ]);
+    expect(rows.map((row) => [row.version, row.checksum])).toEqual([
+      [1, migrationChecksum(migrations[0]!, 'sqlite')],
+      [2, migrationChecksum(migrations[1]!, 'sqlite')],
+    ]);
+    expect(status).toMatchObject({
+      currentVersion: 2,
+      latestVersion: 2,
+      upToDate: true,
+      pending: [],
+    });
+    expect(query).toHaveBeenCalledWith(
+      expect.stringContaining('VALUES (?, ?, ?, ?, ?)'),
+      expect.any(Array)
+    );
+  });
+
+  it('should roll back one migration at a time', async () => {
+    const { connection, executed } = createConnection();
+    const runner = new MigrationRunner(connection, { migrations });
+    await runner.migrate();
+    executed.length = 0;
+
+    const plan = await runner.rollback();
+    expect(plan).toMatchObject({ fromVersion: 2, toVersion: 1 });
+    expect(executed).toEqual(['ALTER TABLE notes DROP COLUMN title']);
+
+    await runner.rollback();
+    expect((await runner.status()).currentVersion).toBe(0);
+  });
+
+  it('should refuse to roll back without down statements for the dialect', async () => {
+    const { connection } = createConnection('sqlite');
+    const runner = new MigrationRunner(connection, { migrations });
+    await runner.migrate();
+
+    await expect(runner.rollback()).rejects.toThrow(
+      'Migration 2 (add_note_title) cannot be rolled back on sqlite'
+    );
+  });
+
+  it('should refuse to run when an applied migration was edited', async () => {
+    const { connection } = createConnection();
+    await new MigrationRunner(connection, {
+      migrations: migrations.slice(0, 1),
+    }).migrate();
+
+    const edited: SchemaMigration[] = [
+      {
+        ...migrations[0]!,
+        up: { postgres: ['CREATE TABLE notes (id TEXT)'] },
+      },
+      migrations[1]!,
+    ];
+    const runner = new MigrationRunner(connection, { migrations: edited });
+
+    expect(await runner.verify()).toEqual([
+      expect.objectContaining({ version: 1, name: 'create_notes' }),
+    ]);
+    await expect(runner.migrate()).rejects.toThrow(
+      'Applied migrations have been modified: 1 (create_notes)'
+    );
+  });
+
+  it('should leave no trace of a migration that fails partway through', async () => {
+    const { connection, rows, executed, control, query } = createConnection();
+    const failing: SchemaMigration = {
+      version: 3,
+      name: 'add_note_tags',
+      up: {
+        postgres: [
+          'ALTER TABLE notes ADD COLUMN tags TEXT[]',
+          'CREATE INDEX notes_tags ON notes USING gin (tags)',
+        ],
+      },
+      down: { postgres: ['ALTER TABLE notes DROP COLUMN tags'] },
+    };
+    const runner = new MigrationRunner(connection, {
+      migrations: [...migrations, failing],
+    });
+    const run = query.getMockImplementation()!;
+    query.mockImplementation(async (sql, params) => {
+      if (sql.startsWith('CREATE INDEX')) throw new Error('out of memory');
+      return run(sql, params);
+    });
+
+    await expect(runner.migrate()).rejects.toThrow(
+      'Migration 3 (add_note_tags) failed at statement 2: out of memory'
+    );
+
+    expect(rows.map((row) => row.version)).toEqual([1, 2]);
+    expect(executed).toEqual([
+      'CREATE TABLE notes (id UUID)',
+      'ALTER TABLE notes ADD COLUMN title TEXT',
+    ]);
+    expect(control).toEqual([
+      'SELECT pg_advisory_lock(hashtext($1))',
+      'BEGIN',
+      'COMMIT',
+      'BEGIN',
+      'COMMIT',
+      'BEGIN',
+      'ROLLBACK',
+      'SELECT pg_advisory_unlock(hashtext($1))',
+    ]);
+    expect((await runner.status()).pending.map((m) => m.version)).toEqual([3]);
+  });
+
+  it('should run opted-out migrations and MySQL DDL outside transactions', async () => {
+    const concurrent: SchemaMigration = {
+      version: 1,
+      name: 'add_notes_index',
+      up: {
+        postgres: ['CREATE INDEX CONCURRENTLY notes_id ON notes (id)'],
+        mysql: ['CREATE INDEX notes_id ON notes (id)'],
+      },
+      down: {
+        postgres: ['DROP INDEX CONCURRENTLY notes_id'],
+        mysql: ['DROP INDEX notes_id ON notes'],
+      },
+      transaction: false,
+    };
+    const postgres = createConnection();
+    await new MigrationRunner(postgres.connection, {
+      migrations: [concurrent],
+    }).migrate();
+
+    expect(postgres.executed).toEqual([
+      'CREATE INDEX CONCURRENTLY notes_id ON notes (id)',
+    ]);
+    expect(postgres.control).not.toContain('BEGIN');
+
+    const mysql = createConnection('mysql');
+    const runner = new MigrationRunner(mysql.connection, {
+      migrations: [{ ...concurrent, transaction: true }],
+    });
+    expect((await runner.plan()).steps[0]!.transaction).toBe(false);
+    await runner.migrate();
+
+    expect(mysql.rows.map((row) => row.version)).toEqual([1]);
+    expect(mysql.control).toEqual([
+      'SELECT GET_LOCK(?, -1) AS acquired',
+      'SELECT RELEASE_LOCK(?)',
+    ]);
+  });
+
+  it('should define the conversation schema for every dialect', () => {
+    for (const migration of ConversationMigrations) {
+      for (const dialect of ['postgres', 'sqlite', 'mysql'] as const) {
+        expect(migration.up[dialect]?.length).toBeGreaterThan(0);
+        expect(migration.down[dialect]?.length).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('should keep released conversation migrations unchanged', () => {
+    const released: Record<number, [string, string, string]> = {
+      1: [
+        'b4b22b47066787b9ab7bfe237c317f13d479123dbdb9518929b203ce6c4615a0',
+        '18a14be592fb7f57ae3f3a04b10f22d255b444ada018404450f6417ee79ca2d8',
+        'c7b0299da0919c92bcaf2e16bc93023d5a75b01aa16c03ecf617f4b49bd091c8',
+      ],
+      3: [
+        '20347501c99d188514b5fa35fa235131a4782a7aadc71c2310837110345e40d2',
+        '3048e09aa6ac98a6be72ebe08b2823edab97d360cd78fdcd42a1cdcb688a41db',
+        '111e6c3de9974f4356d99248efd82eafbb6986091d2f7d4cece5b5fc369dae47',
+      ],
+    };
+
+    for (const migration of ConversationMigrations) {
+      const checksums = released[migration.version];
+      if (!checksums) continue;
+      expect(
+        (['postgres', 'sqlite', 'mysql'] as const).map((dialect) =>
+          migrationChecksum(migration, dialect)
+        )
+      ).toEqual(checksums);
+    }
+  });
+});
+
+describe('ConversationDataAccess.initialize', () => {
+  it('should refuse to run against an out-of-date schema', async () => {
+    const { connection, executed } = createConnection();
+    const dataAccess = new ConversationDataAccess(connection);
+
+    const result = await dataAccess.initialize();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({
+      code: 'SCHEMA_OUT_OF_DATE',
+      message: expect.stringContaining('Schema is at version 0'),
+    });
+    expect(executed).toEqual([]);
+  });
+
+  it('should apply pending migrations when asked to', async () => {
+    const { connection, rows } = createConnection();
+    const dataAccess = new ConversationDataAccess(connection);
+
+    const result = await dataAccess.initialize({ migrate: true });
+
+    expect(result.success).toBe(true);
+    expect(rows.map((row) => row.name)).toEqual([
+      'initial_schema',
+      'keyset_pagination_indexes',
+      'tenant_isolation',
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Tests for tenant-scoped data access and row-level security policies
+ */
+
+import { ConversationAPI } from '../ConversationAPI';
+import { ConversationDataAccess } from '../ConversationDataAccess';
+import {
+  TenantScopedTables,
+  generateSupabaseTenantFunction,
+  generateTenantPolicies,
+} from '../ConversationSchema';
+import { createTenantContext, type TenantContext } from '../TenantContext';
+import {
+  ConnectionManager,
+  type DatabaseConnectionConfig,
+} from '../ConnectionManager';
+import { DEFAULT_CONNECTION_CONFIG } from '../index';
+
+const acme = createTenantContext('acme', 'user_1');
+const globex = createTenantContext('globex', 'user_1');
+
+function createConnection() {
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('COUNT(*)')) {
+      return { data: [{ total: 0 }] };
+    }
+    if (sql.includes('FROM conversations')) {
+      return {
+        data: [
+          {
+            id: params[0],
+            tenant_id: params[1],
+            user_id: params[2],
+            title: 'Refund request',
+            created_at: '2026-01-15T09:00:00Z',
+            updated_at: '2026-01-15T09:00:00Z',
+            status: 'active',
+          },
+        ],
+      };
+    }
+    return { data: [] };
+  });
+  const connection = {
+    getProvider: () => 'postgres',
+    query,
+  } as unknown as ConnectionManager;
+  return { connection, query };
+}
+
+describe('Tenant isolation', () => {
+  it('should scope every query to the tenant and pass it to the connection', async () => {
+    const { connection, query } = createConnection();
+    const dataAccess = new ConversationDataAccess(connection);
+
+    const conversation = await dataAccess.getConversation('conv_1', acme);
+    await dataAccess.getMessages('conv_1', acme, { page: 0, pageSize: 10 });
+    await dataAccess.listConversations(acme, {}, { page: 0, pageSize: 10 });
+
+    expect(conversation.data?.tenantId).toBe('acme');
+    expect(query.mock.calls.length).toBeGreaterThan(0);
+    for (const [sql, params, options] of query.mock.calls as any[]) {
+      expect(sql).toContain('tenant_id');
+      expect(params).toContain('acme');
+      expect(options).toEqual({ tenantId: 'acme' });
+    }
+  });
+
+  it('should reject calls without a tenant context', async () => {
+    const { connection, query } = createConnection();
+    const dataAccess = new ConversationDataAccess(connection);
+    const forged = { tenantId: 'acme', userId: 'user_1' } as TenantContext;
+
+    const bare = await dataAccess.getConversation(
+      'conv_1',
+      'user_1' as unknown as TenantContext
+    );
+    expect(bare.error?.message).toBe(
+      'A tenant context from createTenantContext is required for data access'
+    );
+    expect((await dataAccess.getConversation('conv_1', forged)).success).toBe(
+      false
+    );
+    const message = await dataAccess.createMessage(
+      'conv_1',
+      { role: 'user', content: 'Hello' },
+      forged
+    );
+    expect(message.error?.code).toBe('GET_CONVERSATION_FAILED');
+    expect(query).not.toHaveBeenCalled();
+    expect(() => createTenantContext('', 'user_1')).toThrow(
+      'Tenant ID is required'
+    );
+  });
+
+  it('should keep API cache entries separate per tenant', async () => {
+    const { connection, query } = createConnection();
+    const api = new ConversationAPI({}, new ConversationDataAccess(connection));
+
+    await api.getConversation('conv_1', acme);
+    await api.getConversation('conv_1', globex);
+    const cached = await api.getConversation('conv_1', acme);
+
+    expect(cached.data?.tenantId).toBe('acme');
+    expect(query).toHaveBeenCalledTimes(2);
+    expect((await api.getConversation('conv_1')).error?.code).toBe(
+      'TENANT_CONTEXT_REQUIRED'
+    );
+  });
+
+  it('should not share cached query results between tenants', async () => {
+    const connection = new ConnectionManager({
+      ...DEFAULT_CONNECTION_CONFIG,
+      provider: 'postgres',
+      monitoring: {
+        ...DEFAULT_CONNECTION_CONFIG.monitoring!,
+        enableMetrics: false,
+      },
+    } as DatabaseConnectionConfig);
+    let tenant = '';
+    const client = {
+      query: jest.fn(async (sql: string, params: any[] = []) => {
+        if (sql.startsWith('SELECT set_config')) tenant = params[1];
+        return { rows: [{ tenant_id: tenant }] };
+      }),
+      release: jest.fn(),
+    };
+    (connection as any).connectionPool = { connect: async () => client };
+
+    const sql = 'SELECT tenant_id FROM conversations';
+    const first = await connection.query(sql, [], { tenantId: 'acme' });
+    const other = await connection.query(sql, [], { tenantId: 'globex' });
+    const cached = await connection.query(sql, [], { tenantId: 'acme' });
+
+    expect(first.data).toEqual([{ tenant_id: 'acme' }]);
+    expect(other.data).toEqual([{ tenant_id: 'globex' }]);
+    expect(other.metadata.fromCache).toBe(false);
+    expect(cached.metadata.fromCache).toBe(true);
+    expect(cached.data).toEqual([{ tenant_id: 'acme' }]);
+  });
+
+  it('should scope Supabase queries to the tenant through the wrapper RPC', async () => {
+    const connection = new ConnectionManager({
+      ...DEFAULT_CONNECTION_CONFIG,
+      provider: 'supabase',
+      monitoring: {
+        ...DEFAULT_CONNECTION_CONFIG.monitoring!,
+        enableMetrics: false,
+      },
+    } as DatabaseConnectionConfig);
+    const rpc = jest.fn(async () => ({ data: [], error: null }));
+    (connection as any).connectionPool = { rpc };
+
+    const sql = 'SELECT id FROM conversations WHERE user_id = $1';
+    await connection.query(sql, ['user_1'], {
+      tenantId: 'acme',
+      useCache: false,
+    });
+    await connection.query('SELECT 1', [], { useCache: false });
+
+    expect(rpc).toHaveBeenNthCalledWith(1, 'execute_sql_as_tenant', {
+      tenant_id: 'acme',
+      query: sql,
+      parameters: ['user_1'],
+    });
+    expect(rpc).toHaveBeenNthCalledWith(2, 'execute_sql', {
+      query: 'SELECT 1',
+      parameters: [],
+    });
+    expect(generateSupabaseTenantFunction()).toContain(
+      "PERFORM set_config('app.tenant_id', tenant_id, true);"
+    );
+  });
+
+  it('should generate row-level security policies for tenant tables', () => {
+    expect(TenantScopedTables).toEqual(
+      expect.arrayContaining(['conversations', 'messages', 'agent_handoffs'])
+    );
+    expect(TenantScopedTables).not.toContain('conversation_agents');
+
+    const [enable, force, policy] = generateTenantPolicies(['conversations']);
+    expect(enable).toBe('ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;');
+    expect(force).toBe('ALTER TABLE conversations FORCE ROW LEVEL SECURITY;');
+    expect(policy).toContain(
+      "USING (tenant_id = current_setting('app.tenant_id', true))"
+    );
+  });
+});
@@ -24,6 +24,79 @@ export {
   type IndexInfo,
   type ConstraintInfo,
 } from './QueryOptimizer';
+export {
+  IndexAdvisor,
+  createIndexAdvisor,
+  DEFAULT_INDEX_ADVISOR_CONFIG,
+  type IndexAdvisorConfig,
+  type IndexRecommendation,
+  type IndexRecommendationStatus,
+  type IndexMigrationFile,
+  type IndexOutcome,
+  type PatternLatency,
+} from './IndexAdvisor';
+export {
+  MigrationRunner,
+  createMigrationRunner,
+  describeMigrationStatus,
+  migrationChecksum,
+  migrationDialect,
+  DEFAULT_MIGRATION_RUNNER_CONFIG,
+  type MigrationDialect,
+  type DialectStatements,
+  type SchemaMigration,
+  type AppliedMigration,
+  type MigrationChecksumMismatch,
+  type MigrationStatus,
+  type MigrationStep,
+  type MigrationPlan,
+  type MigrationOptions,
+  type MigrationRunnerConfig,
+} from './SchemaMigrations';
+export { ConversationMigrations } from './ConversationMigrations';
+export {
+  prepareSqlSchema,
+  searchTerms,
+  type ConversationRepository,
+  type ConversationSort,
+  type ConversationSortField,
+  type KeysetWindow,
+  type KeyedRow,
+  type RankedConversation,
+  type ScoredMessage,
+  type SchemaReadiness,
+} from './ConversationRepository';
+export { PostgresConversationRepository } from './PostgresConversationRepository';
+export { MySQLConversationRepository } from './MySQLConversationRepository';
+export {
+  MongoConversationRepository,
+  type MongoDatabase,
+  type MongoCollection,
+  type MongoCursor,
+} from './MongoConversationRepository';
+export { SQLiteConversationRepository } from './SQLiteConversationRepository';
+export {
+  MemoryConversationRepository,
+  createMemoryDatabase,
+  type MemoryDatabase,
+} from './MemoryConversationRepository';
+export {
+  seedConversationFixtures,
+  type ConversationFixtures,
+} from './ConversationFixtures';
+export {
+  createTenantContext,
+  assertTenantContext,
+  TENANT_SETTING,
+  SUPABASE_TENANT_RPC,
+  type TenantContext,
+} from './TenantContext';
+
+import {
+  ConnectionManager,
+  type DatabaseConnectionConfig,
+} from './ConnectionManager';
+import { QueryOptimizer, type QueryOptimizerConfig } from './QueryOptimizer';
 
 // Default configurations
 export const DEFAULT_CONNECTION_CONFIG: Partial<DatabaseConnectionConfig> = {
@@ -126,6 +199,60 @@ export function createPostgresConnection(config: {
   return new ConnectionManager(connectionConfig);
 }
 
+/**
+ * Create a database connection manager for MySQL
+ */
+export function createMySQLConnection(config: {
+  host?: string | undefined;
+  port?: number | undefined;
+  database?: string | undefined;
+  username?: string | undefined;
+  password?: string | undefined;
+  url?: string | undefined; // Connection URI, used instead of the details
+  ssl?: boolean | object;
+  poolSize?: number;
+}): ConnectionManager {
+  const connectionConfig: DatabaseConnectionConfig = {
+    provider: 'mysql',
+    host: config.host,
+    port: config.port || 3306,
+    database: config.database,
+    username: config.username,
+    password: config.password,
+    url: config.url,
+    ssl: config.ssl,
+    ...DEFAULT_CONNECTION_CONFIG,
+    pool: {
+      ...DEFAULT_CONNECTION_CONFIG.pool!,
+      max: config.poolSize || DEFAULT_CONNECTION_CONFIG.pool!.max,
+    },
+  } as DatabaseConnectionConfig;
+
+  return new ConnectionManager(connectionConfig);
+}
+
+/**
+ * Create a database connection manager for MongoDB
+ */
+export function createMongoDBConnection(config: {
+  url: string;
+  database: string;
+  poolSize?: number;
+}): ConnectionManager {
+  const connectionConfig: DatabaseConnectionConfig = {
+    provider: 'mongodb',
+    url: config.url,
+    database: config.database,
+    ...DEFAULT_CONNECTION_CONFIG,
+    pool: {
+      ...DEFAULT_CONNECTION_CONFIG.pool!,
+      max: config.poolSize || DEFAULT_CONNECTION_CONFIG.pool!.max,
+    },
+  } as DatabaseConnectionConfig;
+
+  return new ConnectionManager(connectionConfig);
+}
+
 /**
  * Create a database connection manager for SQLite
  */
@@ -137,6 +264,11 @@ export function createSQLiteConnection(config: {
     provider: 'sqlite',
     database: config.database,
     ...DEFAULT_CONNECTION_CONFIG,
+    // Reads are local, so caching them would only risk serving stale rows
+    optimization: {
+      ...DEFAULT_CONNECTION_CONFIG.optimization!,
+      enableQueryCache: false,
+    },
     monitoring: {
       ...DEFAULT_CONNECTION_CONFIG.monitoring!,
       enableQueryLogging: config.enableLogging || false,
@@ -146,6 +278,26 @@ export function createSQLiteConnection(config: {
   return new ConnectionManager(connectionConfig);
 }
 
+/**
+ * Create a connection manager for an in-memory database, which lives as
+ * long as the connection manager
+ */
+export function createMemoryConnection(
+  config: { enableMetrics?: boolean | undefined } = {}
+): ConnectionManager {
+  const connectionConfig: DatabaseConnectionConfig = {
+    provider: 'memory',
+    ...DEFAULT_CONNECTION_CONFIG,
+    healthCheck: { ...DEFAULT_CONNECTION_CONFIG.healthCheck!, enabled: false },
+    monitoring: {
+      ...DEFAULT_CONNECTION_CONFIG.monitoring!,
+      enableMetrics: config.enableMetrics !== false,
+    },
+  } as DatabaseConnectionConfig;
+
+  return new ConnectionManager(connectionConfig);
+}
+
 /**
  * Create a query optimizer with default configuration
  */
@@ -164,7 +316,7 @@ export function createQueryOptimizer(
  * Create an optimized database setup for AI chat applications
  */
 export function createChatDatabase(config: {
-  provider: 'supabase' | 'postgres' | 'sqlite';
+  provider: 'supabase' | 'postgres' | 'mysql' | 'mongodb' | 'sqlite' | 'memory';
   // Supabase config
   supabaseUrl?: string;
   supabaseApiKey?: string;
@@ -175,6 +327,16 @@ export function createChatDatabase(config: {
   postgresUsername?: string;
   postgresPassword?: string;
   postgresSsl?: boolean | object;
+  // MySQL config
+  mysqlUrl?: string;
+  mysqlHost?: string;
+  mysqlPort?: number;
+  mysqlDatabase?: string;
+  mysqlUsername?: string;
+  mysqlPassword?: string;
+  // MongoDB config
+  mongodbUrl?: string;
+  mongodbDatabase?: string;
   // SQLite config
   sqliteDatabase?: string;
   // Shared config
@@ -216,6 +378,33 @@ export function createChatDatabase(config: {
       });
       break;
 
+    case 'mysql':
+      if (
+        !config.mysqlUrl &&
+        !(config.mysqlHost && config.mysqlDatabase && config.mysqlUsername)
+      ) {
+        throw new Error('MySQL URL or connection details are required');
+      }
+      connectionManager = createMySQLConnection({
+        url: config.mysqlUrl,
+        host: config.mysqlHost,
+        port: config.mysqlPort,
+        database: config.mysqlDatabase,
+        username: config.mysqlUsername,
+        password: config.mysqlPassword,
+      });
+      break;
+
+    case 'mongodb':
+      if (!config.mongodbUrl || !config.mongodbDatabase) {
+        throw new Error('MongoDB URL and database are required');
+      }
+      connectionManager = createMongoDBConnection({
+        url: config.mongodbUrl,
+        database: config.mongodbDatabase,
+      });
+      break;
+
     case 'sqlite':
       connectionManager = createSQLiteConnection({
         database: config.sqliteDatabase || ':memory:',
@@ -223,6 +412,12 @@ export function createChatDatabase(config: {
       });
       break;
 
+    case 'memory':
+      connectionManager = createMemoryConnection({
+        enableMetrics: config.enableMetrics,
+      });
+      break;
+
     default:
       throw new Error(`Unsupported database provider: ${config.provider}`);
   }
@@ -286,6 +481,27 @@ export function createDatabaseFromEnv(): {
     });
   }
 
+  // Check for MySQL configuration
+  if (process.env.MYSQL_URL) {
+    return createChatDatabase({
+      provider: 'mysql',
+      mysqlUrl: process.env.MYSQL_URL,
+      enableOptimization: process.env.DATABASE_ENABLE_OPTIMIZATION !== 'false',
+      enableMetrics: process.env.DATABASE_ENABLE_METRICS !== 'false',
+    });
+  }
+
+  // Check for MongoDB configuration
+  if (process.env.MONGODB_URL && process.env.MONGODB_DATABASE) {
+    return createChatDatabase({
+      provider: 'mongodb',
+      mongodbUrl: process.env.MONGODB_URL,
+      mongodbDatabase: process.env.MONGODB_DATABASE,
+      enableOptimization: process.env.DATABASE_ENABLE_OPTIMIZATION !== 'false',
+      enableMetrics: process.env.DATABASE_ENABLE_METRICS !== 'false',
+    });
+  }
+
   // Default to SQLite
   return createChatDatabase({
     provider: 'sqlite',
@@ -445,6 +661,7 @@ let globalDatabaseManager: {
   connectionManager: ConnectionManager;
   queryOptimizer: QueryOptimizer;
 } | null = null;
+let globalDatabaseInitialized = false;
 
 /**
  * Get or create global database manager
@@ -468,8 +685,9 @@ export async function initializeGlobalDatabase(): Promise<{
 }> {
   const manager = getGlobalDatabaseManager();
 
-  if (!manager.connectionManager) {
+  if (!globalDatabaseInitialized) {
     await manager.connectionManager.initialize();
+    globalDatabaseInitialized = true;
   }
 
   return manager;
@@ -482,5 +700,6 @@ export async function shutdownGlobalDatabase(): Promise<void> {
   if (globalDatabaseManager) {
     await globalDatabaseManager.connectionManager.shutdown();
     globalDatabaseManager = null;
+    globalDatabaseInitialized = false;
   }
 }
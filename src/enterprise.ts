@@ -82,6 +82,7 @@ export {
   type ComplianceFramework,
   type ComplianceSeverity,
   type DataProtectionRights,
+  type HumanOversightRecord,
   type ComplianceReport,
   type ComplianceLoggingConfig,
   defaultComplianceConfig,
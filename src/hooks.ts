@@ -11,11 +11,21 @@ export * from './examples/EnhancedHookExamples';
 // AI SDK 5 Enhanced Hooks
 export * from './context/ConciergusAISDK5Hooks';
 export * from './context/ConciergusAgentHooks';
+export * from './context/AgentCheckpoints';
+export * from './context/AgentApprovals';
+export * from './context/AgentWorkflowGraph';
 export * from './context/ConciergusModelManagementHooks';
 export * from './context/ConciergusRAGKnowledgeHooks';
 export * from './context/ConciergusStreamingHooks';
+export * from './context/ResumableStreams';
 export * from './context/ConciergusVoiceHooks';
 
+// Knowledge Base Storage for the RAG hooks
+export * from './knowledge';
+
+// MCP server tools for the agent hooks
+export * from './mcp';
+
 // Re-export core context and config types for hook usage
 export type { ConciergusConfig } from './context/ConciergusContext';
 
@@ -3,14 +3,25 @@
  * Enhanced chat hook with conversation caching and AI response optimization
  */
 
-import { useCallback, useEffect, useState, useRef } from 'react';
-import { useChat, type UseChatOptions, type Message } from 'ai/react';
+import { useCallback, useEffect, useMemo, useState, useRef } from 'react';
+import {
+  useChat,
+  type UseChatOptions,
+  type Message,
+  type CreateMessage,
+  type ChatRequestOptions,
+} from 'ai/react';
 import {
   CacheManager,
   CacheKeys,
   CacheTTL,
+  SemanticResponseCache,
+  conversationContextKey,
   type CacheResult,
+  type SemanticCacheHit,
+  type SemanticCacheScope,
 } from '../../cache';
+import type { MessageEmbedder } from '../../search/SemanticIndex';
 
 /**
  * Cached chat configuration
@@ -24,6 +35,14 @@ export interface UseCachedChatConfig extends Omit<UseChatOptions, 'id'> {
   responseCacheTtl?: number;
   maxCachedMessages?: number;
 
+  // Semantic response caching: without an embedder only prompts that match
+  // after normalization are served from cache
+  embedder?: MessageEmbedder;
+  semanticCacheThreshold?: number; // Minimum prompt similarity, 0-1
+  // Model, system prompt, tools and user. Without a user or tenant,
+  // responses are only reused within this session.
+  responseCacheScope?: SemanticCacheScope;
+
   // Performance optimization
   enablePrefetch?: boolean;
   enableBatching?: boolean;
@@ -61,6 +80,8 @@ export interface UseCachedChatReturn extends ReturnType<typeof useChat> {
     hits: number;
     misses: number;
     hitRate: number;
+    exactHits: number;
+    semanticHits: number;
   };
 
   // Session management
@@ -82,6 +103,15 @@ export interface UseCachedChatReturn extends ReturnType<typeof useChat> {
   };
 }
 
+/**
+ * Request awaiting its response
+ */
+interface PendingResponse {
+  prompt: string | null;
+  scope: SemanticCacheScope;
+  overlapped: boolean; // Another request was in flight, so the response can't be matched
+}
+
 /**
  * Cache-enabled chat hook
  */
@@ -95,6 +125,9 @@ export function useCachedChat(
     messageCacheTtl = CacheTTL.EXTENDED,
     responseCacheTtl = CacheTTL.LONG,
     maxCachedMessages = 1000,
+    embedder,
+    semanticCacheThreshold,
+    responseCacheScope,
     enablePrefetch = false,
     enableBatching = false,
     debounceMs = 300,
@@ -113,6 +146,8 @@ export function useCachedChat(
     hits: 0,
     misses: 0,
     hitRate: 0,
+    exactHits: 0,
+    semanticHits: 0,
   });
   const [performance, setPerformance] = useState({
     averageResponseTime: 0,
@@ -124,6 +159,30 @@ export function useCachedChat(
   const responseTimesRef = useRef<number[]>([]);
   const cacheLatenciesRef = useRef<number[]>([]);
   const debounceTimerRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  // One entry per request whose response is streaming, oldest first
+  const pendingResponsesRef = useRef<PendingResponse[]>([]);
+
+  const responseScope = useMemo<SemanticCacheScope>(
+    () =>
+      responseCacheScope?.userId !== undefined ||
+      responseCacheScope?.tenantId !== undefined
+        ? { ...responseCacheScope }
+        : { ...responseCacheScope, userId: `session:${sessionId}` },
+    [responseCacheScope, sessionId]
+  );
+
+  const responseCache = useMemo(
+    () =>
+      cacheManager
+        ? new SemanticResponseCache(cacheManager, embedder ?? null, {
+            ttl: responseCacheTtl,
+            ...(semanticCacheThreshold !== undefined
+              ? { similarityThreshold: semanticCacheThreshold }
+              : {}),
+          })
+        : null,
+    [cacheManager, embedder, responseCacheTtl, semanticCacheThreshold]
+  );
 
   // Initialize cache manager if not provided
   useEffect(() => {
@@ -209,6 +268,8 @@ export function useCachedChat(
     },
 
     onError: async (error) => {
+      pendingResponsesRef.current.shift();
+
       // Invalidate cache on error if configured
       if (invalidateOnError && cacheManager) {
         await invalidateCache();
@@ -225,59 +286,42 @@ export function useCachedChat(
   const chat = useChat(enhancedChatOptions);
 
   /**
-   * Generate cache key for AI response
-   */
-  const generateResponseCacheKey = useCallback(
-    (messages: Message[]): string => {
-      // Create a hash of the conversation context
-      const context = messages
-        .slice(-5)
-        .map((m) => `${m.role}:${m.content}`)
-        .join('|');
-      const hash = btoa(context).slice(0, 16);
-      return CacheKeys.aiResponse(hash);
-    },
-    []
-  );
-
-  /**
-   * Cache AI response
+   * Cache AI response for the prompt that produced it
    */
   const cacheAIResponse = useCallback(
     async (message: Message): Promise<void> => {
-      if (!cacheManager || !enableResponseCaching) return;
+      const request = pendingResponsesRef.current.shift();
+      if (
+        !responseCache ||
+        !enableResponseCaching ||
+        !request?.prompt ||
+        request.overlapped
+      ) {
+        return;
+      }
 
       try {
-        const cacheKey = generateResponseCacheKey([...chat.messages, message]);
-        await cacheManager.set(cacheKey, message, responseCacheTtl, {
-          sessionId,
-          timestamp: Date.now(),
-          messageId: message.id,
-        });
+        await responseCache.store(request.prompt, message, request.scope);
       } catch (error) {
         console.warn('Failed to cache AI response:', error);
       }
     },
-    [
-      cacheManager,
-      enableResponseCaching,
-      chat.messages,
-      sessionId,
-      responseCacheTtl,
-    ]
+    [responseCache, enableResponseCaching]
   );
 
   /**
-   * Try to get cached AI response
+   * Try to get a cached AI response for an exact or similar prompt
    */
   const getCachedResponse = useCallback(
-    async (messages: Message[]): Promise<Message | null> => {
-      if (!cacheManager || !enableResponseCaching) return null;
+    async (
+      prompt: string,
+      scope: SemanticCacheScope
+    ): Promise<SemanticCacheHit<Message> | null> => {
+      if (!responseCache || !enableResponseCaching) return null;
 
       try {
         const startTime = Date.now();
-        const cacheKey = generateResponseCacheKey(messages);
-        const result = await cacheManager.get<Message>(cacheKey);
+        const hit = await responseCache.lookup<Message>(prompt, scope);
 
         // Record cache latency
         cacheLatenciesRef.current.push(Date.now() - startTime);
@@ -285,30 +329,102 @@ export function useCachedChat(
           cacheLatenciesRef.current = cacheLatenciesRef.current.slice(-50);
         }
 
-        if (result.success && result.value) {
-          // Update cache stats
-          setCacheStats((prev) => ({
-            hits: prev.hits + 1,
-            misses: prev.misses,
-            hitRate: (prev.hits + 1) / (prev.hits + prev.misses + 1),
-          }));
-
-          return result.value;
-        } else {
-          // Update cache stats
-          setCacheStats((prev) => ({
-            hits: prev.hits,
-            misses: prev.misses + 1,
-            hitRate: prev.hits / (prev.hits + prev.misses + 1),
-          }));
-        }
+        // Update cache stats
+        setCacheStats((prev) => {
+          const hits = prev.hits + (hit ? 1 : 0);
+          const misses = prev.misses + (hit ? 0 : 1);
+          return {
+            hits,
+            misses,
+            hitRate: hits / (hits + misses),
+            exactHits: prev.exactHits + (hit?.hitType === 'exact' ? 1 : 0),
+            semanticHits:
+              prev.semanticHits + (hit?.hitType === 'semantic' ? 1 : 0),
+          };
+        });
+
+        return hit;
       } catch (error) {
         console.warn('Failed to get cached response:', error);
       }
 
       return null;
     },
-    [cacheManager, enableResponseCaching]
+    [responseCache, enableResponseCaching]
+  );
+
+  /**
+   * Send a message, answering user prompts from the response cache when an
+   * exact or similar prompt was answered before
+   */
+  const append = useCallback(
+    async (
+      message: Message | CreateMessage,
+      options?: ChatRequestOptions
+    ): Promise<string | null | undefined> => {
+      const prompt =
+        message.role === 'user' && typeof message.content === 'string'
+          ? message.content
+          : null;
+      const scope: SemanticCacheScope = {
+        ...responseScope,
+        conversation: conversationContextKey(chat.messages),
+      };
+
+      if (prompt) {
+        const hit = await getCachedResponse(prompt, scope);
+        if (hit) {
+          const createdAt = new Date();
+          chat.setMessages([
+            ...chat.messages,
+            {
+              ...message,
+              id:
+                message.id ??
+                `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+              createdAt,
+            } as Message,
+            {
+              ...hit.value,
+              id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+              createdAt,
+            },
+          ]);
+          return null;
+        }
+      }
+
+      const pending = pendingResponsesRef.current;
+      const overlapped = pending.length > 0;
+      pending.forEach((request) => {
+        request.overlapped = true;
+      });
+      pending.push({ prompt, scope, overlapped });
+      return chat.append(message, options);
+    },
+    [chat, getCachedResponse, responseScope]
+  );
+
+  /**
+   * Submit the current input through the response cache. Submissions with
+   * attachments always go to the model.
+   */
+  const handleSubmit = useCallback(
+    (
+      event?: { preventDefault?: () => void },
+      options: ChatRequestOptions = {}
+    ): void => {
+      if (options.experimental_attachments || !chat.input.trim()) {
+        chat.handleSubmit(event, options);
+        return;
+      }
+
+      event?.preventDefault?.();
+      const content = chat.input;
+      chat.setInput('');
+      void append({ role: 'user', content }, options);
+    },
+    [chat, append]
   );
 
   /**
@@ -534,6 +650,8 @@ export function useCachedChat(
 
   return {
     ...chat,
+    append,
+    handleSubmit,
     cacheStats,
     session,
     loadSession,
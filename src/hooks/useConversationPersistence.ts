@@ -30,6 +30,7 @@ import type {
 import type { EnhancedMessage } from '../context/ConciergusAISDK5Hooks';
 
 export interface ConversationPersistenceConfig {
+  tenantId: string;
   userId: string;
   autoSave?: boolean;
   autoSaveInterval?: number;
@@ -51,6 +52,10 @@ export interface ConversationPersistenceState {
   isLoadingConversations: boolean;
   isLoadingMessages: boolean;
 
+  // Infinite scroll: whether the last loaded page has a next page
+  hasMoreConversations: boolean;
+  hasMoreMessages: boolean;
+
   // Error states
   error: string | null;
   saveError: string | null;
@@ -84,12 +89,20 @@ export interface ConversationPersistenceActions {
     conversationId: string,
     pagination?: ConversationPagination
   ) => Promise<ConversationQueryResult<ConversationMessage>>;
+  /** Load the page after the last one loaded for the conversation */
+  loadMoreMessages: (
+    conversationId: string
+  ) => Promise<ConversationQueryResult<ConversationMessage>>;
 
   // Conversation listing and search
   listConversations: (
     filter?: ConversationFilter,
     pagination?: ConversationPagination
   ) => Promise<ConversationQueryResult<ConversationListItem>>;
+  /** Load the page after the last listed one, with the same filter and sort */
+  loadMoreConversations: () => Promise<
+    ConversationQueryResult<ConversationListItem>
+  >;
   searchConversations: (request: SearchConversationsRequest) => Promise<any>;
 
   // Statistics and analytics
@@ -107,6 +120,37 @@ export interface ConversationPersistenceActions {
   retry: () => Promise<void>;
 }
 
+/**
+ * Result returned when asked for more items after the last page
+ */
+function endOfResults<T>(
+  pagination: ConversationPagination
+): ConversationQueryResult<T> {
+  return {
+    data: [],
+    pagination: { ...pagination, hasMore: false },
+    metadata: {
+      totalResults: pagination.total ?? 0,
+      queryTime: 0,
+      fromCache: false,
+    },
+  };
+}
+
+/**
+ * Request for the page following `pagination`
+ */
+function nextPage(pagination: ConversationPagination): ConversationPagination {
+  return {
+    page: pagination.page + 1,
+    pageSize: pagination.pageSize,
+    ...(pagination.nextCursor !== undefined
+      ? { cursor: pagination.nextCursor }
+      : {}),
+    ...(pagination.sort ? { sort: pagination.sort } : {}),
+  };
+}
+
 /**
  * Main conversation persistence hook
  */
@@ -135,6 +179,8 @@ export function useConversationPersistence(
     isSaving: false,
     isLoadingConversations: false,
     isLoadingMessages: false,
+    hasMoreConversations: false,
+    hasMoreMessages: false,
     error: null,
     saveError: null,
     stats: null,
@@ -147,9 +193,17 @@ export function useConversationPersistence(
   const pendingMessages = useRef<EnhancedMessage[]>([]);
   const lastSaveRef = useRef<Date>(new Date());
 
+  // Last page loaded per conversation, and the last conversation listing
+  const messagePages = useRef(new Map<string, ConversationPagination>());
+  const conversationListing = useRef<{
+    filter?: ConversationFilter;
+    pagination: ConversationPagination;
+  } | null>(null);
+
   // Initialize API
   useEffect(() => {
     const apiConfig: ConversationAPIConfig = {
+      tenantId: config.tenantId,
       userId: config.userId,
       enableRealTimeUpdates: config.enableRealTimeSync,
       enableCaching: true,
@@ -210,7 +264,12 @@ export function useConversationPersistence(
         clearInterval(autoSaveTimer.current);
       }
     };
-  }, [config.userId, config.enableRealTimeSync, config.apiConfig]);
+  }, [
+    config.tenantId,
+    config.userId,
+    config.enableRealTimeSync,
+    config.apiConfig,
+  ]);
 
   // Online/offline detection
   useEffect(() => {
@@ -503,10 +562,12 @@ export function useConversationPersistence(
           conversationId,
           pagination
         );
+        messagePages.current.set(conversationId, result.pagination);
 
         setState((prev) => ({
           ...prev,
           isLoadingMessages: false,
+          hasMoreMessages: result.pagination.hasMore ?? false,
         }));
 
         return result;
@@ -520,6 +581,18 @@ export function useConversationPersistence(
       }
     }, []),
 
+    loadMoreMessages: useCallback(async (conversationId) => {
+      const last = messagePages.current.get(conversationId);
+      if (!last) {
+        return actions.loadMessages(conversationId);
+      }
+      if (!last.nextCursor) {
+        return endOfResults<ConversationMessage>(last);
+      }
+
+      return actions.loadMessages(conversationId, nextPage(last));
+    }, []),
+
     listConversations: useCallback(async (filter, pagination) => {
       if (!apiRef.current) {
         throw new Error('API not initialized');
@@ -536,10 +609,15 @@ export function useConversationPersistence(
           filter,
           pagination
         );
+        conversationListing.current = {
+          ...(filter ? { filter } : {}),
+          pagination: result.pagination,
+        };
 
         setState((prev) => ({
           ...prev,
           isLoadingConversations: false,
+          hasMoreConversations: result.pagination.hasMore ?? false,
         }));
 
         return result;
@@ -553,6 +631,21 @@ export function useConversationPersistence(
       }
     }, []),
 
+    loadMoreConversations: useCallback(async () => {
+      const listing = conversationListing.current;
+      if (!listing) {
+        return actions.listConversations();
+      }
+      if (!listing.pagination.nextCursor) {
+        return endOfResults<ConversationListItem>(listing.pagination);
+      }
+
+      return actions.listConversations(
+        listing.filter,
+        nextPage(listing.pagination)
+      );
+    }, []),
+
     searchConversations: useCallback(async (request) => {
       if (!apiRef.current) {
         throw new Error('API not initialized');
@@ -656,8 +749,12 @@ export function useConversationPersistence(
 /**
  * Simplified conversation persistence hook for basic use cases
  */
-export function useSimpleConversationPersistence(userId: string) {
+export function useSimpleConversationPersistence(
+  tenantId: string,
+  userId: string
+) {
   const [state, actions] = useConversationPersistence({
+    tenantId,
     userId,
     autoSave: true,
     persistenceStrategy: 'immediate',
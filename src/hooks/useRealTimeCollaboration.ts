@@ -92,6 +92,7 @@ export interface UseRealTimeCollaborationConfig
   autoConnect?: boolean;
   enableAutoReconnect?: boolean;
   enablePersistenceSync?: boolean;
+  persistenceTenantId?: string;
   persistenceUserId?: string;
 
   // Custom event handlers
@@ -126,8 +127,13 @@ export function useRealTimeCollaboration(
 
   // Conversation persistence integration
   const persistenceState =
-    config.enablePersistenceSync && config.persistenceUserId
-      ? useConversationPersistence({ userId: config.persistenceUserId })
+    config.enablePersistenceSync &&
+    config.persistenceTenantId &&
+    config.persistenceUserId
+      ? useConversationPersistence({
+          tenantId: config.persistenceTenantId,
+          userId: config.persistenceUserId,
+        })
       : ([null, null] as const);
 
   const [persistenceHookState, persistenceActions] = persistenceState;
@@ -12,7 +12,18 @@ import {
   ConversationSearchEngine,
   createSearchEngine,
 } from '../search/ConversationSearchEngine';
+import {
+  compileSearchQuery,
+  parseSearchQuery,
+  type ParsedSearchQuery,
+} from '../search/QueryParser';
+import type { MessageEmbedder } from '../search/SemanticIndex';
 import { ConversationDataAccess } from '../database/ConversationDataAccess';
+import {
+  createTenantContext,
+  type TenantContext,
+} from '../database/TenantContext';
+import type { CacheManager } from '../cache/CacheManager';
 import type {
   SearchQuery,
   SearchResults,
@@ -26,6 +37,9 @@ import type {
 export interface UseSearchEngineConfig {
   // Search engine configuration
   searchConfig?: Partial<SearchConfig>;
+  embedder?: MessageEmbedder; // Enables semantic search, see createGatewayEmbedder
+  tenant?: TenantContext; // Scope of every search; its history is indexed on mount
+  cache?: CacheManager; // Persists the tenant user's index between mounts
 
   // Performance options
   debounceMs?: number;
@@ -50,6 +64,7 @@ export interface UseSearchEngineConfig {
 export interface SearchState {
   // Query state
   query: string;
+  parsedQuery: ParsedSearchQuery; // AST and parse errors for the current query
   filters: Partial<SearchQuery>;
 
   // Results state
@@ -166,10 +181,44 @@ export function useSearchEngine(
     if (!searchEngineRef.current) {
       searchEngineRef.current = createSearchEngine(
         dataAccessRef.current,
-        mergedConfig.searchConfig
+        mergedConfig.searchConfig,
+        mergedConfig.cache,
+        mergedConfig.embedder
       );
     }
-  }, [mergedConfig.searchConfig]);
+  }, [mergedConfig.searchConfig, mergedConfig.cache, mergedConfig.embedder]);
+
+  // Stop the engine listening for messages on unmount
+  useEffect(
+    () => () => {
+      searchEngineRef.current?.destroy();
+      searchEngineRef.current = null;
+    },
+    []
+  );
+
+  // Index the tenant's history; searches use the database until it is done.
+  // Keyed by ID, since callers usually pass a new context on every render.
+  const tenantId = mergedConfig.tenant?.tenantId;
+  const userId = mergedConfig.tenant?.userId;
+  useEffect(() => {
+    const engine = searchEngineRef.current;
+    if (tenantId === undefined || userId === undefined || !engine) {
+      return;
+    }
+
+    const tenant = createTenantContext(tenantId, userId);
+    engine
+      .buildIndex(tenant)
+      .catch((error) => console.error('Search index build error:', error));
+
+    // Save messages indexed while mounted for the next build
+    return () => {
+      engine
+        .saveIndex(tenant)
+        .catch((error) => console.error('Search index save error:', error));
+    };
+  }, [tenantId, userId]);
 
   // Auto-search with debouncing
   useEffect(() => {
@@ -205,14 +254,25 @@ export function useSearchEngine(
       setLoading('search', true);
 
       try {
+        const tenant = mergedConfig.tenant ?? searchFilters.tenant;
+        if (!tenant) {
+          throw new Error('A tenant context is required to search');
+        }
+
         mergedConfig.onSearchStart?.({
           query: searchQuery,
           ...searchFilters,
+          tenant,
         });
 
+        // Operators in the query text take precedence over UI filters
+        const compiled = compileSearchQuery(
+          parseSearchQuery(searchQuery.trim()).ast
+        );
         const fullQuery: SearchQuery = {
-          query: searchQuery.trim(),
           ...searchFilters,
+          ...compiled,
+          tenant,
           limit: searchFilters.limit || 20,
           offset: searchFilters.offset || 0,
           sortBy: searchFilters.sortBy || 'relevance',
@@ -251,6 +311,7 @@ export function useSearchEngine(
       mergedConfig.onSearchComplete,
       mergedConfig.onSearchError,
       mergedConfig.enableHistory,
+      mergedConfig.tenant,
       setSearchQuery,
       setSearchResults,
       addToSearchHistory,
@@ -296,7 +357,11 @@ export function useSearchEngine(
   // Get suggestions
   const getSuggestions = useCallback(
     async (partialQuery: string): Promise<string[]> => {
-      if (!mergedConfig.enableSuggestions || !searchEngineRef.current) {
+      if (
+        !mergedConfig.enableSuggestions ||
+        !searchEngineRef.current ||
+        !mergedConfig.tenant
+      ) {
         return [];
       }
 
@@ -304,6 +369,7 @@ export function useSearchEngine(
       try {
         const results = await searchEngineRef.current.getSuggestions(
           partialQuery,
+          mergedConfig.tenant,
           5
         );
         setSuggestions(results);
@@ -315,7 +381,7 @@ export function useSearchEngine(
         setLoadingSuggestions(false);
       }
     },
-    [mergedConfig.enableSuggestions]
+    [mergedConfig.enableSuggestions, mergedConfig.tenant]
   );
 
   // Navigation actions
@@ -387,9 +453,12 @@ export function useSearchEngine(
     }));
   }, [agents]);
 
+  const parsedQuery = useMemo(() => parseSearchQuery(query), [query]);
+
   // Build state object
   const state: SearchState = {
     query,
+    parsedQuery,
     filters,
     results: searchResults || null,
     isSearching,
@@ -0,0 +1,372 @@
+/**
+ * BM25 Index
+ * In-memory inverted index with Okapi BM25 scoring for lexical retrieval
+ */
+
+import {
+  DEFAULT_VECTOR_NAMESPACE,
+  matchesMetadataFilter,
+  type MetadataFilter,
+  type VectorMetadata,
+} from './VectorStore';
+
+/**
+ * BM25 index configuration
+ */
+export interface BM25IndexConfig {
+  k1: number; // Term frequency saturation
+  b: number; // Document length normalisation
+  stopWords: string[];
+  stem?: (term: string) => string;
+}
+
+/**
+ * Record added to the index
+ */
+export interface LexicalRecord {
+  id: string;
+  content: string;
+  metadata: VectorMetadata;
+}
+
+/**
+ * Lexical query
+ */
+export interface LexicalQuery {
+  query: string;
+  topK: number;
+  namespace?: string;
+  filter?: MetadataFilter;
+}
+
+/**
+ * Scored lexical match, shaped like a vector match so callers can merge them
+ */
+export interface LexicalMatch {
+  id: string;
+  namespace: string;
+  score: number;
+  content: string;
+  metadata: VectorMetadata;
+  matchedTerms: string[];
+}
+
+/**
+ * Serialized index snapshot
+ */
+export interface BM25Snapshot {
+  version: 1;
+  config: Omit<BM25IndexConfig, 'stem'>;
+  namespaces: Record<string, LexicalRecord[]>;
+}
+
+/**
+ * Indexed document
+ */
+interface IndexedDocument {
+  record: LexicalRecord;
+  namespace: string;
+  length: number;
+  terms: Map<string, number>;
+}
+
+export const DEFAULT_BM25_STOP_WORDS = [
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'with',
+];
+
+export const DEFAULT_BM25_CONFIG: BM25IndexConfig = {
+  k1: 1.2,
+  b: 0.75,
+  stopWords: DEFAULT_BM25_STOP_WORDS,
+};
+
+/**
+ * Split text into lowercase word terms, dropping stop words
+ */
+export function tokenizeTerms(
+  text: string,
+  stopWords: Iterable<string> = DEFAULT_BM25_STOP_WORDS,
+  stem?: (term: string) => string
+): string[] {
+  const stops = stopWords instanceof Set ? stopWords : new Set(stopWords);
+  const terms: string[] = [];
+
+  for (const match of text.toLowerCase().matchAll(/[\p{L}\p{N}_]+/gu)) {
+    if (stops.has(match[0])) continue;
+    terms.push(stem ? stem(match[0]) : match[0]);
+  }
+
+  return terms;
+}
+
+export class BM25Index {
+  private config: BM25IndexConfig;
+  private stopWords: Set<string>;
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, number>>();
+  private namespaceStats = new Map<
+    string,
+    { count: number; totalLength: number }
+  >();
+
+  constructor(config: Partial<BM25IndexConfig> = {}) {
+    this.config = { ...DEFAULT_BM25_CONFIG, ...config };
+    this.stopWords = new Set(this.config.stopWords);
+  }
+
+  /**
+   * Restore an index from a snapshot
+   */
+  static fromSnapshot(
+    snapshot: BM25Snapshot,
+    stem?: (term: string) => string
+  ): BM25Index {
+    const index = new BM25Index({
+      ...snapshot.config,
+      ...(stem ? { stem } : {}),
+    });
+    for (const [namespace, records] of Object.entries(snapshot.namespaces)) {
+      index.add(records, namespace);
+    }
+    return index;
+  }
+
+  /**
+   * Serialize records so the index can be rebuilt later
+   */
+  serialize(): BM25Snapshot {
+    const namespaces: Record<string, LexicalRecord[]> = {};
+    for (const document of this.documents.values()) {
+      (namespaces[document.namespace] ??= []).push(document.record);
+    }
+
+    const { k1, b, stopWords } = this.config;
+    return { version: 1, config: { k1, b, stopWords }, namespaces };
+  }
+
+  /**
+   * Add or replace records
+   */
+  add(
+    records: LexicalRecord[],
+    namespace: string = DEFAULT_VECTOR_NAMESPACE
+  ): void {
+    for (const record of records) {
+      const key = this.key(namespace, record.id);
+      this.removeKey(key);
+
+      const terms = new Map<string, number>();
+      const tokens = this.tokenize(record.content);
+      for (const term of tokens) {
+        terms.set(term, (terms.get(term) ?? 0) + 1);
+      }
+
+      for (const [term, frequency] of terms) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        posting.set(key, frequency);
+      }
+
+      this.documents.set(key, {
+        record,
+        namespace,
+        length: tokens.length,
+        terms,
+      });
+
+      const stats = this.namespaceStats.get(namespace) ?? {
+        count: 0,
+        totalLength: 0,
+      };
+      stats.count++;
+      stats.totalLength += tokens.length;
+      this.namespaceStats.set(namespace, stats);
+    }
+  }
+
+  /**
+   * Remove records by id
+   */
+  delete(ids: string[], namespace: string = DEFAULT_VECTOR_NAMESPACE): number {
+    let removed = 0;
+    for (const id of ids) {
+      if (this.removeKey(this.key(namespace, id))) removed++;
+    }
+    return removed;
+  }
+
+  /**
+   * Remove records whose metadata matches the filter
+   */
+  deleteByFilter(filter: MetadataFilter, namespace?: string): number {
+    let removed = 0;
+    for (const [key, document] of [...this.documents]) {
+      if (namespace !== undefined && document.namespace !== namespace) continue;
+      if (!matchesMetadataFilter(document.record.metadata, filter)) continue;
+      if (this.removeKey(key)) removed++;
+    }
+    return removed;
+  }
+
+  /**
+   * Remove every record in a namespace
+   */
+  deleteNamespace(namespace: string): void {
+    for (const [key, document] of [...this.documents]) {
+      if (document.namespace === namespace) this.removeKey(key);
+    }
+  }
+
+  /**
+   * Rank records against a free-text query
+   */
+  search(query: LexicalQuery): LexicalMatch[] {
+    const queryTerms = [...new Set(this.tokenize(query.query))];
+    if (queryTerms.length === 0 || query.topK <= 0) return [];
+
+    const stats = this.getStats(query.namespace);
+    if (stats.count === 0) return [];
+    const averageLength = stats.totalLength / stats.count || 1;
+
+    const scores = new Map<string, { score: number; terms: string[] }>();
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const entries = [...posting].filter(
+        ([key]) =>
+          query.namespace === undefined ||
+          this.documents.get(key)?.namespace === query.namespace
+      );
+      if (entries.length === 0) continue;
+
+      const idf = Math.log(
+        1 + (stats.count - entries.length + 0.5) / (entries.length + 0.5)
+      );
+
+      for (const [key, frequency] of entries) {
+        const document = this.documents.get(key)!;
+        const normalisedLength =
+          1 - this.config.b + this.config.b * (document.length / averageLength);
+        const termScore =
+          (idf * frequency * (this.config.k1 + 1)) /
+          (frequency + this.config.k1 * normalisedLength);
+
+        const current = scores.get(key) ?? { score: 0, terms: [] };
+        current.score += termScore;
+        current.terms.push(term);
+        scores.set(key, current);
+      }
+    }
+
+    const matches: LexicalMatch[] = [];
+    for (const [key, { score, terms }] of scores) {
+      const document = this.documents.get(key)!;
+      if (
+        query.filter &&
+        !matchesMetadataFilter(document.record.metadata, query.filter)
+      ) {
+        continue;
+      }
+
+      matches.push({
+        id: document.record.id,
+        namespace: document.namespace,
+        score,
+        content: document.record.content,
+        metadata: document.record.metadata,
+        matchedTerms: terms,
+      });
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, query.topK);
+  }
+
+  /**
+   * List namespaces with at least one record
+   */
+  listNamespaces(): string[] {
+    return [...this.namespaceStats.keys()].sort();
+  }
+
+  /**
+   * Count records, optionally within a namespace
+   */
+  count(namespace?: string): number {
+    return this.getStats(namespace).count;
+  }
+
+  /**
+   * Tokenize text with this index's analyzer
+   */
+  tokenize(text: string): string[] {
+    return tokenizeTerms(text, this.stopWords, this.config.stem);
+  }
+
+  private key(namespace: string, id: string): string {
+    return `${namespace}\u0000${id}`;
+  }
+
+  private getStats(namespace?: string): { count: number; totalLength: number } {
+    if (namespace !== undefined) {
+      return this.namespaceStats.get(namespace) ?? { count: 0, totalLength: 0 };
+    }
+
+    let count = 0;
+    let totalLength = 0;
+    for (const stats of this.namespaceStats.values()) {
+      count += stats.count;
+      totalLength += stats.totalLength;
+    }
+    return { count, totalLength };
+  }
+
+  private removeKey(key: string): boolean {
+    const document = this.documents.get(key);
+    if (!document) return false;
+
+    for (const term of document.terms.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(key);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+
+    this.documents.delete(key);
+
+    const stats = this.namespaceStats.get(document.namespace);
+    if (stats) {
+      stats.count--;
+      stats.totalLength -= document.length;
+      if (stats.count === 0) this.namespaceStats.delete(document.namespace);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,1109 @@
+/**
+ * Document Chunkers
+ * Structure-aware strategies for splitting knowledge documents into chunks
+ */
+
+/**
+ * Built-in chunking strategies
+ */
+export type ChunkingStrategy =
+  | 'auto'
+  | 'character'
+  | 'sentence'
+  | 'markdown'
+  | 'html'
+  | 'json'
+  | 'token';
+
+/**
+ * Structural metadata recorded on each chunk
+ */
+export interface ChunkStructureMetadata {
+  chunker: string;
+  sectionPath?: string[];
+  headingLevel?: number;
+  jsonPath?: string;
+  tokenCount?: number;
+}
+
+/**
+ * Chunk produced by a chunker
+ *
+ * `startOffset` and `endOffset` are UTF-8 byte offsets into the source
+ * document. `content` is the source text for that span, except for chunkers
+ * that normalise markup (HTML), where it holds the extracted text.
+ */
+export interface TextChunk {
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  metadata: ChunkStructureMetadata;
+}
+
+/**
+ * Token span used by the token chunker
+ */
+export interface TokenSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Options shared by all chunkers
+ */
+export interface ChunkingOptions {
+  chunkSize: number; // characters
+  overlap: number; // characters
+  maxTokens: number;
+  tokenOverlap: number;
+  tokenize?: (text: string) => TokenSpan[];
+}
+
+/**
+ * Chunker contract
+ */
+export interface DocumentChunker {
+  readonly name: string;
+  chunk(content: string, options: ChunkingOptions): TextChunk[];
+}
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  chunkSize: 1000,
+  overlap: 200,
+  maxTokens: 256,
+  tokenOverlap: 32,
+};
+
+/**
+ * Strategy used for each document format when the strategy is `auto`
+ */
+export const DEFAULT_FORMAT_STRATEGIES: Record<string, ChunkingStrategy> = {
+  text: 'sentence',
+  markdown: 'markdown',
+  html: 'html',
+  json: 'json',
+  pdf: 'sentence',
+};
+
+/**
+ * Character span with optional replacement text
+ */
+interface Segment {
+  start: number;
+  end: number;
+  text?: string | undefined;
+  sectionPath?: string[];
+  headingLevel?: number | undefined;
+  jsonPath?: string;
+  paragraphStart?: boolean | undefined;
+  atomic?: boolean; // Never merged across a break, e.g. fenced code
+}
+
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+/**
+ * Map character indexes to UTF-8 byte offsets. Lookups are fastest when
+ * called with non-decreasing indexes.
+ */
+export function createByteOffsetMapper(
+  source: string
+): (charIndex: number) => number {
+  let lastChar = 0;
+  let lastByte = 0;
+
+  return (charIndex: number): number => {
+    if (charIndex < lastChar) {
+      lastChar = 0;
+      lastByte = 0;
+    }
+
+    for (let i = lastChar; i < charIndex && i < source.length; i++) {
+      const code = source.charCodeAt(i);
+      if (code < 0x80) lastByte += 1;
+      else if (code < 0x800) lastByte += 2;
+      else if (code >= 0xd800 && code <= 0xdbff) lastByte += 4;
+      else if (code >= 0xdc00 && code <= 0xdfff) lastByte += 0;
+      else lastByte += 3;
+    }
+
+    lastChar = Math.min(charIndex, source.length);
+    return lastByte;
+  };
+}
+
+/**
+ * Shrink a span so it does not start or end on whitespace
+ */
+function trimSpan(source: string, start: number, end: number): Segment {
+  while (start < end && /\s/.test(source[start]!)) start++;
+  while (end > start && /\s/.test(source[end - 1]!)) end--;
+  return { start, end };
+}
+
+/**
+ * Split a span into sentence segments, flagging paragraph starts
+ */
+function splitSentences(source: string, start: number, end: number): Segment[] {
+  const segments: Segment[] = [];
+  const text = source.slice(start, end);
+  const paragraphPattern = /\n[ \t]*\n/g;
+  let paragraphStart = 0;
+  const paragraphs: Array<[number, number]> = [];
+
+  let paragraphMatch: RegExpExecArray | null;
+  while ((paragraphMatch = paragraphPattern.exec(text))) {
+    paragraphs.push([paragraphStart, paragraphMatch.index]);
+    paragraphStart = paragraphMatch.index + paragraphMatch[0].length;
+  }
+  paragraphs.push([paragraphStart, text.length]);
+
+  for (const [pStart, pEnd] of paragraphs) {
+    const sentencePattern = /[^.!?\n]+(?:[.!?]+["')\]]*|\n|$)/g;
+    const paragraph = text.slice(pStart, pEnd);
+    let first = true;
+    let sentenceMatch: RegExpExecArray | null;
+
+    while ((sentenceMatch = sentencePattern.exec(paragraph))) {
+      if (sentenceMatch[0].length === 0) {
+        sentencePattern.lastIndex++;
+        continue;
+      }
+      const span = trimSpan(
+        source,
+        start + pStart + sentenceMatch.index,
+        start + pStart + sentenceMatch.index + sentenceMatch[0].length
+      );
+      if (span.end > span.start) {
+        segments.push({ ...span, paragraphStart: first });
+        first = false;
+      }
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Hard-split an oversized span at whitespace near the size limit
+ */
+function splitBySize(
+  source: string,
+  segment: Segment,
+  chunkSize: number,
+  overlap: number
+): Segment[] {
+  const pieces: Segment[] = [];
+  let start = segment.start;
+
+  while (start < segment.end) {
+    let end = Math.min(start + chunkSize, segment.end);
+
+    if (end < segment.end) {
+      const lastSpace = source.lastIndexOf(' ', end);
+      if (lastSpace > start + chunkSize / 2) end = lastSpace;
+    }
+
+    const span = trimSpan(source, start, end);
+    if (span.end > span.start) {
+      pieces.push({ ...segment, ...span, text: undefined });
+    }
+
+    if (end >= segment.end) break;
+    const next = end - Math.min(overlap, end - start - 1);
+    start = next > start ? next : end;
+  }
+
+  return pieces;
+}
+
+/**
+ * Greedily pack segments into chunks of at most `chunkSize` characters,
+ * carrying whole trailing segments forward as overlap
+ */
+function packSegments(
+  source: string,
+  segments: Segment[],
+  options: ChunkingOptions,
+  shouldBreak: (previous: Segment, next: Segment, length: number) => boolean = (
+    _previous,
+    next,
+    length
+  ) => Boolean(next.paragraphStart) && length >= options.chunkSize / 2
+): Segment[][] {
+  const groups: Segment[][] = [];
+  let current: Segment[] = [];
+
+  const lengthOf = (group: Segment[]) =>
+    group.length === 0
+      ? 0
+      : group.some((segment) => segment.text !== undefined)
+        ? group.reduce(
+            (sum, segment) =>
+              sum +
+              (segment.text ?? source.slice(segment.start, segment.end))
+                .length +
+              1,
+            -1
+          )
+        : group[group.length - 1]!.end - group[0]!.start;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    groups.push(current);
+
+    const carried: Segment[] = [];
+    for (let i = current.length - 1; i > 0; i--) {
+      const candidate = [current[i]!, ...carried];
+      if (current[i]!.atomic || lengthOf(candidate) > options.overlap) break;
+      carried.unshift(current[i]!);
+    }
+    current = carried;
+  };
+
+  for (const segment of segments) {
+    const pieces =
+      (segment.text ?? source.slice(segment.start, segment.end)).length >
+        options.chunkSize &&
+      segment.text === undefined &&
+      !segment.atomic
+        ? splitBySize(source, segment, options.chunkSize, options.overlap)
+        : [segment];
+
+    for (const piece of pieces) {
+      const previous = current[current.length - 1];
+      if (
+        previous &&
+        (lengthOf([...current, piece]) > options.chunkSize ||
+          piece.atomic ||
+          previous.atomic ||
+          shouldBreak(previous, piece, lengthOf(current)))
+      ) {
+        flush();
+        // Overlap must not push a new chunk past the size limit
+        if (lengthOf([...current, piece]) > options.chunkSize) {
+          current = [];
+        }
+      }
+      current.push(piece);
+    }
+  }
+
+  if (current.length > 0) groups.push(current);
+  return dedupeGroups(groups);
+}
+
+/**
+ * Drop groups fully contained in their predecessor (overlap artefacts)
+ */
+function dedupeGroups(groups: Segment[][]): Segment[][] {
+  return groups.filter((group, index) => {
+    if (index === 0) return true;
+    const previous = groups[index - 1]!;
+    return (
+      group[group.length - 1]!.end > previous[previous.length - 1]!.end ||
+      group[0]!.start < previous[0]!.start
+    );
+  });
+}
+
+/**
+ * Convert segment groups into byte-addressed chunks
+ */
+function groupsToChunks(
+  source: string,
+  groups: Segment[][],
+  chunker: string,
+  toMetadata: (
+    group: Segment[]
+  ) => Omit<ChunkStructureMetadata, 'chunker'> = () => ({})
+): TextChunk[] {
+  const toByte = createByteOffsetMapper(source);
+  const ordered = groups
+    .map((group) => ({
+      group,
+      start: Math.min(...group.map((segment) => segment.start)),
+      end: Math.max(...group.map((segment) => segment.end)),
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  return ordered.map(({ group, start, end }) => {
+    const hasText = group.some((segment) => segment.text !== undefined);
+    return {
+      content: hasText
+        ? group
+            .map(
+              (segment) =>
+                segment.text ?? source.slice(segment.start, segment.end)
+            )
+            .join('\n')
+        : source.slice(start, end),
+      startOffset: toByte(start),
+      endOffset: toByte(end),
+      metadata: { chunker, ...toMetadata(group) },
+    };
+  });
+}
+
+// ============================================================================
+// CHUNKERS
+// ============================================================================
+
+/**
+ * Fixed-size character windows
+ */
+export class CharacterChunker implements DocumentChunker {
+  readonly name = 'character';
+
+  chunk(content: string, options: ChunkingOptions): TextChunk[] {
+    if (!content) return [];
+    const whole = trimSpan(content, 0, content.length);
+    if (whole.end === whole.start) return [];
+
+    const size = options.chunkSize > 0 ? options.chunkSize : content.length;
+    const overlap = options.overlap < size ? options.overlap : 0;
+    const groups: Segment[][] = [];
+    let start = 0;
+
+    while (start < content.length) {
+      const end = Math.min(start + size, content.length);
+      const span = trimSpan(content, start, end);
+      if (span.end > span.start) groups.push([span]);
+      if (end === content.length) break;
+      start = Math.max(end - overlap, start + 1);
+    }
+
+    return groupsToChunks(content, groups, this.name);
+  }
+}
+
+/**
+ * Sentence and paragraph aware splitter
+ */
+export class SentenceChunker implements DocumentChunker {
+  readonly name = 'sentence';
+
+  chunk(content: string, options: ChunkingOptions): TextChunk[] {
+    if (!content) return [];
+    const segments = splitSentences(content, 0, content.length);
+    return groupsToChunks(
+      content,
+      packSegments(content, segments, options),
+      this.name
+    );
+  }
+}
+
+/**
+ * Markdown splitter that follows the heading tree and keeps fenced code
+ * blocks intact
+ */
+export class MarkdownChunker implements DocumentChunker {
+  readonly name = 'markdown';
+
+  chunk(content: string, options: ChunkingOptions): TextChunk[] {
+    if (!content) return [];
+
+    const segments: Segment[] = [];
+    const headingStack: Array<{ level: number; title: string }> = [];
+    const lines = this.getLines(content);
+    let blockStart: number | null = null;
+    let blockEnd = 0;
+    let fence: { marker: string; start: number } | null = null;
+    let sectionStart = true;
+
+    const currentPath = () => headingStack.map((heading) => heading.title);
+    const currentLevel = () => headingStack[headingStack.length - 1]?.level;
+
+    const flushBlock = () => {
+      if (blockStart === null) return;
+      const sentences = splitSentences(content, blockStart, blockEnd);
+      sentences.forEach((sentence, index) => {
+        segments.push({
+          ...sentence,
+          sectionPath: currentPath(),
+          headingLevel: currentLevel(),
+          paragraphStart: index === 0 || sentence.paragraphStart,
+        });
+      });
+      if (sectionStart && sentences.length > 0) {
+        segments[segments.length - sentences.length]!.paragraphStart = true;
+      }
+      sectionStart = false;
+      blockStart = null;
+    };
+
+    for (const line of lines) {
+      const text = content.slice(line.start, line.end);
+
+      if (fence) {
+        if (text.trim().startsWith(fence.marker)) {
+          segments.push({
+            start: fence.start,
+            end: line.end,
+            sectionPath: currentPath(),
+            headingLevel: currentLevel(),
+            atomic: true,
+          });
+          fence = null;
+        }
+        continue;
+      }
+
+      const fenceMatch = /^\s*(```+|~~~+)/.exec(text);
+      if (fenceMatch) {
+        flushBlock();
+        fence = { marker: fenceMatch[1]!, start: line.start };
+        continue;
+      }
+
+      const headingMatch = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(text);
+      if (headingMatch) {
+        flushBlock();
+        const level = headingMatch[1]!.length;
+        while (
+          headingStack.length > 0 &&
+          headingStack[headingStack.length - 1]!.level >= level
+        ) {
+          headingStack.pop();
+        }
+        headingStack.push({ level, title: headingMatch[2]! });
+        sectionStart = true;
+        continue;
+      }
+
+      if (text.trim().length === 0) {
+        flushBlock();
+        continue;
+      }
+
+      if (blockStart === null) blockStart = line.start;
+      blockEnd = line.end;
+    }
+
+    // Unterminated fence runs to the end of the document
+    if (fence) {
+      segments.push({
+        start: fence.start,
+        end: content.length,
+        sectionPath: currentPath(),
+        headingLevel: currentLevel(),
+        atomic: true,
+      });
+    }
+    flushBlock();
+
+    const groups = packSegments(
+      content,
+      segments.map((segment) =>
+        segment.atomic && segment.end - segment.start > options.chunkSize * 2
+          ? { ...segment, atomic: false }
+          : segment
+      ),
+      options,
+      (previous, next, length) =>
+        !samePath(previous.sectionPath, next.sectionPath) ||
+        (Boolean(next.paragraphStart) && length >= options.chunkSize / 2)
+    );
+
+    return groupsToChunks(content, groups, this.name, (group) => {
+      const metadata: Omit<ChunkStructureMetadata, 'chunker'> = {
+        sectionPath: group[0]!.sectionPath ?? [],
+      };
+      if (group[0]!.headingLevel !== undefined) {
+        metadata.headingLevel = group[0]!.headingLevel;
+      }
+      return metadata;
+    });
+  }
+
+  private getLines(content: string): Array<{ start: number; end: number }> {
+    const lines: Array<{ start: number; end: number }> = [];
+    let start = 0;
+    while (start <= content.length) {
+      const newline = content.indexOf('\n', start);
+      const end = newline === -1 ? content.length : newline;
+      lines.push({ start, end });
+      if (newline === -1) break;
+      start = newline + 1;
+    }
+    return lines;
+  }
+}
+
+const HTML_BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'br',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'td',
+  'th',
+  'tr',
+  'ul',
+]);
+
+const HTML_SKIPPED_TAGS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'head',
+  'svg',
+]);
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decode common HTML entities
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    const lower = String(entity).toLowerCase();
+    if (lower.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith('#')) {
+      return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    }
+    return HTML_ENTITIES[lower] ?? match;
+  });
+}
+
+/**
+ * HTML splitter that walks the tag tree, drops markup and non-content
+ * elements, and chunks by block element under the current heading
+ */
+export class HTMLChunker implements DocumentChunker {
+  readonly name = 'html';
+
+  chunk(content: string, options: ChunkingOptions): TextChunk[] {
+    if (!content) return [];
+
+    const segments: Segment[] = [];
+    const headingStack: Array<{ level: number; title: string }> = [];
+    const tagPattern =
+      /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<!?[a-zA-Z][^>]*>|<\/[a-zA-Z][^>]*>/g;
+
+    let skipDepth = 0;
+    let skipTag: string | null = null;
+    let block: { start: number; end: number; parts: string[] } | null = null;
+    let heading: { level: number; parts: string[] } | null = null;
+    let cursor = 0;
+    let newBlock = true;
+
+    const flushBlock = () => {
+      if (!block) return;
+      const text = block.parts.join('').replace(/\s+/g, ' ').trim();
+      if (text.length > 0) {
+        segments.push({
+          start: block.start,
+          end: block.end,
+          text,
+          sectionPath: headingStack.map((entry) => entry.title),
+          headingLevel: headingStack[headingStack.length - 1]?.level,
+          paragraphStart: newBlock,
+        });
+        newBlock = false;
+      }
+      block = null;
+    };
+
+    const appendText = (start: number, end: number) => {
+      const raw = content.slice(start, end);
+      if (raw.trim().length === 0 && !block) return;
+      const decoded = decodeHtmlEntities(raw);
+
+      if (heading) {
+        heading.parts.push(decoded);
+        return;
+      }
+
+      const span = trimSpan(content, start, end);
+      if (!block) {
+        block = { start: span.start, end: span.end, parts: [] };
+      } else if (span.end > span.start) {
+        block.end = span.end;
+      }
+      block.parts.push(decoded);
+    };
+
+    let match: RegExpExecArray | null;
+    while ((match = tagPattern.exec(content))) {
+      if (skipDepth === 0 && match.index > cursor) {
+        appendText(cursor, match.index);
+      }
+      cursor = match.index + match[0].length;
+
+      const tagMatch = /^<(\/?)([a-zA-Z][\w:-]*)/.exec(match[0]);
+      if (!tagMatch) continue;
+
+      const closing = tagMatch[1] === '/';
+      const tag = tagMatch[2]!.toLowerCase();
+      const selfClosing = match[0].endsWith('/>');
+
+      if (skipDepth > 0) {
+        if (tag === skipTag) skipDepth += closing ? -1 : selfClosing ? 0 : 1;
+        if (skipDepth === 0) skipTag = null;
+        continue;
+      }
+
+      if (HTML_SKIPPED_TAGS.has(tag) && !closing && !selfClosing) {
+        skipDepth = 1;
+        skipTag = tag;
+        continue;
+      }
+
+      const headingLevel = /^h([1-6])$/.exec(tag);
+      if (headingLevel) {
+        if (!closing) {
+          flushBlock();
+          heading = { level: Number(headingLevel[1]), parts: [] };
+        } else if (heading) {
+          const title = heading.parts.join('').replace(/\s+/g, ' ').trim();
+          while (
+            headingStack.length > 0 &&
+            headingStack[headingStack.length - 1]!.level >= heading.level
+          ) {
+            headingStack.pop();
+          }
+          if (title) headingStack.push({ level: heading.level, title });
+          heading = null;
+          newBlock = true;
+        }
+        continue;
+      }
+
+      if (HTML_BLOCK_TAGS.has(tag)) {
+        flushBlock();
+        newBlock = newBlock || !closing;
+      }
+    }
+
+    if (skipDepth === 0 && cursor < content.length) {
+      appendText(cursor, content.length);
+    }
+    flushBlock();
+
+    const groups = packSegments(
+      content,
+      segments,
+      options,
+      (previous, next, length) =>
+        !samePath(previous.sectionPath, next.sectionPath) ||
+        (Boolean(next.paragraphStart) && length >= options.chunkSize / 2)
+    );
+
+    return groupsToChunks(content, groups, this.name, (group) => {
+      const metadata: Omit<ChunkStructureMetadata, 'chunker'> = {
+        sectionPath: group[0]!.sectionPath ?? [],
+      };
+      if (group[0]!.headingLevel !== undefined) {
+        metadata.headingLevel = group[0]!.headingLevel;
+      }
+      return metadata;
+    });
+  }
+}
+
+/**
+ * Position-aware JSON node
+ */
+interface JSONNode {
+  start: number;
+  end: number;
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+  children: Array<{ key: string | number; node: JSONNode }>;
+}
+
+/**
+ * JSON splitter that keeps values whole where possible and records the
+ * JSONPath of every chunk
+ */
+export class JSONChunker implements DocumentChunker {
+  readonly name = 'json';
+  private fallback = new SentenceChunker();
+
+  chunk(content: string, options: ChunkingOptions): TextChunk[] {
+    if (!content) return [];
+
+    let root: JSONNode;
+    try {
+      const parser = new PositionalJSONParser(content);
+      root = parser.parse();
+    } catch {
+      return this.fallback.chunk(content, options);
+    }
+
+    const groups: Segment[][] = [];
+    this.collect(content, root, '$', options, groups);
+
+    return groupsToChunks(content, groups, this.name, (group) => ({
+      jsonPath: group[0]!.jsonPath ?? '$',
+    }));
+  }
+
+  private collect(
+    source: string,
+    node: JSONNode,
+    path: string,
+    options: ChunkingOptions,
+    groups: Segment[][]
+  ): void {
+    if (node.end - node.start <= options.chunkSize) {
+      groups.push([{ start: node.start, end: node.end, jsonPath: path }]);
+      return;
+    }
+
+    if (node.children.length === 0) {
+      // Oversized scalar: split the raw text
+      for (const piece of splitBySize(
+        source,
+        { start: node.start, end: node.end },
+        options.chunkSize,
+        options.overlap
+      )) {
+        groups.push([{ ...piece, jsonPath: path }]);
+      }
+      return;
+    }
+
+    // Pack consecutive small children, recurse into large ones
+    let pending: Segment[] = [];
+    const flushPending = () => {
+      if (pending.length === 0) return;
+      groups.push([
+        {
+          start: pending[0]!.start,
+          end: pending[pending.length - 1]!.end,
+          jsonPath: pending.length === 1 ? pending[0]!.jsonPath! : path,
+        },
+      ]);
+      pending = [];
+    };
+
+    for (const { key, node: child } of node.children) {
+      const childPath = appendJSONPath(path, key);
+      const childStart =
+        typeof key === 'string'
+          ? this.findKeyStart(source, child.start)
+          : child.start;
+
+      if (child.end - child.start > options.chunkSize) {
+        flushPending();
+        this.collect(source, child, childPath, options, groups);
+        continue;
+      }
+
+      const candidateStart = pending[0]?.start ?? childStart;
+      if (child.end - candidateStart > options.chunkSize) flushPending();
+      pending.push({ start: childStart, end: child.end, jsonPath: childPath });
+    }
+    flushPending();
+  }
+
+  /**
+   * Walk back from a value to include its `"key":` prefix
+   */
+  private findKeyStart(source: string, valueStart: number): number {
+    let index = valueStart - 1;
+    while (index >= 0 && /\s/.test(source[index]!)) index--;
+    if (source[index] !== ':') return valueStart;
+    index--;
+    while (index >= 0 && /\s/.test(source[index]!)) index--;
+    if (source[index] !== '"') return valueStart;
+    index--;
+    while (index >= 0) {
+      if (source[index] === '"' && source[index - 1] !== '\\') return index;
+      index--;
+    }
+    return valueStart;
+  }
+}
+
+function appendJSONPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Minimal JSON parser that records source spans for every value
+ */
+class PositionalJSONParser {
+  private index = 0;
+
+  constructor(private source: string) {}
+
+  parse(): JSONNode {
+    this.skipWhitespace();
+    const node = this.parseValue();
+    this.skipWhitespace();
+    if (this.index < this.source.length) {
+      throw new SyntaxError(`Unexpected token at position ${this.index}`);
+    }
+    return node;
+  }
+
+  private parseValue(): JSONNode {
+    this.skipWhitespace();
+    const char = this.source[this.index];
+
+    if (char === '{') return this.parseObject();
+    if (char === '[') return this.parseArray();
+    if (char === '"') {
+      const start = this.index;
+      this.parseString();
+      return { start, end: this.index, type: 'string', children: [] };
+    }
+
+    const literal =
+      /^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(
+        this.source.slice(this.index, this.index + 64)
+      );
+    if (!literal) {
+      throw new SyntaxError(`Unexpected token at position ${this.index}`);
+    }
+
+    const start = this.index;
+    this.index += literal[0].length;
+    const type =
+      literal[0] === 'null'
+        ? 'null'
+        : literal[0] === 'true' || literal[0] === 'false'
+          ? 'boolean'
+          : 'number';
+    return { start, end: this.index, type, children: [] };
+  }
+
+  private parseObject(): JSONNode {
+    const start = this.index++;
+    const children: JSONNode['children'] = [];
+    this.skipWhitespace();
+
+    if (this.source[this.index] === '}') {
+      this.index++;
+      return { start, end: this.index, type: 'object', children };
+    }
+
+    for (;;) {
+      this.skipWhitespace();
+      const key = this.parseString();
+      this.skipWhitespace();
+      this.expect(':');
+      children.push({ key, node: this.parseValue() });
+      this.skipWhitespace();
+      if (this.source[this.index] === ',') {
+        this.index++;
+        continue;
+      }
+      this.expect('}');
+      return { start, end: this.index, type: 'object', children };
+    }
+  }
+
+  private parseArray(): JSONNode {
+    const start = this.index++;
+    const children: JSONNode['children'] = [];
+    this.skipWhitespace();
+
+    if (this.source[this.index] === ']') {
+      this.index++;
+      return { start, end: this.index, type: 'array', children };
+    }
+
+    for (;;) {
+      children.push({ key: children.length, node: this.parseValue() });
+      this.skipWhitespace();
+      if (this.source[this.index] === ',') {
+        this.index++;
+        continue;
+      }
+      this.expect(']');
+      return { start, end: this.index, type: 'array', children };
+    }
+  }
+
+  private parseString(): string {
+    this.expect('"');
+    const start = this.index;
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+      if (char === '\\') {
+        this.index += 2;
+        continue;
+      }
+      if (char === '"') {
+        const raw = this.source.slice(start - 1, this.index + 1);
+        this.index++;
+        return JSON.parse(raw) as string;
+      }
+      this.index++;
+    }
+    throw new SyntaxError('Unterminated string');
+  }
+
+  private expect(char: string): void {
+    if (this.source[this.index] !== char) {
+      throw new SyntaxError(`Expected "${char}" at position ${this.index}`);
+    }
+    this.index++;
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.source[this.index] ?? '')) this.index++;
+  }
+}
+
+/**
+ * Approximate tokenizer: words, numbers and individual punctuation marks
+ */
+export function approximateTokenize(text: string): TokenSpan[] {
+  const spans: TokenSpan[] = [];
+  const pattern = /[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    spans.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return spans;
+}
+
+/**
+ * Sliding window over tokens
+ */
+export class TokenChunker implements DocumentChunker {
+  readonly name = 'token';
+
+  chunk(content: string, options: ChunkingOptions): TextChunk[] {
+    if (!content) return [];
+
+    const tokens = (options.tokenize ?? approximateTokenize)(content);
+    if (tokens.length === 0) return [];
+
+    const maxTokens = Math.max(1, options.maxTokens);
+    const overlap = Math.min(Math.max(0, options.tokenOverlap), maxTokens - 1);
+    const toByte = createByteOffsetMapper(content);
+    const chunks: TextChunk[] = [];
+
+    for (let first = 0; first < tokens.length; first += maxTokens - overlap) {
+      const last = Math.min(first + maxTokens, tokens.length) - 1;
+      const start = tokens[first]!.start;
+      const end = tokens[last]!.end;
+
+      chunks.push({
+        content: content.slice(start, end),
+        startOffset: toByte(start),
+        endOffset: toByte(end),
+        metadata: { chunker: this.name, tokenCount: last - first + 1 },
+      });
+
+      if (last === tokens.length - 1) break;
+    }
+
+    return chunks;
+  }
+}
+
+function samePath(a?: string[], b?: string[]): boolean {
+  const left = a ?? [];
+  const right = b ?? [];
+  return (
+    left.length === right.length &&
+    left.every((part, index) => part === right[index])
+  );
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const BUILT_IN_CHUNKERS: Record<
+  Exclude<ChunkingStrategy, 'auto'>,
+  () => DocumentChunker
+> = {
+  character: () => new CharacterChunker(),
+  sentence: () => new SentenceChunker(),
+  markdown: () => new MarkdownChunker(),
+  html: () => new HTMLChunker(),
+  json: () => new JSONChunker(),
+  token: () => new TokenChunker(),
+};
+
+/**
+ * Create a built-in chunker
+ */
+export function createChunker(
+  strategy: Exclude<ChunkingStrategy, 'auto'>
+): DocumentChunker {
+  return BUILT_IN_CHUNKERS[strategy]();
+}
+
+/**
+ * Resolve the chunker for a document format
+ */
+export function resolveChunker(
+  format: string,
+  strategy: ChunkingStrategy = 'auto',
+  overrides: Partial<Record<string, DocumentChunker>> = {}
+): DocumentChunker {
+  const override = overrides[format];
+  if (override) return override;
+
+  const resolved =
+    strategy === 'auto'
+      ? (DEFAULT_FORMAT_STRATEGIES[format] ?? 'sentence')
+      : strategy;
+  return createChunker(resolved as Exclude<ChunkingStrategy, 'auto'>);
+}
+
+/**
+ * Chunk a document using the chunker selected for its format
+ */
+export function chunkContent(
+  content: string,
+  format: string,
+  options: Partial<ChunkingOptions> & {
+    strategy?: ChunkingStrategy;
+    chunkers?: Partial<Record<string, DocumentChunker>>;
+  } = {}
+): TextChunk[] {
+  const { strategy, chunkers, ...chunkingOptions } = options;
+  const chunker = resolveChunker(format, strategy, chunkers);
+  return chunker.chunk(content, {
+    ...DEFAULT_CHUNKING_OPTIONS,
+    ...chunkingOptions,
+  });
+}
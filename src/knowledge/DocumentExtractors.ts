@@ -0,0 +1,776 @@
+/**
+ * Document Extractors
+ * Turn uploaded files (PDF, DOCX, HTML, CSV, plain text) into clean text
+ * with page and section metadata ready for chunking
+ */
+
+import { createByteOffsetMapper, decodeHtmlEntities } from './DocumentChunkers';
+import { readZipEntries } from './Inflate';
+import { extractPDFText } from './PDFTextExtractor';
+
+/**
+ * Format of extracted text, matching the knowledge document formats so the
+ * right chunker is picked
+ */
+export type ExtractedTextFormat = 'text' | 'markdown' | 'pdf' | 'html' | 'json';
+
+/**
+ * Page or section of the extracted text
+ */
+export interface ExtractedSection {
+  title?: string;
+  page?: number; // 1-based page number for paginated sources
+  startOffset: number; // UTF-8 byte offset into the extracted text
+  endOffset: number;
+}
+
+/**
+ * Result of extracting a file
+ */
+export interface ExtractedDocument {
+  text: string;
+  format: ExtractedTextFormat;
+  title?: string;
+  mimeType: string;
+  extractor: string;
+  sections: ExtractedSection[];
+  metadata: Record<string, string | number | boolean>;
+}
+
+/**
+ * Raw file handed to an extractor
+ */
+export interface ExtractionInput {
+  data: Uint8Array;
+  name?: string;
+  mimeType?: string;
+}
+
+/**
+ * Extractor plugin for one family of file types
+ */
+export interface DocumentExtractor {
+  name: string;
+  mimeTypes: string[];
+  extensions: string[]; // Lowercase, without the dot
+  sniff?: (data: Uint8Array) => boolean; // Recognise files by content
+  extract(
+    input: ExtractionInput
+  ): ExtractedDocument | Promise<ExtractedDocument>;
+}
+
+const DOCX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Block-level HTML elements that break lines
+const HTML_BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'br',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'tr',
+  'ul',
+]);
+
+const HTML_SKIPPED_TAGS = new Set([
+  'head',
+  'noscript',
+  'script',
+  'style',
+  'svg',
+  'template',
+]);
+
+// Types that never fall back to the plain text extractor
+const BINARY_MIME_PREFIXES = ['image/', 'audio/', 'video/', 'font/'];
+const BINARY_MIME_TYPES = new Set([
+  'application/gzip',
+  'application/octet-stream',
+  'application/x-7z-compressed',
+  'application/x-tar',
+  'application/zip',
+]);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getExtension(name?: string): string {
+  const match = /\.([^./\\]+)$/.exec(name ?? '');
+  return match ? match[1]!.toLowerCase() : '';
+}
+
+function baseMimeType(mimeType?: string): string {
+  return (mimeType ?? '').split(';')[0]!.trim().toLowerCase();
+}
+
+/**
+ * Whether content is binary, by MIME type or by NUL and control bytes in
+ * the first kilobyte
+ */
+function isBinary(data: Uint8Array, mimeType: string): boolean {
+  if (
+    BINARY_MIME_TYPES.has(mimeType) ||
+    BINARY_MIME_PREFIXES.some((prefix) => mimeType.startsWith(prefix))
+  ) {
+    return true;
+  }
+  // UTF-16 text contains NUL bytes but starts with a byte order mark
+  if (
+    (data[0] === 0xff && data[1] === 0xfe) ||
+    (data[0] === 0xfe && data[1] === 0xff)
+  ) {
+    return false;
+  }
+
+  const sample = data.subarray(0, 1024);
+  let controlBytes = 0;
+  for (const byte of sample) {
+    if (byte === 0) return true;
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d) {
+      controlBytes++;
+    }
+  }
+  return controlBytes > sample.length * 0.1;
+}
+
+/**
+ * Decode UTF-8 (or UTF-16 with a BOM) and strip the byte order mark
+ */
+export function decodeText(data: Uint8Array): string {
+  if (data[0] === 0xff && data[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(data.subarray(2));
+  }
+  if (data[0] === 0xfe && data[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(data.subarray(2));
+  }
+  return new TextDecoder().decode(data).replace(/^\uFEFF/, '');
+}
+
+/**
+ * Collapse runs of blank lines and trailing whitespace
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+$/g, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Build sections from character ranges of the extracted text
+ */
+function toSections(
+  text: string,
+  ranges: Array<{ start: number; end: number; title?: string; page?: number }>
+): ExtractedSection[] {
+  const toByte = createByteOffsetMapper(text);
+  return ranges.map(({ start, end, title, page }) => ({
+    ...(title !== undefined ? { title } : {}),
+    ...(page !== undefined ? { page } : {}),
+    startOffset: toByte(start),
+    endOffset: toByte(end),
+  }));
+}
+
+/**
+ * One section per markdown heading, running to the next heading
+ */
+function markdownSections(text: string): ExtractedSection[] {
+  const headings: Array<{ start: number; title: string }> = [];
+  let inFence = false;
+  let position = 0;
+
+  for (const line of text.split('\n')) {
+    if (/^(`{3,}|~{3,})/.test(line)) inFence = !inFence;
+    const match = !inFence && /^#{1,6}\s+(.+?)\s*#*$/.exec(line);
+    if (match) headings.push({ start: position, title: match[1]! });
+    position += line.length + 1;
+  }
+
+  return toSections(
+    text,
+    headings.map((heading, index) => ({
+      start: heading.start,
+      end: headings[index + 1]?.start ?? text.length,
+      title: heading.title,
+    }))
+  );
+}
+
+/**
+ * Read a Blob into bytes
+ */
+async function readBlob(blob: Blob): Promise<Uint8Array> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () =>
+      reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+/**
+ * Convert HTML to markdown-flavoured plain text. Headings become `#` lines,
+ * list items become `-` lines and scripts, styles and the head are dropped.
+ */
+export function htmlToText(html: string): { text: string; title?: string } {
+  const titleMatch = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+  const title = titleMatch
+    ? decodeHtmlEntities(titleMatch[1]!).replace(/\s+/g, ' ').trim()
+    : undefined;
+
+  const tagPattern =
+    /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<(\/?)([a-zA-Z][\w:-]*)\b[^>]*?(\/?)>|<![^>]*>/g;
+  let output = '';
+  let skipping: string | null = null;
+  let preDepth = 0;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const appendText = (raw: string) => {
+    if (skipping) return;
+    let text = decodeHtmlEntities(raw);
+    if (preDepth === 0) {
+      text = text.replace(/\s+/g, ' ');
+      if (output.length === 0 || /[\n ]$/.test(output)) {
+        text = text.replace(/^ /, '');
+      }
+    }
+    output += text;
+  };
+  const breakLine = (blank = false) => {
+    output = output.replace(/ +$/, '');
+    if (output.length === 0) return;
+    if (!output.endsWith('\n')) output += '\n';
+    if (blank && !output.endsWith('\n\n')) output += '\n';
+  };
+
+  while ((match = tagPattern.exec(html))) {
+    appendText(html.slice(lastIndex, match.index));
+    lastIndex = tagPattern.lastIndex;
+
+    const tag = match[2]?.toLowerCase();
+    if (!tag) continue;
+    const closing = match[1] === '/';
+    const selfClosing = match[3] === '/';
+
+    if (skipping) {
+      if (closing && tag === skipping) skipping = null;
+      continue;
+    }
+    if (HTML_SKIPPED_TAGS.has(tag)) {
+      if (!closing && !selfClosing) skipping = tag;
+      continue;
+    }
+
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      breakLine(true);
+      if (!closing) output += `${'#'.repeat(Number(heading[1]))} `;
+      else breakLine(true);
+      continue;
+    }
+
+    if (tag === 'pre') {
+      if (closing) {
+        preDepth = Math.max(0, preDepth - 1);
+        breakLine();
+        output += '```';
+        breakLine(true);
+      } else {
+        preDepth++;
+        breakLine(true);
+        output += '```\n';
+      }
+      continue;
+    }
+
+    if (tag === 'li' && !closing) {
+      breakLine();
+      output += '- ';
+      continue;
+    }
+
+    if ((tag === 'td' || tag === 'th') && !closing) {
+      if (output.length > 0 && !output.endsWith('\n')) {
+        output = output.replace(/ +$/, '');
+        output += ' | ';
+      }
+      continue;
+    }
+
+    if (HTML_BLOCK_TAGS.has(tag)) {
+      breakLine(tag === 'p' || tag === 'table' || tag === 'blockquote');
+    }
+  }
+  appendText(html.slice(lastIndex));
+
+  // Trim indentation from markup, except inside preformatted blocks
+  let inFence = false;
+  const text = normalizeText(
+    output
+      .split('\n')
+      .map((line) => {
+        if (line.trim() === '```') {
+          inFence = !inFence;
+          return '```';
+        }
+        return inFence ? line : line.trim();
+      })
+      .join('\n')
+  );
+
+  return { text, ...(title ? { title } : {}) };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Parse delimited text (RFC 4180 quoting)
+ */
+export function parseDelimited(text: string, delimiter?: string): string[][] {
+  const separator =
+    delimiter ??
+    [',', '\t', ';', '|'].reduce(
+      (best, candidate) => {
+        const count = text.split('\n')[0]!.split(candidate).length;
+        return count > best.count ? { candidate, count } : best;
+      },
+      { candidate: ',', count: 1 }
+    ).candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim().length > 0));
+}
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+function decodeXml(text: string): string {
+  return decodeHtmlEntities(text);
+}
+
+/**
+ * Convert WordprocessingML paragraphs to markdown-flavoured text
+ */
+function docxToText(documentXml: string): string {
+  const body =
+    /<w:body\b[^>]*>([\s\S]*)<\/w:body>/.exec(documentXml)?.[1] ?? documentXml;
+  const lines: string[] = [];
+
+  for (const paragraph of body.matchAll(
+    /<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g
+  )) {
+    const xml = paragraph[1] ?? '';
+    let text = '';
+
+    for (const token of xml.matchAll(
+      /<w:t\b[^>]*>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g
+    )) {
+      if (token[1] !== undefined) text += decodeXml(token[1]);
+      else text += token[2] === 'tab' ? '\t' : '\n';
+    }
+
+    text = text.trim();
+    if (text.length === 0) {
+      lines.push('');
+      continue;
+    }
+
+    const style = /<w:pStyle\s+w:val="([^"]+)"/.exec(xml)?.[1] ?? '';
+    const heading = /^heading\s?([1-6])$/i.exec(style);
+
+    if (heading) {
+      lines.push('', `${'#'.repeat(Number(heading[1]))} ${text}`, '');
+    } else if (/^title$/i.test(style)) {
+      lines.push('', `# ${text}`, '');
+    } else if (/<w:numPr\b/.test(xml) || /^list/i.test(style)) {
+      lines.push(`- ${text}`);
+    } else {
+      lines.push(text, '');
+    }
+  }
+
+  return normalizeText(lines.join('\n'));
+}
+
+// ============================================================================
+// BUILT-IN EXTRACTORS
+// ============================================================================
+
+/**
+ * Plain text, markdown and JSON files
+ */
+export const plainTextExtractor: DocumentExtractor = {
+  name: 'text',
+  mimeTypes: [
+    'text/plain',
+    'text/markdown',
+    'text/x-markdown',
+    'application/json',
+  ],
+  extensions: ['txt', 'text', 'md', 'markdown', 'json', 'log'],
+  extract: ({ data, name, mimeType }) => {
+    const extension = getExtension(name);
+    const type = baseMimeType(mimeType);
+    const format: ExtractedTextFormat =
+      extension === 'json' || type === 'application/json'
+        ? 'json'
+        : extension === 'md' ||
+            extension === 'markdown' ||
+            type.includes('markdown')
+          ? 'markdown'
+          : 'text';
+    const text = decodeText(data);
+
+    return {
+      text,
+      format,
+      mimeType: type || 'text/plain',
+      extractor: 'text',
+      sections: format === 'markdown' ? markdownSections(text) : [],
+      metadata: {},
+    };
+  },
+};
+
+/**
+ * HTML pages, converted to markdown so headings drive chunk sections
+ */
+export const htmlExtractor: DocumentExtractor = {
+  name: 'html',
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extensions: ['html', 'htm', 'xhtml'],
+  sniff: (data) =>
+    /^\s*(<!doctype html|<html)/i.test(
+      new TextDecoder().decode(data.subarray(0, 256)).replace(/^\uFEFF/, '')
+    ),
+  extract: ({ data, mimeType }) => {
+    const { text, title } = htmlToText(decodeText(data));
+    return {
+      text,
+      format: 'markdown',
+      ...(title ? { title } : {}),
+      mimeType: baseMimeType(mimeType) || 'text/html',
+      extractor: 'html',
+      sections: markdownSections(text),
+      metadata: {},
+    };
+  },
+};
+
+/**
+ * CSV and TSV tables. Each row becomes a `Column: value; ...` line so rows
+ * stay self-describing once chunked.
+ */
+export const csvExtractor: DocumentExtractor = {
+  name: 'csv',
+  mimeTypes: ['text/csv', 'text/tab-separated-values', 'application/csv'],
+  extensions: ['csv', 'tsv'],
+  extract: ({ data, name, mimeType }) => {
+    const rows = parseDelimited(
+      decodeText(data),
+      getExtension(name) === 'tsv' ? '\t' : undefined
+    );
+    const [header = [], ...records] = rows;
+    const columns = header.map(
+      (column, index) => column.trim() || `Column ${index + 1}`
+    );
+
+    const ranges: Array<{ start: number; end: number; title: string }> = [];
+    let text = '';
+    records.forEach((record, index) => {
+      const line = record
+        .map((cell, cellIndex) => {
+          const value = cell.trim();
+          if (!value) return null;
+          const column = columns[cellIndex] ?? `Column ${cellIndex + 1}`;
+          return `${column}: ${value}`;
+        })
+        .filter((cell): cell is string => cell !== null)
+        .join('; ');
+
+      if (text.length > 0) text += '\n';
+      ranges.push({
+        start: text.length,
+        end: text.length + line.length,
+        title: `Row ${index + 1}`,
+      });
+      text += line;
+    });
+
+    return {
+      text,
+      format: 'text',
+      mimeType: baseMimeType(mimeType) || 'text/csv',
+      extractor: 'csv',
+      sections: toSections(text, ranges),
+      metadata: { rowCount: records.length, columns: columns.join(', ') },
+    };
+  },
+};
+
+/**
+ * Word documents (Office Open XML)
+ */
+export const docxExtractor: DocumentExtractor = {
+  name: 'docx',
+  mimeTypes: [DOCX_MIME_TYPE],
+  extensions: ['docx'],
+  sniff: (data) => {
+    if (data[0] !== 0x50 || data[1] !== 0x4b) return false;
+    try {
+      return readZipEntries(data).some(
+        (entry) => entry.name === 'word/document.xml'
+      );
+    } catch {
+      return false;
+    }
+  },
+  extract: ({ data }) => {
+    const entries = readZipEntries(data);
+    const read = (name: string) => {
+      const entry = entries.find((candidate) => candidate.name === name);
+      return entry ? new TextDecoder().decode(entry.read()) : undefined;
+    };
+
+    const documentXml = read('word/document.xml');
+    if (documentXml === undefined) {
+      throw new Error('DOCX archive has no word/document.xml');
+    }
+
+    const text = docxToText(documentXml);
+    const core = read('docProps/core.xml') ?? '';
+    const title = decodeXml(
+      /<dc:title>([\s\S]*?)<\/dc:title>/.exec(core)?.[1] ?? ''
+    ).trim();
+    const author = decodeXml(
+      /<dc:creator>([\s\S]*?)<\/dc:creator>/.exec(core)?.[1] ?? ''
+    ).trim();
+
+    return {
+      text,
+      format: 'markdown',
+      ...(title ? { title } : {}),
+      mimeType: DOCX_MIME_TYPE,
+      extractor: 'docx',
+      sections: markdownSections(text),
+      metadata: author ? { author } : {},
+    };
+  },
+};
+
+/**
+ * PDF documents with a text layer. Pages are separated by blank lines and
+ * reported as sections.
+ */
+export const pdfExtractor: DocumentExtractor = {
+  name: 'pdf',
+  mimeTypes: ['application/pdf'],
+  extensions: ['pdf'],
+  sniff: (data) =>
+    new TextDecoder().decode(data.subarray(0, 1024)).includes('%PDF-'),
+  extract: ({ data }) => {
+    const { pages, title, author } = extractPDFText(data);
+
+    const ranges: Array<{ start: number; end: number; page: number }> = [];
+    let text = '';
+    pages.forEach((page, index) => {
+      if (index > 0) text += '\n\n';
+      ranges.push({
+        start: text.length,
+        end: text.length + page.length,
+        page: index + 1,
+      });
+      text += page;
+    });
+
+    return {
+      text,
+      format: 'pdf',
+      ...(title ? { title } : {}),
+      mimeType: 'application/pdf',
+      extractor: 'pdf',
+      sections: toSections(
+        text,
+        ranges.map((range) => ({ ...range, title: `Page ${range.page}` }))
+      ),
+      metadata: {
+        pageCount: pages.length,
+        ...(author ? { author } : {}),
+      },
+    };
+  },
+};
+
+export const DEFAULT_DOCUMENT_EXTRACTORS: DocumentExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  htmlExtractor,
+  csvExtractor,
+  plainTextExtractor,
+];
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export class DocumentExtractorRegistry {
+  private extractors: DocumentExtractor[];
+
+  constructor(extractors: DocumentExtractor[] = DEFAULT_DOCUMENT_EXTRACTORS) {
+    this.extractors = [...extractors];
+  }
+
+  /**
+   * Register an extractor. Later registrations take priority, so a pdf.js or
+   * mammoth backed extractor can replace a built-in one.
+   */
+  register(extractor: DocumentExtractor): void {
+    this.extractors = [
+      extractor,
+      ...this.extractors.filter((existing) => existing.name !== extractor.name),
+    ];
+  }
+
+  unregister(name: string): boolean {
+    const before = this.extractors.length;
+    this.extractors = this.extractors.filter(
+      (extractor) => extractor.name !== name
+    );
+    return this.extractors.length < before;
+  }
+
+  list(): DocumentExtractor[] {
+    return [...this.extractors];
+  }
+
+  /**
+   * Pick an extractor by MIME type, then extension, then file content;
+   * anything else that is not binary is read as plain text
+   */
+  resolve(input: ExtractionInput): DocumentExtractor | undefined {
+    const mimeType = baseMimeType(input.mimeType);
+    const extension = getExtension(input.name);
+
+    return (
+      (mimeType &&
+        this.extractors.find((extractor) =>
+          extractor.mimeTypes.includes(mimeType)
+        )) ||
+      (extension &&
+        this.extractors.find((extractor) =>
+          extractor.extensions.includes(extension)
+        )) ||
+      this.extractors.find((extractor) => extractor.sniff?.(input.data)) ||
+      (isBinary(input.data, mimeType)
+        ? undefined
+        : this.extractors.find((extractor) => extractor.name === 'text'))
+    );
+  }
+
+  /**
+   * Whether a file with this name and type has an extractor, without
+   * reading its content
+   */
+  canExtract(input: { name?: string; mimeType?: string }): boolean {
+    return this.resolve({ ...input, data: new Uint8Array(0) }) !== undefined;
+  }
+
+  /**
+   * Extract text from a File, Blob or raw bytes
+   */
+  async extract(source: Blob | ExtractionInput): Promise<ExtractedDocument> {
+    const input: ExtractionInput =
+      source instanceof Blob
+        ? {
+            data: await readBlob(source),
+            ...(source.type ? { mimeType: source.type } : {}),
+            ...('name' in source && typeof source.name === 'string'
+              ? { name: source.name }
+              : {}),
+          }
+        : source;
+
+    const extractor = this.resolve(input);
+    if (!extractor) {
+      throw new Error(
+        `No extractor registered for ${input.name ?? input.mimeType ?? 'file'}`
+      );
+    }
+
+    return extractor.extract(input);
+  }
+}
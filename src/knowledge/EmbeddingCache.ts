@@ -0,0 +1,359 @@
+/**
+ * Embedding Cache
+ * Content hashing and persistent embedding caches keyed by model and
+ * content hash, so unchanged text is never embedded twice
+ */
+
+/**
+ * Minimal key-value storage, satisfied by localStorage-style and async
+ * (React Native AsyncStorage-style) backends
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
+}
+
+/**
+ * Embedding cache contract
+ */
+export interface EmbeddingCache {
+  getMany(keys: string[]): Promise<Array<number[] | undefined>>;
+  setMany(entries: Array<[string, number[]]>): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+/**
+ * Memory embedding cache configuration
+ */
+export interface MemoryEmbeddingCacheConfig {
+  maxEntries: number; // Least recently used entries are evicted first
+}
+
+/**
+ * Storage embedding cache configuration
+ */
+export interface StorageEmbeddingCacheConfig {
+  prefix: string; // Namespaces cache keys within shared storage
+  maxEntries: number; // Least recently used entries are evicted first
+}
+
+export const DEFAULT_MEMORY_EMBEDDING_CACHE_CONFIG: MemoryEmbeddingCacheConfig =
+  {
+    maxEntries: 10000,
+  };
+
+export const DEFAULT_STORAGE_EMBEDDING_CACHE_CONFIG: StorageEmbeddingCacheConfig =
+  {
+    prefix: 'conciergus:embedding:',
+    maxEntries: 1000,
+  };
+
+// Key, under the cache's prefix, of the stored recency order
+const RECENCY_KEY = '__recency';
+
+// SHA-256 round constants
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * SHA-256 of the UTF-8 encoding of a string, as lowercase hex. Synchronous
+ * so chunk hashes can be computed while chunking.
+ */
+export function hashContent(text: string): string {
+  const data = new TextEncoder().encode(text);
+  const bitLength = data.length * 8;
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const words = new Uint32Array(64);
+  const rotate = (value: number, bits: number) =>
+    (value >>> bits) | (value << (32 - bits));
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const w15 = words[i - 15]!;
+      const w2 = words[i - 2]!;
+      const s0 = rotate(w15, 7) ^ rotate(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotate(w2, 17) ^ rotate(w2, 19) ^ (w2 >>> 10);
+      words[i] = words[i - 16]! + s0 + words[i - 7]! + s1;
+    }
+
+    let a = hash[0]!;
+    let b = hash[1]!;
+    let c = hash[2]!;
+    let d = hash[3]!;
+    let e = hash[4]!;
+    let f = hash[5]!;
+    let g = hash[6]!;
+    let h = hash[7]!;
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + SHA256_K[i]! + words[i]!) >>> 0;
+      const s0 = rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) >>> 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    // Uint32Array stores wrap modulo 2^32
+    hash[0] = hash[0]! + a;
+    hash[1] = hash[1]! + b;
+    hash[2] = hash[2]! + c;
+    hash[3] = hash[3]! + d;
+    hash[4] = hash[4]! + e;
+    hash[5] = hash[5]! + f;
+    hash[6] = hash[6]! + g;
+    hash[7] = hash[7]! + h;
+  }
+
+  return Array.from(hash, (word) => word.toString(16).padStart(8, '0')).join(
+    ''
+  );
+}
+
+/**
+ * Cache key for an embedding of a text by a model
+ */
+export function embeddingCacheKey(model: string, contentHash: string): string {
+  return `${model}:${contentHash}`;
+}
+
+/**
+ * Adapt a Web Storage object (localStorage, sessionStorage)
+ */
+export function fromWebStorage(storage: Storage): KeyValueStorage {
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+    keys: () => {
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key !== null) keys.push(key);
+      }
+      return keys;
+    },
+  };
+}
+
+/**
+ * In-memory LRU embedding cache
+ */
+export class MemoryEmbeddingCache implements EmbeddingCache {
+  private config: MemoryEmbeddingCacheConfig;
+  private entries = new Map<string, number[]>();
+
+  constructor(config: Partial<MemoryEmbeddingCacheConfig> = {}) {
+    this.config = { ...DEFAULT_MEMORY_EMBEDDING_CACHE_CONFIG, ...config };
+  }
+
+  async getMany(keys: string[]): Promise<Array<number[] | undefined>> {
+    return keys.map((key) => {
+      const embedding = this.entries.get(key);
+      if (embedding) {
+        // Refresh recency
+        this.entries.delete(key);
+        this.entries.set(key, embedding);
+      }
+      return embedding;
+    });
+  }
+
+  async setMany(entries: Array<[string, number[]]>): Promise<void> {
+    for (const [key, embedding] of entries) {
+      this.entries.delete(key);
+      this.entries.set(key, embedding);
+    }
+
+    while (this.entries.size > this.config.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (const key of keys) this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Embedding cache persisted to key-value storage such as localStorage, so
+ * embeddings survive page reloads. The recency order is stored alongside
+ * the entries so eviction stays least recently used across reloads.
+ */
+export class StorageEmbeddingCache implements EmbeddingCache {
+  private config: StorageEmbeddingCacheConfig;
+  private recency: string[] | null = null; // Least recently used first
+
+  constructor(
+    private storage: KeyValueStorage,
+    config: Partial<StorageEmbeddingCacheConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_STORAGE_EMBEDDING_CACHE_CONFIG, ...config };
+  }
+
+  async getMany(keys: string[]): Promise<Array<number[] | undefined>> {
+    const embeddings = await Promise.all(
+      keys.map(async (key) => {
+        const stored = await this.storage.getItem(this.config.prefix + key);
+        if (stored === null) return undefined;
+
+        try {
+          const embedding: unknown = JSON.parse(stored);
+          return Array.isArray(embedding) ? (embedding as number[]) : undefined;
+        } catch {
+          return undefined;
+        }
+      })
+    );
+
+    const hits = keys.filter((_, index) => embeddings[index] !== undefined);
+    if (hits.length > 0) {
+      this.touch(await this.loadRecency(), hits);
+      await this.saveRecency();
+    }
+    return embeddings;
+  }
+
+  async setMany(entries: Array<[string, number[]]>): Promise<void> {
+    const recency = await this.loadRecency();
+    for (const [key, embedding] of entries) {
+      try {
+        await this.storage.setItem(
+          this.config.prefix + key,
+          JSON.stringify(embedding)
+        );
+      } catch {
+        // Storage quota exceeded; the embedding is simply not cached
+        break;
+      }
+      this.touch(recency, [key]);
+    }
+
+    while (recency.length > this.config.maxEntries) {
+      await this.storage.removeItem(this.config.prefix + recency.shift()!);
+    }
+    await this.saveRecency();
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await this.storage.removeItem(this.config.prefix + key);
+    }
+    const recency = await this.loadRecency();
+    this.recency = recency.filter((key) => !keys.includes(key));
+    await this.saveRecency();
+  }
+
+  async clear(): Promise<void> {
+    for (const key of await this.ownKeys()) {
+      await this.storage.removeItem(key);
+    }
+    await this.storage.removeItem(this.config.prefix + RECENCY_KEY);
+    this.recency = [];
+  }
+
+  async size(): Promise<number> {
+    return (await this.ownKeys()).length;
+  }
+
+  private async ownKeys(): Promise<string[]> {
+    const recencyKey = this.config.prefix + RECENCY_KEY;
+    return (await this.storage.keys()).filter(
+      (key) => key.startsWith(this.config.prefix) && key !== recencyKey
+    );
+  }
+
+  // Move keys to the most recently used end
+  private touch(recency: string[], keys: string[]): void {
+    for (const key of keys) {
+      const index = recency.indexOf(key);
+      if (index !== -1) recency.splice(index, 1);
+      recency.push(key);
+    }
+  }
+
+  private async loadRecency(): Promise<string[]> {
+    if (this.recency) return this.recency;
+
+    let keys: string[] | null = null;
+    try {
+      const stored: unknown = JSON.parse(
+        (await this.storage.getItem(this.config.prefix + RECENCY_KEY)) ?? 'null'
+      );
+      if (Array.isArray(stored)) {
+        keys = stored.filter((key): key is string => typeof key === 'string');
+      }
+    } catch {
+      // Rebuilt from the stored entries below
+    }
+
+    // Entries stored without a recency order count as least recently used
+    const stored = (await this.ownKeys()).map((key) =>
+      key.slice(this.config.prefix.length)
+    );
+    const known = new Set(keys ?? []);
+    const present = new Set(stored);
+    this.recency = [
+      ...stored.filter((key) => !known.has(key)),
+      ...(keys ?? []).filter((key) => present.has(key)),
+    ];
+    return this.recency;
+  }
+
+  private async saveRecency(): Promise<void> {
+    try {
+      await this.storage.setItem(
+        this.config.prefix + RECENCY_KEY,
+        JSON.stringify(this.recency ?? [])
+      );
+    } catch {
+      // Storage quota exceeded; the order is rebuilt on the next load
+    }
+  }
+}
@@ -0,0 +1,627 @@
+/**
+ * HNSW Vector Store
+ * In-memory approximate nearest neighbour index based on hierarchical
+ * navigable small world graphs
+ */
+
+import {
+  DEFAULT_VECTOR_NAMESPACE,
+  computeSimilarity,
+  matchesMetadataFilter,
+  type VectorMatch,
+  type VectorQuery,
+  type VectorRecord,
+  type VectorSimilarityMetric,
+  type VectorStore,
+  type MetadataFilter,
+} from './VectorStore';
+
+/**
+ * HNSW vector store configuration
+ */
+export interface HNSWVectorStoreConfig {
+  metric: VectorSimilarityMetric;
+  m: number; // Max connections per node on upper layers
+  efConstruction: number; // Candidate list size while inserting
+  efSearch: number; // Candidate list size while querying
+  exactSearchThreshold: number; // Below this size queries scan every record
+}
+
+/**
+ * Serialized HNSW store snapshot
+ */
+export interface HNSWSnapshot {
+  version: 1;
+  config: HNSWVectorStoreConfig;
+  namespaces: Record<
+    string,
+    {
+      entryPoint: string | null;
+      maxLevel: number;
+      nodes: Array<{
+        record: VectorRecord;
+        level: number;
+        neighbors: string[][];
+      }>;
+    }
+  >;
+}
+
+/**
+ * Graph node
+ */
+interface HNSWNode {
+  record: VectorRecord;
+  level: number;
+  neighbors: string[][]; // Neighbor ids per layer
+  inbound: Array<Set<string>>; // Ids of nodes linking here, per layer
+}
+
+/**
+ * Graph for a single namespace
+ */
+interface HNSWGraph {
+  nodes: Map<string, HNSWNode>;
+  entryPoint: string | null;
+  maxLevel: number;
+}
+
+/**
+ * Candidate used during graph traversal
+ */
+interface Candidate {
+  id: string;
+  score: number;
+}
+
+export const DEFAULT_HNSW_CONFIG: HNSWVectorStoreConfig = {
+  metric: 'cosine',
+  m: 16,
+  efConstruction: 200,
+  efSearch: 64,
+  exactSearchThreshold: 256,
+};
+
+/**
+ * HNSW Vector Store Implementation
+ */
+export class HNSWVectorStore implements VectorStore {
+  readonly name = 'hnsw';
+  private config: HNSWVectorStoreConfig;
+  private graphs = new Map<string, HNSWGraph>();
+  private levelMultiplier: number;
+
+  constructor(config: Partial<HNSWVectorStoreConfig> = {}) {
+    this.config = { ...DEFAULT_HNSW_CONFIG, ...config };
+    this.levelMultiplier = 1 / Math.log(Math.max(2, this.config.m));
+  }
+
+  /**
+   * Restore a store from a snapshot
+   */
+  static fromSnapshot(snapshot: HNSWSnapshot): HNSWVectorStore {
+    const store = new HNSWVectorStore(snapshot.config);
+
+    for (const [namespace, data] of Object.entries(snapshot.namespaces)) {
+      const graph: HNSWGraph = {
+        nodes: new Map(),
+        entryPoint: data.entryPoint,
+        maxLevel: data.maxLevel,
+      };
+      for (const node of data.nodes) {
+        graph.nodes.set(node.record.id, {
+          record: node.record,
+          level: node.level,
+          neighbors: node.neighbors.map((layer) => [...layer]),
+          inbound: node.neighbors.map(() => new Set<string>()),
+        });
+      }
+      for (const node of graph.nodes.values()) {
+        node.neighbors.forEach((links, layer) => {
+          for (const linkId of links) {
+            graph.nodes.get(linkId)?.inbound[layer]?.add(node.record.id);
+          }
+        });
+      }
+      store.graphs.set(namespace, graph);
+    }
+
+    return store;
+  }
+
+  /**
+   * Serialize the store so it can be persisted and restored later
+   */
+  serialize(): HNSWSnapshot {
+    const namespaces: HNSWSnapshot['namespaces'] = {};
+
+    for (const [namespace, graph] of this.graphs) {
+      namespaces[namespace] = {
+        entryPoint: graph.entryPoint,
+        maxLevel: graph.maxLevel,
+        nodes: Array.from(graph.nodes.values()).map((node) => ({
+          record: node.record,
+          level: node.level,
+          neighbors: node.neighbors.map((layer) => [...layer]),
+        })),
+      };
+    }
+
+    return { version: 1, config: { ...this.config }, namespaces };
+  }
+
+  async upsert(
+    records: VectorRecord[],
+    namespace = DEFAULT_VECTOR_NAMESPACE
+  ): Promise<void> {
+    const graph = this.getGraph(namespace, true)!;
+
+    for (const record of records) {
+      if (graph.nodes.has(record.id)) {
+        this.removeNode(graph, record.id);
+      }
+      this.insertNode(graph, {
+        ...record,
+        vector: [...record.vector],
+        metadata: { ...record.metadata },
+      });
+    }
+  }
+
+  async delete(
+    ids: string[],
+    namespace = DEFAULT_VECTOR_NAMESPACE
+  ): Promise<number> {
+    const graph = this.getGraph(namespace);
+    if (!graph) return 0;
+
+    let deleted = 0;
+    for (const id of ids) {
+      if (this.removeNode(graph, id)) deleted++;
+    }
+    this.pruneEmptyGraph(namespace, graph);
+    return deleted;
+  }
+
+  async deleteByFilter(
+    filter: MetadataFilter,
+    namespace?: string
+  ): Promise<number> {
+    let deleted = 0;
+
+    for (const [name, graph] of this.getTargetGraphs(namespace)) {
+      const ids = Array.from(graph.nodes.values())
+        .filter((node) => matchesMetadataFilter(node.record.metadata, filter))
+        .map((node) => node.record.id);
+
+      for (const id of ids) {
+        if (this.removeNode(graph, id)) deleted++;
+      }
+      this.pruneEmptyGraph(name, graph);
+    }
+
+    return deleted;
+  }
+
+  async deleteNamespace(namespace: string): Promise<void> {
+    this.graphs.delete(namespace);
+  }
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
+    if (query.topK <= 0) return [];
+
+    const matches: VectorMatch[] = [];
+
+    for (const [namespace, graph] of this.getTargetGraphs(query.namespace)) {
+      const candidates =
+        graph.nodes.size <= this.config.exactSearchThreshold
+          ? this.exactSearch(graph, query)
+          : this.approximateSearch(graph, query);
+
+      for (const candidate of candidates) {
+        const node = graph.nodes.get(candidate.id)!;
+        const match: VectorMatch = {
+          id: node.record.id,
+          namespace,
+          score: candidate.score,
+          metadata: { ...node.record.metadata },
+        };
+        if (node.record.content !== undefined) {
+          match.content = node.record.content;
+        }
+        if (query.includeVectors) {
+          match.vector = [...node.record.vector];
+        }
+        matches.push(match);
+      }
+    }
+
+    return matches
+      .filter(
+        (match) => query.minScore === undefined || match.score >= query.minScore
+      )
+      .sort((a, b) => b.score - a.score)
+      .slice(0, query.topK);
+  }
+
+  async listNamespaces(): Promise<string[]> {
+    return Array.from(this.graphs.keys());
+  }
+
+  async count(namespace?: string): Promise<number> {
+    let total = 0;
+    for (const [, graph] of this.getTargetGraphs(namespace)) {
+      total += graph.nodes.size;
+    }
+    return total;
+  }
+
+  /**
+   * Get graph for a namespace, optionally creating it
+   */
+  private getGraph(namespace: string, create = false): HNSWGraph | undefined {
+    let graph = this.graphs.get(namespace);
+    if (!graph && create) {
+      graph = { nodes: new Map(), entryPoint: null, maxLevel: -1 };
+      this.graphs.set(namespace, graph);
+    }
+    return graph;
+  }
+
+  /**
+   * Resolve the graphs a query or delete should touch
+   */
+  private getTargetGraphs(namespace?: string): Array<[string, HNSWGraph]> {
+    if (namespace === undefined) {
+      return Array.from(this.graphs.entries());
+    }
+    const graph = this.graphs.get(namespace);
+    return graph ? [[namespace, graph]] : [];
+  }
+
+  private pruneEmptyGraph(namespace: string, graph: HNSWGraph): void {
+    if (graph.nodes.size === 0) {
+      this.graphs.delete(namespace);
+    }
+  }
+
+  private similarity(a: number[], b: number[]): number {
+    return computeSimilarity(a, b, this.config.metric);
+  }
+
+  private maxConnections(layer: number): number {
+    return layer === 0 ? this.config.m * 2 : this.config.m;
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - Math.random()) * this.levelMultiplier);
+  }
+
+  /**
+   * Scan every record; used for small graphs and as a filtered fallback
+   */
+  private exactSearch(graph: HNSWGraph, query: VectorQuery): Candidate[] {
+    const candidates: Candidate[] = [];
+
+    for (const node of graph.nodes.values()) {
+      if (!matchesMetadataFilter(node.record.metadata, query.filter)) continue;
+      candidates.push({
+        id: node.record.id,
+        score: this.similarity(query.vector, node.record.vector),
+      });
+    }
+
+    return candidates.sort((a, b) => b.score - a.score).slice(0, query.topK);
+  }
+
+  /**
+   * Greedy descent through the upper layers followed by a beam search on the
+   * bottom layer. With a filter, the beam is widened until enough matches are
+   * found or the whole graph has been visited.
+   */
+  private approximateSearch(graph: HNSWGraph, query: VectorQuery): Candidate[] {
+    if (!graph.entryPoint) return [];
+
+    let entry: Candidate = {
+      id: graph.entryPoint,
+      score: this.similarity(
+        query.vector,
+        graph.nodes.get(graph.entryPoint)!.record.vector
+      ),
+    };
+
+    for (let layer = graph.maxLevel; layer > 0; layer--) {
+      entry = this.searchLayer(graph, query.vector, [entry], 1, layer)[0]!;
+    }
+
+    let ef = Math.max(this.config.efSearch, query.topK);
+    for (;;) {
+      const results = this.searchLayer(graph, query.vector, [entry], ef, 0)
+        .filter((candidate) =>
+          matchesMetadataFilter(
+            graph.nodes.get(candidate.id)!.record.metadata,
+            query.filter
+          )
+        )
+        .slice(0, query.topK);
+
+      if (
+        results.length >= query.topK ||
+        !query.filter ||
+        ef >= graph.nodes.size
+      ) {
+        return results;
+      }
+
+      ef *= 2;
+      if (ef >= graph.nodes.size) {
+        return this.exactSearch(graph, query);
+      }
+    }
+  }
+
+  /**
+   * Beam search within a single layer, returning candidates best-first
+   */
+  private searchLayer(
+    graph: HNSWGraph,
+    vector: number[],
+    entryPoints: Candidate[],
+    ef: number,
+    layer: number
+  ): Candidate[] {
+    const visited = new Set(entryPoints.map((candidate) => candidate.id));
+    const frontier = [...entryPoints];
+    const results = [...entryPoints].sort((a, b) => b.score - a.score);
+
+    while (frontier.length > 0) {
+      frontier.sort((a, b) => b.score - a.score);
+      const current = frontier.shift()!;
+      const worst = results[results.length - 1]!;
+
+      if (results.length >= ef && current.score < worst.score) break;
+
+      const neighbors = graph.nodes.get(current.id)?.neighbors[layer] ?? [];
+      for (const neighborId of neighbors) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const neighbor = graph.nodes.get(neighborId);
+        if (!neighbor) continue;
+
+        const candidate = {
+          id: neighborId,
+          score: this.similarity(vector, neighbor.record.vector),
+        };
+        const currentWorst = results[results.length - 1]!;
+
+        if (results.length < ef || candidate.score > currentWorst.score) {
+          frontier.push(candidate);
+          results.push(candidate);
+          results.sort((a, b) => b.score - a.score);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Keep the closest candidates, preferring ones that are not already
+   * covered by a closer selected neighbor (HNSW neighbor heuristic)
+   */
+  private selectNeighbors(
+    graph: HNSWGraph,
+    candidates: Candidate[],
+    limit: number
+  ): string[] {
+    const sorted = [...candidates].sort((a, b) => b.score - a.score);
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of sorted) {
+      if (selected.length >= limit) break;
+      const vector = graph.nodes.get(candidate.id)!.record.vector;
+      const dominated = selected.some(
+        (chosen) =>
+          this.similarity(vector, graph.nodes.get(chosen.id)!.record.vector) >
+          candidate.score
+      );
+      if (dominated) {
+        skipped.push(candidate);
+      } else {
+        selected.push(candidate);
+      }
+    }
+
+    // Fill remaining slots so sparse regions stay connected
+    for (const candidate of skipped) {
+      if (selected.length >= limit) break;
+      selected.push(candidate);
+    }
+
+    return selected.map((candidate) => candidate.id);
+  }
+
+  private insertNode(graph: HNSWGraph, record: VectorRecord): void {
+    const level = this.randomLevel();
+    const node: HNSWNode = {
+      record,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      inbound: Array.from({ length: level + 1 }, () => new Set<string>()),
+    };
+    graph.nodes.set(record.id, node);
+
+    if (!graph.entryPoint) {
+      graph.entryPoint = record.id;
+      graph.maxLevel = level;
+      return;
+    }
+
+    let entry: Candidate = {
+      id: graph.entryPoint,
+      score: this.similarity(
+        record.vector,
+        graph.nodes.get(graph.entryPoint)!.record.vector
+      ),
+    };
+
+    for (let layer = graph.maxLevel; layer > level; layer--) {
+      entry = this.searchLayer(graph, record.vector, [entry], 1, layer)[0]!;
+    }
+
+    let entryPoints = [entry];
+    for (let layer = Math.min(level, graph.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(
+        graph,
+        record.vector,
+        entryPoints,
+        this.config.efConstruction,
+        layer
+      ).filter((candidate) => candidate.id !== record.id);
+
+      this.setNeighbors(
+        graph,
+        node,
+        layer,
+        this.selectNeighbors(graph, candidates, this.config.m)
+      );
+
+      for (const neighborId of node.neighbors[layer]!) {
+        this.connect(graph, neighborId, record.id, layer);
+      }
+
+      entryPoints = candidates.length > 0 ? candidates : entryPoints;
+    }
+
+    if (level > graph.maxLevel) {
+      graph.maxLevel = level;
+      graph.entryPoint = record.id;
+    }
+  }
+
+  /**
+   * Add a back-link, shrinking the neighbor list if it overflows
+   */
+  private connect(
+    graph: HNSWGraph,
+    fromId: string,
+    toId: string,
+    layer: number
+  ): void {
+    const from = graph.nodes.get(fromId);
+    if (!from || !from.neighbors[layer]) return;
+
+    const links = from.neighbors[layer]!;
+    if (links.includes(toId)) return;
+
+    if (links.length < this.maxConnections(layer)) {
+      this.setNeighbors(graph, from, layer, [...links, toId]);
+      return;
+    }
+
+    this.setNeighbors(
+      graph,
+      from,
+      layer,
+      this.selectNeighbors(
+        graph,
+        [...links, toId].map((id) => ({
+          id,
+          score: this.similarity(
+            from.record.vector,
+            graph.nodes.get(id)!.record.vector
+          ),
+        })),
+        this.maxConnections(layer)
+      )
+    );
+  }
+
+  /**
+   * Replace a neighbor list, keeping the reverse links in sync
+   */
+  private setNeighbors(
+    graph: HNSWGraph,
+    node: HNSWNode,
+    layer: number,
+    links: string[]
+  ): void {
+    const id = node.record.id;
+    for (const linkId of node.neighbors[layer] ?? []) {
+      graph.nodes.get(linkId)?.inbound[layer]?.delete(id);
+    }
+    node.neighbors[layer] = links;
+    for (const linkId of links) {
+      graph.nodes.get(linkId)?.inbound[layer]?.add(id);
+    }
+  }
+
+  /**
+   * Remove a node and repair the neighbor lists that pointed at it
+   */
+  private removeNode(graph: HNSWGraph, id: string): boolean {
+    const node = graph.nodes.get(id);
+    if (!node) return false;
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      for (const linkId of node.neighbors[layer] ?? []) {
+        graph.nodes.get(linkId)?.inbound[layer]?.delete(id);
+      }
+    }
+    graph.nodes.delete(id);
+
+    // Re-link every node that pointed at the removed one, drawing
+    // replacements from its own links and the removed node's neighbors
+    for (let layer = 0; layer <= node.level; layer++) {
+      const orphaned = node.neighbors[layer] ?? [];
+
+      for (const referrerId of Array.from(node.inbound[layer] ?? [])) {
+        const referrer = graph.nodes.get(referrerId);
+        const links = referrer?.neighbors[layer];
+        if (!referrer || !links?.includes(id)) continue;
+
+        const pool = new Set(
+          [...links, ...orphaned].filter(
+            (candidateId) =>
+              candidateId !== id &&
+              candidateId !== referrerId &&
+              graph.nodes.get(candidateId)?.neighbors[layer] !== undefined
+          )
+        );
+
+        this.setNeighbors(
+          graph,
+          referrer,
+          layer,
+          this.selectNeighbors(
+            graph,
+            Array.from(pool).map((candidateId) => ({
+              id: candidateId,
+              score: this.similarity(
+                referrer.record.vector,
+                graph.nodes.get(candidateId)!.record.vector
+              ),
+            })),
+            this.maxConnections(layer)
+          )
+        );
+      }
+    }
+
+    if (graph.entryPoint === id) {
+      let nextEntry: HNSWNode | null = null;
+      for (const candidate of graph.nodes.values()) {
+        if (!nextEntry || candidate.level > nextEntry.level) {
+          nextEntry = candidate;
+        }
+      }
+      graph.entryPoint = nextEntry ? nextEntry.record.id : null;
+      graph.maxLevel = nextEntry ? nextEntry.level : -1;
+    }
+
+    return true;
+  }
+}
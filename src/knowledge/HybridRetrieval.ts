@@ -0,0 +1,145 @@
+/**
+ * Hybrid Retrieval
+ * Rank fusion and result diversification for combining lexical and
+ * semantic search
+ */
+
+/**
+ * Ranked list taking part in a fusion
+ */
+export interface RankedList<T> {
+  items: T[];
+  weight?: number;
+}
+
+/**
+ * Reciprocal rank fusion options
+ */
+export interface ReciprocalRankFusionOptions<T> {
+  getId: (item: T) => string;
+  k?: number; // Rank smoothing constant
+}
+
+/**
+ * Item scored by reciprocal rank fusion
+ */
+export interface FusedResult<T> {
+  id: string;
+  item: T;
+  score: number;
+  ranks: Array<number | null>; // 1-based rank in each input list
+}
+
+/**
+ * Maximal marginal relevance options
+ */
+export interface MMROptions<T> {
+  topK: number;
+  lambda: number; // 1 = relevance only, 0 = diversity only
+  relevance: (item: T) => number;
+  similarity: (a: T, b: T) => number;
+  duplicateThreshold?: number; // Drop items at least this similar to a selected item
+}
+
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Fuse ranked lists with weighted reciprocal rank fusion.
+ * An item's score is the sum of `weight / (k + rank)` across the lists it
+ * appears in. Items keep the instance from the first list that returned them.
+ */
+export function reciprocalRankFusion<T>(
+  lists: RankedList<T>[],
+  options: ReciprocalRankFusionOptions<T>
+): FusedResult<T>[] {
+  const k = options.k ?? DEFAULT_RRF_K;
+  const fused = new Map<string, FusedResult<T>>();
+
+  lists.forEach((list, listIndex) => {
+    const weight = list.weight ?? 1;
+    const seen = new Set<string>();
+
+    list.items.forEach((item, index) => {
+      const id = options.getId(item);
+      if (seen.has(id)) return;
+      seen.add(id);
+
+      let entry = fused.get(id);
+      if (!entry) {
+        entry = {
+          id,
+          item,
+          score: 0,
+          ranks: lists.map(() => null),
+        };
+        fused.set(id, entry);
+      }
+
+      entry.ranks[listIndex] = index + 1;
+      entry.score += weight / (k + index + 1);
+    });
+  });
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Select items that balance relevance against similarity to items already
+ * selected
+ */
+export function maximalMarginalRelevance<T>(
+  candidates: T[],
+  options: MMROptions<T>
+): T[] {
+  const remaining = [...candidates];
+  const selected: T[] = [];
+
+  while (selected.length < options.topK && remaining.length > 0) {
+    let bestIndex = -1;
+    let bestScore = -Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const candidate = remaining[i]!;
+      const redundancy = selected.reduce(
+        (max, item) => Math.max(max, options.similarity(candidate, item)),
+        0
+      );
+
+      if (
+        options.duplicateThreshold !== undefined &&
+        selected.length > 0 &&
+        redundancy >= options.duplicateThreshold
+      ) {
+        continue;
+      }
+
+      const score =
+        options.lambda * options.relevance(candidate) -
+        (1 - options.lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    }
+
+    if (bestIndex === -1) break;
+    selected.push(remaining.splice(bestIndex, 1)[0]!);
+  }
+
+  return selected;
+}
+
+/**
+ * Jaccard similarity of two term lists
+ */
+export function termOverlapSimilarity(a: string[], b: string[]): number {
+  const left = new Set(a);
+  const right = new Set(b);
+  if (left.size === 0 && right.size === 0) return 0;
+
+  let intersection = 0;
+  for (const term of left) {
+    if (right.has(term)) intersection++;
+  }
+  return intersection / (left.size + right.size - intersection);
+}
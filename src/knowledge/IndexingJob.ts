@@ -0,0 +1,299 @@
+/**
+ * Indexing Job
+ * Resumable background indexing over a list of documents. Job state is
+ * saved after every document so an interrupted job continues where it
+ * stopped instead of starting over.
+ */
+
+import type { KeyValueStorage } from './EmbeddingCache';
+
+export type IndexingJobStatus =
+  | 'pending'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Document queued for indexing
+ */
+export interface IndexingTask {
+  knowledgeBaseId: string;
+  documentId: string;
+}
+
+/**
+ * Outcome of indexing one document
+ */
+export interface IndexingTaskResult {
+  embeddedChunks: number; // Chunks sent to the embedding model
+  reusedChunks: number; // Chunks whose content hash matched an existing embedding
+}
+
+/**
+ * Serializable job state
+ */
+export interface IndexingJobState {
+  id: string;
+  status: IndexingJobStatus;
+  tasks: IndexingTask[];
+  nextTask: number; // Index of the first task not yet processed
+  failures: Array<IndexingTask & { error: string }>;
+  embeddedChunks: number;
+  reusedChunks: number;
+  force: boolean; // Re-embed every chunk, ignoring content hashes
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Persistence for job state
+ */
+export interface IndexingJobStore {
+  load(id: string): Promise<IndexingJobState | null>;
+  save(state: IndexingJobState): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<IndexingJobState[]>;
+}
+
+/**
+ * Callbacks that perform the work of a job
+ */
+export interface IndexingJobHandlers {
+  runTask: (
+    task: IndexingTask,
+    options: { force: boolean }
+  ) => Promise<IndexingTaskResult>;
+  onProgress?: (state: IndexingJobState) => void;
+}
+
+/**
+ * Percentage of tasks processed
+ */
+export function getIndexingJobProgress(
+  state: IndexingJobState,
+  knowledgeBaseId?: string
+): number {
+  const indices = state.tasks
+    .map((task, index) => ({ task, index }))
+    .filter(
+      ({ task }) =>
+        knowledgeBaseId === undefined ||
+        task.knowledgeBaseId === knowledgeBaseId
+    );
+  if (indices.length === 0) return 100;
+
+  const done = indices.filter(({ index }) => index < state.nextTask).length;
+  return (done / indices.length) * 100;
+}
+
+/**
+ * In-memory job store
+ */
+export class MemoryIndexingJobStore implements IndexingJobStore {
+  private jobs = new Map<string, IndexingJobState>();
+
+  async load(id: string): Promise<IndexingJobState | null> {
+    const state = this.jobs.get(id);
+    return state ? cloneState(state) : null;
+  }
+
+  async save(state: IndexingJobState): Promise<void> {
+    this.jobs.set(state.id, cloneState(state));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+
+  async list(): Promise<IndexingJobState[]> {
+    return [...this.jobs.values()].map(cloneState);
+  }
+}
+
+/**
+ * Job store persisted to key-value storage such as localStorage
+ */
+export class StorageIndexingJobStore implements IndexingJobStore {
+  constructor(
+    private storage: KeyValueStorage,
+    private prefix = 'conciergus:indexing-job:'
+  ) {}
+
+  async load(id: string): Promise<IndexingJobState | null> {
+    const stored = await this.storage.getItem(this.prefix + id);
+    if (stored === null) return null;
+
+    try {
+      return JSON.parse(stored) as IndexingJobState;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(state: IndexingJobState): Promise<void> {
+    await this.storage.setItem(this.prefix + state.id, JSON.stringify(state));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.storage.removeItem(this.prefix + id);
+  }
+
+  async list(): Promise<IndexingJobState[]> {
+    const keys = (await this.storage.keys()).filter((key) =>
+      key.startsWith(this.prefix)
+    );
+    const states = await Promise.all(
+      keys.map((key) => this.load(key.slice(this.prefix.length)))
+    );
+    return states.filter((state): state is IndexingJobState => state !== null);
+  }
+}
+
+function cloneState(state: IndexingJobState): IndexingJobState {
+  return {
+    ...state,
+    tasks: state.tasks.map((task) => ({ ...task })),
+    failures: state.failures.map((failure) => ({ ...failure })),
+  };
+}
+
+export class IndexingJob {
+  private state: IndexingJobState;
+  private stopRequested: 'paused' | 'cancelled' | null = null;
+  private running: Promise<IndexingJobState> | null = null;
+
+  constructor(
+    state: IndexingJobState,
+    private store: IndexingJobStore,
+    private handlers: IndexingJobHandlers
+  ) {
+    this.state = cloneState(state);
+  }
+
+  /**
+   * Create the initial state for a new job
+   */
+  static createState(
+    tasks: IndexingTask[],
+    options: { force?: boolean; id?: string } = {}
+  ): IndexingJobState {
+    const now = new Date().toISOString();
+    return {
+      id:
+        options.id ??
+        `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      status: 'pending',
+      tasks,
+      nextTask: 0,
+      failures: [],
+      embeddedChunks: 0,
+      reusedChunks: 0,
+      force: options.force ?? false,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  get id(): string {
+    return this.state.id;
+  }
+
+  getState(): IndexingJobState {
+    return cloneState(this.state);
+  }
+
+  /**
+   * Process remaining tasks. Resolves with the final state once the job
+   * completes, is paused or is cancelled. Calling run while the job is
+   * already running returns the same promise.
+   */
+  run(): Promise<IndexingJobState> {
+    if (!this.running) {
+      this.running = this.process().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Stop after the current document; run() resumes later
+   */
+  pause(): void {
+    if (this.running) this.stopRequested = 'paused';
+  }
+
+  /**
+   * Stop after the current document and discard the rest of the queue
+   */
+  cancel(): void {
+    if (this.running) {
+      this.stopRequested = 'cancelled';
+    } else if (this.state.status !== 'completed') {
+      this.state.status = 'cancelled';
+    }
+  }
+
+  private async process(): Promise<IndexingJobState> {
+    if (
+      this.state.status === 'completed' ||
+      this.state.status === 'cancelled'
+    ) {
+      return this.getState();
+    }
+
+    this.stopRequested = null;
+    await this.update({ status: 'running' });
+
+    while (this.state.nextTask < this.state.tasks.length) {
+      if (this.stopRequested) {
+        await this.update({ status: this.stopRequested });
+        return this.getState();
+      }
+
+      const task = this.state.tasks[this.state.nextTask]!;
+      try {
+        const result = await this.handlers.runTask(task, {
+          force: this.state.force,
+        });
+        await this.update({
+          nextTask: this.state.nextTask + 1,
+          embeddedChunks: this.state.embeddedChunks + result.embeddedChunks,
+          reusedChunks: this.state.reusedChunks + result.reusedChunks,
+        });
+      } catch (error) {
+        await this.update({
+          nextTask: this.state.nextTask + 1,
+          failures: [
+            ...this.state.failures,
+            {
+              ...task,
+              error: error instanceof Error ? error.message : String(error),
+            },
+          ],
+        });
+      }
+    }
+
+    await this.update({
+      status:
+        this.state.failures.length > 0 &&
+        this.state.failures.length === this.state.tasks.length
+          ? 'failed'
+          : 'completed',
+    });
+    return this.getState();
+  }
+
+  private async update(changes: Partial<IndexingJobState>): Promise<void> {
+    this.state = {
+      ...this.state,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.store.save(this.state);
+    this.handlers.onProgress?.(this.getState());
+  }
+}
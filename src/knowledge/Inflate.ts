@@ -0,0 +1,360 @@
+/**
+ * Inflate
+ * Dependency-free DEFLATE decoder and ZIP reader used by the document
+ * extractors (PDF FlateDecode streams and DOCX archives)
+ */
+
+/**
+ * Huffman decoding table
+ */
+interface HuffmanTree {
+  counts: Uint16Array; // Number of codes of each length
+  symbols: Uint16Array; // Symbols ordered by code
+}
+
+/**
+ * Entry in a ZIP archive
+ */
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  size: number;
+  read(): Uint8Array;
+}
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+/**
+ * Default cap on decompressed output, so small inputs cannot expand without
+ * bound
+ */
+const DEFAULT_MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+function buildTree(lengths: ArrayLike<number>, count: number): HuffmanTree {
+  const counts = new Uint16Array(16);
+  const symbols = new Uint16Array(count);
+  const offsets = new Uint16Array(16);
+
+  for (let i = 0; i < count; i++) counts[lengths[i]!]!++;
+  counts[0] = 0;
+
+  for (let i = 1; i < 16; i++) offsets[i] = offsets[i - 1]! + counts[i - 1]!;
+  for (let i = 0; i < count; i++) {
+    if (lengths[i]) symbols[offsets[lengths[i]!]!++] = i;
+  }
+
+  return { counts, symbols };
+}
+
+let fixedTrees: { literal: HuffmanTree; distance: HuffmanTree } | null = null;
+
+function getFixedTrees(): { literal: HuffmanTree; distance: HuffmanTree } {
+  if (!fixedTrees) {
+    const lengths = new Uint8Array(288);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    fixedTrees = {
+      literal: buildTree(lengths, 288),
+      distance: buildTree(new Uint8Array(30).fill(5), 30),
+    };
+  }
+  return fixedTrees;
+}
+
+class Inflater {
+  private position = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+  private output: Uint8Array;
+  private length = 0;
+
+  constructor(
+    private input: Uint8Array,
+    private maxOutputBytes: number
+  ) {
+    this.output = new Uint8Array(
+      Math.min(Math.max(1024, input.length * 4), maxOutputBytes)
+    );
+  }
+
+  run(): Uint8Array {
+    let last = 0;
+    while (!last) {
+      last = this.bits(1);
+      const type = this.bits(2);
+
+      if (type === 0) this.stored();
+      else if (type === 1) {
+        const { literal, distance } = getFixedTrees();
+        this.block(literal, distance);
+      } else if (type === 2) this.dynamic();
+      else throw new Error('Invalid deflate block type');
+    }
+
+    return this.output.subarray(0, this.length);
+  }
+
+  private bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.input.length) {
+        throw new Error('Unexpected end of deflate stream');
+      }
+      this.bitBuffer |= this.input[this.position++]! << this.bitCount;
+      this.bitCount += 8;
+    }
+
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  private decode(tree: HuffmanTree): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+
+    for (let length = 1; length < 16; length++) {
+      code |= this.bits(1);
+      const count = tree.counts[length]!;
+      if (code - first < count) return tree.symbols[index + code - first]!;
+      index += count;
+      first += count;
+      first <<= 1;
+      code <<= 1;
+    }
+
+    throw new Error('Invalid Huffman code');
+  }
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.output.length) return;
+    if (this.length + extra > this.maxOutputBytes) {
+      throw new Error(
+        `Inflated data exceeds the ${this.maxOutputBytes} byte limit`
+      );
+    }
+    const next = new Uint8Array(
+      Math.min(
+        Math.max(this.output.length * 2, this.length + extra),
+        this.maxOutputBytes
+      )
+    );
+    next.set(this.output.subarray(0, this.length));
+    this.output = next;
+  }
+
+  private stored(): void {
+    // Skip to byte boundary
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+
+    if (this.position + 4 > this.input.length) {
+      throw new Error('Unexpected end of deflate stream');
+    }
+    const length =
+      this.input[this.position]! | (this.input[this.position + 1]! << 8);
+    this.position += 4;
+
+    if (this.position + length > this.input.length) {
+      throw new Error('Unexpected end of deflate stream');
+    }
+    this.ensure(length);
+    this.output.set(
+      this.input.subarray(this.position, this.position + length),
+      this.length
+    );
+    this.length += length;
+    this.position += length;
+  }
+
+  private dynamic(): void {
+    const literalCount = this.bits(5) + 257;
+    const distanceCount = this.bits(5) + 1;
+    const codeLengthCount = this.bits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengths[CODE_LENGTH_ORDER[i]!] = this.bits(3);
+    }
+    const codeTree = buildTree(codeLengths, 19);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    for (let i = 0; i < literalCount + distanceCount; ) {
+      const symbol = this.decode(codeTree);
+
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+
+      let repeat = 0;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) throw new Error('Invalid code length repeat');
+        value = lengths[i - 1]!;
+        repeat = 3 + this.bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.bits(3);
+      } else {
+        repeat = 11 + this.bits(7);
+      }
+
+      if (i + repeat > lengths.length) {
+        throw new Error('Invalid code length repeat');
+      }
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+
+    this.block(
+      buildTree(lengths.subarray(0, literalCount), literalCount),
+      buildTree(lengths.subarray(literalCount), distanceCount)
+    );
+  }
+
+  private block(literal: HuffmanTree, distance: HuffmanTree): void {
+    for (;;) {
+      const symbol = this.decode(literal);
+
+      if (symbol === 256) return;
+      if (symbol < 256) {
+        this.ensure(1);
+        this.output[this.length++] = symbol;
+        continue;
+      }
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new Error('Invalid length symbol');
+      }
+      const length =
+        LENGTH_BASE[lengthIndex]! + this.bits(LENGTH_EXTRA[lengthIndex]!);
+
+      const distanceIndex = this.decode(distance);
+      if (distanceIndex >= DISTANCE_BASE.length) {
+        throw new Error('Invalid distance symbol');
+      }
+      const offset =
+        DISTANCE_BASE[distanceIndex]! +
+        this.bits(DISTANCE_EXTRA[distanceIndex]!);
+      if (offset > this.length) throw new Error('Invalid distance');
+
+      this.ensure(length);
+      for (let i = 0; i < length; i++) {
+        this.output[this.length] = this.output[this.length - offset]!;
+        this.length++;
+      }
+    }
+  }
+}
+
+/**
+ * Decompress raw DEFLATE data, failing once the output would exceed
+ * `maxOutputBytes`
+ */
+export function inflateRaw(
+  data: Uint8Array,
+  maxOutputBytes = DEFAULT_MAX_OUTPUT_BYTES
+): Uint8Array {
+  return new Inflater(data, maxOutputBytes).run();
+}
+
+/**
+ * Decompress zlib-wrapped DEFLATE data, as used by PDF FlateDecode streams
+ */
+export function inflate(
+  data: Uint8Array,
+  maxOutputBytes = DEFAULT_MAX_OUTPUT_BYTES
+): Uint8Array {
+  if (data.length < 2 || (data[0]! & 0x0f) !== 8) {
+    throw new Error('Invalid zlib header');
+  }
+  const hasDictionary = (data[1]! & 0x20) !== 0;
+  return inflateRaw(data.subarray(hasDictionary ? 6 : 2), maxOutputBytes);
+}
+
+/**
+ * List the entries of a ZIP archive. Entry contents are decompressed lazily,
+ * and reading an entry fails if it holds more than its declared size.
+ */
+export function readZipEntries(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record sits in the last 64KB + 22 bytes
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('Invalid ZIP archive');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Invalid ZIP central directory');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      data.subarray(offset + 46, offset + 46 + nameLength)
+    );
+
+    entries.push({
+      name,
+      compressedSize,
+      size,
+      read: () => {
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const start = localOffset + 30 + localNameLength + localExtraLength;
+        const raw = data.subarray(start, start + compressedSize);
+
+        if (method === 0) {
+          if (raw.length > size) {
+            throw new Error(`ZIP entry ${name} exceeds its declared size`);
+          }
+          return raw;
+        }
+        if (method === 8) return inflateRaw(raw, size);
+        throw new Error(`Unsupported ZIP compression method ${method}`);
+      },
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
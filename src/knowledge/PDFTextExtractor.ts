@@ -0,0 +1,1040 @@
+/**
+ * PDF Text Extractor
+ * Minimal PDF parser that pulls page text out of content streams without
+ * third-party dependencies. Supports FlateDecode, ASCIIHex and ASCII85
+ * streams, object streams and ToUnicode font maps. Scanned PDFs without a
+ * text layer yield empty pages.
+ */
+
+import { inflate } from './Inflate';
+
+/**
+ * Text extracted from a PDF
+ */
+export interface PDFTextContent {
+  pages: string[];
+  title?: string;
+  author?: string;
+}
+
+type PDFValue =
+  | number
+  | boolean
+  | null
+  | PDFName
+  | PDFString
+  | PDFRef
+  | PDFDict
+  | PDFOperator
+  | PDFValue[];
+
+interface PDFName {
+  kind: 'name';
+  value: string;
+}
+
+interface PDFString {
+  kind: 'string';
+  bytes: number[];
+  hex: boolean;
+}
+
+interface PDFRef {
+  kind: 'ref';
+  num: number;
+}
+
+interface PDFDict {
+  kind: 'dict';
+  entries: Record<string, PDFValue>;
+}
+
+interface PDFOperator {
+  kind: 'op';
+  value: string;
+}
+
+interface PDFObjectEntry {
+  source: string;
+  start: number; // Offset of the object body in source
+  end: number;
+  value?: PDFValue;
+  streamStart?: number; // Offset of raw stream data in source
+}
+
+/**
+ * Decoder for strings shown with a font
+ */
+interface FontDecoder {
+  decode(bytes: number[]): string;
+}
+
+const WHITESPACE = /[\0\t\n\f\r ]/;
+const DELIMITERS = /[()<>[\]{}/%]/;
+
+// Windows-1252 code points for the 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x80: 0x20ac,
+  0x82: 0x201a,
+  0x83: 0x0192,
+  0x84: 0x201e,
+  0x85: 0x2026,
+  0x86: 0x2020,
+  0x87: 0x2021,
+  0x88: 0x02c6,
+  0x89: 0x2030,
+  0x8a: 0x0160,
+  0x8b: 0x2039,
+  0x8c: 0x0152,
+  0x8e: 0x017d,
+  0x91: 0x2018,
+  0x92: 0x2019,
+  0x93: 0x201c,
+  0x94: 0x201d,
+  0x95: 0x2022,
+  0x96: 0x2013,
+  0x97: 0x2014,
+  0x98: 0x02dc,
+  0x99: 0x2122,
+  0x9a: 0x0161,
+  0x9b: 0x203a,
+  0x9c: 0x0153,
+  0x9e: 0x017e,
+  0x9f: 0x0178,
+};
+
+const SINGLE_BYTE_DECODER: FontDecoder = {
+  decode: (bytes) =>
+    String.fromCharCode(...bytes.map((byte) => WIN_ANSI_EXTRAS[byte] ?? byte)),
+};
+
+// ============================================================================
+// LEXER
+// ============================================================================
+
+/**
+ * Tokenizer and object parser for PDF syntax
+ */
+class PDFLexer {
+  position: number;
+
+  constructor(
+    private source: string,
+    start = 0,
+    private end = source.length
+  ) {
+    this.position = start;
+  }
+
+  /**
+   * Parse the next complete value, or null at the end of input
+   */
+  nextValue(): PDFValue | undefined {
+    this.skipWhitespace();
+    if (this.position >= this.end) return undefined;
+
+    const char = this.source[this.position]!;
+
+    if (char === '[') {
+      this.position++;
+      const items: PDFValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (this.position >= this.end) return items;
+        if (this.source[this.position] === ']') {
+          this.position++;
+          return items;
+        }
+        const item = this.nextValue();
+        if (item === undefined) return items;
+        items.push(item);
+      }
+    }
+
+    if (char === '<' && this.source[this.position + 1] === '<') {
+      this.position += 2;
+      const entries: Record<string, PDFValue> = {};
+      for (;;) {
+        this.skipWhitespace();
+        if (this.position >= this.end) break;
+        if (
+          this.source[this.position] === '>' &&
+          this.source[this.position + 1] === '>'
+        ) {
+          this.position += 2;
+          break;
+        }
+        const key = this.nextValue();
+        if (key === undefined) break;
+        if (!isName(key)) continue;
+        const value = this.nextValue();
+        if (value === undefined) break;
+        entries[key.value] = value;
+      }
+      return { kind: 'dict', entries };
+    }
+
+    if (char === '(') return this.literalString();
+    if (char === '<') return this.hexString();
+    if (char === '/') return this.name();
+
+    if (char === ']' || char === '>' || char === ')') {
+      // Stray delimiter, skip it
+      this.position++;
+      return this.nextValue();
+    }
+
+    const token = this.regularToken();
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const number = Number(token);
+      // Indirect reference: "num gen R"
+      if (/^\d+$/.test(token)) {
+        const save = this.position;
+        this.skipWhitespace();
+        const generation = this.regularToken();
+        this.skipWhitespace();
+        if (
+          /^\d+$/.test(generation) &&
+          this.source[this.position] === 'R' &&
+          this.isBoundary(this.position + 1)
+        ) {
+          this.position++;
+          return { kind: 'ref', num: number };
+        }
+        this.position = save;
+      }
+      return number;
+    }
+
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    return { kind: 'op', value: token };
+  }
+
+  skipWhitespace(): void {
+    while (this.position < this.end) {
+      const char = this.source[this.position]!;
+      if (WHITESPACE.test(char)) {
+        this.position++;
+      } else if (char === '%') {
+        while (
+          this.position < this.end &&
+          this.source[this.position] !== '\n' &&
+          this.source[this.position] !== '\r'
+        ) {
+          this.position++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  private isBoundary(index: number): boolean {
+    const char = this.source[index];
+    return char === undefined || WHITESPACE.test(char) || DELIMITERS.test(char);
+  }
+
+  private regularToken(): string {
+    const start = this.position;
+    while (this.position < this.end && !this.isBoundary(this.position)) {
+      this.position++;
+    }
+    if (this.position === start) this.position++;
+    return this.source.slice(start, this.position);
+  }
+
+  private name(): PDFName {
+    this.position++;
+    const raw = this.regularToken();
+    return {
+      kind: 'name',
+      value: raw.replace(/#([0-9a-fA-F]{2})/g, (_match, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16))
+      ),
+    };
+  }
+
+  private hexString(): PDFString {
+    this.position++;
+    const close = this.source.indexOf('>', this.position);
+    const end = close === -1 ? this.end : close;
+    let hex = this.source
+      .slice(this.position, end)
+      .replace(/[^0-9a-fA-F]/g, '');
+    this.position = end + 1;
+
+    if (hex.length % 2 === 1) hex += '0';
+    const bytes: number[] = [];
+    for (let i = 0; i < hex.length; i += 2) {
+      bytes.push(parseInt(hex.slice(i, i + 2), 16));
+    }
+    return { kind: 'string', bytes, hex: true };
+  }
+
+  private literalString(): PDFString {
+    this.position++;
+    const bytes: number[] = [];
+    let depth = 1;
+
+    while (this.position < this.end) {
+      const char = this.source[this.position++]!;
+
+      if (char === '\\') {
+        const next = this.source[this.position++];
+        switch (next) {
+          case 'n':
+            bytes.push(10);
+            break;
+          case 'r':
+            bytes.push(13);
+            break;
+          case 't':
+            bytes.push(9);
+            break;
+          case 'b':
+            bytes.push(8);
+            break;
+          case 'f':
+            bytes.push(12);
+            break;
+          case '\r':
+            if (this.source[this.position] === '\n') this.position++;
+            break;
+          case '\n':
+            break;
+          default:
+            if (next !== undefined && /[0-7]/.test(next)) {
+              let octal = next;
+              while (
+                octal.length < 3 &&
+                /[0-7]/.test(this.source[this.position] ?? '')
+              ) {
+                octal += this.source[this.position++];
+              }
+              bytes.push(parseInt(octal, 8) & 0xff);
+            } else if (next !== undefined) {
+              bytes.push(next.charCodeAt(0));
+            }
+        }
+        continue;
+      }
+
+      if (char === '(') depth++;
+      if (char === ')' && --depth === 0) break;
+      bytes.push(char.charCodeAt(0));
+    }
+
+    return { kind: 'string', bytes, hex: false };
+  }
+}
+
+function isName(value: PDFValue | undefined): value is PDFName {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.kind === 'name'
+  );
+}
+
+function isDict(value: PDFValue | undefined): value is PDFDict {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.kind === 'dict'
+  );
+}
+
+function isString(value: PDFValue | undefined): value is PDFString {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.kind === 'string'
+  );
+}
+
+function isRef(value: PDFValue | undefined): value is PDFRef {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.kind === 'ref'
+  );
+}
+
+function isOperator(value: PDFValue | undefined): value is PDFOperator {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.kind === 'op'
+  );
+}
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return result;
+}
+
+function latin1ToBytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+/**
+ * Decode a PDF text string (UTF-16BE with BOM, otherwise PDFDocEncoding)
+ */
+function decodeTextString(value: PDFValue | undefined): string | undefined {
+  if (!isString(value)) return undefined;
+  const { bytes } = value;
+
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes[i]! << 8) | bytes[i + 1]!);
+    }
+    return text;
+  }
+
+  return SINGLE_BYTE_DECODER.decode(bytes);
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+class PDFDocument {
+  private source: string;
+  private objects = new Map<number, PDFObjectEntry>();
+  private streamCache = new Map<number, Uint8Array | null>();
+  private fontCache = new Map<number, FontDecoder>();
+  private trailer: PDFDict = { kind: 'dict', entries: {} };
+
+  constructor(data: Uint8Array) {
+    this.source = bytesToLatin1(data);
+    if (!this.source.startsWith('%PDF-', this.source.indexOf('%PDF-'))) {
+      throw new Error('Not a PDF document');
+    }
+
+    this.indexObjects();
+    this.readTrailer();
+    this.indexObjectStreams();
+  }
+
+  get(value: PDFValue | undefined): PDFValue | undefined {
+    const seen = new Set<number>();
+    let current = value;
+    while (isRef(current)) {
+      if (seen.has(current.num)) return undefined;
+      seen.add(current.num);
+      current = this.getObject(current.num);
+    }
+    return current;
+  }
+
+  getDict(value: PDFValue | undefined): PDFDict | undefined {
+    const resolved = this.get(value);
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  getTrailer(): PDFDict {
+    return this.trailer;
+  }
+
+  /**
+   * Decoded stream data for an indirect stream object
+   */
+  getStream(value: PDFValue | undefined): Uint8Array | null {
+    if (!isRef(value)) return null;
+    if (this.streamCache.has(value.num)) {
+      return this.streamCache.get(value.num)!;
+    }
+
+    const entry = this.objects.get(value.num);
+    const dict = this.getDict(value);
+    let data: Uint8Array | null = null;
+
+    if (entry?.streamStart !== undefined && dict) {
+      const declared = this.get(dict.entries.Length);
+      let end =
+        typeof declared === 'number'
+          ? entry.streamStart + declared
+          : entry.source.indexOf('endstream', entry.streamStart);
+      if (end < entry.streamStart) end = entry.end;
+
+      try {
+        data = this.decodeStream(
+          latin1ToBytes(entry.source.slice(entry.streamStart, end)),
+          dict
+        );
+      } catch {
+        data = null;
+      }
+    }
+
+    this.streamCache.set(value.num, data);
+    return data;
+  }
+
+  /**
+   * Page dictionaries in reading order, with inherited resources
+   */
+  getPages(): Array<{ page: PDFDict; resources?: PDFDict }> {
+    const pages: Array<{ page: PDFDict; resources?: PDFDict }> = [];
+    const root = this.getDict(this.trailer.entries.Root);
+    const visited = new Set<PDFDict>();
+
+    const walk = (node: PDFDict | undefined, resources?: PDFDict) => {
+      if (!node || visited.has(node)) return;
+      visited.add(node);
+
+      const own = this.getDict(node.entries.Resources) ?? resources;
+      const type = this.get(node.entries.Type);
+      const kids = this.get(node.entries.Kids);
+
+      if (Array.isArray(kids) && (!isName(type) || type.value === 'Pages')) {
+        for (const kid of kids) walk(this.getDict(kid), own);
+      } else {
+        pages.push({ page: node, ...(own ? { resources: own } : {}) });
+      }
+    };
+
+    walk(this.getDict(root?.entries.Pages));
+
+    // Fall back to scanning for page objects in file order
+    if (pages.length === 0) {
+      for (const num of [...this.objects.keys()].sort((a, b) => a - b)) {
+        const dict = this.getDict({ kind: 'ref', num });
+        const type = dict && this.get(dict.entries.Type);
+        if (dict && isName(type) && type.value === 'Page') {
+          const resources = this.getDict(dict.entries.Resources);
+          pages.push({ page: dict, ...(resources ? { resources } : {}) });
+        }
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * Decoder for a font resource
+   */
+  getFontDecoder(fontValue: PDFValue | undefined): FontDecoder {
+    const cacheKey = isRef(fontValue) ? fontValue.num : undefined;
+    if (cacheKey !== undefined && this.fontCache.has(cacheKey)) {
+      return this.fontCache.get(cacheKey)!;
+    }
+
+    const font = this.getDict(fontValue);
+    let decoder = SINGLE_BYTE_DECODER;
+
+    if (font) {
+      const subtype = this.get(font.entries.Subtype);
+      const isComposite = isName(subtype) && subtype.value === 'Type0';
+      const cmap = this.getStream(font.entries.ToUnicode);
+
+      if (cmap) {
+        decoder = parseToUnicode(bytesToLatin1(cmap), isComposite ? 2 : 1);
+      } else if (isComposite) {
+        // Without a ToUnicode map two-byte codes can only be guessed at
+        decoder = {
+          decode: (bytes) => {
+            let text = '';
+            for (let i = 0; i + 1 < bytes.length; i += 2) {
+              const code = (bytes[i]! << 8) | bytes[i + 1]!;
+              if (code >= 0x20) text += String.fromCharCode(code);
+            }
+            return text;
+          },
+        };
+      }
+    }
+
+    if (cacheKey !== undefined) this.fontCache.set(cacheKey, decoder);
+    return decoder;
+  }
+
+  private getObject(num: number): PDFValue | undefined {
+    const entry = this.objects.get(num);
+    if (!entry) return undefined;
+    if (entry.value === undefined) {
+      entry.value =
+        new PDFLexer(entry.source, entry.start, entry.end).nextValue() ?? null;
+    }
+    return entry.value;
+  }
+
+  private indexObjects(): void {
+    const pattern = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(this.source))) {
+      const num = Number(match[1]);
+      const start = match.index + match[0].length;
+      let end = this.source.indexOf('endobj', start);
+      if (end === -1) end = this.source.length;
+
+      const entry: PDFObjectEntry = { source: this.source, start, end };
+      const streamMatch = /\bstream(\r\n|\n|\r)/.exec(
+        this.source.slice(start, end)
+      );
+      if (streamMatch) {
+        entry.end = start + streamMatch.index;
+        entry.streamStart = start + streamMatch.index + streamMatch[0].length;
+        // endobj can appear inside binary stream data; trust endstream instead
+        const endStream = this.source.indexOf('endstream', entry.streamStart);
+        if (endStream !== -1) {
+          const realEnd = this.source.indexOf('endobj', endStream);
+          end = realEnd === -1 ? this.source.length : realEnd;
+        }
+      }
+
+      // Later definitions win (incremental updates)
+      this.objects.set(num, entry);
+      pattern.lastIndex = end;
+    }
+  }
+
+  private readTrailer(): void {
+    const position = this.source.lastIndexOf('trailer');
+    if (position !== -1) {
+      const value = new PDFLexer(this.source, position + 7).nextValue();
+      if (isDict(value)) this.trailer = value;
+    }
+
+    // Cross-reference streams carry the trailer entries in their dictionary
+    if (!this.trailer.entries.Root) {
+      for (const num of this.objects.keys()) {
+        const dict = this.getDict({ kind: 'ref', num });
+        const type = dict && this.get(dict.entries.Type);
+        if (dict && isName(type) && type.value === 'XRef') {
+          this.trailer = dict;
+        }
+      }
+    }
+
+    if (!this.trailer.entries.Root) {
+      for (const num of this.objects.keys()) {
+        const dict = this.getDict({ kind: 'ref', num });
+        const type = dict && this.get(dict.entries.Type);
+        if (dict && isName(type) && type.value === 'Catalog') {
+          this.trailer = {
+            kind: 'dict',
+            entries: { ...this.trailer.entries, Root: { kind: 'ref', num } },
+          };
+          break;
+        }
+      }
+    }
+
+    if (this.trailer.entries.Encrypt) {
+      throw new Error('Encrypted PDF documents are not supported');
+    }
+  }
+
+  private indexObjectStreams(): void {
+    for (const num of [...this.objects.keys()]) {
+      const dict = this.getDict({ kind: 'ref', num });
+      const type = dict && this.get(dict.entries.Type);
+      if (!dict || !isName(type) || type.value !== 'ObjStm') continue;
+
+      const data = this.getStream({ kind: 'ref', num });
+      const count = this.get(dict.entries.N);
+      const first = this.get(dict.entries.First);
+      if (!data || typeof count !== 'number' || typeof first !== 'number') {
+        continue;
+      }
+
+      const text = bytesToLatin1(data);
+      const header = new PDFLexer(text, 0, first);
+      const offsets: Array<[number, number]> = [];
+      for (let i = 0; i < count; i++) {
+        const objectNumber = header.nextValue();
+        const offset = header.nextValue();
+        if (typeof objectNumber !== 'number' || typeof offset !== 'number') {
+          break;
+        }
+        offsets.push([objectNumber, offset]);
+      }
+
+      offsets.forEach(([objectNumber, offset], index) => {
+        // Objects stored directly in the file take precedence
+        if (this.objects.has(objectNumber)) return;
+        const next = offsets[index + 1];
+        this.objects.set(objectNumber, {
+          source: text,
+          start: first + offset,
+          end: next ? first + next[1] : text.length,
+        });
+      });
+    }
+  }
+
+  private decodeStream(raw: Uint8Array, dict: PDFDict): Uint8Array | null {
+    const filterValue = this.get(dict.entries.Filter);
+    const filters = (
+      Array.isArray(filterValue)
+        ? filterValue
+        : filterValue
+          ? [filterValue]
+          : []
+    ).map((filter) => this.get(filter));
+    const paramsValue = this.get(dict.entries.DecodeParms);
+    const params = Array.isArray(paramsValue) ? paramsValue : [paramsValue];
+
+    let data = raw;
+    for (let i = 0; i < filters.length; i++) {
+      const filter = filters[i];
+      if (!isName(filter)) return null;
+
+      switch (filter.value) {
+        case 'FlateDecode':
+        case 'Fl':
+          data = applyPredictor(inflate(data), this.getDict(params[i]));
+          break;
+        case 'ASCIIHexDecode':
+        case 'AHx':
+          data = decodeAsciiHex(data);
+          break;
+        case 'ASCII85Decode':
+        case 'A85':
+          data = decodeAscii85(data);
+          break;
+        default:
+          // Image and LZW filters carry no extractable text
+          return null;
+      }
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Undo PNG row predictors used with FlateDecode
+ */
+function applyPredictor(data: Uint8Array, params?: PDFDict): Uint8Array {
+  const predictor = params?.entries.Predictor;
+  if (typeof predictor !== 'number' || predictor < 10) return data;
+
+  const columnsValue = params?.entries.Columns;
+  const colorsValue = params?.entries.Colors;
+  const bitsValue = params?.entries.BitsPerComponent;
+  const columns = typeof columnsValue === 'number' ? columnsValue : 1;
+  const colors = typeof colorsValue === 'number' ? colorsValue : 1;
+  const bits = typeof bitsValue === 'number' ? bitsValue : 8;
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bits) / 8));
+  const rowLength = Math.ceil((columns * colors * bits) / 8);
+
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const output = new Uint8Array(rows * rowLength);
+  let previous = new Uint8Array(rowLength);
+
+  for (let row = 0; row < rows; row++) {
+    const type = data[row * (rowLength + 1)]!;
+    const input = data.subarray(
+      row * (rowLength + 1) + 1,
+      (row + 1) * (rowLength + 1)
+    );
+    const current = output.subarray(row * rowLength, (row + 1) * rowLength);
+
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? current[i - bytesPerPixel]! : 0;
+      const up = previous[i]!;
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel]! : 0;
+      let value = input[i]!;
+
+      if (type === 1) value += left;
+      else if (type === 2) value += up;
+      else if (type === 3) value += Math.floor((left + up) / 2);
+      else if (type === 4) {
+        const estimate = left + up - upLeft;
+        const distanceLeft = Math.abs(estimate - left);
+        const distanceUp = Math.abs(estimate - up);
+        const distanceUpLeft = Math.abs(estimate - upLeft);
+        value +=
+          distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft
+            ? left
+            : distanceUp <= distanceUpLeft
+              ? up
+              : upLeft;
+      }
+
+      current[i] = value & 0xff;
+    }
+
+    previous = current;
+  }
+
+  return output;
+}
+
+function decodeAsciiHex(data: Uint8Array): Uint8Array {
+  const text = bytesToLatin1(data)
+    .split('>')[0]!
+    .replace(/[^0-9a-fA-F]/g, '');
+  const padded = text.length % 2 ? `${text}0` : text;
+  const output = new Uint8Array(padded.length / 2);
+  for (let i = 0; i < output.length; i++) {
+    output[i] = parseInt(padded.slice(i * 2, i * 2 + 2), 16);
+  }
+  return output;
+}
+
+function decodeAscii85(data: Uint8Array): Uint8Array {
+  const text = bytesToLatin1(data)
+    .replace(/^<~/, '')
+    .split('~>')[0]!
+    .replace(/\s/g, '');
+  const output: number[] = [];
+  let group: number[] = [];
+
+  const flush = (length: number) => {
+    while (group.length < 5) group.push(84);
+    const value = group.reduce((sum, digit) => sum * 85 + digit, 0);
+    const bytes = [
+      (value >>> 24) & 0xff,
+      (value >>> 16) & 0xff,
+      (value >>> 8) & 0xff,
+      value & 0xff,
+    ];
+    output.push(...bytes.slice(0, length));
+    group = [];
+  };
+
+  for (const char of text) {
+    if (char === 'z' && group.length === 0) {
+      output.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) flush(4);
+  }
+  if (group.length > 0) flush(group.length - 1);
+
+  return new Uint8Array(output);
+}
+
+/**
+ * Parse a ToUnicode CMap into a decoder
+ */
+function parseToUnicode(cmap: string, defaultCodeLength: number): FontDecoder {
+  const mapping = new Map<number, string>();
+  let codeLength = defaultCodeLength;
+
+  const hexToText = (hex: string) => {
+    let text = '';
+    for (let i = 0; i + 3 < hex.length + 1; i += 4) {
+      text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+    }
+    return hex.length === 2 ? String.fromCharCode(parseInt(hex, 16)) : text;
+  };
+
+  const codespace = /begincodespacerange([\s\S]*?)endcodespacerange/.exec(cmap);
+  const firstRange = codespace && /<([0-9a-fA-F]+)>/.exec(codespace[1]!);
+  if (firstRange) codeLength = Math.max(1, firstRange[1]!.length / 2);
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of block[1]!.matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g
+    )) {
+      mapping.set(parseInt(pair[1]!, 16), hexToText(pair[2]!));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const range of block[1]!.matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g
+    )) {
+      const low = parseInt(range[1]!, 16);
+      const high = parseInt(range[2]!, 16);
+      const target = range[3]!;
+
+      if (target.startsWith('[')) {
+        const values = [...target.matchAll(/<([0-9a-fA-F]*)>/g)];
+        values.forEach((value, index) => {
+          if (low + index <= high)
+            mapping.set(low + index, hexToText(value[1]!));
+        });
+      } else {
+        const hex = target.slice(1, -1);
+        const base = parseInt(hex.slice(-4) || '0', 16);
+        const prefix = hexToText(hex.slice(0, -4));
+        for (let code = low; code <= high && code - low < 65536; code++) {
+          mapping.set(code, prefix + String.fromCharCode(base + code - low));
+        }
+      }
+    }
+  }
+
+  return {
+    decode: (bytes) => {
+      let text = '';
+      for (let i = 0; i < bytes.length; i += codeLength) {
+        let code = 0;
+        for (let j = 0; j < codeLength; j++)
+          code = (code << 8) | (bytes[i + j] ?? 0);
+        text +=
+          mapping.get(code) ??
+          (codeLength === 1 ? SINGLE_BYTE_DECODER.decode([code]) : '');
+      }
+      return text;
+    },
+  };
+}
+
+// ============================================================================
+// CONTENT STREAMS
+// ============================================================================
+
+/**
+ * Extract text from a page content stream
+ */
+function extractContentText(
+  content: string,
+  resolveFont: (name: string) => FontDecoder
+): string {
+  const lexer = new PDFLexer(content);
+  const operands: PDFValue[] = [];
+  let decoder = SINGLE_BYTE_DECODER;
+  let text = '';
+  let lastY: number | null = null;
+
+  const newline = () => {
+    if (text.length > 0 && !text.endsWith('\n')) text += '\n';
+  };
+  const space = () => {
+    if (text.length > 0 && !/\s$/.test(text)) text += ' ';
+  };
+  const show = (value: PDFValue | undefined) => {
+    if (isString(value)) text += decoder.decode(value.bytes);
+  };
+
+  for (;;) {
+    const value = lexer.nextValue();
+    if (value === undefined) break;
+
+    if (!isOperator(value)) {
+      operands.push(value);
+      continue;
+    }
+
+    switch (value.value) {
+      case 'BI': {
+        // Skip inline image data
+        const end = content.indexOf('EI', lexer.position);
+        lexer.position = end === -1 ? content.length : end + 2;
+        break;
+      }
+      case 'Tf': {
+        const font = operands[operands.length - 2];
+        if (isName(font)) decoder = resolveFont(font.value);
+        break;
+      }
+      case 'Tj':
+        show(operands[operands.length - 1]);
+        break;
+      case "'":
+        newline();
+        show(operands[operands.length - 1]);
+        break;
+      case '"':
+        newline();
+        show(operands[operands.length - 1]);
+        break;
+      case 'TJ': {
+        const items = operands[operands.length - 1];
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (typeof item === 'number') {
+              if (item < -200) space();
+            } else {
+              show(item);
+            }
+          }
+        }
+        break;
+      }
+      case 'Td':
+      case 'TD': {
+        const x = operands[operands.length - 2];
+        const y = operands[operands.length - 1];
+        if (typeof y === 'number' && Math.abs(y) > 0.1) newline();
+        else if (typeof x === 'number' && x > 0) space();
+        break;
+      }
+      case 'Tm': {
+        const y = operands[operands.length - 1];
+        if (typeof y === 'number') {
+          if (lastY !== null && Math.abs(y - lastY) > 0.1) newline();
+          else space();
+          lastY = y;
+        }
+        break;
+      }
+      case 'T*':
+        newline();
+        break;
+      case 'ET':
+        space();
+        break;
+    }
+
+    operands.length = 0;
+  }
+
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .filter((line, index, lines) => line.length > 0 || lines[index - 1])
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Extract page text from a PDF file
+ */
+export function extractPDFText(data: Uint8Array): PDFTextContent {
+  const document = new PDFDocument(data);
+  const pages: string[] = [];
+
+  for (const { page, resources } of document.getPages()) {
+    const fonts = document.getDict(resources?.entries.Font);
+    const resolveFont = (name: string) =>
+      document.getFontDecoder(fonts?.entries[name]);
+
+    const contents = document.get(page.entries.Contents);
+    const streams = Array.isArray(contents)
+      ? contents
+      : page.entries.Contents
+        ? [page.entries.Contents]
+        : [];
+
+    const content = streams
+      .map((stream) => document.getStream(stream))
+      .filter((stream): stream is Uint8Array => stream !== null)
+      .map(bytesToLatin1)
+      .join('\n');
+
+    pages.push(extractContentText(content, resolveFont));
+  }
+
+  const info = document.getDict(document.getTrailer().entries.Info);
+  const title = decodeTextString(document.get(info?.entries.Title))?.trim();
+  const author = decodeTextString(document.get(info?.entries.Author))?.trim();
+
+  return {
+    pages,
+    ...(title ? { title } : {}),
+    ...(author ? { author } : {}),
+  };
+}
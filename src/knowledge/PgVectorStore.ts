@@ -0,0 +1,423 @@
+/**
+ * pgvector Vector Store
+ * Persistent vector store backed by PostgreSQL with the pgvector extension
+ */
+
+import type { ConnectionManager } from '../database/ConnectionManager';
+import {
+  DEFAULT_VECTOR_NAMESPACE,
+  type MetadataFilter,
+  type MetadataFilterOperators,
+  type VectorMatch,
+  type VectorMetadata,
+  type VectorMetadataValue,
+  type VectorQuery,
+  type VectorRecord,
+  type VectorSimilarityMetric,
+  type VectorStore,
+} from './VectorStore';
+
+/**
+ * pgvector store configuration
+ */
+export interface PgVectorStoreConfig {
+  tableName: string;
+  dimensions: number;
+  metric: VectorSimilarityMetric;
+  indexType: 'hnsw' | 'ivfflat' | 'none';
+  createSchema: boolean; // Create extension, table and indexes on initialize
+  batchSize: number; // Rows per upsert statement
+}
+
+/**
+ * Row shape returned by similarity queries
+ */
+interface VectorRow {
+  id: string;
+  namespace: string;
+  content: string | null;
+  metadata: VectorMetadata | string;
+  score: number | string;
+  embedding?: string;
+}
+
+export const DEFAULT_PGVECTOR_CONFIG: Omit<PgVectorStoreConfig, 'dimensions'> =
+  {
+    tableName: 'conciergus_vectors',
+    metric: 'cosine',
+    indexType: 'hnsw',
+    createSchema: true,
+    batchSize: 100,
+  };
+
+/**
+ * pgvector distance operators and operator classes per metric
+ */
+const METRIC_OPERATORS: Record<
+  VectorSimilarityMetric,
+  { operator: string; opsClass: string }
+> = {
+  cosine: { operator: '<=>', opsClass: 'vector_cosine_ops' },
+  euclidean: { operator: '<->', opsClass: 'vector_l2_ops' },
+  dot: { operator: '<#>', opsClass: 'vector_ip_ops' },
+};
+
+/**
+ * pgvector Vector Store Implementation
+ */
+export class PgVectorStore implements VectorStore {
+  readonly name = 'pgvector';
+  private config: PgVectorStoreConfig;
+  private connection: ConnectionManager;
+  private initialized = false;
+
+  constructor(
+    connection: ConnectionManager,
+    config: Partial<PgVectorStoreConfig> & { dimensions: number }
+  ) {
+    this.connection = connection;
+    this.config = { ...DEFAULT_PGVECTOR_CONFIG, ...config };
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.config.tableName)) {
+      throw new Error(`Invalid vector table name: ${this.config.tableName}`);
+    }
+  }
+
+  /**
+   * Create the pgvector extension, table and indexes if configured
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    if (this.config.createSchema) {
+      for (const statement of this.getSchemaStatements()) {
+        await this.execute(statement);
+      }
+    }
+
+    this.initialized = true;
+  }
+
+  /**
+   * DDL statements for the vector table
+   */
+  getSchemaStatements(): string[] {
+    const { tableName, dimensions, indexType, metric } = this.config;
+    const statements = [
+      'CREATE EXTENSION IF NOT EXISTS vector',
+      `CREATE TABLE IF NOT EXISTS ${tableName} (
+        id TEXT NOT NULL,
+        namespace TEXT NOT NULL DEFAULT '${DEFAULT_VECTOR_NAMESPACE}',
+        embedding vector(${dimensions}) NOT NULL,
+        content TEXT,
+        metadata JSONB NOT NULL DEFAULT '{}',
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (namespace, id)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_${tableName}_metadata ON ${tableName} USING gin(metadata)`,
+    ];
+
+    if (indexType !== 'none') {
+      const { opsClass } = METRIC_OPERATORS[metric];
+      const options = indexType === 'ivfflat' ? ' WITH (lists = 100)' : '';
+      statements.push(
+        `CREATE INDEX IF NOT EXISTS idx_${tableName}_embedding ON ${tableName} USING ${indexType} (embedding ${opsClass})${options}`
+      );
+    }
+
+    return statements;
+  }
+
+  async upsert(
+    records: VectorRecord[],
+    namespace = DEFAULT_VECTOR_NAMESPACE
+  ): Promise<void> {
+    await this.initialize();
+
+    for (let i = 0; i < records.length; i += this.config.batchSize) {
+      const batch = records.slice(i, i + this.config.batchSize);
+      const params: unknown[] = [];
+      const rows = batch.map((record) => {
+        this.assertDimensions(record.vector);
+        const base = params.length;
+        params.push(
+          record.id,
+          namespace,
+          toVectorLiteral(record.vector),
+          record.content ?? null,
+          JSON.stringify(record.metadata)
+        );
+        return `($${base + 1}, $${base + 2}, $${base + 3}::vector, $${base + 4}, $${base + 5}::jsonb)`;
+      });
+
+      await this.execute(
+        `INSERT INTO ${this.config.tableName} (id, namespace, embedding, content, metadata)
+         VALUES ${rows.join(', ')}
+         ON CONFLICT (namespace, id) DO UPDATE SET
+           embedding = EXCLUDED.embedding,
+           content = EXCLUDED.content,
+           metadata = EXCLUDED.metadata,
+           updated_at = NOW()`,
+        params
+      );
+    }
+  }
+
+  async delete(
+    ids: string[],
+    namespace = DEFAULT_VECTOR_NAMESPACE
+  ): Promise<number> {
+    if (ids.length === 0) return 0;
+    await this.initialize();
+
+    const rows = await this.execute<Array<{ id: string }>>(
+      `DELETE FROM ${this.config.tableName}
+       WHERE namespace = $1 AND id = ANY($2)
+       RETURNING id`,
+      [namespace, ids]
+    );
+    return rows.length;
+  }
+
+  async deleteByFilter(
+    filter: MetadataFilter,
+    namespace?: string
+  ): Promise<number> {
+    await this.initialize();
+
+    const params: unknown[] = [];
+    const conditions = this.buildWhereClause(params, namespace, filter);
+    const rows = await this.execute<Array<{ id: string }>>(
+      `DELETE FROM ${this.config.tableName}
+       ${conditions}
+       RETURNING id`,
+      params
+    );
+    return rows.length;
+  }
+
+  async deleteNamespace(namespace: string): Promise<void> {
+    await this.initialize();
+    await this.execute(
+      `DELETE FROM ${this.config.tableName} WHERE namespace = $1`,
+      [namespace]
+    );
+  }
+
+  async query(query: VectorQuery): Promise<VectorMatch[]> {
+    if (query.topK <= 0) return [];
+    this.assertDimensions(query.vector);
+    await this.initialize();
+
+    const { operator } = METRIC_OPERATORS[this.config.metric];
+    const params: unknown[] = [toVectorLiteral(query.vector)];
+    const conditions = this.buildWhereClause(
+      params,
+      query.namespace,
+      query.filter
+    );
+    params.push(query.topK);
+
+    const rows = await this.execute<VectorRow[]>(
+      `SELECT id, namespace, content, metadata,
+         ${this.scoreExpression(operator)} AS score
+         ${query.includeVectors ? ', embedding::text AS embedding' : ''}
+       FROM ${this.config.tableName}
+       ${conditions}
+       ORDER BY embedding ${operator} $1::vector
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return rows
+      .map((row) => {
+        const match: VectorMatch = {
+          id: row.id,
+          namespace: row.namespace,
+          score: Number(row.score),
+          metadata:
+            typeof row.metadata === 'string'
+              ? (JSON.parse(row.metadata) as VectorMetadata)
+              : row.metadata,
+        };
+        if (row.content !== null) match.content = row.content;
+        if (row.embedding) match.vector = fromVectorLiteral(row.embedding);
+        return match;
+      })
+      .filter(
+        (match) => query.minScore === undefined || match.score >= query.minScore
+      );
+  }
+
+  async listNamespaces(): Promise<string[]> {
+    await this.initialize();
+    const rows = await this.execute<Array<{ namespace: string }>>(
+      `SELECT DISTINCT namespace FROM ${this.config.tableName} ORDER BY namespace`
+    );
+    return rows.map((row) => row.namespace);
+  }
+
+  async count(namespace?: string): Promise<number> {
+    await this.initialize();
+    const rows = await this.execute<Array<{ count: number | string }>>(
+      namespace === undefined
+        ? `SELECT COUNT(*) AS count FROM ${this.config.tableName}`
+        : `SELECT COUNT(*) AS count FROM ${this.config.tableName} WHERE namespace = $1`,
+      namespace === undefined ? [] : [namespace]
+    );
+    return Number(rows[0]?.count ?? 0);
+  }
+
+  /**
+   * Convert pgvector distance into a higher-is-closer score
+   */
+  private scoreExpression(operator: string): string {
+    switch (this.config.metric) {
+      case 'dot':
+        // <#> returns the negative inner product
+        return `-(embedding ${operator} $1::vector)`;
+      case 'euclidean':
+        return `1 / (1 + (embedding ${operator} $1::vector))`;
+      case 'cosine':
+      default:
+        return `1 - (embedding ${operator} $1::vector)`;
+    }
+  }
+
+  /**
+   * Build a WHERE clause for namespace and metadata filters
+   */
+  private buildWhereClause(
+    params: unknown[],
+    namespace?: string,
+    filter?: MetadataFilter
+  ): string {
+    const conditions: string[] = [];
+
+    if (namespace !== undefined) {
+      params.push(namespace);
+      conditions.push(`namespace = $${params.length}`);
+    }
+
+    for (const [key, condition] of Object.entries(filter ?? {})) {
+      conditions.push(compileFilterCondition(params, key, condition));
+    }
+
+    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  }
+
+  private assertDimensions(vector: number[]): void {
+    if (vector.length !== this.config.dimensions) {
+      throw new Error(
+        `Vector has ${vector.length} dimensions, expected ${this.config.dimensions}`
+      );
+    }
+  }
+
+  private async execute<T = unknown[]>(
+    sql: string,
+    params: unknown[] = []
+  ): Promise<T> {
+    const result = await this.connection.query<T>(sql, params, {
+      useCache: false,
+    });
+    return result.data;
+  }
+}
+
+/**
+ * Compile a single metadata filter entry into SQL
+ */
+function compileFilterCondition(
+  params: unknown[],
+  key: string,
+  condition: VectorMetadataValue | MetadataFilterOperators
+): string {
+  params.push(key);
+  const keyParam = `$${params.length}`;
+
+  if (
+    typeof condition !== 'object' ||
+    condition === null ||
+    Array.isArray(condition)
+  ) {
+    return compileEquality(params, keyParam, condition);
+  }
+
+  const parts: string[] = [];
+  const operators = condition as MetadataFilterOperators;
+
+  if (operators.$eq !== undefined) {
+    parts.push(compileEquality(params, keyParam, operators.$eq));
+  }
+  // IS NOT TRUE keeps rows without the key, as matchesMetadataFilter does
+  if (operators.$ne !== undefined) {
+    parts.push(
+      `${compileEquality(params, keyParam, operators.$ne)} IS NOT TRUE`
+    );
+  }
+  if (operators.$in !== undefined) {
+    const alternatives = operators.$in.map((value) =>
+      compileEquality(params, keyParam, value)
+    );
+    parts.push(
+      alternatives.length > 0 ? `(${alternatives.join(' OR ')})` : 'FALSE'
+    );
+  }
+  if (operators.$nin !== undefined) {
+    for (const value of operators.$nin) {
+      parts.push(`${compileEquality(params, keyParam, value)} IS NOT TRUE`);
+    }
+  }
+
+  const comparisons: Array<[keyof MetadataFilterOperators, string]> = [
+    ['$gt', '>'],
+    ['$gte', '>='],
+    ['$lt', '<'],
+    ['$lte', '<='],
+  ];
+  for (const [operator, sqlOperator] of comparisons) {
+    const value = operators[operator] as string | number | undefined;
+    if (value === undefined) continue;
+    params.push(value);
+    // Only cast values stored as JSON numbers; CASE keeps the cast from
+    // running on strings such as "n/a"
+    parts.push(
+      typeof value === 'number'
+        ? `CASE WHEN jsonb_typeof(metadata->${keyParam}) = 'number' THEN (metadata->>${keyParam})::numeric END ${sqlOperator} $${params.length}`
+        : `metadata->>${keyParam} ${sqlOperator} $${params.length}`
+    );
+  }
+
+  return parts.length > 0 ? `(${parts.join(' AND ')})` : 'TRUE';
+}
+
+/**
+ * Equality that also matches membership in array-valued metadata
+ */
+function compileEquality(
+  params: unknown[],
+  keyParam: string,
+  value: VectorMetadataValue
+): string {
+  params.push(JSON.stringify(value));
+  const valueParam = `$${params.length}::jsonb`;
+
+  if (Array.isArray(value)) {
+    return `(metadata->${keyParam} @> ${valueParam})`;
+  }
+  return `(metadata->${keyParam} = ${valueParam} OR (jsonb_typeof(metadata->${keyParam}) = 'array' AND metadata->${keyParam} @> jsonb_build_array(${valueParam})))`;
+}
+
+function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
+
+function fromVectorLiteral(literal: string): number[] {
+  return literal
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .filter((value) => value.length > 0)
+    .map(Number);
+}
@@ -0,0 +1,259 @@
+/**
+ * Vector Store
+ * Storage abstraction for knowledge base embeddings used by the RAG hooks
+ */
+
+/**
+ * Similarity metric used to compare vectors
+ */
+export type VectorSimilarityMetric = 'cosine' | 'dot' | 'euclidean';
+
+/**
+ * Metadata value stored alongside a vector
+ */
+export type VectorMetadataValue =
+  | string
+  | number
+  | boolean
+  | null
+  | string[]
+  | number[];
+
+/**
+ * Metadata attached to a vector record
+ */
+export type VectorMetadata = Record<string, VectorMetadataValue>;
+
+/**
+ * Comparison operators supported in metadata filters
+ */
+export interface MetadataFilterOperators {
+  $eq?: VectorMetadataValue;
+  $ne?: VectorMetadataValue;
+  $in?: Array<string | number | boolean>;
+  $nin?: Array<string | number | boolean>;
+  $gt?: string | number;
+  $gte?: string | number;
+  $lt?: string | number;
+  $lte?: string | number;
+}
+
+/**
+ * Metadata filter
+ *
+ * Each key is matched against the record metadata. A plain value matches by
+ * equality, or by membership when the metadata value is an array. All keys
+ * must match.
+ */
+export type MetadataFilter = Record<
+  string,
+  VectorMetadataValue | MetadataFilterOperators
+>;
+
+/**
+ * Vector record to be written to a store
+ */
+export interface VectorRecord {
+  id: string;
+  vector: number[];
+  content?: string;
+  metadata: VectorMetadata;
+}
+
+/**
+ * Vector similarity query
+ */
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  /** Namespace to search; all namespaces are searched when omitted */
+  namespace?: string;
+  filter?: MetadataFilter;
+  minScore?: number;
+  includeVectors?: boolean;
+}
+
+/**
+ * Vector query match
+ */
+export interface VectorMatch {
+  id: string;
+  namespace: string;
+  score: number;
+  content?: string;
+  metadata: VectorMetadata;
+  vector?: number[];
+}
+
+/**
+ * Vector store contract implemented by every adapter
+ */
+export interface VectorStore {
+  readonly name: string;
+
+  /**
+   * Insert or replace records in a namespace
+   */
+  upsert(records: VectorRecord[], namespace?: string): Promise<void>;
+
+  /**
+   * Delete records by id
+   */
+  delete(ids: string[], namespace?: string): Promise<number>;
+
+  /**
+   * Delete every record matching a metadata filter
+   */
+  deleteByFilter(filter: MetadataFilter, namespace?: string): Promise<number>;
+
+  /**
+   * Delete a namespace and all of its records
+   */
+  deleteNamespace(namespace: string): Promise<void>;
+
+  /**
+   * Return the records most similar to the query vector
+   */
+  query(query: VectorQuery): Promise<VectorMatch[]>;
+
+  /**
+   * List namespaces that hold at least one record
+   */
+  listNamespaces(): Promise<string[]>;
+
+  /**
+   * Count records in a namespace, or in the whole store
+   */
+  count(namespace?: string): Promise<number>;
+}
+
+/**
+ * Namespace used when none is given
+ */
+export const DEFAULT_VECTOR_NAMESPACE = 'default';
+
+/**
+ * Compute the similarity score between two vectors (higher is closer)
+ */
+export function computeSimilarity(
+  a: number[],
+  b: number[],
+  metric: VectorSimilarityMetric = 'cosine'
+): number {
+  if (a.length !== b.length) return 0;
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  let squaredDistance = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i]!;
+    const y = b[i]!;
+    dotProduct += x * y;
+    normA += x * x;
+    normB += y * y;
+    squaredDistance += (x - y) * (x - y);
+  }
+
+  switch (metric) {
+    case 'dot':
+      return dotProduct;
+    case 'euclidean':
+      return 1 / (1 + Math.sqrt(squaredDistance));
+    case 'cosine':
+    default:
+      if (normA === 0 || normB === 0) return 0;
+      return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+}
+
+/**
+ * Check whether record metadata satisfies a filter
+ */
+export function matchesMetadataFilter(
+  metadata: VectorMetadata,
+  filter?: MetadataFilter
+): boolean {
+  if (!filter) return true;
+
+  for (const [key, condition] of Object.entries(filter)) {
+    const value = metadata[key];
+
+    if (isOperatorCondition(condition)) {
+      if (!matchesOperators(value, condition)) return false;
+    } else if (!valueEquals(value, condition)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function isOperatorCondition(
+  condition: VectorMetadataValue | MetadataFilterOperators
+): condition is MetadataFilterOperators {
+  return (
+    typeof condition === 'object' &&
+    condition !== null &&
+    !Array.isArray(condition)
+  );
+}
+
+function valueEquals(
+  value: VectorMetadataValue | undefined,
+  expected: VectorMetadataValue
+): boolean {
+  if (Array.isArray(value)) {
+    if (Array.isArray(expected)) {
+      return expected.every((item) =>
+        (value as Array<string | number>).includes(item)
+      );
+    }
+    return (value as Array<string | number | boolean | null>).includes(
+      expected
+    );
+  }
+  return value === expected;
+}
+
+function matchesOperators(
+  value: VectorMetadataValue | undefined,
+  operators: MetadataFilterOperators
+): boolean {
+  if (operators.$eq !== undefined && !valueEquals(value, operators.$eq)) {
+    return false;
+  }
+  if (operators.$ne !== undefined && valueEquals(value, operators.$ne)) {
+    return false;
+  }
+  if (
+    operators.$in !== undefined &&
+    !operators.$in.some((item) => valueEquals(value, item))
+  ) {
+    return false;
+  }
+  if (
+    operators.$nin !== undefined &&
+    operators.$nin.some((item) => valueEquals(value, item))
+  ) {
+    return false;
+  }
+
+  const comparable =
+    typeof value === 'number' || typeof value === 'string' ? value : null;
+  if (operators.$gt !== undefined) {
+    if (comparable === null || !(comparable > operators.$gt)) return false;
+  }
+  if (operators.$gte !== undefined) {
+    if (comparable === null || !(comparable >= operators.$gte)) return false;
+  }
+  if (operators.$lt !== undefined) {
+    if (comparable === null || !(comparable < operators.$lt)) return false;
+  }
+  if (operators.$lte !== undefined) {
+    if (comparable === null || !(comparable <= operators.$lte)) return false;
+  }
+
+  return true;
+}
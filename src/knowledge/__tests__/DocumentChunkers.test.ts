@@ -0,0 +1,249 @@
+/**
+ * Tests for Document Chunkers
+ */
+
+import {
+  CharacterChunker,
+  HTMLChunker,
+  JSONChunker,
+  MarkdownChunker,
+  SentenceChunker,
+  TokenChunker,
+  DEFAULT_CHUNKING_OPTIONS,
+  chunkContent,
+  createByteOffsetMapper,
+  resolveChunker,
+  type ChunkingOptions,
+  type TextChunk,
+} from '../DocumentChunkers';
+
+const options = (overrides: Partial<ChunkingOptions> = {}): ChunkingOptions => ({
+  ...DEFAULT_CHUNKING_OPTIONS,
+  ...overrides,
+});
+
+// Decode the source bytes a chunk points at
+function sliceBytes(source: string, chunk: TextChunk): string {
+  const bytes = new TextEncoder().encode(source);
+  return new TextDecoder().decode(bytes.slice(chunk.startOffset, chunk.endOffset));
+}
+
+describe('createByteOffsetMapper', () => {
+  it('should map character indexes to UTF-8 byte offsets', () => {
+    const source = 'aé€😀b';
+    const toByte = createByteOffsetMapper(source);
+
+    expect(toByte(1)).toBe(1);
+    expect(toByte(2)).toBe(3);
+    expect(toByte(3)).toBe(6);
+    expect(toByte(5)).toBe(10);
+    expect(toByte(6)).toBe(11);
+    // Going backwards restarts the scan
+    expect(toByte(2)).toBe(3);
+  });
+});
+
+describe('CharacterChunker', () => {
+  it('should produce fixed windows with overlap', () => {
+    const chunks = new CharacterChunker().chunk(
+      'abcdefghij',
+      options({ chunkSize: 4, overlap: 1 })
+    );
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual(['abcd', 'defg', 'ghij']);
+    expect(chunks[1]).toMatchObject({ startOffset: 3, endOffset: 7 });
+  });
+});
+
+describe('SentenceChunker', () => {
+  it('should pack whole sentences up to the chunk size', () => {
+    const content = 'This is a long document. '.repeat(10);
+    const chunks = new SentenceChunker().chunk(content, options({ chunkSize: 50, overlap: 10 }));
+
+    expect(chunks.length).toBe(5);
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(50);
+      expect(chunk.content.endsWith('.')).toBe(true);
+      expect(sliceBytes(content, chunk)).toBe(chunk.content);
+    }
+  });
+
+  it('should prefer paragraph boundaries and split oversized sentences', () => {
+    const content = `First point. Second point.\n\nNew paragraph here.\n\n${'word '.repeat(30)}`;
+    const chunks = new SentenceChunker().chunk(content, options({ chunkSize: 40, overlap: 0 }));
+
+    expect(chunks[0]!.content).toBe('First point. Second point.');
+    expect(chunks[1]!.content).toBe('New paragraph here.');
+    expect(chunks.slice(2).every((chunk) => chunk.content.length <= 40)).toBe(true);
+  });
+
+  it('should keep byte offsets correct for multi-byte text', () => {
+    const content = 'Café au lait. Über gut! 日本語の文。';
+    const chunks = new SentenceChunker().chunk(content, options({ chunkSize: 15, overlap: 0 }));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(sliceBytes(content, chunk)).toBe(chunk.content));
+  });
+});
+
+describe('MarkdownChunker', () => {
+  const markdown = [
+    '# Guide',
+    '',
+    'Intro text.',
+    '',
+    '## Install',
+    '',
+    'Run the installer.',
+    '',
+    '```bash',
+    '# not a heading',
+    'npm install',
+    '```',
+    '',
+    '### Windows',
+    '',
+    'Use PowerShell.',
+    '',
+    '## Usage',
+    '',
+    'Call the API.',
+  ].join('\n');
+
+  it('should record the heading path for every chunk', () => {
+    const chunks = new MarkdownChunker().chunk(markdown, options({ chunkSize: 200 }));
+
+    expect(chunks.map((chunk) => chunk.metadata.sectionPath)).toEqual([
+      ['Guide'],
+      ['Guide', 'Install'],
+      ['Guide', 'Install'],
+      ['Guide', 'Install', 'Windows'],
+      ['Guide', 'Usage'],
+    ]);
+    expect(chunks[3]!.metadata.headingLevel).toBe(3);
+  });
+
+  it('should keep fenced code blocks intact', () => {
+    const chunks = new MarkdownChunker().chunk(markdown, options({ chunkSize: 200 }));
+    const code = chunks.find((chunk) => chunk.content.startsWith('```'));
+
+    expect(code?.content).toBe('```bash\n# not a heading\nnpm install\n```');
+    expect(code && sliceBytes(markdown, code)).toBe(code?.content);
+  });
+});
+
+describe('HTMLChunker', () => {
+  it('should extract block text under the current heading', () => {
+    const html = [
+      '<html><head><title>x</title><style>p { color: red; }</style></head><body>',
+      '<h1>Docs</h1>',
+      '<p>Hello &amp; welcome.</p>',
+      '<script>var ignored = "<p>";</script>',
+      '<h2>Setup</h2>',
+      '<ul><li>Step one</li><li>Step <b>two</b></li></ul>',
+      '</body></html>',
+    ].join('\n');
+
+    const chunks = new HTMLChunker().chunk(html, options({ chunkSize: 200 }));
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]).toMatchObject({
+      content: 'Hello & welcome.',
+      metadata: { chunker: 'html', sectionPath: ['Docs'] },
+    });
+    expect(chunks[1]).toMatchObject({
+      content: 'Step one\nStep two',
+      metadata: { sectionPath: ['Docs', 'Setup'] },
+    });
+    expect(sliceBytes(html, chunks[0]!)).toBe('Hello &amp; welcome.');
+  });
+});
+
+describe('JSONChunker', () => {
+  it('should keep small documents whole', () => {
+    const json = '{"a": 1, "b": [true, null]}';
+    const chunks = new JSONChunker().chunk(json, options());
+
+    expect(chunks).toEqual([
+      {
+        content: json,
+        startOffset: 0,
+        endOffset: json.length,
+        metadata: { chunker: 'json', jsonPath: '$' },
+      },
+    ]);
+  });
+
+  it('should split large values along JSON paths', () => {
+    const json = JSON.stringify(
+      {
+        title: 'Catalog',
+        items: [
+          { name: 'alpha', description: 'x'.repeat(30) },
+          { name: 'beta', description: 'y'.repeat(30) },
+        ],
+      },
+      null,
+      2
+    );
+
+    const chunks = new JSONChunker().chunk(json, options({ chunkSize: 100, overlap: 0 }));
+    const paths = chunks.map((chunk) => chunk.metadata.jsonPath);
+
+    expect(paths).toEqual(['$.title', '$.items[0]', '$.items[1]']);
+    expect(JSON.parse(chunks[1]!.content)).toEqual({ name: 'alpha', description: 'x'.repeat(30) });
+    chunks.forEach((chunk) => expect(sliceBytes(json, chunk)).toBe(chunk.content));
+  });
+
+  it('should fall back to sentences for invalid JSON', () => {
+    const chunks = new JSONChunker().chunk('{not json. at all', options());
+    expect(chunks[0]!.metadata.chunker).toBe('sentence');
+  });
+});
+
+describe('TokenChunker', () => {
+  it('should window by token count with overlap', () => {
+    const content = 'one two three four five six seven';
+    const chunks = new TokenChunker().chunk(content, options({ maxTokens: 3, tokenOverlap: 1 }));
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      'one two three',
+      'three four five',
+      'five six seven',
+    ]);
+    expect(chunks.every((chunk) => chunk.metadata.tokenCount === 3)).toBe(true);
+  });
+
+  it('should use a custom tokenizer', () => {
+    const tokenize = (text: string) =>
+      Array.from(text.matchAll(/\S+/g), (match) => ({
+        start: match.index!,
+        end: match.index! + match[0].length,
+      }));
+    const chunks = new TokenChunker().chunk(
+      "can't stop, won't stop",
+      options({ maxTokens: 2, tokenOverlap: 0, tokenize })
+    );
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual(["can't stop,", "won't stop"]);
+  });
+});
+
+describe('chunker registry', () => {
+  it('should pick a chunker from the document format', () => {
+    expect(resolveChunker('markdown').name).toBe('markdown');
+    expect(resolveChunker('html').name).toBe('html');
+    expect(resolveChunker('json').name).toBe('json');
+    expect(resolveChunker('pdf').name).toBe('sentence');
+    expect(resolveChunker('unknown').name).toBe('sentence');
+    expect(resolveChunker('markdown', 'token').name).toBe('token');
+  });
+
+  it('should prefer per-format overrides', () => {
+    const custom = { name: 'custom', chunk: jest.fn().mockReturnValue([]) };
+
+    chunkContent('# Title', 'markdown', { chunkers: { markdown: custom }, chunkSize: 10 });
+
+    expect(custom.chunk).toHaveBeenCalledWith('# Title', expect.objectContaining({ chunkSize: 10 }));
+  });
+});
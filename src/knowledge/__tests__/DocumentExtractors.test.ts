@@ -0,0 +1,302 @@
+/**
+ * Tests for document text extraction (PDF, DOCX, HTML, CSV)
+ */
+
+import { deflateRawSync, deflateSync } from 'zlib';
+import {
+  DocumentExtractorRegistry,
+  htmlToText,
+  parseDelimited,
+  type DocumentExtractor,
+} from '../DocumentExtractors';
+import { inflate, inflateRaw, readZipEntries } from '../Inflate';
+import { FileUploadManager } from '../../utils/FileAttachmentSystem';
+
+const encoder = new TextEncoder();
+const bytes = (text: string) => encoder.encode(text);
+const latin1 = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+// Build a ZIP archive; entries are deflated unless `stored` is set
+function buildZip(files: Array<{ name: string; content: string; stored?: boolean; size?: number }>): Uint8Array {
+  const local: number[] = [];
+  const central: number[] = [];
+  const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+  const u32 = (value: number) => [...u16(value & 0xffff), ...u16(value >>> 16)];
+
+  for (const file of files) {
+    const name = [...bytes(file.name)];
+    const raw = bytes(file.content);
+    const data = file.stored ? raw : new Uint8Array(deflateRawSync(raw));
+    const method = file.stored ? 0 : 8;
+    const offset = local.length;
+
+    local.push(...u32(0x04034b50), ...u16(20), ...u16(0), ...u16(method), ...u32(0), ...u32(0));
+    local.push(...u32(data.length), ...u32(raw.length), ...u16(name.length), ...u16(0), ...name, ...data);
+
+    central.push(...u32(0x02014b50), ...u16(20), ...u16(20), ...u16(0), ...u16(method), ...u32(0), ...u32(0));
+    central.push(...u32(data.length), ...u32(file.size ?? raw.length), ...u16(name.length), ...u16(0), ...u16(0));
+    central.push(...u16(0), ...u16(0), ...u32(0), ...u32(offset), ...name);
+  }
+
+  const end = [
+    ...u32(0x06054b50),
+    ...u16(0),
+    ...u16(0),
+    ...u16(files.length),
+    ...u16(files.length),
+    ...u32(central.length),
+    ...u32(local.length),
+    ...u16(0),
+  ];
+  return new Uint8Array([...local, ...central, ...end]);
+}
+
+// Build a PDF with one content stream per page; the second page is compressed
+function buildPDF(pages: string[]): Uint8Array {
+  const objects: string[] = [];
+  const pageRefs = pages.map((_, index) => `${5 + index * 2} 0 R`).join(' ');
+
+  objects.push('1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  objects.push(`2 0 obj\n<< /Type /Pages /Kids [${pageRefs}] /Count ${pages.length} /Resources << /Font << /F1 3 0 R >> >> >>\nendobj\n`);
+  objects.push('3 0 obj\n<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>\nendobj\n');
+  objects.push('4 0 obj\n<< /Title (Quarterly \\(Q3\\) Report) /Author <FEFF0041006E006E> >>\nendobj\n');
+
+  pages.forEach((content, index) => {
+    const pageNumber = 5 + index * 2;
+    const compressed = index % 2 === 1;
+    const data = compressed
+      ? String.fromCharCode(...deflateSync(Buffer.from(content, 'latin1')))
+      : content;
+    objects.push(`${pageNumber} 0 obj\n<< /Type /Page /Parent 2 0 R /Contents ${pageNumber + 1} 0 R >>\nendobj\n`);
+    objects.push(
+      `${pageNumber + 1} 0 obj\n<< /Length ${data.length}${compressed ? ' /Filter /FlateDecode' : ''} >>\nstream\n${data}\nendstream\nendobj\n`
+    );
+  });
+
+  return latin1(`%PDF-1.4\n${objects.join('')}trailer\n<< /Root 1 0 R /Info 4 0 R >>\n%%EOF\n`);
+}
+
+describe('Inflate', () => {
+  it('should match zlib for stored, fixed and dynamic blocks', () => {
+    const text = Array.from({ length: 400 }, (_, i) => `line ${i} ${'abcdefghij'.slice(i % 10)}`).join('\n');
+    const data = bytes(text);
+
+    expect(new TextDecoder().decode(inflate(new Uint8Array(deflateSync(data))))).toBe(text);
+    expect(new TextDecoder().decode(inflateRaw(new Uint8Array(deflateRawSync(data, { level: 0 }))))).toBe(text);
+    expect(new TextDecoder().decode(inflateRaw(new Uint8Array(deflateRawSync(bytes('hi')))))).toBe('hi');
+  });
+
+  it('should read stored and deflated zip entries', () => {
+    const zip = buildZip([
+      { name: 'a.txt', content: 'stored entry', stored: true },
+      { name: 'b.txt', content: 'deflated entry '.repeat(20) },
+    ]);
+
+    const entries = readZipEntries(zip);
+    expect(entries.map((entry) => entry.name)).toEqual(['a.txt', 'b.txt']);
+    expect(new TextDecoder().decode(entries[0]!.read())).toBe('stored entry');
+    expect(new TextDecoder().decode(entries[1]!.read())).toBe('deflated entry '.repeat(20));
+  });
+
+  it('should stop at the output limit and at declared zip entry sizes', () => {
+    const data = new Uint8Array(deflateSync(new Uint8Array(10000)));
+    expect(() => inflate(data, 4096)).toThrow('Inflated data exceeds the 4096 byte limit');
+    expect(inflate(data, 10000)).toHaveLength(10000);
+
+    const [deflated, stored] = readZipEntries(
+      buildZip([
+        { name: 'bomb.txt', content: 'a'.repeat(5000), size: 100 },
+        { name: 'stored.txt', content: 'stored entry', stored: true, size: 6 },
+      ])
+    );
+    expect(() => deflated!.read()).toThrow('Inflated data exceeds the 100 byte limit');
+    expect(() => stored!.read()).toThrow('ZIP entry stored.txt exceeds its declared size');
+  });
+});
+
+describe('htmlToText', () => {
+  it('should convert structure to markdown and drop scripts', () => {
+    const { text, title } = htmlToText(`
+      <html><head><title>Guide &amp; FAQ</title><style>p { color: red }</style></head>
+      <body>
+        <h1>Install</h1>
+        <p>Run the   installer.<script>alert(1)</script></p>
+        <ul><li>Fast</li><li>Safe &lt;3</li></ul>
+        <h2>Usage</h2>
+        <pre>  indented
+  code</pre>
+      </body></html>`);
+
+    expect(title).toBe('Guide & FAQ');
+    expect(text).toBe('# Install\n\nRun the installer.\n\n- Fast\n- Safe <3\n\n## Usage\n\n```\n  indented\n  code\n```');
+  });
+});
+
+describe('parseDelimited', () => {
+  it('should handle quoted fields and detect the delimiter', () => {
+    expect(parseDelimited('name,notes\n"Smith, J","said ""hi"""\n')).toEqual([
+      ['name', 'notes'],
+      ['Smith, J', 'said "hi"'],
+    ]);
+    expect(parseDelimited('a\tb\n1\t2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('DocumentExtractorRegistry', () => {
+  const registry = new DocumentExtractorRegistry();
+
+  it('should extract PDF pages with page sections and document info', async () => {
+    const pdf = buildPDF([
+      'BT /F1 12 Tf 72 720 Td (Hello) Tj [( W) -20 (orld)] TJ 0 -14 Td (Second line) Tj ET',
+      'BT /F1 12 Tf 72 720 Td [(Page) -300 (two)] TJ ET',
+    ]);
+
+    const extracted = await registry.extract({ data: pdf, name: 'report.pdf' });
+
+    expect(extracted.extractor).toBe('pdf');
+    expect(extracted.format).toBe('pdf');
+    expect(extracted.text).toBe('Hello World\nSecond line\n\nPage two');
+    expect(extracted.title).toBe('Quarterly (Q3) Report');
+    expect(extracted.metadata).toEqual({ pageCount: 2, author: 'Ann' });
+    expect(extracted.sections).toEqual([
+      { title: 'Page 1', page: 1, startOffset: 0, endOffset: 23 },
+      { title: 'Page 2', page: 2, startOffset: 25, endOffset: 33 },
+    ]);
+  });
+
+  it('should decode text through ToUnicode maps', async () => {
+    const cmap =
+      '/CIDInit /ProcSet findresource begin\n1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange\n' +
+      '1 beginbfchar\n<0001> <0048>\nendbfchar\n1 beginbfrange\n<0002> <0003> <0069>\nendbfrange\nend';
+    const content = 'BT /F1 12 Tf <000100020003> Tj ET';
+    const pdf = latin1(
+      '%PDF-1.7\n' +
+        '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n' +
+        '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj\n' +
+        '3 0 obj << /Type /Page /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >> endobj\n' +
+        '4 0 obj << /Type /Font /Subtype /Type0 /ToUnicode 6 0 R >> endobj\n' +
+        `5 0 obj << /Length ${content.length} >>\nstream\n${content}\nendstream endobj\n` +
+        `6 0 obj << /Length ${cmap.length} >>\nstream\n${cmap}\nendstream endobj\n` +
+        'trailer << /Root 1 0 R >>\n%%EOF'
+    );
+
+    const extracted = await registry.extract({ data: pdf, mimeType: 'application/pdf' });
+    expect(extracted.text).toBe('Hij');
+  });
+
+  it('should reject encrypted PDFs', async () => {
+    const pdf = latin1('%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\ntrailer << /Root 1 0 R /Encrypt 2 0 R >>');
+    await expect(registry.extract({ data: pdf, name: 'secret.pdf' })).rejects.toThrow('Encrypted');
+  });
+
+  it('should extract DOCX headings, lists and title', async () => {
+    const documentXml =
+      '<?xml version="1.0"?><w:document xmlns:w="x"><w:body>' +
+      '<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Overview</w:t></w:r></w:p>' +
+      '<w:p><w:r><w:t xml:space="preserve">Tom &amp; </w:t></w:r><w:r><w:t>Jerry</w:t></w:r></w:p>' +
+      '<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/></w:numPr></w:pPr><w:r><w:t>First</w:t></w:r></w:p>' +
+      '<w:p/>' +
+      '<w:p><w:pPr><w:pStyle w:val="Heading2"/></w:pPr><w:r><w:t>Détails</w:t></w:r></w:p>' +
+      '<w:p><w:r><w:t>A</w:t><w:tab/><w:t>B</w:t></w:r></w:p>' +
+      '</w:body></w:document>';
+    const docx = buildZip([
+      { name: '[Content_Types].xml', content: '<Types/>', stored: true },
+      { name: 'word/document.xml', content: documentXml },
+      { name: 'docProps/core.xml', content: '<cp:coreProperties><dc:title>Spec</dc:title></cp:coreProperties>' },
+    ]);
+
+    // No name or type: recognised from the archive contents
+    const extracted = await registry.extract({ data: docx });
+
+    expect(extracted.extractor).toBe('docx');
+    expect(extracted.format).toBe('markdown');
+    expect(extracted.title).toBe('Spec');
+    expect(extracted.text).toBe('# Overview\n\nTom & Jerry\n\n- First\n\n## Détails\n\nA\tB');
+    expect(extracted.sections.map((section) => section.title)).toEqual(['Overview', 'Détails']);
+    expect(extracted.sections[1]!.endOffset).toBe(encoder.encode(extracted.text).length);
+  });
+
+  it('should turn CSV rows into self-describing lines', async () => {
+    const csv = 'Name,Role,Team\nAda,Engineer,Core\n"Lin, M",,Docs\n';
+
+    const extracted = await registry.extract({ data: bytes(csv), name: 'people.csv' });
+
+    expect(extracted.text).toBe('Name: Ada; Role: Engineer; Team: Core\nName: Lin, M; Team: Docs');
+    expect(extracted.metadata).toEqual({ rowCount: 2, columns: 'Name, Role, Team' });
+    expect(extracted.sections[1]).toMatchObject({ title: 'Row 2', startOffset: 38 });
+  });
+
+  it('should read Blobs and let custom extractors take priority', async () => {
+    const custom: DocumentExtractor = {
+      name: 'pdf',
+      mimeTypes: ['application/pdf'],
+      extensions: ['pdf'],
+      extract: () => ({
+        text: 'from custom',
+        format: 'text',
+        mimeType: 'application/pdf',
+        extractor: 'pdf',
+        sections: [],
+        metadata: {},
+      }),
+    };
+    const customRegistry = new DocumentExtractorRegistry();
+    customRegistry.register(custom);
+
+    const file = new File(['%PDF-1.4'], 'a.pdf', { type: 'application/pdf' });
+    expect((await customRegistry.extract(file)).text).toBe('from custom');
+
+    const html = new File(['<h1>Hi</h1><p>there</p>'], 'page.html', { type: 'text/html' });
+    expect(await registry.extract(html)).toMatchObject({ text: '# Hi\n\nthere', format: 'markdown' });
+
+    expect(registry.canExtract({ name: 'photo.png', mimeType: 'image/png' })).toBe(false);
+    expect(registry.canExtract({ name: 'notes.md' })).toBe(true);
+  });
+
+  it('should read unmatched text files as plain text and reject binary ones', async () => {
+    const xml = new File(['<feed><title>News</title></feed>'], 'feed.xml', { type: 'application/xml' });
+    expect(await registry.extract(xml)).toMatchObject({
+      text: '<feed><title>News</title></feed>',
+      extractor: 'text',
+    });
+    expect((await registry.extract(new File(['name: docs\n'], 'config.yaml'))).text).toBe('name: docs\n');
+
+    const archive = new File([new Uint8Array([0x1f, 0x8b, 0x08, 0x00, 0x00])], 'data.bin');
+    await expect(registry.extract(archive)).rejects.toThrow('No extractor registered for data.bin');
+    expect(registry.canExtract({ name: 'clip.mp4', mimeType: 'video/mp4' })).toBe(false);
+  });
+});
+
+describe('FileUploadManager text extraction', () => {
+  const createObjectURL = URL.createObjectURL;
+
+  beforeAll(() => {
+    URL.createObjectURL = () => 'blob:upload';
+  });
+
+  afterAll(() => {
+    URL.createObjectURL = createObjectURL;
+  });
+
+  it('should attach extracted text and still upload documents that fail to extract', async () => {
+    const manager = new FileUploadManager({ extractText: true });
+    const html = new File(['<h1>Guide</h1><p>Install it</p>'], 'guide.html', { type: 'text/html' });
+    const encrypted = new File(
+      ['%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\ntrailer << /Root 1 0 R /Encrypt 2 0 R >>'],
+      'secret.pdf',
+      { type: 'application/pdf' }
+    );
+
+    const [guide, secret] = await manager.uploadFiles([html, encrypted]);
+
+    expect(guide!.metadata).toMatchObject({ extractedText: '# Guide\n\nInstall it', extractedFormat: 'markdown' });
+    expect(guide!.metadata).not.toHaveProperty('extractionError');
+    expect(secret!.title).toBe('secret.pdf');
+    expect(secret!.metadata).not.toHaveProperty('extractedText');
+    expect(secret!.metadata!.extractionError).toMatch('Encrypted');
+  });
+});
+
@@ -0,0 +1,143 @@
+/**
+ * Tests for BM25 indexing and hybrid retrieval helpers
+ */
+
+import { BM25Index, tokenizeTerms } from '../BM25Index';
+import {
+  maximalMarginalRelevance,
+  reciprocalRankFusion,
+  termOverlapSimilarity,
+} from '../HybridRetrieval';
+
+const corpus = [
+  { id: 'a', content: 'The quick brown fox jumps over the lazy dog', metadata: { documentId: 'doc_1' } },
+  { id: 'b', content: 'A fox is a small omnivorous mammal. Fox fox fox.', metadata: { documentId: 'doc_1' } },
+  { id: 'c', content: 'Dogs are loyal companions and good at fetching', metadata: { documentId: 'doc_2' } },
+  { id: 'd', content: 'Stock markets rallied as investors cheered earnings', metadata: { documentId: 'doc_3' } },
+];
+
+describe('tokenizeTerms', () => {
+  it('should lowercase words and drop stop words', () => {
+    expect(tokenizeTerms('The Fox, and THE hound!')).toEqual(['fox', 'hound']);
+    expect(tokenizeTerms('running dogs', [], (term) => term.replace(/(ning|s)$/, ''))).toEqual([
+      'run',
+      'dog',
+    ]);
+  });
+});
+
+describe('BM25Index', () => {
+  it('should rank by term frequency and rarity', () => {
+    const index = new BM25Index();
+    index.add(corpus);
+
+    const matches = index.search({ query: 'fox', topK: 10 });
+
+    expect(matches.map((match) => match.id)).toEqual(['b', 'a']);
+    expect(matches[0]).toMatchObject({ namespace: 'default', matchedTerms: ['fox'] });
+    expect(matches[0]!.score).toBeGreaterThan(matches[1]!.score);
+  });
+
+  it('should favour documents matching more query terms', () => {
+    const index = new BM25Index();
+    index.add(corpus);
+
+    const matches = index.search({ query: 'lazy dog', topK: 1 });
+    expect(matches[0]!.id).toBe('a');
+  });
+
+  it('should scope by namespace and metadata filter', () => {
+    const index = new BM25Index();
+    index.add(corpus.slice(0, 2), 'kb_1');
+    index.add(corpus.slice(2), 'kb_2');
+
+    expect(index.search({ query: 'fox dogs', topK: 10, namespace: 'kb_2' }).map((m) => m.id)).toEqual(['c']);
+    expect(
+      index.search({ query: 'fox', topK: 10, filter: { documentId: 'doc_1' } }).map((m) => m.id)
+    ).toEqual(['b', 'a']);
+    expect(index.listNamespaces()).toEqual(['kb_1', 'kb_2']);
+  });
+
+  it('should update postings on replace and delete', () => {
+    const index = new BM25Index();
+    index.add(corpus);
+    index.add([{ id: 'a', content: 'nothing relevant here', metadata: {} }]);
+
+    expect(index.search({ query: 'lazy', topK: 5 })).toEqual([]);
+    expect(index.count()).toBe(4);
+
+    expect(index.deleteByFilter({ documentId: 'doc_1' })).toBe(1);
+    expect(index.delete(['c', 'missing'])).toBe(1);
+    expect(index.search({ query: 'fox dogs', topK: 5 })).toEqual([]);
+    expect(index.count()).toBe(2);
+  });
+
+  it('should restore from a snapshot', () => {
+    const index = new BM25Index({ k1: 1.5 });
+    index.add(corpus, 'kb_1');
+
+    const restored = BM25Index.fromSnapshot(JSON.parse(JSON.stringify(index.serialize())));
+
+    expect(restored.count('kb_1')).toBe(4);
+    expect(restored.search({ query: 'investors', topK: 1 })[0]!.id).toBe('d');
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('should reward items ranked well in several lists', () => {
+    const fused = reciprocalRankFusion(
+      [{ items: ['a', 'b', 'c'] }, { items: ['b', 'd', 'a'] }],
+      { getId: (id) => id, k: 60 }
+    );
+
+    expect(fused.map((result) => result.id)).toEqual(['b', 'a', 'd', 'c']);
+    expect(fused[0]!.ranks).toEqual([2, 1]);
+    expect(fused[3]!.ranks).toEqual([3, null]);
+    expect(fused[0]!.score).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+
+  it('should apply list weights', () => {
+    const fused = reciprocalRankFusion(
+      [
+        { items: ['semantic'], weight: 1 },
+        { items: ['lexical'], weight: 3 },
+      ],
+      { getId: (id) => id }
+    );
+
+    expect(fused[0]!.id).toBe('lexical');
+  });
+});
+
+describe('maximalMarginalRelevance', () => {
+  const items = [
+    { id: 'a', score: 0.9, text: 'fox jumps over dog' },
+    { id: 'a2', score: 0.89, text: 'fox jumps over dog' },
+    { id: 'b', score: 0.7, text: 'markets rallied today' },
+  ];
+  const similarity = (x: (typeof items)[number], y: (typeof items)[number]) =>
+    termOverlapSimilarity(tokenizeTerms(x.text), tokenizeTerms(y.text));
+
+  it('should prefer diverse items over near duplicates', () => {
+    const selected = maximalMarginalRelevance(items, {
+      topK: 2,
+      lambda: 0.5,
+      relevance: (item) => item.score,
+      similarity,
+    });
+
+    expect(selected.map((item) => item.id)).toEqual(['a', 'b']);
+  });
+
+  it('should drop items above the duplicate threshold', () => {
+    const selected = maximalMarginalRelevance(items, {
+      topK: 3,
+      lambda: 1,
+      relevance: (item) => item.score,
+      similarity,
+      duplicateThreshold: 0.95,
+    });
+
+    expect(selected.map((item) => item.id)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for content hashing, embedding caches and resumable indexing jobs
+ */
+
+import { createHash } from 'crypto';
+import {
+  MemoryEmbeddingCache,
+  StorageEmbeddingCache,
+  embeddingCacheKey,
+  hashContent,
+  type KeyValueStorage,
+} from '../EmbeddingCache';
+import {
+  IndexingJob,
+  MemoryIndexingJobStore,
+  StorageIndexingJobStore,
+  getIndexingJobProgress,
+  type IndexingTask,
+} from '../IndexingJob';
+
+function createStorage(): KeyValueStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => void data.set(key, value),
+    removeItem: (key) => void data.delete(key),
+    keys: () => [...data.keys()],
+  };
+}
+
+const tasks: IndexingTask[] = [
+  { knowledgeBaseId: 'kb_1', documentId: 'doc_1' },
+  { knowledgeBaseId: 'kb_1', documentId: 'doc_2' },
+  { knowledgeBaseId: 'kb_2', documentId: 'doc_3' },
+];
+
+describe('hashContent', () => {
+  it('should match SHA-256 of the UTF-8 bytes', () => {
+    for (const text of ['', 'abc', 'héllo ✓ 🚀', 'x'.repeat(1000)]) {
+      expect(hashContent(text)).toBe(createHash('sha256').update(text, 'utf8').digest('hex'));
+    }
+    expect(embeddingCacheKey('model-a', hashContent('abc'))).toMatch(/^model-a:ba7816bf/);
+  });
+});
+
+describe('MemoryEmbeddingCache', () => {
+  it('should evict the least recently used entries', async () => {
+    const cache = new MemoryEmbeddingCache({ maxEntries: 2 });
+    await cache.setMany([
+      ['a', [1]],
+      ['b', [2]],
+    ]);
+    await cache.getMany(['a']);
+    await cache.setMany([['c', [3]]]);
+
+    expect(await cache.getMany(['a', 'b', 'c'])).toEqual([[1], undefined, [3]]);
+    expect(await cache.size()).toBe(2);
+  });
+});
+
+describe('StorageEmbeddingCache', () => {
+  it('should persist embeddings under its prefix', async () => {
+    const storage = createStorage();
+    storage.data.set('unrelated', 'keep');
+    const cache = new StorageEmbeddingCache(storage, { prefix: 'emb:' });
+
+    await cache.setMany([['m:1', [0.25, -1]]]);
+    storage.data.set('emb:broken', '{not json');
+
+    const reopened = new StorageEmbeddingCache(storage, { prefix: 'emb:' });
+    expect(await reopened.getMany(['m:1', 'm:2', 'broken'])).toEqual([[0.25, -1], undefined, undefined]);
+    expect(await reopened.size()).toBe(2);
+
+    await reopened.clear();
+    expect([...storage.data.keys()]).toEqual(['unrelated']);
+  });
+
+  it('should evict the least recently used entries across reloads', async () => {
+    const storage = createStorage();
+    const cache = new StorageEmbeddingCache(storage, {
+      prefix: 'emb:',
+      maxEntries: 2,
+    });
+    await cache.setMany([
+      ['a', [1]],
+      ['b', [2]],
+    ]);
+    await cache.getMany(['a']);
+
+    const reopened = new StorageEmbeddingCache(storage, {
+      prefix: 'emb:',
+      maxEntries: 2,
+    });
+    await reopened.setMany([['c', [3]]]);
+
+    expect(await reopened.getMany(['a', 'b', 'c'])).toEqual([
+      [1],
+      undefined,
+      [3],
+    ]);
+    expect(await reopened.size()).toBe(2);
+  });
+});
+
+describe('IndexingJob', () => {
+  it('should run tasks, record failures and report progress', async () => {
+    const store = new MemoryIndexingJobStore();
+    const progress: number[] = [];
+    const job = new IndexingJob(IndexingJob.createState(tasks), store, {
+      runTask: async (task) => {
+        if (task.documentId === 'doc_2') throw new Error('boom');
+        return { embeddedChunks: 2, reusedChunks: 1 };
+      },
+      onProgress: (state) => progress.push(getIndexingJobProgress(state)),
+    });
+
+    const state = await job.run();
+
+    expect(state).toMatchObject({
+      status: 'completed',
+      nextTask: 3,
+      embeddedChunks: 4,
+      reusedChunks: 2,
+      failures: [{ knowledgeBaseId: 'kb_1', documentId: 'doc_2', error: 'boom' }],
+    });
+    expect(getIndexingJobProgress(state, 'kb_2')).toBe(100);
+    expect(progress[progress.length - 1]).toBe(100);
+    expect((await store.load(state.id))?.status).toBe('completed');
+  });
+
+  it('should pause and resume from persisted state', async () => {
+    const store = new StorageIndexingJobStore(createStorage());
+    const processed: string[] = [];
+    let job: IndexingJob;
+    const handlers = {
+      runTask: async (task: IndexingTask) => {
+        processed.push(task.documentId);
+        if (task.documentId === 'doc_1') job.pause();
+        return { embeddedChunks: 1, reusedChunks: 0 };
+      },
+    };
+
+    job = new IndexingJob(IndexingJob.createState(tasks, { id: 'job_1' }), store, handlers);
+    const paused = await job.run();
+    expect(paused).toMatchObject({ status: 'paused', nextTask: 1 });
+    expect(getIndexingJobProgress(paused, 'kb_1')).toBe(50);
+
+    // Simulate a reload: rebuild the job from storage
+    const saved = await store.load('job_1');
+    job = new IndexingJob(saved!, store, handlers);
+    const finished = await job.run();
+
+    expect(finished).toMatchObject({ status: 'completed', embeddedChunks: 3 });
+    expect(processed).toEqual(['doc_1', 'doc_2', 'doc_3']);
+    expect((await store.list()).map((state) => state.id)).toEqual(['job_1']);
+  });
+
+  it('should stop a cancelled job', async () => {
+    const store = new MemoryIndexingJobStore();
+    let job: IndexingJob;
+    job = new IndexingJob(IndexingJob.createState(tasks), store, {
+      runTask: async () => {
+        job.cancel();
+        return { embeddedChunks: 0, reusedChunks: 1 };
+      },
+    });
+
+    expect(await job.run()).toMatchObject({ status: 'cancelled', nextTask: 1 });
+    expect((await job.run()).nextTask).toBe(1);
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Tests for Vector Store adapters
+ */
+
+import { DEFAULT_HNSW_CONFIG, HNSWVectorStore, type HNSWSnapshot } from '../HNSWVectorStore';
+import { PgVectorStore } from '../PgVectorStore';
+import { computeSimilarity, matchesMetadataFilter, type VectorRecord } from '../VectorStore';
+import type { ConnectionManager } from '../../database/ConnectionManager';
+
+// Deterministic pseudo-random vectors so recall checks are stable
+function seededVectors(count: number, dimensions: number, seed = 42): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () =>
+    Array.from({ length: dimensions }, next)
+  );
+}
+
+function toRecords(vectors: number[][]): VectorRecord[] {
+  return vectors.map((vector, index) => ({
+    id: `rec_${index}`,
+    vector,
+    content: `record ${index}`,
+    metadata: {
+      documentId: `doc_${index % 10}`,
+      chunkIndex: index,
+      tags: index % 2 === 0 ? ['even'] : ['odd'],
+    },
+  }));
+}
+
+describe('VectorStore helpers', () => {
+  it('should compute similarity for each metric', () => {
+    expect(computeSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(computeSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(computeSimilarity([1, 2], [3, 4], 'dot')).toBe(11);
+    expect(computeSimilarity([0, 0], [3, 4], 'euclidean')).toBeCloseTo(1 / 6);
+  });
+
+  it('should match metadata filters', () => {
+    const metadata = { documentId: 'doc_1', chunkIndex: 4, tags: ['a', 'b'] };
+
+    expect(matchesMetadataFilter(metadata, { documentId: 'doc_1' })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { tags: 'a' })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { tags: { $in: ['c', 'b'] } })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { chunkIndex: { $gte: 2, $lt: 4 } })).toBe(false);
+    expect(matchesMetadataFilter(metadata, { documentId: { $ne: 'doc_1' } })).toBe(false);
+    expect(matchesMetadataFilter(metadata, { section: { $nin: ['intro'] } })).toBe(true);
+  });
+});
+
+describe('HNSWVectorStore', () => {
+  it('should return the exact match first', async () => {
+    const store = new HNSWVectorStore();
+    const records = toRecords(seededVectors(50, 8));
+    await store.upsert(records, 'kb_1');
+
+    const matches = await store.query({
+      vector: records[7]!.vector,
+      topK: 3,
+      namespace: 'kb_1',
+    });
+
+    expect(matches).toHaveLength(3);
+    expect(matches[0]).toMatchObject({ id: 'rec_7', namespace: 'kb_1', content: 'record 7' });
+    expect(matches[0]!.score).toBeCloseTo(1);
+  });
+
+  it('should approximate exact nearest neighbours on the graph path', async () => {
+    const store = new HNSWVectorStore({ exactSearchThreshold: 0 });
+    const vectors = seededVectors(400, 16);
+    const records = toRecords(vectors);
+    await store.upsert(records);
+
+    const queries = seededVectors(10, 16, 7);
+    let hits = 0;
+
+    for (const query of queries) {
+      const expected = records
+        .map((record) => ({ id: record.id, score: computeSimilarity(query, record.vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 5)
+        .map((item) => item.id);
+
+      const matches = await store.query({ vector: query, topK: 5 });
+      hits += matches.filter((match) => expected.includes(match.id)).length;
+    }
+
+    // Recall@5 should be well above random for a 400 record graph
+    expect(hits / (queries.length * 5)).toBeGreaterThan(0.8);
+  });
+
+  it('should apply metadata filters and minimum scores', async () => {
+    const store = new HNSWVectorStore({ exactSearchThreshold: 0 });
+    const records = toRecords(seededVectors(200, 8));
+    await store.upsert(records);
+
+    const matches = await store.query({
+      vector: records[3]!.vector,
+      topK: 5,
+      filter: { tags: 'odd' },
+    });
+
+    expect(matches).toHaveLength(5);
+    expect(matches.every((match) => (match.metadata.tags as string[]).includes('odd'))).toBe(true);
+    expect(matches[0]!.id).toBe('rec_3');
+
+    const strict = await store.query({ vector: records[3]!.vector, topK: 5, minScore: 0.999 });
+    expect(strict.map((match) => match.id)).toEqual(['rec_3']);
+  });
+
+  it('should keep namespaces isolated', async () => {
+    const store = new HNSWVectorStore();
+    await store.upsert([{ id: 'a', vector: [1, 0], metadata: {} }], 'kb_1');
+    await store.upsert([{ id: 'b', vector: [1, 0.1], metadata: {} }], 'kb_2');
+
+    const scoped = await store.query({ vector: [1, 0], topK: 5, namespace: 'kb_2' });
+    expect(scoped.map((match) => match.id)).toEqual(['b']);
+
+    const all = await store.query({ vector: [1, 0], topK: 5 });
+    expect(all.map((match) => match.id)).toEqual(['a', 'b']);
+    expect(await store.listNamespaces()).toEqual(['kb_1', 'kb_2']);
+
+    await store.deleteNamespace('kb_1');
+    expect(await store.count()).toBe(1);
+  });
+
+  it('should delete records and keep the graph searchable', async () => {
+    const store = new HNSWVectorStore({ exactSearchThreshold: 0 });
+    const records = toRecords(seededVectors(120, 8));
+    await store.upsert(records);
+
+    expect(await store.delete(['rec_0', 'rec_1'])).toBe(2);
+    expect(await store.deleteByFilter({ documentId: 'doc_5' })).toBe(12);
+    expect(await store.count()).toBe(106);
+
+    const matches = await store.query({ vector: records[22]!.vector, topK: 1 });
+    expect(matches[0]!.id).toBe('rec_22');
+  });
+
+  it('should drop every link to deleted records', async () => {
+    const store = new HNSWVectorStore({ exactSearchThreshold: 0, m: 4 });
+    const records = toRecords(seededVectors(200, 8));
+    await store.upsert(records);
+    await store.upsert(toRecords(seededVectors(40, 8, 7)));
+
+    const deleted = records.filter((_, index) => index % 3 === 0).map((record) => record.id);
+    await store.delete(deleted);
+
+    const { nodes } = store.serialize().namespaces.default!;
+    const links = nodes.flatMap((node) => node.neighbors.flat());
+    expect(links.filter((id) => deleted.includes(id))).toEqual([]);
+
+    const matches = await store.query({ vector: records[50]!.vector, topK: 1 });
+    expect(matches[0]!.id).toBe('rec_50');
+
+    // Reverse links are rebuilt when restoring from a snapshot
+    const restored = HNSWVectorStore.fromSnapshot(store.serialize());
+    await restored.delete(['rec_50', 'rec_100']);
+    const restoredLinks = restored
+      .serialize()
+      .namespaces.default!.nodes.flatMap((node) => node.neighbors.flat());
+    expect(restoredLinks).not.toContain('rec_50');
+    expect(restoredLinks).not.toContain('rec_100');
+  });
+
+  it('should re-link nodes that pointed at a deleted one', async () => {
+    // Eight points on a circle; p2 links to p4 without a link back, and
+    // p6 is linked from p4 without linking to it
+    const point = (index: number) => ({
+      id: `p${index}`,
+      vector: [Math.cos((index * Math.PI) / 4), Math.sin((index * Math.PI) / 4)],
+      metadata: {},
+    });
+    const links: Record<number, number[]> = {
+      0: [1, 7, 2, 6],
+      1: [0, 2],
+      2: [4, 1, 3],
+      3: [2, 4],
+      4: [3, 5, 6],
+      5: [4, 6],
+      6: [5, 7],
+      7: [6, 0],
+    };
+    const snapshot: HNSWSnapshot = {
+      version: 1,
+      config: { ...DEFAULT_HNSW_CONFIG, m: 2, exactSearchThreshold: 0 },
+      namespaces: {
+        default: {
+          entryPoint: 'p0',
+          maxLevel: 0,
+          nodes: Object.entries(links).map(([index, neighbors]) => ({
+            record: point(Number(index)),
+            level: 0,
+            neighbors: [neighbors.map((neighbor) => `p${neighbor}`)],
+          })),
+        },
+      },
+    };
+    const store = HNSWVectorStore.fromSnapshot(snapshot);
+
+    await store.delete(['p4']);
+
+    const nodes = new Map(
+      store.serialize().namespaces.default!.nodes.map((node) => [node.record.id, node.neighbors[0]!])
+    );
+    expect(nodes.get('p2')).toHaveLength(4); // maxConnections(0) = 2 * m
+    expect(nodes.get('p2')).not.toContain('p4');
+    expect(nodes.get('p6')).toEqual(['p5', 'p7']);
+
+    for (const index of [0, 1, 2, 3, 5, 6, 7]) {
+      const matches = await store.query({ vector: point(index).vector, topK: 1 });
+      expect(matches[0]!.id).toBe(`p${index}`);
+    }
+  });
+
+  it('should replace records on upsert', async () => {
+    const store = new HNSWVectorStore();
+    await store.upsert([{ id: 'a', vector: [1, 0], content: 'old', metadata: {} }]);
+    await store.upsert([{ id: 'a', vector: [0, 1], content: 'new', metadata: {} }]);
+
+    const matches = await store.query({ vector: [0, 1], topK: 1 });
+    expect(await store.count()).toBe(1);
+    expect(matches[0]).toMatchObject({ id: 'a', content: 'new' });
+  });
+
+  it('should restore from a snapshot', async () => {
+    const store = new HNSWVectorStore({ exactSearchThreshold: 0 });
+    const records = toRecords(seededVectors(60, 8));
+    await store.upsert(records, 'kb_1');
+
+    const restored = HNSWVectorStore.fromSnapshot(JSON.parse(JSON.stringify(store.serialize())));
+    const matches = await restored.query({ vector: records[9]!.vector, topK: 1, namespace: 'kb_1' });
+
+    expect(await restored.count('kb_1')).toBe(60);
+    expect(matches[0]!.id).toBe('rec_9');
+  });
+});
+
+describe('PgVectorStore', () => {
+  const createConnection = (data: unknown = []) => {
+    const query = jest.fn().mockResolvedValue({ data, metadata: {} });
+    return { connection: { query } as unknown as ConnectionManager, query };
+  };
+
+  it('should create schema on initialize', async () => {
+    const { connection, query } = createConnection();
+    const store = new PgVectorStore(connection, { dimensions: 3 });
+
+    await store.initialize();
+
+    const statements = query.mock.calls.map((call) => call[0] as string);
+    expect(statements[0]).toBe('CREATE EXTENSION IF NOT EXISTS vector');
+    expect(statements.some((sql) => sql.includes('embedding vector(3)'))).toBe(true);
+    expect(statements.some((sql) => sql.includes('USING hnsw (embedding vector_cosine_ops)'))).toBe(true);
+  });
+
+  it('should upsert records as parameterized vectors', async () => {
+    const { connection, query } = createConnection();
+    const store = new PgVectorStore(connection, { dimensions: 2, createSchema: false });
+
+    await store.upsert([{ id: 'a', vector: [0.5, 1], content: 'text', metadata: { tags: ['x'] } }], 'kb_1');
+
+    const [sql, params, options] = query.mock.calls[0]!;
+    expect(sql).toContain('ON CONFLICT (namespace, id) DO UPDATE');
+    expect(params).toEqual(['a', 'kb_1', '[0.5,1]', 'text', '{"tags":["x"]}']);
+    expect(options).toEqual({ useCache: false });
+  });
+
+  it('should query with namespace and metadata filters', async () => {
+    const { connection, query } = createConnection([
+      { id: 'a', namespace: 'kb_1', content: 'text', metadata: '{"documentId":"doc_1"}', score: '0.92' },
+    ]);
+    const store = new PgVectorStore(connection, { dimensions: 2, createSchema: false });
+
+    const matches = await store.query({
+      vector: [1, 0],
+      topK: 4,
+      namespace: 'kb_1',
+      filter: { documentId: 'doc_1', chunkIndex: { $gt: 2 } },
+    });
+
+    const [sql, params] = query.mock.calls[0]!;
+    expect(sql).toContain('ORDER BY embedding <=> $1::vector');
+    expect(sql).toContain('namespace = $2');
+    expect(params[0]).toBe('[1,0]');
+    expect(params[params.length - 1]).toBe(4);
+    expect(matches).toEqual([
+      { id: 'a', namespace: 'kb_1', content: 'text', metadata: { documentId: 'doc_1' }, score: 0.92 },
+    ]);
+  });
+
+  it('should keep rows without the key for negated filters and compare only numbers numerically', async () => {
+    const { connection, query } = createConnection();
+    const store = new PgVectorStore(connection, { dimensions: 2, createSchema: false });
+
+    await store.query({
+      vector: [1, 0],
+      topK: 4,
+      filter: { section: { $ne: 'intro', $nin: ['appendix'] }, page: { $gte: 3 } },
+    });
+
+    const [sql, params] = query.mock.calls[0]!;
+    expect(sql).not.toContain('NOT (');
+    expect(sql.match(/\) IS NOT TRUE/g)).toHaveLength(2);
+    expect(sql).toContain(
+      "CASE WHEN jsonb_typeof(metadata->$5) = 'number' THEN (metadata->>$5)::numeric END >= $6"
+    );
+    expect(params.slice(1, 6)).toEqual(['section', '"intro"', '"appendix"', 'page', 3]);
+  });
+
+  it('should reject vectors with the wrong dimensions', async () => {
+    const { connection } = createConnection();
+    const store = new PgVectorStore(connection, { dimensions: 3, createSchema: false });
+
+    await expect(store.query({ vector: [1, 0], topK: 1 })).rejects.toThrow('expected 3');
+  });
+});
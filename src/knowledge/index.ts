@@ -0,0 +1,181 @@
+/**
+ * Knowledge Module
+ * Storage and retrieval infrastructure for RAG knowledge bases
+ */
+
+import type { ConnectionManager } from '../database/ConnectionManager';
+import { HNSWVectorStore, type HNSWVectorStoreConfig } from './HNSWVectorStore';
+import { PgVectorStore, type PgVectorStoreConfig } from './PgVectorStore';
+import { BM25Index, type BM25IndexConfig } from './BM25Index';
+import {
+  DocumentExtractorRegistry,
+  type DocumentExtractor,
+} from './DocumentExtractors';
+
+// Vector store contract and helpers
+export {
+  DEFAULT_VECTOR_NAMESPACE,
+  computeSimilarity,
+  matchesMetadataFilter,
+  type VectorStore,
+  type VectorRecord,
+  type VectorQuery,
+  type VectorMatch,
+  type VectorMetadata,
+  type VectorMetadataValue,
+  type VectorSimilarityMetric,
+  type MetadataFilter,
+  type MetadataFilterOperators,
+} from './VectorStore';
+
+// Vector store adapters
+export {
+  HNSWVectorStore,
+  DEFAULT_HNSW_CONFIG,
+  type HNSWVectorStoreConfig,
+  type HNSWSnapshot,
+} from './HNSWVectorStore';
+export {
+  PgVectorStore,
+  DEFAULT_PGVECTOR_CONFIG,
+  type PgVectorStoreConfig,
+} from './PgVectorStore';
+
+// Lexical and hybrid retrieval
+export {
+  BM25Index,
+  DEFAULT_BM25_CONFIG,
+  DEFAULT_BM25_STOP_WORDS,
+  tokenizeTerms,
+  type BM25IndexConfig,
+  type BM25Snapshot,
+  type LexicalMatch,
+  type LexicalQuery,
+  type LexicalRecord,
+} from './BM25Index';
+export {
+  DEFAULT_RRF_K,
+  maximalMarginalRelevance,
+  reciprocalRankFusion,
+  termOverlapSimilarity,
+  type FusedResult,
+  type MMROptions,
+  type RankedList,
+  type ReciprocalRankFusionOptions,
+} from './HybridRetrieval';
+
+// Document chunkers
+export {
+  CharacterChunker,
+  SentenceChunker,
+  MarkdownChunker,
+  HTMLChunker,
+  JSONChunker,
+  TokenChunker,
+  DEFAULT_CHUNKING_OPTIONS,
+  DEFAULT_FORMAT_STRATEGIES,
+  approximateTokenize,
+  chunkContent,
+  createByteOffsetMapper,
+  createChunker,
+  decodeHtmlEntities,
+  resolveChunker,
+  type ChunkingStrategy,
+  type ChunkingOptions,
+  type ChunkStructureMetadata,
+  type DocumentChunker,
+  type TextChunk,
+  type TokenSpan,
+} from './DocumentChunkers';
+
+// Document text extraction
+export {
+  DocumentExtractorRegistry,
+  DEFAULT_DOCUMENT_EXTRACTORS,
+  csvExtractor,
+  decodeText,
+  docxExtractor,
+  htmlExtractor,
+  htmlToText,
+  parseDelimited,
+  pdfExtractor,
+  plainTextExtractor,
+  type DocumentExtractor,
+  type ExtractedDocument,
+  type ExtractedSection,
+  type ExtractedTextFormat,
+  type ExtractionInput,
+} from './DocumentExtractors';
+export { extractPDFText, type PDFTextContent } from './PDFTextExtractor';
+
+// Incremental indexing
+export {
+  MemoryEmbeddingCache,
+  StorageEmbeddingCache,
+  DEFAULT_MEMORY_EMBEDDING_CACHE_CONFIG,
+  DEFAULT_STORAGE_EMBEDDING_CACHE_CONFIG,
+  embeddingCacheKey,
+  fromWebStorage,
+  hashContent,
+  type EmbeddingCache,
+  type KeyValueStorage,
+  type MemoryEmbeddingCacheConfig,
+  type StorageEmbeddingCacheConfig,
+} from './EmbeddingCache';
+export {
+  IndexingJob,
+  MemoryIndexingJobStore,
+  StorageIndexingJobStore,
+  getIndexingJobProgress,
+  type IndexingJobHandlers,
+  type IndexingJobState,
+  type IndexingJobStatus,
+  type IndexingJobStore,
+  type IndexingTask,
+  type IndexingTaskResult,
+} from './IndexingJob';
+export { inflate, inflateRaw, readZipEntries, type ZipEntry } from './Inflate';
+
+/**
+ * Factory functions
+ */
+
+/**
+ * Create an in-memory HNSW vector store
+ */
+export function createHNSWVectorStore(
+  config?: Partial<HNSWVectorStoreConfig>
+): HNSWVectorStore {
+  return new HNSWVectorStore(config);
+}
+
+/**
+ * Create an in-memory BM25 index
+ */
+export function createBM25Index(config?: Partial<BM25IndexConfig>): BM25Index {
+  return new BM25Index(config);
+}
+
+/**
+ * Create a document extractor registry with the built-in extractors plus any
+ * custom ones, which take priority
+ */
+export function createDocumentExtractorRegistry(
+  extractors: DocumentExtractor[] = []
+): DocumentExtractorRegistry {
+  const registry = new DocumentExtractorRegistry();
+  for (const extractor of extractors) registry.register(extractor);
+  return registry;
+}
+
+/**
+ * Create a pgvector-backed vector store on an existing connection
+ */
+export async function createPgVectorStore(
+  connection: ConnectionManager,
+  config: Partial<PgVectorStoreConfig> & { dimensions: number }
+): Promise<PgVectorStore> {
+  const store = new PgVectorStore(connection, config);
+  await store.initialize();
+  return store;
+}
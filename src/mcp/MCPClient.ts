@@ -0,0 +1,497 @@
+/**
+ * MCP Client
+ * Connects to a Model Context Protocol server, discovers its tools,
+ * resources and prompts, and exposes the tools as Conciergus tools that
+ * agents can call and forms can render. The tool list is refreshed when
+ * the server announces that it changed.
+ */
+
+import type { ConciergusToolDefinition } from '../components/ConciergusToolUIRenderer';
+import type { FormSchema } from '../components/ConciergusFormRenderer';
+import { jsonSchemaToFormSchema, type JSONSchemaObject } from './MCPFormSchema';
+import {
+  JSON_RPC_ERRORS,
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  type JsonRpcId,
+  type JsonRpcMessage,
+  type JsonRpcNotification,
+  type JsonRpcRequest,
+  type MCPTransport,
+} from './MCPTransport';
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+export const SUPPORTED_MCP_PROTOCOL_VERSIONS = [
+  MCP_PROTOCOL_VERSION,
+  '2025-03-26',
+  '2024-11-05',
+];
+
+export interface MCPImplementation {
+  name: string;
+  version: string;
+  title?: string;
+}
+
+export interface MCPServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, never>;
+  [capability: string]: unknown;
+}
+
+export interface MCPTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: JSONSchemaObject;
+  outputSchema?: JSONSchemaObject;
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+    openWorldHint?: boolean;
+  };
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string; // Base64
+}
+
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export type MCPContent =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'audio'; data: string; mimeType: string }
+  | { type: 'resource_link'; uri: string; name: string; mimeType?: string }
+  | { type: 'resource'; resource: MCPResourceContents };
+
+export interface MCPToolResult {
+  content: MCPContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface MCPPromptResult {
+  description?: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: MCPContent }>;
+}
+
+/**
+ * A Conciergus tool backed by an MCP server tool. Fits both
+ * `useConciergusAgent().registerTool` and `ConciergusToolUIRenderer`.
+ */
+export interface MCPConciergusTool extends ConciergusToolDefinition {
+  parameters: JSONSchemaObject;
+  handler: (args: Record<string, unknown>) => Promise<unknown>;
+  metadata: {
+    mcpServer: string;
+    mcpTool: string;
+    formSchema: FormSchema;
+    annotations?: MCPTool['annotations'];
+  };
+}
+
+export interface MCPClientConfig {
+  name: string; // Names the server in errors and tool metadata
+  transport: MCPTransport;
+  clientInfo?: MCPImplementation;
+  toolNamePrefix?: string; // Keeps tools of different servers apart, e.g. 'github_'
+  requestTimeout?: number; // Milliseconds, default 30000
+  onNotification?: (notification: JsonRpcNotification) => void;
+  onClose?: (error?: Error) => void;
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Value an agent sees for a tool result: the structured content when the
+ * server gives it, otherwise the text, otherwise the raw content.
+ * Results flagged as errors throw with their text.
+ */
+export function getMCPToolResultValue(
+  toolName: string,
+  result: MCPToolResult
+): unknown {
+  const text = result.content
+    .filter(
+      (item): item is { type: 'text'; text: string } => item.type === 'text'
+    )
+    .map((item) => item.text)
+    .join('\n');
+
+  if (result.isError) {
+    throw new Error(`Tool ${toolName} failed${text ? `: ${text}` : ''}`);
+  }
+  if (result.structuredContent !== undefined) {
+    return result.structuredContent;
+  }
+  return result.content.every((item) => item.type === 'text')
+    ? text
+    : result.content;
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+export class MCPClient {
+  private config: MCPClientConfig;
+  private pending = new Map<JsonRpcId, PendingRequest>();
+  private nextId = 1;
+  private connected = false;
+  private tools: MCPTool[] = [];
+  private toolListeners = new Set<(tools: MCPConciergusTool[]) => void>();
+  private capabilities: MCPServerCapabilities = {};
+  private info: MCPImplementation | null = null;
+
+  constructor(config: MCPClientConfig) {
+    this.config = config;
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  get serverCapabilities(): MCPServerCapabilities {
+    return this.capabilities;
+  }
+
+  get serverInfo(): MCPImplementation | null {
+    return this.info;
+  }
+
+  /**
+   * Open the transport, agree on a protocol version and load the tool list
+   */
+  async connect(): Promise<void> {
+    if (this.connected) return;
+
+    await this.config.transport.start({
+      onMessage: (message) => this.handleMessage(message),
+      onClose: (error) => this.handleClose(error),
+    });
+
+    try {
+      const result = await this.request<{
+        protocolVersion: string;
+        capabilities: MCPServerCapabilities;
+        serverInfo: MCPImplementation;
+      }>('initialize', {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: this.config.clientInfo ?? {
+          name: 'conciergus',
+          version: '1.0.0',
+        },
+      });
+
+      if (!SUPPORTED_MCP_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+        throw new Error(
+          `MCP server ${this.name} uses unsupported protocol version ${result.protocolVersion}`
+        );
+      }
+      this.capabilities = result.capabilities ?? {};
+      this.info = result.serverInfo ?? null;
+      this.config.transport.setProtocolVersion?.(result.protocolVersion);
+
+      this.connected = true;
+      await this.notify('notifications/initialized');
+    } catch (error) {
+      await this.config.transport.close();
+      throw error;
+    }
+
+    if (this.capabilities.tools) {
+      await this.refreshTools();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.connected) return;
+    await this.config.transport.close();
+    this.handleClose();
+  }
+
+  // ==========================================================================
+  // DISCOVERY
+  // ==========================================================================
+
+  async listTools(): Promise<MCPTool[]> {
+    return this.listAll<MCPTool>('tools/list', 'tools');
+  }
+
+  async listResources(): Promise<MCPResource[]> {
+    return this.listAll<MCPResource>('resources/list', 'resources');
+  }
+
+  async listPrompts(): Promise<MCPPrompt[]> {
+    return this.listAll<MCPPrompt>('prompts/list', 'prompts');
+  }
+
+  /**
+   * Reload the tool list and tell listeners about it
+   */
+  async refreshTools(): Promise<MCPConciergusTool[]> {
+    this.tools = await this.listTools();
+    const tools = this.getConciergusTools();
+    this.toolListeners.forEach((listener) => listener(tools));
+    return tools;
+  }
+
+  /**
+   * Listen for tool list changes. Returns a function that stops listening.
+   */
+  onToolsChanged(listener: (tools: MCPConciergusTool[]) => void): () => void {
+    this.toolListeners.add(listener);
+    return () => {
+      this.toolListeners.delete(listener);
+    };
+  }
+
+  // ==========================================================================
+  // OPERATIONS
+  // ==========================================================================
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown> = {}
+  ): Promise<MCPToolResult> {
+    return this.request<MCPToolResult>('tools/call', {
+      name,
+      arguments: args,
+    });
+  }
+
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    const result = await this.request<{ contents: MCPResourceContents[] }>(
+      'resources/read',
+      { uri }
+    );
+    return result.contents;
+  }
+
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<MCPPromptResult> {
+    return this.request<MCPPromptResult>('prompts/get', {
+      name,
+      arguments: args,
+    });
+  }
+
+  /**
+   * The server's tools as Conciergus tools, from the last loaded list
+   */
+  getConciergusTools(): MCPConciergusTool[] {
+    const prefix = this.config.toolNamePrefix ?? '';
+    return this.tools.map((tool) => ({
+      name: `${prefix}${tool.name}`,
+      description: tool.description ?? tool.title ?? tool.name,
+      parameters: tool.inputSchema,
+      handler: async (args: Record<string, unknown>) =>
+        getMCPToolResultValue(tool.name, await this.callTool(tool.name, args)),
+      uiConfig: { category: this.name },
+      metadata: {
+        mcpServer: this.name,
+        mcpTool: tool.name,
+        formSchema: jsonSchemaToFormSchema(tool.inputSchema, {
+          title: tool.title ?? tool.annotations?.title ?? tool.name,
+          description: tool.description,
+        }),
+        ...(tool.annotations ? { annotations: tool.annotations } : {}),
+      },
+    }));
+  }
+
+  // ==========================================================================
+  // JSON-RPC
+  // ==========================================================================
+
+  private async listAll<T>(method: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request<Record<string, unknown>>(
+        method,
+        cursor ? { cursor } : undefined
+      );
+      items.push(...((page[key] as T[] | undefined) ?? []));
+      cursor =
+        typeof page.nextCursor === 'string' ? page.nextCursor : undefined;
+    } while (cursor);
+    return items;
+  }
+
+  private request<T>(
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<T> {
+    if (!this.connected && method !== 'initialize') {
+      return Promise.reject(
+        new Error(`MCP client ${this.name} is not connected`)
+      );
+    }
+
+    const id = this.nextId++;
+    const timeout = this.config.requestTimeout ?? 30000;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        this.notify('notifications/cancelled', {
+          requestId: id,
+          reason: 'Request timed out',
+        }).catch(() => undefined);
+        reject(
+          new Error(
+            `MCP request ${method} to ${this.name} timed out after ${timeout}ms`
+          )
+        );
+      }, timeout);
+      this.pending.set(id, {
+        method,
+        resolve: (result) => resolve(result as T),
+        reject,
+        timer,
+      });
+
+      const message: JsonRpcRequest = {
+        jsonrpc: '2.0',
+        id,
+        method,
+        ...(params ? { params } : {}),
+      };
+      this.config.transport.send(message).catch((error: Error) => {
+        this.settle(id, undefined, error);
+      });
+    });
+  }
+
+  private async notify(
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<void> {
+    await this.config.transport.send({
+      jsonrpc: '2.0',
+      method,
+      ...(params ? { params } : {}),
+    });
+  }
+
+  private settle(id: JsonRpcId, result: unknown, error?: Error): void {
+    const pending = this.pending.get(id);
+    if (!pending) return;
+    this.pending.delete(id);
+    clearTimeout(pending.timer);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(result);
+    }
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (isJsonRpcRequest(message)) {
+      this.answerServerRequest(message);
+      return;
+    }
+
+    if (isJsonRpcNotification(message)) {
+      if (message.method === 'notifications/tools/list_changed') {
+        this.refreshTools().catch(() => undefined);
+      }
+      this.config.onNotification?.(message);
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (message.error) {
+      this.settle(
+        message.id,
+        undefined,
+        new Error(
+          `MCP ${pending?.method ?? 'request'} failed on ${this.name}: ${message.error.message} (${message.error.code})`
+        )
+      );
+    } else {
+      this.settle(message.id, message.result);
+    }
+  }
+
+  /**
+   * Servers may ping; the client offers no roots, sampling or elicitation
+   */
+  private answerServerRequest(request: JsonRpcRequest): void {
+    const response =
+      request.method === 'ping'
+        ? { jsonrpc: '2.0' as const, id: request.id, result: {} }
+        : {
+            jsonrpc: '2.0' as const,
+            id: request.id,
+            error: {
+              code: JSON_RPC_ERRORS.methodNotFound,
+              message: `Method not found: ${request.method}`,
+            },
+          };
+    this.config.transport.send(response).catch(() => undefined);
+  }
+
+  private handleClose(error?: Error): void {
+    if (!this.connected && this.pending.size === 0) return;
+    this.connected = false;
+
+    const reason = error ?? new Error(`MCP connection to ${this.name} closed`);
+    Array.from(this.pending.keys()).forEach((id) =>
+      this.settle(id, undefined, reason)
+    );
+    this.config.onClose?.(error);
+  }
+}
+
+/**
+ * Create a client and connect it
+ */
+export async function connectMCPClient(
+  config: MCPClientConfig
+): Promise<MCPClient> {
+  const client = new MCPClient(config);
+  await client.connect();
+  return client;
+}
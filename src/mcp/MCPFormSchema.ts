@@ -0,0 +1,168 @@
+/**
+ * MCP Form Schema
+ * Turns the JSON Schema of an MCP tool's input into a form that
+ * ConciergusFormRenderer can render, and the submitted form back into
+ * tool arguments.
+ */
+
+import type {
+  FormField,
+  FormFieldType,
+  FormSchema,
+} from '../components/ConciergusFormRenderer';
+
+/**
+ * The parts of JSON Schema that MCP tool inputs use
+ */
+export interface JSONSchemaProperty {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: Array<string | number>;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  items?: JSONSchemaProperty;
+  properties?: Record<string, JSONSchemaProperty>;
+  required?: string[];
+}
+
+export interface JSONSchemaObject extends JSONSchemaProperty {
+  type?: 'object';
+  properties?: Record<string, JSONSchemaProperty>;
+  required?: string[];
+}
+
+const STRING_FORMAT_FIELDS: Record<string, FormFieldType> = {
+  email: 'email',
+  uri: 'url',
+  date: 'date',
+  time: 'time',
+  'date-time': 'datetime-local',
+};
+
+const propertyType = (property: JSONSchemaProperty): string | undefined =>
+  Array.isArray(property.type)
+    ? property.type.find((type) => type !== 'null')
+    : property.type;
+
+/**
+ * Field for one schema property. Objects and arrays are edited as JSON.
+ */
+function propertyToField(
+  name: string,
+  property: JSONSchemaProperty,
+  required: boolean
+): FormField {
+  const type = propertyType(property);
+  let fieldType: FormFieldType;
+  if (property.enum) {
+    fieldType = 'select';
+  } else if (type === 'boolean') {
+    fieldType = 'checkbox';
+  } else if (type === 'number' || type === 'integer') {
+    fieldType = 'number';
+  } else if (type === 'object' || type === 'array') {
+    fieldType = 'textarea';
+  } else {
+    fieldType = STRING_FORMAT_FIELDS[property.format ?? ''] ?? 'text';
+  }
+
+  const validation: NonNullable<FormField['validation']> = {
+    ...(required ? { required } : {}),
+    ...(property.minimum !== undefined ? { min: property.minimum } : {}),
+    ...(property.maximum !== undefined ? { max: property.maximum } : {}),
+    ...(property.minLength !== undefined
+      ? { minLength: property.minLength }
+      : {}),
+    ...(property.maxLength !== undefined
+      ? { maxLength: property.maxLength }
+      : {}),
+    ...(property.pattern !== undefined ? { pattern: property.pattern } : {}),
+  };
+
+  const defaultValue =
+    fieldType === 'textarea' && property.default !== undefined
+      ? JSON.stringify(property.default, null, 2)
+      : property.default;
+
+  return {
+    id: name,
+    name,
+    type: fieldType,
+    label: property.title ?? name,
+    ...(property.description ? { description: property.description } : {}),
+    ...(defaultValue !== undefined ? { defaultValue } : {}),
+    ...(Object.keys(validation).length > 0 ? { validation } : {}),
+    ...(property.enum
+      ? {
+          options: property.enum.map((value) => ({
+            value,
+            label: String(value),
+          })),
+        }
+      : {}),
+    ...(fieldType === 'textarea' ? { metadata: { json: true } } : {}),
+  };
+}
+
+/**
+ * Form for a tool's input schema
+ */
+export function jsonSchemaToFormSchema(
+  schema: JSONSchemaObject,
+  options: { title?: string | undefined; description?: string | undefined } = {}
+): FormSchema {
+  const required = new Set(schema.required ?? []);
+  return {
+    ...(options.title ? { title: options.title } : {}),
+    ...(options.description ? { description: options.description } : {}),
+    fields: Object.entries(schema.properties ?? {}).map(([name, property]) =>
+      propertyToField(name, property, required.has(name))
+    ),
+  };
+}
+
+/**
+ * Tool arguments from submitted form data. Inputs give strings, so numbers
+ * and JSON fields are converted back to the types the schema declares;
+ * empty optional fields are left out.
+ */
+export function formDataToToolArguments(
+  schema: JSONSchemaObject,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+
+  Object.entries(schema.properties ?? {}).forEach(([name, property]) => {
+    const value = data[name];
+    if (value === undefined || value === '') return;
+
+    const type = propertyType(property);
+    if (typeof value !== 'string') {
+      args[name] = value;
+    } else if (type === 'number' || type === 'integer') {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        throw new Error(`${property.title ?? name} must be a number`);
+      }
+      args[name] = number;
+    } else if (type === 'object' || type === 'array') {
+      try {
+        args[name] = JSON.parse(value);
+      } catch {
+        throw new Error(`${property.title ?? name} must be valid JSON`);
+      }
+    } else if (type === 'boolean') {
+      args[name] = value === 'true';
+    } else {
+      args[name] = value;
+    }
+  });
+
+  return args;
+}
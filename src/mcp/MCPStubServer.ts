@@ -0,0 +1,469 @@
+/**
+ * MCP Stub Server
+ * A small in-process Model Context Protocol server for tests and local
+ * development. Clients reach it through an in-memory transport or through
+ * its `fetch` handler, which speaks the streamable HTTP transport.
+ */
+
+import type {
+  MCPPrompt,
+  MCPPromptResult,
+  MCPResource,
+  MCPServerCapabilities,
+  MCPTool,
+  MCPToolResult,
+} from './MCPClient';
+import {
+  JSON_RPC_ERRORS,
+  isJsonRpcRequest,
+  type JsonRpcMessage,
+  type JsonRpcNotification,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type MCPTransport,
+} from './MCPTransport';
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+export interface MCPStubTool extends MCPTool {
+  // Thrown errors are returned as tool results flagged `isError`
+  handler: (
+    args: Record<string, any>
+  ) => MCPToolResult | Promise<MCPToolResult>;
+}
+
+export interface MCPStubResource extends MCPResource {
+  text: string;
+}
+
+export interface MCPStubPrompt extends MCPPrompt {
+  render: (args: Record<string, string>) => MCPPromptResult['messages'];
+}
+
+export interface MCPStubServerConfig {
+  name: string;
+  version?: string;
+  tools?: MCPStubTool[];
+  resources?: MCPStubResource[];
+  prompts?: MCPStubPrompt[];
+  pageSize?: number; // Items per list page, default 50
+  streamResponses?: boolean; // Answer HTTP requests with event streams instead of JSON
+}
+
+interface StubSession {
+  id: string;
+  initialized: boolean;
+  // Where server notifications go; unset until an HTTP client listens
+  push?: ((message: JsonRpcMessage) => void) | undefined;
+  end?: (() => void) | undefined;
+  nextEventId: number; // Id of the next notification stream event
+}
+
+const SUPPORTED_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const encoder = new TextEncoder();
+
+const eventStreamChunk = (message: JsonRpcMessage, id?: number) =>
+  encoder.encode(
+    `event: message\n${id === undefined ? '' : `id: ${id}\n`}data: ${JSON.stringify(message)}\n\n`
+  );
+
+/**
+ * Copy of a stub entry without its server-side part
+ */
+const omit = <T extends object, K extends keyof T>(
+  item: T,
+  key: K
+): Omit<T, K> => {
+  const copy: Partial<T> = { ...item };
+  delete copy[key];
+  return copy as Omit<T, K>;
+};
+
+/**
+ * A request param when it is a string
+ */
+const stringParam = (
+  params: Record<string, unknown>,
+  key: string
+): string | undefined =>
+  typeof params[key] === 'string' ? (params[key] as string) : undefined;
+
+/**
+ * A request param when it is an object, else an empty one
+ */
+const objectParam = (
+  params: Record<string, unknown>,
+  key: string
+): Record<string, unknown> => {
+  const value = params[key];
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+};
+
+const rpcError = (
+  id: JsonRpcResponse['id'],
+  code: number,
+  message: string
+): JsonRpcResponse => ({ jsonrpc: '2.0', id, error: { code, message } });
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+export class MCPStubServer {
+  // Every message clients sent, in order
+  readonly received: JsonRpcMessage[] = [];
+
+  private config: MCPStubServerConfig;
+  private tools = new Map<string, MCPStubTool>();
+  private resources = new Map<string, MCPStubResource>();
+  private prompts = new Map<string, MCPStubPrompt>();
+  private sessions = new Map<string, StubSession>();
+  private nextSession = 1;
+
+  constructor(config: MCPStubServerConfig) {
+    this.config = config;
+    config.tools?.forEach((tool) => this.tools.set(tool.name, tool));
+    config.resources?.forEach((resource) =>
+      this.resources.set(resource.uri, resource)
+    );
+    config.prompts?.forEach((prompt) => this.prompts.set(prompt.name, prompt));
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Add or replace a tool and tell connected clients the list changed
+   */
+  addTool(tool: MCPStubTool): void {
+    this.tools.set(tool.name, tool);
+    this.broadcast({
+      jsonrpc: '2.0',
+      method: 'notifications/tools/list_changed',
+    });
+  }
+
+  /**
+   * End every notification stream while keeping the sessions, as a server
+   * restart or an idle proxy would
+   */
+  dropNotificationStreams(): void {
+    this.sessions.forEach((session) => session.end?.());
+  }
+
+  removeTool(name: string): void {
+    if (this.tools.delete(name)) {
+      this.broadcast({
+        jsonrpc: '2.0',
+        method: 'notifications/tools/list_changed',
+      });
+    }
+  }
+
+  /**
+   * Transport connected straight to this server
+   */
+  createTransport(): MCPTransport {
+    let session: StubSession | null = null;
+    let onClose: ((error?: Error) => void) | undefined;
+
+    return {
+      start: async (handlers) => {
+        session = this.openSession();
+        // Deliver asynchronously, as a real connection would
+        session.push = (message) =>
+          queueMicrotask(() => handlers.onMessage(message));
+        onClose = handlers.onClose;
+      },
+      send: async (message) => {
+        if (!session) {
+          throw new Error('MCP stub transport is not started');
+        }
+        const response = await this.handle(message, session);
+        if (response) {
+          session.push?.(response);
+        }
+      },
+      close: async () => {
+        if (!session) return;
+        this.sessions.delete(session.id);
+        session = null;
+        onClose?.();
+      },
+    };
+  }
+
+  /**
+   * Streamable HTTP endpoint, usable as the transport's `fetch` or as a
+   * route handler
+   */
+  fetch = async (
+    _input: RequestInfo | URL,
+    init: RequestInit = {}
+  ): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    const sessionId = headers.get('mcp-session-id');
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    const method = init.method ?? 'GET';
+
+    if (method === 'POST') {
+      const message = JSON.parse(String(init.body)) as JsonRpcMessage;
+      const initializing =
+        isJsonRpcRequest(message) && message.method === 'initialize';
+      if (!initializing && !session) {
+        return new Response(null, { status: sessionId ? 404 : 400 });
+      }
+
+      const active = session ?? this.openSession();
+      const response = await this.handle(message, active);
+      if (!response) {
+        return new Response(null, { status: 202 });
+      }
+      const sessionHeader = { 'Mcp-Session-Id': active.id };
+      if (this.config.streamResponses) {
+        return new Response(
+          new ReadableStream<Uint8Array>({
+            start(controller) {
+              controller.enqueue(eventStreamChunk(response));
+              controller.close();
+            },
+          }),
+          {
+            headers: { ...sessionHeader, 'Content-Type': 'text/event-stream' },
+          }
+        );
+      }
+      return new Response(JSON.stringify(response), {
+        headers: { ...sessionHeader, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!session) {
+      return new Response(null, { status: sessionId ? 404 : 400 });
+    }
+
+    if (method === 'GET') {
+      const stream = new ReadableStream<Uint8Array>({
+        start: (controller) => {
+          const detach = () => {
+            session.push = undefined;
+            session.end = undefined;
+          };
+          session.push = (message) =>
+            controller.enqueue(
+              eventStreamChunk(message, session.nextEventId++)
+            );
+          session.end = () => {
+            detach();
+            controller.close();
+          };
+          init.signal?.addEventListener('abort', () => {
+            if (!session.end) return;
+            detach();
+            controller.error(new Error('Stream aborted'));
+          });
+        },
+      });
+      return new Response(stream, {
+        headers: { 'Content-Type': 'text/event-stream' },
+      });
+    }
+
+    if (method === 'DELETE') {
+      session.end?.();
+      this.sessions.delete(session.id);
+      return new Response(null, { status: 200 });
+    }
+
+    return new Response(null, { status: 405 });
+  };
+
+  // ==========================================================================
+  // PROTOCOL
+  // ==========================================================================
+
+  private openSession(): StubSession {
+    const session: StubSession = {
+      id: `session-${this.nextSession++}`,
+      initialized: false,
+      nextEventId: 1,
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  private broadcast(notification: JsonRpcNotification): void {
+    this.sessions.forEach((session) => {
+      if (session.initialized) {
+        session.push?.(notification);
+      }
+    });
+  }
+
+  private async handle(
+    message: JsonRpcMessage,
+    session: StubSession
+  ): Promise<JsonRpcResponse | null> {
+    this.received.push(message);
+    if (!isJsonRpcRequest(message)) {
+      if (
+        'method' in message &&
+        message.method === 'notifications/initialized'
+      ) {
+        session.initialized = true;
+      }
+      return null;
+    }
+
+    try {
+      return await this.dispatch(message);
+    } catch (error) {
+      return rpcError(
+        message.id,
+        JSON_RPC_ERRORS.internalError,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  private async dispatch(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+    const params = request.params ?? {};
+    const reply = (result: unknown): JsonRpcResponse => ({
+      jsonrpc: '2.0',
+      id: request.id,
+      result,
+    });
+    const invalidParams = (message: string) =>
+      rpcError(request.id, JSON_RPC_ERRORS.invalidParams, message);
+
+    switch (request.method) {
+      case 'initialize': {
+        const capabilities: MCPServerCapabilities = {
+          tools: { listChanged: true },
+          resources: {},
+          prompts: {},
+        };
+        const requested = stringParam(params, 'protocolVersion');
+        return reply({
+          protocolVersion:
+            requested && SUPPORTED_VERSIONS.includes(requested)
+              ? requested
+              : SUPPORTED_VERSIONS[0],
+          capabilities,
+          serverInfo: {
+            name: this.config.name,
+            version: this.config.version ?? '1.0.0',
+          },
+        });
+      }
+      case 'ping':
+        return reply({});
+      case 'tools/list':
+        return reply(
+          this.page(
+            'tools',
+            Array.from(this.tools.values()).map((tool) =>
+              omit(tool, 'handler')
+            ),
+            stringParam(params, 'cursor')
+          )
+        );
+      case 'tools/call': {
+        const tool = this.tools.get(stringParam(params, 'name') ?? '');
+        if (!tool) {
+          return invalidParams(`Unknown tool: ${params.name}`);
+        }
+        try {
+          return reply(await tool.handler(objectParam(params, 'arguments')));
+        } catch (error) {
+          return reply({
+            content: [
+              {
+                type: 'text',
+                text: error instanceof Error ? error.message : String(error),
+              },
+            ],
+            isError: true,
+          });
+        }
+      }
+      case 'resources/list':
+        return reply(
+          this.page(
+            'resources',
+            Array.from(this.resources.values()).map((resource) =>
+              omit(resource, 'text')
+            ),
+            stringParam(params, 'cursor')
+          )
+        );
+      case 'resources/read': {
+        const resource = this.resources.get(stringParam(params, 'uri') ?? '');
+        if (!resource) {
+          return invalidParams(`Resource not found: ${params.uri}`);
+        }
+        return reply({
+          contents: [
+            {
+              uri: resource.uri,
+              text: resource.text,
+              ...(resource.mimeType ? { mimeType: resource.mimeType } : {}),
+            },
+          ],
+        });
+      }
+      case 'prompts/list':
+        return reply(
+          this.page(
+            'prompts',
+            Array.from(this.prompts.values()).map((prompt) =>
+              omit(prompt, 'render')
+            ),
+            stringParam(params, 'cursor')
+          )
+        );
+      case 'prompts/get': {
+        const prompt = this.prompts.get(stringParam(params, 'name') ?? '');
+        if (!prompt) {
+          return invalidParams(`Unknown prompt: ${params.name}`);
+        }
+        return reply({
+          ...(prompt.description ? { description: prompt.description } : {}),
+          messages: prompt.render(
+            Object.fromEntries(
+              Object.entries(objectParam(params, 'arguments')).filter(
+                (entry): entry is [string, string] =>
+                  typeof entry[1] === 'string'
+              )
+            )
+          ),
+        });
+      }
+      default:
+        return rpcError(
+          request.id,
+          JSON_RPC_ERRORS.methodNotFound,
+          `Method not found: ${request.method}`
+        );
+    }
+  }
+
+  /**
+   * One page of a list, with the offset of the next page as its cursor
+   */
+  private page(key: string, items: unknown[], cursor?: string) {
+    const size = this.config.pageSize ?? 50;
+    const start = cursor ? Number(cursor) : 0;
+    const end = start + size;
+    return {
+      [key]: items.slice(start, end),
+      ...(end < items.length ? { nextCursor: String(end) } : {}),
+    };
+  }
+}
@@ -0,0 +1,430 @@
+/**
+ * MCP Transports
+ * JSON-RPC message channels to Model Context Protocol servers: a child
+ * process spoken to over stdio, or a server reached over streamable HTTP,
+ * whose replies and notifications may arrive as Server-Sent Events.
+ */
+
+import type { ChildProcess } from 'child_process';
+
+// ============================================================================
+// TYPES AND INTERFACES
+// ============================================================================
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: JsonRpcError;
+}
+
+export type JsonRpcMessage =
+  | JsonRpcRequest
+  | JsonRpcNotification
+  | JsonRpcResponse;
+
+export interface MCPTransportHandlers {
+  onMessage: (message: JsonRpcMessage) => void;
+  // Called once when the connection ends, with an error unless it was closed
+  onClose?: (error?: Error) => void;
+}
+
+/**
+ * A connection to one MCP server
+ */
+export interface MCPTransport {
+  start(handlers: MCPTransportHandlers): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+  // Protocol version agreed during initialization, for transports that send it
+  setProtocolVersion?(version: string): void;
+}
+
+export const JSON_RPC_ERRORS = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+} as const;
+
+export function isJsonRpcRequest(
+  message: JsonRpcMessage
+): message is JsonRpcRequest {
+  return 'method' in message && 'id' in message;
+}
+
+export function isJsonRpcNotification(
+  message: JsonRpcMessage
+): message is JsonRpcNotification {
+  return 'method' in message && !('id' in message);
+}
+
+export function isJsonRpcResponse(
+  message: JsonRpcMessage
+): message is JsonRpcResponse {
+  return !('method' in message);
+}
+
+// ============================================================================
+// STDIO TRANSPORT
+// ============================================================================
+
+export interface StdioTransportConfig {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+/**
+ * Transport that starts the server as a child process and exchanges
+ * newline-delimited JSON over its stdin and stdout. Node only.
+ */
+export function createStdioTransport(
+  config: StdioTransportConfig
+): MCPTransport {
+  let child: ChildProcess | null = null;
+  let closing = false;
+
+  return {
+    async start({ onMessage, onClose }) {
+      const { spawn } = await import('child_process');
+      const started = spawn(config.command, config.args ?? [], {
+        env: { ...process.env, ...config.env },
+        ...(config.cwd ? { cwd: config.cwd } : {}),
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      let buffered = '';
+      let stderr = '';
+      started.stdout!.setEncoding('utf8');
+      started.stdout!.on('data', (chunk: string) => {
+        buffered += chunk;
+        let newline = buffered.indexOf('\n');
+        while (newline !== -1) {
+          const line = buffered.slice(0, newline).trim();
+          buffered = buffered.slice(newline + 1);
+          newline = buffered.indexOf('\n');
+          if (!line) continue;
+
+          let message: JsonRpcMessage;
+          try {
+            message = JSON.parse(line);
+          } catch {
+            // Servers should only write messages to stdout; skip stray
+            // output rather than dropping the session
+            continue;
+          }
+          onMessage(message);
+        }
+      });
+      // Keep the end of stderr to explain an unexpected exit
+      started.stderr!.setEncoding('utf8');
+      started.stderr!.on('data', (chunk: string) => {
+        stderr = (stderr + chunk).slice(-2000);
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        started.once('spawn', resolve);
+        started.once('error', (error) =>
+          reject(
+            new Error(
+              `Failed to start MCP server ${config.command}: ${error.message}`
+            )
+          )
+        );
+      });
+
+      child = started;
+      // 'close' follows 'exit' once stdio has drained, so stderr is complete
+      started.once('close', (code, signal) => {
+        child = null;
+        if (closing) {
+          onClose?.();
+          return;
+        }
+        const detail = stderr.trim() ? `: ${stderr.trim()}` : '';
+        onClose?.(
+          new Error(
+            `MCP server ${config.command} exited with ${code ?? signal}${detail}`
+          )
+        );
+      });
+    },
+
+    async send(message) {
+      const stdin = child?.stdin;
+      if (!stdin) {
+        throw new Error('MCP stdio transport is not running');
+      }
+      await new Promise<void>((resolve, reject) => {
+        stdin.write(`${JSON.stringify(message)}\n`, (error) =>
+          error ? reject(error) : resolve()
+        );
+      });
+    },
+
+    async close() {
+      const running = child;
+      if (!running) return;
+      closing = true;
+      const exited = new Promise<void>((resolve) =>
+        running.once('close', () => resolve())
+      );
+      running.stdin?.end();
+      running.kill();
+      await exited;
+    },
+  };
+}
+
+// ============================================================================
+// STREAMABLE HTTP TRANSPORT
+// ============================================================================
+
+export interface StreamableHttpTransportConfig {
+  url: string;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+  reconnectDelay?: number; // ms before reopening the notification stream, default 1000
+  maxReconnectDelay?: number; // ms the delay doubles up to, default 30000
+}
+
+export interface ServerSentEvent {
+  event?: string;
+  id?: string;
+  data: string;
+}
+
+/**
+ * Parse a Server-Sent Events body until it ends
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffered += decoder
+        .decode(value, { stream: true })
+        .replace(/\r\n?/g, '\n');
+
+      let boundary = buffered.indexOf('\n\n');
+      while (boundary !== -1) {
+        const block = buffered.slice(0, boundary);
+        buffered = buffered.slice(boundary + 2);
+        boundary = buffered.indexOf('\n\n');
+
+        const event: ServerSentEvent = { data: '' };
+        const data: string[] = [];
+        for (const line of block.split('\n')) {
+          const colon = line.indexOf(':');
+          // Lines starting with a colon are comments
+          if (colon === 0) continue;
+          const field = colon === -1 ? line : line.slice(0, colon);
+          const value =
+            colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+          if (field === 'data') data.push(value);
+          else if (field === 'event') event.event = value;
+          else if (field === 'id') event.id = value;
+        }
+        if (data.length > 0) {
+          event.data = data.join('\n');
+          yield event;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Resolves after `ms`, or as soon as the signal aborts
+ */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Transport for servers on a single streamable HTTP endpoint. Each message
+ * is POSTed; the server answers with JSON or an event stream. Once the
+ * session is initialized a GET event stream carries notifications the
+ * server sends on its own, such as tool list changes. When the server or a
+ * proxy ends that stream it is reopened with backoff until the transport
+ * closes, resuming after the last event the server identified.
+ */
+export function createStreamableHttpTransport(
+  config: StreamableHttpTransportConfig
+): MCPTransport {
+  const request = config.fetch ?? ((...args) => fetch(...args));
+  let handlers: MCPTransportHandlers | null = null;
+  let sessionId: string | undefined;
+  let protocolVersion: string | undefined;
+  let listener: AbortController | null = null;
+
+  const sessionHeaders = (): Record<string, string> => ({
+    ...config.headers,
+    ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+    ...(protocolVersion ? { 'MCP-Protocol-Version': protocolVersion } : {}),
+  });
+
+  const deliver = (body: unknown) => {
+    const messages = Array.isArray(body) ? body : [body];
+    messages.forEach((message) => handlers?.onMessage(message));
+  };
+
+  const receive = async (
+    response: Response,
+    onEventId?: (id: string) => void
+  ) => {
+    const contentType = response.headers.get('content-type') ?? '';
+    if (contentType.includes('text/event-stream') && response.body) {
+      for await (const event of readServerSentEvents(response.body)) {
+        if (event.id) onEventId?.(event.id);
+
+        let body: unknown;
+        try {
+          body = JSON.parse(event.data);
+        } catch {
+          // Skip a malformed event rather than dropping the stream
+          continue;
+        }
+        deliver(body);
+      }
+    } else if (contentType.includes('application/json')) {
+      deliver(await response.json());
+    }
+  };
+
+  const listen = async () => {
+    const controller = new AbortController();
+    listener = controller;
+    const initialDelay = config.reconnectDelay ?? 1000;
+    let lastEventId: string | undefined;
+    let wait = initialDelay;
+
+    while (!controller.signal.aborted) {
+      try {
+        const response = await request(config.url, {
+          method: 'GET',
+          headers: {
+            ...sessionHeaders(),
+            Accept: 'text/event-stream',
+            ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+          },
+          signal: controller.signal,
+        });
+        // Servers answer 405 when they have no stream for notifications,
+        // and 404 once the session is gone
+        if (response.status === 405 || response.status === 404) return;
+        if (response.ok) {
+          wait = initialDelay;
+          await receive(response, (id) => {
+            lastEventId = id;
+          });
+        }
+      } catch {
+        // Requests still work without the stream; notifications the server
+        // sends on its own are missed until it is reopened
+      }
+
+      await delay(wait, controller.signal);
+      wait = Math.min(wait * 2, config.maxReconnectDelay ?? 30000);
+    }
+  };
+
+  return {
+    async start(transportHandlers) {
+      handlers = transportHandlers;
+    },
+
+    async send(message) {
+      if (!handlers) {
+        throw new Error('MCP HTTP transport is not started');
+      }
+      const response = await request(config.url, {
+        method: 'POST',
+        headers: {
+          ...sessionHeaders(),
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        },
+        body: JSON.stringify(message),
+      });
+
+      if (response.status === 404 && sessionId) {
+        throw new Error(`MCP session ${sessionId} has expired`);
+      }
+      if (!response.ok) {
+        throw new Error(`MCP request failed: ${response.status}`);
+      }
+      sessionId = response.headers.get('mcp-session-id') ?? sessionId;
+      await receive(response);
+
+      if (
+        'method' in message &&
+        message.method === 'notifications/initialized'
+      ) {
+        void listen();
+      }
+    },
+
+    async close() {
+      listener?.abort();
+      listener = null;
+      if (sessionId) {
+        // Ending the session is best effort; the server expires it anyway
+        await request(config.url, {
+          method: 'DELETE',
+          headers: sessionHeaders(),
+        }).catch(() => undefined);
+        sessionId = undefined;
+      }
+      const closed = handlers;
+      handlers = null;
+      closed?.onClose?.();
+    },
+
+    setProtocolVersion(version) {
+      protocolVersion = version;
+    },
+  };
+}
@@ -0,0 +1,484 @@
+/**
+ * Tests for the MCP client, its transports and the stub server
+ */
+
+import {
+  MCPClient,
+  connectMCPClient,
+  type MCPConciergusTool,
+} from '../MCPClient';
+import { MCPStubServer, type MCPStubTool } from '../MCPStubServer';
+import {
+  createStdioTransport,
+  createStreamableHttpTransport,
+} from '../MCPTransport';
+import {
+  formDataToToolArguments,
+  jsonSchemaToFormSchema,
+} from '../MCPFormSchema';
+
+const refundTool: MCPStubTool = {
+  name: 'refund',
+  title: 'Refund order',
+  description: 'Refund part or all of an order',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      orderId: { type: 'string', title: 'Order' },
+      amount: { type: 'number', minimum: 0 },
+      reason: { type: 'string', enum: ['duplicate', 'damaged'] },
+      notify: { type: 'boolean', default: true },
+      lines: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['orderId', 'amount'],
+  },
+  handler: async ({ orderId, amount }) => {
+    if (amount > 500) {
+      throw new Error('Amount exceeds order total');
+    }
+    return {
+      content: [{ type: 'text', text: `Refunded ${amount} on ${orderId}` }],
+      structuredContent: { orderId, refunded: amount },
+    };
+  },
+};
+
+const lookupTool: MCPStubTool = {
+  name: 'lookup',
+  inputSchema: { type: 'object', properties: { email: { type: 'string' } } },
+  handler: async ({ email }) => ({
+    content: [{ type: 'text', text: `Customer ${email}` }],
+  }),
+};
+
+const createServer = (overrides = {}) =>
+  new MCPStubServer({
+    name: 'billing',
+    tools: [refundTool, lookupTool],
+    resources: [
+      { uri: 'policy://refunds', name: 'Refund policy', text: '30 days' },
+      { uri: 'policy://shipping', name: 'Shipping policy', text: '5 days' },
+      { uri: 'policy://privacy', name: 'Privacy policy', text: 'GDPR' },
+    ],
+    prompts: [
+      {
+        name: 'apology',
+        arguments: [{ name: 'customer', required: true }],
+        render: ({ customer }) => [
+          {
+            role: 'user',
+            content: { type: 'text', text: `Apologise to ${customer}` },
+          },
+        ],
+      },
+    ],
+    pageSize: 2,
+    ...overrides,
+  });
+
+describe('MCPClient', () => {
+  it('should list tools, resources and prompts across pages', async () => {
+    const server = createServer();
+    const client = await connectMCPClient({
+      name: 'billing',
+      transport: server.createTransport(),
+    });
+
+    expect(client.serverInfo).toEqual({ name: 'billing', version: '1.0.0' });
+    expect((await client.listTools()).map((tool) => tool.name)).toEqual([
+      'refund',
+      'lookup',
+    ]);
+    expect(
+      (await client.listResources()).map((resource) => resource.uri)
+    ).toEqual(['policy://refunds', 'policy://shipping', 'policy://privacy']);
+    expect(await client.readResource('policy://refunds')).toEqual([
+      { uri: 'policy://refunds', text: '30 days' },
+    ]);
+    expect(await client.getPrompt('apology', { customer: 'Ada' })).toEqual({
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Apologise to Ada' } },
+      ],
+    });
+    await expect(client.readResource('policy://missing')).rejects.toThrow(
+      'MCP resources/read failed on billing: Resource not found: policy://missing (-32602)'
+    );
+
+    await client.close();
+    expect(server.sessionCount).toBe(0);
+    await expect(client.listTools()).rejects.toThrow(
+      'MCP client billing is not connected'
+    );
+  });
+
+  it('should expose tools as Conciergus tools with renderable forms', async () => {
+    const client = await connectMCPClient({
+      name: 'billing',
+      transport: createServer().createTransport(),
+      toolNamePrefix: 'billing_',
+    });
+
+    const [refund, lookup] = client.getConciergusTools();
+    expect(refund).toMatchObject({
+      name: 'billing_refund',
+      description: 'Refund part or all of an order',
+      parameters: refundTool.inputSchema,
+      uiConfig: { category: 'billing' },
+      metadata: { mcpServer: 'billing', mcpTool: 'refund' },
+    });
+    expect(refund!.metadata.formSchema.title).toBe('Refund order');
+
+    await expect(
+      refund!.handler({ orderId: 'order_1', amount: 40 })
+    ).resolves.toEqual({ orderId: 'order_1', refunded: 40 });
+    await expect(
+      refund!.handler({ orderId: 'order_1', amount: 900 })
+    ).rejects.toThrow('Tool refund failed: Amount exceeds order total');
+    await expect(lookup!.handler({ email: 'ada@example.com' })).resolves.toBe(
+      'Customer ada@example.com'
+    );
+  });
+
+  it('should reload tools when the server announces a list change', async () => {
+    const server = createServer();
+    const client = await connectMCPClient({
+      name: 'billing',
+      transport: server.createTransport(),
+    });
+    const changes: string[][] = [];
+    const stop = client.onToolsChanged((tools) =>
+      changes.push(tools.map((tool) => tool.name))
+    );
+
+    server.removeTool('lookup');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    stop();
+    server.addTool(lookupTool);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(changes).toEqual([['refund']]);
+    expect(client.getConciergusTools().map((tool) => tool.name)).toEqual([
+      'refund',
+      'lookup',
+    ]);
+  });
+
+  it('should answer server pings and time out requests', async () => {
+    jest.useFakeTimers();
+    try {
+      const sent: any[] = [];
+      let deliver: (message: any) => void = () => undefined;
+      const client = new MCPClient({
+        name: 'slow',
+        requestTimeout: 1000,
+        transport: {
+          start: async ({ onMessage }) => {
+            deliver = onMessage;
+          },
+          send: async (message) => {
+            sent.push(message);
+            if ('method' in message && message.method === 'initialize') {
+              void Promise.resolve().then(() =>
+                deliver({
+                  jsonrpc: '2.0',
+                  id: (message as any).id,
+                  result: {
+                    protocolVersion: '2025-03-26',
+                    capabilities: {},
+                    serverInfo: { name: 'slow', version: '0.1.0' },
+                  },
+                })
+              );
+            }
+          },
+          close: async () => undefined,
+        },
+      });
+      await client.connect();
+
+      deliver({ jsonrpc: '2.0', id: 'ping-1', method: 'ping' });
+      const listing = client.listTools();
+      jest.advanceTimersByTime(1000);
+
+      await expect(listing).rejects.toThrow(
+        'MCP request tools/list to slow timed out after 1000ms'
+      );
+      expect(sent.slice(2)).toEqual([
+        { jsonrpc: '2.0', id: 'ping-1', result: {} },
+        { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+        {
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: 2, reason: 'Request timed out' },
+        },
+      ]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('createStreamableHttpTransport', () => {
+  it.each([false, true])(
+    'should keep a session and receive notifications (event stream responses: %s)',
+    async (streamResponses) => {
+      const server = createServer({ streamResponses });
+      const fetch = jest.fn(server.fetch);
+      const client = await connectMCPClient({
+        name: 'billing',
+        transport: createStreamableHttpTransport({
+          url: 'https://mcp.example.com/mcp',
+          headers: { Authorization: 'Bearer token' },
+          fetch: fetch as unknown as typeof globalThis.fetch,
+        }),
+      });
+      const changed = new Promise<MCPConciergusTool[]>((resolve) =>
+        client.onToolsChanged(resolve)
+      );
+
+      await expect(
+        client.callTool('lookup', { email: 'ada@example.com' })
+      ).resolves.toEqual({
+        content: [{ type: 'text', text: 'Customer ada@example.com' }],
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      server.removeTool('refund');
+      expect((await changed).map((tool) => tool.name)).toEqual(['lookup']);
+
+      const [, call] = fetch.mock.calls.find(([, init]) =>
+        String(init?.body).includes('tools/call')
+      )!;
+      expect(call!.headers).toMatchObject({
+        Authorization: 'Bearer token',
+        'Mcp-Session-Id': 'session-1',
+        'MCP-Protocol-Version': '2025-06-18',
+      });
+
+      await client.close();
+      expect(fetch).toHaveBeenLastCalledWith('https://mcp.example.com/mcp', {
+        method: 'DELETE',
+        headers: expect.objectContaining({ 'Mcp-Session-Id': 'session-1' }),
+      });
+      expect(server.sessionCount).toBe(0);
+    }
+  );
+
+  it('should reopen a dropped notification stream after the last event', async () => {
+    const server = createServer();
+    const fetch = jest.fn(server.fetch);
+    const client = await connectMCPClient({
+      name: 'billing',
+      transport: createStreamableHttpTransport({
+        url: 'https://mcp.example.com/mcp',
+        fetch: fetch as unknown as typeof globalThis.fetch,
+        reconnectDelay: 5,
+      }),
+    });
+    const listens = () =>
+      fetch.mock.calls.filter(([, init]) => init?.method === 'GET');
+    const nextChange = () =>
+      new Promise<MCPConciergusTool[]>((resolve) => {
+        const unsubscribe = client.onToolsChanged((tools) => {
+          unsubscribe();
+          resolve(tools);
+        });
+      });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    let changed = nextChange();
+    server.removeTool('refund');
+    await changed;
+
+    server.dropNotificationStreams();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(listens()).toHaveLength(2);
+    expect(listens()[1]![1]!.headers).toMatchObject({ 'Last-Event-ID': '1' });
+
+    changed = nextChange();
+    server.addTool(refundTool);
+    expect((await changed).map((tool) => tool.name)).toEqual([
+      'lookup',
+      'refund',
+    ]);
+
+    await client.close();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(listens()).toHaveLength(2);
+  });
+
+  it('should skip malformed events and release each reconnect wait', async () => {
+    const eventStream = (body: string) =>
+      new Response(
+        new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode(body));
+            controller.close();
+          },
+        }),
+        { headers: { 'content-type': 'text/event-stream' } }
+      );
+    const streams = [
+      eventStream(
+        'id: 1\ndata: {not json\n\n' +
+          'id: 2\ndata: {"jsonrpc":"2.0","method":"notifications/tools/list_changed"}\n\n'
+      ),
+      eventStream(''),
+      new Response(null, { status: 405 }),
+    ];
+    let addListener: jest.SpyInstance | undefined;
+    let removeListener: jest.SpyInstance | undefined;
+    const fetch = jest.fn(async (_url: string, init: RequestInit) => {
+      if (init.method !== 'GET') return new Response(null, { status: 202 });
+      if (!addListener) {
+        addListener = jest.spyOn(init.signal!, 'addEventListener');
+        removeListener = jest.spyOn(init.signal!, 'removeEventListener');
+      }
+      return streams.shift()!;
+    });
+    const onMessage = jest.fn();
+    const transport = createStreamableHttpTransport({
+      url: 'https://mcp.example.com/mcp',
+      fetch: fetch as unknown as typeof globalThis.fetch,
+      reconnectDelay: 5,
+    });
+
+    await transport.start({ onMessage });
+    await transport.send({
+      jsonrpc: '2.0',
+      method: 'notifications/initialized',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(onMessage.mock.calls).toEqual([
+      [{ jsonrpc: '2.0', method: 'notifications/tools/list_changed' }],
+    ]);
+    const listens = fetch.mock.calls.filter(
+      ([, init]) => init.method === 'GET'
+    );
+    expect(listens).toHaveLength(3);
+    expect(listens[1]![1].headers).toMatchObject({ 'Last-Event-ID': '2' });
+    expect(addListener).toHaveBeenCalledTimes(2);
+    expect(removeListener).toHaveBeenCalledTimes(2);
+    expect(removeListener!.mock.calls[0]![1]).toBe(
+      addListener!.mock.calls[0]![1]
+    );
+
+    await transport.close();
+  });
+});
+
+describe('createStdioTransport', () => {
+  // Minimal server speaking newline-delimited JSON-RPC on stdio
+  const script = `
+    const send = (message) => process.stdout.write(JSON.stringify(message) + '\\n');
+    require('readline').createInterface({ input: process.stdin }).on('line', (line) => {
+      const { id, method, params } = JSON.parse(line);
+      if (method === 'initialize') {
+        send({ jsonrpc: '2.0', id, result: {
+          protocolVersion: params.protocolVersion,
+          capabilities: { tools: {} },
+          serverInfo: { name: 'echo', version: '1.0.0' },
+        } });
+      } else if (method === 'notifications/initialized') {
+        process.stdout.write('echo server ready\\n');
+      } else if (method === 'tools/list') {
+        send({ jsonrpc: '2.0', id, result: { tools: [
+          { name: 'echo', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } },
+        ] } });
+      } else if (params.name === 'crash') {
+        process.stderr.write('out of memory');
+        process.exit(3);
+      } else {
+        send({ jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: params.arguments.text }] } });
+      }
+    });
+  `;
+
+  it('should talk to a child process and report when it exits', async () => {
+    const onClose = jest.fn();
+    const client = await connectMCPClient({
+      name: 'echo',
+      transport: createStdioTransport({
+        command: process.execPath,
+        args: ['-e', script],
+      }),
+      onClose,
+    });
+
+    const [echo] = client.getConciergusTools();
+    await expect(echo!.handler({ text: 'hello' })).resolves.toBe('hello');
+    await expect(client.callTool('crash')).rejects.toThrow(
+      `MCP server ${process.execPath} exited with 3: out of memory`
+    );
+    expect(client.isConnected).toBe(false);
+    expect(onClose).toHaveBeenCalledWith(expect.any(Error));
+  });
+});
+
+describe('MCP form schema', () => {
+  it('should map tool input schemas to form fields and back', () => {
+    const schema = jsonSchemaToFormSchema(refundTool.inputSchema, {
+      title: 'Refund order',
+    });
+
+    expect(schema.title).toBe('Refund order');
+    expect(schema.fields).toEqual([
+      {
+        id: 'orderId',
+        name: 'orderId',
+        type: 'text',
+        label: 'Order',
+        validation: { required: true },
+      },
+      {
+        id: 'amount',
+        name: 'amount',
+        type: 'number',
+        label: 'amount',
+        validation: { required: true, min: 0 },
+      },
+      {
+        id: 'reason',
+        name: 'reason',
+        type: 'select',
+        label: 'reason',
+        options: [
+          { value: 'duplicate', label: 'duplicate' },
+          { value: 'damaged', label: 'damaged' },
+        ],
+      },
+      {
+        id: 'notify',
+        name: 'notify',
+        type: 'checkbox',
+        label: 'notify',
+        defaultValue: true,
+      },
+      {
+        id: 'lines',
+        name: 'lines',
+        type: 'textarea',
+        label: 'lines',
+        metadata: { json: true },
+      },
+    ]);
+
+    expect(
+      formDataToToolArguments(refundTool.inputSchema, {
+        orderId: 'order_1',
+        amount: '12.5',
+        reason: '',
+        notify: false,
+        lines: '["line_1"]',
+      })
+    ).toEqual({
+      orderId: 'order_1',
+      amount: 12.5,
+      notify: false,
+      lines: ['line_1'],
+    });
+    expect(() =>
+      formDataToToolArguments(refundTool.inputSchema, { lines: '[line_1' })
+    ).toThrow('lines must be valid JSON');
+  });
+});
@@ -0,0 +1,10 @@
+/**
+ * MCP Module
+ * Model Context Protocol client, transports and a stub server for
+ * discovering tools from MCP servers
+ */
+
+export * from './MCPTransport';
+export * from './MCPClient';
+export * from './MCPFormSchema';
+export * from './MCPStubServer';
@@ -4,6 +4,15 @@
  * This module provides comprehensive search capabilities for conversations and messages
  * including full-text search, advanced filtering, result ranking, and performance
  * optimization using PostgreSQL and Redis caching.
+ *
+ * Queries are answered from an in-memory inverted index once `buildIndex`
+ * has read the searching user's stored history into it; until then they
+ * fall back to PostgreSQL full-text search. Given a cache, each user's part
+ * of the index is saved to it, so later builds restore it instead of reading
+ * the history again.
+ * Given an embedder, the engine also embeds messages and blends vector
+ * similarity into the ranking, so a query can match messages that share
+ * its meaning but none of its words.
  */
 
 import type {
@@ -12,6 +21,25 @@ import type {
   ConversationFilter,
 } from '../types/conversation';
 import { ConversationDataAccess } from '../database/ConversationDataAccess';
+import {
+  assertTenantContext,
+  type TenantContext,
+} from '../database/TenantContext';
+import type { CacheManager } from '../cache/CacheManager';
+import {
+  InvertedIndex,
+  type IndexMatch,
+  type IndexedMessage,
+  type InvertedIndexSnapshot,
+} from './InvertedIndex';
+import { matchesQueryField, type QueryNode } from './QueryParser';
+import {
+  SemanticIndex,
+  highlightPassage,
+  type MessageEmbedder,
+  type MessagePassage,
+  type SemanticMatch,
+} from './SemanticIndex';
 
 /**
  * Search query configuration
@@ -19,6 +47,10 @@ import { ConversationDataAccess } from '../database/ConversationDataAccess';
 export interface SearchQuery {
   // Basic search
   query: string;
+  expression?: QueryNode; // Boolean query compiled by the query parser
+
+  // Tenant user to search as; only their conversations match
+  tenant: TenantContext;
 
   // Filters
   conversationIds?: string[];
@@ -45,6 +77,7 @@ export interface SearchQuery {
   highlightResults?: boolean;
   includeContext?: boolean; // Include surrounding messages
   fuzzySearch?: boolean;
+  semantic?: boolean; // Blend embedding similarity into the ranking
 }
 
 /**
@@ -75,8 +108,9 @@ export interface SearchResult {
 
   // Search-specific
   relevanceScore: number;
-  matchType: 'exact' | 'partial' | 'fuzzy';
+  matchType: 'exact' | 'partial' | 'fuzzy' | 'semantic';
   matchedTerms: string[];
+  matchedPassage?: MessagePassage & { similarity: number }; // Closest passage in semantic mode
 
   // Context messages (if requested)
   contextBefore?: ConversationMessage[];
@@ -138,6 +172,17 @@ export interface SearchConfig {
   recentMessageBoost: number;
   exactMatchBoost: number;
   agentMessageBoost: number;
+
+  // Inverted index
+  enableIndex: boolean;
+  indexBatchSize: number; // Conversations and messages read per query while building
+  indexCacheKey: string; // Cache key prefix for each tenant user's serialized index
+  indexCacheTtl: number; // seconds
+
+  // Semantic search (requires an embedder)
+  enableSemanticSearch: boolean; // Default for queries that do not set `semantic`
+  semanticWeight: number; // Share of the blended score from similarity, 0-1
+  semanticMinSimilarity: number; // Messages below this only match lexically
 }
 
 /**
@@ -161,8 +206,34 @@ export const DEFAULT_SEARCH_CONFIG: SearchConfig = {
   recentMessageBoost: 1.5,
   exactMatchBoost: 3.0,
   agentMessageBoost: 1.2,
+
+  enableIndex: true,
+  indexBatchSize: 500,
+  indexCacheKey: 'search:index:conversations',
+  indexCacheTtl: 604800, // 7 days
+
+  enableSemanticSearch: true,
+  semanticWeight: 0.5,
+  semanticMinSimilarity: 0.3,
 };
 
+/**
+ * Index match after ranking boosts
+ */
+interface RankedMatch {
+  message: IndexedMessage;
+  matchedTerms: string[];
+  relevanceScore: number;
+  matchType: SearchResult['matchType'];
+  passage?: SemanticMatch['passage'] & { similarity: number };
+}
+
+/**
+ * Key of the tenant user whose history an index build covers
+ */
+const scopeKey = (tenant: TenantContext) =>
+  `${tenant.tenantId}:${tenant.userId}`;
+
 /**
  * Main search engine class
  */
@@ -174,13 +245,35 @@ export class ConversationSearchEngine {
     { results: SearchResults; timestamp: number }
   >();
   private metrics: SearchMetrics;
+  // One index per tenant, so term statistics and suggestions never mix
+  // tenants
+  private indexes = new Map<string, InvertedIndex>();
+  // Tenant of each indexed message, for updates without the conversation
+  private messageTenants = new Map<string, string>();
+  // Tenant users whose stored history has been read into the index
+  private indexedScopes = new Set<string>();
+  // Builds in progress, so concurrent callers share one read of the history
+  private indexBuilds = new Map<string, Promise<number>>();
+  private cache: CacheManager | undefined;
+  private semantic: SemanticIndex | null;
+  private unsubscribe: () => void;
 
   constructor(
     dataAccess: ConversationDataAccess,
-    config: Partial<SearchConfig> = {}
+    config: Partial<SearchConfig> = {},
+    cache?: CacheManager,
+    embedder?: MessageEmbedder
   ) {
     this.config = { ...DEFAULT_SEARCH_CONFIG, ...config };
     this.dataAccess = dataAccess;
+    this.cache = cache;
+    this.semantic =
+      embedder && this.config.enableIndex ? new SemanticIndex(embedder) : null;
+    this.unsubscribe = this.config.enableIndex
+      ? dataAccess.onMessageCreated((message, conversation) =>
+          this.indexMessages([message], conversation)
+        )
+      : () => {};
     this.metrics = {
       totalQueries: 0,
       averageLatency: 0,
@@ -199,6 +292,8 @@ export class ConversationSearchEngine {
     this.metrics.totalQueries++;
 
     try {
+      assertTenantContext(query.tenant);
+
       // Validate and normalize query
       const normalizedQuery = this.normalizeQuery(query);
 
@@ -234,7 +329,12 @@ export class ConversationSearchEngine {
   /**
    * Get search suggestions based on partial query
    */
-  async getSuggestions(partialQuery: string, limit = 5): Promise<string[]> {
+  async getSuggestions(
+    partialQuery: string,
+    tenant: TenantContext,
+    limit = 5
+  ): Promise<string[]> {
+    assertTenantContext(tenant);
     if (!this.config.enableQuerySuggestions || partialQuery.length < 2) {
       return [];
     }
@@ -255,6 +355,7 @@ export class ConversationSearchEngine {
       if (suggestions.size < limit) {
         const termSuggestions = await this.getTermSuggestions(
           partialQuery,
+          tenant,
           limit - suggestions.size
         );
         termSuggestions.forEach((term) => suggestions.add(term));
@@ -273,11 +374,17 @@ export class ConversationSearchEngine {
   async getFacets(
     baseQuery: Omit<SearchQuery, 'limit' | 'offset'>
   ): Promise<SearchResults['facets']> {
+    assertTenantContext(baseQuery.tenant);
     if (!this.config.enableFacets) {
       return undefined;
     }
 
     try {
+      if (this.isIndexReady(baseQuery)) {
+        const matches = await this.rankMatches(this.normalizeQuery(baseQuery));
+        return this.buildFacets(matches.map(({ message }) => message));
+      }
+
       // This would typically be implemented with efficient database aggregations
       // For now, we'll return a simplified structure
       return {
@@ -306,15 +413,113 @@ export class ConversationSearchEngine {
    */
   async updateSearchIndex(messages: ConversationMessage[]): Promise<void> {
     try {
-      // In a production system, this would update the search index
-      // For now, we'll just clear relevant cache entries
-      this.clearCache();
-      this.metrics.lastIndexUpdate = new Date();
+      this.indexMessages(messages);
     } catch (error) {
       console.error('Index update error:', error);
     }
   }
 
+  /**
+   * Add or replace messages in the inverted index. Pass the conversation to
+   * record its tenant, title and owner; otherwise previously indexed values
+   * are kept. Messages whose tenant is unknown cannot be searched and are
+   * skipped. Messages whose metadata sets `searchable: false` are removed
+   * instead.
+   */
+  indexMessages(
+    messages: ConversationMessage[],
+    conversation?: Pick<Conversation, 'userId' | 'title'> &
+      Partial<Pick<Conversation, 'tenantId'>>
+  ): void {
+    if (!this.config.enableIndex) return;
+
+    const excluded = messages
+      .filter((message) => message.metadata?.searchable === false)
+      .map((message) => message.id);
+    const indexed = messages
+      .filter((message) => message.metadata?.searchable !== false)
+      .map((message) => this.toIndexedMessage(message, conversation))
+      .filter((message) => !!message.tenantId);
+
+    this.removeIndexed(excluded);
+    this.semantic?.remove(excluded);
+    this.addIndexed(indexed);
+  }
+
+  /**
+   * Remove messages from the inverted index
+   */
+  removeFromIndex(messageIds: string[]): void {
+    this.removeIndexed(messageIds);
+    this.semantic?.remove(messageIds);
+    this.onIndexChanged();
+  }
+
+  /**
+   * Resolves once queued messages have been embedded. Semantic searches
+   * wait for this themselves.
+   */
+  async waitForEmbeddings(): Promise<void> {
+    await this.semantic?.idle();
+  }
+
+  /**
+   * Read a user's stored conversations into the index, restoring them from
+   * the cache layer when a snapshot is saved there. Until this has finished
+   * for a tenant user, their searches go to the database, since the index
+   * only holds messages created while the engine was running. Returns the
+   * number of messages indexed; 0 when the user is already indexed.
+   */
+  async buildIndex(tenant: TenantContext): Promise<number> {
+    if (!this.config.enableIndex) return 0;
+
+    const scope = scopeKey(tenant);
+    if (this.indexedScopes.has(scope)) return 0;
+
+    let build = this.indexBuilds.get(scope);
+    if (!build) {
+      build = this.readHistory(tenant).finally(() =>
+        this.indexBuilds.delete(scope)
+      );
+      this.indexBuilds.set(scope, build);
+    }
+    return build;
+  }
+
+  /**
+   * Persist a user's part of the index to the cache layer. Returns false
+   * without a cache, or when their history has not been indexed yet.
+   */
+  async saveIndex(tenant: TenantContext): Promise<boolean> {
+    if (!this.cache || !this.indexedScopes.has(scopeKey(tenant))) {
+      return false;
+    }
+
+    const result = await this.cache.set(
+      this.indexCacheKey(tenant),
+      this.tenantIndex(tenant).serialize(
+        (message) => message.userId === tenant.userId
+      ),
+      this.config.indexCacheTtl
+    );
+    return result.success;
+  }
+
+  /**
+   * Restore a user's part of the index from the cache layer. Returns false
+   * when no snapshot is cached, leaving the index untouched.
+   */
+  async loadIndex(tenant: TenantContext): Promise<boolean> {
+    return (await this.restoreIndex(tenant)) !== undefined;
+  }
+
+  /**
+   * Stop listening for new messages
+   */
+  destroy(): void {
+    this.unsubscribe();
+  }
+
   /**
    * Get search performance metrics
    */
@@ -331,6 +536,92 @@ export class ConversationSearchEngine {
 
   // Private methods
 
+  private async readHistory(tenant: TenantContext): Promise<number> {
+    const restored = await this.restoreIndex(tenant);
+    if (restored !== undefined) return restored;
+
+    const batchSize = this.config.indexBatchSize;
+    let indexed = 0;
+    let cursor: string | undefined;
+    do {
+      const page = await this.dataAccess.listConversations(
+        tenant,
+        {},
+        { page: 0, pageSize: batchSize, ...(cursor ? { cursor } : {}) }
+      );
+
+      for (const { id, title } of page.data) {
+        const conversation = {
+          tenantId: tenant.tenantId,
+          userId: tenant.userId,
+          ...(title ? { title } : {}),
+        };
+        let batch: ConversationMessage[] = [];
+        for await (const message of this.dataAccess.streamMessages(id, tenant, {
+          batchSize,
+        })) {
+          batch.push(message);
+          if (batch.length === batchSize) {
+            this.indexMessages(batch, conversation);
+            indexed += batch.length;
+            batch = [];
+          }
+        }
+        if (batch.length > 0) {
+          this.indexMessages(batch, conversation);
+          indexed += batch.length;
+        }
+      }
+
+      cursor = page.pagination.nextCursor;
+    } while (cursor);
+
+    this.indexedScopes.add(scopeKey(tenant));
+    this.clearCache();
+    await this.saveIndex(tenant).catch((error) =>
+      console.error('Index save error:', error)
+    );
+    return indexed;
+  }
+
+  /**
+   * Add a user's cached snapshot to the index and mark them indexed.
+   * Returns the number of messages restored, or undefined when none is
+   * cached.
+   */
+  private async restoreIndex(
+    tenant: TenantContext
+  ): Promise<number | undefined> {
+    if (!this.cache) return undefined;
+
+    const result = await this.cache.get<InvertedIndexSnapshot>(
+      this.indexCacheKey(tenant)
+    );
+    if (!result.success || !result.value) return undefined;
+
+    let messages: IndexedMessage[];
+    try {
+      messages = [...InvertedIndex.fromSnapshot(result.value).messages()];
+    } catch (error) {
+      console.error('Index load error:', error);
+      return undefined;
+    }
+
+    // Only the user's own messages, whatever the snapshot holds
+    const own = messages.filter(
+      (message) =>
+        message.tenantId === tenant.tenantId && message.userId === tenant.userId
+    );
+    this.addIndexed(own);
+    this.indexedScopes.add(scopeKey(tenant));
+    this.clearCache();
+    return own.length;
+  }
+
+  private indexCacheKey(tenant: TenantContext): string {
+    return `${this.config.indexCacheKey}:${scopeKey(tenant)}`;
+  }
+
   private normalizeQuery(query: SearchQuery): SearchQuery {
     return {
       ...query,
@@ -344,23 +635,34 @@ export class ConversationSearchEngine {
         query.highlightResults !== false && this.config.enableHighlighting,
       includeContext: query.includeContext || false,
       fuzzySearch: query.fuzzySearch !== false && this.config.enableFuzzySearch,
+      semantic:
+        !!this.semantic && (query.semantic ?? this.config.enableSemanticSearch),
     };
   }
 
   private async performSearch(query: SearchQuery): Promise<SearchResults> {
+    if (this.isIndexReady(query)) {
+      return this.performIndexedSearch(query);
+    }
+
+    const tenant = query.tenant;
+
     // Build the database query
     const filter: ConversationFilter = {
       search: query.query,
       userId: query.userIds?.[0], // Take first user ID since filter expects a single userId
-      dateRange: query.dateFrom || query.dateTo ? {
-        start: query.dateFrom,
-        end: query.dateTo,
-      } : undefined,
+      dateRange:
+        query.dateFrom || query.dateTo
+          ? {
+              start: query.dateFrom,
+              end: query.dateTo,
+            }
+          : undefined,
       hasAttachments: query.hasAttachments,
     };
 
     // Search using the data access layer
-    const searchResult = await this.dataAccess.searchConversations({
+    const searchResult = await this.dataAccess.searchConversations(tenant, {
       query: query.query,
       filters: filter,
       pagination: {
@@ -379,6 +681,7 @@ export class ConversationSearchEngine {
         // Find matching messages in this conversation
         const matchingMessages = await this.findMatchingMessages(
           conversation.id,
+          tenant,
           query
         );
 
@@ -456,7 +759,7 @@ export class ConversationSearchEngine {
 
     // Get suggestions
     const suggestions = this.config.enableQuerySuggestions
-      ? await this.getSuggestions(query.query, 5)
+      ? await this.getSuggestions(query.query, query.tenant, 5)
       : undefined;
 
     return {
@@ -472,19 +775,558 @@ export class ConversationSearchEngine {
     };
   }
 
+  private async performIndexedSearch(
+    query: SearchQuery
+  ): Promise<SearchResults> {
+    const startTime = Date.now();
+    const index = this.tenantIndex(query.tenant);
+    const matches = await this.rankMatches(query);
+
+    matches.sort((a, b) => {
+      let order = 0;
+      if (query.sortBy === 'date') {
+        order = a.message.timestamp - b.message.timestamp;
+      } else if (query.sortBy === 'conversation') {
+        order = a.message.conversationId.localeCompare(
+          b.message.conversationId
+        );
+      }
+      if (order === 0) order = a.relevanceScore - b.relevanceScore;
+      return query.sortOrder === 'asc' ? order : -order;
+    });
+
+    const offset = query.offset || 0;
+    const page = matches.slice(offset, offset + (query.limit || 20));
+    const results: SearchResult[] = [];
+
+    for (const {
+      message,
+      matchedTerms,
+      relevanceScore,
+      matchType,
+      passage,
+    } of page) {
+      const result: SearchResult = {
+        id: `${message.conversationId}_${message.messageId}`,
+        messageId: message.messageId,
+        conversationId: message.conversationId,
+        content: message.content,
+        contentType: message.contentType,
+        authorId: message.authorId,
+        timestamp: new Date(message.timestamp),
+        relevanceScore,
+        matchType,
+        matchedTerms: index.matchedWords(message.content, matchedTerms),
+        ...(passage ? { matchedPassage: passage } : {}),
+        ...(message.attachments ? { attachments: message.attachments } : {}),
+        ...(message.agentId
+          ? {
+              agentInfo: {
+                id: message.agentId,
+                name: message.agentName || 'Assistant',
+                type: message.agentType || 'general',
+              },
+            }
+          : {}),
+      };
+
+      if (query.highlightResults) {
+        result.highlightedContent =
+          matchType === 'semantic' && passage
+            ? highlightPassage(message.content, passage)
+            : index.highlight(message.content, matchedTerms);
+      }
+
+      if (query.includeContext) {
+        const context = await this.getMessageContext(
+          message.messageId,
+          message.conversationId
+        );
+        result.contextBefore = context.before;
+        result.contextAfter = context.after;
+      }
+
+      results.push(result);
+    }
+
+    const facets = this.config.enableFacets
+      ? this.buildFacets(matches.map(({ message }) => message))
+      : undefined;
+    const suggestions = this.config.enableQuerySuggestions
+      ? await this.getSuggestions(query.query, query.tenant, 5)
+      : undefined;
+
+    return {
+      results,
+      totalCount: matches.length,
+      searchTime: Date.now() - startTime,
+      query,
+      ...(suggestions ? { suggestions } : {}),
+      ...(facets ? { facets } : {}),
+    };
+  }
+
+  /**
+   * Rank index matches, blending in embedding similarity for semantic
+   * queries. Lexical scores are normalised to 0-1 by the best match and
+   * mixed with the similarity of each message's closest passage; messages
+   * that only match semantically get the similarity share alone. Boolean
+   * expressions keep their lexical match set and are only re-ranked.
+   */
+  private async rankMatches(query: SearchQuery): Promise<RankedMatch[]> {
+    const index = this.tenantIndex(query.tenant);
+    const lexical = this.matchIndex(query);
+    if (!query.semantic || !this.semantic || !query.query) return lexical;
+
+    const semanticMatches = await this.semantic.search(query.query, {
+      minSimilarity: this.config.semanticMinSimilarity,
+      filter: (messageId) => {
+        const message = index.get(messageId);
+        return !!message && this.matchesFilters(message, query);
+      },
+    });
+
+    const weight = Math.min(Math.max(this.config.semanticWeight, 0), 1);
+    const maxScore = Math.max(0, ...lexical.map((m) => m.relevanceScore));
+    const bySimilarity = new Map(
+      semanticMatches.map((match) => [match.messageId, match])
+    );
+
+    const ranked: RankedMatch[] = lexical.map((match) => {
+      const semanticMatch = bySimilarity.get(match.message.messageId);
+      bySimilarity.delete(match.message.messageId);
+      const lexicalScore = maxScore > 0 ? match.relevanceScore / maxScore : 0;
+      const similarity = semanticMatch?.similarity ?? 0;
+
+      return {
+        ...match,
+        relevanceScore: (1 - weight) * lexicalScore + weight * similarity,
+        ...(semanticMatch
+          ? { passage: { ...semanticMatch.passage, similarity } }
+          : {}),
+      };
+    });
+
+    if (!query.expression) {
+      for (const { messageId, similarity, passage } of bySimilarity.values()) {
+        ranked.push({
+          message: index.get(messageId)!,
+          matchedTerms: [],
+          relevanceScore: weight * similarity,
+          matchType: 'semantic',
+          passage: { ...passage, similarity },
+        });
+      }
+    }
+
+    return ranked;
+  }
+
+  /**
+   * Run a query against the inverted index and apply ranking boosts
+   */
+  private matchIndex(query: SearchQuery): RankedMatch[] {
+    const dayInMs = 24 * 60 * 60 * 1000;
+    const lowerQuery = query.query.toLowerCase();
+    const titleMatches = new Map<string, boolean>();
+    const index = this.tenantIndex(query.tenant);
+
+    return this.findIndexMatches(query).map((match) => {
+      const message = index.get(match.messageId)!;
+      const matchType: SearchResult['matchType'] = match.fuzzy
+        ? 'fuzzy'
+        : message.content.toLowerCase().includes(lowerQuery)
+          ? 'exact'
+          : 'partial';
+
+      let relevanceScore = match.score;
+      if (matchType === 'exact') {
+        relevanceScore *= this.config.exactMatchBoost;
+      }
+      if (Date.now() - message.timestamp < dayInMs) {
+        relevanceScore *= this.config.recentMessageBoost;
+      }
+      if (message.agentId) {
+        relevanceScore *= this.config.agentMessageBoost;
+      }
+
+      let titleMatch = titleMatches.get(message.conversationId);
+      if (titleMatch === undefined) {
+        titleMatch =
+          !!message.conversationTitle &&
+          index.matchedWords(message.conversationTitle, match.matchedTerms)
+            .length > 0;
+        titleMatches.set(message.conversationId, titleMatch);
+      }
+      if (titleMatch) {
+        relevanceScore *= this.config.titleBoost;
+      }
+
+      return {
+        message,
+        matchedTerms: match.matchedTerms,
+        relevanceScore,
+        matchType,
+      };
+    });
+  }
+
+  private findIndexMatches(query: SearchQuery): IndexMatch[] {
+    const filter = (message: IndexedMessage) =>
+      this.matchesFilters(message, query);
+    const fuzzy = query.fuzzySearch ?? false;
+    const index = this.tenantIndex(query.tenant);
+
+    if (query.expression) {
+      return this.evaluateExpression(index, query.expression, filter, fuzzy);
+    }
+    if (query.query) {
+      return index.search(query.query, { filter, fuzzy });
+    }
+
+    // Filters only
+    return [...index.messages()].filter(filter).map((message) => ({
+      messageId: message.messageId,
+      score: 0,
+      matchedTerms: [],
+      fuzzy: false,
+    }));
+  }
+
+  /**
+   * Evaluate a boolean query expression. Each text term is looked up in the
+   * index once, and only messages containing a required term are tested
+   * unless the expression has none.
+   */
+  private evaluateExpression(
+    index: InvertedIndex,
+    expression: QueryNode,
+    filter: (message: IndexedMessage) => boolean,
+    fuzzy: boolean
+  ): IndexMatch[] {
+    const hits = new Map<QueryNode, Map<string, IndexMatch>>();
+    const positive: QueryNode[] = [];
+
+    const collect = (node: QueryNode, negated: boolean): void => {
+      if (node.type === 'text') {
+        const matches = index.search(
+          node.phrase ? `"${node.value}"` : node.value,
+          { fuzzy: fuzzy && !negated }
+        );
+        hits.set(
+          node,
+          new Map(matches.map((match) => [match.messageId, match]))
+        );
+        if (!negated) positive.push(node);
+      } else if (node.type === 'and' || node.type === 'or') {
+        node.children.forEach((child) => collect(child, negated));
+      } else if (node.type === 'not') {
+        collect(node.child, !negated);
+      }
+    };
+
+    const test = (node: QueryNode, message: IndexedMessage): boolean => {
+      switch (node.type) {
+        case 'text':
+          return hits.get(node)!.has(message.messageId);
+        case 'field':
+          return matchesQueryField(node, message);
+        case 'and':
+          return node.children.every((child) => test(child, message));
+        case 'or':
+          return node.children.some((child) => test(child, message));
+        case 'not':
+          return !test(node.child, message);
+      }
+    };
+
+    // Messages that could satisfy the node, or null for any message
+    const candidates = (node: QueryNode): Set<string> | null => {
+      if (node.type === 'text') {
+        return new Set(hits.get(node)!.keys());
+      }
+      if (node.type === 'and') {
+        const sets = node.children
+          .map(candidates)
+          .filter((set): set is Set<string> => set !== null)
+          .sort((a, b) => a.size - b.size);
+        const [smallest, ...rest] = sets;
+        if (!smallest) return null;
+        return new Set(
+          [...smallest].filter((id) => rest.every((set) => set.has(id)))
+        );
+      }
+      if (node.type === 'or') {
+        const sets = node.children.map(candidates);
+        if (sets.some((set) => set === null)) return null;
+        return new Set(sets.flatMap((set) => [...set!]));
+      }
+      return null;
+    };
+
+    collect(expression, false);
+    const ids = candidates(expression);
+    const messages = ids
+      ? [...ids].map((id) => index.get(id)!)
+      : [...index.messages()];
+
+    const matches: IndexMatch[] = [];
+    for (const message of messages) {
+      if (!filter(message) || !test(expression, message)) continue;
+
+      let score = 0;
+      let usedFuzzy = false;
+      const matchedTerms = new Set<string>();
+      for (const leaf of positive) {
+        const hit = hits.get(leaf)!.get(message.messageId);
+        if (!hit) continue;
+        score += hit.score;
+        usedFuzzy ||= hit.fuzzy;
+        hit.matchedTerms.forEach((term) => matchedTerms.add(term));
+      }
+
+      matches.push({
+        messageId: message.messageId,
+        score,
+        matchedTerms: [...matchedTerms],
+        fuzzy: usedFuzzy,
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  private matchesFilters(message: IndexedMessage, query: SearchQuery): boolean {
+    // The same scope as the database: the user's own conversations
+    if (
+      message.tenantId !== query.tenant.tenantId ||
+      message.userId !== query.tenant.userId
+    ) {
+      return false;
+    }
+    if (
+      query.conversationIds &&
+      !query.conversationIds.includes(message.conversationId)
+    ) {
+      return false;
+    }
+    if (query.userIds && !query.userIds.includes(message.userId)) {
+      return false;
+    }
+    if (
+      query.agentIds &&
+      (!message.agentId || !query.agentIds.includes(message.agentId))
+    ) {
+      return false;
+    }
+    if (
+      query.messageTypes &&
+      !(query.messageTypes as string[]).includes(message.role)
+    ) {
+      return false;
+    }
+    if (
+      query.contentTypes &&
+      !query.contentTypes.includes(message.contentType)
+    ) {
+      return false;
+    }
+    if (
+      query.hasAttachments !== undefined &&
+      (message.attachments?.length ?? 0) > 0 !== query.hasAttachments
+    ) {
+      return false;
+    }
+    if (query.dateFrom && message.timestamp < query.dateFrom.getTime()) {
+      return false;
+    }
+    if (query.dateTo && message.timestamp > query.dateTo.getTime()) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Count every matching message, not just the current page
+   */
+  private buildFacets(
+    messages: IndexedMessage[]
+  ): NonNullable<SearchResults['facets']> {
+    const conversations = new Map<string, { title: string; count: number }>();
+    const users = new Map<string, number>();
+    const agents = new Map<string, { name: string; count: number }>();
+    const contentTypes = new Map<string, number>();
+
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const dayInMs = 24 * 60 * 60 * 1000;
+    const dateRanges = [
+      { range: 'Today', since: startOfToday.getTime(), count: 0 },
+      { range: 'This week', since: Date.now() - 7 * dayInMs, count: 0 },
+      { range: 'This month', since: Date.now() - 30 * dayInMs, count: 0 },
+    ];
+
+    for (const message of messages) {
+      const conversation = conversations.get(message.conversationId);
+      if (conversation) {
+        conversation.count++;
+      } else {
+        conversations.set(message.conversationId, {
+          title: message.conversationTitle || 'Untitled conversation',
+          count: 1,
+        });
+      }
+
+      users.set(message.userId, (users.get(message.userId) ?? 0) + 1);
+
+      if (message.agentId) {
+        const agent = agents.get(message.agentId);
+        if (agent) {
+          agent.count++;
+        } else {
+          agents.set(message.agentId, {
+            name: message.agentName || 'Assistant',
+            count: 1,
+          });
+        }
+      }
+
+      for (const dateRange of dateRanges) {
+        if (message.timestamp >= dateRange.since) dateRange.count++;
+      }
+
+      contentTypes.set(
+        message.contentType,
+        (contentTypes.get(message.contentType) ?? 0) + 1
+      );
+    }
+
+    const byCount = (a: { count: number }, b: { count: number }) =>
+      b.count - a.count;
+
+    return {
+      conversations: [...conversations]
+        .map(([id, { title, count }]) => ({ id, title, count }))
+        .sort(byCount),
+      users: [...users]
+        .map(([id, count]) => ({ id, name: id, count }))
+        .sort(byCount),
+      agents: [...agents]
+        .map(([id, { name, count }]) => ({ id, name, count }))
+        .sort(byCount),
+      dateRanges: dateRanges.map(({ range, count }) => ({ range, count })),
+      contentTypes: [...contentTypes]
+        .map(([type, count]) => ({ type, count }))
+        .sort(byCount),
+    };
+  }
+
+  private embedMessages(messages: IndexedMessage[]): void {
+    if (!this.semantic || messages.length === 0) return;
+
+    this.semantic
+      .add(messages)
+      .then(() => this.clearCache())
+      .catch((error) => console.error('Embedding error:', error));
+  }
+
+  /**
+   * Whether the index holds the searching user's whole history
+   */
+  private isIndexReady(query: Pick<SearchQuery, 'tenant'>): boolean {
+    return (
+      this.config.enableIndex && this.indexedScopes.has(scopeKey(query.tenant))
+    );
+  }
+
+  /**
+   * Index of a tenant's messages, empty if none are indexed yet
+   */
+  private tenantIndex(tenant: TenantContext): InvertedIndex {
+    return this.indexes.get(tenant.tenantId) ?? new InvertedIndex();
+  }
+
+  private addIndexed(messages: IndexedMessage[]): void {
+    const byTenant = new Map<string, IndexedMessage[]>();
+    for (const message of messages) {
+      const tenantId = message.tenantId!;
+      byTenant.set(tenantId, [...(byTenant.get(tenantId) ?? []), message]);
+      this.messageTenants.set(message.messageId, tenantId);
+    }
+
+    byTenant.forEach((batch, tenantId) => {
+      let index = this.indexes.get(tenantId);
+      if (!index) {
+        index = new InvertedIndex();
+        this.indexes.set(tenantId, index);
+      }
+      index.add(batch);
+    });
+    this.embedMessages(messages);
+    this.onIndexChanged();
+  }
+
+  private removeIndexed(messageIds: string[]): void {
+    for (const messageId of messageIds) {
+      const tenantId = this.messageTenants.get(messageId);
+      if (tenantId === undefined) continue;
+      this.indexes.get(tenantId)?.remove([messageId]);
+      this.messageTenants.delete(messageId);
+    }
+  }
+
+  private onIndexChanged(): void {
+    this.clearCache();
+    this.metrics.indexSize = this.messageTenants.size;
+    this.metrics.lastIndexUpdate = new Date();
+  }
+
+  private toIndexedMessage(
+    message: ConversationMessage,
+    conversation?: Pick<Conversation, 'userId' | 'title'> &
+      Partial<Pick<Conversation, 'tenantId'>>
+  ): IndexedMessage {
+    const previousTenant = this.messageTenants.get(message.id);
+    const previous = previousTenant
+      ? this.indexes.get(previousTenant)?.get(message.id)
+      : undefined;
+    const tenantId = conversation?.tenantId ?? previousTenant;
+    const userId = conversation?.userId ?? previous?.userId ?? 'unknown';
+    const title = conversation?.title ?? previous?.conversationTitle;
+    const agentName = message.agentInfo?.name ?? message.metadata?.agentName;
+    const agentType = message.agentInfo?.type ?? message.metadata?.agentType;
+    const attachments = message.metadata?.ui?.attachments?.map((a) => a.id);
+
+    return {
+      messageId: message.id,
+      conversationId: message.conversationId,
+      ...(title ? { conversationTitle: title } : {}),
+      ...(tenantId ? { tenantId } : {}),
+      userId,
+      role: message.role,
+      authorId:
+        message.role === 'user' ? userId : message.agentId || 'assistant',
+      ...(message.agentId ? { agentId: message.agentId } : {}),
+      ...(agentName ? { agentName } : {}),
+      ...(agentType ? { agentType } : {}),
+      contentType: message.metadata?.contentType || 'text',
+      content: message.content,
+      timestamp: new Date(message.createdAt).getTime(),
+      ...(attachments?.length ? { attachments } : {}),
+    };
+  }
+
   private async findMatchingMessages(
     conversationId: string,
+    tenant: TenantContext,
     query: SearchQuery
   ): Promise<ConversationMessage[]> {
     // This would use the database's full-text search capabilities
     // For now, we'll simulate finding matching messages
-    const messages = await this.dataAccess.getMessages(
-      conversationId,
-      {
-        page: 1,
-        pageSize: 1000,
-      }
-    );
+    const messages = await this.dataAccess.getMessages(conversationId, tenant, {
+      page: 1,
+      pageSize: 1000,
+    });
 
     return (
       messages.data?.filter((message) => {
@@ -581,8 +1423,13 @@ export class ConversationSearchEngine {
 
   private async getTermSuggestions(
     partialQuery: string,
+    tenant: TenantContext,
     limit: number
   ): Promise<string[]> {
+    if (this.isIndexReady({ tenant })) {
+      return this.tenantIndex(tenant).suggestTerms(partialQuery, limit);
+    }
+
     // This would use the database to find similar terms
     // For now, return some basic suggestions
     const commonTerms = [
@@ -635,10 +1482,16 @@ export class ConversationSearchEngine {
   private generateCacheKey(query: SearchQuery): string {
     return JSON.stringify({
       query: query.query,
+      expression: query.expression,
+      tenantId: query.tenant.tenantId,
+      userId: query.tenant.userId,
       filters: {
         conversationIds: query.conversationIds,
         userIds: query.userIds,
         agentIds: query.agentIds,
+        messageTypes: query.messageTypes,
+        contentTypes: query.contentTypes,
+        hasAttachments: query.hasAttachments,
         dateFrom: query.dateFrom?.toISOString(),
         dateTo: query.dateTo?.toISOString(),
       },
@@ -646,6 +1499,7 @@ export class ConversationSearchEngine {
       offset: query.offset,
       sortBy: query.sortBy,
       sortOrder: query.sortOrder,
+      semantic: query.semantic,
     });
   }
 
@@ -670,9 +1524,11 @@ export class ConversationSearchEngine {
 // Factory function
 export function createSearchEngine(
   dataAccess: ConversationDataAccess,
-  config?: Partial<SearchConfig>
+  config?: Partial<SearchConfig>,
+  cache?: CacheManager,
+  embedder?: MessageEmbedder
 ): ConversationSearchEngine {
-  return new ConversationSearchEngine(dataAccess, config);
+  return new ConversationSearchEngine(dataAccess, config, cache, embedder);
 }
 
 export default ConversationSearchEngine;
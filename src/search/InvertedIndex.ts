@@ -0,0 +1,532 @@
+/**
+ * Inverted Index
+ *
+ * Positional in-memory inverted index over conversation messages with BM25
+ * scoring, phrase and prefix queries and typo-tolerant fallback matching.
+ * Snapshots are plain JSON so the index can be stored in the cache layer.
+ */
+
+import type { ConversationMessage } from '../types/conversation';
+import {
+  ENGLISH_STOP_WORDS,
+  analyzeText,
+  boundedEditDistance,
+  type AnalyzedToken,
+  type TextAnalysisOptions,
+} from './TextAnalysis';
+
+/**
+ * Message fields stored in the index
+ */
+export interface IndexedMessage {
+  messageId: string;
+  conversationId: string;
+  conversationTitle?: string;
+  tenantId?: string; // Conversation tenant
+  userId: string; // Conversation owner
+  role: ConversationMessage['role'];
+  authorId: string;
+  agentId?: string;
+  agentName?: string;
+  agentType?: string;
+  contentType: string;
+  content: string;
+  timestamp: number; // Epoch milliseconds
+  attachments?: string[];
+}
+
+/**
+ * Inverted index configuration
+ */
+export interface InvertedIndexConfig {
+  k1: number; // BM25 term frequency saturation
+  b: number; // BM25 document length normalisation
+  stopWords: string[];
+  stemming: boolean;
+  maxExpansions: number; // Vocabulary terms a prefix or fuzzy term may expand to
+}
+
+/**
+ * Single clause of a free-text query
+ */
+export type TextQueryClause =
+  | { type: 'term'; text: string; term: string }
+  | { type: 'prefix'; text: string; prefix: string }
+  | {
+      type: 'phrase';
+      text: string;
+      terms: Array<{ term: string; offset: number }>;
+    };
+
+/**
+ * Scored match returned by the index
+ */
+export interface IndexMatch {
+  messageId: string;
+  score: number;
+  matchedTerms: string[]; // Index terms that matched, after stemming and expansion
+  fuzzy: boolean;
+}
+
+/**
+ * Index search options
+ */
+export interface IndexSearchOptions {
+  filter?: (message: IndexedMessage) => boolean;
+  fuzzy?: boolean; // Retry with edit-distance expansion when nothing matches
+}
+
+/**
+ * Serialized index snapshot
+ */
+export interface InvertedIndexSnapshot {
+  version: 1;
+  config: InvertedIndexConfig;
+  documents: IndexedMessage[];
+}
+
+/**
+ * Indexed document
+ */
+interface IndexedDocument {
+  message: IndexedMessage;
+  length: number;
+  terms: string[];
+}
+
+export const DEFAULT_INVERTED_INDEX_CONFIG: InvertedIndexConfig = {
+  k1: 1.2,
+  b: 0.75,
+  stopWords: ENGLISH_STOP_WORDS,
+  stemming: true,
+  maxExpansions: 50,
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text for safe inclusion in HTML markup
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]!);
+}
+
+export class InvertedIndex {
+  private config: InvertedIndexConfig;
+  private analysis: TextAnalysisOptions;
+  private documents = new Map<string, IndexedDocument>();
+  // term -> message id -> word positions
+  private postings = new Map<string, Map<string, number[]>>();
+  // surface word -> term, used to expand prefix and fuzzy queries
+  private vocabulary = new Map<string, string>();
+  private sortedVocabulary: string[] | null = null;
+  private totalLength = 0;
+
+  constructor(config: Partial<InvertedIndexConfig> = {}) {
+    this.config = { ...DEFAULT_INVERTED_INDEX_CONFIG, ...config };
+    this.analysis = {
+      stopWords: new Set(this.config.stopWords),
+      stemming: this.config.stemming,
+    };
+  }
+
+  /**
+   * Restore an index from a snapshot
+   */
+  static fromSnapshot(snapshot: InvertedIndexSnapshot): InvertedIndex {
+    if (snapshot.version !== 1) {
+      throw new Error(
+        `Unsupported search index snapshot version: ${snapshot.version}`
+      );
+    }
+
+    const index = new InvertedIndex(snapshot.config);
+    index.add(snapshot.documents);
+    return index;
+  }
+
+  /**
+   * Serialize indexed messages, or those passing `filter`, so the index can
+   * be rebuilt later
+   */
+  serialize(
+    filter: (message: IndexedMessage) => boolean = () => true
+  ): InvertedIndexSnapshot {
+    return {
+      version: 1,
+      config: { ...this.config },
+      documents: [...this.messages()].filter(filter),
+    };
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  get termCount(): number {
+    return this.postings.size;
+  }
+
+  has(messageId: string): boolean {
+    return this.documents.has(messageId);
+  }
+
+  get(messageId: string): IndexedMessage | undefined {
+    return this.documents.get(messageId)?.message;
+  }
+
+  *messages(): IterableIterator<IndexedMessage> {
+    for (const { message } of this.documents.values()) yield message;
+  }
+
+  /**
+   * Add or replace messages
+   */
+  add(messages: IndexedMessage[]): void {
+    for (const message of messages) {
+      this.removeDocument(message.messageId);
+
+      const tokens = this.analyze(message.content);
+      const positions = new Map<string, number[]>();
+      for (const token of tokens) {
+        const termPositions = positions.get(token.term);
+        if (termPositions) {
+          termPositions.push(token.position);
+        } else {
+          positions.set(token.term, [token.position]);
+        }
+
+        if (!this.vocabulary.has(token.surface)) {
+          this.vocabulary.set(token.surface, token.term);
+          this.sortedVocabulary = null;
+        }
+      }
+
+      for (const [term, termPositions] of positions) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        posting.set(message.messageId, termPositions);
+      }
+
+      this.documents.set(message.messageId, {
+        message,
+        length: tokens.length,
+        terms: [...positions.keys()],
+      });
+      this.totalLength += tokens.length;
+    }
+  }
+
+  /**
+   * Remove messages by id
+   */
+  remove(messageIds: string[]): void {
+    for (const messageId of messageIds) {
+      this.removeDocument(messageId);
+    }
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.vocabulary.clear();
+    this.sortedVocabulary = null;
+    this.totalLength = 0;
+  }
+
+  /**
+   * Parse free text into clauses. Quoted text becomes a phrase, a trailing
+   * `*` makes a prefix query, and stop words are ignored.
+   */
+  parseQuery(text: string): TextQueryClause[] {
+    const clauses: TextQueryClause[] = [];
+
+    for (const match of text.matchAll(/"([^"]*)"?|(\S+)/g)) {
+      const raw = match[0];
+
+      if (match[2] !== undefined && /^[\p{L}\p{N}_]+\*$/u.test(raw)) {
+        clauses.push({
+          type: 'prefix',
+          text: raw,
+          prefix: raw.slice(0, -1).toLowerCase(),
+        });
+        continue;
+      }
+
+      const tokens = this.analyze(match[1] ?? raw);
+      const first = tokens[0];
+      if (!first) continue;
+
+      if (tokens.length === 1) {
+        clauses.push({ type: 'term', text: raw, term: first.term });
+      } else {
+        clauses.push({
+          type: 'phrase',
+          text: raw,
+          terms: tokens.map((token) => ({
+            term: token.term,
+            offset: token.position - first.position,
+          })),
+        });
+      }
+    }
+
+    return clauses;
+  }
+
+  /**
+   * Find messages matching every clause of a query, best first
+   */
+  search(
+    query: string | TextQueryClause[],
+    options: IndexSearchOptions = {}
+  ): IndexMatch[] {
+    const clauses = typeof query === 'string' ? this.parseQuery(query) : query;
+    if (clauses.length === 0) return [];
+
+    const matches = this.match(clauses, options.filter, false);
+    if (matches.length > 0 || !options.fuzzy) return matches;
+
+    return this.match(clauses, options.filter, true);
+  }
+
+  /**
+   * Wrap words whose terms matched in <mark> tags. The rest of the content
+   * is HTML-escaped so the result is safe to render as markup.
+   */
+  highlight(content: string, matchedTerms: Iterable<string>): string {
+    const terms = new Set(matchedTerms);
+    let highlighted = '';
+    let cursor = 0;
+
+    for (const token of this.analyze(content)) {
+      if (!terms.has(token.term)) continue;
+      highlighted += escapeHtml(content.slice(cursor, token.start));
+      highlighted += `<mark>${escapeHtml(content.slice(token.start, token.end))}</mark>`;
+      cursor = token.end;
+    }
+
+    return highlighted + escapeHtml(content.slice(cursor));
+  }
+
+  /**
+   * Distinct words in the content whose terms matched
+   */
+  matchedWords(content: string, matchedTerms: Iterable<string>): string[] {
+    const terms = new Set(matchedTerms);
+    const words = new Set<string>();
+    for (const token of this.analyze(content)) {
+      if (terms.has(token.term)) words.add(token.surface);
+    }
+    return [...words];
+  }
+
+  /**
+   * Indexed words starting with a prefix, most frequent first
+   */
+  suggestTerms(prefix: string, limit = 5): string[] {
+    return this.expandPrefix(prefix.toLowerCase(), Number.POSITIVE_INFINITY)
+      .map((surface) => ({
+        surface,
+        frequency: this.postings.get(this.vocabulary.get(surface)!)?.size ?? 0,
+      }))
+      .filter(({ frequency }) => frequency > 0)
+      .sort((a, b) => b.frequency - a.frequency)
+      .slice(0, limit)
+      .map(({ surface }) => surface);
+  }
+
+  private analyze(text: string): AnalyzedToken[] {
+    return analyzeText(text, this.analysis);
+  }
+
+  private removeDocument(messageId: string): void {
+    const document = this.documents.get(messageId);
+    if (!document) return;
+
+    for (const term of document.terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(messageId);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+
+    this.totalLength -= document.length;
+    this.documents.delete(messageId);
+  }
+
+  private match(
+    clauses: TextQueryClause[],
+    filter: IndexSearchOptions['filter'],
+    fuzzy: boolean
+  ): IndexMatch[] {
+    // For each clause: candidate message ids and the terms they matched
+    const clauseMatches = clauses.map((clause) =>
+      this.matchClause(clause, fuzzy)
+    );
+    clauseMatches.sort((a, b) => a.size - b.size);
+
+    const [smallest, ...rest] = clauseMatches;
+    if (!smallest) return [];
+
+    const averageLength = this.totalLength / Math.max(this.documents.size, 1);
+    const matches: IndexMatch[] = [];
+
+    for (const [messageId, firstTerms] of smallest) {
+      if (!rest.every((clauseMatch) => clauseMatch.has(messageId))) continue;
+
+      const document = this.documents.get(messageId)!;
+      if (filter && !filter(document.message)) continue;
+
+      const matchedTerms = new Set(firstTerms);
+      for (const clauseMatch of rest) {
+        for (const term of clauseMatch.get(messageId)!) matchedTerms.add(term);
+      }
+
+      let score = 0;
+      for (const term of matchedTerms) {
+        const posting = this.postings.get(term)!;
+        const frequency = posting.get(messageId)!.length;
+        const idf = Math.log(
+          1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5)
+        );
+        score +=
+          (idf * frequency * (this.config.k1 + 1)) /
+          (frequency +
+            this.config.k1 *
+              (1 -
+                this.config.b +
+                (this.config.b * document.length) / averageLength));
+      }
+
+      matches.push({
+        messageId,
+        score,
+        matchedTerms: [...matchedTerms],
+        fuzzy,
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  private matchClause(
+    clause: TextQueryClause,
+    fuzzy: boolean
+  ): Map<string, string[]> {
+    const matches = new Map<string, string[]>();
+
+    if (clause.type === 'phrase') {
+      const postings = clause.terms.map(({ term, offset }) => ({
+        term,
+        offset,
+        posting: this.postings.get(term),
+      }));
+      if (postings.some(({ posting }) => !posting)) return matches;
+
+      const [anchor, ...others] = postings;
+      for (const [messageId, positions] of anchor!.posting!) {
+        const found = positions.some((position) =>
+          others.every(({ offset, posting }) =>
+            posting!
+              .get(messageId)
+              ?.includes(position - anchor!.offset + offset)
+          )
+        );
+        if (found)
+          matches.set(messageId, [
+            ...new Set(clause.terms.map(({ term }) => term)),
+          ]);
+      }
+      return matches;
+    }
+
+    let terms: string[];
+    if (clause.type === 'prefix') {
+      terms = this.surfacesToTerms(
+        this.expandPrefix(clause.prefix, this.config.maxExpansions)
+      );
+    } else if (fuzzy) {
+      const surface = this.analyze(clause.text)[0]?.surface ?? clause.term;
+      terms = this.surfacesToTerms(this.expandFuzzy(surface));
+    } else {
+      terms = [clause.term];
+    }
+
+    for (const term of terms) {
+      for (const messageId of this.postings.get(term)?.keys() ?? []) {
+        const matched = matches.get(messageId);
+        if (matched) {
+          matched.push(term);
+        } else {
+          matches.set(messageId, [term]);
+        }
+      }
+    }
+    return matches;
+  }
+
+  private expandPrefix(prefix: string, limit: number): string[] {
+    if (!this.sortedVocabulary) {
+      this.sortedVocabulary = [...this.vocabulary.keys()].sort();
+    }
+    const vocabulary = this.sortedVocabulary;
+
+    // Binary search for the first word >= prefix
+    let low = 0;
+    let high = vocabulary.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (vocabulary[middle]! < prefix) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    const surfaces: string[] = [];
+    for (
+      let i = low;
+      i < vocabulary.length &&
+      vocabulary[i]!.startsWith(prefix) &&
+      surfaces.length < limit;
+      i++
+    ) {
+      surfaces.push(vocabulary[i]!);
+    }
+    return surfaces;
+  }
+
+  private expandFuzzy(word: string): string[] {
+    // Short words produce too many false positives
+    if (word.length < 4) return [];
+    const maxDistance = word.length >= 8 ? 2 : 1;
+
+    const surfaces: string[] = [];
+    for (const surface of this.vocabulary.keys()) {
+      if (surfaces.length >= this.config.maxExpansions) break;
+      if (boundedEditDistance(surface, word, maxDistance) <= maxDistance) {
+        surfaces.push(surface);
+      }
+    }
+    return surfaces;
+  }
+
+  private surfacesToTerms(surfaces: string[]): string[] {
+    return [
+      ...new Set(
+        surfaces
+          .map((surface) => this.vocabulary.get(surface)!)
+          .filter((term) => this.postings.has(term))
+      ),
+    ];
+  }
+}
@@ -0,0 +1,544 @@
+/**
+ * Search Query Parser
+ *
+ * Parses a Gmail-style query language into an AST and compiles it into
+ * `SearchQuery` filters:
+ *
+ *   agent:billing from:2026-01-01 has:attachment "refund policy" -spam
+ *   (refund OR return) AND NOT role:system
+ *
+ * Terms are combined with AND unless separated by OR; `-` and NOT negate;
+ * parentheses group. Parse errors carry source offsets so inputs can
+ * underline them, and parsing recovers so a usable AST is still produced.
+ */
+
+import type { SearchQuery } from './ConversationSearchEngine';
+import type { IndexedMessage } from './InvertedIndex';
+
+export type QueryFieldName =
+  | 'agent'
+  | 'user'
+  | 'conversation'
+  | 'role'
+  | 'type'
+  | 'has'
+  | 'from'
+  | 'to'
+  | 'after'
+  | 'before';
+
+/**
+ * Query AST node. Offsets are UTF-16 indices into the input, end exclusive.
+ */
+export type QueryNode =
+  | { type: 'text'; value: string; phrase: boolean; start: number; end: number }
+  | {
+      type: 'field';
+      field: QueryFieldName;
+      value: string;
+      start: number;
+      end: number;
+    }
+  | { type: 'and' | 'or'; children: QueryNode[]; start: number; end: number }
+  | { type: 'not'; child: QueryNode; start: number; end: number };
+
+/**
+ * Parse error with the offending input range
+ */
+export interface QueryParseError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Result of parsing a query
+ */
+export interface ParsedSearchQuery {
+  input: string;
+  ast: QueryNode | null;
+  errors: QueryParseError[];
+}
+
+/**
+ * Field names accepted in queries, including aliases
+ */
+export const QUERY_FIELDS: Record<string, QueryFieldName> = {
+  agent: 'agent',
+  user: 'user',
+  conversation: 'conversation',
+  in: 'conversation',
+  role: 'role',
+  is: 'role',
+  type: 'type',
+  has: 'has',
+  from: 'from',
+  to: 'to',
+  after: 'after',
+  before: 'before',
+};
+
+const ROLES = ['user', 'assistant', 'system'] as const;
+const DATE_FIELDS: QueryFieldName[] = ['from', 'to', 'after', 'before'];
+
+type Token =
+  | {
+      kind: 'lparen' | 'rparen' | 'or' | 'and' | 'not';
+      start: number;
+      end: number;
+    }
+  | {
+      kind: 'term';
+      field?: QueryFieldName;
+      value: string;
+      quoted: boolean;
+      start: number;
+      end: number;
+    };
+
+/**
+ * Parse a query string
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const errors: QueryParseError[] = [];
+  const tokens = tokenize(input, errors);
+  const parser = new Parser(tokens, errors);
+  const ast = parser.parse();
+  return { input, ast, errors };
+}
+
+function tokenize(input: string, errors: QueryParseError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (quoteStart: number): { value: string; end: number } => {
+    const close = input.indexOf('"', quoteStart + 1);
+    if (close === -1) {
+      errors.push({
+        message: 'Unterminated quote',
+        start: quoteStart,
+        end: input.length,
+      });
+      return { value: input.slice(quoteStart + 1), end: input.length };
+    }
+    return { value: input.slice(quoteStart + 1, close), end: close + 1 };
+  };
+
+  while (i < input.length) {
+    const char = input[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({
+        kind: char === '(' ? 'lparen' : 'rparen',
+        start: i,
+        end: i + 1,
+      });
+      i++;
+    } else if (
+      char === '-' &&
+      i + 1 < input.length &&
+      /[^\s)]/.test(input[i + 1]!)
+    ) {
+      tokens.push({ kind: 'not', start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(i);
+      tokens.push({ kind: 'term', value, quoted: true, start: i, end });
+      i = end;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()"]/.test(input[i]!)) i++;
+      const word = input.slice(start, i);
+
+      if (word === 'OR' || word === '|') {
+        tokens.push({ kind: 'or', start, end: i });
+        continue;
+      }
+      if (word === 'AND' || word === 'NOT') {
+        tokens.push({ kind: word === 'AND' ? 'and' : 'not', start, end: i });
+        continue;
+      }
+
+      const fieldMatch = /^([a-zA-Z]+):(.*)$/.exec(word);
+      const field = fieldMatch && QUERY_FIELDS[fieldMatch[1]!.toLowerCase()];
+      if (!fieldMatch || !field) {
+        tokens.push({
+          kind: 'term',
+          value: word,
+          quoted: false,
+          start,
+          end: i,
+        });
+        continue;
+      }
+
+      let value = fieldMatch[2]!;
+      let quoted = false;
+      if (value === '' && input[i] === '"') {
+        const quotedValue = readQuoted(i);
+        value = quotedValue.value;
+        quoted = true;
+        i = quotedValue.end;
+      }
+      tokens.push({ kind: 'term', field, value, quoted, start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(
+    private tokens: Token[],
+    private errors: QueryParseError[]
+  ) {}
+
+  parse(): QueryNode | null {
+    const parts: QueryNode[] = [];
+
+    while (this.position < this.tokens.length) {
+      const node = this.parseOr();
+      if (node) parts.push(node);
+
+      // parseOr only stops early at a closing parenthesis
+      const stray = this.tokens[this.position];
+      if (stray) {
+        this.error('Unmatched closing parenthesis', stray);
+        this.position++;
+      }
+    }
+
+    return combine('and', parts);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private error(message: string, range: { start: number; end: number }): void {
+    this.errors.push({ message, start: range.start, end: range.end });
+  }
+
+  private parseOr(): QueryNode | null {
+    const children: QueryNode[] = [];
+    const first = this.parseAnd();
+    if (first) children.push(first);
+
+    let token = this.peek();
+    while (token?.kind === 'or') {
+      this.position++;
+      if (children.length === 0) {
+        this.error('Expected a search term before OR', token);
+      }
+
+      const next = this.peek();
+      const right =
+        next && next.kind !== 'rparen' && next.kind !== 'or'
+          ? this.parseAnd()
+          : null;
+      if (right) {
+        children.push(right);
+      } else {
+        this.error('Expected a search term after OR', token);
+      }
+      token = this.peek();
+    }
+
+    return combine('or', children);
+  }
+
+  private parseAnd(): QueryNode | null {
+    const children: QueryNode[] = [];
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.kind === 'rparen' || token.kind === 'or') break;
+
+      if (token.kind === 'and') {
+        this.position++;
+        if (children.length === 0) {
+          this.error('Expected a search term before AND', token);
+        }
+        const next = this.peek();
+        if (!next || next.kind === 'rparen' || next.kind === 'or') {
+          this.error('Expected a search term after AND', token);
+        }
+        continue;
+      }
+
+      const node = this.parseUnary();
+      if (node) children.push(node);
+    }
+
+    return combine('and', children);
+  }
+
+  private parseUnary(): QueryNode | null {
+    const token = this.peek();
+    if (!token) return null;
+    this.position++;
+
+    if (token.kind === 'not') {
+      const next = this.peek();
+      const child =
+        next &&
+        next.kind !== 'rparen' &&
+        next.kind !== 'or' &&
+        next.kind !== 'and'
+          ? this.parseUnary()
+          : null;
+      if (!child) {
+        this.error('Expected a search term to exclude', token);
+        return null;
+      }
+      return { type: 'not', child, start: token.start, end: child.end };
+    }
+
+    if (token.kind === 'lparen') {
+      const inner = this.parseOr();
+      const close = this.peek();
+      if (close?.kind === 'rparen') {
+        this.position++;
+      } else {
+        this.error('Missing closing parenthesis', token);
+      }
+      if (!inner) {
+        this.error('Empty group', {
+          start: token.start,
+          end: close?.kind === 'rparen' ? close.end : token.end,
+        });
+      }
+      return inner;
+    }
+
+    if (token.kind !== 'term') return null;
+
+    if (!token.field) {
+      // Bare punctuation carries no searchable words
+      return !/[\p{L}\p{N}]/u.test(token.value)
+        ? null
+        : {
+            type: 'text',
+            value: token.value,
+            phrase: token.quoted,
+            start: token.start,
+            end: token.end,
+          };
+    }
+
+    const message = validateFieldValue(token.field, token.value);
+    if (message) {
+      this.error(message, token);
+      return null;
+    }
+    return {
+      type: 'field',
+      field: token.field,
+      value: token.value,
+      start: token.start,
+      end: token.end,
+    };
+  }
+}
+
+function combine(type: 'and' | 'or', children: QueryNode[]): QueryNode | null {
+  if (children.length <= 1) return children[0] ?? null;
+  return {
+    type,
+    children,
+    start: children[0]!.start,
+    end: children[children.length - 1]!.end,
+  };
+}
+
+function validateFieldValue(
+  field: QueryFieldName,
+  value: string
+): string | null {
+  if (value === '') return `Missing value for ${field}:`;
+  if (DATE_FIELDS.includes(field) && !parseQueryDate(value)) {
+    return `Invalid date "${value}", expected YYYY-MM-DD`;
+  }
+  if (
+    field === 'role' &&
+    !(ROLES as readonly string[]).includes(value.toLowerCase())
+  ) {
+    return `Unknown role "${value}", expected ${ROLES.join(', ')}`;
+  }
+  if (field === 'has' && !/^attachments?$/i.test(value)) {
+    return `Unknown has: value "${value}", expected attachment`;
+  }
+  return null;
+}
+
+/**
+ * Parse a YYYY-MM-DD (or YYYY/MM/DD) date as local midnight
+ */
+export function parseQueryDate(value: string): Date | null {
+  const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number) as [
+    number,
+    number,
+    number,
+  ];
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+/**
+ * Date bounds selected by a date field, inclusive
+ */
+function dateBounds(
+  field: QueryFieldName,
+  value: string
+): { from?: Date; to?: Date } {
+  const day = parseQueryDate(value)!;
+  const nextDay = new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate() + 1
+  );
+
+  switch (field) {
+    case 'from':
+    case 'after':
+      return { from: day };
+    case 'to':
+      return { to: new Date(nextDay.getTime() - 1) };
+    default:
+      return { to: new Date(day.getTime() - 1) };
+  }
+}
+
+/**
+ * Whether an indexed message satisfies a field node
+ */
+export function matchesQueryField(
+  node: Extract<QueryNode, { type: 'field' }>,
+  message: IndexedMessage
+): boolean {
+  const value = node.value.toLowerCase();
+
+  switch (node.field) {
+    case 'agent':
+      return message.agentId?.toLowerCase() === value;
+    case 'user':
+      return message.userId.toLowerCase() === value;
+    case 'conversation':
+      return message.conversationId.toLowerCase() === value;
+    case 'role':
+      return message.role === value;
+    case 'type':
+      return message.contentType.toLowerCase() === value;
+    case 'has':
+      return (message.attachments?.length ?? 0) > 0;
+    default: {
+      const { from, to } = dateBounds(node.field, node.value);
+      return (
+        (!from || message.timestamp >= from.getTime()) &&
+        (!to || message.timestamp <= to.getTime())
+      );
+    }
+  }
+}
+
+/**
+ * Free text of the positive (non-negated) text terms, for display, caching
+ * and backends without expression support
+ */
+export function queryText(node: QueryNode | null): string {
+  if (!node) return '';
+  switch (node.type) {
+    case 'text':
+      return node.phrase ? `"${node.value}"` : node.value;
+    case 'and':
+    case 'or':
+      return node.children.map(queryText).filter(Boolean).join(' ');
+    default:
+      return '';
+  }
+}
+
+/**
+ * Compile an AST into search query fields. Field terms ANDed at the top
+ * level become filters; queries using OR or NOT also carry the AST as
+ * `expression` for the search engine to evaluate.
+ */
+export function compileSearchQuery(
+  ast: QueryNode | null
+): Partial<SearchQuery> & { query: string } {
+  const compiled: Partial<SearchQuery> & { query: string } = {
+    query: queryText(ast),
+  };
+  if (!ast) return compiled;
+
+  let needsExpression = containsBoolean(ast);
+  const conjuncts = ast.type === 'and' ? ast.children : [ast];
+  const addTo = <
+    K extends 'agentIds' | 'userIds' | 'conversationIds' | 'contentTypes',
+  >(
+    key: K,
+    value: string
+  ) => {
+    // A second value for the same field would widen the filter to OR
+    if (compiled[key]) needsExpression = true;
+    compiled[key] = [...(compiled[key] ?? []), value];
+  };
+
+  for (const node of conjuncts) {
+    if (node.type !== 'field') continue;
+
+    switch (node.field) {
+      case 'agent':
+        addTo('agentIds', node.value);
+        break;
+      case 'user':
+        addTo('userIds', node.value);
+        break;
+      case 'conversation':
+        addTo('conversationIds', node.value);
+        break;
+      case 'type':
+        addTo('contentTypes', node.value);
+        break;
+      case 'role': {
+        if (compiled.messageTypes) needsExpression = true;
+        const role = node.value.toLowerCase() as (typeof ROLES)[number];
+        compiled.messageTypes = [...(compiled.messageTypes ?? []), role];
+        break;
+      }
+      case 'has':
+        compiled.hasAttachments = true;
+        break;
+      default: {
+        const { from, to } = dateBounds(node.field, node.value);
+        if (from && (!compiled.dateFrom || from > compiled.dateFrom)) {
+          compiled.dateFrom = from;
+        }
+        if (to && (!compiled.dateTo || to < compiled.dateTo)) {
+          compiled.dateTo = to;
+        }
+      }
+    }
+  }
+
+  if (needsExpression) compiled.expression = ast;
+  return compiled;
+}
+
+function containsBoolean(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'or':
+    case 'not':
+      return true;
+    case 'and':
+      return node.children.some(containsBoolean);
+    default:
+      return false;
+  }
+}
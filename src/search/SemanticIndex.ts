@@ -0,0 +1,300 @@
+/**
+ * Semantic Index
+ *
+ * Passage embeddings for conversation messages. Messages are split into
+ * sentence-aligned passages, each passage is embedded once per content hash,
+ * and queries are ranked by the cosine similarity of their best passage.
+ */
+
+import { embedMany, type EmbeddingModel } from 'ai';
+import { chunkContent } from '../knowledge/DocumentChunkers';
+import {
+  MemoryEmbeddingCache,
+  embeddingCacheKey,
+  hashContent,
+  type EmbeddingCache,
+} from '../knowledge/EmbeddingCache';
+import { computeSimilarity } from '../knowledge/VectorStore';
+import { escapeHtml } from './InvertedIndex';
+
+/**
+ * Turns texts into embedding vectors
+ */
+export interface MessageEmbedder {
+  modelId: string; // Part of the embedding cache key
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Semantic index configuration
+ */
+export interface SemanticIndexConfig {
+  passageSize: number; // characters
+  passageOverlap: number; // characters
+  batchSize: number; // Passages sent to the embedder per call
+}
+
+/**
+ * Span of a message that was embedded on its own
+ */
+export interface MessagePassage {
+  text: string;
+  start: number; // Character offset into the message content
+  end: number;
+}
+
+/**
+ * Message ranked by its most similar passage
+ */
+export interface SemanticMatch {
+  messageId: string;
+  similarity: number;
+  passage: MessagePassage;
+}
+
+/**
+ * Semantic search options
+ */
+export interface SemanticSearchOptions {
+  filter?: (messageId: string) => boolean;
+  minSimilarity?: number;
+  limit?: number;
+}
+
+export const DEFAULT_SEMANTIC_INDEX_CONFIG: SemanticIndexConfig = {
+  passageSize: 500,
+  passageOverlap: 100,
+  batchSize: 64,
+};
+
+interface EmbeddedPassage extends MessagePassage {
+  vector: number[];
+}
+
+/**
+ * Embed texts with an AI SDK embedding model, such as the one returned by
+ * the gateway's `createEmbeddingModel`
+ */
+export function createGatewayEmbedder(
+  model: EmbeddingModel<string>
+): MessageEmbedder {
+  return {
+    modelId: model.modelId,
+    embed: async (texts) => {
+      const { embeddings } = await embedMany({ model, values: texts });
+      return embeddings;
+    },
+  };
+}
+
+/**
+ * Split message content into passages with character offsets
+ */
+export function splitPassages(
+  content: string,
+  config: Pick<SemanticIndexConfig, 'passageSize' | 'passageOverlap'>
+): MessagePassage[] {
+  if (!content.trim()) return [];
+
+  const passages: MessagePassage[] = [];
+  let cursor = 0;
+  for (const chunk of chunkContent(content, 'text', {
+    strategy: 'sentence',
+    chunkSize: config.passageSize,
+    overlap: config.passageOverlap,
+  })) {
+    const text = chunk.content.trim();
+    if (!text) continue;
+
+    const found = content.indexOf(text, cursor);
+    const start = found === -1 ? cursor : found;
+    passages.push({ text, start, end: start + text.length });
+    cursor = start + 1;
+  }
+  return passages;
+}
+
+/**
+ * Wrap a passage of the content in `<mark>`, escaping everything else
+ */
+export function highlightPassage(
+  content: string,
+  passage: Pick<MessagePassage, 'start' | 'end'>
+): string {
+  return (
+    escapeHtml(content.slice(0, passage.start)) +
+    `<mark>${escapeHtml(content.slice(passage.start, passage.end))}</mark>` +
+    escapeHtml(content.slice(passage.end))
+  );
+}
+
+export class SemanticIndex {
+  private config: SemanticIndexConfig;
+  private embedder: MessageEmbedder;
+  private cache: EmbeddingCache;
+  private passages = new Map<string, EmbeddedPassage[]>();
+  // Content hash of the latest version of each message, set before embedding
+  private hashes = new Map<string, string>();
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    embedder: MessageEmbedder,
+    config: Partial<SemanticIndexConfig> = {},
+    cache: EmbeddingCache = new MemoryEmbeddingCache()
+  ) {
+    this.config = { ...DEFAULT_SEMANTIC_INDEX_CONFIG, ...config };
+    this.embedder = embedder;
+    this.cache = cache;
+  }
+
+  /**
+   * Number of messages with embedded passages
+   */
+  get size(): number {
+    return this.passages.size;
+  }
+
+  has(messageId: string): boolean {
+    return this.passages.has(messageId);
+  }
+
+  /**
+   * Embed messages, replacing earlier versions. Unchanged messages are
+   * skipped. Batches are embedded one after another; the returned promise
+   * settles when this batch is done and rejects if embedding failed.
+   */
+  add(messages: Array<{ messageId: string; content: string }>): Promise<void> {
+    const changed = messages.filter(({ messageId, content }) => {
+      const hash = hashContent(content);
+      if (this.hashes.get(messageId) === hash) return false;
+      this.hashes.set(messageId, hash);
+      return true;
+    });
+    if (changed.length === 0) return this.pending;
+
+    const batch = this.pending.then(() => this.embedMessages(changed));
+    this.pending = batch.catch(() => undefined);
+    return batch;
+  }
+
+  remove(messageIds: string[]): void {
+    for (const messageId of messageIds) {
+      this.hashes.delete(messageId);
+      this.passages.delete(messageId);
+    }
+  }
+
+  clear(): void {
+    this.hashes.clear();
+    this.passages.clear();
+  }
+
+  /**
+   * Settles once every queued message has been embedded
+   */
+  idle(): Promise<void> {
+    return this.pending;
+  }
+
+  /**
+   * Rank messages by the similarity of their closest passage to the query
+   */
+  async search(
+    query: string,
+    options: SemanticSearchOptions = {}
+  ): Promise<SemanticMatch[]> {
+    await this.idle();
+    if (!query.trim() || this.passages.size === 0) return [];
+
+    const [queryVector] = await this.embedder.embed([query]);
+    if (!queryVector) return [];
+
+    const minSimilarity = options.minSimilarity ?? 0;
+    const matches: SemanticMatch[] = [];
+
+    for (const [messageId, passages] of this.passages) {
+      if (options.filter && !options.filter(messageId)) continue;
+
+      let best: SemanticMatch | null = null;
+      for (const { vector, ...passage } of passages) {
+        const similarity = computeSimilarity(queryVector, vector, 'cosine');
+        if (!best || similarity > best.similarity) {
+          best = { messageId, similarity, passage };
+        }
+      }
+      if (best && best.similarity >= minSimilarity) matches.push(best);
+    }
+
+    matches.sort((a, b) => b.similarity - a.similarity);
+    return options.limit === undefined
+      ? matches
+      : matches.slice(0, options.limit);
+  }
+
+  private async embedMessages(
+    messages: Array<{ messageId: string; content: string }>
+  ): Promise<void> {
+    const split = messages.map(({ messageId, content }) => ({
+      messageId,
+      hash: hashContent(content),
+      passages: splitPassages(content, this.config),
+    }));
+    const texts = [
+      ...new Set(split.flatMap(({ passages }) => passages.map((p) => p.text))),
+    ];
+    const vectors = await this.embedTexts(texts);
+
+    for (const { messageId, hash, passages } of split) {
+      // Skip messages removed or replaced while embedding
+      if (this.hashes.get(messageId) !== hash) continue;
+
+      this.passages.set(
+        messageId,
+        passages.map((passage) => ({
+          ...passage,
+          vector: vectors.get(passage.text)!,
+        }))
+      );
+    }
+  }
+
+  /**
+   * Embed texts through the cache, calling the embedder only for misses
+   */
+  private async embedTexts(texts: string[]): Promise<Map<string, number[]>> {
+    const keys = texts.map((text) =>
+      embeddingCacheKey(this.embedder.modelId, hashContent(text))
+    );
+    const cached = await this.cache.getMany(keys);
+    const vectors = new Map<string, number[]>();
+    const missing: number[] = [];
+
+    texts.forEach((text, index) => {
+      const vector = cached[index];
+      if (vector) {
+        vectors.set(text, vector);
+      } else {
+        missing.push(index);
+      }
+    });
+
+    for (let i = 0; i < missing.length; i += this.config.batchSize) {
+      const batch = missing.slice(i, i + this.config.batchSize);
+      const embeddings = await this.embedder.embed(
+        batch.map((index) => texts[index]!)
+      );
+      if (embeddings.length !== batch.length) {
+        throw new Error(
+          `Embedder returned ${embeddings.length} vectors for ${batch.length} passages`
+        );
+      }
+
+      await this.cache.setMany(
+        batch.map((index, j) => [keys[index]!, embeddings[j]!])
+      );
+      batch.forEach((index, j) => vectors.set(texts[index]!, embeddings[j]!));
+    }
+
+    return vectors;
+  }
+}
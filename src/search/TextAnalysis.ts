@@ -0,0 +1,276 @@
+/**
+ * Text Analysis
+ *
+ * Tokenization, stop word removal and Porter stemming shared by the
+ * conversation search index and its query parser.
+ */
+
+/**
+ * Token produced by text analysis
+ */
+export interface AnalyzedToken {
+  term: string; // Normalized (stemmed) form stored in the index
+  surface: string; // Lowercased word as it appeared in the text
+  position: number; // Word position, counting removed stop words
+  start: number; // UTF-16 offset of the word in the source text
+  end: number;
+}
+
+/**
+ * Text analysis options
+ */
+export interface TextAnalysisOptions {
+  stopWords: ReadonlySet<string>;
+  stemming: boolean;
+}
+
+export const ENGLISH_STOP_WORDS = [
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'but',
+  'by',
+  'for',
+  'from',
+  'had',
+  'has',
+  'have',
+  'he',
+  'her',
+  'his',
+  'i',
+  'if',
+  'in',
+  'into',
+  'is',
+  'it',
+  'its',
+  'me',
+  'my',
+  'of',
+  'on',
+  'or',
+  'our',
+  'she',
+  'so',
+  'such',
+  'than',
+  'that',
+  'the',
+  'their',
+  'then',
+  'there',
+  'these',
+  'they',
+  'this',
+  'to',
+  'us',
+  'was',
+  'we',
+  'were',
+  'will',
+  'with',
+  'you',
+  'your',
+];
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+(?:['’][\p{L}]+)*/gu;
+
+/**
+ * Split text into index tokens. Stop words are dropped but still advance
+ * the position counter so phrase queries keep their word spacing.
+ */
+export function analyzeText(
+  text: string,
+  options: TextAnalysisOptions
+): AnalyzedToken[] {
+  const tokens: AnalyzedToken[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const surface = match[0].toLowerCase().replace(/['’]s$/, '');
+    const current = position++;
+    if (options.stopWords.has(surface)) continue;
+
+    const start = match.index ?? 0;
+    tokens.push({
+      term: options.stemming ? porterStem(surface) : surface,
+      surface,
+      position: current,
+      start,
+      end: start + match[0].length,
+    });
+  }
+
+  return tokens;
+}
+
+// Porter stemmer (M.F. Porter, 1980). Only plain ASCII words are stemmed.
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate',
+  tional: 'tion',
+  enci: 'ence',
+  anci: 'ance',
+  izer: 'ize',
+  bli: 'ble',
+  alli: 'al',
+  entli: 'ent',
+  eli: 'e',
+  ousli: 'ous',
+  ization: 'ize',
+  ation: 'ate',
+  ator: 'ate',
+  alism: 'al',
+  iveness: 'ive',
+  fulness: 'ful',
+  ousness: 'ous',
+  aliti: 'al',
+  iviti: 'ive',
+  biliti: 'ble',
+  logi: 'log',
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic',
+  ative: '',
+  alize: 'al',
+  iciti: 'ic',
+  ical: 'ic',
+  ful: '',
+  ness: '',
+};
+
+const CONSONANT_SEQUENCE = '[^aeiou][^aeiouy]*';
+const VOWEL_SEQUENCE = '[aeiouy][aeiou]*';
+// Measure m > 0, m = 1 and m > 1 of a stem in Porter's [C](VC)^m[V] form
+const MEASURE_GT_0 = new RegExp(
+  `^(${CONSONANT_SEQUENCE})?${VOWEL_SEQUENCE}${CONSONANT_SEQUENCE}`
+);
+const MEASURE_EQ_1 = new RegExp(
+  `^(${CONSONANT_SEQUENCE})?${VOWEL_SEQUENCE}${CONSONANT_SEQUENCE}(${VOWEL_SEQUENCE})?$`
+);
+const MEASURE_GT_1 = new RegExp(
+  `^(${CONSONANT_SEQUENCE})?${VOWEL_SEQUENCE}${CONSONANT_SEQUENCE}${VOWEL_SEQUENCE}${CONSONANT_SEQUENCE}`
+);
+const HAS_VOWEL = new RegExp(`^(${CONSONANT_SEQUENCE})?[aeiouy]`);
+const ENDS_CVC = new RegExp(`^${CONSONANT_SEQUENCE}[aeiouy][^aeiouwxy]$`);
+
+/**
+ * Reduce an English word to its Porter stem
+ */
+export function porterStem(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) return word;
+
+  // A leading y acts as a consonant
+  const leadingY = word[0] === 'y';
+  let w = leadingY ? `Y${word.slice(1)}` : word;
+  let match: RegExpExecArray | null;
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) {
+    w = match[1]! + match[2]!;
+  } else if ((match = /^(.+?)([^s])s$/.exec(w))) {
+    w = match[1]! + match[2]!;
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_GT_0.test(match[1]!)) w = w.slice(0, -1);
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w))) {
+    const stem = match[1]!;
+    if (HAS_VOWEL.test(stem)) {
+      w = stem;
+      if (/(at|bl|iz)$/.test(w)) {
+        w += 'e';
+      } else if (/([^aeiouylsz])\1$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (ENDS_CVC.test(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y -> i
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1]!)) {
+    w = `${match[1]}i`;
+  }
+
+  // Step 2: double suffixes
+  match =
+    /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(
+      w
+    );
+  if (match && MEASURE_GT_0.test(match[1]!)) {
+    w = match[1]! + STEP2_SUFFIXES[match[2]!];
+  }
+
+  // Step 3: -ic-, -full, -ness
+  match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w);
+  if (match && MEASURE_GT_0.test(match[1]!)) {
+    w = match[1]! + STEP3_SUFFIXES[match[2]!];
+  }
+
+  // Step 4: remaining suffixes
+  if (
+    (match =
+      /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(
+        w
+      ))
+  ) {
+    if (MEASURE_GT_1.test(match[1]!)) w = match[1]!;
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    const stem = match[1]! + match[2]!;
+    if (MEASURE_GT_1.test(stem)) w = stem;
+  }
+
+  // Step 5: trailing e and double l
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const stem = match[1]!;
+    if (
+      MEASURE_GT_1.test(stem) ||
+      (MEASURE_EQ_1.test(stem) && !ENDS_CVC.test(stem))
+    ) {
+      w = stem;
+    }
+  }
+  if (/ll$/.test(w) && MEASURE_GT_1.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  return leadingY ? `y${w.slice(1)}` : w;
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds maxDistance
+ */
+export function boundedEditDistance(
+  a: string,
+  b: string,
+  maxDistance: number
+): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      const value = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + cost
+      );
+      current.push(value);
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+    if (rowMinimum > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
@@ -0,0 +1,498 @@
+/**
+ * Tests for text analysis, the inverted index and indexed conversation search
+ */
+
+import { porterStem, analyzeText, ENGLISH_STOP_WORDS } from '../TextAnalysis';
+import { InvertedIndex, type IndexedMessage } from '../InvertedIndex';
+import { ConversationSearchEngine } from '../ConversationSearchEngine';
+import { ConversationDataAccess } from '../../database/ConversationDataAccess';
+import { createTenantContext } from '../../database/TenantContext';
+import {
+  MemoryConversationRepository,
+  createMemoryDatabase,
+} from '../../database/MemoryConversationRepository';
+import type { ConnectionManager } from '../../database/ConnectionManager';
+import type { CacheManager } from '../../cache/CacheManager';
+
+function message(
+  messageId: string,
+  content: string,
+  overrides: Partial<IndexedMessage> = {}
+): IndexedMessage {
+  return {
+    messageId,
+    conversationId: 'conv_1',
+    userId: 'user_1',
+    role: 'user',
+    authorId: 'user_1',
+    contentType: 'text',
+    content,
+    timestamp: Date.parse('2026-01-15T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('TextAnalysis', () => {
+  it('should stem English words with the Porter algorithm', () => {
+    const cases: Record<string, string> = {
+      caresses: 'caress',
+      ponies: 'poni',
+      shipping: 'ship',
+      shipped: 'ship',
+      refunds: 'refund',
+      hopeful: 'hope',
+      relational: 'relat',
+      generalization: 'gener',
+      yelling: 'yell',
+      agreed: 'agre',
+    };
+    for (const [word, stem] of Object.entries(cases)) {
+      expect(porterStem(word)).toBe(stem);
+    }
+    expect(porterStem('café')).toBe('café');
+  });
+
+  it('should keep word positions across removed stop words', () => {
+    const tokens = analyzeText("The customer's order is out of stock", {
+      stopWords: new Set(ENGLISH_STOP_WORDS),
+      stemming: true,
+    });
+
+    expect(tokens.map(({ term, position }) => [term, position])).toEqual([
+      ['custom', 1],
+      ['order', 2],
+      ['out', 4],
+      ['stock', 6],
+    ]);
+    expect(tokens[0]).toMatchObject({ surface: 'customer', start: 4, end: 14 });
+  });
+});
+
+describe('InvertedIndex', () => {
+  const build = () => {
+    const index = new InvertedIndex();
+    index.add([
+      message('m1', 'Your refund policy allows returns within 30 days'),
+      message('m2', 'The policy on refunds changed last week'),
+      message('m3', 'Shipping delays are expected for international orders'),
+      message('m4', 'Refunding <b>shipped</b> items takes a while'),
+    ]);
+    return index;
+  };
+
+  it('should match stemmed terms with every clause required', () => {
+    const index = build();
+
+    expect(
+      index
+        .search('refunds')
+        .map((m) => m.messageId)
+        .sort()
+    ).toEqual(['m1', 'm2', 'm4']);
+    expect(
+      index
+        .search('refund policy')
+        .map((m) => m.messageId)
+        .sort()
+    ).toEqual(['m1', 'm2']);
+    expect(index.search('the of')).toEqual([]);
+  });
+
+  it('should support phrase and prefix queries', () => {
+    const index = build();
+
+    expect(index.search('"refund policy"').map((m) => m.messageId)).toEqual([
+      'm1',
+    ]);
+    expect(index.search('"policy on refunds"').map((m) => m.messageId)).toEqual(
+      ['m2']
+    );
+    expect(index.search('intern*').map((m) => m.messageId)).toEqual(['m3']);
+    expect(
+      index
+        .search('ship*')
+        .map((m) => m.messageId)
+        .sort()
+    ).toEqual(['m3', 'm4']);
+  });
+
+  it('should fall back to fuzzy matching when asked', () => {
+    const index = build();
+
+    expect(index.search('internatonal')).toEqual([]);
+    expect(index.search('internatonal', { fuzzy: true })).toEqual([
+      expect.objectContaining({ messageId: 'm3', fuzzy: true }),
+    ]);
+  });
+
+  it('should apply filters and keep the index current on removal', () => {
+    const index = build();
+    index.add([message('m2', 'Nothing about money here')]);
+    index.remove(['m4']);
+
+    expect(index.size).toBe(3);
+    expect(index.search('refund').map((m) => m.messageId)).toEqual(['m1']);
+    expect(
+      index.search('policy', { filter: (m) => m.messageId !== 'm1' })
+    ).toEqual([]);
+  });
+
+  it('should highlight matched words and escape markup', () => {
+    const index = build();
+    const [match] = index.search('refund ship*');
+
+    expect(index.highlight(index.get('m4')!.content, match!.matchedTerms)).toBe(
+      '<mark>Refunding</mark> &lt;b&gt;<mark>shipped</mark>&lt;/b&gt; items takes a while'
+    );
+    expect(
+      index.matchedWords(index.get('m4')!.content, match!.matchedTerms)
+    ).toEqual(['refunding', 'shipped']);
+    expect(index.suggestTerms('re')).toEqual([
+      'refund',
+      'refunding',
+      'refunds',
+      'returns',
+    ]);
+  });
+
+  it('should round-trip through a JSON snapshot', () => {
+    const index = build();
+    const restored = InvertedIndex.fromSnapshot(
+      JSON.parse(JSON.stringify(index.serialize()))
+    );
+
+    expect(restored.size).toBe(4);
+    expect(restored.termCount).toBe(index.termCount);
+    expect(restored.search('"refund policy"')).toEqual(
+      index.search('"refund policy"')
+    );
+  });
+});
+
+describe('ConversationSearchEngine with inverted index', () => {
+  const conversationRow = {
+    id: 'conv_1',
+    tenant_id: 'acme',
+    user_id: 'user_1',
+    title: 'Refund request',
+    created_at: '2026-01-15T09:00:00Z',
+    updated_at: '2026-01-15T09:00:00Z',
+    status: 'active',
+  };
+
+  function createDataAccess() {
+    const query = jest.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('FROM conversations')) {
+        return { data: [conversationRow] };
+      }
+      if (sql.includes('INSERT INTO messages')) {
+        return {
+          data: [
+            {
+              id: params[0],
+              conversation_id: params[1],
+              role: params[2],
+              content: params[3],
+              agent_id: params[4],
+              metadata: params[5],
+              created_at: '2026-01-15T10:00:00Z',
+            },
+          ],
+        };
+      }
+      return { data: [] };
+    });
+    const dataAccess = new ConversationDataAccess({
+      getProvider: () => 'postgres',
+      query,
+    } as unknown as ConnectionManager);
+    return { dataAccess, query };
+  }
+
+  it('should index messages from createMessage and answer from the index', async () => {
+    const { dataAccess, query } = createDataAccess();
+    const engine = new ConversationSearchEngine(dataAccess, {
+      enableQuerySuggestions: false,
+    });
+    const context = createTenantContext('acme', 'user_1');
+    await engine.buildIndex(context);
+
+    await dataAccess.createMessage(
+      'conv_1',
+      { role: 'user', content: 'I want a refund for my late order' } as any,
+      context
+    );
+    await dataAccess.createMessage(
+      'conv_1',
+      {
+        role: 'assistant',
+        content: 'Refunds for late orders are processed in 5 days',
+        agentId: 'billing',
+        metadata: { contentType: 'markdown' },
+      } as any,
+      context
+    );
+    await dataAccess.createMessage(
+      'conv_1',
+      {
+        role: 'user',
+        content: 'Private note',
+        metadata: { searchable: false },
+      } as any,
+      context
+    );
+    query.mockClear();
+
+    const results = await engine.search({
+      query: 'refund orders',
+      tenant: context,
+      limit: 1,
+    });
+
+    expect(query).not.toHaveBeenCalled();
+    expect(results.totalCount).toBe(2);
+    expect(results.results).toHaveLength(1);
+    expect(results.results[0]).toMatchObject({
+      conversationId: 'conv_1',
+      matchType: 'partial',
+    });
+    expect(results.facets).toMatchObject({
+      conversations: [{ id: 'conv_1', title: 'Refund request', count: 2 }],
+      users: [{ id: 'user_1', count: 2 }],
+      agents: [{ id: 'billing', count: 1 }],
+      contentTypes: expect.arrayContaining([
+        { type: 'text', count: 1 },
+        { type: 'markdown', count: 1 },
+      ]),
+    });
+    expect(engine.getMetrics().indexSize).toBe(2);
+
+    const filtered = await engine.search({
+      query: 'refund',
+      tenant: context,
+      agentIds: ['billing'],
+    });
+    expect(filtered.results.map((r) => r.agentInfo?.id)).toEqual(['billing']);
+    expect(filtered.results[0]!.highlightedContent).toBe(
+      '<mark>Refunds</mark> for late orders are processed in 5 days'
+    );
+
+    const otherTenant = await engine.search({
+      query: 'refund',
+      tenant: createTenantContext('globex', 'user_1'),
+    });
+    expect(otherTenant.totalCount).toBe(0);
+
+    engine.destroy();
+  });
+
+  it('should index stored history before answering from the index', async () => {
+    const dataAccess = new ConversationDataAccess(
+      {} as ConnectionManager,
+      new MemoryConversationRepository(createMemoryDatabase())
+    );
+    const context = createTenantContext('acme', 'user_1');
+
+    // History written before the engine exists
+    for (const title of ['Tracking', 'Returns', 'Billing']) {
+      const conversation = await dataAccess.createConversation(context, {
+        title,
+      });
+      await dataAccess.createMessage(
+        conversation.data!.id,
+        { role: 'user', content: `Question about my parcel: ${title}` },
+        context
+      );
+    }
+
+    const engine = new ConversationSearchEngine(dataAccess, {
+      enableCaching: false,
+      enableQuerySuggestions: false,
+      indexBatchSize: 2,
+    });
+    const searchConversations = jest.spyOn(dataAccess, 'searchConversations');
+
+    // Messages created since startup do not make the index complete
+    const live = await dataAccess.createConversation(context, {
+      title: 'Live',
+    });
+    await dataAccess.createMessage(
+      live.data!.id,
+      { role: 'user', content: 'Where is my parcel now?' },
+      context
+    );
+    await engine.search({ query: 'parcel', tenant: context });
+    expect(searchConversations).toHaveBeenCalledTimes(1);
+
+    expect(await engine.buildIndex(context)).toBe(4);
+    const results = await engine.search({ query: 'parcel', tenant: context });
+
+    expect(searchConversations).toHaveBeenCalledTimes(1);
+    expect(results.totalCount).toBe(4);
+    expect(results.facets?.conversations.map((c) => c.title).sort()).toEqual([
+      'Billing',
+      'Live',
+      'Returns',
+      'Tracking',
+    ]);
+
+    // Other users of the tenant still go to the database
+    await engine.search({
+      query: 'parcel',
+      tenant: createTenantContext('acme', 'user_2'),
+    });
+    expect(searchConversations).toHaveBeenCalledTimes(2);
+    engine.destroy();
+  });
+
+  it('should read stored history once however often the build is started', async () => {
+    const dataAccess = new ConversationDataAccess(
+      {} as ConnectionManager,
+      new MemoryConversationRepository(createMemoryDatabase())
+    );
+    const context = createTenantContext('acme', 'user_1');
+    const conversation = await dataAccess.createConversation(context, {
+      title: 'Tracking',
+    });
+    await dataAccess.createMessage(
+      conversation.data!.id,
+      { role: 'user', content: 'Where is my parcel?' },
+      context
+    );
+
+    const engine = new ConversationSearchEngine(dataAccess);
+    const listConversations = jest.spyOn(dataAccess, 'listConversations');
+
+    expect(
+      await Promise.all([
+        engine.buildIndex(context),
+        engine.buildIndex(context),
+      ])
+    ).toEqual([1, 1]);
+    expect(await engine.buildIndex(context)).toBe(0);
+    expect(listConversations).toHaveBeenCalledTimes(1);
+    engine.destroy();
+  });
+
+  it('should save each tenant user index to the cache layer and restore it', async () => {
+    const store = new Map<string, unknown>();
+    const cache = {
+      set: jest.fn(async (key: string, value: unknown) => {
+        store.set(key, JSON.parse(JSON.stringify(value)));
+        return { success: true };
+      }),
+      get: jest.fn(async (key: string) => ({
+        success: true,
+        value: store.get(key),
+      })),
+    } as unknown as CacheManager;
+
+    const dataAccess = new ConversationDataAccess(
+      {} as ConnectionManager,
+      new MemoryConversationRepository(createMemoryDatabase())
+    );
+    const alice = createTenantContext('acme', 'user_1');
+    const bob = createTenantContext('acme', 'user_2');
+    for (const [tenant, content] of [
+      [alice, 'Where is my parcel?'],
+      [bob, 'My parcel is damaged'],
+    ] as const) {
+      const conversation = await dataAccess.createConversation(tenant, {
+        title: 'Tracking',
+      });
+      await dataAccess.createMessage(
+        conversation.data!.id,
+        { role: 'user', content },
+        tenant
+      );
+    }
+
+    const writer = new ConversationSearchEngine(dataAccess, {}, cache);
+    expect(await writer.saveIndex(alice)).toBe(false);
+    await writer.buildIndex(alice);
+    await writer.buildIndex(bob);
+    writer.destroy();
+
+    expect([...store.keys()]).toEqual([
+      'search:index:conversations:acme:user_1',
+      'search:index:conversations:acme:user_2',
+    ]);
+
+    const reader = new ConversationSearchEngine(
+      dataAccess,
+      { enableCaching: false },
+      cache
+    );
+    const listConversations = jest.spyOn(dataAccess, 'listConversations');
+    const searchConversations = jest.spyOn(dataAccess, 'searchConversations');
+
+    expect(await reader.buildIndex(alice)).toBe(1);
+    expect(listConversations).not.toHaveBeenCalled();
+
+    const results = await reader.search({ query: 'parcel', tenant: alice });
+    expect(searchConversations).not.toHaveBeenCalled();
+    expect(results.results.map((r) => r.content)).toEqual([
+      'Where is my parcel?',
+    ]);
+    expect(await reader.loadIndex(createTenantContext('acme', 'user_3'))).toBe(
+      false
+    );
+    reader.destroy();
+  });
+  it('should keep indexed searches, facets and suggestions within the tenant', async () => {
+    const dataAccess = new ConversationDataAccess(
+      {} as ConnectionManager,
+      new MemoryConversationRepository(createMemoryDatabase())
+    );
+    const acme = createTenantContext('acme', 'user_1');
+    const globex = createTenantContext('globex', 'user_1');
+    const engine = new ConversationSearchEngine(dataAccess);
+
+    for (const [tenant, content] of [
+      [acme, 'Refund for the damaged parcel'],
+      [globex, 'Refund for the confidential merger invoice'],
+    ] as const) {
+      const conversation = await dataAccess.createConversation(tenant, {
+        title: 'Refunds',
+      });
+      await dataAccess.createMessage(
+        conversation.data!.id,
+        { role: 'user', content },
+        tenant
+      );
+      await engine.buildIndex(tenant);
+    }
+
+    const results = await engine.search({ query: 'refund', tenant: acme });
+    expect(results.results.map((r) => r.content)).toEqual([
+      'Refund for the damaged parcel',
+    ]);
+    expect(results.facets?.conversations).toEqual([
+      expect.objectContaining({ count: 1 }),
+    ]);
+    expect(
+      (await engine.search({ query: 'merger', tenant: acme })).totalCount
+    ).toBe(0);
+    expect(
+      await engine.getFacets({ query: 'refund', tenant: acme } as any)
+    ).toMatchObject({ users: [{ id: 'user_1', count: 1 }] });
+
+    expect(await engine.getSuggestions('con', acme)).toEqual([]);
+    expect(await engine.getSuggestions('con', globex)).toEqual([
+      'confidential',
+    ]);
+
+    await expect(engine.search({ query: 'refund' } as any)).rejects.toThrow(
+      'A tenant context from createTenantContext is required for data access'
+    );
+    await expect(
+      engine.getSuggestions('con', undefined as any)
+    ).rejects.toThrow(
+      'A tenant context from createTenantContext is required for data access'
+    );
+    await expect(engine.getFacets({ query: 'refund' } as any)).rejects.toThrow(
+      'A tenant context from createTenantContext is required for data access'
+    );
+    engine.destroy();
+  });
+});
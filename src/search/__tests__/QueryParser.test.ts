@@ -0,0 +1,201 @@
+/**
+ * Tests for the search query language
+ */
+
+import {
+  compileSearchQuery,
+  parseSearchQuery,
+  queryText,
+} from '../QueryParser';
+import { ConversationSearchEngine } from '../ConversationSearchEngine';
+import type { ConversationDataAccess } from '../../database/ConversationDataAccess';
+import { createTenantContext } from '../../database/TenantContext';
+import type { ConversationMessage } from '../../types/conversation';
+
+describe('parseSearchQuery', () => {
+  it('should parse fields, phrases and negation with implicit AND', () => {
+    const { ast, errors } = parseSearchQuery(
+      'agent:billing from:2026-01-01 has:attachment "refund policy" -spam'
+    );
+
+    expect(errors).toEqual([]);
+    expect(ast).toMatchObject({
+      type: 'and',
+      children: [
+        { type: 'field', field: 'agent', value: 'billing', start: 0, end: 13 },
+        { type: 'field', field: 'from', value: '2026-01-01' },
+        { type: 'field', field: 'has', value: 'attachment' },
+        { type: 'text', value: 'refund policy', phrase: true, start: 45 },
+        { type: 'not', child: { type: 'text', value: 'spam' }, start: 61 },
+      ],
+    });
+  });
+
+  it('should bind AND tighter than OR and honour grouping', () => {
+    const { ast, errors } = parseSearchQuery(
+      'refund OR return AND NOT (role:system | in:"conv 1")'
+    );
+
+    expect(errors).toEqual([]);
+    expect(ast).toMatchObject({
+      type: 'or',
+      children: [
+        { type: 'text', value: 'refund' },
+        {
+          type: 'and',
+          children: [
+            { type: 'text', value: 'return' },
+            {
+              type: 'not',
+              child: {
+                type: 'or',
+                children: [
+                  { type: 'field', field: 'role', value: 'system' },
+                  { type: 'field', field: 'conversation', value: 'conv 1' },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    });
+    expect(queryText(ast)).toBe('refund return');
+  });
+
+  it('should report errors with positions and recover', () => {
+    const input = 'from:2026-13-01 (refund OR ) role:bot "open';
+    const { ast, errors } = parseSearchQuery(input);
+
+    expect(errors).toEqual([
+      { message: 'Unterminated quote', start: 38, end: 43 },
+      {
+        message: 'Invalid date "2026-13-01", expected YYYY-MM-DD',
+        start: 0,
+        end: 15,
+      },
+      { message: 'Expected a search term after OR', start: 24, end: 26 },
+      {
+        message: 'Unknown role "bot", expected user, assistant, system',
+        start: 29,
+        end: 37,
+      },
+    ]);
+    expect(queryText(ast)).toBe('refund "open"');
+  });
+
+  it('should flag unbalanced parentheses', () => {
+    expect(parseSearchQuery('(refund').errors).toEqual([
+      { message: 'Missing closing parenthesis', start: 0, end: 1 },
+    ]);
+    expect(parseSearchQuery('refund) policy').errors).toEqual([
+      { message: 'Unmatched closing parenthesis', start: 6, end: 7 },
+    ]);
+    expect(parseSearchQuery('agent: ()').errors.map((e) => e.message)).toEqual([
+      'Missing value for agent:',
+      'Empty group',
+    ]);
+  });
+
+  it('should treat unknown fields as text', () => {
+    expect(parseSearchQuery('https://example.com').ast).toMatchObject({
+      type: 'text',
+      value: 'https://example.com',
+    });
+  });
+});
+
+describe('compileSearchQuery', () => {
+  it('should compile top-level fields into filters', () => {
+    const compiled = compileSearchQuery(
+      parseSearchQuery(
+        'agent:billing user:u1 role:Assistant type:text has:attachments from:2026-01-01 to:2026-01-31 before:2026-01-15 late delivery'
+      ).ast
+    );
+
+    expect(compiled).toEqual({
+      query: 'late delivery',
+      agentIds: ['billing'],
+      userIds: ['u1'],
+      messageTypes: ['assistant'],
+      contentTypes: ['text'],
+      hasAttachments: true,
+      dateFrom: new Date(2026, 0, 1),
+      dateTo: new Date(new Date(2026, 0, 15).getTime() - 1),
+    });
+  });
+
+  it('should keep the expression when filters cannot express it', () => {
+    const negated = parseSearchQuery('refund -agent:bot').ast;
+    expect(compileSearchQuery(negated)).toEqual({
+      query: 'refund',
+      expression: negated,
+    });
+
+    const repeated = parseSearchQuery('agent:a agent:b').ast;
+    expect(compileSearchQuery(repeated)).toMatchObject({
+      agentIds: ['a', 'b'],
+      expression: repeated,
+    });
+  });
+});
+
+describe('ConversationSearchEngine expressions', () => {
+  const dataAccess = {
+    onMessageCreated: () => () => {},
+    listConversations: async () => ({ data: [], pagination: {} }),
+  } as unknown as ConversationDataAccess;
+  const tenant = createTenantContext('acme', 'user_1');
+
+  const message = (
+    id: string,
+    content: string,
+    extra: Partial<ConversationMessage> = {}
+  ): ConversationMessage => ({
+    id,
+    conversationId: 'conv_1',
+    role: 'user',
+    content,
+    createdAt: new Date(2026, 0, 10),
+    ...extra,
+  });
+
+  const search = async (input: string) => {
+    const engine = new ConversationSearchEngine(dataAccess, {
+      enableQuerySuggestions: false,
+    });
+    engine.indexMessages(
+      [
+        message('m1', 'Where is my refund?'),
+        message('m2', 'Return label attached', {
+          role: 'assistant',
+          agentId: 'billing',
+        }),
+        message('m3', 'Refund issued for the spam order', {
+          role: 'assistant',
+          agentId: 'billing',
+          createdAt: new Date(2026, 1, 2),
+        }),
+      ],
+      { tenantId: 'acme', userId: 'user_1' }
+    );
+    await engine.buildIndex(tenant);
+
+    const results = await engine.search({
+      ...compileSearchQuery(parseSearchQuery(input).ast),
+      tenant,
+      sortBy: 'date',
+      sortOrder: 'asc',
+    });
+    return results.results.map((result) => result.messageId);
+  };
+
+  it('should evaluate boolean expressions against the index', async () => {
+    expect(await search('refund -spam')).toEqual(['m1']);
+    expect(await search('(refund OR return) agent:billing')).toEqual([
+      'm2',
+      'm3',
+    ]);
+    expect(await search('NOT role:user before:2026-02-01')).toEqual(['m2']);
+    expect(await search('agent:billing -refund')).toEqual(['m2']);
+  });
+});
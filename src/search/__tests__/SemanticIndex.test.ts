@@ -0,0 +1,202 @@
+/**
+ * Tests for passage embeddings and semantic conversation search
+ */
+
+import {
+  SemanticIndex,
+  highlightPassage,
+  splitPassages,
+  type MessageEmbedder,
+} from '../SemanticIndex';
+import { ConversationSearchEngine } from '../ConversationSearchEngine';
+import type { ConversationDataAccess } from '../../database/ConversationDataAccess';
+import { createTenantContext } from '../../database/TenantContext';
+import type { ConversationMessage } from '../../types/conversation';
+
+// Words grouped by meaning; each group is one vector dimension
+const CONCEPTS = [
+  ['angry', 'furious', 'upset', 'unacceptable'],
+  ['shipping', 'delivery', 'parcel', 'arrived', 'delay', 'late'],
+  ['refund', 'money', 'reimburse'],
+  ['password', 'login', 'account'],
+];
+
+function createEmbedder(): MessageEmbedder & { calls: string[][] } {
+  const calls: string[][] = [];
+  return {
+    modelId: 'concepts',
+    calls,
+    embed: async (texts) => {
+      calls.push(texts);
+      return texts.map((text) => {
+        const words = text.toLowerCase().match(/[a-z]+/g) ?? [];
+        return CONCEPTS.map(
+          (group) => words.filter((word) => group.includes(word)).length
+        );
+      });
+    },
+  };
+}
+
+describe('SemanticIndex', () => {
+  it('should split content into passages with character offsets', () => {
+    const content =
+      'Thanks for waiting. My parcel still has not arrived after two weeks. Please help.';
+    const passages = splitPassages(content, {
+      passageSize: 30,
+      passageOverlap: 0,
+    });
+
+    expect(passages.length).toBeGreaterThan(1);
+    for (const passage of passages) {
+      expect(content.slice(passage.start, passage.end)).toBe(passage.text);
+    }
+    expect(highlightPassage('a <b> c', { start: 2, end: 5 })).toBe(
+      'a <mark>&lt;b&gt;</mark> c'
+    );
+  });
+
+  it('should rank messages by their closest passage', async () => {
+    const index = new SemanticIndex(createEmbedder(), {
+      passageSize: 40,
+      passageOverlap: 0,
+    });
+    await index.add([
+      {
+        messageId: 'm1',
+        content: 'Hello there. I am furious, my delivery is late again.',
+      },
+      { messageId: 'm2', content: 'I forgot my password for the account.' },
+    ]);
+
+    const [best] = await index.search('angry about shipping');
+    expect(best).toMatchObject({
+      messageId: 'm1',
+      passage: { text: 'I am furious, my delivery is late again.' },
+    });
+    expect(best!.similarity).toBeGreaterThan(0.9);
+
+    expect(
+      await index.search('angry about shipping', { minSimilarity: 0.5 })
+    ).toHaveLength(1);
+    expect(
+      await index.search('angry about shipping', {
+        filter: (id) => id !== 'm1',
+      })
+    ).toEqual([expect.objectContaining({ messageId: 'm2', similarity: 0 })]);
+  });
+
+  it('should only embed new or changed content', async () => {
+    const embedder = createEmbedder();
+    const index = new SemanticIndex(embedder);
+
+    await index.add([{ messageId: 'm1', content: 'Refund my money' }]);
+    await index.add([
+      { messageId: 'm1', content: 'Refund my money' },
+      { messageId: 'm2', content: 'Refund my money' },
+    ]);
+    await index.add([{ messageId: 'm1', content: 'Reset my password' }]);
+    index.remove(['m2']);
+
+    expect(embedder.calls).toEqual([
+      ['Refund my money'],
+      ['Reset my password'],
+    ]);
+    expect(index.size).toBe(1);
+  });
+});
+
+describe('ConversationSearchEngine semantic mode', () => {
+  const dataAccess = {
+    onMessageCreated: () => () => {},
+    listConversations: async () => ({ data: [], pagination: {} }),
+  } as unknown as ConversationDataAccess;
+  const tenant = createTenantContext('acme', 'user_1');
+
+  const message = (
+    id: string,
+    content: string,
+    extra: Partial<ConversationMessage> = {}
+  ): ConversationMessage => ({
+    id,
+    conversationId: 'conv_1',
+    role: 'user',
+    content,
+    createdAt: new Date(2026, 0, 10),
+    ...extra,
+  });
+
+  const createEngine = async () => {
+    const engine = new ConversationSearchEngine(
+      dataAccess,
+      { enableQuerySuggestions: false },
+      undefined,
+      createEmbedder()
+    );
+    engine.indexMessages(
+      [
+        message(
+          'm1',
+          'This is unacceptable. The parcel arrived two weeks late.'
+        ),
+        message('m2', 'Customer asked about shipping options', {
+          role: 'assistant',
+          agentId: 'support',
+        }),
+        message('m3', 'How do I reset my password?'),
+      ],
+      { tenantId: 'acme', userId: 'user_1' }
+    );
+    await engine.buildIndex(tenant);
+    return engine;
+  };
+
+  it('should find messages that share meaning but not words', async () => {
+    const engine = await createEngine();
+    await engine.waitForEmbeddings();
+
+    const results = await engine.search({
+      query: 'customer angry about shipping delay',
+      tenant,
+    });
+
+    expect(results.results[0]).toMatchObject({
+      messageId: 'm1',
+      matchType: 'semantic',
+      matchedTerms: [],
+      matchedPassage: {
+        text: 'This is unacceptable. The parcel arrived two weeks late.',
+        start: 0,
+      },
+      highlightedContent:
+        '<mark>This is unacceptable. The parcel arrived two weeks late.</mark>',
+    });
+    expect(results.results.map((r) => r.messageId)).not.toContain('m3');
+
+    const lexicalOnly = await engine.search({
+      query: 'customer angry about shipping delay',
+      tenant,
+      semantic: false,
+    });
+    expect(lexicalOnly.totalCount).toBe(0);
+  });
+
+  it('should blend similarity into lexical matches and honour filters', async () => {
+    const engine = await createEngine();
+
+    const results = await engine.search({ query: 'shipping', tenant });
+    expect(results.results.map((r) => [r.messageId, r.matchType])).toEqual([
+      ['m2', 'exact'],
+      ['m1', 'semantic'],
+    ]);
+    expect(results.results[0]!.relevanceScore).toBeCloseTo(1);
+    expect(results.results[0]!.matchedPassage?.similarity).toBeCloseTo(1);
+
+    const filtered = await engine.search({
+      query: 'shipping',
+      tenant,
+      messageTypes: ['user'],
+    });
+    expect(filtered.results.map((r) => r.messageId)).toEqual(['m1']);
+  });
+});
@@ -7,6 +7,7 @@ import { getSecurityCore, SecurityLevel } from './SecurityCore';
 import { SecureErrorHandler, ErrorType } from './SecureErrorHandler';
 import { SecurityUtils } from './SecurityUtils';
 import { ConciergusOpenTelemetry } from '../telemetry/OpenTelemetryConfig';
+import type { CostTracker, UsageEvent } from '../context/CostTracker';
 
 /**
  * Rate limiting algorithms
@@ -84,8 +85,38 @@ export interface RateLimitStorage {
   delete(key: string): Promise<void>;
   cleanup(): Promise<void>;
   incrementCounter(key: string, increment?: number): Promise<number>;
+  // Read, update and write an entry as one atomic step. Storages without it
+  // are updated with get/set, which races between concurrent requests.
+  update?(key: string, update: RateLimitUpdate): Promise<RateLimitEntry>;
 }
 
+/**
+ * Request to record against a rate limit entry
+ */
+export type RateLimitUpdate =
+  | {
+      algorithm: RateLimitAlgorithm.FIXED_WINDOW;
+      now: number;
+      windowMs: number;
+      ttl: number; // milliseconds
+      amount?: number; // Defaults to one request
+      limit?: number; // Mark the entry `blocked` instead of exceeding this
+    }
+  | {
+      algorithm: RateLimitAlgorithm.SLIDING_WINDOW;
+      now: number;
+      windowMs: number;
+      ttl: number; // milliseconds
+    }
+  | {
+      algorithm: RateLimitAlgorithm.TOKEN_BUCKET;
+      now: number;
+      windowMs: number;
+      ttl: number; // milliseconds
+      bucketSize: number;
+      refillRate: number; // tokens per second
+    };
+
 /**
  * Rate limit entry in storage
  */
@@ -101,6 +132,180 @@ export interface RateLimitEntry {
   ddosScore?: number;
 }
 
+/**
+ * Quota units: tokens, or estimated spend in USD
+ */
+export type QuotaUnit = 'tokens' | 'cost';
+
+/**
+ * Identities a quota is counted per
+ */
+export type QuotaScope = 'user' | 'tenant' | 'model';
+
+/**
+ * Token or cost quota configuration
+ */
+export interface QuotaConfig {
+  unit: QuotaUnit;
+  limit: number; // Tokens or USD per window
+  windowMs: number;
+  scope: QuotaScope[]; // e.g. ['tenant'] or ['user', 'model']
+  models?: string[]; // Only applies to these models; all when omitted
+  defaultOutputTokens?: number; // Reserved when a request sets no maxOutputTokens
+}
+
+/**
+ * AI request to reserve quota for
+ */
+export interface QuotaRequest {
+  modelId: string;
+  userId?: string;
+  tenantId?: string;
+  estimatedInputTokens: number;
+  maxOutputTokens?: number;
+}
+
+/**
+ * Quota usage after a reservation attempt
+ */
+export interface QuotaInfo {
+  name: string;
+  unit: QuotaUnit;
+  identifier: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetTime: number;
+  retryAfter: number; // seconds
+  blocked: boolean;
+}
+
+/**
+ * Quota held for a request until its actual usage is known
+ */
+export interface QuotaReservation {
+  id: string;
+  modelId: string;
+  holds: Array<{
+    name: string;
+    key: string;
+    unit: QuotaUnit;
+    amount: number;
+    resetTime: number;
+  }>;
+  createdAt: number;
+}
+
+/**
+ * Result of reserving quota for a request
+ */
+export interface QuotaCheckResult {
+  allowed: boolean;
+  // Pass to `reconcileQuota`, or as `quotaReservationId` to
+  // `CostTracker.trackUsage`, once the request completes
+  reservation: QuotaReservation | null;
+  quotas: QuotaInfo[];
+}
+
+/**
+ * Actual usage of a completed request
+ */
+export interface QuotaUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cost?: number; // USD; estimated from the cost tracker when omitted
+}
+
+/**
+ * Record a request against an entry. Token bucket entries, and fixed window
+ * entries updated with a `limit`, are marked `blocked` when the request did
+ * not fit.
+ */
+export function applyRateLimitUpdate(
+  current: RateLimitEntry | null,
+  update: RateLimitUpdate
+): RateLimitEntry {
+  const { now, windowMs } = update;
+
+  switch (update.algorithm) {
+    case RateLimitAlgorithm.FIXED_WINDOW: {
+      const resetTime = Math.floor(now / windowMs) * windowMs + windowMs;
+      const amount = update.amount ?? 1;
+      const entry =
+        !current || current.resetTime <= now
+          ? { count: 0, firstRequest: now, lastRequest: now, resetTime }
+          : current;
+
+      if (update.limit === undefined) {
+        return { ...entry, count: entry.count + amount, lastRequest: now };
+      }
+      if (entry.count + amount > update.limit) {
+        return { ...entry, blocked: true };
+      }
+      return {
+        ...entry,
+        count: entry.count + amount,
+        lastRequest: now,
+        blocked: false,
+      };
+    }
+
+    case RateLimitAlgorithm.SLIDING_WINDOW: {
+      const entry = current ?? {
+        count: 0,
+        firstRequest: now,
+        lastRequest: now,
+        resetTime: now + windowMs,
+      };
+
+      // Drop requests outside the window and add this one
+      const windowStart = now - windowMs;
+      const requests = (entry.requests || []).filter(
+        (time) => time > windowStart
+      );
+      requests.push(now);
+
+      return {
+        ...entry,
+        requests,
+        count: requests.length,
+        lastRequest: now,
+      };
+    }
+
+    case RateLimitAlgorithm.TOKEN_BUCKET: {
+      const entry = current ?? {
+        count: 0,
+        tokens: update.bucketSize,
+        lastRefill: now,
+        firstRequest: now,
+        lastRequest: now,
+        resetTime: now + windowMs,
+      };
+
+      // Refill tokens based on time elapsed
+      const timeDiff = (now - (entry.lastRefill || now)) / 1000;
+      const tokensToAdd = Math.floor(timeDiff * update.refillRate);
+      const tokens = Math.min(
+        update.bucketSize,
+        (entry.tokens || 0) + tokensToAdd
+      );
+
+      if (tokens > 0) {
+        return {
+          ...entry,
+          tokens: tokens - 1,
+          lastRefill: now,
+          count: entry.count + 1,
+          lastRequest: now,
+          blocked: false,
+        };
+      }
+      return { ...entry, tokens, lastRefill: now, blocked: true };
+    }
+  }
+}
+
 /**
  * In-memory storage implementation
  */
@@ -150,6 +355,12 @@ export class MemoryRateLimitStorage implements RateLimitStorage {
     return increment;
   }
 
+  async update(key: string, update: RateLimitUpdate): Promise<RateLimitEntry> {
+    const entry = applyRateLimitUpdate(this.storage.get(key) || null, update);
+    await this.set(key, entry, update.ttl);
+    return entry;
+  }
+
   destroy(): void {
     clearInterval(this.cleanupInterval);
     this.storage.clear();
@@ -162,6 +373,9 @@ export class MemoryRateLimitStorage implements RateLimitStorage {
 export class RateLimitingEngine {
   private storage: RateLimitStorage;
   private configs = new Map<string, RateLimitConfig>();
+  private quotas = new Map<string, QuotaConfig>();
+  private reservations = new Map<string, QuotaReservation>();
+  private costTracker: CostTracker | null = null;
   private ddosDetector: DDoSDetector;
 
   constructor(storage?: RateLimitStorage) {
@@ -404,26 +618,16 @@ export class RateLimitingEngine {
     identifier: string,
     now: number
   ): Promise<RateLimitInfo> {
-    const key = `fixed:${identifier}`;
-    let entry = await this.storage.get(key);
+    const entry = await this.updateEntry(`fixed:${identifier}`, {
+      algorithm: RateLimitAlgorithm.FIXED_WINDOW,
+      now,
+      windowMs: config.windowMs,
+      ttl: config.windowMs,
+    });
 
     const windowStart = Math.floor(now / config.windowMs) * config.windowMs;
     const resetTime = windowStart + config.windowMs;
 
-    if (!entry || entry.resetTime <= now) {
-      entry = {
-        count: 1,
-        firstRequest: now,
-        lastRequest: now,
-        resetTime,
-      };
-    } else {
-      entry.count++;
-      entry.lastRequest = now;
-    }
-
-    await this.storage.set(key, entry, config.windowMs);
-
     const remaining = Math.max(0, config.maxRequests - entry.count);
     const blocked = entry.count > config.maxRequests;
 
@@ -447,35 +651,16 @@ export class RateLimitingEngine {
     identifier: string,
     now: number
   ): Promise<RateLimitInfo> {
-    const key = `sliding:${identifier}`;
-    let entry = await this.storage.get(key);
-
-    if (!entry) {
-      entry = {
-        count: 0,
-        firstRequest: now,
-        lastRequest: now,
-        resetTime: now + config.windowMs,
-        requests: [],
-      };
-    }
-
-    // Remove requests outside the window
-    const windowStart = now - config.windowMs;
-    entry.requests = (entry.requests || []).filter(
-      (time) => time > windowStart
-    );
-
-    // Add current request
-    entry.requests.push(now);
-    entry.count = entry.requests.length;
-    entry.lastRequest = now;
-
-    await this.storage.set(key, entry, config.windowMs);
+    const entry = await this.updateEntry(`sliding:${identifier}`, {
+      algorithm: RateLimitAlgorithm.SLIDING_WINDOW,
+      now,
+      windowMs: config.windowMs,
+      ttl: config.windowMs,
+    });
 
     const remaining = Math.max(0, config.maxRequests - entry.count);
     const blocked = entry.count > config.maxRequests;
-    const oldestRequest = entry.requests[0];
+    const oldestRequest = entry.requests?.[0];
     const resetTime = oldestRequest
       ? oldestRequest + config.windowMs
       : now + config.windowMs;
@@ -500,44 +685,25 @@ export class RateLimitingEngine {
     identifier: string,
     now: number
   ): Promise<RateLimitInfo> {
-    const key = `token:${identifier}`;
-    let entry = await this.storage.get(key);
-
     const refillRate =
       config.refillRate || config.maxRequests / (config.windowMs / 1000);
     const bucketSize = config.burstLimit || config.maxRequests;
 
-    if (!entry) {
-      entry = {
-        count: 0,
-        tokens: bucketSize,
-        lastRefill: now,
-        firstRequest: now,
-        lastRequest: now,
-        resetTime: now + config.windowMs,
-      };
-    }
-
-    // Refill tokens based on time elapsed
-    const timeDiff = (now - (entry.lastRefill || now)) / 1000;
-    const tokensToAdd = Math.floor(timeDiff * refillRate);
-    entry.tokens = Math.min(bucketSize, (entry.tokens || 0) + tokensToAdd);
-    entry.lastRefill = now;
-
-    const hasTokens = entry.tokens > 0;
-    if (hasTokens) {
-      entry.tokens--;
-      entry.count++;
-      entry.lastRequest = now;
-    }
-
-    await this.storage.set(key, entry, config.windowMs * 2);
+    const entry = await this.updateEntry(`token:${identifier}`, {
+      algorithm: RateLimitAlgorithm.TOKEN_BUCKET,
+      now,
+      windowMs: config.windowMs,
+      ttl: config.windowMs * 2,
+      bucketSize,
+      refillRate,
+    });
 
-    const nextRefillTime = entry.lastRefill + (1 / refillRate) * 1000;
+    const hasTokens = !entry.blocked;
+    const nextRefillTime = now + (1 / refillRate) * 1000;
 
     return {
       limit: bucketSize,
-      remaining: entry.tokens,
+      remaining: entry.tokens ?? 0,
       resetTime: nextRefillTime,
       retryAfter: hasTokens ? 0 : Math.ceil((nextRefillTime - now) / 1000),
       algorithm: config.algorithm,
@@ -547,6 +713,22 @@ export class RateLimitingEngine {
     };
   }
 
+  /**
+   * Record a request, atomically when the storage supports it
+   */
+  private async updateEntry(
+    key: string,
+    update: RateLimitUpdate
+  ): Promise<RateLimitEntry> {
+    if (this.storage.update) {
+      return this.storage.update(key, update);
+    }
+
+    const entry = applyRateLimitUpdate(await this.storage.get(key), update);
+    await this.storage.set(key, entry, update.ttl);
+    return entry;
+  }
+
   /**
    * Leaky bucket algorithm
    */
@@ -601,6 +783,234 @@ export class RateLimitingEngine {
     };
   }
 
+  /**
+   * Register a token or cost quota for AI requests
+   */
+  registerQuota(name: string, config: QuotaConfig): void {
+    if (config.limit <= 0 || config.windowMs <= 0) {
+      throw new Error(
+        `Quota '${name}' needs a positive limit and window, got ${config.limit} per ${config.windowMs}ms`
+      );
+    }
+    this.quotas.set(name, config);
+  }
+
+  /**
+   * Price cost quotas with the tracker and reconcile reservations from its
+   * `trackUsage` events. Returns a function that disconnects the tracker.
+   */
+  connectCostTracker(tracker: CostTracker): () => void {
+    this.costTracker = tracker;
+    const unsubscribe = tracker.onUsage((event) => {
+      this.reconcileTrackedUsage(event).catch((error) => {
+        console.error('Failed to reconcile quota usage:', error);
+      });
+    });
+
+    return () => {
+      unsubscribe();
+      if (this.costTracker === tracker) {
+        this.costTracker = null;
+      }
+    };
+  }
+
+  /**
+   * Reserve estimated usage against every quota that applies to the request.
+   * Either all quotas are reserved or, if any is exhausted, none are.
+   */
+  async reserveQuota(request: QuotaRequest): Promise<QuotaCheckResult> {
+    const now = Date.now();
+    this.pruneReservations(now);
+
+    const estimatedOutputTokens = (config: QuotaConfig) =>
+      request.maxOutputTokens ?? config.defaultOutputTokens ?? 0;
+
+    // Measure every applicable quota before taking any hold, so a quota that
+    // cannot be priced fails the request without leaving holds behind
+    const applicable = [...this.quotas]
+      .filter(
+        ([, config]) =>
+          !config.models || config.models.includes(request.modelId)
+      )
+      .map(([name, config]) => {
+        const identifier = this.getQuotaIdentifier(config, request);
+        return {
+          name,
+          config,
+          identifier,
+          key: `quota:${name}:${identifier}`,
+          amount: this.measureUsage(config.unit, request.modelId, {
+            inputTokens: request.estimatedInputTokens,
+            outputTokens: estimatedOutputTokens(config),
+          }),
+        };
+      });
+
+    const holds: QuotaReservation['holds'] = [];
+    const quotas: QuotaInfo[] = [];
+
+    try {
+      for (const { name, config, identifier, key, amount } of applicable) {
+        const entry = await this.updateEntry(key, {
+          algorithm: RateLimitAlgorithm.FIXED_WINDOW,
+          now,
+          windowMs: config.windowMs,
+          ttl: config.windowMs,
+          amount,
+          limit: config.limit,
+        });
+
+        quotas.push({
+          name,
+          unit: config.unit,
+          identifier,
+          limit: config.limit,
+          used: entry.count,
+          remaining: Math.max(0, config.limit - entry.count),
+          resetTime: entry.resetTime,
+          retryAfter: entry.blocked
+            ? Math.ceil((entry.resetTime - now) / 1000)
+            : 0,
+          blocked: entry.blocked === true,
+        });
+        if (!entry.blocked) {
+          holds.push({
+            name,
+            key,
+            unit: config.unit,
+            amount,
+            resetTime: entry.resetTime,
+          });
+        }
+      }
+    } catch (error) {
+      await this.adjustHolds(holds, () => 0);
+      throw error;
+    }
+
+    if (quotas.some((quota) => quota.blocked)) {
+      await this.adjustHolds(holds, () => 0);
+      return { allowed: false, reservation: null, quotas };
+    }
+
+    const reservation: QuotaReservation = {
+      id: SecurityUtils.generateSecureId(),
+      modelId: request.modelId,
+      holds,
+      createdAt: now,
+    };
+    this.reservations.set(reservation.id, reservation);
+    return { allowed: true, reservation, quotas };
+  }
+
+  /**
+   * Replace a reservation's estimate with the request's actual usage.
+   * Usage reported after a quota window has ended is not carried over.
+   */
+  async reconcileQuota(
+    reservation: QuotaReservation,
+    usage: QuotaUsage
+  ): Promise<void> {
+    if (!this.reservations.delete(reservation.id)) return;
+
+    await this.adjustHolds(reservation.holds, (hold) =>
+      hold.unit === 'cost' && usage.cost !== undefined
+        ? usage.cost
+        : this.measureUsage(hold.unit, reservation.modelId, usage)
+    );
+  }
+
+  /**
+   * Return a reservation's quota, e.g. when the request failed before
+   * reaching the provider
+   */
+  async releaseQuota(reservation: QuotaReservation): Promise<void> {
+    if (!this.reservations.delete(reservation.id)) return;
+    await this.adjustHolds(reservation.holds, () => 0);
+  }
+
+  private async reconcileTrackedUsage(event: UsageEvent): Promise<void> {
+    const reservation = event.quotaReservationId
+      ? this.reservations.get(event.quotaReservationId)
+      : undefined;
+    if (!reservation) return;
+
+    await this.reconcileQuota(reservation, {
+      inputTokens: event.inputTokens,
+      outputTokens: event.outputTokens,
+      cost: event.cost,
+    });
+  }
+
+  /**
+   * Move each hold from its reserved amount to its actual amount
+   */
+  private async adjustHolds(
+    holds: QuotaReservation['holds'],
+    actual: (hold: QuotaReservation['holds'][number]) => number
+  ): Promise<void> {
+    const now = Date.now();
+    for (const hold of holds) {
+      const delta = actual(hold) - hold.amount;
+      if (delta !== 0 && hold.resetTime > now) {
+        await this.storage.incrementCounter(hold.key, delta);
+      }
+    }
+  }
+
+  private measureUsage(
+    unit: QuotaUnit,
+    modelId: string,
+    usage: Pick<QuotaUsage, 'inputTokens' | 'outputTokens'>
+  ): number {
+    if (unit === 'tokens') {
+      return usage.inputTokens + usage.outputTokens;
+    }
+    if (!this.costTracker) {
+      throw new Error(
+        'Cost quotas need a cost tracker; call connectCostTracker first'
+      );
+    }
+    return this.costTracker.calculateCost(
+      modelId,
+      usage.inputTokens,
+      usage.outputTokens
+    );
+  }
+
+  private getQuotaIdentifier(
+    config: QuotaConfig,
+    request: QuotaRequest
+  ): string {
+    if (config.scope.length === 0) return 'global';
+
+    return config.scope
+      .map((scope) => {
+        switch (scope) {
+          case 'user':
+            return `user:${request.userId ?? 'anonymous'}`;
+          case 'tenant':
+            return `tenant:${request.tenantId ?? 'anonymous'}`;
+          case 'model':
+            return `model:${request.modelId}`;
+        }
+      })
+      .join(':');
+  }
+
+  /**
+   * Forget reservations whose quota windows have all ended; they were
+   * never reconciled, so their estimates stay charged
+   */
+  private pruneReservations(now: number): void {
+    for (const [id, reservation] of this.reservations) {
+      if (reservation.holds.every((hold) => hold.resetTime <= now)) {
+        this.reservations.delete(id);
+      }
+    }
+  }
+
   /**
    * Get rate limit statistics
    */
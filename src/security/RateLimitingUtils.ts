@@ -7,6 +7,8 @@ import {
   RateLimitingEngine,
   RateLimitConfig,
   RateLimitInfo,
+  type QuotaConfig,
+  type QuotaScope,
   RateLimitAlgorithm,
   RateLimitStrategy,
   DDoSProtectionLevel,
@@ -611,4 +613,20 @@ export const RateLimitingHelpers = {
     const nodeLimit = Math.ceil(config.maxRequests / config.totalNodes);
     return new SimpleRateLimiter(nodeLimit, config.windowMs);
   },
+
+  /**
+   * Create a token quota, e.g. from a widget's `maxTokensPerMinute`, for
+   * `RateLimitingEngine.registerQuota`
+   */
+  tokensPerMinuteQuota(
+    maxTokensPerMinute: number,
+    scope: QuotaScope[] = ['user']
+  ): QuotaConfig {
+    return {
+      unit: 'tokens',
+      limit: maxTokensPerMinute,
+      windowMs: 60000,
+      scope,
+    };
+  },
 };
@@ -0,0 +1,403 @@
+/**
+ * Redis Rate Limit Storage
+ * Shares rate limits between server instances. Every update runs as a Lua
+ * script so concurrent requests on different instances cannot lose counts.
+ */
+
+import { EventEmitter } from 'events';
+import type { RedisCache } from '../cache/RedisCache';
+import type { CacheManagerConfig } from '../cache/CacheManager';
+import {
+  MemoryRateLimitStorage,
+  RateLimitAlgorithm,
+  type RateLimitEntry,
+  type RateLimitStorage,
+  type RateLimitUpdate,
+} from './RateLimitingEngine';
+
+/**
+ * Redis rate limit storage configuration
+ */
+export interface RedisRateLimitStorageConfig {
+  keyPrefix: string;
+  // Same policy as the cache manager: fall back to per-instance memory
+  // limits while Redis is down and retry the connection in the background
+  fallback: CacheManagerConfig['fallback'];
+}
+
+export const DEFAULT_REDIS_RATE_LIMIT_STORAGE_CONFIG: RedisRateLimitStorageConfig =
+  {
+    keyPrefix: 'ratelimit:',
+    fallback: {
+      enabled: true,
+      strategy: 'memory',
+      retryInterval: 5000, // 5 seconds
+      maxRetries: 5,
+    },
+  };
+
+/**
+ * Lua scripts. Entries are stored as JSON strings with a millisecond expiry.
+ * They mirror `applyRateLimitUpdate`, which is what the memory fallback runs.
+ * Deletes are scripts too, so every key takes the same prefixing path.
+ */
+export const RateLimitScripts = {
+  get: `return redis.call('GET', KEYS[1])`,
+
+  delete: `return redis.call('DEL', KEYS[1])`,
+
+  set: `
+    if tonumber(ARGV[2]) > 0 then
+      redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+    else
+      redis.call('SET', KEYS[1], ARGV[1])
+    end
+    return 1
+  `,
+
+  incrementCounter: `
+    local raw = redis.call('GET', KEYS[1])
+    local increment = tonumber(ARGV[1])
+    if not raw then
+      return increment
+    end
+    local entry = cjson.decode(raw)
+    entry.count = entry.count + increment
+    local ttl = redis.call('PTTL', KEYS[1])
+    if ttl > 0 then
+      redis.call('SET', KEYS[1], cjson.encode(entry), 'PX', ttl)
+    else
+      redis.call('SET', KEYS[1], cjson.encode(entry))
+    end
+    return entry.count
+  `,
+
+  [RateLimitAlgorithm.FIXED_WINDOW]: `
+    local now = tonumber(ARGV[1])
+    local windowMs = tonumber(ARGV[2])
+    local amount = tonumber(ARGV[4]) or 1
+    local limit = tonumber(ARGV[5])
+    local raw = redis.call('GET', KEYS[1])
+    local entry = raw and cjson.decode(raw) or nil
+    local resetTime = math.floor(now / windowMs) * windowMs + windowMs
+    if not entry or entry.resetTime <= now then
+      entry = { count = 0, firstRequest = now, lastRequest = now, resetTime = resetTime }
+    end
+    if limit and entry.count + amount > limit then
+      entry.blocked = true
+    else
+      entry.count = entry.count + amount
+      entry.lastRequest = now
+      if limit then
+        entry.blocked = false
+      end
+    end
+    local encoded = cjson.encode(entry)
+    redis.call('SET', KEYS[1], encoded, 'PX', ARGV[3])
+    return encoded
+  `,
+
+  [RateLimitAlgorithm.SLIDING_WINDOW]: `
+    local now = tonumber(ARGV[1])
+    local windowMs = tonumber(ARGV[2])
+    local raw = redis.call('GET', KEYS[1])
+    local entry = raw and cjson.decode(raw) or {
+      count = 0, firstRequest = now, lastRequest = now, resetTime = now + windowMs
+    }
+    local windowStart = now - windowMs
+    local requests = {}
+    if type(entry.requests) == 'table' then
+      for _, time in ipairs(entry.requests) do
+        if time > windowStart then
+          table.insert(requests, time)
+        end
+      end
+    end
+    table.insert(requests, now)
+    entry.requests = requests
+    entry.count = #requests
+    entry.lastRequest = now
+    local encoded = cjson.encode(entry)
+    redis.call('SET', KEYS[1], encoded, 'PX', ARGV[3])
+    return encoded
+  `,
+
+  [RateLimitAlgorithm.TOKEN_BUCKET]: `
+    local now = tonumber(ARGV[1])
+    local windowMs = tonumber(ARGV[2])
+    local bucketSize = tonumber(ARGV[4])
+    local refillRate = tonumber(ARGV[5])
+    local raw = redis.call('GET', KEYS[1])
+    local entry = raw and cjson.decode(raw) or {
+      count = 0, tokens = bucketSize, lastRefill = now,
+      firstRequest = now, lastRequest = now, resetTime = now + windowMs
+    }
+    local elapsed = (now - (entry.lastRefill or now)) / 1000
+    local tokens = math.min(bucketSize, (entry.tokens or 0) + math.floor(elapsed * refillRate))
+    entry.lastRefill = now
+    if tokens > 0 then
+      entry.tokens = tokens - 1
+      entry.count = entry.count + 1
+      entry.lastRequest = now
+      entry.blocked = false
+    else
+      entry.tokens = tokens
+      entry.blocked = true
+    end
+    local encoded = cjson.encode(entry)
+    redis.call('SET', KEYS[1], encoded, 'PX', ARGV[3])
+    return encoded
+  `,
+} as const;
+
+/**
+ * Parse an entry written by a script or by `set`
+ */
+function parseEntry(raw: string | null): RateLimitEntry | null {
+  if (!raw) return null;
+
+  const entry = JSON.parse(raw) as RateLimitEntry;
+  // Lua's cjson encodes empty arrays as objects
+  if (entry.requests !== undefined && !Array.isArray(entry.requests)) {
+    entry.requests = [];
+  }
+  return entry;
+}
+
+/**
+ * Redis-backed rate limit storage with memory fallback
+ */
+export class RedisRateLimitStorage
+  extends EventEmitter
+  implements RateLimitStorage
+{
+  private redis: RedisCache;
+  private config: RedisRateLimitStorageConfig;
+  private memory: MemoryRateLimitStorage | null = null;
+  private usingFallback = false;
+  private retryAttempts = 0;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    redis: RedisCache,
+    config: Partial<RedisRateLimitStorageConfig> = {}
+  ) {
+    super();
+    this.redis = redis;
+    this.config = {
+      ...DEFAULT_REDIS_RATE_LIMIT_STORAGE_CONFIG,
+      ...config,
+      fallback: {
+        ...DEFAULT_REDIS_RATE_LIMIT_STORAGE_CONFIG.fallback,
+        ...config.fallback,
+      },
+    };
+  }
+
+  /**
+   * Whether limits are currently enforced per instance instead of in Redis
+   */
+  isUsingFallback(): boolean {
+    return this.usingFallback;
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    return this.run(
+      async () =>
+        parseEntry(
+          await this.redis.eval<string | null>(RateLimitScripts.get, [
+            this.formatKey(key),
+          ])
+        ),
+      (memory) => memory.get(key)
+    );
+  }
+
+  async set(key: string, value: RateLimitEntry, ttl?: number): Promise<void> {
+    await this.run(
+      async () => {
+        await this.redis.eval(
+          RateLimitScripts.set,
+          [this.formatKey(key)],
+          [JSON.stringify(value), ttl ?? 0]
+        );
+      },
+      (memory) => memory.set(key, value, ttl)
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run(
+      async () => {
+        await this.redis.eval(RateLimitScripts.delete, [this.formatKey(key)]);
+      },
+      (memory) => memory.delete(key)
+    );
+  }
+
+  /**
+   * Entries expire in Redis on their own; only the fallback needs sweeping
+   */
+  async cleanup(): Promise<void> {
+    await this.memory?.cleanup();
+  }
+
+  async incrementCounter(key: string, increment: number = 1): Promise<number> {
+    return this.run(
+      async () =>
+        Number(
+          await this.redis.eval<number>(
+            RateLimitScripts.incrementCounter,
+            [this.formatKey(key)],
+            [increment]
+          )
+        ),
+      (memory) => memory.incrementCounter(key, increment)
+    );
+  }
+
+  async update(key: string, update: RateLimitUpdate): Promise<RateLimitEntry> {
+    const args: Array<string | number> = [
+      update.now,
+      update.windowMs,
+      Math.max(1, Math.ceil(update.ttl)),
+    ];
+    if (update.algorithm === RateLimitAlgorithm.TOKEN_BUCKET) {
+      args.push(update.bucketSize, update.refillRate);
+    } else if (update.algorithm === RateLimitAlgorithm.FIXED_WINDOW) {
+      args.push(update.amount ?? 1);
+      if (update.limit !== undefined) args.push(update.limit);
+    }
+
+    return this.run(
+      async () => {
+        const entry = parseEntry(
+          await this.redis.eval<string>(
+            RateLimitScripts[update.algorithm],
+            [this.formatKey(key)],
+            args
+          )
+        );
+        if (!entry) {
+          throw new Error(`Rate limit script returned no entry for ${key}`);
+        }
+        return entry;
+      },
+      (memory) => memory.update(key, update)
+    );
+  }
+
+  /**
+   * Stop retrying Redis and release the memory fallback
+   */
+  destroy(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.memory?.destroy();
+    this.memory = null;
+  }
+
+  /**
+   * Run an operation against Redis, or against memory while falling back
+   */
+  private async run<T>(
+    operation: () => Promise<T>,
+    fallback: (memory: MemoryRateLimitStorage) => Promise<T>
+  ): Promise<T> {
+    if (!this.usingFallback) {
+      try {
+        if (!this.redis.isConnected()) {
+          throw new Error('Redis cache not connected');
+        }
+        return await operation();
+      } catch (error) {
+        if (!this.handleRedisFailure(error as Error)) {
+          throw error;
+        }
+      }
+    }
+
+    return fallback(this.getMemory());
+  }
+
+  /**
+   * Switch to memory if the fallback policy allows it
+   */
+  private handleRedisFailure(error: Error): boolean {
+    this.emit('redis-failure', error);
+
+    if (
+      !this.config.fallback.enabled ||
+      this.config.fallback.strategy !== 'memory'
+    ) {
+      return false;
+    }
+
+    if (!this.usingFallback) {
+      this.usingFallback = true;
+      console.warn('🔄 Rate limiting switched to per-instance memory storage');
+    }
+    this.startRetryTimer();
+    return true;
+  }
+
+  /**
+   * Start retry timer for Redis reconnection
+   */
+  private startRetryTimer(): void {
+    if (
+      this.retryTimer ||
+      this.retryAttempts >= this.config.fallback.maxRetries
+    ) {
+      return;
+    }
+
+    this.retryTimer = setTimeout(async () => {
+      try {
+        if (!this.redis.isConnected()) {
+          await this.redis.connect();
+        }
+        this.usingFallback = false;
+        this.retryAttempts = 0;
+        this.retryTimer = null;
+        // Limits counted in memory meanwhile are not carried over
+        this.memory?.destroy();
+        this.memory = null;
+        this.emit('redis-reconnected');
+      } catch {
+        this.retryAttempts++;
+        this.retryTimer = null;
+
+        if (this.retryAttempts < this.config.fallback.maxRetries) {
+          this.startRetryTimer();
+        } else {
+          console.error('Max Redis retry attempts reached for rate limiting');
+          this.emit('redis-retry-exhausted');
+        }
+      }
+    }, this.config.fallback.retryInterval);
+  }
+
+  private getMemory(): MemoryRateLimitStorage {
+    if (!this.memory) {
+      this.memory = new MemoryRateLimitStorage();
+    }
+    return this.memory;
+  }
+
+  private formatKey(key: string): string {
+    return `${this.config.keyPrefix}${key}`;
+  }
+}
+
+/**
+ * Create a rate limit storage shared through Redis
+ */
+export function createRedisRateLimitStorage(
+  redis: RedisCache,
+  config: Partial<RedisRateLimitStorageConfig> = {}
+): RedisRateLimitStorage {
+  return new RedisRateLimitStorage(redis, config);
+}
@@ -0,0 +1,282 @@
+/**
+ * Tests for token and cost quotas in the rate limiting engine
+ */
+
+import {
+  RateLimitingEngine,
+  MemoryRateLimitStorage,
+  type QuotaInfo,
+} from '../RateLimitingEngine';
+import { CostTracker } from '../../context/CostTracker';
+import { FallbackManager } from '../../context/FallbackManager';
+
+jest.mock('@vercel/ai-sdk-gateway', () => ({
+  gateway: jest.fn((modelId: string) => ({ modelId })),
+}));
+
+jest.mock('../../telemetry/OpenTelemetryConfig', () => ({
+  ConciergusOpenTelemetry: {
+    createSpan: jest.fn((_service, _operation, fn) => fn(null)),
+    recordMetric: jest.fn(),
+  },
+}));
+
+const used = (quotas: QuotaInfo[], name: string) =>
+  quotas.find((quota) => quota.name === name)?.used;
+
+describe('RateLimitingEngine quotas', () => {
+  let storage: MemoryRateLimitStorage;
+  let engine: RateLimitingEngine;
+
+  beforeEach(() => {
+    storage = new MemoryRateLimitStorage();
+    engine = new RateLimitingEngine(storage);
+  });
+
+  afterEach(() => {
+    storage.destroy();
+  });
+
+  it('should block users whose token estimate does not fit the window', async () => {
+    engine.registerQuota('user-tokens', {
+      unit: 'tokens',
+      limit: 1000,
+      windowMs: 60000,
+      scope: ['user'],
+    });
+    const request = {
+      modelId: 'openai/gpt-4o',
+      userId: 'heavy',
+      estimatedInputTokens: 300,
+      maxOutputTokens: 300,
+    };
+
+    expect((await engine.reserveQuota(request)).allowed).toBe(true);
+
+    const blocked = await engine.reserveQuota(request);
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.reservation).toBeNull();
+    expect(blocked.quotas[0]).toMatchObject({
+      identifier: 'user:heavy',
+      used: 600,
+      remaining: 400,
+      blocked: true,
+    });
+    expect(blocked.quotas[0]!.retryAfter).toBeGreaterThan(0);
+
+    const other = await engine.reserveQuota({ ...request, userId: 'light' });
+    expect(other.allowed).toBe(true);
+  });
+
+  it('should replace estimates with actual usage', async () => {
+    engine.registerQuota('user-tokens', {
+      unit: 'tokens',
+      limit: 1000,
+      windowMs: 60000,
+      scope: ['user'],
+      defaultOutputTokens: 500,
+    });
+    const request = {
+      modelId: 'openai/gpt-4o',
+      userId: 'user-1',
+      estimatedInputTokens: 400,
+    };
+
+    const first = await engine.reserveQuota(request);
+    expect(used(first.quotas, 'user-tokens')).toBe(900);
+    await engine.reconcileQuota(first.reservation!, {
+      inputTokens: 400,
+      outputTokens: 50,
+    });
+
+    const second = await engine.reserveQuota({
+      ...request,
+      maxOutputTokens: 100,
+    });
+    expect(used(second.quotas, 'user-tokens')).toBe(950);
+    await engine.releaseQuota(second.reservation!);
+
+    // Reconciling twice is a no-op
+    await engine.reconcileQuota(first.reservation!, {
+      inputTokens: 0,
+      outputTokens: 0,
+    });
+    const third = await engine.reserveQuota({
+      ...request,
+      maxOutputTokens: 0,
+    });
+    expect(used(third.quotas, 'user-tokens')).toBe(850);
+  });
+
+  it('should reserve all applicable quotas or none', async () => {
+    engine.registerQuota('user-tokens', {
+      unit: 'tokens',
+      limit: 1000,
+      windowMs: 60000,
+      scope: ['user'],
+    });
+    engine.registerQuota('tenant-tokens', {
+      unit: 'tokens',
+      limit: 500,
+      windowMs: 60000,
+      scope: ['tenant'],
+    });
+    engine.registerQuota('gpt-4o-tokens', {
+      unit: 'tokens',
+      limit: 10,
+      windowMs: 60000,
+      scope: ['model'],
+      models: ['openai/gpt-4o'],
+    });
+
+    const denied = await engine.reserveQuota({
+      modelId: 'openai/gpt-4o-mini',
+      userId: 'user-1',
+      tenantId: 'acme',
+      estimatedInputTokens: 600,
+    });
+    expect(denied.allowed).toBe(false);
+    expect(denied.quotas.map((quota) => quota.name)).toEqual([
+      'user-tokens',
+      'tenant-tokens',
+    ]);
+
+    const allowed = await engine.reserveQuota({
+      modelId: 'openai/gpt-4o-mini',
+      userId: 'user-1',
+      tenantId: 'acme',
+      estimatedInputTokens: 400,
+    });
+    expect(used(allowed.quotas, 'user-tokens')).toBe(400);
+    expect(used(allowed.quotas, 'tenant-tokens')).toBe(400);
+  });
+
+  it('should not hold any quota when one of them cannot be measured', async () => {
+    engine.registerQuota('user-tokens', {
+      unit: 'tokens',
+      limit: 1000,
+      windowMs: 60000,
+      scope: ['user'],
+    });
+    engine.registerQuota('tenant-spend', {
+      unit: 'cost',
+      limit: 1,
+      windowMs: 60000,
+      scope: ['tenant'],
+    });
+    const request = {
+      modelId: 'openai/gpt-4o',
+      userId: 'user-1',
+      tenantId: 'acme',
+      estimatedInputTokens: 400,
+    };
+
+    await expect(engine.reserveQuota(request)).rejects.toThrow(
+      'Cost quotas need a cost tracker'
+    );
+
+    const entry = await storage.get('quota:user-tokens:user:user-1');
+    expect(entry?.count ?? 0).toBe(0);
+  });
+
+  it('should price cost quotas and reconcile from tracked usage', async () => {
+    const tracker = new CostTracker({ autoScaleDown: false });
+    const disconnect = engine.connectCostTracker(tracker);
+    engine.registerQuota('tenant-spend', {
+      unit: 'cost',
+      limit: 0.1,
+      windowMs: 3600000,
+      scope: ['tenant'],
+    });
+    const request = {
+      modelId: 'openai/gpt-4o',
+      tenantId: 'acme',
+      estimatedInputTokens: 1000,
+      maxOutputTokens: 1000,
+    };
+
+    // 1k input + 1k output tokens of gpt-4o cost $0.075
+    const first = await engine.reserveQuota(request);
+    expect(used(first.quotas, 'tenant-spend')).toBeCloseTo(0.075);
+    expect((await engine.reserveQuota(request)).allowed).toBe(false);
+
+    tracker.trackUsage({
+      modelId: 'openai/gpt-4o',
+      inputTokens: 1000,
+      outputTokens: 0,
+      totalTokens: 1000,
+      responseTime: 100,
+      success: true,
+      requestType: 'text',
+      quotaReservationId: first.reservation!.id,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const second = await engine.reserveQuota({
+      ...request,
+      maxOutputTokens: 0,
+    });
+    expect(second.allowed).toBe(true);
+    expect(used(second.quotas, 'tenant-spend')).toBeCloseTo(0.03);
+
+    disconnect();
+    await expect(engine.reserveQuota(request)).rejects.toThrow(
+      'Cost quotas need a cost tracker'
+    );
+  });
+});
+
+describe('FallbackManager token quota', () => {
+  it('should block requests once the per-minute token budget is spent', async () => {
+    const manager = new FallbackManager({ maxTokensPerMinute: 1000 });
+    const operation = jest.fn(async () => ({
+      text: 'answer',
+      usage: { inputTokens: 900, outputTokens: 300 },
+    }));
+
+    try {
+      const first = await manager.executeWithFallback(
+        ['openai/gpt-4o-mini'],
+        operation,
+        { query: 'How do I reset my password?' }
+      );
+      expect(first.success).toBe(true);
+
+      await expect(
+        manager.executeWithFallback(['openai/gpt-4o-mini'], operation, {
+          query: 'And my username?',
+        })
+      ).rejects.toThrow(/Token rate limit exceeded.*retry after \d+s/);
+      expect(operation).toHaveBeenCalledTimes(1);
+
+      manager.updateConfig({ maxTokensPerMinute: 5000 });
+      await manager.executeWithFallback(['openai/gpt-4o-mini'], operation);
+      expect(operation).toHaveBeenCalledTimes(2);
+    } finally {
+      manager.destroy();
+    }
+  });
+
+  it('should not fall back when reconciling token usage fails', async () => {
+    const reconcile = jest
+      .spyOn(RateLimitingEngine.prototype, 'reconcileQuota')
+      .mockRejectedValue(new Error('storage unavailable'));
+    const manager = new FallbackManager({ maxTokensPerMinute: 1000 });
+    const operation = jest.fn(async () => ({ text: 'answer' }));
+
+    try {
+      const result = await manager.executeWithFallback(
+        ['openai/gpt-4o-mini', 'anthropic/claude-3-haiku'],
+        operation
+      );
+
+      expect(result.finalModel).toBe('openai/gpt-4o-mini');
+      expect(result.fallbacksUsed).toBe(0);
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(reconcile).toHaveBeenCalled();
+    } finally {
+      reconcile.mockRestore();
+      manager.destroy();
+    }
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Tests for the Redis-backed rate limit storage
+ */
+
+import {
+  RedisRateLimitStorage,
+  RateLimitScripts,
+} from '../RedisRateLimitStorage';
+import {
+  RateLimitingEngine,
+  RateLimitAlgorithm,
+  RateLimitStrategy,
+  applyRateLimitUpdate,
+  type RateLimitEntry,
+  type RateLimitUpdate,
+} from '../RateLimitingEngine';
+import type { RedisCache } from '../../cache/RedisCache';
+
+jest.mock('../../telemetry/OpenTelemetryConfig', () => ({
+  ConciergusOpenTelemetry: {
+    createSpan: jest.fn((_service, _operation, fn) => fn(null)),
+    recordMetric: jest.fn(),
+  },
+}));
+
+jest.mock('../SecurityCore', () => ({
+  getSecurityCore: jest.fn(() => ({
+    getConfig: () => ({ rateLimiting: { enabled: true } }),
+  })),
+}));
+
+/**
+ * Redis stand-in that runs each script's equivalent against a map, the
+ * way the real scripts run against a single Redis key
+ */
+function createRedis() {
+  const store = new Map<string, string>();
+  const state = { connected: true, failing: false };
+
+  const evalScript = jest.fn(
+    async (
+      script: string,
+      keys: string[],
+      args: Array<string | number> = []
+    ) => {
+      if (state.failing) throw new Error('Failed to run cache script');
+      const key = keys[0]!;
+      const raw = store.get(key) ?? null;
+
+      if (script === RateLimitScripts.get) return raw;
+      if (script === RateLimitScripts.delete) return Number(store.delete(key));
+      if (script === RateLimitScripts.set) {
+        store.set(key, String(args[0]));
+        return 1;
+      }
+      if (script === RateLimitScripts.incrementCounter) {
+        if (!raw) return Number(args[0]);
+        const entry = JSON.parse(raw) as RateLimitEntry;
+        entry.count += Number(args[0]);
+        store.set(key, JSON.stringify(entry));
+        return entry.count;
+      }
+
+      const algorithm = (
+        Object.keys(RateLimitScripts) as Array<keyof typeof RateLimitScripts>
+      ).find((name) => RateLimitScripts[name] === script);
+      const [now, windowMs, ttl, ...rest] = args.map(Number);
+      const update = {
+        algorithm,
+        now,
+        windowMs,
+        ttl,
+        ...(algorithm === RateLimitAlgorithm.FIXED_WINDOW
+          ? { amount: rest[0], limit: rest[1] }
+          : { bucketSize: rest[0], refillRate: rest[1] }),
+      } as RateLimitUpdate;
+      const entry = applyRateLimitUpdate(
+        raw ? (JSON.parse(raw) as RateLimitEntry) : null,
+        update
+      );
+      // Mimic cjson, which encodes empty arrays as objects
+      const encoded = JSON.stringify(entry).replace(
+        '"requests":[]',
+        '"requests":{}'
+      );
+      store.set(key, encoded);
+      return encoded;
+    }
+  );
+
+  const redis = {
+    eval: evalScript,
+    isConnected: () => state.connected,
+    connect: jest.fn(async () => {
+      state.connected = true;
+    }),
+  } as unknown as RedisCache;
+
+  return { redis, store, state, evalScript };
+}
+
+describe('RedisRateLimitStorage', () => {
+  let storage: RedisRateLimitStorage;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    storage.destroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should store entries under the configured prefix', async () => {
+    const { redis, store, evalScript } = createRedis();
+    storage = new RedisRateLimitStorage(redis, { keyPrefix: 'rl:' });
+    const entry: RateLimitEntry = {
+      count: 2,
+      firstRequest: 1,
+      lastRequest: 2,
+      resetTime: 60000,
+    };
+
+    await storage.set('user-1', entry, 60000);
+
+    expect([...store.keys()]).toEqual(['rl:user-1']);
+    expect(await storage.get('user-1')).toEqual(entry);
+    expect(await storage.incrementCounter('user-1', 3)).toBe(5);
+
+    await storage.delete('user-1');
+    expect(await storage.get('user-1')).toBeNull();
+    // Every key reaches Redis the same way, so the client prefixes it once
+    expect(new Set(evalScript.mock.calls.flatMap(([, keys]) => keys))).toEqual(
+      new Set(['rl:user-1'])
+    );
+    expect(evalScript).toHaveBeenCalledWith(RateLimitScripts.delete, [
+      'rl:user-1',
+    ]);
+  });
+
+  it('should apply updates through a single script call', async () => {
+    const { redis, evalScript } = createRedis();
+    storage = new RedisRateLimitStorage(redis);
+
+    const entry = await storage.update('user-1', {
+      algorithm: RateLimitAlgorithm.TOKEN_BUCKET,
+      now: 1000,
+      windowMs: 60000,
+      ttl: 60000,
+      bucketSize: 2,
+      refillRate: 1,
+    });
+
+    expect(entry).toMatchObject({ tokens: 1, count: 1, blocked: false });
+    expect(evalScript).toHaveBeenCalledTimes(1);
+    expect(evalScript).toHaveBeenCalledWith(
+      RateLimitScripts[RateLimitAlgorithm.TOKEN_BUCKET],
+      ['ratelimit:user-1'],
+      [1000, 60000, 60000, 2, 1]
+    );
+  });
+
+  it('should restore empty request lists encoded by Lua', async () => {
+    const { redis, store } = createRedis();
+    storage = new RedisRateLimitStorage(redis);
+    store.set(
+      'ratelimit:user-1',
+      JSON.stringify({
+        count: 0,
+        firstRequest: 0,
+        lastRequest: 0,
+        resetTime: 0,
+        requests: {},
+      })
+    );
+
+    expect((await storage.get('user-1'))?.requests).toEqual([]);
+  });
+
+  it('should let engines on different instances share a limit', async () => {
+    const { redis } = createRedis();
+    storage = new RedisRateLimitStorage(redis);
+    const config = {
+      algorithm: RateLimitAlgorithm.SLIDING_WINDOW,
+      strategy: RateLimitStrategy.USER_BASED,
+      windowMs: 60000,
+      maxRequests: 3,
+    };
+    const engines = [
+      new RateLimitingEngine(storage),
+      new RateLimitingEngine(storage),
+    ];
+    engines.forEach((engine) => engine.registerConfig('api', config));
+    const context = { user: { id: 'user-1' }, request: { headers: {} } };
+
+    const results = await Promise.all(
+      [0, 1, 0, 1].map((index) =>
+        engines[index]!.checkRateLimit('api', context)
+      )
+    );
+
+    expect(results.map((result) => result.remaining).sort()).toEqual([
+      0, 0, 1, 2,
+    ]);
+    expect(results.filter((result) => result.retryAfter)).toHaveLength(1);
+  });
+
+  it('should fall back to memory while Redis is unavailable', async () => {
+    jest.useFakeTimers();
+    const { redis, state } = createRedis();
+    storage = new RedisRateLimitStorage(redis, {
+      fallback: {
+        enabled: true,
+        strategy: 'memory',
+        retryInterval: 1000,
+        maxRetries: 3,
+      },
+    });
+    const failures = jest.fn();
+    const reconnected = jest.fn();
+    storage.on('redis-failure', failures);
+    storage.on('redis-reconnected', reconnected);
+
+    state.failing = true;
+    expect(await storage.incrementCounter('user-1')).toBe(1);
+    expect(storage.isUsingFallback()).toBe(true);
+    expect(failures).toHaveBeenCalledTimes(1);
+
+    state.failing = false;
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(reconnected).toHaveBeenCalled();
+    expect(storage.isUsingFallback()).toBe(false);
+  });
+
+  it('should rethrow Redis errors when fallback is disabled', async () => {
+    const { redis, state } = createRedis();
+    storage = new RedisRateLimitStorage(redis, {
+      fallback: {
+        enabled: false,
+        strategy: 'memory',
+        retryInterval: 1000,
+        maxRetries: 3,
+      },
+    });
+    state.connected = false;
+
+    await expect(storage.get('user-1')).rejects.toThrow(
+      'Redis cache not connected'
+    );
+  });
+});
@@ -49,6 +49,7 @@ export {
   RateLimitAlgorithm,
   RateLimitStrategy,
   DDoSProtectionLevel,
+  applyRateLimitUpdate,
 } from './RateLimitingEngine';
 
 export type {
@@ -56,8 +57,27 @@ export type {
   RateLimitInfo,
   RateLimitStorage,
   RateLimitEntry,
+  RateLimitUpdate,
+  QuotaConfig,
+  QuotaUnit,
+  QuotaScope,
+  QuotaRequest,
+  QuotaInfo,
+  QuotaReservation,
+  QuotaCheckResult,
+  QuotaUsage,
 } from './RateLimitingEngine';
 
+// Distributed rate limit storage
+export {
+  RedisRateLimitStorage,
+  RateLimitScripts,
+  createRedisRateLimitStorage,
+  DEFAULT_REDIS_RATE_LIMIT_STORAGE_CONFIG,
+} from './RedisRateLimitStorage';
+
+export type { RedisRateLimitStorageConfig } from './RedisRateLimitStorage';
+
 // Consumer-friendly rate limiting utilities
 export {
   SimpleRateLimiter,
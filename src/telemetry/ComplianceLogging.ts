@@ -35,7 +35,8 @@ export type ComplianceEventType =
   | 'data_anonymization' // Privacy regulations
   | 'retention_policy' // Data governance
   | 'cross_border_transfer' // GDPR Chapter V
-  | 'employee_access'; // Internal governance
+  | 'employee_access' // Internal governance
+  | 'human_oversight'; // EU AI Act Article 14
 
 /**
  * Compliance framework types
@@ -143,6 +144,26 @@ export interface DataProtectionRights {
   }>;
 }
 
+/**
+ * A person's decision on an action an AI system proposed, such as a tool
+ * call held for approval
+ */
+export interface HumanOversightRecord {
+  requestId: string;
+  action: string;
+  outcome: 'approved' | 'edited' | 'rejected';
+  reviewer: {
+    userId: string;
+    roles: string[];
+  };
+  reason: string; // Why the action needed review
+  proposed: any;
+  approved?: any; // What ran, when the reviewer edited the proposal
+  comment?: string;
+  onBehalfOf?: string; // User the AI system acted for
+  sessionId?: string;
+}
+
 /**
  * Compliance report configuration
  */
@@ -445,6 +466,41 @@ export class ComplianceLogging extends EventEmitter {
     });
   }
 
+  /**
+   * Log a human review of an AI system's proposed action
+   */
+  logHumanOversight(record: HumanOversightRecord): string {
+    return this.logEvent({
+      eventType: 'human_oversight',
+      framework: ['EU_AI_ACT'],
+      severity: record.outcome === 'rejected' ? 'medium' : 'low',
+      actor: { userId: record.reviewer.userId },
+      subject: {
+        ...(record.onBehalfOf ? { userId: record.onBehalfOf } : {}),
+        operation: record.action,
+      },
+      action: {
+        description: `Human ${record.outcome} ${record.action}`,
+        outcome: 'success',
+        details: {
+          requestId: record.requestId,
+          decision: record.outcome,
+          reviewerRoles: record.reviewer.roles,
+          reason: record.reason,
+          proposed: record.proposed,
+          ...(record.outcome === 'edited' ? { approved: record.approved } : {}),
+          ...(record.comment ? { comment: record.comment } : {}),
+        },
+      },
+      context: {
+        ...(record.sessionId ? { sessionId: record.sessionId } : {}),
+        requestId: record.requestId,
+        environment: (process.env.NODE_ENV as any) || 'development',
+        legalBasis: 'human_oversight',
+      },
+    });
+  }
+
   /**
    * Handle user data protection rights requests
    */
@@ -829,6 +885,7 @@ export class ComplianceLogging extends EventEmitter {
       'user_rights_request',
       'data_deletion',
       'consent_withdrawn',
+      'human_oversight',
     ];
 
     if (highRiskEvents.includes(eventType)) return 'high';
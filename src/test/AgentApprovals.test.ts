@@ -0,0 +1,72 @@
+/**
+ * Tests for agent tool call approval policies
+ */
+
+import {
+  assertApprovalAllowed,
+  getToolApprovalReason,
+  type AgentApprovalRequest,
+} from '../context/AgentApprovals';
+
+describe('getToolApprovalReason', () => {
+  it('should hold calls whose argument is above the threshold or not a number', () => {
+    const policy = {
+      require: 'above_threshold' as const,
+      argument: 'order.total',
+      threshold: 100,
+    };
+
+    expect(
+      getToolApprovalReason('refund', { order: { total: 100 } }, policy)
+    ).toBeNull();
+    expect(
+      getToolApprovalReason('refund', { order: { total: 100.5 } }, policy)
+    ).toBe('refund order.total 100.5 is above the approval threshold of 100');
+    expect(getToolApprovalReason('refund', { order: {} }, policy)).toBe(
+      'refund argument order.total is not a number'
+    );
+  });
+
+  it('should exempt actors with an allowed role', () => {
+    const policy = { require: 'by_role' as const, exemptRoles: ['admin'] };
+
+    expect(
+      getToolApprovalReason('sendEmail', {}, policy, {
+        userId: 'user_1',
+        roles: ['admin'],
+      })
+    ).toBeNull();
+    expect(getToolApprovalReason('sendEmail', {}, policy)).toBe(
+      'sendEmail requires approval unless run by admin'
+    );
+    expect(getToolApprovalReason('sendEmail', {}, undefined)).toBeNull();
+  });
+});
+
+describe('assertApprovalAllowed', () => {
+  const request: AgentApprovalRequest = {
+    id: 'step-1',
+    toolName: 'refund',
+    arguments: { amount: 250 },
+    reason: 'refund always requires approval',
+    allowEdits: false,
+    requestedAt: new Date(),
+  };
+  const supervisor = { userId: 'sup_1', roles: ['supervisor'] };
+
+  it('should reject edits when the policy does not allow them', () => {
+    expect(() =>
+      assertApprovalAllowed(request, {
+        outcome: 'approved',
+        approver: supervisor,
+        arguments: { amount: 90 },
+      })
+    ).toThrow('Arguments of refund may not be edited');
+    expect(() =>
+      assertApprovalAllowed(request, {
+        outcome: 'rejected',
+        approver: supervisor,
+      })
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for agent workflow checkpoint stores
+ */
+
+import {
+  ConversationAgentCheckpointStore,
+  MemoryAgentCheckpointStore,
+  type AgentCheckpoint,
+} from '../context/AgentCheckpoints';
+import { ConversationDataAccess } from '../database/ConversationDataAccess';
+import { createTenantContext } from '../database/TenantContext';
+import { createMemoryConnection } from '../database';
+
+const checkpoint = (workflowId: string): AgentCheckpoint => ({
+  workflowId,
+  workflow: {
+    id: workflowId,
+    name: 'Refunds',
+    description: 'Refund duplicate charges',
+    steps: [
+      {
+        id: 'step-1',
+        type: 'tool_call',
+        status: 'completed',
+        startTime: new Date('2026-01-15T09:00:00Z'),
+        endTime: new Date('2026-01-15T09:00:02Z'),
+        toolCall: {
+          name: 'refund',
+          arguments: { orderId: 'order_1' },
+          idempotencyKey: 'step-1',
+          result: { refunded: true },
+        },
+      },
+    ],
+    status: 'paused',
+    startTime: new Date('2026-01-15T09:00:00Z'),
+    currentStepIndex: 0,
+    maxSteps: 50,
+    maxDuration: 300000,
+    allowParallel: false,
+    totalSteps: 1,
+    completedSteps: 1,
+    failedSteps: 0,
+    totalCost: 0,
+    totalTokens: 0,
+  },
+  context: {
+    task: 'Refund duplicate charges',
+    goal: 'Every duplicate charge refunded',
+    constraints: [],
+    memory: { refunded: ['order_1'] },
+    variables: {},
+    preferredModels: [],
+  },
+  stepCount: 1,
+  savedAt: new Date('2026-01-15T09:00:03Z'),
+});
+
+describe('MemoryAgentCheckpointStore', () => {
+  it('should return saved checkpoints with their dates restored', async () => {
+    const store = new MemoryAgentCheckpointStore();
+    const saved = checkpoint('agent-1');
+
+    await store.save(saved);
+    saved.workflow.status = 'running';
+
+    const loaded = await store.load('agent-1');
+    expect(loaded).toEqual({
+      ...checkpoint('agent-1'),
+      workflow: { ...checkpoint('agent-1').workflow, status: 'paused' },
+    });
+    expect(loaded!.workflow.steps[0]!.endTime).toBeInstanceOf(Date);
+
+    await store.delete('agent-1');
+    expect(await store.load('agent-1')).toBeNull();
+  });
+});
+
+describe('ConversationAgentCheckpointStore', () => {
+  const context = createTenantContext('acme', 'user_1');
+  const connection = createMemoryConnection();
+  const dataAccess = new ConversationDataAccess(connection);
+  let conversationId: string;
+
+  beforeAll(async () => {
+    await connection.initialize();
+    await dataAccess.initialize({ migrate: true });
+    const created = await dataAccess.createConversation(context, {
+      title: 'Duplicate charge',
+      metadata: { tags: ['billing'] },
+    });
+    conversationId = created.data!.id;
+  });
+
+  afterAll(async () => {
+    await connection.shutdown();
+  });
+
+  it('should keep each workflow under its own conversation metadata key', async () => {
+    const store = new ConversationAgentCheckpointStore(
+      dataAccess,
+      context,
+      conversationId
+    );
+
+    await store.save(checkpoint('agent-1'));
+    await store.save(checkpoint('agent-2'));
+    await store.delete('agent-1');
+
+    expect(await store.load('agent-1')).toBeNull();
+    expect(await store.list()).toEqual([checkpoint('agent-2')]);
+
+    const conversation = await dataAccess.getConversation(
+      conversationId,
+      context
+    );
+    expect(conversation.data!.metadata).toMatchObject({
+      tags: ['billing'],
+      'agentCheckpoint:agent-2': { stepCount: 1 },
+    });
+  });
+
+  it('should not read checkpoints of another tenant', async () => {
+    const store = new ConversationAgentCheckpointStore(
+      dataAccess,
+      createTenantContext('globex', 'user_1'),
+      conversationId
+    );
+
+    await expect(store.load('agent-2')).rejects.toThrow(
+      'Failed to read agent checkpoints'
+    );
+  });
+});
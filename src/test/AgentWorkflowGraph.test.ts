@@ -0,0 +1,319 @@
+/**
+ * Tests for declarative agent workflow graphs
+ */
+
+import {
+  executeWorkflowGraph,
+  createWorkflowRunState,
+  validateWorkflowGraph,
+  workflowGraph,
+  type WorkflowGraphDefinition,
+  type WorkflowGraphRuntime,
+} from '../context/AgentWorkflowGraph';
+import type { AgentStep } from '../context/ConciergusAgentHooks';
+
+/**
+ * Runtime whose tool steps return results from a table of handlers,
+ * recording the order steps start and finish in
+ */
+function createRuntime(
+  handlers: Record<string, (args: any) => any>,
+  overrides: Partial<WorkflowGraphRuntime> = {}
+) {
+  const events: string[] = [];
+  const runtime: WorkflowGraphRuntime = {
+    allowParallel: false,
+    runStep: async (node, options) => {
+      events.push(`start ${node.id}`);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      const step: AgentStep = {
+        id: node.id,
+        type: 'tool_call',
+        status: 'completed',
+        startTime: new Date(),
+        toolCall: {
+          name: options.toolName!,
+          arguments: options.toolArgs,
+        },
+      };
+      try {
+        step.toolCall!.result = handlers[options.toolName!]!(options.toolArgs);
+      } catch (error) {
+        step.status = 'failed';
+        step.toolCall!.error = (error as Error).message;
+      }
+      events.push(`end ${node.id}`);
+      return step;
+    },
+    ...overrides,
+  };
+  return { runtime, events };
+}
+
+const tool = (toolName: string, toolArgs: any = {}) => ({ toolName, toolArgs });
+
+describe('validateWorkflowGraph', () => {
+  it('should accept a graph with branches, loops and sub-workflows', () => {
+    const notify = workflowGraph('notify', 'Notify')
+      .step('email', tool('sendEmail'))
+      .build();
+
+    expect(() =>
+      workflowGraph('refunds', 'Refunds')
+        .step('classify', tool('classify'), {
+          next: [
+            {
+              to: 'review',
+              when: { path: 'results.classify', equals: 'large' },
+            },
+            { to: 'checks' },
+          ],
+        })
+        .step('review', tool('review'))
+        .parallel('checks', ['fraud', 'stock'], 'retry')
+        .step('fraud', tool('fraudCheck'))
+        .step('stock', tool('stockCheck'))
+        .loop(
+          'retry',
+          {
+            body: 'refund',
+            while: { path: 'variables.refunded', notEquals: true },
+            maxIterations: 3,
+          },
+          'notify'
+        )
+        .step('refund', tool('refund'), { output: 'refunded' })
+        .subworkflow('notify', 'notify')
+        .build({ notify })
+    ).not.toThrow();
+  });
+
+  it('should report every problem in an invalid graph', () => {
+    const definition: WorkflowGraphDefinition = {
+      id: 'broken',
+      name: 'Broken',
+      start: 'a',
+      nodes: [
+        {
+          id: 'a',
+          type: 'step',
+          step: tool('x'),
+          next: [{ to: 'b' }, { to: 'c' }],
+        },
+        { id: 'b', type: 'step', step: tool('x'), next: 'missing' },
+        {
+          id: 'c',
+          type: 'loop',
+          body: 'c',
+          while: { path: 'x' },
+          maxIterations: 0,
+        },
+        { id: 'd', type: 'subworkflow', workflow: 'other' },
+      ],
+    };
+
+    expect(validateWorkflowGraph(definition).errors).toEqual([
+      'Default edge of node a must be its last edge',
+      'Node b refers to unknown node missing',
+      'Loop c needs a positive maxIterations',
+      'Sub-workflow other of node d is not defined',
+    ]);
+  });
+
+  it('should reject cycles, shared branch nodes and unreachable nodes', () => {
+    const definition: WorkflowGraphDefinition = {
+      id: 'tangled',
+      name: 'Tangled',
+      start: 'a',
+      nodes: [
+        { id: 'a', type: 'step', step: tool('x'), next: 'b' },
+        { id: 'b', type: 'step', step: tool('x'), next: 'fork' },
+        { id: 'fork', type: 'parallel', branches: ['c', 'd'], next: 'a' },
+        { id: 'c', type: 'step', step: tool('x'), next: 'd' },
+        { id: 'd', type: 'step', step: tool('x') },
+        { id: 'orphan', type: 'step', step: tool('x') },
+      ],
+    };
+
+    expect(validateWorkflowGraph(definition).errors).toEqual([
+      'Edges into node a form a cycle; repeat steps with a loop node',
+      'Node d is reached from both branch 1 of fork and branch 2 of fork',
+      'Node orphan is unreachable',
+    ]);
+  });
+
+  it('should reject sub-workflows that include themselves', () => {
+    const a = workflowGraph('a', 'A').subworkflow('run-b', 'b');
+    const b: WorkflowGraphDefinition = {
+      id: 'b',
+      name: 'B',
+      start: 'run-a',
+      nodes: [{ id: 'run-a', type: 'subworkflow', workflow: 'a' }],
+    };
+
+    expect(() => a.build({ b, a: { ...b, id: 'a' } })).toThrow(
+      'Invalid workflow graph a: b: Sub-workflow a includes itself'
+    );
+  });
+});
+
+describe('executeWorkflowGraph', () => {
+  it('should follow the first edge whose condition holds', async () => {
+    const { runtime, events } = createRuntime({
+      classify: () => ({ size: 'large', amount: 500 }),
+      review: () => 'escalated',
+      refund: () => 'refunded',
+    });
+    const definition = workflowGraph('refunds', 'Refunds')
+      .step('classify', tool('classify'), {
+        next: [
+          {
+            to: 'review',
+            when: {
+              all: [
+                { path: 'results.classify.size', equals: 'large' },
+                { path: 'results.classify.amount', greaterThan: 100 },
+              ],
+            },
+          },
+          { to: 'refund' },
+        ],
+      })
+      .step('review', tool('review'))
+      .step('refund', tool('refund'))
+      .build();
+
+    const state = await executeWorkflowGraph(definition, runtime);
+
+    expect(events).toEqual([
+      'start classify',
+      'end classify',
+      'start review',
+      'end review',
+    ]);
+    expect(state.results.review).toBe('escalated');
+    expect(state.statuses).toEqual({
+      classify: 'completed',
+      review: 'completed',
+    });
+  });
+
+  it('should run branches concurrently only when parallel execution is allowed', async () => {
+    const handlers = { check: () => true, refund: () => 'refunded' };
+    const definition = workflowGraph('checks', 'Checks')
+      .parallel('checks', ['fraud', 'stock'], 'refund')
+      .step('fraud', tool('check'))
+      .step('stock', tool('check'))
+      .step('refund', tool('refund'))
+      .build();
+
+    const sequential = createRuntime(handlers);
+    await executeWorkflowGraph(definition, sequential.runtime);
+    const concurrent = createRuntime(handlers, { allowParallel: true });
+    await executeWorkflowGraph(definition, concurrent.runtime);
+
+    expect(sequential.events.slice(0, 4)).toEqual([
+      'start fraud',
+      'end fraud',
+      'start stock',
+      'end stock',
+    ]);
+    expect(concurrent.events).toEqual([
+      'start fraud',
+      'start stock',
+      'end fraud',
+      'end stock',
+      'start refund',
+      'end refund',
+    ]);
+  });
+
+  it('should repeat a loop while its condition holds and fail past its limit', async () => {
+    let attempts = 0;
+    const { runtime } = createRuntime({
+      refund: () => ++attempts >= 2,
+    });
+    const definition = (maxIterations: number) =>
+      workflowGraph('retry', 'Retry')
+        .loop('retry', {
+          body: 'refund',
+          while: { path: 'variables.refunded', notEquals: true },
+          maxIterations,
+        })
+        .step('refund', tool('refund'), { output: 'refunded' })
+        .build();
+
+    const state = await executeWorkflowGraph(definition(3), runtime);
+    expect(state.iterations).toEqual({ retry: 2 });
+    expect(state.variables.refunded).toBe(true);
+
+    attempts = -10;
+    await expect(executeWorkflowGraph(definition(3), runtime)).rejects.toThrow(
+      'Loop retry exceeded 3 iterations'
+    );
+  });
+
+  it('should share variables with sub-workflows and nest their results', async () => {
+    const { runtime } = createRuntime(
+      {
+        lookup: () => 'order_1',
+        refund: (args) => `refunded ${args.orderId}`,
+      },
+      {
+        definitions: {
+          refund: workflowGraph('refund', 'Refund')
+            .step('refund', (state) =>
+              tool('refund', { orderId: state.variables.orderId })
+            )
+            .build(),
+        },
+      }
+    );
+    const definition: WorkflowGraphDefinition = {
+      id: 'support',
+      name: 'Support',
+      start: 'lookup',
+      nodes: [
+        {
+          id: 'lookup',
+          type: 'step',
+          step: tool('lookup'),
+          output: 'orderId',
+          next: 'refund',
+        },
+        { id: 'refund', type: 'subworkflow', workflow: 'refund' },
+      ],
+    };
+
+    const state = await executeWorkflowGraph(
+      definition,
+      runtime,
+      createWorkflowRunState({ customer: 'user_1' })
+    );
+
+    expect(state.results.refund).toEqual({ refund: 'refunded order_1' });
+    expect(state.variables).toEqual({ customer: 'user_1', orderId: 'order_1' });
+  });
+
+  it('should fail the run when a step fails, after other branches finish', async () => {
+    const { runtime, events } = createRuntime(
+      {
+        fraud: () => {
+          throw new Error('Fraud service down');
+        },
+        stock: () => true,
+      },
+      { allowParallel: true }
+    );
+    const definition = workflowGraph('checks', 'Checks')
+      .parallel('checks', ['fraud', 'stock'])
+      .step('fraud', tool('fraud'))
+      .step('stock', tool('stock'))
+      .build();
+
+    await expect(executeWorkflowGraph(definition, runtime)).rejects.toThrow(
+      'Step fraud failed: Fraud service down'
+    );
+    expect(events).toContain('end stock');
+  });
+});
@@ -10,6 +10,10 @@ import {
   type PrepareStepOptions,
   type ContinueUntilOptions
 } from '../context/ConciergusAgentHooks';
+import { MemoryAgentCheckpointStore } from '../context/AgentCheckpoints';
+import { workflowGraph } from '../context/AgentWorkflowGraph';
+import { MCPStubServer, connectMCPClient } from '../mcp';
+import { ComplianceLogging } from '../telemetry/ComplianceLogging';
 
 describe('useConciergusAgent Hook', () => {
   const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
@@ -307,7 +311,10 @@ describe('useConciergusAgent Hook', () => {
         expect(executedStep!.status).toBe('completed');
       });
 
-      expect(calculatorTool.handler).toHaveBeenCalledWith({ operation: 'add', a: 5, b: 3 });
+      expect(calculatorTool.handler).toHaveBeenCalledWith(
+        { operation: 'add', a: 5, b: 3 },
+        { idempotencyKey: step.id }
+      );
       expect(executedStep!.toolCall?.result).toBe(8);
     });
   });
@@ -679,4 +686,567 @@ describe('useConciergusAgent Hook', () => {
       });
     });
   });
+
+  describe('Checkpoints', () => {
+    const createContext = (): AgentContext => ({
+      messages: [],
+      task: 'Research',
+      goal: 'Summarize findings',
+      constraints: [],
+      tools: [],
+      memory: {},
+      variables: {},
+      preferredModels: ['anthropic/claude-3-sonnet'],
+      costLimit: 5.0,
+      timeLimit: 60000
+    });
+
+    it('resumes a paused workflow in a new session from its checkpoint', async () => {
+      const checkpointStore = new MemoryAgentCheckpointStore();
+      const first = renderHook(() => useConciergusAgent({ checkpointStore }), {
+        wrapper: TestWrapper
+      });
+
+      const workflow = first.result.current.createWorkflow('Research', 'Research', 'Research');
+      await act(async () => {
+        await first.result.current.startWorkflow(workflow, createContext());
+      });
+      act(() => {
+        first.result.current.setMemory('sources', ['arxiv']);
+      });
+
+      await act(async () => {
+        await first.result.current.continueUntil({
+          condition: (workflow) => workflow.totalSteps >= 3,
+          onStep: () => first.result.current.pauseWorkflow()
+        });
+      });
+      first.unmount();
+
+      // A reload: new hook, same store
+      const second = renderHook(() => useConciergusAgent({ checkpointStore }), {
+        wrapper: TestWrapper
+      });
+      const [checkpoint] = await second.result.current.listCheckpoints();
+      expect(checkpoint).toMatchObject({
+        workflowId: workflow.id,
+        stepCount: 1,
+        workflow: { status: 'paused', totalSteps: 1 }
+      });
+
+      let resumed: AgentWorkflow | null = null;
+      await act(async () => {
+        resumed = await second.result.current.resumeWorkflow(workflow.id, {
+          condition: (workflow) => workflow.totalSteps >= 3
+        });
+      });
+
+      expect(resumed!).toMatchObject({ status: 'completed', totalSteps: 3 });
+      expect(resumed!.steps).toHaveLength(3);
+      expect(resumed!.startTime).toBeInstanceOf(Date);
+      expect(second.result.current.getMemory('sources')).toEqual(['arxiv']);
+      expect((await checkpointStore.load(workflow.id))!.workflow.status).toBe('completed');
+    }, 15000);
+
+    it('reruns an interrupted tool call with the same idempotency key', async () => {
+      const checkpointStore = new MemoryAgentCheckpointStore();
+      const startTime = new Date('2026-01-01T00:00:00Z');
+      const toolStep = (id: string, status: AgentStep['status']): AgentStep => ({
+        id,
+        type: 'tool_call',
+        status,
+        startTime,
+        toolCall: {
+          name: 'refund',
+          arguments: { orderId: id },
+          idempotencyKey: id
+        }
+      });
+      await checkpointStore.save({
+        workflowId: 'agent-1',
+        workflow: {
+          id: 'agent-1',
+          name: 'Refunds',
+          description: 'Refund orders',
+          steps: [toolStep('step-1', 'completed'), toolStep('step-2', 'executing')],
+          status: 'running',
+          startTime,
+          currentStepIndex: 0,
+          maxSteps: 50,
+          maxDuration: 300000,
+          allowParallel: false,
+          totalSteps: 1,
+          completedSteps: 1,
+          failedSteps: 0,
+          totalCost: 0,
+          totalTokens: 0
+        },
+        context: { ...createContext(), memory: { refunded: 1 } },
+        stepCount: 1,
+        savedAt: startTime
+      });
+
+      const { result } = renderHook(() => useConciergusAgent({ checkpointStore }), {
+        wrapper: TestWrapper
+      });
+      const refund = jest.fn().mockResolvedValue({ refunded: true });
+      act(() => {
+        result.current.registerTool({
+          name: 'refund',
+          description: 'Refund an order',
+          parameters: {},
+          handler: refund
+        });
+      });
+
+      let resumed: AgentWorkflow | null = null;
+      await act(async () => {
+        resumed = await result.current.resumeWorkflow('agent-1', {
+          condition: (_workflow, step) => step.type === 'tool_call'
+        });
+      });
+
+      expect(refund).toHaveBeenCalledTimes(1);
+      expect(refund).toHaveBeenCalledWith({ orderId: 'step-2' }, { idempotencyKey: 'step-2' });
+      expect(resumed!.steps.map((step) => step.status)).toEqual(['completed', 'completed']);
+      expect(resumed!).toMatchObject({ status: 'completed', totalSteps: 2 });
+      expect(result.current.getMemory('refunded')).toBe(1);
+    });
+
+    it('refuses to resume unknown or finished workflows', async () => {
+      const checkpointStore = new MemoryAgentCheckpointStore();
+      const { result } = renderHook(() => useConciergusAgent({ checkpointStore }), {
+        wrapper: TestWrapper
+      });
+
+      const workflow = result.current.createWorkflow('Test', 'Test', 'Test');
+      await act(async () => {
+        await result.current.startWorkflow(workflow, createContext());
+      });
+      act(() => {
+        result.current.cancelWorkflow();
+      });
+
+      await expect(result.current.resumeWorkflow('agent-missing')).rejects.toThrow(
+        'No checkpoint found for workflow agent-missing'
+      );
+      await waitFor(async () => {
+        expect((await checkpointStore.load(workflow.id))!.workflow.status).toBe('cancelled');
+      });
+      await expect(result.current.resumeWorkflow()).rejects.toThrow(
+        `Workflow ${workflow.id} is cancelled`
+      );
+    });
+  });
+
+  describe('Approvals', () => {
+    const createContext = (): AgentContext => ({
+      messages: [],
+      task: 'Refunds',
+      goal: 'Refund duplicate charges',
+      constraints: [],
+      tools: [],
+      memory: {},
+      variables: {},
+      preferredModels: ['anthropic/claude-3-sonnet'],
+      costLimit: 5.0,
+      timeLimit: 60000
+    });
+    const supervisor = { userId: 'sup_1', roles: ['supervisor'] };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('holds a tool call above the threshold until an approver edits and approves it', async () => {
+      const logHumanOversight = jest.fn();
+      jest
+        .spyOn(ComplianceLogging, 'getInstance')
+        .mockReturnValue({ logHumanOversight } as unknown as ComplianceLogging);
+      const onApprovalRequired = jest.fn();
+      const refund = jest.fn().mockResolvedValue({ refunded: true });
+      const { result } = renderHook(
+        () =>
+          useConciergusAgent({
+            approvalPolicies: {
+              refund: {
+                require: 'above_threshold',
+                argument: 'amount',
+                threshold: 100,
+                approverRoles: ['supervisor']
+              }
+            },
+            actor: { userId: 'user_1', roles: ['customer'] },
+            onApprovalRequired
+          }),
+        { wrapper: TestWrapper }
+      );
+      act(() => {
+        result.current.registerTool({
+          name: 'refund',
+          description: 'Refund an order',
+          parameters: {},
+          handler: refund
+        });
+      });
+
+      const workflow = result.current.createWorkflow('Refunds', 'Refunds', 'Refunds');
+      const step = await result.current.prepareStep({
+        toolName: 'refund',
+        toolArgs: { orderId: 'order_1', amount: 250 }
+      });
+      workflow.steps.push(step);
+      await act(async () => {
+        await result.current.startWorkflow(workflow, {
+          ...createContext(),
+          tools: result.current.context.tools
+        });
+      });
+
+      await act(async () => {
+        await result.current.continueUntil({
+          condition: (_workflow, step) => step.type === 'tool_call'
+        });
+      });
+
+      expect(refund).not.toHaveBeenCalled();
+      expect(step.status).toBe('awaiting_approval');
+      expect(workflow.status).toBe('paused');
+      expect(result.current.pendingApprovals).toEqual([
+        expect.objectContaining({
+          id: step.id,
+          toolName: 'refund',
+          reason: 'refund amount 250 is above the approval threshold of 100',
+          approverRoles: ['supervisor']
+        })
+      ]);
+      expect(onApprovalRequired).toHaveBeenCalledTimes(1);
+
+      await expect(
+        result.current.approveToolCall(step.id, { userId: 'agent_2', roles: ['agent'] })
+      ).rejects.toThrow('agent_2 may not decide on refund; requires role supervisor');
+
+      let continued: AgentWorkflow | null = null;
+      await act(async () => {
+        continued = await result.current.approveToolCall(step.id, supervisor, {
+          arguments: { orderId: 'order_1', amount: 90 },
+          comment: 'Partial refund only'
+        });
+      });
+
+      expect(refund).toHaveBeenCalledWith(
+        { orderId: 'order_1', amount: 90 },
+        { idempotencyKey: step.id }
+      );
+      expect(continued!).toMatchObject({ status: 'completed', completedSteps: 1 });
+      expect(step.approval?.decision).toMatchObject({
+        outcome: 'approved',
+        edited: true,
+        originalArguments: { orderId: 'order_1', amount: 250 }
+      });
+      expect(result.current.pendingApprovals).toEqual([]);
+      expect(logHumanOversight).toHaveBeenCalledWith({
+        requestId: step.id,
+        action: 'refund',
+        outcome: 'edited',
+        reviewer: supervisor,
+        reason: 'refund amount 250 is above the approval threshold of 100',
+        proposed: { orderId: 'order_1', amount: 250 },
+        approved: { orderId: 'order_1', amount: 90 },
+        comment: 'Partial refund only',
+        onBehalfOf: 'user_1'
+      });
+    });
+
+    it('fails a direct tool invocation that an approver rejects', async () => {
+      const sendEmail = jest.fn();
+      const { result } = renderHook(
+        () =>
+          useConciergusAgent({
+            approvalPolicies: { sendEmail: { require: 'always' } }
+          }),
+        { wrapper: TestWrapper }
+      );
+      act(() => {
+        result.current.registerTool({
+          name: 'sendEmail',
+          description: 'Send an email',
+          parameters: {},
+          handler: sendEmail
+        });
+      });
+
+      let invocation: Promise<any>;
+      act(() => {
+        invocation = result.current.invokeTool('sendEmail', { to: 'a@example.com' });
+      });
+      await waitFor(() => {
+        expect(result.current.pendingApprovals).toHaveLength(1);
+      });
+
+      const rejected = expect(invocation!).rejects.toThrow(
+        'Tool sendEmail was rejected by sup_1'
+      );
+      const [request] = result.current.pendingApprovals;
+      await act(async () => {
+        await result.current.rejectToolCall(request!.id, supervisor, 'Wrong recipient');
+      });
+
+      await rejected;
+      expect(sendEmail).not.toHaveBeenCalled();
+      expect(result.current.pendingApprovals).toEqual([]);
+    });
+
+    it('fails held tool invocations when cancelled or unmounted', async () => {
+      const sendEmail = jest.fn();
+      const { result, unmount } = renderHook(
+        () =>
+          useConciergusAgent({
+            approvalPolicies: { sendEmail: { require: 'always' } }
+          }),
+        { wrapper: TestWrapper }
+      );
+      act(() => {
+        result.current.registerTool({
+          name: 'sendEmail',
+          description: 'Send an email',
+          parameters: {},
+          handler: sendEmail
+        });
+      });
+
+      let cancelled: Promise<any>;
+      act(() => {
+        cancelled = result.current.invokeTool('sendEmail', { to: 'a@example.com' });
+      });
+      await waitFor(() => {
+        expect(result.current.pendingApprovals).toHaveLength(1);
+      });
+      const cancellation = expect(cancelled!).rejects.toThrow(
+        'Approval of tool sendEmail was cancelled'
+      );
+      act(() => {
+        result.current.cancelWorkflow();
+      });
+      await cancellation;
+      expect(result.current.pendingApprovals).toEqual([]);
+
+      let unmounted: Promise<any>;
+      act(() => {
+        unmounted = result.current.invokeTool('sendEmail', { to: 'b@example.com' });
+      });
+      await waitFor(() => {
+        expect(result.current.pendingApprovals).toHaveLength(1);
+      });
+      const release = expect(unmounted!).rejects.toThrow(
+        'Approval of tool sendEmail was cancelled'
+      );
+      unmount();
+      await release;
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('lets exempt roles run tools without approval', async () => {
+      const refund = jest.fn().mockResolvedValue({ refunded: true });
+      const { result } = renderHook(
+        () =>
+          useConciergusAgent({
+            approvalPolicies: { refund: { require: 'by_role', exemptRoles: ['supervisor'] } },
+            actor: supervisor
+          }),
+        { wrapper: TestWrapper }
+      );
+      act(() => {
+        result.current.registerTool({
+          name: 'refund',
+          description: 'Refund an order',
+          parameters: {},
+          handler: refund
+        });
+      });
+
+      await act(async () => {
+        await result.current.invokeTool('refund', { orderId: 'order_1' });
+      });
+
+      expect(refund).toHaveBeenCalledWith({ orderId: 'order_1' });
+      expect(result.current.pendingApprovals).toEqual([]);
+    });
+  });
+  describe('Workflow Graphs', () => {
+    const supervisor = { userId: 'sup_1', roles: ['supervisor'] };
+    const registerTools = (
+      result: { current: ReturnType<typeof useConciergusAgent> },
+      handlers: Record<string, jest.Mock>
+    ) => {
+      act(() => {
+        Object.entries(handlers).forEach(([name, handler]) => {
+          result.current.registerTool({
+            name,
+            description: name,
+            parameters: {},
+            handler
+          });
+        });
+      });
+    };
+
+    const refundGraph = workflowGraph('refunds', 'Refunds', 'Refund an order')
+      .step('lookup', { toolName: 'lookupOrder', toolArgs: {} }, {
+        output: 'order',
+        next: [
+          { to: 'review', when: { path: 'variables.order.amount', greaterThan: 100 } },
+          { to: 'refund' }
+        ]
+      })
+      .step('review', { toolName: 'flagForReview', toolArgs: {} })
+      .step('refund', (state) => ({
+        toolName: 'refund',
+        toolArgs: { amount: state.variables.order.amount }
+      }))
+      .build();
+
+    it('runs a registered graph by ID and keeps step outputs as variables', async () => {
+      const handlers = {
+        lookupOrder: jest.fn().mockResolvedValue({ amount: 40 }),
+        flagForReview: jest.fn(),
+        refund: jest.fn().mockResolvedValue({ refunded: true })
+      };
+      const { result } = renderHook(
+        () => useConciergusAgent({ workflowDefinitions: { refunds: refundGraph } }),
+        { wrapper: TestWrapper }
+      );
+      registerTools(result, handlers);
+
+      let workflow: AgentWorkflow;
+      await act(async () => {
+        workflow = await result.current.runWorkflowGraph('refunds');
+      });
+
+      expect(workflow!.status).toBe('completed');
+      expect(workflow!.steps.map((step) => step.graphNode)).toEqual(['lookup', 'refund']);
+      expect(workflow!.result).toEqual({
+        lookup: { amount: 40 },
+        refund: { refunded: true }
+      });
+      expect(handlers.refund).toHaveBeenCalledWith(
+        { amount: 40 },
+        { idempotencyKey: workflow!.steps[1]!.id }
+      );
+      expect(handlers.flagForReview).not.toHaveBeenCalled();
+      expect(result.current.context.variables.order).toEqual({ amount: 40 });
+      expect(result.current.isRunning).toBe(false);
+    });
+
+    it('holds graph steps that need approval until they are decided', async () => {
+      const handlers = {
+        lookupOrder: jest.fn().mockResolvedValue({ amount: 40 }),
+        flagForReview: jest.fn(),
+        refund: jest.fn().mockResolvedValue({ refunded: true })
+      };
+      const { result } = renderHook(
+        () => useConciergusAgent({ approvalPolicies: { refund: { require: 'always' } } }),
+        { wrapper: TestWrapper }
+      );
+      registerTools(result, handlers);
+
+      let run: Promise<AgentWorkflow>;
+      act(() => {
+        run = result.current.runWorkflowGraph(refundGraph);
+      });
+      await waitFor(() => {
+        expect(result.current.pendingApprovals).toHaveLength(1);
+      });
+      expect(handlers.refund).not.toHaveBeenCalled();
+
+      const [request] = result.current.pendingApprovals;
+      let workflow: AgentWorkflow;
+      await act(async () => {
+        await result.current.approveToolCall(request!.id, supervisor, {
+          arguments: { amount: 30 }
+        });
+        workflow = await run!;
+      });
+
+      expect(workflow!.status).toBe('completed');
+      expect(handlers.refund).toHaveBeenCalledWith(
+        { amount: 30 },
+        { idempotencyKey: request!.id }
+      );
+      expect(workflow!.steps[1]!.approval!.decision).toMatchObject({
+        outcome: 'approved',
+        edited: true
+      });
+    });
+
+    it('fails the workflow when a definition is invalid', async () => {
+      const { result } = renderHook(() => useConciergusAgent(), {
+        wrapper: TestWrapper
+      });
+
+      let workflow: AgentWorkflow;
+      await act(async () => {
+        workflow = await result.current.runWorkflowGraph({
+          id: 'broken',
+          name: 'Broken',
+          start: 'missing',
+          nodes: []
+        });
+      });
+
+      expect(workflow!.status).toBe('failed');
+      expect(workflow!.error).toBe(
+        'Invalid workflow graph broken: Start node missing does not exist'
+      );
+      expect(result.current.error?.message).toBe(workflow!.error);
+    });
+  });
+  describe('MCP Tools', () => {
+    it('registers MCP server tools and follows tool list changes', async () => {
+      const server = new MCPStubServer({
+        name: 'billing',
+        tools: [
+          {
+            name: 'lookup',
+            inputSchema: { type: 'object', properties: { email: { type: 'string' } } },
+            handler: async ({ email }) => ({
+              content: [{ type: 'text', text: `Customer ${email}` }]
+            })
+          }
+        ]
+      });
+      const client = await connectMCPClient({
+        name: 'billing',
+        transport: server.createTransport(),
+        toolNamePrefix: 'billing_'
+      });
+      const mcpClients = [client];
+
+      const { result, unmount } = renderHook(
+        () => useConciergusAgent({ mcpClients }),
+        { wrapper: TestWrapper }
+      );
+      expect(result.current.context.tools.map((tool) => tool.name)).toEqual([
+        'billing_lookup'
+      ]);
+
+      let customer: any;
+      await act(async () => {
+        customer = await result.current.invokeTool('billing_lookup', {
+          email: 'ada@example.com'
+        });
+      });
+      expect(customer).toBe('Customer ada@example.com');
+
+      await act(async () => {
+        server.removeTool('lookup');
+      });
+      await waitFor(() => {
+        expect(result.current.context.tools).toEqual([]);
+      });
+
+      unmount();
+      await client.close();
+    });
+  });
 }); 
\ No newline at end of file
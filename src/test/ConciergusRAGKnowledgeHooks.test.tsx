@@ -11,6 +11,10 @@ import {
   type RAGContext
 } from '../context/ConciergusRAGKnowledgeHooks';
 import { GatewayProvider, useGateway } from '../context/GatewayProvider';
+import { HNSWVectorStore } from '../knowledge/HNSWVectorStore';
+import { BM25Index } from '../knowledge/BM25Index';
+import { StorageEmbeddingCache } from '../knowledge/EmbeddingCache';
+import { IndexingJob, MemoryIndexingJobStore } from '../knowledge/IndexingJob';
 
 // Mock AI SDK functions
 jest.mock('ai', () => ({
@@ -762,6 +766,42 @@ describe('useConciergusKnowledge', () => {
     expect(chunks[0].length).toBeLessThanOrEqual(50);
   });
 
+  it('should split markdown documents by heading with byte offsets', () => {
+    const { result } = renderHook(() => useConciergusKnowledge(), {
+      wrapper: TestWrapper
+    });
+
+    const content = '# Guide\n\nIntro.\n\n## Café\n\nDétails ici.';
+    const chunks = result.current.splitDocument({
+      id: 'md_doc',
+      title: 'Guide',
+      content,
+      source: 'guide.md',
+      format: 'markdown',
+      metadata: {
+        tags: [],
+        version: 1,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        size: content.length
+      },
+      chunks: [],
+      embeddings: [],
+      isIndexed: false
+    });
+
+    expect(chunks.map((chunk) => chunk.metadata.sectionPath)).toEqual([
+      ['Guide'],
+      ['Guide', 'Café']
+    ]);
+
+    const bytes = new TextEncoder().encode(content);
+    const cited = new TextDecoder().decode(
+      bytes.slice(chunks[1].startOffset, chunks[1].endOffset)
+    );
+    expect(cited).toBe('Détails ici.');
+  });
+
   it('should process document into chunks with embeddings', async () => {
     setupGatewayMocks();
     
@@ -901,6 +941,147 @@ describe('useConciergusKnowledge', () => {
     expect(kb?.documents).toHaveLength(3); // Original + 2 imported
   });
 
+  it('should extract text from imported files', async () => {
+    setupGatewayMocks();
+
+    const { result } = renderHook(() => useConciergusKnowledge({ autoIndexing: false }), {
+      wrapper: TestWrapper
+    });
+
+    const file = new File(
+      ['<html><head><title>Setup Guide</title></head><body><h1>Install</h1><p>Run it.</p></body></html>'],
+      'setup.html',
+      { type: 'text/html' }
+    );
+
+    await act(async () => {
+      await result.current.importDocuments('kb_test', [file]);
+    });
+
+    const kb = result.current.knowledgeBases.find(kb => kb.id === 'kb_test');
+    const imported = kb?.documents.find(doc => doc.source === 'setup.html');
+    expect(imported).toMatchObject({
+      title: 'Setup Guide',
+      content: '# Install\n\nRun it.',
+      format: 'markdown',
+      metadata: expect.objectContaining({ mimeType: 'text/html' })
+    });
+  });
+
+  it('should import JSON and XML files as text', async () => {
+    setupGatewayMocks();
+
+    const { result } = renderHook(() => useConciergusKnowledge({ autoIndexing: false }), {
+      wrapper: TestWrapper
+    });
+
+    const json = new File(['{"product":"Conciergus"}'], 'product.json', { type: 'application/json' });
+    const xml = new File(['<feed><title>Release notes</title></feed>'], 'feed.xml', { type: 'application/xml' });
+
+    let documentIds: string[] = [];
+    await act(async () => {
+      documentIds = await result.current.importDocuments('kb_test', [json, xml]);
+    });
+
+    expect(documentIds).toHaveLength(2);
+    const kb = result.current.knowledgeBases.find(kb => kb.id === 'kb_test');
+    expect(kb?.documents.find(doc => doc.source === 'product.json')).toMatchObject({
+      content: '{"product":"Conciergus"}',
+      format: 'json'
+    });
+    expect(kb?.documents.find(doc => doc.source === 'feed.xml')?.content).toBe(
+      '<feed><title>Release notes</title></feed>'
+    );
+  });
+
+  it('should import the readable files and report the ones that fail to extract', async () => {
+    setupGatewayMocks();
+
+    const { result } = renderHook(() => useConciergusKnowledge({ autoIndexing: false }), {
+      wrapper: TestWrapper
+    });
+
+    const guide = new File(['<h1>Guide</h1><p>Install it</p>'], 'guide.html', { type: 'text/html' });
+    const encrypted = new File(
+      ['%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\ntrailer << /Root 1 0 R /Encrypt 2 0 R >>'],
+      'secret.pdf',
+      { type: 'application/pdf' }
+    );
+    const notes = new File(['Plain notes'], 'notes.txt', { type: 'text/plain' });
+
+    let documentIds: string[] = [];
+    await act(async () => {
+      documentIds = await result.current.importDocuments('kb_test', [guide, encrypted, notes]);
+    });
+
+    expect(documentIds).toHaveLength(2);
+    expect(result.current.lastOperation).toMatchObject({
+      type: 'importDocuments',
+      status: 'error',
+      message: expect.stringContaining('secret.pdf')
+    });
+    expect(result.current.lastOperation?.message).toContain('Encrypted');
+    const kb = result.current.knowledgeBases.find(kb => kb.id === 'kb_test');
+    expect(kb?.documents.map(doc => doc.source)).toEqual(
+      expect.arrayContaining(['guide.html', 'notes.txt'])
+    );
+    expect(kb?.documents.some(doc => doc.source === 'secret.pdf')).toBe(false);
+  });
+
+  it('should tag chunks with the page they came from', async () => {
+    setupGatewayMocks();
+
+    mockEmbedMany.mockResolvedValueOnce({
+      embeddings: [[0.1, 0.2], [0.3, 0.4]],
+      usage: { tokens: 20 }
+    });
+
+    // Split on blank lines so each page becomes its own chunk
+    const paragraphChunker = {
+      name: 'paragraph',
+      chunk: (text: string) =>
+        [...text.matchAll(/[^\n]+/g)].map((match) => ({
+          content: match[0],
+          startOffset: match.index!,
+          endOffset: match.index! + match[0].length,
+          metadata: { chunker: 'paragraph' }
+        }))
+    };
+
+    const { result } = renderHook(
+      () => useConciergusKnowledge({ chunkers: { pdf: paragraphChunker } }),
+      { wrapper: TestWrapper }
+    );
+
+    const content = 'First page text.\n\nSecond page text.';
+    const pdfDocument: KnowledgeDocument = {
+      id: 'pdf_doc',
+      title: 'Report',
+      content,
+      source: 'report.pdf',
+      format: 'pdf',
+      metadata: {
+        tags: [],
+        version: 1,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        size: content.length,
+        sections: [
+          { page: 1, startOffset: 0, endOffset: 16 },
+          { page: 2, startOffset: 18, endOffset: 35 }
+        ]
+      },
+      chunks: [],
+      embeddings: [],
+      isIndexed: false
+    };
+
+    await act(async () => {
+      const chunks = await result.current.processDocument(pdfDocument);
+      expect(chunks.map(chunk => chunk.metadata.page)).toEqual([1, 2]);
+    });
+  });
+
   it('should export knowledge base in different formats', async () => {
     setupGatewayMocks();
     
@@ -993,6 +1174,33 @@ describe('useConciergusKnowledge', () => {
       timestamp: expect.any(Date)
     });
   });
+
+  it('should drop pending auto-indexing when unmounted', async () => {
+    jest.useFakeTimers();
+    try {
+      setupGatewayMocks();
+      const { result, unmount } = renderHook(() => useConciergusKnowledge(), {
+        wrapper: TestWrapper
+      });
+
+      await act(async () => {
+        await result.current.addDocument('kb_test', {
+          title: 'Pending',
+          content: 'Indexed later',
+          source: 'pending.txt',
+          format: 'text',
+          metadata: { tags: [], version: 1, createdAt: new Date(), updatedAt: new Date(), size: 13 }
+        });
+      });
+      mockEmbedMany.mockClear();
+      unmount();
+      jest.advanceTimersByTime(1000);
+
+      expect(mockEmbedMany).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
 });
 
 describe('Integration Tests', () => {
@@ -1094,4 +1302,357 @@ describe('Integration Tests', () => {
     expect(ragAnalytics.totalSearches).toBe(2);
     expect(knowledgeAnalytics.popularDocuments[0].accessCount).toBe(2);
   });
-}); 
\ No newline at end of file
+});
+
+describe('Vector store integration', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockEmbed.mockResolvedValue({ embedding: [1, 0, 0], usage: { tokens: 10 } });
+  });
+
+  it('should search through the configured vector store', async () => {
+    setupGatewayMocks();
+    const vectorStore = new HNSWVectorStore();
+    await vectorStore.upsert(
+      [
+        {
+          id: 'chunk_1',
+          vector: [1, 0, 0],
+          content: 'This is test content for document one.',
+          metadata: { documentId: 'doc_1', chunkIndex: 0, source: 'test', tags: ['test'] }
+        },
+        {
+          id: 'chunk_stored',
+          vector: [0.9, 0.1, 0],
+          content: 'Stored only content',
+          metadata: { documentId: 'doc_stored', chunkIndex: 0, source: 'archive', title: 'Archived', tags: ['archive'] }
+        }
+      ],
+      'kb_test'
+    );
+
+    const { result } = renderHook(() => useConciergusRAG({ vectorStore }), {
+      wrapper: TestWrapper
+    });
+
+    await act(async () => {
+      const results = await result.current.search('test query', 'kb_test');
+      expect(results.map((r) => r.chunk.id)).toEqual(['chunk_1', 'chunk_stored']);
+      expect(results[0].document.title).toBe('Test Document');
+      expect(results[1].document).toMatchObject({ id: 'doc_stored', title: 'Archived' });
+      expect(results[1].chunk.content).toBe('Stored only content');
+    });
+
+    await act(async () => {
+      const filtered = await result.current.search('test query', 'kb_test', {
+        filter: { tags: 'archive' }
+      });
+      expect(filtered.map((r) => r.chunk.id)).toEqual(['chunk_stored']);
+    });
+  });
+
+  it('should write indexed chunks to the vector store and remove them with the document', async () => {
+    setupGatewayMocks();
+    mockEmbedMany.mockResolvedValue({ embeddings: [[0.1, 0.2, 0.3]], usage: { tokens: 10 } });
+    const vectorStore = new HNSWVectorStore();
+
+    const { result } = renderHook(
+      () => useConciergusKnowledge({ vectorStore, autoIndexing: false }),
+      { wrapper: TestWrapper }
+    );
+
+    let documentId = '';
+    await act(async () => {
+      documentId = await result.current.addDocument('kb_test', {
+        title: 'Stored Doc',
+        content: 'Content to be stored.',
+        source: 'test',
+        format: 'text',
+        metadata: { tags: [], version: 1, createdAt: new Date(), updatedAt: new Date(), size: 20 }
+      });
+    });
+
+    await act(async () => {
+      await result.current.indexDocument('kb_test', documentId);
+    });
+
+    expect(await vectorStore.count('kb_test')).toBe(1);
+
+    await act(async () => {
+      await result.current.removeDocument('kb_test', documentId);
+    });
+
+    expect(await vectorStore.count('kb_test')).toBe(0);
+  });
+});
+
+describe('Hybrid retrieval', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockEmbed.mockResolvedValue({ embedding: [1, 0, 0], usage: { tokens: 10 } });
+  });
+
+  const storedChunks = [
+    {
+      id: 'chunk_1',
+      vector: [1, 0, 0],
+      content: 'This is test content for document one.',
+      metadata: { documentId: 'doc_1', chunkIndex: 0, source: 'test', tags: ['test'] }
+    },
+    {
+      id: 'chunk_stored',
+      vector: [0.9, 0.1, 0],
+      content: 'Archived invoices from the billing system',
+      metadata: { documentId: 'doc_stored', chunkIndex: 0, source: 'archive', title: 'Archived', tags: ['archive'] }
+    }
+  ];
+
+  it('should fuse lexical and semantic rankings', async () => {
+    setupGatewayMocks();
+    const vectorStore = new HNSWVectorStore();
+    await vectorStore.upsert(storedChunks, 'kb_test');
+    const lexicalIndex = new BM25Index();
+    lexicalIndex.add(storedChunks, 'kb_test');
+
+    const { result } = renderHook(
+      () => useConciergusRAG({ vectorStore, lexicalIndex, similarityThreshold: 0 }),
+      { wrapper: TestWrapper }
+    );
+
+    await act(async () => {
+      const lexical = await result.current.lexicalSearch('billing invoices', 'kb_test');
+      expect(lexical.map((r) => r.chunk.id)).toEqual(['chunk_stored']);
+      expect(lexical[0].similarity).toBe(1);
+
+      const balanced = await result.current.hybridSearch('billing invoices', 'kb_test');
+      expect(balanced.map((r) => r.chunk.id)).toEqual(['chunk_stored', 'chunk_1']);
+      expect(balanced[0].relevanceScore).toBe(1);
+
+      const semanticHeavy = await result.current.hybridSearch('billing invoices', 'kb_test', {
+        semanticWeight: 1,
+        lexicalWeight: 0
+      });
+      expect(semanticHeavy.map((r) => r.chunk.id)).toEqual(['chunk_1', 'chunk_stored']);
+    });
+  });
+
+  it('should skip near-duplicate chunks when building context', () => {
+    const { result } = renderHook(() => useConciergusRAG({ enableMMR: true }), {
+      wrapper: TestWrapper
+    });
+
+    const makeResult = (id: string, content: string, score: number) => ({
+      chunk: {
+        id,
+        content,
+        embedding: [],
+        metadata: { documentId: 'doc', chunkIndex: 0, source: 'test', createdAt: new Date(), updatedAt: new Date() }
+      },
+      similarity: score,
+      relevanceScore: score,
+      document: { title: 'Doc' } as any,
+      context: {}
+    });
+
+    const context = result.current.buildContext([
+      makeResult('a', 'Refunds are processed within five days', 0.9),
+      makeResult('b', 'Refunds are processed within five days', 0.85),
+      makeResult('c', 'Shipping is free over fifty dollars', 0.8)
+    ]);
+
+    expect(context).toBe(
+      '[1] Doc: Refunds are processed within five days\n\n[2] Doc: Shipping is free over fifty dollars'
+    );
+  });
+
+  it('should keep the lexical index in sync with indexing', async () => {
+    setupGatewayMocks();
+    mockEmbedMany.mockResolvedValue({ embeddings: [[0.1, 0.2, 0.3]], usage: { tokens: 10 } });
+    const lexicalIndex = new BM25Index();
+
+    const { result } = renderHook(
+      () => useConciergusKnowledge({ lexicalIndex, autoIndexing: false }),
+      { wrapper: TestWrapper }
+    );
+
+    let documentId = '';
+    await act(async () => {
+      documentId = await result.current.addDocument('kb_test', {
+        title: 'Lexical Doc',
+        content: 'Quarterly revenue grew strongly.',
+        source: 'test',
+        format: 'text',
+        metadata: { tags: [], version: 1, createdAt: new Date(), updatedAt: new Date(), size: 20 }
+      });
+    });
+
+    await act(async () => {
+      await result.current.indexDocument('kb_test', documentId);
+    });
+
+    expect(lexicalIndex.search({ query: 'revenue', topK: 1, namespace: 'kb_test' })).toHaveLength(1);
+
+    await act(async () => {
+      await result.current.removeDocument('kb_test', documentId);
+    });
+
+    expect(lexicalIndex.count('kb_test')).toBe(0);
+  });
+});
+
+describe('Incremental indexing', () => {
+  // Split on blank lines so each paragraph becomes its own chunk
+  const paragraphChunker = {
+    name: 'paragraph',
+    chunk: (text: string) =>
+      [...text.matchAll(/[^\n]+/g)].map((match) => ({
+        content: match[0],
+        startOffset: match.index!,
+        endOffset: match.index! + match[0].length,
+        metadata: { chunker: 'paragraph' }
+      }))
+  };
+
+  const addManual = async (result: { current: ReturnType<typeof useConciergusKnowledge> }, content: string) => {
+    let documentId = '';
+    await act(async () => {
+      documentId = await result.current.addDocument('kb_test', {
+        title: 'Manual',
+        content,
+        source: 'manual.txt',
+        format: 'text',
+        metadata: { tags: [], version: 1, createdAt: new Date(), updatedAt: new Date(), size: content.length }
+      });
+    });
+    return documentId;
+  };
+
+  const embeddedTexts = () => mockEmbedMany.mock.calls.flatMap(([options]: any) => options.values);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockEmbedMany.mockImplementation(async ({ values }: any) => ({
+      embeddings: values.map((value: string) => [value.length, 1]),
+      usage: { tokens: 10 }
+    }));
+  });
+
+  it('should only re-embed chunks whose content changed', async () => {
+    setupGatewayMocks();
+    const { result } = renderHook(
+      () =>
+        useConciergusKnowledge({
+          autoIndexing: false,
+          chunkers: { text: paragraphChunker }
+        }),
+      { wrapper: TestWrapper }
+    );
+
+    const documentId = await addManual(result, 'Alpha section.\n\nBeta section.\n\nGamma section.');
+    await act(async () => {
+      await result.current.indexDocument('kb_test', documentId);
+    });
+    expect(result.current.lastOperation?.message).toContain('(3 chunks embedded, 0 unchanged)');
+
+    await act(async () => {
+      await result.current.updateDocument('kb_test', documentId, {
+        content: 'Alpha section.\n\nBeta section, revised.\n\nGamma section.'
+      });
+    });
+    await act(async () => {
+      await result.current.indexDocument('kb_test', documentId);
+    });
+
+    expect(result.current.lastOperation?.message).toContain('(1 chunks embedded, 2 unchanged)');
+    const document = result.current.getDocument('kb_test', documentId)!;
+    expect(document.chunks.map((chunk) => chunk.embedding)).toEqual([[14, 1], [22, 1], [14, 1]]);
+    expect(document.chunks[1].metadata.contentHash).toMatch(/^[0-9a-f]{64}$/);
+
+    const kb = result.current.knowledgeBases.find((kb) => kb.id === 'kb_test')!;
+    expect(kb.statistics.totalChunks).toBe(4); // Gateway document + 3 paragraphs
+  });
+
+  it('should share embeddings through a persistent cache', async () => {
+    setupGatewayMocks();
+    const stored = new Map<string, string>();
+    const embeddingCache = new StorageEmbeddingCache({
+      getItem: (key) => stored.get(key) ?? null,
+      setItem: (key, value) => void stored.set(key, value),
+      removeItem: (key) => void stored.delete(key),
+      keys: () => [...stored.keys()]
+    });
+    const content = 'Cached paragraph one.\n\nCached paragraph two.';
+
+    const first = renderHook(
+      () => useConciergusKnowledge({ autoIndexing: false, embeddingCache, chunkers: { text: paragraphChunker } }),
+      { wrapper: TestWrapper }
+    );
+    const firstId = await addManual(first.result, content);
+    mockEmbedMany.mockClear();
+    await act(async () => {
+      await first.result.current.indexDocument('kb_test', firstId);
+    });
+    expect(embeddedTexts()).toEqual(['Cached paragraph one.', 'Cached paragraph two.']);
+    expect(await embeddingCache.size()).toBe(2);
+
+    // A fresh hook has an empty in-memory cache but the same persistent one
+    const second = renderHook(
+      () => useConciergusKnowledge({ autoIndexing: false, embeddingCache, chunkers: { text: paragraphChunker } }),
+      { wrapper: TestWrapper }
+    );
+    const secondId = await addManual(second.result, content);
+    mockEmbedMany.mockClear();
+    await act(async () => {
+      await second.result.current.indexDocument('kb_test', secondId);
+    });
+
+    expect(embeddedTexts()).toEqual([]);
+    expect(second.result.current.getDocument('kb_test', secondId)?.chunks).toHaveLength(2);
+  });
+
+  it('should reindex through a job that reports progress', async () => {
+    setupGatewayMocks();
+    const indexingJobStore = new MemoryIndexingJobStore();
+    const { result } = renderHook(
+      () => useConciergusKnowledge({ autoIndexing: false, indexingJobStore }),
+      { wrapper: TestWrapper }
+    );
+
+    await act(async () => {
+      await result.current.reindexAll();
+    });
+
+    const [job] = result.current.indexingJobs;
+    expect(job).toMatchObject({ status: 'completed', nextTask: 1, embeddedChunks: 1, failures: [] });
+    expect((await indexingJobStore.load(job.id))?.status).toBe('completed');
+    expect(result.current.knowledgeBases[0].statistics.indexingProgress).toBe(100);
+    expect(result.current.isIndexing).toBe(false);
+  });
+
+  it('should resume a persisted job where it stopped', async () => {
+    setupGatewayMocks();
+    const indexingJobStore = new MemoryIndexingJobStore();
+    const saved = IndexingJob.createState(
+      [
+        { knowledgeBaseId: 'kb_test', documentId: 'doc_already_done' },
+        { knowledgeBaseId: 'kb_test', documentId: 'doc_1' }
+      ],
+      { id: 'job_saved' }
+    );
+    await indexingJobStore.save({ ...saved, status: 'paused', nextTask: 1 });
+
+    const { result } = renderHook(
+      () => useConciergusKnowledge({ autoIndexing: false, indexingJobStore }),
+      { wrapper: TestWrapper }
+    );
+
+    let finalState: any;
+    await act(async () => {
+      finalState = await result.current.resumeIndexingJob('job_saved');
+    });
+
+    expect(finalState).toMatchObject({ status: 'completed', nextTask: 2, failures: [] });
+    expect(result.current.getDocument('kb_test', 'doc_1')?.chunks[0].metadata.contentHash).toBeDefined();
+    await expect(result.current.resumeIndexingJob('missing')).rejects.toThrow('Indexing job not found');
+  });
+});
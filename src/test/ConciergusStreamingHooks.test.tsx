@@ -228,18 +228,203 @@ describe('useConciergusTextStream Hook', () => {
 
     expect(result.current.isStreaming).toBe(false);
 
-    // Test pause/resume (these are placeholder implementations)
-    const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+    // Pausing with no stream running is a no-op
+    act(() => {
+      result.current.pauseStreaming();
+    });
+
+    expect(result.current.isPaused).toBe(false);
+
+    act(() => {
+      result.current.resumeStreaming();
+    });
+
+    expect(result.current.isPaused).toBe(false);
+  });
+
+  it('should not hold the next stream after pausing while idle', async () => {
+    mockStreamText.mockResolvedValue({
+      textStream: (async function* () {
+        yield 'done';
+      })()
+    } as any);
+
+    const { result } = renderHook(() => useConciergusTextStream({
+      streamingSpeed: 'fast'
+    }), {
+      wrapper: TestWrapper
+    });
 
     act(() => {
       result.current.pauseStreaming();
+    });
+
+    await act(async () => {
+      await expect(result.current.streamText('Test prompt')).resolves.toBe('done');
+    });
+    expect(result.current.isPaused).toBe(false);
+  });
+
+  it('should stop pulling parts while paused', async () => {
+    const pulled: string[] = [];
+    let produceMore = () => {};
+    const morePartsReady = new Promise<void>((resolve) => {
+      produceMore = resolve;
+    });
+    const mockTextStream = {
+      textStream: (async function* () {
+        pulled.push('a');
+        yield 'a';
+        await morePartsReady;
+        for (const part of ['b', 'c']) {
+          pulled.push(part);
+          yield part;
+        }
+      })()
+    };
+
+    mockStreamText.mockResolvedValue(mockTextStream as any);
+
+    const { result } = renderHook(() => useConciergusTextStream({
+      streamingSpeed: 'fast'
+    }), {
+      wrapper: TestWrapper
+    });
+
+    let streamPromise: Promise<string>;
+    act(() => {
+      streamPromise = result.current.streamText('Test prompt');
+    });
+
+    await waitFor(() => {
+      expect(result.current.currentText).toBe('a');
+    });
+    act(() => {
+      result.current.pauseStreaming();
+    });
+    produceMore();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    // The next part is held and nothing further is pulled
+    expect(pulled).toEqual(['a', 'b']);
+    expect(result.current.currentText).toBe('a');
+
+    act(() => {
       result.current.resumeStreaming();
     });
 
-    expect(consoleSpy).toHaveBeenCalledWith('Pause streaming not yet implemented');
-    expect(consoleSpy).toHaveBeenCalledWith('Resume streaming not yet implemented');
+    await act(async () => {
+      await expect(streamPromise!).resolves.toBe('abc');
+    });
+    expect(pulled).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should reconnect to a resumable stream and replay missed parts', async () => {
+    const deltas = ['Hello', ', ', 'world', '!'];
+    let dropped = false;
+    const transport = {
+      start: jest.fn(async () => ({ streamId: 'stream_1' })),
+      connect: jest.fn(async function* (_streamId: string, fromOffset: number) {
+        // Replays from the requested offset, like the server buffer
+        for (let offset = fromOffset; offset < deltas.length; offset++) {
+          if (offset === 2 && !dropped) {
+            dropped = true;
+            throw new Error('Network connection lost');
+          }
+          yield { offset, part: { type: 'text-delta' as const, textDelta: deltas[offset] } };
+        }
+      })
+    };
+
+    const { result } = renderHook(() => useConciergusTextStream({
+      streamingSpeed: 'fast',
+      reconnectDelay: 0
+    }), {
+      wrapper: TestWrapper
+    });
+
+    const updates: string[] = [];
+    act(() => {
+      result.current.onStreamUpdate((_text, delta) => updates.push(delta));
+    });
+
+    let finalText = '';
+    await act(async () => {
+      finalText = await result.current.streamText('Test prompt', {
+        model: 'gpt-4',
+        transport
+      });
+    });
+
+    expect(finalText).toBe('Hello, world!');
+    expect(updates).toEqual(deltas);
+    expect(transport.start).toHaveBeenCalledWith(
+      expect.objectContaining({ prompt: 'Test prompt', model: 'gpt-4' })
+    );
+    expect(transport.connect.mock.calls.map(([id, offset]) => [id, offset])).toEqual([
+      ['stream_1', 0],
+      ['stream_1', 2]
+    ]);
+    expect(mockStreamText).not.toHaveBeenCalled();
+    expect(result.current.streamId).toBe('stream_1');
+    expect(result.current.streamOffset).toBe(4);
+    expect(result.current.connectionState).toBe('idle');
+  });
+
+  it('should not reconnect when generation failed on the server', async () => {
+    const transport = {
+      start: jest.fn(async () => ({ streamId: 'stream_1' })),
+      connect: jest.fn(async function* () {
+        yield { offset: 0, part: { type: 'text-delta' as const, textDelta: 'Hi' } };
+        yield { offset: 1, part: { type: 'error' as const, error: 'Model overloaded' } };
+      })
+    };
+
+    const { result } = renderHook(() => useConciergusTextStream({
+      streamingSpeed: 'fast',
+      reconnectDelay: 0
+    }), {
+      wrapper: TestWrapper
+    });
+
+    await act(async () => {
+      await expect(
+        result.current.resumeStream(transport, 'stream_1')
+      ).rejects.toThrow('Model overloaded');
+    });
 
-    consoleSpy.mockRestore();
+    expect(transport.connect).toHaveBeenCalledTimes(1);
+    expect(result.current.isStreaming).toBe(false);
+  });
+
+  it('should give up after the configured reconnect attempts', async () => {
+    const transport = {
+      start: jest.fn(async () => ({ streamId: 'stream_1' })),
+      connect: jest.fn(async function* (): AsyncGenerator<never> {
+        throw new Error('Network connection lost');
+      })
+    };
+
+    const { result } = renderHook(() => useConciergusTextStream({
+      retryAttempts: 2,
+      reconnectDelay: 0
+    }), {
+      wrapper: TestWrapper
+    });
+
+    await act(async () => {
+      await expect(
+        result.current.resumeStream(transport, 'stream_1', 3)
+      ).rejects.toThrow('Network connection lost');
+    });
+
+    expect(transport.connect).toHaveBeenCalledTimes(3);
+    expect(transport.connect).toHaveBeenLastCalledWith(
+      'stream_1',
+      3,
+      expect.any(AbortSignal)
+    );
+    expect(result.current.connectionState).toBe('idle');
   });
 
   it('should calculate streaming metrics correctly', async () => {
@@ -0,0 +1,278 @@
+/**
+ * Tests for resumable stream buffering and reconnects
+ */
+
+import {
+  ResumableStreamBuffer,
+  MemoryStreamBufferStore,
+  RedisStreamBufferStore,
+  StreamBufferScripts,
+  createHttpStreamTransport,
+  type BufferedStreamPart,
+} from '../context/ResumableStreams';
+import type { StreamTextPart } from '../context/ConciergusStreamingHooks';
+import type { RedisCache } from '../cache/RedisCache';
+
+const delta = (textDelta: string): StreamTextPart => ({
+  type: 'text-delta',
+  textDelta,
+});
+
+/**
+ * Source that yields its parts on separate ticks, like a model stream
+ */
+async function* generate(
+  texts: string[],
+  error?: Error
+): AsyncGenerator<StreamTextPart> {
+  for (const text of texts) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    yield delta(text);
+  }
+  if (error) throw error;
+}
+
+async function collect(
+  parts: AsyncIterable<BufferedStreamPart>
+): Promise<BufferedStreamPart[]> {
+  const collected: BufferedStreamPart[] = [];
+  for await (const part of parts) {
+    collected.push(part);
+  }
+  return collected;
+}
+
+/**
+ * Redis stand-in that runs each script's equivalent against maps
+ */
+function createRedis() {
+  const lists = new Map<string, string[]>();
+  const values = new Map<string, string>();
+
+  const evalScript = jest.fn(
+    async (
+      script: string,
+      keys: string[],
+      args: Array<string | number> = []
+    ) => {
+      const [partsKey, statusKey] = keys as [string, string];
+      if (script === StreamBufferScripts.append) {
+        lists.set(partsKey, [
+          ...(lists.get(partsKey) ?? []),
+          ...args.slice(1).map(String),
+        ]);
+        if (!values.has(statusKey)) values.set(statusKey, 'streaming');
+        return 1;
+      }
+      if (script === StreamBufferScripts.read) {
+        const status = values.get(statusKey);
+        if (!status) return null;
+        return [status, (lists.get(partsKey) ?? []).slice(Number(args[0]))];
+      }
+      if (script === StreamBufferScripts.finish) {
+        values.set(statusKey, String(args[0]));
+        return 1;
+      }
+      if (script === StreamBufferScripts.delete) {
+        return (
+          Number(lists.delete(partsKey)) + Number(values.delete(statusKey))
+        );
+      }
+      throw new Error('Unknown script');
+    }
+  );
+
+  const redis = {
+    eval: evalScript,
+  } as unknown as RedisCache;
+  return { redis, evalScript };
+}
+
+describe('ResumableStreamBuffer', () => {
+  it('should replay buffered parts and follow the stream until it completes', async () => {
+    const buffer = new ResumableStreamBuffer(new MemoryStreamBufferStore(), {
+      pollInterval: 1000,
+    });
+    const writing = buffer.pipe('stream_1', generate(['a', 'b', 'c']));
+
+    // Joins while the first part is still being generated
+    const [fromStart] = await Promise.all([
+      collect(buffer.read('stream_1')),
+      writing,
+    ]);
+    const fromOffset = await collect(buffer.read('stream_1', 2));
+
+    expect(fromStart).toEqual([
+      { offset: 0, part: delta('a') },
+      { offset: 1, part: delta('b') },
+      { offset: 2, part: delta('c') },
+    ]);
+    expect(fromOffset).toEqual([{ offset: 2, part: delta('c') }]);
+  });
+
+  it('should record a failed generation as an error part', async () => {
+    const store = new MemoryStreamBufferStore();
+    const buffer = new ResumableStreamBuffer(store);
+
+    await buffer.pipe(
+      'stream_1',
+      generate(['a'], new Error('Model overloaded'))
+    );
+
+    expect(await store.read('stream_1', 1)).toEqual({
+      parts: [
+        { offset: 1, part: { type: 'error', error: 'Model overloaded' } },
+      ],
+      status: 'error',
+    });
+  });
+
+  it('should fail reads of unknown or expired streams', async () => {
+    const store = new MemoryStreamBufferStore();
+    const buffer = new ResumableStreamBuffer(store, { ttl: 1000 });
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    await buffer.pipe('stream_1', [
+      delta('a'),
+    ] as unknown as AsyncIterable<StreamTextPart>);
+
+    now.mockReturnValue(1001);
+
+    await expect(collect(buffer.read('stream_1'))).rejects.toThrow(
+      'Stream stream_1 not found or expired'
+    );
+    now.mockRestore();
+  });
+
+  it('should share parts between instances through Redis', async () => {
+    const { redis, evalScript } = createRedis();
+    const writer = new ResumableStreamBuffer(new RedisStreamBufferStore(redis));
+    const reader = new ResumableStreamBuffer(
+      new RedisStreamBufferStore(redis),
+      {
+        pollInterval: 1,
+      }
+    );
+    const writing = writer.pipe('stream_1', generate(['a', 'b']));
+
+    // The reader is only woken by polling, as on another instance
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const [parts] = await Promise.all([
+      collect(reader.read('stream_1')),
+      writing,
+    ]);
+
+    expect(parts.map(({ offset, part }) => [offset, part.textDelta])).toEqual([
+      [0, 'a'],
+      [1, 'b'],
+    ]);
+    expect(evalScript).toHaveBeenCalledWith(
+      StreamBufferScripts.append,
+      ['stream:stream_1:parts', 'stream:stream_1:status'],
+      [600000, JSON.stringify(delta('a'))]
+    );
+
+    await writer.delete('stream_1');
+    expect(evalScript).toHaveBeenLastCalledWith(StreamBufferScripts.delete, [
+      'stream:stream_1:parts',
+      'stream:stream_1:status',
+    ]);
+    await expect(collect(reader.read('stream_1'))).rejects.toThrow(
+      'not found or expired'
+    );
+  });
+});
+
+describe('createHttpStreamTransport', () => {
+  it('should read parts from the event stream from the requested offset', async () => {
+    const buffer = new ResumableStreamBuffer();
+    await buffer.pipe('stream_1', generate(['a', 'b', 'c']));
+    const fetch = jest.fn(async (url: string) => {
+      const params = new URL(url).searchParams;
+      return {
+        ok: true,
+        body: buffer.toEventStream(
+          params.get('streamId')!,
+          Number(params.get('offset'))
+        ),
+      } as unknown as Response;
+    });
+    const transport = createHttpStreamTransport({
+      url: 'https://chat.example.com/api/stream',
+      fetch,
+    });
+
+    const parts = await collect(
+      transport.connect('stream_1', 1, new AbortController().signal)
+    );
+
+    expect(fetch).toHaveBeenCalledWith(
+      'https://chat.example.com/api/stream?streamId=stream_1&offset=1',
+      expect.objectContaining({
+        headers: { Accept: 'text/event-stream' },
+      })
+    );
+    expect(parts).toEqual([
+      { offset: 1, part: delta('b') },
+      { offset: 2, part: delta('c') },
+    ]);
+  });
+
+  it('should fail when the connection closes before the stream finished', async () => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(
+          encoder.encode(
+            `id: 0\ndata: ${JSON.stringify(delta('a'))}\n\nid: 1\nda`
+          )
+        );
+        controller.close();
+      },
+    });
+    const transport = createHttpStreamTransport({
+      url: 'https://chat.example.com/api/stream',
+      fetch: jest.fn(async () => ({ ok: true, body }) as unknown as Response),
+    });
+
+    const received: BufferedStreamPart[] = [];
+    await expect(
+      (async () => {
+        for await (const part of transport.connect(
+          'stream_1',
+          0,
+          new AbortController().signal
+        )) {
+          received.push(part);
+        }
+      })()
+    ).rejects.toThrow('Stream connection closed before the stream finished');
+    expect(received).toEqual([{ offset: 0, part: delta('a') }]);
+  });
+
+  it('should start streams with a POST of the prompt', async () => {
+    const fetch = jest.fn(
+      async () =>
+        ({
+          ok: true,
+          json: async () => ({ streamId: 'stream_1' }),
+        }) as unknown as Response
+    );
+    const transport = createHttpStreamTransport({
+      url: '/api/stream',
+      headers: { Authorization: 'Bearer token' },
+      fetch,
+    });
+
+    await expect(
+      transport.start({ prompt: 'Hello', model: 'gpt-4' })
+    ).resolves.toEqual({ streamId: 'stream_1' });
+    expect(fetch).toHaveBeenCalledWith('/api/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer token',
+      },
+      body: JSON.stringify({ prompt: 'Hello', model: 'gpt-4' }),
+    });
+  });
+});
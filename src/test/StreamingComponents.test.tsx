@@ -84,6 +84,24 @@ describe('StreamingIndicator', () => {
          const indicator = screen.getByText(/AI is writing/i);
      expect(indicator).toBeInTheDocument();
   });
+
+  it('shows reconnecting state while a dropped stream resumes', () => {
+    render(
+      <StreamingIndicator
+        isStreaming={true}
+        streamingType="text"
+        isReconnecting={true}
+        reconnectAttempt={2}
+      />
+    );
+
+    expect(screen.getByText('Reconnecting (attempt 2)...')).toBeInTheDocument();
+    expect(screen.queryByText(/AI is writing/i)).not.toBeInTheDocument();
+    expect(screen.getByTestId('streaming-indicator')).toHaveAttribute(
+      'data-connection-state',
+      'reconnecting'
+    );
+  });
 });
 
 describe('MessageStreamRenderer', () => {
@@ -294,6 +294,7 @@ type CustomConversation = ConversationWithAgents<CustomAgent>;
 
 const customConv: CustomConversation = {
   id: 'conv-1',
+  tenantId: 'tenant-1',
   userId: 'user-1',
   status: 'active',
   createdAt: new Date(),
@@ -745,6 +745,10 @@ export interface StreamingIndicatorProps {
   customMessage?: string;
   /** Animation speed */
   animationSpeed?: 'slow' | 'medium' | 'fast';
+  /** Resuming after a dropped connection */
+  isReconnecting?: boolean;
+  /** Current reconnect attempt */
+  reconnectAttempt?: number;
 }
 
 /**
@@ -101,6 +101,8 @@ export interface ConversationAttachment {
 export interface Conversation {
   /** Unique conversation identifier */
   id: string;
+  /** Tenant (customer organization) the conversation belongs to */
+  tenantId: string;
   /** User who owns this conversation */
   userId: string;
   /** Conversation title */
@@ -168,6 +170,23 @@ export interface ConversationListItem {
   averageResponseTime?: number;
 }
 
+export interface AgentHandoffRecord {
+  /** Unique handoff identifier */
+  id: string;
+  /** Conversation the handoff happened in */
+  conversationId: string;
+  /** Agent handing off (null when the conversation had no agent) */
+  fromAgentId: string | null;
+  /** Agent taking over */
+  toAgentId: string;
+  /** Why the handoff happened */
+  reason: string;
+  /** Handoff timestamp */
+  createdAt: Date;
+  /** Context passed to the receiving agent */
+  sharedContext?: Record<string, any>;
+}
+
 export interface ConversationSearchResult {
   /** Conversation info */
   conversation: ConversationListItem;
@@ -212,10 +231,16 @@ export interface ConversationFilter {
 }
 
 export interface ConversationPagination {
-  /** Page number (0-based) */
+  /** Page number (0-based), ignored when `cursor` is set */
   page: number;
   /** Items per page */
   pageSize: number;
+  /** Opaque cursor from a previous page's `nextCursor` */
+  cursor?: string;
+  /** Cursor for the following page, absent on the last page */
+  nextCursor?: string;
+  /** Whether more items follow this page */
+  hasMore?: boolean;
   /** Total items available */
   total?: number;
   /** Total pages available */
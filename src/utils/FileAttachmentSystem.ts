@@ -7,6 +7,10 @@
  */
 
 import type { ContentAttachment } from '../components/MessageFormatting';
+import {
+  DocumentExtractorRegistry,
+  type ExtractedDocument,
+} from '../knowledge/DocumentExtractors';
 
 /**
  * File validation configuration
@@ -72,6 +76,7 @@ export interface FileStorageConfig {
   enableCDN: boolean;
   cdnUrl?: string;
   signedUrlExpiry: number; // seconds
+  extractText: boolean; // Attach extracted text to document attachments
 }
 
 /**
@@ -437,10 +442,12 @@ export class FileUploadManager {
   private storageConfig: FileStorageConfig;
   private validator: FileValidator;
   private activeUploads = new Map<string, FileUploadProgress>();
+  private extractors: DocumentExtractorRegistry;
 
   constructor(
     storageConfig: Partial<FileStorageConfig> = {},
-    validationConfig: Partial<FileValidationConfig> = {}
+    validationConfig: Partial<FileValidationConfig> = {},
+    extractors: DocumentExtractorRegistry = new DocumentExtractorRegistry()
   ) {
     this.storageConfig = {
       provider: 'supabase',
@@ -452,10 +459,12 @@ export class FileUploadManager {
       ],
       enableCDN: true,
       signedUrlExpiry: 3600,
+      extractText: false,
       ...storageConfig,
     };
 
     this.validator = new FileValidator(validationConfig);
+    this.extractors = extractors;
   }
 
   /**
@@ -525,6 +534,34 @@ export class FileUploadManager {
           );
         }
 
+        // Extract document text for search and RAG ingestion
+        if (
+          this.storageConfig.extractText &&
+          !file.type.startsWith('image/') &&
+          this.extractors.canExtract({ name: file.name, mimeType: file.type })
+        ) {
+          // An unreadable document is still uploaded, just without its text
+          try {
+            const extracted = await this.extractText(file);
+            attachment.metadata = {
+              ...attachment.metadata,
+              extractedText: extracted.text,
+              extractedFormat: extracted.format,
+              sections: extracted.sections,
+              ...extracted.metadata,
+            };
+            if (extracted.title && !attachment.description) {
+              attachment.description = extracted.title;
+            }
+          } catch (error) {
+            attachment.metadata = {
+              ...attachment.metadata,
+              extractionError:
+                error instanceof Error ? error.message : 'Extraction failed',
+            };
+          }
+        }
+
         progress.status = 'complete';
         onProgress?.(progressList);
 
@@ -656,6 +693,13 @@ export class FileUploadManager {
     );
   }
 
+  /**
+   * Extract clean text from a document file (PDF, DOCX, HTML, CSV, text)
+   */
+  async extractText(file: File): Promise<ExtractedDocument> {
+    return this.extractors.extract(file);
+  }
+
   /**
    * Get upload progress for active uploads
    */
@@ -680,9 +724,10 @@ export function createFileValidator(
 
 export function createFileUploadManager(
   storageConfig?: Partial<FileStorageConfig>,
-  validationConfig?: Partial<FileValidationConfig>
+  validationConfig?: Partial<FileValidationConfig>,
+  extractors?: DocumentExtractorRegistry
 ): FileUploadManager {
-  return new FileUploadManager(storageConfig, validationConfig);
+  return new FileUploadManager(storageConfig, validationConfig, extractors);
 }
 
 export default {